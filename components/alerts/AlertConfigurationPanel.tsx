@@ -46,6 +46,29 @@ import {
   NotificationSettings,
   AlertConfiguration
 } from '../../types/alerts';
+import {
+  alertService,
+  AlertRuleThreshold,
+  ALERT_TYPES,
+  ANOMALY_ALERT_TYPE,
+  isAnomalyThreshold,
+  getLifecycleSettings
+} from '../../services/alertService';
+import { AlertLifecycleSettings } from '../../services/alertLifecycle';
+import { ENTITY_SCOPE_LABELS, InventoryEntityScope } from '../../services/inventoryEntities';
+import { alertDeliveryService } from '../../services/alertDelivery';
+import EscalationSettings from './EscalationSettings';
+import DeliverySettings from './DeliverySettings';
+import SilenceSettings from './SilenceSettings';
+import RuleSetSettings from './RuleSetSettings';
+import { AlertRuleSet, RuleSetImportMode } from '../../services/alertRuleSets';
+import { formatLabels, parseLabels } from '../../services/alertSilences';
+import { ExpressionError } from '../../services/alertExpressions';
+import {
+  AnomalySettings,
+  DEFAULT_ANOMALY_SETTINGS,
+  validateAnomalySettings
+} from '../../services/anomalyDetection';
 
 interface AlertConfigurationPanelProps {
   open: boolean;
@@ -54,6 +77,8 @@ interface AlertConfigurationPanelProps {
   onUpdateThreshold: (threshold: AlertThreshold) => void;
   onDeleteThreshold: (thresholdId: string) => void;
   onUpdateGlobalSettings: (settings: Partial<AlertConfiguration['globalSettings']>) => void;
+  onImportRuleSet: (ruleSet: AlertRuleSet, mode: RuleSetImportMode) => void;
+  onRollbackRuleSet: (version: number) => void;
 }
 
 interface TabPanelProps {
@@ -74,12 +99,15 @@ const AlertConfigurationPanel: React.FC<AlertConfigurationPanelProps> = ({
   configuration,
   onUpdateThreshold,
   onDeleteThreshold,
-  onUpdateGlobalSettings
+  onUpdateGlobalSettings,
+  onImportRuleSet,
+  onRollbackRuleSet
 }) => {
   const [currentTab, setCurrentTab] = useState(0);
   const [editingThreshold, setEditingThreshold] = useState<AlertThreshold | null>(null);
   const [isCreating, setIsCreating] = useState(false);
   const [globalSettings, setGlobalSettings] = useState(configuration.globalSettings);
+  const [expressionErrors, setExpressionErrors] = useState<ExpressionError[]>([]);
 
   useEffect(() => {
     setGlobalSettings(configuration.globalSettings);
@@ -114,13 +142,44 @@ const AlertConfigurationPanel: React.FC<AlertConfigurationPanelProps> = ({
     setIsCreating(true);
   };
 
+  const validateRuleExpression = (expression?: string): ExpressionError[] =>
+    expression?.trim() ? alertService.validateRuleExpression(expression) : [];
+
   const handleEditThreshold = (threshold: AlertThreshold) => {
     setEditingThreshold({ ...threshold });
+    setExpressionErrors(validateRuleExpression((threshold as AlertRuleThreshold).expression));
     setIsCreating(false);
   };
 
-  const handleSaveThreshold = () => {
+  const updateExpression = (expression: string) => {
+    if (editingThreshold) {
+      setEditingThreshold({ ...editingThreshold, expression } as AlertRuleThreshold);
+      setExpressionErrors(validateRuleExpression(expression));
+    }
+  };
+
+  const updateAnomalySettings = (field: keyof AnomalySettings, value: any) => {
+    if (editingThreshold) {
+      const anomaly = (editingThreshold as AlertRuleThreshold).anomaly || DEFAULT_ANOMALY_SETTINGS;
+      setEditingThreshold({ ...editingThreshold, anomaly: { ...anomaly, [field]: value } } as AlertRuleThreshold);
+    }
+  };
+
+  const anomalyErrors = editingThreshold && isAnomalyThreshold(editingThreshold)
+    ? validateAnomalySettings(editingThreshold.anomaly)
+    : [];
+
+  const clearRuleErrors = validateRuleExpression((editingThreshold as AlertRuleThreshold | null)?.lifecycle?.clearRule);
+
+  const updateLifecycleSettings = (field: keyof AlertLifecycleSettings, value: any) => {
     if (editingThreshold) {
+      const lifecycle = (editingThreshold as AlertRuleThreshold).lifecycle || {};
+      setEditingThreshold({ ...editingThreshold, lifecycle: { ...lifecycle, [field]: value } } as AlertRuleThreshold);
+    }
+  };
+
+  const handleSaveThreshold = () => {
+    if (editingThreshold && expressionErrors.length === 0 && anomalyErrors.length === 0 && clearRuleErrors.length === 0) {
       onUpdateThreshold(editingThreshold);
       setEditingThreshold(null);
       setIsCreating(false);
@@ -129,6 +188,7 @@ const AlertConfigurationPanel: React.FC<AlertConfigurationPanelProps> = ({
 
   const handleCancelEdit = () => {
     setEditingThreshold(null);
+    setExpressionErrors([]);
     setIsCreating(false);
   };
 
@@ -150,6 +210,14 @@ const AlertConfigurationPanel: React.FC<AlertConfigurationPanelProps> = ({
     }
   };
 
+  const updateAlertType = (type: AlertType) => {
+    if (editingThreshold) {
+      const anomaly = (editingThreshold as AlertRuleThreshold).anomaly
+        || (type === ANOMALY_ALERT_TYPE ? { ...DEFAULT_ANOMALY_SETTINGS } : undefined);
+      setEditingThreshold({ ...editingThreshold, type, ...(anomaly ? { anomaly } : {}) } as AlertRuleThreshold);
+    }
+  };
+
   const updateCondition = (index: number, field: keyof AlertCondition, value: any) => {
     if (editingThreshold) {
       const newConditions = [...editingThreshold.conditions];
@@ -194,6 +262,11 @@ const AlertConfigurationPanel: React.FC<AlertConfigurationPanelProps> = ({
   const renderThresholdEditor = () => {
     if (!editingThreshold) return null;
 
+    const expression = (editingThreshold as AlertRuleThreshold).expression || '';
+    const hasExpression = expression.trim().length > 0;
+    const anomaly = isAnomalyThreshold(editingThreshold) ? editingThreshold.anomaly : null;
+    const lifecycle = getLifecycleSettings(editingThreshold);
+
     return (
       <Card sx={{ mb: 2 }}>
         <CardContent>
@@ -213,9 +286,9 @@ const AlertConfigurationPanel: React.FC<AlertConfigurationPanelProps> = ({
               <InputLabel>Alert Type</InputLabel>
               <Select
                 value={editingThreshold.type}
-                onChange={(e) => updateThresholdField('type', e.target.value)}
+                onChange={(e) => updateAlertType(e.target.value as AlertType)}
               >
-                {Object.values(AlertType).map(type => (
+                {ALERT_TYPES.map(type => (
                   <MenuItem key={type} value={type}>
                     {type.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
                   </MenuItem>
@@ -256,73 +329,252 @@ const AlertConfigurationPanel: React.FC<AlertConfigurationPanelProps> = ({
               }
               label="Enabled"
             />
+
+            <TextField
+              key={`labels_${editingThreshold.id}`}
+              label="Labels (key=value, comma separated)"
+              defaultValue={formatLabels((editingThreshold as AlertRuleThreshold).labels)}
+              onBlur={(e) => setEditingThreshold({
+                ...editingThreshold,
+                labels: parseLabels(e.target.value)
+              } as AlertRuleThreshold)}
+              helperText="Copied onto alerts so silences can match them, e.g. region=EU, team=warehouse"
+              fullWidth
+              sx={{ gridColumn: '1 / -1' }}
+            />
           </Box>
 
           <Divider sx={{ my: 2 }} />
 
-          <Typography variant="subtitle1" gutterBottom>
-            Conditions
-          </Typography>
+          {anomaly ? (
+            <>
+              <Typography variant="subtitle1" gutterBottom>
+                Anomaly Detection
+              </Typography>
+
+              <Box sx={{ display: 'grid', gap: 2, gridTemplateColumns: '1fr 1fr' }}>
+                <FormControl fullWidth>
+                  <InputLabel>Metric</InputLabel>
+                  <Select
+                    value={anomaly.metric}
+                    onChange={(e) => updateAnomalySettings('metric', e.target.value)}
+                  >
+                    {alertService.getKnownMetrics().map(metric => (
+                      <MenuItem key={metric} value={metric}>{metric}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+
+                <FormControl fullWidth>
+                  <InputLabel>Method</InputLabel>
+                  <Select
+                    value={anomaly.method}
+                    onChange={(e) => updateAnomalySettings('method', e.target.value)}
+                  >
+                    <MenuItem value="mad">Median absolute deviation</MenuItem>
+                    <MenuItem value="zscore">Z-score</MenuItem>
+                    <MenuItem value="ewma">EWMA</MenuItem>
+                  </Select>
+                </FormControl>
+
+                <FormControl fullWidth>
+                  <InputLabel>Baseline</InputLabel>
+                  <Select
+                    value={anomaly.seasonality}
+                    onChange={(e) => updateAnomalySettings('seasonality', e.target.value)}
+                  >
+                    <MenuItem value="day-of-week">Same weekday and hour</MenuItem>
+                    <MenuItem value="hour-of-day">Same hour of day</MenuItem>
+                    <MenuItem value="none">Recent hours</MenuItem>
+                  </Select>
+                </FormControl>
+
+                <FormControl fullWidth>
+                  <InputLabel>Direction</InputLabel>
+                  <Select
+                    value={anomaly.direction}
+                    onChange={(e) => updateAnomalySettings('direction', e.target.value)}
+                  >
+                    <MenuItem value="both">Drops and spikes</MenuItem>
+                    <MenuItem value="drop">Drops only</MenuItem>
+                    <MenuItem value="spike">Spikes only</MenuItem>
+                  </Select>
+                </FormControl>
+
+                <Box sx={{ gridColumn: '1 / -1' }}>
+                  <Typography gutterBottom>
+                    Sensitivity: flag values {anomaly.sensitivity} deviations from the baseline
+                  </Typography>
+                  <Slider
+                    value={anomaly.sensitivity}
+                    onChange={(e, value) => updateAnomalySettings('sensitivity', value as number)}
+                    min={1}
+                    max={6}
+                    step={0.5}
+                    marks
+                    valueLabelDisplay="auto"
+                  />
+                </Box>
+
+                <TextField
+                  label="Minimum baseline samples"
+                  type="number"
+                  value={anomaly.minSamples}
+                  onChange={(e) => updateAnomalySettings('minSamples', parseInt(e.target.value) || 0)}
+                  size="small"
+                />
+
+                {anomaly.method === 'ewma' && (
+                  <TextField
+                    label="EWMA smoothing (0-1)"
+                    type="number"
+                    value={anomaly.ewmaAlpha ?? DEFAULT_ANOMALY_SETTINGS.ewmaAlpha}
+                    onChange={(e) => updateAnomalySettings('ewmaAlpha', parseFloat(e.target.value) || 0)}
+                    inputProps={{ step: 0.05, min: 0, max: 1 }}
+                    size="small"
+                  />
+                )}
+              </Box>
+
+              {anomalyErrors.length > 0 && (
+                <MuiAlert severity="error" sx={{ mt: 1 }}>
+                  {anomalyErrors.join('; ')}
+                </MuiAlert>
+              )}
+
+              <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+                Values are averaged per hour; lower sensitivity flags smaller deviations. Nothing is flagged until the baseline has enough history.
+              </Typography>
+            </>
+          ) : (
+            <>
+              <Typography variant="subtitle1" gutterBottom>
+                Rule Expression
+              </Typography>
 
-          {editingThreshold.conditions.map((condition, index) => (
-            <Box key={index} sx={{ display: 'flex', gap: 1, mb: 1, alignItems: 'center' }}>
               <TextField
-                label="Field"
-                value={condition.field}
-                onChange={(e) => updateCondition(index, 'field', e.target.value)}
-                size="small"
-                sx={{ flex: 1 }}
+                label="Expression (optional)"
+                value={expression}
+                onChange={(e) => updateExpression(e.target.value)}
+                error={expressionErrors.length > 0}
+                helperText={
+                  expressionErrors.length > 0
+                    ? expressionErrors.map(error => `${error.message} (column ${error.start + 1})`).join('; ')
+                    : 'e.g. revenue.growth - costs.growth < -5 AND NOT (pct_change(revenue.total, 1h) > 0). Overrides the conditions below.'
+                }
+                placeholder="inventory.lowStock > 10 OR inventory.outOfStock > 0"
+                fullWidth
+                multiline
+                minRows={2}
+                inputProps={{ spellCheck: false, style: { fontFamily: 'monospace' } }}
               />
-              
-              <FormControl size="small" sx={{ minWidth: 80 }}>
+
+              {expressionErrors.length === 0 && !hasExpression && (
+                <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+                  Available metrics: {alertService.getKnownMetrics().join(', ')}
+                </Typography>
+              )}
+
+              <FormControl size="small" fullWidth sx={{ mt: 2 }}>
+                <InputLabel>Evaluate Per</InputLabel>
                 <Select
-                  value={condition.operator}
-                  onChange={(e) => updateCondition(index, 'operator', e.target.value)}
+                  label="Evaluate Per"
+                  value={(editingThreshold as AlertRuleThreshold).entityScope || ''}
+                  onChange={(e) => setEditingThreshold({
+                    ...editingThreshold,
+                    entityScope: (e.target.value as InventoryEntityScope) || undefined
+                  } as AlertRuleThreshold)}
                 >
-                  <MenuItem value="gt">&gt;</MenuItem>
-                  <MenuItem value="gte">&gt;=</MenuItem>
-                  <MenuItem value="lt">&lt;</MenuItem>
-                  <MenuItem value="lte">&lt;=</MenuItem>
-                  <MenuItem value="eq">=</MenuItem>
-                  <MenuItem value="neq">≠</MenuItem>
+                  <MenuItem value="">Whole business</MenuItem>
+                  {(Object.keys(ENTITY_SCOPE_LABELS) as InventoryEntityScope[]).map(scope => (
+                    <MenuItem key={scope} value={scope}>
+                      {ENTITY_SCOPE_LABELS[scope].singular.replace(/^\w/, l => l.toUpperCase())}
+                    </MenuItem>
+                  ))}
                 </Select>
               </FormControl>
 
-              <TextField
-                label="Value"
-                type="number"
-                value={condition.value}
-                onChange={(e) => updateCondition(index, 'value', parseFloat(e.target.value) || 0)}
-                size="small"
-                sx={{ width: 100 }}
-              />
+              {(editingThreshold as AlertRuleThreshold).entityScope && (
+                <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+                  The rule is checked for each {ENTITY_SCOPE_LABELS[(editingThreshold as AlertRuleThreshold).entityScope!].singular} and
+                  raises one alert listing all that match. entity.* metrics and inventory.lowStock, inventory.outOfStock and
+                  inventory.utilizationRate refer to the one being checked, e.g. entity.coverage &lt; 1.
+                </Typography>
+              )}
 
-              <TextField
-                label="Unit"
-                value={condition.unit || ''}
-                onChange={(e) => updateCondition(index, 'unit', e.target.value)}
-                size="small"
-                sx={{ width: 80 }}
-              />
+              <Divider sx={{ my: 2 }} />
+
+              <Typography variant="subtitle1" gutterBottom>
+                Conditions
+              </Typography>
 
-              <IconButton
+              {hasExpression && (
+                <MuiAlert severity="info" sx={{ mb: 1 }}>
+                  Conditions are ignored while a rule expression is set.
+                </MuiAlert>
+              )}
+
+              {editingThreshold.conditions.map((condition, index) => (
+                <Box key={index} sx={{ display: 'flex', gap: 1, mb: 1, alignItems: 'center' }}>
+                  <TextField
+                    label="Field"
+                    value={condition.field}
+                    onChange={(e) => updateCondition(index, 'field', e.target.value)}
+                    size="small"
+                    sx={{ flex: 1 }}
+                  />
+              
+                  <FormControl size="small" sx={{ minWidth: 80 }}>
+                    <Select
+                      value={condition.operator}
+                      onChange={(e) => updateCondition(index, 'operator', e.target.value)}
+                    >
+                      <MenuItem value="gt">&gt;</MenuItem>
+                      <MenuItem value="gte">&gt;=</MenuItem>
+                      <MenuItem value="lt">&lt;</MenuItem>
+                      <MenuItem value="lte">&lt;=</MenuItem>
+                      <MenuItem value="eq">=</MenuItem>
+                      <MenuItem value="neq">≠</MenuItem>
+                    </Select>
+                  </FormControl>
+
+                  <TextField
+                    label="Value"
+                    type="number"
+                    value={condition.value}
+                    onChange={(e) => updateCondition(index, 'value', parseFloat(e.target.value) || 0)}
+                    size="small"
+                    sx={{ width: 100 }}
+                  />
+
+                  <TextField
+                    label="Unit"
+                    value={condition.unit || ''}
+                    onChange={(e) => updateCondition(index, 'unit', e.target.value)}
+                    size="small"
+                    sx={{ width: 80 }}
+                  />
+
+                  <IconButton
+                    size="small"
+                    onClick={() => removeCondition(index)}
+                    disabled={editingThreshold.conditions.length === 1}
+                  >
+                    <DeleteIcon />
+                  </IconButton>
+                </Box>
+              ))}
+
+              <Button
+                startIcon={<AddIcon />}
+                onClick={addCondition}
                 size="small"
-                onClick={() => removeCondition(index)}
-                disabled={editingThreshold.conditions.length === 1}
+                sx={{ mt: 1 }}
               >
-                <DeleteIcon />
-              </IconButton>
-            </Box>
-          ))}
-
-          <Button
-            startIcon={<AddIcon />}
-            onClick={addCondition}
-            size="small"
-            sx={{ mt: 1 }}
-          >
-            Add Condition
-          </Button>
+                Add Condition
+              </Button>
+            </>
+          )}
 
           <Divider sx={{ my: 2 }} />
 
@@ -383,14 +635,102 @@ const AlertConfigurationPanel: React.FC<AlertConfigurationPanelProps> = ({
 
             {editingThreshold.notificationSettings.autoResolve && (
               <TextField
-                label="Auto Resolve Delay (minutes)"
+                label="Minimum Clear Time (minutes)"
                 type="number"
-                value={editingThreshold.notificationSettings.autoResolveDelay || 60}
-                onChange={(e) => updateNotificationSettings('autoResolveDelay', parseInt(e.target.value) || 60)}
+                value={editingThreshold.notificationSettings.autoResolveDelay ?? 0}
+                onChange={(e) => updateNotificationSettings('autoResolveDelay', parseInt(e.target.value) || 0)}
                 size="small"
               />
             )}
           </Box>
+
+          <Divider sx={{ my: 2 }} />
+
+          <Typography variant="subtitle1" gutterBottom>
+            Lifecycle
+          </Typography>
+
+          <Box sx={{ display: 'grid', gap: 2, gridTemplateColumns: '1fr 1fr' }}>
+            <TextField
+              label="Clear Rule (optional)"
+              value={lifecycle.clearRule || ''}
+              onChange={(e) => updateLifecycleSettings('clearRule', e.target.value)}
+              error={clearRuleErrors.length > 0}
+              helperText={
+                clearRuleErrors.length > 0
+                  ? clearRuleErrors.map(error => `${error.message} (column ${error.start + 1})`).join('; ')
+                  : 'Must hold before the alert counts as clear, e.g. inventory.lowStock < 5 for a trigger at > 10'
+              }
+              size="small"
+              inputProps={{ spellCheck: false, style: { fontFamily: 'monospace' } }}
+              sx={{ gridColumn: '1 / -1' }}
+            />
+
+            {editingThreshold.notificationSettings.autoResolve && (
+              <TextField
+                label="Resolve After Clear Checks"
+                type="number"
+                value={lifecycle.clearAfterChecks}
+                onChange={(e) => updateLifecycleSettings('clearAfterChecks', Math.max(parseInt(e.target.value) || 1, 1))}
+                size="small"
+              />
+            )}
+
+            <FormControl size="small" fullWidth>
+              <InputLabel>Escalation Policy</InputLabel>
+              <Select
+                label="Escalation Policy"
+                value={(editingThreshold as AlertRuleThreshold).escalationPolicyId || ''}
+                onChange={(e) => setEditingThreshold({
+                  ...editingThreshold,
+                  escalationPolicyId: (e.target.value as string) || undefined
+                } as AlertRuleThreshold)}
+              >
+                <MenuItem value="">None</MenuItem>
+                {alertService.getEscalationPolicies().map(policy => (
+                  <MenuItem key={policy.id} value={policy.id}>{policy.name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl size="small" fullWidth>
+              <InputLabel>Delivery Channels</InputLabel>
+              <Select
+                multiple
+                label="Delivery Channels"
+                value={(editingThreshold as AlertRuleThreshold).deliveryChannelIds || []}
+                onChange={(e) => setEditingThreshold({
+                  ...editingThreshold,
+                  deliveryChannelIds: e.target.value as string[]
+                } as AlertRuleThreshold)}
+                renderValue={(selected) => alertDeliveryService.getChannels()
+                  .filter(channel => (selected as string[]).includes(channel.id))
+                  .map(channel => channel.name)
+                  .join(', ')}
+              >
+                {alertDeliveryService.getChannels().map(channel => (
+                  <MenuItem key={channel.id} value={channel.id}>{channel.name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <TextField
+              label="Flap Window (minutes)"
+              type="number"
+              value={lifecycle.flapWindow / 60000}
+              onChange={(e) => updateLifecycleSettings('flapWindow', Math.max(parseInt(e.target.value) || 1, 1) * 60000)}
+              size="small"
+            />
+
+            <TextField
+              label="Flap Threshold (state changes)"
+              type="number"
+              value={lifecycle.flapThreshold}
+              onChange={(e) => updateLifecycleSettings('flapThreshold', Math.max(parseInt(e.target.value) || 2, 2))}
+              helperText="Oscillating alerts are kept open as one alert"
+              size="small"
+            />
+          </Box>
         </CardContent>
 
         <CardActions>
@@ -398,6 +738,7 @@ const AlertConfigurationPanel: React.FC<AlertConfigurationPanelProps> = ({
             startIcon={<SaveIcon />}
             onClick={handleSaveThreshold}
             variant="contained"
+            disabled={expressionErrors.length > 0 || anomalyErrors.length > 0 || clearRuleErrors.length > 0}
           >
             Save
           </Button>
@@ -431,6 +772,10 @@ const AlertConfigurationPanel: React.FC<AlertConfigurationPanelProps> = ({
         <Tabs value={currentTab} onChange={handleTabChange}>
           <Tab label="Alert Thresholds" />
           <Tab label="Global Settings" />
+          <Tab label="Escalation" />
+          <Tab label="Delivery" />
+          <Tab label="Silences" />
+          <Tab label="Rule Sets" />
         </Tabs>
 
         <TabPanel value={currentTab} index={0}>
@@ -484,7 +829,11 @@ const AlertConfigurationPanel: React.FC<AlertConfigurationPanelProps> = ({
                       </Typography>
                       <Typography variant="caption" color="text.secondary">
                         Type: {threshold.type.replace(/_/g, ' ')} • 
-                        Conditions: {threshold.conditions.length}
+                        {isAnomalyThreshold(threshold)
+                          ? `Anomaly: ${threshold.anomaly.metric} (${threshold.anomaly.method}, sensitivity ${threshold.anomaly.sensitivity})`
+                          : (threshold as AlertRuleThreshold).expression?.trim()
+                            ? `Rule: ${(threshold as AlertRuleThreshold).expression}`
+                            : `Conditions: ${threshold.conditions.length}`}
                       </Typography>
                     </Box>
                   }
@@ -599,6 +948,26 @@ const AlertConfigurationPanel: React.FC<AlertConfigurationPanelProps> = ({
             </Box>
           </Box>
         </TabPanel>
+
+        <TabPanel value={currentTab} index={2}>
+          <EscalationSettings />
+        </TabPanel>
+
+        <TabPanel value={currentTab} index={3}>
+          <DeliverySettings />
+        </TabPanel>
+
+        <TabPanel value={currentTab} index={4}>
+          <SilenceSettings />
+        </TabPanel>
+
+        <TabPanel value={currentTab} index={5}>
+          <RuleSetSettings
+            configuration={configuration}
+            onImport={onImportRuleSet}
+            onRollback={onRollbackRuleSet}
+          />
+        </TabPanel>
       </DialogContent>
 
       <DialogActions>
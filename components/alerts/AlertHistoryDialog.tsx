@@ -0,0 +1,256 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  InputAdornment,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import {
+  Search as SearchIcon,
+  Download as DownloadIcon
+} from '@mui/icons-material';
+import { AlertSeverity, AlertStatus, AlertType } from '../../types/alerts';
+import { alertService } from '../../services/alertService';
+import {
+  AlertHistoryFacets,
+  AlertHistoryQuery,
+  computeResponseStats,
+  formatDuration
+} from '../../services/alertHistory';
+
+interface AlertHistoryDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const FACET_LABELS: Record<keyof AlertHistoryFacets, string> = {
+  types: 'Type',
+  severities: 'Severity',
+  statuses: 'Status',
+  acknowledgedBy: 'Acknowledged by'
+};
+
+const formatFacetValue = (value: string): string =>
+  value.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+
+const downloadFile = (content: string, filename: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Search the persisted alert history and export its audit trail
+ */
+const AlertHistoryDialog: React.FC<AlertHistoryDialogProps> = ({ open, onClose }) => {
+  const [text, setText] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [selected, setSelected] = useState<Record<keyof AlertHistoryFacets, string[]>>({
+    types: [],
+    severities: [],
+    statuses: [],
+    acknowledgedBy: []
+  });
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+
+  const query: AlertHistoryQuery = useMemo(() => ({
+    text,
+    types: selected.types as AlertType[],
+    severities: selected.severities as AlertSeverity[],
+    statuses: selected.statuses as AlertStatus[],
+    acknowledgedBy: selected.acknowledgedBy,
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined
+  }), [text, selected, from, to]);
+
+  useEffect(() => {
+    setPage(0);
+  }, [query]);
+
+  const result = useMemo(
+    () => (open ? alertService.searchHistory({ ...query, limit: rowsPerPage, offset: page * rowsPerPage }) : null),
+    [open, query, page, rowsPerPage]
+  );
+  const stats = useMemo(
+    () => (open ? computeResponseStats(alertService.searchHistory(query).records) : null),
+    [open, query]
+  );
+
+  const toggleFacet = (facet: keyof AlertHistoryFacets, value: string) => {
+    setSelected(current => ({
+      ...current,
+      [facet]: current[facet].includes(value)
+        ? current[facet].filter(existing => existing !== value)
+        : [...current[facet], value]
+    }));
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const date = new Date().toISOString().split('T')[0];
+    downloadFile(
+      alertService.exportAlertAudit(format, query),
+      `alert-audit-${date}.${format}`,
+      format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json'
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Alert History</DialogTitle>
+
+      <DialogContent>
+        <Box sx={{ display: 'flex', gap: 2, mb: 2, mt: 1 }}>
+          <TextField
+            placeholder="Search titles, messages, thresholds, people…"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            size="small"
+            sx={{ flex: 1 }}
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon fontSize="small" />
+                </InputAdornment>
+              )
+            }}
+          />
+          <TextField
+            label="From"
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            size="small"
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            label="To"
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            size="small"
+            InputLabelProps={{ shrink: true }}
+          />
+        </Box>
+
+        {result && (Object.keys(FACET_LABELS) as (keyof AlertHistoryFacets)[]).map(facet => {
+          const counts = result.facets[facet];
+          const values = Array.from(new Set([...Object.keys(counts), ...selected[facet]]));
+          if (values.length === 0) return null;
+
+          return (
+            <Box key={facet} sx={{ display: 'flex', alignItems: 'center', gap: 0.5, flexWrap: 'wrap', mb: 1 }}>
+              <Typography variant="caption" color="text.secondary" sx={{ minWidth: 110 }}>
+                {FACET_LABELS[facet]}
+              </Typography>
+              {values.map(value => (
+                <Chip
+                  key={value}
+                  label={`${facet === 'acknowledgedBy' ? value : formatFacetValue(value)} (${counts[value] || 0})`}
+                  size="small"
+                  color={selected[facet].includes(value) ? 'primary' : 'default'}
+                  variant={selected[facet].includes(value) ? 'filled' : 'outlined'}
+                  onClick={() => toggleFacet(facet, value)}
+                />
+              ))}
+            </Box>
+          );
+        })}
+
+        {stats && (
+          <Typography variant="body2" color="text.secondary" sx={{ my: 1 }}>
+            {stats.alerts} alerts • MTTA {formatDuration(stats.mtta)} ({stats.acknowledged} acknowledged) • MTTR {formatDuration(stats.mttr)} ({stats.resolved} resolved)
+          </Typography>
+        )}
+
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Triggered</TableCell>
+              <TableCell>Alert</TableCell>
+              <TableCell>Severity</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Acknowledged</TableCell>
+              <TableCell>Resolved</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {result?.records.map(record => (
+              <TableRow key={record.id}>
+                <TableCell sx={{ whiteSpace: 'nowrap' }}>{new Date(record.triggeredAt).toLocaleString()}</TableCell>
+                <TableCell>
+                  <Typography variant="body2">{record.title}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {record.thresholdName ? `${record.thresholdName} • ` : ''}{record.message}
+                  </Typography>
+                </TableCell>
+                <TableCell>{record.severity}</TableCell>
+                <TableCell>{record.status}</TableCell>
+                <TableCell>
+                  {record.acknowledgedAt
+                    ? `${formatDuration(new Date(record.acknowledgedAt).getTime() - new Date(record.triggeredAt).getTime())}${record.acknowledgedBy ? ` by ${record.acknowledgedBy}` : ''}`
+                    : '–'}
+                </TableCell>
+                <TableCell>
+                  {record.resolvedAt
+                    ? `${formatDuration(new Date(record.resolvedAt).getTime() - new Date(record.triggeredAt).getTime())}${record.resolvedBy ? ` by ${record.resolvedBy}` : ''}`
+                    : '–'}
+                </TableCell>
+              </TableRow>
+            ))}
+            {result?.total === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  <Typography variant="body2" color="text.secondary">
+                    No alerts match
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        <TablePagination
+          component="div"
+          count={result?.total || 0}
+          page={page}
+          onPageChange={(_, newPage) => setPage(newPage)}
+          rowsPerPage={rowsPerPage}
+          onRowsPerPageChange={(e) => {
+            setRowsPerPage(parseInt(e.target.value, 10));
+            setPage(0);
+          }}
+          rowsPerPageOptions={[25, 50, 100]}
+        />
+      </DialogContent>
+
+      <DialogActions>
+        <Button startIcon={<DownloadIcon />} onClick={() => handleExport('csv')} disabled={!result?.total}>
+          Export CSV
+        </Button>
+        <Button startIcon={<DownloadIcon />} onClick={() => handleExport('json')} disabled={!result?.total}>
+          Export JSON
+        </Button>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AlertHistoryDialog;
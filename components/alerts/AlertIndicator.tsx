@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Badge,
   Chip,
@@ -12,9 +12,15 @@ import {
   Error as ErrorIcon,
   Info as InfoIcon,
   NotificationImportant as CriticalIcon,
-  Circle as CircleIcon
+  Circle as CircleIcon,
+  NotificationsPaused as SilenceIcon
 } from '@mui/icons-material';
 import { AlertSeverity, Alert } from '../../types/alerts';
+import { alertService } from '../../services/alertService';
+import { AlertSilence, describeMatcher, getActiveWindow } from '../../services/alertSilences';
+
+// How often the silence banner re-checks which windows are open
+const SILENCE_REFRESH_INTERVAL = 30000;
 
 interface AlertIndicatorProps {
   alerts: Alert[];
@@ -23,6 +29,7 @@ interface AlertIndicatorProps {
   showCount?: boolean;
   onClick?: () => void;
   className?: string;
+  showSilences?: boolean; // Show a banner while silences or maintenance windows are active
 }
 
 const AlertIndicator: React.FC<AlertIndicatorProps> = ({
@@ -31,8 +38,20 @@ const AlertIndicator: React.FC<AlertIndicatorProps> = ({
   severity,
   showCount = true,
   onClick,
-  className
+  className,
+  showSilences = true
 }) => {
+  const [activeSilences, setActiveSilences] = useState<AlertSilence[]>([]);
+
+  // Silence windows open and close with time, not only when alerts change
+  useEffect(() => {
+    if (!showSilences) return undefined;
+    const update = () => setActiveSilences(alertService.getActiveSilences());
+    update();
+    const interval = setInterval(update, SILENCE_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [alerts, showSilences]);
+
   // Filter alerts by severity if specified
   const filteredAlerts = severity 
     ? alerts.filter(alert => alert.severity === severity)
@@ -41,8 +60,37 @@ const AlertIndicator: React.FC<AlertIndicatorProps> = ({
   const activeAlerts = filteredAlerts.filter(alert => alert.status === 'active');
   const count = activeAlerts.length;
 
+  const silenceBanner = showSilences && activeSilences.length > 0 && (
+    <Tooltip
+      arrow
+      placement="bottom"
+      title={
+        <Box>
+          <Typography variant="subtitle2" sx={{ fontWeight: 'bold', mb: 1 }}>
+            Alerts silenced
+          </Typography>
+          {activeSilences.map(silence => (
+            <Typography key={silence.id} variant="body2" sx={{ mb: 0.5 }}>
+              • {silence.name}: {describeMatcher(silence.matcher)} until{' '}
+              {new Date(getActiveWindow(silence, Date.now())?.end ?? silence.end).toLocaleString()}
+            </Typography>
+          ))}
+        </Box>
+      }
+    >
+      <Chip
+        icon={<SilenceIcon />}
+        label={activeSilences.length === 1 ? `Silenced: ${activeSilences[0]!.name}` : `${activeSilences.length} silences active`}
+        size="small"
+        color="warning"
+        variant="outlined"
+        onClick={onClick}
+      />
+    </Tooltip>
+  );
+
   if (count === 0) {
-    return null;
+    return silenceBanner || null;
   }
 
   const getSeverityColor = (sev: AlertSeverity): string => {
@@ -184,11 +232,22 @@ const AlertIndicator: React.FC<AlertIndicatorProps> = ({
     }
   };
 
-  return (
+  const indicator = (
     <Tooltip title={tooltipContent} arrow placement="bottom">
       {renderIndicator()}
     </Tooltip>
   );
+
+  if (!silenceBanner) {
+    return indicator;
+  }
+
+  return (
+    <Box sx={{ display: 'inline-flex', alignItems: 'center', gap: 1 }}>
+      {silenceBanner}
+      {indicator}
+    </Box>
+  );
 };
 
 export default AlertIndicator;
\ No newline at end of file
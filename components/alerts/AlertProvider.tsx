@@ -21,19 +21,22 @@ interface AlertContextType {
   updateThreshold: (threshold: AlertThreshold) => void;
   deleteThreshold: (thresholdId: string) => void;
   updateGlobalSettings: (settings: Partial<AlertConfiguration['globalSettings']>) => void;
+  importRuleSet: ReturnType<typeof useAlerts>['importRuleSet'];
+  rollbackRuleSet: ReturnType<typeof useAlerts>['rollbackRuleSet'];
   checkMetrics: (metrics: { business?: BusinessMetrics; financial?: FinancialMetrics; customer?: CustomerMetrics }) => void;
   startMonitoring: (dataCallback: () => Promise<{ business?: BusinessMetrics; financial?: FinancialMetrics; customer?: CustomerMetrics }>) => void;
   stopMonitoring: () => void;
-  getAlertSummary: () => ReturnType<typeof useAlerts>['getAlertSummary'];
+  getAlertSummary: ReturnType<typeof useAlerts>['getAlertSummary'];
 }
 
 const AlertContext = createContext<AlertContextType | undefined>(undefined);
 
 interface AlertProviderProps {
   children: React.ReactNode;
+  onNavigate?: (path: string) => void; // Router navigation for links in alerts, e.g. into the inventory drill-down
 }
 
-export const AlertProvider: React.FC<AlertProviderProps> = ({ children }) => {
+export const AlertProvider: React.FC<AlertProviderProps> = ({ children, onNavigate }) => {
   const {
     alerts,
     configuration,
@@ -47,6 +50,8 @@ export const AlertProvider: React.FC<AlertProviderProps> = ({ children }) => {
     updateThreshold,
     deleteThreshold,
     updateGlobalSettings,
+    importRuleSet,
+    rollbackRuleSet,
     checkMetrics,
     getActiveAlertsCount,
     getAlertSummary
@@ -88,6 +93,8 @@ export const AlertProvider: React.FC<AlertProviderProps> = ({ children }) => {
     updateThreshold,
     deleteThreshold,
     updateGlobalSettings,
+    importRuleSet,
+    rollbackRuleSet,
     checkMetrics,
     startMonitoring,
     stopMonitoring,
@@ -109,6 +116,7 @@ export const AlertProvider: React.FC<AlertProviderProps> = ({ children }) => {
         onClearAll={clearAllAlerts}
         onRefresh={handleRefreshAlerts}
         onOpenSettings={showConfiguration}
+        onOpenLink={onNavigate}
       />
 
       {/* Configuration Panel */}
@@ -119,6 +127,8 @@ export const AlertProvider: React.FC<AlertProviderProps> = ({ children }) => {
         onUpdateThreshold={updateThreshold}
         onDeleteThreshold={deleteThreshold}
         onUpdateGlobalSettings={updateGlobalSettings}
+        onImportRuleSet={importRuleSet}
+        onRollbackRuleSet={rollbackRuleSet}
       />
     </AlertContext.Provider>
   );
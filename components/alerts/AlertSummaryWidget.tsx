@@ -24,6 +24,7 @@ import {
 import { AlertSeverity, AlertStatus } from '../../types/alerts';
 import { useAlertContext } from './AlertProvider';
 import AlertIndicator from './AlertIndicator';
+import { formatDuration } from '../../services/alertHistory';
 
 interface AlertSummaryWidgetProps {
   title?: string;
@@ -122,6 +123,9 @@ const AlertSummaryWidget: React.FC<AlertSummaryWidgetProps> = ({
             </Box>
           </Grid>
         </Grid>
+        <Typography variant="caption" color="text.secondary" display="block" sx={{ textAlign: 'center', mt: 1 }}>
+          MTTA {formatDuration(summary.response.mtta)} • MTTR {formatDuration(summary.response.mttr)}
+        </Typography>
       </CardContent>
     </Card>
   );
@@ -199,6 +203,41 @@ const AlertSummaryWidget: React.FC<AlertSummaryWidgetProps> = ({
 
         <Divider sx={{ my: 2 }} />
 
+        {/* Response Times */}
+        <Box sx={{ mb: 3 }}>
+          <Typography variant="subtitle1" gutterBottom>
+            Response Times (30 days)
+          </Typography>
+          <Grid container spacing={2}>
+            <Grid item xs={6}>
+              <Tooltip title={`Mean time to acknowledge, over ${summary.response.acknowledged} acknowledged alerts`}>
+                <Box sx={{ textAlign: 'center' }}>
+                  <Typography variant="h5">
+                    {formatDuration(summary.response.mtta)}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    MTTA
+                  </Typography>
+                </Box>
+              </Tooltip>
+            </Grid>
+            <Grid item xs={6}>
+              <Tooltip title={`Mean time to resolve, over ${summary.response.resolved} resolved alerts`}>
+                <Box sx={{ textAlign: 'center' }}>
+                  <Typography variant="h5">
+                    {formatDuration(summary.response.mttr)}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    MTTR
+                  </Typography>
+                </Box>
+              </Tooltip>
+            </Grid>
+          </Grid>
+        </Box>
+
+        <Divider sx={{ my: 2 }} />
+
         {/* Severity Breakdown */}
         <Box sx={{ mb: 3 }}>
           <Typography variant="subtitle1" gutterBottom>
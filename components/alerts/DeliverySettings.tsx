@@ -0,0 +1,414 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardActions,
+  CardContent,
+  Checkbox,
+  Chip,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  FormGroup,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemSecondaryAction,
+  ListItemText,
+  MenuItem,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Save as SaveIcon,
+  Cancel as CancelIcon,
+  Send as SendIcon
+} from '@mui/icons-material';
+import { AlertSeverity } from '../../types/alerts';
+import {
+  alertDeliveryService,
+  ChannelKind,
+  DeliveryChannel,
+  DeliveryEvent,
+  DeliveryLogEntry,
+  DeliveryStatus,
+  DEFAULT_MESSAGE_TEMPLATE,
+  TEMPLATE_PLACEHOLDERS
+} from '../../services/alertDelivery';
+
+const CHANNEL_KINDS: { kind: ChannelKind; label: string }[] = [
+  { kind: 'webhook', label: 'Webhook' },
+  { kind: 'email', label: 'Email (SMTP)' },
+  { kind: 'slack', label: 'Slack' },
+  { kind: 'teams', label: 'Microsoft Teams' }
+];
+
+const DELIVERY_EVENTS: DeliveryEvent[] = ['triggered', 'escalated', 'resolved'];
+
+const splitList = (value: string): string[] =>
+  value.split(',').map(item => item.trim()).filter(Boolean);
+
+const getStatusColor = (status: DeliveryStatus): 'success' | 'warning' | 'error' | 'default' => {
+  switch (status) {
+    case 'delivered': return 'success';
+    case 'retrying': return 'warning';
+    case 'failed': return 'error';
+    default: return 'default';
+  }
+};
+
+/**
+ * Create a channel of a kind, keeping the shared fields of the one being edited
+ */
+const createChannel = (kind: ChannelKind, base?: DeliveryChannel): DeliveryChannel => {
+  const shared = {
+    id: base?.id || `channel_${Date.now()}`,
+    name: base?.name || 'New Channel',
+    enabled: base?.enabled ?? true,
+    events: base?.events || ['triggered', 'escalated'] as DeliveryEvent[],
+    minSeverity: base?.minSeverity || AlertSeverity.WARNING,
+    template: base?.template || { ...DEFAULT_MESSAGE_TEMPLATE }
+  };
+
+  switch (kind) {
+    case 'email':
+      return { ...shared, kind, from: '', to: [], smtp: { host: '', port: 587, secure: false } };
+    case 'webhook':
+      return { ...shared, kind, url: '' };
+    default:
+      return { ...shared, kind, url: '' };
+  }
+};
+
+/**
+ * Outbound delivery channels and the log of delivery attempts
+ */
+const DeliverySettings: React.FC = () => {
+  const [channels, setChannels] = useState<DeliveryChannel[]>(alertDeliveryService.getChannels());
+  const [log, setLog] = useState<DeliveryLogEntry[]>(alertDeliveryService.getLog());
+  const [editingChannel, setEditingChannel] = useState<DeliveryChannel | null>(null);
+
+  useEffect(() => alertDeliveryService.subscribe(setLog), []);
+
+  const updateField = (changes: Partial<DeliveryChannel>) => {
+    if (editingChannel) {
+      setEditingChannel({ ...editingChannel, ...changes } as DeliveryChannel);
+    }
+  };
+
+  const toggleEvent = (event: DeliveryEvent, checked: boolean) => {
+    if (editingChannel) {
+      updateField({
+        events: checked
+          ? [...editingChannel.events, event]
+          : editingChannel.events.filter(existing => existing !== event)
+      });
+    }
+  };
+
+  const handleSave = () => {
+    if (editingChannel) {
+      alertDeliveryService.updateChannel(editingChannel);
+      setChannels(alertDeliveryService.getChannels());
+      setEditingChannel(null);
+    }
+  };
+
+  const handleDelete = (channelId: string) => {
+    if (window.confirm('Are you sure you want to delete this delivery channel?')) {
+      alertDeliveryService.deleteChannel(channelId);
+      setChannels(alertDeliveryService.getChannels());
+    }
+  };
+
+  const renderKindFields = (channel: DeliveryChannel) => {
+    if (channel.kind === 'email') {
+      return (
+        <>
+          <TextField
+            label="From"
+            value={channel.from}
+            onChange={(e) => updateField({ from: e.target.value })}
+            size="small"
+          />
+          <TextField
+            label="To (comma separated)"
+            defaultValue={channel.to.join(', ')}
+            onBlur={(e) => updateField({ to: splitList(e.target.value) })}
+            size="small"
+          />
+          <TextField
+            label="SMTP Host"
+            value={channel.smtp.host}
+            onChange={(e) => updateField({ smtp: { ...channel.smtp, host: e.target.value } })}
+            size="small"
+          />
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <TextField
+              label="Port"
+              type="number"
+              value={channel.smtp.port}
+              onChange={(e) => updateField({ smtp: { ...channel.smtp, port: parseInt(e.target.value) || 587 } })}
+              size="small"
+              sx={{ width: 100 }}
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={channel.smtp.secure}
+                  onChange={(e) => updateField({ smtp: { ...channel.smtp, secure: e.target.checked } })}
+                />
+              }
+              label="TLS"
+            />
+          </Box>
+          <TextField
+            label="SMTP Username (optional)"
+            value={channel.smtp.username || ''}
+            onChange={(e) => updateField({ smtp: { ...channel.smtp, username: e.target.value || undefined } })}
+            helperText="The email relay holds the password"
+            size="small"
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={Boolean(channel.includeEscalationRecipients)}
+                onChange={(e) => updateField({ includeEscalationRecipients: e.target.checked })}
+              />
+            }
+            label="Also email escalation recipients"
+          />
+        </>
+      );
+    }
+
+    return (
+      <>
+        <TextField
+          label={channel.kind === 'webhook' ? 'URL' : 'Incoming Webhook URL'}
+          value={channel.url}
+          onChange={(e) => updateField({ url: e.target.value })}
+          size="small"
+          sx={{ gridColumn: channel.kind === 'webhook' ? undefined : '1 / -1' }}
+        />
+        {channel.kind === 'webhook' && (
+          <TextField
+            label="Signing Secret (optional)"
+            type="password"
+            value={channel.secret || ''}
+            onChange={(e) => updateField({ secret: e.target.value || undefined })}
+            helperText="Adds an X-Alert-Signature HMAC-SHA256 header. Not stored: enter it again after a reload"
+            size="small"
+          />
+        )}
+      </>
+    );
+  };
+
+  const renderChannelEditor = () => editingChannel && (
+    <Card key={editingChannel.id} sx={{ mb: 2 }}>
+      <CardContent>
+        <Box sx={{ display: 'grid', gap: 2, gridTemplateColumns: '1fr 1fr' }}>
+          <TextField
+            label="Name"
+            value={editingChannel.name}
+            onChange={(e) => updateField({ name: e.target.value })}
+            size="small"
+          />
+          <FormControl size="small">
+            <InputLabel>Type</InputLabel>
+            <Select
+              label="Type"
+              value={editingChannel.kind}
+              onChange={(e) => setEditingChannel(createChannel(e.target.value as ChannelKind, editingChannel))}
+            >
+              {CHANNEL_KINDS.map(({ kind, label }) => (
+                <MenuItem key={kind} value={kind}>{label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          {renderKindFields(editingChannel)}
+
+          <FormControl size="small">
+            <InputLabel>Minimum Severity</InputLabel>
+            <Select
+              label="Minimum Severity"
+              value={editingChannel.minSeverity}
+              onChange={(e) => updateField({ minSeverity: e.target.value as AlertSeverity })}
+            >
+              {Object.values(AlertSeverity).map(severity => (
+                <MenuItem key={severity} value={severity}>
+                  {severity.charAt(0).toUpperCase() + severity.slice(1)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormGroup row>
+            {DELIVERY_EVENTS.map(event => (
+              <FormControlLabel
+                key={event}
+                control={
+                  <Checkbox
+                    checked={editingChannel.events.includes(event)}
+                    onChange={(e) => toggleEvent(event, e.target.checked)}
+                    size="small"
+                  />
+                }
+                label={event}
+              />
+            ))}
+          </FormGroup>
+
+          <TextField
+            label="Subject Template"
+            value={editingChannel.template.subject}
+            onChange={(e) => updateField({ template: { ...editingChannel.template, subject: e.target.value } })}
+            size="small"
+            sx={{ gridColumn: '1 / -1' }}
+          />
+          <TextField
+            label="Message Template"
+            value={editingChannel.template.body}
+            onChange={(e) => updateField({ template: { ...editingChannel.template, body: e.target.value } })}
+            helperText={`Placeholders: ${TEMPLATE_PLACEHOLDERS.map(name => `{{${name}}}`).join(' ')}`}
+            multiline
+            minRows={3}
+            size="small"
+            inputProps={{ style: { fontFamily: 'monospace' } }}
+            sx={{ gridColumn: '1 / -1' }}
+          />
+        </Box>
+      </CardContent>
+      <CardActions>
+        <Button startIcon={<SaveIcon />} variant="contained" onClick={handleSave}>
+          Save
+        </Button>
+        <Button startIcon={<CancelIcon />} onClick={() => setEditingChannel(null)}>
+          Cancel
+        </Button>
+      </CardActions>
+    </Card>
+  );
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h6">Delivery Channels</Typography>
+        <Button
+          startIcon={<AddIcon />}
+          variant="contained"
+          onClick={() => setEditingChannel(createChannel('webhook'))}
+          disabled={editingChannel !== null}
+        >
+          Add Channel
+        </Button>
+      </Box>
+
+      {renderChannelEditor()}
+
+      <List>
+        {channels.map(channel => (
+          <ListItem key={channel.id} sx={{ border: 1, borderColor: 'divider', borderRadius: 1, mb: 1 }}>
+            <ListItemText
+              primary={
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  {channel.name}
+                  <Chip size="small" label={CHANNEL_KINDS.find(entry => entry.kind === channel.kind)?.label || channel.kind} />
+                  {!channel.enabled && <Chip size="small" variant="outlined" label="Disabled" />}
+                </Box>
+              }
+              secondary={`${channel.events.join(', ') || 'No events'} • ${channel.minSeverity} and above`}
+            />
+            <ListItemSecondaryAction>
+              <Switch
+                checked={channel.enabled}
+                onChange={(e) => {
+                  alertDeliveryService.updateChannel({ ...channel, enabled: e.target.checked });
+                  setChannels(alertDeliveryService.getChannels());
+                }}
+                size="small"
+              />
+              <Tooltip title="Send test message">
+                <IconButton size="small" onClick={() => alertDeliveryService.sendTest(channel.id)}>
+                  <SendIcon />
+                </IconButton>
+              </Tooltip>
+              <IconButton size="small" onClick={() => setEditingChannel({ ...channel })} disabled={editingChannel !== null}>
+                <EditIcon />
+              </IconButton>
+              <IconButton size="small" onClick={() => handleDelete(channel.id)} disabled={editingChannel !== null}>
+                <DeleteIcon />
+              </IconButton>
+            </ListItemSecondaryAction>
+          </ListItem>
+        ))}
+      </List>
+
+      <Divider sx={{ my: 2 }} />
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="h6">Delivery Log</Typography>
+        <Button size="small" onClick={() => alertDeliveryService.clearLog()} disabled={log.length === 0}>
+          Clear
+        </Button>
+      </Box>
+
+      {log.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No deliveries yet.
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Time</TableCell>
+              <TableCell>Channel</TableCell>
+              <TableCell>Alert</TableCell>
+              <TableCell>Event</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell align="right">Attempts</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {log.map(entry => (
+              <TableRow key={entry.id}>
+                <TableCell>{new Date(entry.updatedAt).toLocaleString()}</TableCell>
+                <TableCell>{entry.channelName}</TableCell>
+                <TableCell>{entry.alertTitle}</TableCell>
+                <TableCell>{entry.event}</TableCell>
+                <TableCell>
+                  <Tooltip
+                    title={[
+                      entry.lastError,
+                      entry.nextAttemptAt ? `Next attempt ${new Date(entry.nextAttemptAt).toLocaleTimeString()}` : ''
+                    ].filter(Boolean).join(' • ')}
+                  >
+                    <Chip size="small" label={entry.status} color={getStatusColor(entry.status)} />
+                  </Tooltip>
+                </TableCell>
+                <TableCell align="right">{entry.attempts}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+};
+
+export default DeliverySettings;
@@ -0,0 +1,341 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardActions,
+  CardContent,
+  Chip,
+  Divider,
+  FormControl,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemSecondaryAction,
+  ListItemText,
+  MenuItem,
+  Select,
+  TextField,
+  Typography
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Save as SaveIcon,
+  Cancel as CancelIcon
+} from '@mui/icons-material';
+import { alertService } from '../../services/alertService';
+import {
+  EscalationPolicy,
+  EscalationStep,
+  RotationSchedule,
+  describeTarget,
+  getOnCall
+} from '../../services/alertEscalation';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const splitNames = (value: string): string[] =>
+  value.split(',').map(name => name.trim()).filter(Boolean);
+
+// datetime-local inputs work in local time without an offset
+const toLocalInputValue = (iso: string): string => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * MINUTE).toISOString().slice(0, 16);
+};
+
+const formatDelay = (delay: number): string =>
+  delay === 0 ? 'Immediately' : delay % HOUR === 0 ? `After ${delay / HOUR} h` : `After ${Math.round(delay / MINUTE)} min`;
+
+/**
+ * Editors for escalation policies and the on-call rotations they notify
+ */
+const EscalationSettings: React.FC = () => {
+  const [policies, setPolicies] = useState<EscalationPolicy[]>(alertService.getEscalationPolicies());
+  const [rotations, setRotations] = useState<RotationSchedule[]>(alertService.getRotations());
+  const [editingPolicy, setEditingPolicy] = useState<EscalationPolicy | null>(null);
+  const [editingRotation, setEditingRotation] = useState<RotationSchedule | null>(null);
+
+  const refresh = () => {
+    setPolicies(alertService.getEscalationPolicies());
+    setRotations(alertService.getRotations());
+  };
+
+  const handleCreatePolicy = () => {
+    setEditingPolicy({
+      id: `policy_${Date.now()}`,
+      name: 'New Escalation Policy',
+      steps: [{ delay: 0, targets: [] }]
+    });
+  };
+
+  const handleCreateRotation = () => {
+    setEditingRotation({
+      id: `rotation_${Date.now()}`,
+      name: 'New Rotation',
+      participants: [],
+      start: new Date().toISOString(),
+      shiftLength: 7 * 24 * HOUR
+    });
+  };
+
+  const savePolicy = () => {
+    if (editingPolicy) {
+      alertService.updateEscalationPolicy({
+        ...editingPolicy,
+        steps: [...editingPolicy.steps].sort((a, b) => a.delay - b.delay)
+      });
+      setEditingPolicy(null);
+      refresh();
+    }
+  };
+
+  const saveRotation = () => {
+    if (editingRotation) {
+      alertService.updateRotation(editingRotation);
+      setEditingRotation(null);
+      refresh();
+    }
+  };
+
+  const deletePolicy = (policyId: string) => {
+    if (window.confirm('Are you sure you want to delete this escalation policy?')) {
+      alertService.deleteEscalationPolicy(policyId);
+      refresh();
+    }
+  };
+
+  const deleteRotation = (rotationId: string) => {
+    if (window.confirm('Are you sure you want to delete this rotation?')) {
+      alertService.deleteRotation(rotationId);
+      refresh();
+    }
+  };
+
+  const updateStep = (index: number, step: EscalationStep) => {
+    if (editingPolicy) {
+      setEditingPolicy({
+        ...editingPolicy,
+        steps: editingPolicy.steps.map((existing, i) => (i === index ? step : existing))
+      });
+    }
+  };
+
+  const renderStepEditor = (step: EscalationStep, index: number) => {
+    const rotationTarget = step.targets.find(target => target.kind === 'rotation');
+    const users = step.targets.flatMap(target => (target.kind === 'user' ? [target.name] : []));
+
+    const setTargets = (rotationId: string, names: string[]) => updateStep(index, {
+      ...step,
+      targets: [
+        ...(rotationId ? [{ kind: 'rotation' as const, rotationId }] : []),
+        ...names.map(name => ({ kind: 'user' as const, name }))
+      ]
+    });
+
+    return (
+      <Box key={`${index}_${editingPolicy?.steps.length}`} sx={{ display: 'flex', gap: 1, mb: 1, alignItems: 'center' }}>
+        <TextField
+          label="After (minutes)"
+          type="number"
+          value={step.delay / MINUTE}
+          onChange={(e) => updateStep(index, { ...step, delay: Math.max(parseInt(e.target.value) || 0, 0) * MINUTE })}
+          size="small"
+          sx={{ width: 130 }}
+        />
+
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel>Rotation</InputLabel>
+          <Select
+            label="Rotation"
+            value={rotationTarget?.kind === 'rotation' ? rotationTarget.rotationId : ''}
+            onChange={(e) => setTargets(e.target.value as string, users)}
+          >
+            <MenuItem value="">None</MenuItem>
+            {rotations.map(rotation => (
+              <MenuItem key={rotation.id} value={rotation.id}>{rotation.name}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <TextField
+          label="People (comma separated)"
+          defaultValue={users.join(', ')}
+          onBlur={(e) => setTargets(rotationTarget?.kind === 'rotation' ? rotationTarget.rotationId : '', splitNames(e.target.value))}
+          size="small"
+          sx={{ flex: 1 }}
+        />
+
+        <IconButton
+          size="small"
+          onClick={() => editingPolicy && setEditingPolicy({
+            ...editingPolicy,
+            steps: editingPolicy.steps.filter((_, i) => i !== index)
+          })}
+          disabled={editingPolicy?.steps.length === 1}
+        >
+          <DeleteIcon />
+        </IconButton>
+      </Box>
+    );
+  };
+
+  const renderPolicyEditor = () => editingPolicy && (
+    <Card key={editingPolicy.id} sx={{ mb: 2 }}>
+      <CardContent>
+        <TextField
+          label="Name"
+          value={editingPolicy.name}
+          onChange={(e) => setEditingPolicy({ ...editingPolicy, name: e.target.value })}
+          fullWidth
+          sx={{ mb: 2 }}
+        />
+
+        <Typography variant="subtitle2" gutterBottom>
+          Steps (time since the alert triggered, while it is unacknowledged)
+        </Typography>
+        {editingPolicy.steps.map(renderStepEditor)}
+
+        <Button
+          startIcon={<AddIcon />}
+          size="small"
+          onClick={() => setEditingPolicy({
+            ...editingPolicy,
+            steps: [...editingPolicy.steps, { delay: (editingPolicy.steps[editingPolicy.steps.length - 1]?.delay || 0) + 15 * MINUTE, targets: [] }]
+          })}
+        >
+          Add Step
+        </Button>
+      </CardContent>
+      <CardActions>
+        <Button startIcon={<SaveIcon />} variant="contained" onClick={savePolicy}>
+          Save
+        </Button>
+        <Button startIcon={<CancelIcon />} onClick={() => setEditingPolicy(null)}>
+          Cancel
+        </Button>
+      </CardActions>
+    </Card>
+  );
+
+  const renderRotationEditor = () => editingRotation && (
+    <Card key={editingRotation.id} sx={{ mb: 2 }}>
+      <CardContent>
+        <Box sx={{ display: 'grid', gap: 2, gridTemplateColumns: '1fr 1fr' }}>
+          <TextField
+            label="Name"
+            value={editingRotation.name}
+            onChange={(e) => setEditingRotation({ ...editingRotation, name: e.target.value })}
+            fullWidth
+          />
+          <TextField
+            label="Shift Length (hours)"
+            type="number"
+            value={editingRotation.shiftLength / HOUR}
+            onChange={(e) => setEditingRotation({ ...editingRotation, shiftLength: Math.max(parseInt(e.target.value) || 1, 1) * HOUR })}
+            fullWidth
+          />
+          <TextField
+            label="Participants in order (comma separated)"
+            defaultValue={editingRotation.participants.join(', ')}
+            onBlur={(e) => setEditingRotation({ ...editingRotation, participants: splitNames(e.target.value) })}
+            fullWidth
+            sx={{ gridColumn: '1 / -1' }}
+          />
+          <TextField
+            label="First Handoff"
+            type="datetime-local"
+            value={toLocalInputValue(editingRotation.start)}
+            onChange={(e) => setEditingRotation({ ...editingRotation, start: new Date(e.target.value).toISOString() })}
+            InputLabelProps={{ shrink: true }}
+            fullWidth
+          />
+        </Box>
+      </CardContent>
+      <CardActions>
+        <Button startIcon={<SaveIcon />} variant="contained" onClick={saveRotation}>
+          Save
+        </Button>
+        <Button startIcon={<CancelIcon />} onClick={() => setEditingRotation(null)}>
+          Cancel
+        </Button>
+      </CardActions>
+    </Card>
+  );
+
+  const isEditing = editingPolicy !== null || editingRotation !== null;
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h6">Escalation Policies</Typography>
+        <Button startIcon={<AddIcon />} variant="contained" onClick={handleCreatePolicy} disabled={isEditing}>
+          Add Policy
+        </Button>
+      </Box>
+
+      {renderPolicyEditor()}
+
+      <List>
+        {policies.map(policy => (
+          <ListItem key={policy.id} sx={{ border: 1, borderColor: 'divider', borderRadius: 1, mb: 1 }}>
+            <ListItemText
+              primary={policy.name}
+              secondary={policy.steps
+                .map(step => `${formatDelay(step.delay)}: ${step.targets.map(target => describeTarget(target, rotations)).join(', ') || 'nobody'}`)
+                .join(' → ')}
+            />
+            <ListItemSecondaryAction>
+              <IconButton size="small" onClick={() => setEditingPolicy({ ...policy })} disabled={isEditing}>
+                <EditIcon />
+              </IconButton>
+              <IconButton size="small" onClick={() => deletePolicy(policy.id)} disabled={isEditing}>
+                <DeleteIcon />
+              </IconButton>
+            </ListItemSecondaryAction>
+          </ListItem>
+        ))}
+      </List>
+
+      <Divider sx={{ my: 2 }} />
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h6">On-call Rotations</Typography>
+        <Button startIcon={<AddIcon />} variant="contained" onClick={handleCreateRotation} disabled={isEditing}>
+          Add Rotation
+        </Button>
+      </Box>
+
+      {renderRotationEditor()}
+
+      <List>
+        {rotations.map(rotation => (
+          <ListItem key={rotation.id} sx={{ border: 1, borderColor: 'divider', borderRadius: 1, mb: 1 }}>
+            <ListItemText
+              primary={
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  {rotation.name}
+                  <Chip size="small" label={`On call: ${getOnCall(rotation, Date.now()) || 'nobody'}`} />
+                </Box>
+              }
+              secondary={`${rotation.participants.join(' → ') || 'No participants'} • ${rotation.shiftLength / HOUR} h shifts`}
+            />
+            <ListItemSecondaryAction>
+              <IconButton size="small" onClick={() => setEditingRotation({ ...rotation })} disabled={isEditing}>
+                <EditIcon />
+              </IconButton>
+              <IconButton size="small" onClick={() => deleteRotation(rotation.id)} disabled={isEditing}>
+                <DeleteIcon />
+              </IconButton>
+            </ListItemSecondaryAction>
+          </ListItem>
+        ))}
+      </List>
+    </Box>
+  );
+};
+
+export default EscalationSettings;
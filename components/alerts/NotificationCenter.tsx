@@ -32,10 +32,14 @@ import {
   Warning as WarningIcon,
   Error as ErrorIcon,
   Info as InfoIcon,
-  NotificationImportant as CriticalIcon
+  NotificationImportant as CriticalIcon,
+  ManageSearch as SearchHistoryIcon
 } from '@mui/icons-material';
 import { Alert, AlertSeverity, AlertStatus, AlertType } from '../../types/alerts';
+import { ALERT_TYPES } from '../../services/alertService';
+import { AlertTimelineEvent, TrackedAlert } from '../../services/alertLifecycle';
 import { formatDistanceToNow } from 'date-fns';
+import AlertHistoryDialog from './AlertHistoryDialog';
 
 interface NotificationCenterProps {
   open: boolean;
@@ -47,6 +51,7 @@ interface NotificationCenterProps {
   onClearAll: () => void;
   onRefresh?: () => void;
   onOpenSettings?: () => void;
+  onOpenLink?: (path: string) => void; // In-app navigation for drill-down links; plain links otherwise
 }
 
 interface TabPanelProps {
@@ -55,6 +60,9 @@ interface TabPanelProps {
   value: number;
 }
 
+// Affected entities shown on an alert before "more"
+const ENTITY_PREVIEW_COUNT = 6;
+
 const TabPanel: React.FC<TabPanelProps> = ({ children, value, index }) => (
   <div hidden={value !== index} style={{ height: '100%', overflow: 'auto' }}>
     {value === index && children}
@@ -70,13 +78,16 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
   onDismiss,
   onClearAll,
   onRefresh,
-  onOpenSettings
+  onOpenSettings,
+  onOpenLink
 }) => {
   const [currentTab, setCurrentTab] = useState(0);
   const [filterMenuAnchor, setFilterMenuAnchor] = useState<null | HTMLElement>(null);
   const [severityFilter, setSeverityFilter] = useState<AlertSeverity | 'all'>('all');
   const [typeFilter, setTypeFilter] = useState<AlertType | 'all'>('all');
   const [showResolved, setShowResolved] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [expandedEntities, setExpandedEntities] = useState<Set<string>>(new Set());
 
   const getSeverityIcon = (severity: AlertSeverity) => {
     switch (severity) {
@@ -155,7 +166,27 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
     }
   };
 
-  const renderAlertItem = (alert: Alert) => (
+  const toggleEntities = (alertId: string) => {
+    const next = new Set(expandedEntities);
+    if (next.has(alertId)) {
+      next.delete(alertId);
+    } else {
+      next.add(alertId);
+    }
+    setExpandedEntities(next);
+  };
+
+  const handleOpenLink = (event: React.MouseEvent, path: string) => {
+    if (!onOpenLink) return;
+    event.preventDefault();
+    onOpenLink(path);
+    onClose();
+  };
+
+  const formatTimelineEvent = (event: AlertTimelineEvent): string =>
+    `${event.type.replace(/-/g, ' ')}${event.by ? ` by ${event.by}` : ''}${event.detail ? ` (${event.detail})` : ''} ${formatAlertTime(event.at)}`;
+
+  const renderAlertItem = (alert: TrackedAlert) => (
     <ListItem
       key={alert.id}
       sx={{
@@ -185,6 +216,23 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
                 height: 20
               }}
             />
+            {(alert.occurrences || 1) > 1 && (
+              <Tooltip title={alert.lastTriggeredAt ? `Last triggered ${formatAlertTime(alert.lastTriggeredAt)}` : ''}>
+                <Chip label={`×${alert.occurrences}`} size="small" sx={{ fontSize: '0.7rem', height: 20 }} />
+              </Tooltip>
+            )}
+            {alert.escalations && alert.escalations.length > 0 && (
+              <Chip
+                label={`escalated L${alert.escalations[alert.escalations.length - 1]!.step + 1}`}
+                size="small"
+                color="error"
+                variant="outlined"
+                sx={{ fontSize: '0.7rem', height: 20 }}
+              />
+            )}
+            {alert.flapping && (
+              <Chip label="flapping" size="small" color="warning" variant="outlined" sx={{ fontSize: '0.7rem', height: 20 }} />
+            )}
           </Box>
         }
         secondary={
@@ -192,12 +240,51 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
             <Typography variant="body2" sx={{ mb: 0.5 }}>
               {alert.message}
             </Typography>
+            {alert.entities && alert.entities.length > 0 && (
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 0.5 }}>
+                {(expandedEntities.has(alert.id) ? alert.entities : alert.entities.slice(0, ENTITY_PREVIEW_COUNT)).map(entity => (
+                  <Chip
+                    key={entity.id}
+                    label={entity.name}
+                    size="small"
+                    variant="outlined"
+                    component="a"
+                    href={entity.link}
+                    clickable
+                    onClick={(e: React.MouseEvent) => handleOpenLink(e, entity.link)}
+                    sx={{ fontSize: '0.7rem', height: 20 }}
+                  />
+                ))}
+                {alert.entities.length > ENTITY_PREVIEW_COUNT && (
+                  <Chip
+                    label={expandedEntities.has(alert.id) ? 'Show less' : `+${alert.entities.length - ENTITY_PREVIEW_COUNT} more`}
+                    size="small"
+                    onClick={() => toggleEntities(alert.id)}
+                    sx={{ fontSize: '0.7rem', height: 20 }}
+                  />
+                )}
+              </Box>
+            )}
             <Typography variant="caption" color="text.secondary">
               {formatAlertTime(alert.triggeredAt)}
               {alert.metadata?.currentValue && alert.metadata?.thresholdValue && (
                 <span> • Current: {alert.metadata.currentValue}, Threshold: {alert.metadata.thresholdValue}</span>
               )}
             </Typography>
+            {alert.escalations && alert.escalations.length > 0 && (
+              <Box sx={{ mt: 0.5 }}>
+                {alert.escalations.map(record => (
+                  <Typography key={`${record.policyId}_${record.step}`} variant="caption" color="error.main" display="block">
+                    Step {record.step + 1}: {record.recipients.length > 0 ? record.recipients.join(', ') : 'nobody on call'} • {formatAlertTime(record.at)}
+                  </Typography>
+                ))}
+              </Box>
+            )}
+            {alert.timeline && alert.timeline.length > 1 && (
+              <Typography variant="caption" color="text.secondary" display="block">
+                {alert.timeline.slice(-4).map(formatTimelineEvent).join(' → ')}
+              </Typography>
+            )}
           </Box>
         }
       />
@@ -352,17 +439,21 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
 
           <TabPanel value={currentTab} index={2}>
             <Box sx={{ p: 1 }}>
-              <FormControlLabel
-                control={
-                  <Switch
-                    checked={showResolved}
-                    onChange={(e) => setShowResolved(e.target.checked)}
-                    size="small"
-                  />
-                }
-                label="Show resolved alerts"
-                sx={{ mb: 1 }}
-              />
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={showResolved}
+                      onChange={(e) => setShowResolved(e.target.checked)}
+                      size="small"
+                    />
+                  }
+                  label="Show resolved alerts"
+                />
+                <Button size="small" startIcon={<SearchHistoryIcon />} onClick={() => setHistoryOpen(true)}>
+                  Full history
+                </Button>
+              </Box>
               <List>
                 {filteredAlerts.length === 0 ? (
                   <Box sx={{ textAlign: 'center', py: 4 }}>
@@ -418,7 +509,7 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
         <MenuItem onClick={() => { setTypeFilter('all'); handleFilterClose(); }}>
           All Types
         </MenuItem>
-        {Object.values(AlertType).map(type => (
+        {ALERT_TYPES.map(type => (
           <MenuItem
             key={type}
             onClick={() => { setTypeFilter(type); handleFilterClose(); }}
@@ -427,6 +518,8 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
           </MenuItem>
         ))}
       </Menu>
+
+      <AlertHistoryDialog open={historyOpen} onClose={() => setHistoryOpen(false)} />
     </Drawer>
   );
 };
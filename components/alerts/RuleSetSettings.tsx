@@ -0,0 +1,346 @@
+import React, { useRef, useState } from 'react';
+import {
+  Alert as MuiAlert,
+  Box,
+  Button,
+  Card,
+  CardActions,
+  CardContent,
+  Chip,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemSecondaryAction,
+  ListItemText,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Select,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Download as DownloadIcon,
+  Upload as UploadIcon,
+  Restore as RestoreIcon,
+  Save as SaveIcon
+} from '@mui/icons-material';
+import { AlertConfiguration } from '../../types/alerts';
+import { alertService, AlertRuleThreshold } from '../../services/alertService';
+import {
+  AlertRuleSet,
+  RULE_SET_SCHEMA_VERSION,
+  RuleSetFormat,
+  RuleSetImportMode,
+  RuleSetVersion,
+  diffRuleSets,
+  isEmptyDiff,
+  serializeRuleSet,
+  summarizeRuleSetDiff
+} from '../../services/alertRuleSets';
+
+interface RuleSetSettingsProps {
+  configuration: AlertConfiguration;
+  onImport: (ruleSet: AlertRuleSet, mode: RuleSetImportMode) => void;
+  onRollback: (version: number) => void;
+}
+
+const SOURCE_LABELS: Record<RuleSetVersion['source'], string> = {
+  saved: 'Saved',
+  import: 'Imported',
+  rollback: 'Rollback',
+  snapshot: 'Snapshot'
+};
+
+const formatSetting = (value: unknown): string =>
+  value === undefined ? '–' : typeof value === 'string' ? value : JSON.stringify(value);
+
+const downloadFile = (content: string, filename: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const downloadRuleSet = (ruleSet: AlertRuleSet, format: RuleSetFormat): void => {
+  const slug = ruleSet.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'alert-rules';
+  downloadFile(
+    serializeRuleSet(ruleSet, format),
+    `${slug}-v${ruleSet.version}.${format === 'json' ? 'json' : 'yaml'}`,
+    format === 'json' ? 'application/json' : 'application/yaml'
+  );
+};
+
+/**
+ * Export thresholds and global settings as a versioned rule set, import one
+ * with validation and a preview of the changes, and roll back to earlier versions
+ */
+const RuleSetSettings: React.FC<RuleSetSettingsProps> = ({ configuration, onImport, onRollback }) => {
+  const [versions, setVersions] = useState<RuleSetVersion[]>(alertService.getRuleSetVersions());
+  const [name, setName] = useState('Alert rules');
+  const [description, setDescription] = useState('');
+  const [format, setFormat] = useState<RuleSetFormat>('yaml');
+  const [text, setText] = useState('');
+  const [mode, setMode] = useState<RuleSetImportMode>('replace');
+  const [preview, setPreview] = useState<ReturnType<typeof alertService.previewRuleSetImport> | null>(null);
+  const [versionName, setVersionName] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const refresh = () => setVersions(alertService.getRuleSetVersions());
+
+  const handleExport = () => {
+    downloadRuleSet(alertService.exportRuleSet(name.trim() || 'Alert rules', description.trim() || undefined), format);
+    refresh();
+  };
+
+  const runPreview = (source: string, importMode: RuleSetImportMode) => {
+    setPreview(source.trim() ? alertService.previewRuleSetImport(source, importMode) : null);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    runPreview(content, mode);
+  };
+
+  const handleApply = () => {
+    if (!preview?.ruleSet) return;
+    onImport(preview.ruleSet, mode);
+    setText('');
+    setPreview(null);
+    refresh();
+  };
+
+  const handleSaveVersion = () => {
+    alertService.saveRuleSetVersion(versionName.trim() || 'Manual save');
+    setVersionName('');
+    refresh();
+  };
+
+  const handleRollback = (version: RuleSetVersion) => {
+    const diff = diffRuleSets(
+      { thresholds: configuration.thresholds as AlertRuleThreshold[], globalSettings: configuration.globalSettings },
+      version
+    );
+    if (isEmptyDiff(diff)) return;
+    if (window.confirm(`Roll back to version ${version.version} (${version.name})? ${summarizeRuleSetDiff(diff)}.`)) {
+      onRollback(version.version);
+      refresh();
+    }
+  };
+
+  const handleDownloadVersion = (version: RuleSetVersion) => {
+    downloadRuleSet({
+      schemaVersion: RULE_SET_SCHEMA_VERSION,
+      version: version.version,
+      name: version.name,
+      description: version.description,
+      exportedAt: new Date().toISOString(),
+      thresholds: version.thresholds,
+      globalSettings: version.globalSettings
+    }, format);
+  };
+
+  const errors = preview?.issues.filter(issue => issue.level === 'error') || [];
+  const warnings = preview?.issues.filter(issue => issue.level === 'warning') || [];
+  const diff = preview?.diff;
+
+  return (
+    <Box>
+      <Card sx={{ mb: 2 }}>
+        <CardContent>
+          <Typography variant="subtitle1" gutterBottom>
+            Export
+          </Typography>
+          <Box sx={{ display: 'grid', gap: 2, gridTemplateColumns: '1fr 1fr 140px' }}>
+            <TextField label="Name" value={name} onChange={(e) => setName(e.target.value)} size="small" />
+            <TextField
+              label="Description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g. Thresholds for the EU warehouses"
+              size="small"
+            />
+            <FormControl size="small">
+              <InputLabel>Format</InputLabel>
+              <Select label="Format" value={format} onChange={(e) => setFormat(e.target.value as RuleSetFormat)}>
+                <MenuItem value="yaml">YAML</MenuItem>
+                <MenuItem value="json">JSON</MenuItem>
+              </Select>
+            </FormControl>
+          </Box>
+          <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+            Exports {configuration.thresholds.length} thresholds and the global settings. Unsaved changes are recorded as a new version first.
+          </Typography>
+        </CardContent>
+        <CardActions>
+          <Button startIcon={<DownloadIcon />} onClick={handleExport}>
+            Export
+          </Button>
+        </CardActions>
+      </Card>
+
+      <Card sx={{ mb: 2 }}>
+        <CardContent>
+          <Typography variant="subtitle1" gutterBottom>
+            Import
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 1 }}>
+            <Button startIcon={<UploadIcon />} variant="outlined" size="small" onClick={() => fileInput.current?.click()}>
+              Choose File
+            </Button>
+            <input ref={fileInput} type="file" accept=".json,.yaml,.yml" hidden onChange={handleFile} />
+            <RadioGroup
+              row
+              value={mode}
+              onChange={(e) => {
+                setMode(e.target.value as RuleSetImportMode);
+                runPreview(text, e.target.value as RuleSetImportMode);
+              }}
+            >
+              <FormControlLabel value="replace" control={<Radio size="small" />} label="Replace all thresholds" />
+              <FormControlLabel value="merge" control={<Radio size="small" />} label="Merge by id" />
+            </RadioGroup>
+          </Box>
+          <TextField
+            label="Or paste JSON / YAML"
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              setPreview(null);
+            }}
+            fullWidth
+            multiline
+            minRows={4}
+            maxRows={12}
+            inputProps={{ spellCheck: false, style: { fontFamily: 'monospace', fontSize: '0.8rem' } }}
+          />
+
+          {errors.length > 0 && (
+            <MuiAlert severity="error" sx={{ mt: 1 }}>
+              {errors.map(issue => (
+                <div key={`${issue.path}_${issue.message}`}>{issue.path ? `${issue.path}: ` : ''}{issue.message}</div>
+              ))}
+            </MuiAlert>
+          )}
+          {warnings.length > 0 && (
+            <MuiAlert severity="warning" sx={{ mt: 1 }}>
+              {warnings.map(issue => (
+                <div key={`${issue.path}_${issue.message}`}>{issue.path}: {issue.message}</div>
+              ))}
+            </MuiAlert>
+          )}
+
+          {diff && preview?.ruleSet && (
+            <Box sx={{ mt: 2 }}>
+              <Typography variant="subtitle2" gutterBottom>
+                {preview.ruleSet.name}{preview.ruleSet.version ? ` (version ${preview.ruleSet.version})` : ''}: {summarizeRuleSetDiff(diff)}
+                {diff.unchanged > 0 ? `, ${diff.unchanged} unchanged` : ''}
+              </Typography>
+              {diff.added.map(threshold => (
+                <Typography key={`added_${threshold.id}`} variant="body2" color="success.main">
+                  + {threshold.name}
+                </Typography>
+              ))}
+              {diff.removed.map(threshold => (
+                <Typography key={`removed_${threshold.id}`} variant="body2" color="error.main">
+                  − {threshold.name}
+                </Typography>
+              ))}
+              {diff.changed.map(change => (
+                <Typography key={`changed_${change.after.id}`} variant="body2" color="warning.main">
+                  ~ {change.after.name}: {change.fields.join(', ')}
+                </Typography>
+              ))}
+              {diff.settings.map(setting => (
+                <Typography key={`setting_${setting.key}`} variant="body2" color="text.secondary">
+                  ~ {setting.key}: {formatSetting(setting.before)} → {formatSetting(setting.after)}
+                </Typography>
+              ))}
+            </Box>
+          )}
+        </CardContent>
+        <CardActions>
+          <Button onClick={() => runPreview(text, mode)} disabled={!text.trim()}>
+            Preview
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleApply}
+            disabled={!preview?.ruleSet || !diff || isEmptyDiff(diff)}
+          >
+            Apply Import
+          </Button>
+        </CardActions>
+      </Card>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 1 }}>
+        <Typography variant="subtitle1" sx={{ flex: 1 }}>
+          Versions
+        </Typography>
+        <TextField
+          placeholder="Version name"
+          value={versionName}
+          onChange={(e) => setVersionName(e.target.value)}
+          size="small"
+        />
+        <Button startIcon={<SaveIcon />} onClick={handleSaveVersion}>
+          Save Current
+        </Button>
+      </Box>
+
+      {versions.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No versions yet. Exporting, importing or saving records one.
+        </Typography>
+      ) : (
+        <List dense>
+          {versions.map((version, index) => (
+            <ListItem key={version.version} divider>
+              <ListItemText
+                primary={
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Typography variant="body2" fontWeight="medium">
+                      v{version.version} · {version.name}
+                    </Typography>
+                    <Chip size="small" variant="outlined" label={SOURCE_LABELS[version.source]} />
+                    {index === 0 && <Chip size="small" color="primary" label="Latest" />}
+                  </Box>
+                }
+                secondary={[
+                  new Date(version.createdAt).toLocaleString(),
+                  version.createdBy,
+                  `${version.thresholds.length} thresholds`,
+                  version.description
+                ].filter(Boolean).join(' • ')}
+              />
+              <ListItemSecondaryAction>
+                <Tooltip title="Download">
+                  <IconButton size="small" onClick={() => handleDownloadVersion(version)}>
+                    <DownloadIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title="Roll back to this version">
+                  <IconButton size="small" onClick={() => handleRollback(version)}>
+                    <RestoreIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </ListItemSecondaryAction>
+            </ListItem>
+          ))}
+        </List>
+      )}
+    </Box>
+  );
+};
+
+export default RuleSetSettings;
@@ -0,0 +1,339 @@
+import React, { useState } from 'react';
+import {
+  Alert as MuiAlert,
+  Box,
+  Button,
+  Card,
+  CardActions,
+  CardContent,
+  Checkbox,
+  Chip,
+  FormControl,
+  FormControlLabel,
+  FormGroup,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemSecondaryAction,
+  ListItemText,
+  MenuItem,
+  Select,
+  Switch,
+  TextField,
+  Typography
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Save as SaveIcon,
+  Cancel as CancelIcon
+} from '@mui/icons-material';
+import { AlertSeverity, AlertType } from '../../types/alerts';
+import { alertService, ALERT_TYPES } from '../../services/alertService';
+import {
+  AlertSilence,
+  SilenceFrequency,
+  WEEKDAY_NAMES,
+  describeMatcher,
+  describeRecurrence,
+  formatLabels,
+  getActiveWindow,
+  getNextWindow,
+  parseLabels,
+  validateSilence
+} from '../../services/alertSilences';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const splitNames = (value: string): string[] =>
+  value.split(',').map(name => name.trim()).filter(Boolean);
+
+// datetime-local inputs work in local time without an offset
+const toLocalInputValue = (iso: string): string => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * MINUTE).toISOString().slice(0, 16);
+};
+
+const formatTime = (timestamp: number): string => new Date(timestamp).toLocaleString();
+
+/**
+ * Editor for silences and maintenance windows that suppress matching alerts
+ */
+const SilenceSettings: React.FC = () => {
+  const [silences, setSilences] = useState<AlertSilence[]>(alertService.getSilences());
+  const [editing, setEditing] = useState<AlertSilence | null>(null);
+
+  const refresh = () => setSilences(alertService.getSilences());
+
+  const handleCreate = () => {
+    const now = Date.now();
+    setEditing({
+      id: `silence_${now}`,
+      name: 'Maintenance window',
+      createdAt: new Date(now).toISOString(),
+      enabled: true,
+      matcher: {},
+      start: new Date(now).toISOString(),
+      end: new Date(now + 2 * HOUR).toISOString()
+    });
+  };
+
+  const save = () => {
+    if (editing && validateSilence(editing).length === 0) {
+      alertService.updateSilence(editing);
+      setEditing(null);
+      refresh();
+    }
+  };
+
+  const remove = (silenceId: string) => {
+    if (window.confirm('Are you sure you want to delete this silence?')) {
+      alertService.deleteSilence(silenceId);
+      refresh();
+    }
+  };
+
+  const toggle = (silence: AlertSilence) => {
+    alertService.updateSilence({ ...silence, enabled: !silence.enabled });
+    refresh();
+  };
+
+  const renderStatus = (silence: AlertSilence) => {
+    const now = Date.now();
+    const active = getActiveWindow(silence, now);
+    if (!silence.enabled) return <Chip size="small" label="Disabled" />;
+    if (active) return <Chip size="small" color="warning" label={`Active until ${formatTime(active.end)}`} />;
+    const next = getNextWindow(silence, now);
+    return next
+      ? <Chip size="small" variant="outlined" label={`Starts ${formatTime(next.start)}`} />
+      : <Chip size="small" variant="outlined" label="Expired" />;
+  };
+
+  const renderEditor = () => {
+    if (!editing) return null;
+    const errors = validateSilence(editing);
+    const frequency = editing.recurrence?.frequency || 'once';
+    const weekdays = editing.recurrence?.daysOfWeek?.length
+      ? editing.recurrence.daysOfWeek
+      : [new Date(editing.start).getDay()];
+    const updateMatcher = (matcher: Partial<AlertSilence['matcher']>) =>
+      setEditing({ ...editing, matcher: { ...editing.matcher, ...matcher } });
+
+    return (
+      <Card key={editing.id} sx={{ mb: 2 }}>
+        <CardContent>
+          <Box sx={{ display: 'grid', gap: 2, gridTemplateColumns: '1fr 1fr' }}>
+            <TextField
+              label="Name"
+              value={editing.name}
+              onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+              fullWidth
+            />
+            <TextField
+              label="Comment"
+              value={editing.comment || ''}
+              onChange={(e) => setEditing({ ...editing, comment: e.target.value })}
+              placeholder="e.g. Quarterly inventory count"
+              fullWidth
+            />
+
+            <Typography variant="subtitle2" sx={{ gridColumn: '1 / -1' }}>
+              Matching alerts (leave everything empty to silence all alerts)
+            </Typography>
+
+            <FormControl fullWidth>
+              <InputLabel>Alert Types</InputLabel>
+              <Select
+                multiple
+                label="Alert Types"
+                value={editing.matcher.types || []}
+                onChange={(e) => updateMatcher({ types: e.target.value as AlertType[] })}
+                renderValue={(selected) => (selected as string[]).map(type => type.replace(/_/g, ' ')).join(', ')}
+              >
+                {ALERT_TYPES.map(type => (
+                  <MenuItem key={type} value={type}>
+                    {type.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl fullWidth>
+              <InputLabel>Severities</InputLabel>
+              <Select
+                multiple
+                label="Severities"
+                value={editing.matcher.severities || []}
+                onChange={(e) => updateMatcher({ severities: e.target.value as AlertSeverity[] })}
+                renderValue={(selected) => (selected as string[]).join(', ')}
+              >
+                {Object.values(AlertSeverity).map(severity => (
+                  <MenuItem key={severity} value={severity}>
+                    {severity.charAt(0).toUpperCase() + severity.slice(1)}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <TextField
+              label="Regions (comma separated)"
+              defaultValue={(editing.matcher.regions || []).join(', ')}
+              onBlur={(e) => updateMatcher({ regions: splitNames(e.target.value) })}
+              fullWidth
+            />
+            <TextField
+              label="Labels (key=value, comma separated)"
+              defaultValue={formatLabels(editing.matcher.labels)}
+              onBlur={(e) => updateMatcher({ labels: parseLabels(e.target.value) })}
+              fullWidth
+            />
+
+            <TextField
+              label="Start"
+              type="datetime-local"
+              value={toLocalInputValue(editing.start)}
+              onChange={(e) => e.target.value && setEditing({ ...editing, start: new Date(e.target.value).toISOString() })}
+              InputLabelProps={{ shrink: true }}
+              fullWidth
+            />
+            <TextField
+              label="End"
+              type="datetime-local"
+              value={toLocalInputValue(editing.end)}
+              onChange={(e) => e.target.value && setEditing({ ...editing, end: new Date(e.target.value).toISOString() })}
+              InputLabelProps={{ shrink: true }}
+              fullWidth
+            />
+
+            <FormControl fullWidth>
+              <InputLabel>Repeat</InputLabel>
+              <Select
+                label="Repeat"
+                value={frequency}
+                onChange={(e) => {
+                  const value = e.target.value as SilenceFrequency;
+                  setEditing({
+                    ...editing,
+                    recurrence: value === 'once' ? undefined : { ...editing.recurrence, frequency: value }
+                  });
+                }}
+              >
+                <MenuItem value="once">Once</MenuItem>
+                <MenuItem value="daily">Daily</MenuItem>
+                <MenuItem value="weekly">Weekly</MenuItem>
+              </Select>
+            </FormControl>
+
+            {frequency !== 'once' && (
+              <TextField
+                label="Repeat Until"
+                type="date"
+                value={editing.recurrence?.until ? toLocalInputValue(editing.recurrence.until).slice(0, 10) : ''}
+                onChange={(e) => setEditing({
+                  ...editing,
+                  recurrence: {
+                    ...editing.recurrence!,
+                    until: e.target.value ? new Date(`${e.target.value}T23:59:59`).toISOString() : undefined
+                  }
+                })}
+                InputLabelProps={{ shrink: true }}
+                fullWidth
+              />
+            )}
+
+            {frequency === 'weekly' && (
+              <FormGroup row sx={{ gridColumn: '1 / -1' }}>
+                {WEEKDAY_NAMES.map((name, day) => (
+                  <FormControlLabel
+                    key={name}
+                    label={name}
+                    control={
+                      <Checkbox
+                        checked={weekdays.includes(day)}
+                        onChange={(e) => setEditing({
+                          ...editing,
+                          recurrence: {
+                            ...editing.recurrence!,
+                            daysOfWeek: e.target.checked
+                              ? [...weekdays, day].sort((a, b) => a - b)
+                              : weekdays.filter(existing => existing !== day)
+                          }
+                        })}
+                      />
+                    }
+                  />
+                ))}
+              </FormGroup>
+            )}
+          </Box>
+
+          {errors.length > 0 && (
+            <MuiAlert severity="error" sx={{ mt: 2 }}>
+              {errors.join('. ')}
+            </MuiAlert>
+          )}
+        </CardContent>
+        <CardActions>
+          <Button startIcon={<SaveIcon />} variant="contained" onClick={save} disabled={errors.length > 0}>
+            Save
+          </Button>
+          <Button startIcon={<CancelIcon />} onClick={() => setEditing(null)}>
+            Cancel
+          </Button>
+        </CardActions>
+      </Card>
+    );
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h6">Silences & Maintenance Windows</Typography>
+        <Button startIcon={<AddIcon />} variant="contained" onClick={handleCreate} disabled={editing !== null}>
+          Add Silence
+        </Button>
+      </Box>
+
+      {renderEditor()}
+
+      {silences.length === 0 && !editing && (
+        <Typography variant="body2" color="text.secondary">
+          No silences. Matching alerts are suppressed while a silence is active and raised afterwards if their condition still holds.
+        </Typography>
+      )}
+
+      <List>
+        {silences.map(silence => (
+          <ListItem key={silence.id} sx={{ border: 1, borderColor: 'divider', borderRadius: 1, mb: 1 }}>
+            <Switch checked={silence.enabled} onChange={() => toggle(silence)} size="small" />
+            <ListItemText
+              primary={
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  {silence.name}
+                  {renderStatus(silence)}
+                  {(silence.suppressed || 0) > 0 && (
+                    <Chip size="small" variant="outlined" label={`${silence.suppressed} suppressed`} />
+                  )}
+                </Box>
+              }
+              secondary={`${describeMatcher(silence.matcher)} • ${describeRecurrence(silence)} • ${formatTime(new Date(silence.start).getTime())} – ${formatTime(new Date(silence.end).getTime())}${silence.comment ? ` • ${silence.comment}` : ''}`}
+            />
+            <ListItemSecondaryAction>
+              <IconButton size="small" onClick={() => setEditing({ ...silence })} disabled={editing !== null}>
+                <EditIcon />
+              </IconButton>
+              <IconButton size="small" onClick={() => remove(silence.id)} disabled={editing !== null}>
+                <DeleteIcon />
+              </IconButton>
+            </ListItemSecondaryAction>
+          </ListItem>
+        ))}
+      </List>
+    </Box>
+  );
+};
+
+export default SilenceSettings;
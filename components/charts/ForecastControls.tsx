@@ -0,0 +1,68 @@
+import React from 'react';
+import {
+  Box,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch
+} from '@mui/material';
+import { ForecastMethod, FORECAST_METHOD_LABELS } from '../../services/forecasting';
+
+export interface ForecastSettings {
+  enabled: boolean;
+  method: ForecastMethod | 'auto';
+  horizon: number;
+}
+
+interface ForecastControlsProps {
+  value: ForecastSettings;
+  onChange: (value: ForecastSettings) => void;
+  horizons: Array<{ value: number; label: string }>;
+}
+
+/**
+ * Toggle, method and horizon pickers for a chart's forecast
+ */
+export const ForecastControls: React.FC<ForecastControlsProps> = ({ value, onChange, horizons }) => (
+  <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+    <FormControlLabel
+      control={
+        <Switch
+          size="small"
+          checked={value.enabled}
+          onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+        />
+      }
+      label="Forecast"
+    />
+    <FormControl size="small" sx={{ minWidth: 150 }} disabled={!value.enabled}>
+      <InputLabel>Method</InputLabel>
+      <Select
+        label="Method"
+        value={value.method}
+        onChange={(e) => onChange({ ...value, method: e.target.value as ForecastSettings['method'] })}
+      >
+        <MenuItem value="auto">Best fit</MenuItem>
+        {(Object.keys(FORECAST_METHOD_LABELS) as ForecastMethod[]).map(method => (
+          <MenuItem key={method} value={method}>{FORECAST_METHOD_LABELS[method]}</MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+    <FormControl size="small" sx={{ minWidth: 120 }} disabled={!value.enabled}>
+      <InputLabel>Horizon</InputLabel>
+      <Select
+        label="Horizon"
+        value={value.horizon}
+        onChange={(e) => onChange({ ...value, horizon: Number(e.target.value) })}
+      >
+        {horizons.map(horizon => (
+          <MenuItem key={horizon.value} value={horizon.value}>{horizon.label}</MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  </Box>
+);
+
+export default ForecastControls;
@@ -1,2 +1,4 @@
 export { default as TouchEnabledChart, getMobileChartOptions } from './TouchEnabledChart';
-export type { TouchGesture } from './TouchEnabledChart';
\ No newline at end of file
+export type { TouchGesture } from './TouchEnabledChart';
+export { default as ForecastControls } from './ForecastControls';
+export type { ForecastSettings } from './ForecastControls';
\ No newline at end of file
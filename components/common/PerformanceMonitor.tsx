@@ -28,15 +28,20 @@ import {
   NetworkCheck as NetworkIcon,
   Timeline as TimelineIcon
 } from '@mui/icons-material';
-import { dataCacheService, CacheStats } from '@/services/dataCacheService';
-import { realTimeDataService } from '@/services/realTimeDataService';
-import { autoRefreshService, RefreshJob } from '@/services/autoRefreshService';
+import { dataCacheService, CacheStats, CacheInvalidationEvent } from '@/services/dataCacheService';
+import { realTimeRelay } from '@/services/realTimeRelay';
+import { autoRefreshService, RefreshJob, describeJobSchedule } from '@/services/autoRefreshService';
+import { circuitBreakerRegistry, CircuitSnapshot } from '@/services/circuitBreaker';
+import { tabCoordinator, TabRole } from '@/services/tabCoordinator';
 import { configService } from '@/services/configService';
 
 interface PerformanceMetrics {
   cacheStats: CacheStats;
   connectionStatus: string;
+  tabRole: TabRole;
   activeJobs: RefreshJob[];
+  invalidations: CacheInvalidationEvent[];
+  circuits: CircuitSnapshot[];
   memoryUsage: number;
   lastUpdate: string;
 }
@@ -48,10 +53,18 @@ const PerformanceMonitor: React.FC = () => {
       totalHits: 0,
       totalMisses: 0,
       hitRate: 0,
-      memoryUsage: 0
+      memoryUsage: 0,
+      staleHits: 0,
+      revalidations: 0,
+      revalidationFailures: 0,
+      persistentEntries: 0,
+      persistentBytes: 0
     },
     connectionStatus: 'disconnected',
+    tabRole: 'leader',
     activeJobs: [],
+    invalidations: [],
+    circuits: [],
     memoryUsage: 0,
     lastUpdate: new Date().toISOString()
   });
@@ -60,8 +73,11 @@ const PerformanceMonitor: React.FC = () => {
 
   const updateMetrics = () => {
     const cacheStats = dataCacheService.getStats();
-    const connectionStatus = realTimeDataService.getConnectionStatus();
+    const connectionStatus = realTimeRelay.getConnectionStatus();
+    const tabRole = tabCoordinator.getState().role;
     const activeJobs = autoRefreshService.getAllJobs();
+    const invalidations = dataCacheService.getInvalidationHistory().slice(0, 10);
+    const circuits = circuitBreakerRegistry.getAll();
     
     // Estimate memory usage (rough calculation)
     const memoryUsage = performance.memory ? performance.memory.usedJSHeapSize : 0;
@@ -69,7 +85,10 @@ const PerformanceMonitor: React.FC = () => {
     setMetrics({
       cacheStats,
       connectionStatus,
+      tabRole,
       activeJobs,
+      invalidations,
+      circuits,
       memoryUsage,
       lastUpdate: new Date().toISOString()
     });
@@ -80,8 +99,16 @@ const PerformanceMonitor: React.FC = () => {
     
     // Update metrics every 5 seconds
     const interval = setInterval(updateMetrics, 5000);
+    const unsubscribeInvalidations = dataCacheService.onInvalidate(updateMetrics);
+    const unsubscribeCircuits = circuitBreakerRegistry.subscribe(updateMetrics);
+    const unsubscribeLeadership = tabCoordinator.onLeadershipChange(updateMetrics);
     
-    return () => clearInterval(interval);
+    return () => {
+      clearInterval(interval);
+      unsubscribeInvalidations();
+      unsubscribeCircuits();
+      unsubscribeLeadership();
+    };
   }, []);
 
   const handleAccordionChange = (panel: string) => (
@@ -102,7 +129,8 @@ const PerformanceMonitor: React.FC = () => {
   const formatDuration = (ms: number): string => {
     if (ms < 1000) return `${ms}ms`;
     if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
-    return `${(ms / 60000).toFixed(1)}m`;
+    if (ms < 3600000) return `${(ms / 60000).toFixed(1)}m`;
+    return `${(ms / 3600000).toFixed(1)}h`;
   };
 
   const getConnectionStatusColor = (status: string) => {
@@ -111,17 +139,35 @@ const PerformanceMonitor: React.FC = () => {
       case 'connecting': return 'warning';
       case 'disconnected': return 'default';
       case 'error': return 'error';
+      case 'paused': return 'warning';
       default: return 'default';
     }
   };
 
   const getJobStatusColor = (job: RefreshJob) => {
     if (job.isRunning) return 'info';
+    if (job.status === 'paused' || job.status === 'backoff') return 'warning';
     if (job.errors > 0) return 'error';
     if (job.config.enabled) return 'success';
     return 'default';
   };
 
+  const getJobStatusLabel = (job: RefreshJob) => {
+    if (job.isRunning) return 'Running';
+    if (job.status === 'paused') return 'Paused';
+    if (job.status === 'backoff') return 'Backoff';
+    return job.config.enabled ? 'Active' : 'Disabled';
+  };
+
+  const getCircuitStateColor = (state: CircuitSnapshot['state']) => {
+    switch (state) {
+      case 'closed': return 'success';
+      case 'half-open': return 'warning';
+      case 'open': return 'error';
+      default: return 'default';
+    }
+  };
+
   if (!configService.debugMode) {
     return null; // Only show in debug mode
   }
@@ -177,7 +223,7 @@ const PerformanceMonitor: React.FC = () => {
                   size="small"
                 />
                 <Typography variant="caption" color="textSecondary" display="block">
-                  Connection
+                  Connection ({metrics.tabRole === 'leader' ? 'leader tab' : 'via leader tab'})
                 </Typography>
               </CardContent>
             </Card>
@@ -226,6 +272,14 @@ const PerformanceMonitor: React.FC = () => {
                 <Typography variant="body2">
                   Total Misses: {metrics.cacheStats.totalMisses}
                 </Typography>
+                <Typography variant="body2">
+                  Stale Serves: {metrics.cacheStats.staleHits}
+                </Typography>
+                <Typography variant="body2">
+                  Revalidations: {metrics.cacheStats.revalidations}
+                  {metrics.cacheStats.revalidationFailures > 0 &&
+                    ` (${metrics.cacheStats.revalidationFailures} failed)`}
+                </Typography>
               </Grid>
               
               <Grid item xs={12} md={6}>
@@ -238,6 +292,9 @@ const PerformanceMonitor: React.FC = () => {
                 <Typography variant="body2">
                   Total Entries: {metrics.cacheStats.totalEntries}
                 </Typography>
+                <Typography variant="body2">
+                  Persisted: {metrics.cacheStats.persistentEntries} entries ({formatBytes(metrics.cacheStats.persistentBytes)})
+                </Typography>
               </Grid>
             </Grid>
           </AccordionDetails>
@@ -258,10 +315,11 @@ const PerformanceMonitor: React.FC = () => {
                     <TableCell>Job ID</TableCell>
                     <TableCell>Type</TableCell>
                     <TableCell>Status</TableCell>
-                    <TableCell>Interval</TableCell>
+                    <TableCell>Schedule</TableCell>
                     <TableCell>Success Count</TableCell>
                     <TableCell>Errors</TableCell>
                     <TableCell>Last Run</TableCell>
+                    <TableCell>Next Run</TableCell>
                   </TableRow>
                 </TableHead>
                 <TableBody>
@@ -271,22 +329,27 @@ const PerformanceMonitor: React.FC = () => {
                       <TableCell>{job.type}</TableCell>
                       <TableCell>
                         <Chip 
-                          label={job.isRunning ? 'Running' : job.config.enabled ? 'Active' : 'Disabled'}
+                          label={getJobStatusLabel(job)}
                           color={getJobStatusColor(job) as any}
                           size="small"
                         />
                       </TableCell>
-                      <TableCell>{formatDuration(job.config.interval)}</TableCell>
+                      <TableCell>{describeJobSchedule(job)}</TableCell>
                       <TableCell>{job.successCount}</TableCell>
                       <TableCell>{job.errors}</TableCell>
                       <TableCell>
                         {job.lastRun ? new Date(job.lastRun).toLocaleTimeString() : 'Never'}
                       </TableCell>
+                      <TableCell>
+                        {job.config.enabled && job.nextRun
+                          ? `${new Date(job.nextRun).toLocaleString()} (in ${formatDuration(Math.max(job.nextRun - Date.now(), 0))})`
+                          : '—'}
+                      </TableCell>
                     </TableRow>
                   ))}
                   {metrics.activeJobs.length === 0 && (
                     <TableRow>
-                      <TableCell colSpan={7} align="center">
+                      <TableCell colSpan={8} align="center">
                         No active jobs
                       </TableCell>
                     </TableRow>
@@ -297,6 +360,100 @@ const PerformanceMonitor: React.FC = () => {
           </AccordionDetails>
         </Accordion>
 
+        <Accordion 
+          expanded={expanded === 'invalidations'} 
+          onChange={handleAccordionChange('invalidations')}
+        >
+          <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+            <Typography>Cache Invalidations ({metrics.invalidations.length})</Typography>
+          </AccordionSummary>
+          <AccordionDetails>
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Time</TableCell>
+                    <TableCell>Trigger</TableCell>
+                    <TableCell>Entries</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {metrics.invalidations.map((event, index) => (
+                    <TableRow key={`${event.timestamp}-${index}`}>
+                      <TableCell>{new Date(event.timestamp).toLocaleTimeString()}</TableCell>
+                      <TableCell>
+                        {event.reason || event.tags?.join(', ') || event.pattern}
+                      </TableCell>
+                      <TableCell>{event.keys.length}</TableCell>
+                    </TableRow>
+                  ))}
+                  {metrics.invalidations.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={3} align="center">
+                        No invalidations yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </AccordionDetails>
+        </Accordion>
+
+        <Accordion 
+          expanded={expanded === 'circuits'} 
+          onChange={handleAccordionChange('circuits')}
+        >
+          <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+            <Typography>
+              Circuit Breakers ({metrics.circuits.filter(circuit => circuit.state !== 'closed').length} open)
+            </Typography>
+          </AccordionSummary>
+          <AccordionDetails>
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Endpoint</TableCell>
+                    <TableCell>State</TableCell>
+                    <TableCell>Failures</TableCell>
+                    <TableCell>Next Attempt</TableCell>
+                    <TableCell>Last Error</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {metrics.circuits.map((circuit) => (
+                    <TableRow key={circuit.key}>
+                      <TableCell>{circuit.key}</TableCell>
+                      <TableCell>
+                        <Chip 
+                          label={circuit.state}
+                          color={getCircuitStateColor(circuit.state) as any}
+                          size="small"
+                        />
+                      </TableCell>
+                      <TableCell>{circuit.failures}</TableCell>
+                      <TableCell>
+                        {circuit.nextAttemptAt
+                          ? `in ${formatDuration(Math.max(circuit.nextAttemptAt - Date.now(), 0))}`
+                          : '—'}
+                      </TableCell>
+                      <TableCell>{circuit.lastError || '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                  {metrics.circuits.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} align="center">
+                        No requests tracked yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </AccordionDetails>
+        </Accordion>
+
         <Box mt={2}>
           <Typography variant="caption" color="textSecondary">
             Last updated: {new Date(metrics.lastUpdate).toLocaleTimeString()}
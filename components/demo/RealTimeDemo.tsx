@@ -31,7 +31,7 @@ import {
 import { useBusinessMetrics, useRevenueData, useInventoryData, useCustomerData } from '@/hooks/useRealTimeData';
 import { dataCacheService } from '@/services/dataCacheService';
 import { autoRefreshService } from '@/services/autoRefreshService';
-import { realTimeDataService } from '@/services/realTimeDataService';
+import { realTimeRelay } from '@/services/realTimeRelay';
 import SkeletonLoader from '@/components/common/SkeletonLoader';
 import PerformanceMonitor from '@/components/common/PerformanceMonitor';
 
@@ -105,9 +105,9 @@ const RealTimeDemo: React.FC = () => {
     setRealTimeEnabled(enabled);
     
     if (enabled) {
-      realTimeDataService.connect();
+      realTimeRelay.connect();
     } else {
-      realTimeDataService.disconnect();
+      realTimeRelay.disconnect();
     }
   };
 
@@ -117,6 +117,7 @@ const RealTimeDemo: React.FC = () => {
       case 'connecting': return 'warning';
       case 'disconnected': return 'default';
       case 'error': return 'error';
+      case 'paused': return 'warning';
       default: return 'default';
     }
   };
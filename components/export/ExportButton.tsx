@@ -15,10 +15,16 @@ import {
   Image as ImageIcon,
   Print as PrintIcon,
   Email as EmailIcon,
+  Description as DataIcon,
+  Slideshow as SlidesIcon,
   MoreVert as MoreIcon
 } from '@mui/icons-material';
 import ExportPanel from './ExportPanel';
 import { exportService } from '../../services/exportService';
+import { ExportFormat } from '../../types';
+import { DATA_EXPORT_FORMATS, DATA_EXPORT_FORMAT_CONFIG, DataExportFormat } from '../../services/exportFormats';
+import { downloadExportFile, exportDataAs } from '../../services/dataExport';
+import { renderDashboardWorkbook } from '../../services/excelWorkbook';
 
 interface ExportButtonProps {
   dashboardElementId: string;
@@ -47,28 +53,34 @@ const ExportButton: React.FC<ExportButtonProps> = ({
     setAnchorEl(null);
   };
 
-  const handleQuickExport = async (format: 'pdf' | 'excel' | 'png') => {
+  const handleQuickExport = async (format: ExportFormat.PDF | ExportFormat.EXCEL | ExportFormat.PNG | DataExportFormat) => {
     handleMenuClose();
     
     try {
       switch (format) {
-        case 'pdf':
+        case ExportFormat.PDF:
           await exportService.exportToPDF(dashboardElementId, {
             filename: `${title.toLowerCase().replace(/\s+/g, '-')}-${new Date().toISOString().split('T')[0]}.pdf`
           });
           break;
-        case 'excel':
+        case ExportFormat.EXCEL:
           if (data) {
-            await exportService.exportToExcel(data, {
+            downloadExportFile(renderDashboardWorkbook(data, {
+              title,
               filename: `${title.toLowerCase().replace(/\s+/g, '-')}-data-${new Date().toISOString().split('T')[0]}.xlsx`
-            });
+            }));
           }
           break;
-        case 'png':
+        case ExportFormat.PNG:
           await exportService.exportChartAsImage(dashboardElementId, 'png', {
             filename: `${title.toLowerCase().replace(/\s+/g, '-')}-${new Date().toISOString().split('T')[0]}.png`
           });
           break;
+        default:
+          if (data) {
+            downloadExportFile(exportDataAs(data, format, { title }));
+          }
+          break;
       }
     } catch (error) {
       console.error('Quick export failed:', error);
@@ -112,7 +124,7 @@ const ExportButton: React.FC<ExportButtonProps> = ({
             horizontal: 'right',
           }}
         >
-          <MenuItem onClick={() => handleQuickExport('pdf')}>
+          <MenuItem onClick={() => handleQuickExport(ExportFormat.PDF)}>
             <ListItemIcon>
               <PdfIcon fontSize="small" />
             </ListItemIcon>
@@ -120,7 +132,7 @@ const ExportButton: React.FC<ExportButtonProps> = ({
           </MenuItem>
 
           {data && (
-            <MenuItem onClick={() => handleQuickExport('excel')}>
+            <MenuItem onClick={() => handleQuickExport(ExportFormat.EXCEL)}>
               <ListItemIcon>
                 <ExcelIcon fontSize="small" />
               </ListItemIcon>
@@ -128,13 +140,22 @@ const ExportButton: React.FC<ExportButtonProps> = ({
             </MenuItem>
           )}
 
-          <MenuItem onClick={() => handleQuickExport('png')}>
+          <MenuItem onClick={() => handleQuickExport(ExportFormat.PNG)}>
             <ListItemIcon>
               <ImageIcon fontSize="small" />
             </ListItemIcon>
             <ListItemText>Export as Image</ListItemText>
           </MenuItem>
 
+          {data && DATA_EXPORT_FORMATS.map(format => (
+            <MenuItem key={format} onClick={() => handleQuickExport(format)}>
+              <ListItemIcon>
+                {format === DataExportFormat.PPTX ? <SlidesIcon fontSize="small" /> : <DataIcon fontSize="small" />}
+              </ListItemIcon>
+              <ListItemText>Export as {DATA_EXPORT_FORMAT_CONFIG[format].label}</ListItemText>
+            </MenuItem>
+          ))}
+
           <Divider />
 
           <MenuItem onClick={handlePrint}>
@@ -190,7 +211,7 @@ const ExportButton: React.FC<ExportButtonProps> = ({
           horizontal: 'right',
         }}
       >
-        <MenuItem onClick={() => handleQuickExport('pdf')}>
+        <MenuItem onClick={() => handleQuickExport(ExportFormat.PDF)}>
           <ListItemIcon>
             <PdfIcon fontSize="small" />
           </ListItemIcon>
@@ -198,7 +219,7 @@ const ExportButton: React.FC<ExportButtonProps> = ({
         </MenuItem>
 
         {data && (
-          <MenuItem onClick={() => handleQuickExport('excel')}>
+          <MenuItem onClick={() => handleQuickExport(ExportFormat.EXCEL)}>
             <ListItemIcon>
               <ExcelIcon fontSize="small" />
             </ListItemIcon>
@@ -206,13 +227,22 @@ const ExportButton: React.FC<ExportButtonProps> = ({
           </MenuItem>
         )}
 
-        <MenuItem onClick={() => handleQuickExport('png')}>
+        <MenuItem onClick={() => handleQuickExport(ExportFormat.PNG)}>
           <ListItemIcon>
             <ImageIcon fontSize="small" />
           </ListItemIcon>
           <ListItemText>Image</ListItemText>
         </MenuItem>
 
+        {data && DATA_EXPORT_FORMATS.map(format => (
+          <MenuItem key={format} onClick={() => handleQuickExport(format)}>
+            <ListItemIcon>
+              {format === DataExportFormat.PPTX ? <SlidesIcon fontSize="small" /> : <DataIcon fontSize="small" />}
+            </ListItemIcon>
+            <ListItemText>{DATA_EXPORT_FORMAT_CONFIG[format].label}</ListItemText>
+          </MenuItem>
+        ))}
+
         <Divider />
 
         <MenuItem onClick={handlePrint}>
@@ -29,10 +29,23 @@ import {
   Print as PrintIcon,
   PictureAsPdf as PdfIcon,
   TableChart as ExcelIcon,
-  Image as ImageIcon
+  Image as ImageIcon,
+  Description as DataIcon,
+  Slideshow as SlidesIcon,
+  Schedule as ScheduleIcon
 } from '@mui/icons-material';
 import { ExportOptions, ExportFormat, ExportResult, EmailShareOptions } from '../../types';
 import { exportService } from '../../services/exportService';
+import {
+  AnyExportFormat,
+  DATA_EXPORT_FORMATS,
+  DATA_EXPORT_FORMAT_CONFIG,
+  DataExportFormat,
+  isDataExportFormat
+} from '../../services/exportFormats';
+import { downloadExportFile, exportDataAs } from '../../services/dataExport';
+import { renderDashboardWorkbook } from '../../services/excelWorkbook';
+import ReportSubscriptionDialog from './ReportSubscriptionDialog';
 
 interface ExportPanelProps {
   open: boolean;
@@ -68,6 +81,32 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
   const [result, setResult] = useState<ExportResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [recipientInput, setRecipientInput] = useState('');
+  const [scheduleOpen, setScheduleOpen] = useState(false);
+  const [csvDelimiter, setCsvDelimiter] = useState<'auto' | ',' | ';' | '\t'>('auto');
+  // Data formats sit outside ExportFormat, so the selection covers both enums
+  const [format, setFormat] = useState<AnyExportFormat>(ExportFormat.PDF);
+
+  const isDataFormat = isDataExportFormat(format);
+
+  const handleFormatChange = (value: AnyExportFormat) => {
+    setFormat(value);
+    if (!isDataExportFormat(value)) {
+      setExportOptions(prev => ({ ...prev, format: value }));
+    }
+  };
+
+  const exportData = (dataFormat: DataExportFormat): ExportResult => {
+    if (!data) {
+      throw new Error(`No data available for ${DATA_EXPORT_FORMAT_CONFIG[dataFormat].label} export`);
+    }
+    const file = exportDataAs(data, dataFormat, {
+      title,
+      filename: exportOptions.filename || undefined,
+      delimiter: csvDelimiter === 'auto' ? undefined : csvDelimiter
+    });
+    downloadExportFile(file);
+    return { success: true, filename: file.filename, size: file.bytes.length };
+  };
 
   const handleExport = async () => {
     setLoading(true);
@@ -77,24 +116,33 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
     try {
       let exportResult: ExportResult;
 
-      switch (exportOptions.format) {
+      switch (format) {
         case ExportFormat.PDF:
           exportResult = await exportService.exportToPDF(dashboardElementId, exportOptions);
           break;
-        case ExportFormat.EXCEL:
+        case ExportFormat.EXCEL: {
           if (!data) {
             throw new Error('No data available for Excel export');
           }
-          exportResult = await exportService.exportToExcel(data, exportOptions);
+          const workbook = renderDashboardWorkbook(data, { title, filename: exportOptions.filename || undefined });
+          downloadExportFile(workbook);
+          exportResult = { success: true, filename: workbook.filename, size: workbook.bytes.length };
           break;
+        }
         case ExportFormat.PNG:
         case ExportFormat.JPEG:
           exportResult = await exportService.exportChartAsImage(
             dashboardElementId,
-            exportOptions.format === ExportFormat.PNG ? 'png' : 'jpeg',
+            format === ExportFormat.PNG ? 'png' : 'jpeg',
             exportOptions
           );
           break;
+        case DataExportFormat.CSV:
+        case DataExportFormat.NDJSON:
+        case DataExportFormat.PARQUET:
+        case DataExportFormat.PPTX:
+          exportResult = exportData(format);
+          break;
         default:
           throw new Error('Unsupported export format');
       }
@@ -164,8 +212,8 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
           <FormControl component="fieldset">
             <FormLabel component="legend">Export Format</FormLabel>
             <RadioGroup
-              value={exportOptions.format}
-              onChange={(e) => setExportOptions(prev => ({ ...prev, format: e.target.value as ExportFormat }))}
+              value={format}
+              onChange={(e) => handleFormatChange(e.target.value as AnyExportFormat)}
             >
               <FormControlLabel 
                 value={ExportFormat.PDF} 
@@ -207,12 +255,26 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
                   </Box>
                 }
               />
+              {DATA_EXPORT_FORMATS.map(format => (
+                <FormControlLabel
+                  key={format}
+                  value={format}
+                  control={<Radio />}
+                  disabled={!data}
+                  label={
+                    <Box display="flex" alignItems="center" gap={1}>
+                      {format === DataExportFormat.PPTX ? <SlidesIcon /> : <DataIcon />}
+                      {DATA_EXPORT_FORMAT_CONFIG[format].label}
+                    </Box>
+                  }
+                />
+              ))}
             </RadioGroup>
           </FormControl>
 
           {/* Export Options */}
           <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
-            {(exportOptions.format === ExportFormat.PDF) && (
+            {format === ExportFormat.PDF && (
               <>
                 <FormControl fullWidth>
                   <InputLabel>Orientation</InputLabel>
@@ -241,18 +303,36 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
               </>
             )}
 
-            <FormControl fullWidth>
-              <InputLabel>Quality</InputLabel>
-              <Select
-                value={exportOptions.quality || 'medium'}
-                onChange={(e) => setExportOptions(prev => ({ ...prev, quality: e.target.value as 'low' | 'medium' | 'high' }))}
-                label="Quality"
-              >
-                <MenuItem value="low">Low</MenuItem>
-                <MenuItem value="medium">Medium</MenuItem>
-                <MenuItem value="high">High</MenuItem>
-              </Select>
-            </FormControl>
+            {format === DataExportFormat.CSV && (
+              <FormControl fullWidth>
+                <InputLabel>Delimiter</InputLabel>
+                <Select
+                  value={csvDelimiter}
+                  onChange={(e) => setCsvDelimiter(e.target.value as 'auto' | ',' | ';' | '\t')}
+                  label="Delimiter"
+                >
+                  <MenuItem value="auto">From locale</MenuItem>
+                  <MenuItem value=",">Comma</MenuItem>
+                  <MenuItem value=";">Semicolon</MenuItem>
+                  <MenuItem value={'\t'}>Tab</MenuItem>
+                </Select>
+              </FormControl>
+            )}
+
+            {!isDataFormat && (
+              <FormControl fullWidth>
+                <InputLabel>Quality</InputLabel>
+                <Select
+                  value={exportOptions.quality || 'medium'}
+                  onChange={(e) => setExportOptions(prev => ({ ...prev, quality: e.target.value as 'low' | 'medium' | 'high' }))}
+                  label="Quality"
+                >
+                  <MenuItem value="low">Low</MenuItem>
+                  <MenuItem value="medium">Medium</MenuItem>
+                  <MenuItem value="high">High</MenuItem>
+                </Select>
+              </FormControl>
+            )}
 
             <TextField
               fullWidth
@@ -369,6 +449,14 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
           Print
         </Button>
 
+        <Button
+          onClick={() => setScheduleOpen(true)}
+          startIcon={<ScheduleIcon />}
+          variant="outlined"
+        >
+          Schedule
+        </Button>
+
         <Button
           onClick={handleEmailShare}
           startIcon={<EmailIcon />}
@@ -387,6 +475,16 @@ const ExportPanel: React.FC<ExportPanelProps> = ({
           {loading ? 'Exporting...' : 'Export'}
         </Button>
       </DialogActions>
+
+      <ReportSubscriptionDialog
+        open={scheduleOpen}
+        onClose={() => setScheduleOpen(false)}
+        defaults={{
+          name: title,
+          format: exportOptions.format === ExportFormat.EXCEL ? ExportFormat.EXCEL : ExportFormat.PDF,
+          recipients: emailOptions.recipients
+        }}
+      />
     </Dialog>
   );
 };
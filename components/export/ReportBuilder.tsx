@@ -0,0 +1,495 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Divider,
+  FormControl,
+  IconButton,
+  InputLabel,
+  List,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  ContentCopy as DuplicateIcon,
+  Delete as DeleteIcon,
+  DragIndicator as DragIcon,
+  Download as DownloadIcon,
+  Save as SaveIcon
+} from '@mui/icons-material';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../store';
+import { ExportFormat, FilterCriteria, WidgetType } from '../../types';
+import { WIDGET_TYPE_CONFIG } from '../../constants';
+import { DataExportFormat } from '../../services/exportFormats';
+import { downloadExportFile } from '../../services/dataExport';
+import { ReportOutputFormat } from '../../services/reportPipeline';
+import { REPORT_DATE_PRESETS, RelativeDatePreset, resolveDatePreset } from '../../services/reportSubscriptions';
+import {
+  reportTemplateService,
+  createTemplateDraft,
+  createTemplateId,
+  generateTemplateReport,
+  getTemplateSources,
+  validateTemplate,
+  ReportTemplate,
+  ReportTemplateBlock,
+  ReportTemplateDraft,
+  ReportTemplateSection,
+  REPORT_TEMPLATE_METRICS,
+  REPORT_TEMPLATE_VARIABLES
+} from '../../services/reportTemplates';
+
+type BlockSpec =
+  | { kind: 'widget'; widgetType: WidgetType }
+  | { kind: 'text' }
+  | { kind: 'pageBreak' };
+
+type DragPayload =
+  | { kind: 'new'; spec: BlockSpec }
+  | { kind: 'move'; blockId: string };
+
+type EditedTemplate = ReportTemplateDraft & { id?: string };
+
+const DRAG_TYPE = 'application/x-report-block';
+
+const LOCAL_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const OUTPUT_FORMATS: Array<{ value: ReportOutputFormat; label: string }> = [
+  { value: ExportFormat.PDF, label: 'PDF' },
+  { value: ExportFormat.EXCEL, label: 'Excel' },
+  { value: DataExportFormat.PPTX, label: 'PowerPoint' }
+];
+
+const PALETTE: Array<{ key: string; label: string; spec: BlockSpec }> = [
+  ...(Object.keys(WIDGET_TYPE_CONFIG) as WidgetType[]).map(widgetType => ({
+    key: widgetType,
+    label: WIDGET_TYPE_CONFIG[widgetType].label,
+    spec: { kind: 'widget' as const, widgetType }
+  })),
+  { key: 'text', label: 'Text Block', spec: { kind: 'text' } },
+  { key: 'pageBreak', label: 'Page Break', spec: { kind: 'pageBreak' } }
+];
+
+const PLACEHOLDERS = [
+  ...REPORT_TEMPLATE_VARIABLES,
+  ...REPORT_TEMPLATE_METRICS.map(({ key, label }) => ({ key, label }))
+];
+
+const createBlock = (spec: BlockSpec): ReportTemplateBlock => {
+  const id = createTemplateId('block');
+  if (spec.kind === 'text') return { id, kind: 'text', text: '' };
+  if (spec.kind === 'pageBreak') return { id, kind: 'pageBreak' };
+
+  const source = getTemplateSources(spec.widgetType)[0]!;
+  return { id, kind: 'widget', widgetType: spec.widgetType, title: source.label, source: source.key };
+};
+
+const findBlock = (sections: ReportTemplateSection[], blockId: string): ReportTemplateBlock | undefined =>
+  sections.flatMap(section => section.blocks).find(block => block.id === blockId);
+
+/**
+ * Insert a block before `index` in a section; a block already in the
+ * template is moved there
+ */
+const placeBlock = (
+  sections: ReportTemplateSection[],
+  block: ReportTemplateBlock,
+  sectionId: string,
+  index: number
+): ReportTemplateSection[] => {
+  const source = sections.find(section => section.blocks.some(b => b.id === block.id));
+  const from = source ? source.blocks.findIndex(b => b.id === block.id) : -1;
+  const at = source?.id === sectionId && from < index ? index - 1 : index;
+
+  return sections
+    .map(section => ({ ...section, blocks: section.blocks.filter(b => b.id !== block.id) }))
+    .map(section => (section.id === sectionId
+      ? { ...section, blocks: [...section.blocks.slice(0, at), block, ...section.blocks.slice(at)] }
+      : section));
+};
+
+const readPayload = (event: React.DragEvent): DragPayload | null => {
+  try {
+    return JSON.parse(event.dataTransfer.getData(DRAG_TYPE));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Report template designer: drag widgets, text blocks and page breaks into
+ * sections, save the template and generate it with any filters
+ */
+export const ReportBuilder: React.FC = () => {
+  const currentFilters = useSelector((state: RootState) => state.filters) as FilterCriteria;
+  const [templates, setTemplates] = useState<ReportTemplate[]>(reportTemplateService.getTemplates());
+  const [template, setTemplate] = useState<EditedTemplate>(createTemplateDraft());
+  const [showErrors, setShowErrors] = useState(false);
+  const [format, setFormat] = useState<ReportOutputFormat>(ExportFormat.PDF);
+  const [period, setPeriod] = useState<'current' | RelativeDatePreset>('current');
+  const [generating, setGenerating] = useState(false);
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+  const [grabbed, setGrabbed] = useState<string | null>(null); // Blocks drag only by their handle so their text stays selectable
+
+  useEffect(() => reportTemplateService.subscribe(() => setTemplates(reportTemplateService.getTemplates())), []);
+
+  const errors = useMemo(() => validateTemplate(template), [template]);
+
+  const update = (changes: Partial<ReportTemplateDraft>) => setTemplate(current => ({ ...current, ...changes }));
+
+  const updateSection = (sectionId: string, changes: Partial<ReportTemplateSection>) =>
+    update({ sections: template.sections.map(section => (section.id === sectionId ? { ...section, ...changes } : section)) });
+
+  const updateBlock = (blockId: string, changes: Partial<ReportTemplateBlock>) =>
+    update({
+      sections: template.sections.map(section => ({
+        ...section,
+        blocks: section.blocks.map(block => (block.id === blockId ? { ...block, ...changes } as ReportTemplateBlock : block))
+      }))
+    });
+
+  const removeBlock = (blockId: string) =>
+    update({ sections: template.sections.map(section => ({ ...section, blocks: section.blocks.filter(block => block.id !== blockId) })) });
+
+  const addSection = () =>
+    update({ sections: [...template.sections, { id: createTemplateId('section'), title: `Section ${template.sections.length + 1}`, blocks: [] }] });
+
+  const removeSection = (sectionId: string) =>
+    update({ sections: template.sections.filter(section => section.id !== sectionId) });
+
+  // Clicking a palette item adds it to the last section, for keyboard users
+  const appendBlock = (spec: BlockSpec) => {
+    const last = template.sections[template.sections.length - 1];
+    if (!last) {
+      update({ sections: [{ id: createTemplateId('section'), title: 'Summary', blocks: [createBlock(spec)] }] });
+      return;
+    }
+    update({ sections: placeBlock(template.sections, createBlock(spec), last.id, last.blocks.length) });
+  };
+
+  const handleDrop = (event: React.DragEvent, sectionId: string, index: number) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const payload = readPayload(event);
+    if (!payload) return;
+
+    const block = payload.kind === 'new' ? createBlock(payload.spec) : findBlock(template.sections, payload.blockId);
+    if (block) update({ sections: placeBlock(template.sections, block, sectionId, index) });
+  };
+
+  const allowDrop = (event: React.DragEvent) => {
+    if (event.dataTransfer.types.includes(DRAG_TYPE)) event.preventDefault();
+  };
+
+  const startDrag = (event: React.DragEvent, payload: DragPayload) => {
+    event.dataTransfer.setData(DRAG_TYPE, JSON.stringify(payload));
+    event.dataTransfer.effectAllowed = payload.kind === 'new' ? 'copy' : 'move';
+  };
+
+  const handleSave = () => {
+    setShowErrors(true);
+    if (errors.length > 0) return;
+
+    const { id, ...draft } = template;
+    const existing = id ? templates.find(t => t.id === id) : undefined;
+    const saved = existing
+      ? reportTemplateService.updateTemplate({ ...existing, ...draft })
+      : reportTemplateService.createTemplate(draft);
+    setTemplate(saved);
+    setMessage({ severity: 'success', text: `Saved "${saved.name}"` });
+  };
+
+  const handleDelete = (target: ReportTemplate) => {
+    if (!window.confirm(`Delete the "${target.name}" template?`)) return;
+    reportTemplateService.deleteTemplate(target.id);
+    if (template.id === target.id) setTemplate(createTemplateDraft());
+  };
+
+  const handleGenerate = async () => {
+    setShowErrors(true);
+    if (errors.length > 0) return;
+
+    const filters: FilterCriteria = {
+      ...currentFilters,
+      dateRange: period === 'current'
+        ? { start: new Date(currentFilters.dateRange.start), end: new Date(currentFilters.dateRange.end) }
+        : resolveDatePreset(period, Date.now(), LOCAL_TIMEZONE)
+    };
+
+    setGenerating(true);
+    setMessage(null);
+    try {
+      const file = await generateTemplateReport(template, filters, format);
+      downloadExportFile(file);
+      setMessage({ severity: 'success', text: `Generated ${file.filename}` });
+    } catch (error) {
+      setMessage({ severity: 'error', text: error instanceof Error ? error.message : 'Report generation failed' });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const renderBlock = (block: ReportTemplateBlock) => {
+    switch (block.kind) {
+      case 'widget':
+        return (
+          <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 1, flex: 1 }}>
+            <TextField
+              size="small"
+              label={WIDGET_TYPE_CONFIG[block.widgetType]?.label || 'Widget'}
+              value={block.title}
+              onChange={(e) => updateBlock(block.id, { title: e.target.value })}
+            />
+            <FormControl size="small">
+              <InputLabel>Data</InputLabel>
+              <Select label="Data" value={block.source} onChange={(e) => updateBlock(block.id, { source: e.target.value })}>
+                {getTemplateSources(block.widgetType).map(source => (
+                  <MenuItem key={source.key} value={source.key}>{source.label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+        );
+      case 'text':
+        return (
+          <Box sx={{ flex: 1 }}>
+            <TextField
+              size="small"
+              label="Text"
+              value={block.text}
+              onChange={(e) => updateBlock(block.id, { text: e.target.value })}
+              placeholder="Revenue grew {revenue.growth}% this period"
+              multiline
+              minRows={2}
+              fullWidth
+            />
+            <FormControl size="small" sx={{ mt: 1, minWidth: 220 }}>
+              <InputLabel>Insert placeholder</InputLabel>
+              <Select
+                label="Insert placeholder"
+                value=""
+                onChange={(e) => updateBlock(block.id, { text: `${block.text}{${e.target.value}}` })}
+              >
+                {PLACEHOLDERS.map(placeholder => (
+                  <MenuItem key={placeholder.key} value={placeholder.key}>{placeholder.label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+        );
+      case 'pageBreak':
+        return (
+          <Divider sx={{ flex: 1 }}>
+            <Typography variant="caption" color="text.secondary">Page break</Typography>
+          </Divider>
+        );
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Box>
+          <Typography variant="h6">Report Builder</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Drag widgets, text and page breaks into sections. Text, headers and footers can use placeholders such as {'{revenue.growth}'}, {'{revenue.total|currency}'} or {'{period}'}.
+          </Typography>
+        </Box>
+        <Button startIcon={<AddIcon />} onClick={() => { setTemplate(createTemplateDraft()); setShowErrors(false); }}>
+          New Template
+        </Button>
+      </Box>
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '220px 1fr' }, gap: 3 }}>
+        <Box>
+          <Typography variant="subtitle2" gutterBottom>Saved Templates</Typography>
+          {templates.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">No saved templates yet.</Typography>
+          ) : (
+            <List dense disablePadding>
+              {templates.map(saved => (
+                <ListItemButton
+                  key={saved.id}
+                  selected={saved.id === template.id}
+                  onClick={() => { setTemplate(saved); setShowErrors(false); }}
+                >
+                  <ListItemText primary={saved.name} secondary={`${saved.sections.length} sections`} />
+                  <Tooltip title="Duplicate">
+                    <IconButton size="small" onClick={(e) => { e.stopPropagation(); reportTemplateService.duplicateTemplate(saved.id); }}>
+                      <DuplicateIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Delete">
+                    <IconButton size="small" onClick={(e) => { e.stopPropagation(); handleDelete(saved); }}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </ListItemButton>
+              ))}
+            </List>
+          )}
+
+          <Typography variant="subtitle2" sx={{ mt: 3 }} gutterBottom>Components</Typography>
+          <Stack spacing={1}>
+            {PALETTE.map(item => (
+              <Chip
+                key={item.key}
+                icon={<DragIcon />}
+                label={item.label}
+                variant="outlined"
+                draggable
+                onDragStart={(e) => startDrag(e, { kind: 'new', spec: item.spec })}
+                onClick={() => appendBlock(item.spec)}
+                sx={{ justifyContent: 'flex-start', cursor: 'grab' }}
+              />
+            ))}
+          </Stack>
+        </Box>
+
+        <Box>
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '2fr 1fr 1fr' }, gap: 2, mb: 2 }}>
+            <TextField label="Template Name" value={template.name} onChange={(e) => update({ name: e.target.value })} />
+            <FormControl>
+              <InputLabel>Page Size</InputLabel>
+              <Select label="Page Size" value={template.pageSize} onChange={(e) => update({ pageSize: e.target.value as ReportTemplateDraft['pageSize'] })}>
+                <MenuItem value="a4">A4</MenuItem>
+                <MenuItem value="letter">Letter</MenuItem>
+                <MenuItem value="legal">Legal</MenuItem>
+              </Select>
+            </FormControl>
+            <FormControl>
+              <InputLabel>Orientation</InputLabel>
+              <Select label="Orientation" value={template.orientation} onChange={(e) => update({ orientation: e.target.value as ReportTemplateDraft['orientation'] })}>
+                <MenuItem value="portrait">Portrait</MenuItem>
+                <MenuItem value="landscape">Landscape</MenuItem>
+              </Select>
+            </FormControl>
+          </Box>
+          <TextField
+            label="Description"
+            value={template.description || ''}
+            onChange={(e) => update({ description: e.target.value || undefined })}
+            fullWidth
+            sx={{ mb: 2 }}
+          />
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2, mb: 3 }}>
+            <TextField label="Header" value={template.header || ''} onChange={(e) => update({ header: e.target.value || undefined })} />
+            <TextField label="Footer" value={template.footer || ''} onChange={(e) => update({ footer: e.target.value || undefined })} />
+          </Box>
+
+          <Stack spacing={2}>
+            {template.sections.map(section => (
+              <Paper
+                key={section.id}
+                variant="outlined"
+                sx={{ p: 2 }}
+                onDragOver={allowDrop}
+                onDrop={(e) => handleDrop(e, section.id, section.blocks.length)}
+              >
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                  <TextField
+                    size="small"
+                    label="Section Title"
+                    value={section.title}
+                    onChange={(e) => updateSection(section.id, { title: e.target.value })}
+                    sx={{ flex: 1 }}
+                  />
+                  <Tooltip title="Remove section">
+                    <IconButton onClick={() => removeSection(section.id)}>
+                      <DeleteIcon />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+
+                {section.blocks.length === 0 && (
+                  <Box sx={{ border: 1, borderStyle: 'dashed', borderColor: 'divider', borderRadius: 1, p: 2, textAlign: 'center' }}>
+                    <Typography variant="body2" color="text.secondary">Drop components here</Typography>
+                  </Box>
+                )}
+                <Stack spacing={1}>
+                  {section.blocks.map((block, index) => (
+                    <Box
+                      key={block.id}
+                      draggable={grabbed === block.id}
+                      onDragStart={(e) => startDrag(e, { kind: 'move', blockId: block.id })}
+                      onDragEnd={() => setGrabbed(null)}
+                      onDragOver={allowDrop}
+                      onDrop={(e) => handleDrop(e, section.id, index)}
+                      sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, p: 1, borderRadius: 1, bgcolor: 'action.hover' }}
+                    >
+                      <DragIcon
+                        color="action"
+                        sx={{ mt: 1, cursor: 'grab' }}
+                        onMouseDown={() => setGrabbed(block.id)}
+                        onMouseUp={() => setGrabbed(null)}
+                      />
+                      {renderBlock(block)}
+                      <IconButton size="small" onClick={() => removeBlock(block.id)} aria-label="Remove component">
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Box>
+                  ))}
+                </Stack>
+              </Paper>
+            ))}
+            <Button startIcon={<AddIcon />} onClick={addSection} sx={{ alignSelf: 'flex-start' }}>
+              Add Section
+            </Button>
+          </Stack>
+
+          {showErrors && errors.length > 0 && (
+            <Alert severity="warning" sx={{ mt: 2 }}>
+              {errors.map(error => <div key={error}>{error}</div>)}
+            </Alert>
+          )}
+          {message && (
+            <Alert severity={message.severity} sx={{ mt: 2 }} onClose={() => setMessage(null)}>
+              {message.text}
+            </Alert>
+          )}
+
+          <Divider sx={{ my: 3 }} />
+          <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+            <Button startIcon={<SaveIcon />} variant="outlined" onClick={handleSave}>
+              Save Template
+            </Button>
+            <Box sx={{ flex: 1 }} />
+            <FormControl size="small" sx={{ minWidth: 180 }}>
+              <InputLabel>Period</InputLabel>
+              <Select label="Period" value={period} onChange={(e) => setPeriod(e.target.value as 'current' | RelativeDatePreset)}>
+                <MenuItem value="current">Current date range</MenuItem>
+                {REPORT_DATE_PRESETS.map(preset => (
+                  <MenuItem key={preset.value} value={preset.value}>{preset.label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl size="small" sx={{ minWidth: 140 }}>
+              <InputLabel>Format</InputLabel>
+              <Select label="Format" value={format} onChange={(e) => setFormat(e.target.value as ReportOutputFormat)}>
+                {OUTPUT_FORMATS.map(option => (
+                  <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Button startIcon={<DownloadIcon />} variant="contained" onClick={handleGenerate} disabled={generating}>
+              {generating ? 'Generating...' : 'Generate Report'}
+            </Button>
+          </Box>
+        </Box>
+      </Box>
+    </Paper>
+  );
+};
+
+export default ReportBuilder;
@@ -0,0 +1,343 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  InputLabel,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Select,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Schedule as ScheduleIcon } from '@mui/icons-material';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../store';
+import { ExportFormat, FilterCriteria } from '../../types';
+import {
+  reportSubscriptionService,
+  ReportDateRange,
+  ReportFormat,
+  ReportFrequency,
+  ReportSchedule,
+  ReportSource,
+  ReportSubscription,
+  RelativeDatePreset,
+  REPORT_DATE_PRESETS,
+  REPORT_FREQUENCY_LABELS,
+  REPORT_PAGES,
+  validateSubscription
+} from '../../services/reportSubscriptions';
+
+export interface ReportSubscriptionDefaults {
+  name?: string;
+  format?: ReportFormat;
+  recipients?: string[];
+}
+
+interface ReportSubscriptionDialogProps {
+  open: boolean;
+  onClose: () => void;
+  subscription?: ReportSubscription | null; // Edit this one instead of creating a new one
+  defaults?: ReportSubscriptionDefaults;
+  onSaved?: (subscription: ReportSubscription) => void;
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const LOCAL_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const splitList = (value: string): string[] =>
+  value.split(',').map(item => item.trim()).filter(Boolean);
+
+const sourceKey = (source: ReportSource): string =>
+  source.kind === 'page' ? `page:${source.path}` : `layout:${source.layoutId}`;
+
+/**
+ * Filters without their date range, plus that range as ISO timestamps
+ */
+const snapshotFilters = (filters: FilterCriteria) => {
+  const { dateRange, ...rest } = filters;
+  return {
+    filters: rest,
+    range: { start: new Date(dateRange.start).toISOString(), end: new Date(dateRange.end).toISOString() }
+  };
+};
+
+const describeFilters = (filters: Omit<FilterCriteria, 'dateRange'>): string => {
+  const parts = [
+    filters.regions?.length ? `Regions: ${filters.regions.join(', ')}` : '',
+    filters.categories?.length ? `Categories: ${filters.categories.join(', ')}` : '',
+    filters.businessUnits?.length ? `Business units: ${filters.businessUnits.join(', ')}` : ''
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' • ') : 'No region, category or business unit filters';
+};
+
+/**
+ * Create or edit a scheduled report subscription
+ */
+export const ReportSubscriptionDialog: React.FC<ReportSubscriptionDialogProps> = ({
+  open,
+  onClose,
+  subscription,
+  defaults,
+  onSaved
+}) => {
+  const currentFilters = useSelector((state: RootState) => state.filters) as FilterCriteria;
+  const savedLayouts = useSelector((state: RootState) => state.dashboard.savedLayouts);
+
+  const [name, setName] = useState('');
+  const [source, setSource] = useState('page:/');
+  const [format, setFormat] = useState<ReportFormat>(ExportFormat.PDF);
+  const [recipients, setRecipients] = useState('');
+  const [filters, setFilters] = useState<Omit<FilterCriteria, 'dateRange'>>(snapshotFilters(currentFilters).filters);
+  const [dateRange, setDateRange] = useState<ReportDateRange>({ kind: 'relative', preset: 'yesterday' });
+  const [schedule, setSchedule] = useState<ReportSchedule>({ frequency: 'daily', time: '07:00', timezone: LOCAL_TIMEZONE });
+  const [holidays, setHolidays] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    const snapshot = snapshotFilters(currentFilters);
+    setName(subscription?.name || defaults?.name || '');
+    setSource(subscription ? sourceKey(subscription.source) : 'page:/');
+    setFormat(subscription?.format || defaults?.format || ExportFormat.PDF);
+    setRecipients((subscription?.recipients || defaults?.recipients || []).join(', '));
+    setFilters(subscription?.filters || snapshot.filters);
+    setDateRange(subscription?.dateRange || { kind: 'relative', preset: 'yesterday' });
+    setSchedule(subscription?.schedule || { frequency: 'daily', time: '07:00', timezone: LOCAL_TIMEZONE });
+    setHolidays(subscription?.schedule.holidays?.join(', ') || '');
+    setErrors([]);
+  }, [open, subscription]);
+
+  const applyCurrentFilters = () => {
+    const snapshot = snapshotFilters(currentFilters);
+    setFilters(snapshot.filters);
+    if (dateRange.kind === 'fixed') {
+      setDateRange({ kind: 'fixed', ...snapshot.range });
+    }
+  };
+
+  const resolveSource = (): ReportSource => {
+    const [kind, id = ''] = source.split(/:(.*)/);
+    if (kind === 'layout') {
+      return { kind: 'layout', layoutId: id, name: savedLayouts.find(layout => layout.id === id)?.name || id };
+    }
+    return { kind: 'page', path: id };
+  };
+
+  const handleSave = () => {
+    const draft = {
+      name: name.trim(),
+      source: resolveSource(),
+      filters,
+      dateRange,
+      format,
+      recipients: splitList(recipients),
+      schedule: { ...schedule, holidays: splitList(holidays) },
+      enabled: subscription?.enabled ?? true
+    };
+
+    const problems = validateSubscription(draft);
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+
+    if (subscription) {
+      const updated = { ...subscription, ...draft };
+      reportSubscriptionService.updateSubscription(updated);
+      onSaved?.(updated);
+    } else {
+      onSaved?.(reportSubscriptionService.createSubscription(draft));
+    }
+    onClose();
+  };
+
+  const updateSchedule = (changes: Partial<ReportSchedule>) => setSchedule(prev => ({ ...prev, ...changes }));
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        <Box display="flex" alignItems="center" gap={1}>
+          <ScheduleIcon />
+          {subscription ? 'Edit Report Subscription' : 'New Report Subscription'}
+        </Box>
+      </DialogTitle>
+
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          <TextField label="Name" value={name} onChange={(e) => setName(e.target.value)} fullWidth />
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: 2 }}>
+            <FormControl fullWidth>
+              <InputLabel>Report</InputLabel>
+              <Select label="Report" value={source} onChange={(e) => setSource(e.target.value)}>
+                {REPORT_PAGES.map(page => (
+                  <MenuItem key={page.path} value={`page:${page.path}`}>{page.label}</MenuItem>
+                ))}
+                {savedLayouts.map(layout => (
+                  <MenuItem key={layout.id} value={`layout:${layout.id}`}>Layout: {layout.name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl fullWidth>
+              <InputLabel>Format</InputLabel>
+              <Select label="Format" value={format} onChange={(e) => setFormat(e.target.value as ReportFormat)}>
+                <MenuItem value={ExportFormat.PDF}>PDF</MenuItem>
+                <MenuItem value={ExportFormat.EXCEL}>Excel</MenuItem>
+              </Select>
+            </FormControl>
+          </Box>
+
+          <TextField
+            label="Recipients"
+            value={recipients}
+            onChange={(e) => setRecipients(e.target.value)}
+            helperText="Comma-separated email addresses"
+            fullWidth
+          />
+
+          <FormControl component="fieldset">
+            <FormLabel component="legend">Date Range</FormLabel>
+            <RadioGroup
+              row
+              value={dateRange.kind}
+              onChange={(e) => setDateRange(e.target.value === 'fixed'
+                ? { kind: 'fixed', ...snapshotFilters(currentFilters).range }
+                : { kind: 'relative', preset: 'yesterday' })}
+            >
+              <FormControlLabel value="relative" control={<Radio />} label="Relative to each run" />
+              <FormControlLabel value="fixed" control={<Radio />} label="Fixed dates" />
+            </RadioGroup>
+            {dateRange.kind === 'relative' ? (
+              <FormControl size="small" sx={{ maxWidth: 240 }}>
+                <InputLabel>Period</InputLabel>
+                <Select
+                  label="Period"
+                  value={dateRange.preset}
+                  onChange={(e) => setDateRange({ kind: 'relative', preset: e.target.value as RelativeDatePreset })}
+                >
+                  {REPORT_DATE_PRESETS.map(preset => (
+                    <MenuItem key={preset.value} value={preset.value}>{preset.label}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            ) : (
+              <Typography variant="body2" color="text.secondary">
+                {new Date(dateRange.start).toLocaleDateString()} – {new Date(dateRange.end).toLocaleDateString()}
+              </Typography>
+            )}
+          </FormControl>
+
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+            <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+              {describeFilters(filters)}
+            </Typography>
+            <Button size="small" onClick={applyCurrentFilters}>Use current filters</Button>
+          </Box>
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+            <FormControl fullWidth>
+              <InputLabel>Schedule</InputLabel>
+              <Select
+                label="Schedule"
+                value={schedule.frequency}
+                onChange={(e) => updateSchedule({ frequency: e.target.value as ReportFrequency })}
+              >
+                {(Object.keys(REPORT_FREQUENCY_LABELS) as ReportFrequency[]).map(frequency => (
+                  <MenuItem key={frequency} value={frequency}>{REPORT_FREQUENCY_LABELS[frequency]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            {schedule.frequency === 'cron' ? (
+              <TextField
+                label="Cron expression"
+                value={schedule.expression || ''}
+                onChange={(e) => updateSchedule({ expression: e.target.value })}
+                placeholder="0 7 * * 1"
+              />
+            ) : (
+              <TextField
+                label="Time"
+                type="time"
+                value={schedule.time}
+                onChange={(e) => updateSchedule({ time: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+              />
+            )}
+
+            {schedule.frequency === 'weekly' && (
+              <FormControl fullWidth>
+                <InputLabel>Day</InputLabel>
+                <Select
+                  label="Day"
+                  value={schedule.weekday ?? 1}
+                  onChange={(e) => updateSchedule({ weekday: Number(e.target.value) })}
+                >
+                  {WEEKDAYS.map((day, index) => (
+                    <MenuItem key={day} value={index}>{day}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+
+            {schedule.frequency === 'monthly' && (
+              <TextField
+                label="Day of month"
+                type="number"
+                value={schedule.dayOfMonth ?? 1}
+                onChange={(e) => updateSchedule({ dayOfMonth: Number(e.target.value) })}
+                inputProps={{ min: 1, max: 28 }}
+              />
+            )}
+
+            <TextField
+              label="Timezone"
+              value={schedule.timezone}
+              onChange={(e) => updateSchedule({ timezone: e.target.value })}
+              placeholder="Europe/Berlin"
+            />
+          </Box>
+
+          {schedule.frequency === 'first-business-day' && (
+            <TextField
+              label="Holidays"
+              value={holidays}
+              onChange={(e) => setHolidays(e.target.value)}
+              helperText="Comma-separated YYYY-MM-DD dates that don't count as business days"
+              fullWidth
+            />
+          )}
+
+          {errors.length > 0 && (
+            <Alert severity="error" onClose={() => setErrors([])}>
+              {errors.map(error => <div key={error}>{error}</div>)}
+            </Alert>
+          )}
+        </Box>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained" startIcon={<ScheduleIcon />}>
+          {subscription ? 'Save' : 'Subscribe'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ReportSubscriptionDialog;
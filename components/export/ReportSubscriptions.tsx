@@ -0,0 +1,261 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  Paper,
+  Stack,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  PlayArrow as RunIcon,
+  Download as DownloadIcon,
+  Replay as RetryIcon
+} from '@mui/icons-material';
+import { ExportFormat } from '../../types';
+import {
+  reportSubscriptionService,
+  describeReportSchedule,
+  describeReportSource,
+  ReportRecipientDelivery,
+  ReportRun,
+  ReportRunStatus,
+  ReportSubscription,
+  REPORT_DATE_PRESETS
+} from '../../services/reportSubscriptions';
+import ReportSubscriptionDialog from './ReportSubscriptionDialog';
+
+const HISTORY_ROWS = 20;
+
+const getRunStatusColor = (status: ReportRunStatus): 'success' | 'warning' | 'error' | 'info' => {
+  switch (status) {
+    case 'delivered': return 'success';
+    case 'partial': return 'warning';
+    case 'failed': return 'error';
+    default: return 'info';
+  }
+};
+
+const getDeliveryColor = (status: ReportRecipientDelivery['status']): 'success' | 'error' | 'default' => {
+  switch (status) {
+    case 'delivered': return 'success';
+    case 'failed': return 'error';
+    default: return 'default';
+  }
+};
+
+const describeDateRange = ({ dateRange }: ReportSubscription): string =>
+  dateRange.kind === 'relative'
+    ? REPORT_DATE_PRESETS.find(preset => preset.value === dateRange.preset)?.label || dateRange.preset
+    : `${new Date(dateRange.start).toLocaleDateString()} – ${new Date(dateRange.end).toLocaleDateString()}`;
+
+const downloadRunFile = (runId: string) => {
+  const file = reportSubscriptionService.getRunFile(runId);
+  if (!file) return;
+
+  const url = URL.createObjectURL(file.blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Scheduled report subscriptions with their run history
+ */
+export const ReportSubscriptions: React.FC = () => {
+  const [subscriptions, setSubscriptions] = useState<ReportSubscription[]>(reportSubscriptionService.getSubscriptions());
+  const [runs, setRuns] = useState<ReportRun[]>(reportSubscriptionService.getRuns());
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<ReportSubscription | null>(null);
+
+  useEffect(() => reportSubscriptionService.subscribe(() => {
+    setSubscriptions(reportSubscriptionService.getSubscriptions());
+    setRuns(reportSubscriptionService.getRuns());
+  }), []);
+
+  const openDialog = (subscription: ReportSubscription | null) => {
+    setEditing(subscription);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (subscription: ReportSubscription) => {
+    if (window.confirm(`Delete the "${subscription.name}" subscription?`)) {
+      reportSubscriptionService.deleteSubscription(subscription.id);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Box>
+          <Typography variant="h6">Scheduled Reports</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Reports are generated and emailed on schedule while the dashboard is open; runs missed while it was closed go out once on the next visit.
+          </Typography>
+        </Box>
+        <Button startIcon={<AddIcon />} variant="contained" onClick={() => openDialog(null)}>
+          New Subscription
+        </Button>
+      </Box>
+
+      {subscriptions.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+          No report subscriptions yet.
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Active</TableCell>
+              <TableCell>Name</TableCell>
+              <TableCell>Report</TableCell>
+              <TableCell>Period</TableCell>
+              <TableCell>Schedule</TableCell>
+              <TableCell>Recipients</TableCell>
+              <TableCell>Next Run</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {subscriptions.map(subscription => (
+              <TableRow key={subscription.id}>
+                <TableCell>
+                  <Switch
+                    size="small"
+                    checked={subscription.enabled}
+                    onChange={(e) => reportSubscriptionService.setEnabled(subscription.id, e.target.checked)}
+                    inputProps={{ 'aria-label': `Enable ${subscription.name}` }}
+                  />
+                </TableCell>
+                <TableCell>
+                  {subscription.name}{' '}
+                  <Chip size="small" variant="outlined" label={subscription.format === ExportFormat.EXCEL ? 'Excel' : 'PDF'} />
+                </TableCell>
+                <TableCell>{describeReportSource(subscription.source)}</TableCell>
+                <TableCell>{describeDateRange(subscription)}</TableCell>
+                <TableCell>{describeReportSchedule(subscription.schedule)}</TableCell>
+                <TableCell>{subscription.recipients.join(', ')}</TableCell>
+                <TableCell>{subscription.nextRunAt ? new Date(subscription.nextRunAt).toLocaleString() : '—'}</TableCell>
+                <TableCell align="right">
+                  <Tooltip title="Run now">
+                    <IconButton size="small" onClick={() => void reportSubscriptionService.runNow(subscription.id)}>
+                      <RunIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Edit">
+                    <IconButton size="small" onClick={() => openDialog(subscription)}>
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Delete">
+                    <IconButton size="small" onClick={() => handleDelete(subscription)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 4, mb: 1 }}>
+        <Typography variant="subtitle1">Run History</Typography>
+        {runs.length > 0 && (
+          <Button size="small" onClick={() => reportSubscriptionService.clearRuns()}>Clear</Button>
+        )}
+      </Box>
+
+      {runs.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No reports have run yet.
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Started</TableCell>
+              <TableCell>Subscription</TableCell>
+              <TableCell>Trigger</TableCell>
+              <TableCell>File</TableCell>
+              <TableCell>Delivery</TableCell>
+              <TableCell>Status</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {runs.slice(0, HISTORY_ROWS).map(run => {
+              const fileAvailable = Boolean(reportSubscriptionService.getRunFile(run.id));
+              return (
+                <TableRow key={run.id}>
+                  <TableCell>{new Date(run.startedAt).toLocaleString()}</TableCell>
+                  <TableCell>{run.subscriptionName}</TableCell>
+                  <TableCell>{run.trigger === 'schedule' ? 'Scheduled' : 'Manual'}</TableCell>
+                  <TableCell>
+                    {run.file ? (
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                        {run.file.filename} ({(run.file.size / 1024).toFixed(1)} KB)
+                        {fileAvailable && (
+                          <Tooltip title="Download">
+                            <IconButton size="small" onClick={() => downloadRunFile(run.id)}>
+                              <DownloadIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                      </Box>
+                    ) : (
+                      <Tooltip title={run.error || ''}>
+                        <span>{run.status === 'running' ? 'Generating…' : 'Not generated'}</span>
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                      {run.deliveries.map(delivery => (
+                        <Tooltip key={delivery.recipient} title={delivery.error || delivery.status}>
+                          <Chip size="small" variant="outlined" label={delivery.recipient} color={getDeliveryColor(delivery.status)} />
+                        </Tooltip>
+                      ))}
+                    </Stack>
+                  </TableCell>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                      <Chip size="small" label={run.status} color={getRunStatusColor(run.status)} />
+                      {run.status !== 'running' && fileAvailable && run.deliveries.some(delivery => delivery.status === 'failed') && (
+                        <Tooltip title="Resend to failed recipients">
+                          <IconButton size="small" onClick={() => void reportSubscriptionService.retryFailedDeliveries(run.id)}>
+                            <RetryIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                    </Box>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <ReportSubscriptionDialog
+        open={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        subscription={editing}
+      />
+    </Paper>
+  );
+};
+
+export default ReportSubscriptions;
@@ -1,4 +1,10 @@
 export { default as ExportPanel } from './ExportPanel';
 export { default as ExportButton } from './ExportButton';
+export { default as ReportSubscriptions } from './ReportSubscriptions';
+export { default as ReportSubscriptionDialog } from './ReportSubscriptionDialog';
+export { default as ReportBuilder } from './ReportBuilder';
 export * from './ExportPanel';
-export * from './ExportButton';
\ No newline at end of file
+export * from './ExportButton';
+export * from './ReportSubscriptions';
+export * from './ReportSubscriptionDialog';
+export * from './ReportBuilder';
\ No newline at end of file
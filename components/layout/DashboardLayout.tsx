@@ -14,6 +14,7 @@ import SkipLink from '../common/SkipLink';
 import LiveRegion from '../common/LiveRegion';
 import { useLiveRegion, useKeyboardMode } from '../../hooks/useAccessibility';
 import { ARIA_LABELS } from '../../utils/accessibility';
+import { reportSubscriptionService } from '../../services/reportSubscriptions';
 
 const DashboardLayout: React.FC = () => {
   const theme = useTheme();
@@ -43,6 +44,12 @@ const DashboardLayout: React.FC = () => {
     announce(mobileOpen ? 'Navigation menu closed' : 'Navigation menu opened');
   };
 
+  // Run scheduled report subscriptions while the dashboard is open
+  React.useEffect(() => {
+    reportSubscriptionService.start();
+    return () => reportSubscriptionService.stop();
+  }, []);
+
   // Update sidebar state when screen size changes
   React.useEffect(() => {
     setSidebarOpen(!isMobile);
@@ -18,13 +18,20 @@ import {
   Pie,
   Doughnut
 } from 'react-chartjs-2';
-import { Box, Typography, useTheme, useMediaQuery } from '@mui/material';
+import { Box, Chip, Typography, alpha, useTheme, useMediaQuery } from '@mui/material';
 import { BaseWidget } from './BaseWidget';
-import { ChartWidgetProps, ChartType } from '../../types';
+import { ChartWidgetProps, ChartType, ChartData } from '../../types';
 import TouchEnabledChart, { TouchGesture, getMobileChartOptions } from '../charts/TouchEnabledChart';
 import ChartFallback from '../fallback/ChartFallback';
 import { useErrorHandler } from '../../hooks/useErrorHandler';
 import { ARIA_LABELS } from '../../utils/accessibility';
+import {
+  Forecast,
+  ForecastOptions,
+  FORECAST_METHOD_LABELS,
+  forecastSeries,
+  projectLabels
+} from '../../services/forecasting';
 
 // Register Chart.js components
 ChartJS.register(
@@ -110,13 +117,116 @@ const GaugeChart: React.FC<{
   );
 };
 
-export const ChartWidget: React.FC<ChartWidgetProps> = ({
+export interface ChartForecastOptions extends ForecastOptions {
+  datasetIndex?: number; // Dataset to project, defaults to the first
+}
+
+type ChartWidgetWithForecastProps = ChartWidgetProps & {
+  forecast?: ChartForecastOptions; // Line charts only
+};
+
+type ChartPoint = ChartData['datasets'][number]['data'][number];
+
+type ForecastDataset = ChartData['datasets'][number] & {
+  borderDash?: number[];
+  pointRadius?: number;
+  fill?: boolean | string;
+  tension?: number;
+  hideFromLegend?: boolean; // Skipped by the legend label filter
+};
+
+/**
+ * Chart data with the projection and its interval appended as extra datasets
+ */
+interface ForecastChartData extends ChartData {
+  datasets: ForecastDataset[];
+}
+
+// Datasets may hold plain numbers as well as {x, y} points
+const pointValue = (point: ChartPoint | number | undefined): number | null => {
+  const value = typeof point === 'number' ? point : point?.y;
+  return typeof value === 'number' && isFinite(value) ? value : null;
+};
+
+/**
+ * Finite values of a dataset; gaps and non-numeric points would turn the forecast into NaN
+ */
+const seriesValues = (dataset: ChartData['datasets'][number]): number[] =>
+  (dataset.data || []).map(pointValue).filter((value): value is number => value !== null);
+
+// Backtest error bands: under 10% is a good fit, over 20% a poor one
+const getMapeColor = (mape: number): 'success' | 'warning' | 'error' =>
+  mape < 10 ? 'success' : mape < 20 ? 'warning' : 'error';
+
+/**
+ * Append the projection as a dashed line continuing from the last actual point,
+ * with the prediction interval filled between two borderless lines
+ */
+const withForecast = (
+  data: ChartData,
+  forecast: Forecast,
+  datasetIndex: number,
+  fallbackColor: string
+): ForecastChartData => {
+  const dataset = data.datasets[datasetIndex]!;
+  const labels = data.labels || [];
+  const futureLabels = projectLabels(labels, forecast.points.length);
+  const lastPoint = dataset.data[dataset.data.length - 1];
+  const values = seriesValues(dataset);
+  const anchor = {
+    x: labels[labels.length - 1] ?? (typeof lastPoint === 'object' ? lastPoint?.x : undefined) ?? '',
+    y: values[values.length - 1] ?? 0
+  };
+  const color = typeof dataset.borderColor === 'string' ? dataset.borderColor : fallbackColor;
+  const series = (key: 'value' | 'lower' | 'upper') => [
+    anchor,
+    ...forecast.points.map((point, index) => ({ x: futureLabels[index] ?? '', y: point[key] }))
+  ];
+
+  return {
+    ...data,
+    labels: [...labels, ...futureLabels],
+    datasets: [
+      ...data.datasets,
+      {
+        label: `${dataset.label || 'Series'} (forecast)`,
+        data: series('value'),
+        borderColor: color,
+        backgroundColor: color,
+        borderDash: [6, 4],
+        pointRadius: 0,
+        fill: false,
+        tension: 0.1
+      },
+      {
+        label: `${Math.round(forecast.confidence * 100)}% interval`,
+        data: series('upper'),
+        borderColor: 'transparent',
+        backgroundColor: alpha(color, 0.15),
+        pointRadius: 0,
+        fill: '+1'
+      },
+      {
+        label: `${Math.round(forecast.confidence * 100)}% interval`,
+        data: series('lower'),
+        borderColor: 'transparent',
+        backgroundColor: 'transparent',
+        pointRadius: 0,
+        fill: false,
+        hideFromLegend: true
+      }
+    ]
+  };
+};
+
+export const ChartWidget: React.FC<ChartWidgetWithForecastProps> = ({
   chartType,
   data,
   options = {},
   height = 300,
   width,
   interactive = true,
+  forecast: forecastOptions,
   ...baseProps
 }) => {
   const theme = useTheme();
@@ -126,6 +236,19 @@ export const ChartWidget: React.FC<ChartWidgetProps> = ({
   const [renderError, setRenderError] = React.useState<Error | null>(null);
   const { handleRenderingError } = useErrorHandler();
 
+  const datasetIndex = forecastOptions?.datasetIndex ?? 0;
+  const forecast = React.useMemo(() => {
+    const dataset = data.datasets?.[datasetIndex];
+    if (!forecastOptions || chartType !== ChartType.LINE || !dataset) return null;
+    return forecastSeries(seriesValues(dataset), forecastOptions);
+  }, [data, chartType, datasetIndex, forecastOptions?.horizon, forecastOptions?.seasonLength,
+    forecastOptions?.method, forecastOptions?.confidence, forecastOptions?.min]);
+
+  const chartData = React.useMemo(
+    () => (forecast ? withForecast(data, forecast, datasetIndex, theme.palette.primary.main) : data),
+    [data, forecast, datasetIndex, theme]
+  );
+
   // Handle touch gestures for mobile interactions
   const handleGesture = React.useCallback((gesture: TouchGesture) => {
     switch (gesture.type) {
@@ -169,6 +292,7 @@ export const ChartWidget: React.FC<ChartWidgetProps> = ({
         position: isMobile ? 'bottom' : 'top' as const,
         labels: {
           usePointStyle: true,
+          filter: (item: any, legendData: any) => !legendData.datasets?.[item.datasetIndex]?.hideFromLegend,
           padding: isMobile ? 15 : 20,
           color: theme.palette.text.primary,
           font: {
@@ -257,7 +381,11 @@ export const ChartWidget: React.FC<ChartWidgetProps> = ({
       return `Dataset ${index + 1}: ${dataset.label || 'Unnamed'}, ${dataPoints.length} data points, average value ${average.toFixed(2)}`;
     }).join('. ');
     
-    return `${chartType} chart with ${datasets.length} dataset${datasets.length > 1 ? 's' : ''} and ${labels.length} categories. ${datasetDescriptions}`;
+    const forecastDescription = forecast
+      ? ` Forecast for the next ${forecast.points.length} periods ends at ${forecast.points[forecast.points.length - 1]!.value.toFixed(2)}.`
+      : '';
+
+    return `${chartType} chart with ${datasets.length} dataset${datasets.length > 1 ? 's' : ''} and ${labels.length} categories. ${datasetDescriptions}${forecastDescription}`;
   };
 
   // Merge default options with provided options
@@ -277,7 +405,7 @@ export const ChartWidget: React.FC<ChartWidgetProps> = ({
   const renderChart = () => {
     try {
       const commonProps = {
-        data,
+        data: chartData,
         options: mergedOptions,
         height,
         width
@@ -421,6 +549,29 @@ export const ChartWidget: React.FC<ChartWidgetProps> = ({
             </Box>
           )}
           
+          {/* Forecast method and backtest accuracy */}
+          {forecast && (
+            <Box sx={{ px: 2, pb: 1, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+              <Typography variant="caption" color="text.secondary">
+                Forecast: {FORECAST_METHOD_LABELS[forecast.method]}{forecast.seasonal ? ' with seasonality' : ''},
+                {' '}next {forecast.points.length} periods, {Math.round(forecast.confidence * 100)}% interval
+              </Typography>
+              {forecast.backtest?.mape != null ? (
+                <Chip
+                  size="small"
+                  variant="outlined"
+                  color={getMapeColor(forecast.backtest.mape)}
+                  label={`MAPE ${forecast.backtest.mape.toFixed(1)}%`}
+                  title={`Mean absolute percentage error when forecasting the last ${forecast.backtest.holdout} actual periods`}
+                />
+              ) : (
+                <Typography variant="caption" color="text.secondary">
+                  (too little history to backtest)
+                </Typography>
+              )}
+            </Box>
+          )}
+
           {/* Chart metadata */}
           {data.metadata && (
             <Box sx={{ px: 2, pb: 1 }}>
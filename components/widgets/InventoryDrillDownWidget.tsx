@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   Box, 
   Typography, 
@@ -27,6 +27,13 @@ import { ChartWidget } from './ChartWidget';
 import { mockDataGenerator } from '../../services/mockDataService';
 import { formatNumber } from '../../utils/formatters';
 import { ChartType, ChartData, BusinessMetrics, InventoryCategory, AlertLevel } from '../../types';
+import {
+  ProductItem,
+  WAREHOUSES,
+  generateProductItems,
+  getInventoryProducts
+} from '../../services/inventoryEntities';
+import { ReplenishmentPlan, getReplenishmentPlans } from '../../services/replenishment';
 
 interface InventoryDrillDownWidgetProps {
   id: string;
@@ -34,35 +41,68 @@ interface InventoryDrillDownWidgetProps {
   refreshable?: boolean;
   onRefresh?: () => void;
   initialCategory?: string;
+  highlightSku?: string; // Product to expand, e.g. from an alert link
+  warehouse?: string; // Only show products stored in this warehouse
+  region?: string; // Only show products stored in this region
 }
 
-interface ProductItem {
-  id: string;
-  name: string;
-  sku: string;
-  currentStock: number;
-  minThreshold: number;
-  maxCapacity: number;
-  status: 'in_stock' | 'low_stock' | 'out_of_stock';
-  lastRestocked: string;
-  supplier: string;
+interface LocationFilter {
+  warehouse?: string | undefined;
+  region?: string | undefined;
 }
 
+const matchesLocation = (item: ProductItem, filter: LocationFilter): boolean =>
+  (!filter.warehouse || item.warehouseId === filter.warehouse) && (!filter.region || item.region === filter.region);
+
+const getWarehouseName = (warehouseId: string): string =>
+  WAREHOUSES.find(warehouse => warehouse.id === warehouseId)?.name || warehouseId;
+
+// Plan dates are calendar days; show them as the local day rather than UTC midnight
+const formatDay = (date: string): string => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+const getCoverColor = (plan: ReplenishmentPlan): 'error' | 'warning' | 'default' =>
+  plan.urgency === 'reorder_now' ? 'error' : plan.urgency === 'reorder_soon' ? 'warning' : 'default';
+
 export const InventoryDrillDownWidget: React.FC<InventoryDrillDownWidgetProps> = ({
   id,
   title = 'Inventory Drill-Down Analysis',
   refreshable = true,
   onRefresh,
-  initialCategory
+  initialCategory,
+  highlightSku,
+  warehouse,
+  region
 }) => {
   const [businessMetrics, setBusinessMetrics] = useState<BusinessMetrics | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<InventoryCategory | null>(null);
   const [productItems, setProductItems] = useState<ProductItem[]>([]);
-  const [drillDownData, setDrillDownData] = useState<ChartData | null>(null);
+  const [locationFilter, setLocationFilter] = useState<LocationFilter>({ warehouse, region });
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const hasLocationFilter = Boolean(locationFilter.warehouse || locationFilter.region);
+  const locationLabel = locationFilter.warehouse ? getWarehouseName(locationFilter.warehouse) : locationFilter.region;
+  const visibleItems = useMemo(
+    () => productItems.filter(item => matchesLocation(item, locationFilter)),
+    [productItems, locationFilter]
+  );
+
+  // Low and out-of-stock products per category at the filtered location
+  const locationCounts = useMemo(() => {
+    if (!businessMetrics || !hasLocationFilter) return null;
+    return getInventoryProducts(businessMetrics.inventory.categories)
+      .filter(item => matchesLocation(item, locationFilter))
+      .reduce((counts, item) => {
+        const current = counts[item.categoryId] || { low: 0, out: 0 };
+        counts[item.categoryId] = {
+          low: current.low + (item.status === 'low_stock' ? 1 : 0),
+          out: current.out + (item.status === 'out_of_stock' ? 1 : 0)
+        };
+        return counts;
+      }, {} as Record<string, { low: number; out: number }>);
+  }, [businessMetrics, hasLocationFilter, locationFilter]);
+
   const loadDrillDownData = async (categoryId?: string) => {
     try {
       setLoading(true);
@@ -78,79 +118,12 @@ export const InventoryDrillDownWidget: React.FC<InventoryDrillDownWidgetProps> =
         if (category) {
           setSelectedCategory(category);
           
-          // Generate product items for the category
-          const items: ProductItem[] = [];
-          const productNames = [
-            'Premium Wireless Headphones', 'Smart Fitness Tracker', 'Bluetooth Speaker',
-            'Laptop Stand', 'USB-C Hub', 'Wireless Mouse', 'Mechanical Keyboard',
-            'Monitor Stand', 'Webcam HD', 'Phone Case', 'Screen Protector', 'Charging Cable'
-          ];
-          
-          for (let i = 0; i < 12; i++) {
-            const currentStock = Math.floor(Math.random() * 500);
-            const minThreshold = Math.floor(Math.random() * 50) + 10;
-            const maxCapacity = Math.floor(Math.random() * 200) + 300;
-            
-            let status: 'in_stock' | 'low_stock' | 'out_of_stock' = 'in_stock';
-            if (currentStock === 0) status = 'out_of_stock';
-            else if (currentStock <= minThreshold) status = 'low_stock';
-            
-            items.push({
-              id: `item-${i + 1}`,
-              name: productNames[i] || `Product ${i + 1}`,
-              sku: `SKU-${category.name.substring(0, 3).toUpperCase()}-${String(i + 1).padStart(3, '0')}`,
-              currentStock,
-              minThreshold,
-              maxCapacity,
-              status,
-              lastRestocked: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
-              supplier: ['Amazon Logistics', 'Direct Supplier', 'Third Party'][Math.floor(Math.random() * 3)] || 'Amazon Logistics'
-            });
-          }
-          
-          setProductItems(items);
-          
-          // Create drill-down chart data
-          const statusCounts = {
-            in_stock: items.filter(item => item.status === 'in_stock').length,
-            low_stock: items.filter(item => item.status === 'low_stock').length,
-            out_of_stock: items.filter(item => item.status === 'out_of_stock').length
-          };
-          
-          const chartData: ChartData = {
-            labels: ['In Stock', 'Low Stock', 'Out of Stock'],
-            datasets: [{
-              label: 'Product Status',
-              data: [
-                { x: 'In Stock', y: statusCounts.in_stock },
-                { x: 'Low Stock', y: statusCounts.low_stock },
-                { x: 'Out of Stock', y: statusCounts.out_of_stock }
-              ],
-              backgroundColor: [
-                'rgba(76, 175, 80, 0.8)',
-                'rgba(255, 152, 0, 0.8)',
-                'rgba(244, 67, 54, 0.8)'
-              ],
-              borderColor: [
-                'rgba(76, 175, 80, 1)',
-                'rgba(255, 152, 0, 1)',
-                'rgba(244, 67, 54, 1)'
-              ],
-              borderWidth: 2
-            }],
-            metadata: {
-              title: `${category.name} Product Status`,
-              description: `Status distribution for products in ${category.name} category`,
-              lastUpdated: new Date().toISOString()
-            }
-          };
-          
-          setDrillDownData(chartData);
+          // Same products the per-SKU alert checks see
+          setProductItems(generateProductItems(category));
         }
       } else {
         setSelectedCategory(null);
         setProductItems([]);
-        setDrillDownData(null);
       }
       
     } catch (err) {
@@ -165,6 +138,60 @@ export const InventoryDrillDownWidget: React.FC<InventoryDrillDownWidgetProps> =
     loadDrillDownData(initialCategory);
   }, [initialCategory]);
 
+  useEffect(() => {
+    setLocationFilter({ warehouse, region });
+  }, [warehouse, region]);
+
+  useEffect(() => {
+    const item = productItems.find(product => product.sku === highlightSku);
+    if (item) {
+      setExpandedRows(current => new Set(current).add(item.id));
+    }
+  }, [productItems, highlightSku]);
+
+  const plans = useMemo(
+    () => new Map(getReplenishmentPlans(productItems).map(plan => [plan.item.id, plan])),
+    [productItems]
+  );
+
+  const drillDownData = useMemo<ChartData | null>(() => {
+    if (!selectedCategory) return null;
+
+    const statusCounts = {
+      in_stock: visibleItems.filter(item => item.status === 'in_stock').length,
+      low_stock: visibleItems.filter(item => item.status === 'low_stock').length,
+      out_of_stock: visibleItems.filter(item => item.status === 'out_of_stock').length
+    };
+
+    return {
+      labels: ['In Stock', 'Low Stock', 'Out of Stock'],
+      datasets: [{
+        label: 'Product Status',
+        data: [
+          { x: 'In Stock', y: statusCounts.in_stock },
+          { x: 'Low Stock', y: statusCounts.low_stock },
+          { x: 'Out of Stock', y: statusCounts.out_of_stock }
+        ],
+        backgroundColor: [
+          'rgba(76, 175, 80, 0.8)',
+          'rgba(255, 152, 0, 0.8)',
+          'rgba(244, 67, 54, 0.8)'
+        ],
+        borderColor: [
+          'rgba(76, 175, 80, 1)',
+          'rgba(255, 152, 0, 1)',
+          'rgba(244, 67, 54, 1)'
+        ],
+        borderWidth: 2
+      }],
+      metadata: {
+        title: `${selectedCategory.name} Product Status`,
+        description: `Status distribution for products in ${selectedCategory.name} category${locationLabel ? ` at ${locationLabel}` : ''}`,
+        lastUpdated: new Date().toISOString()
+      }
+    };
+  }, [selectedCategory, visibleItems, locationLabel]);
+
   const handleRefresh = async () => {
     await loadDrillDownData(selectedCategory?.id);
     if (onRefresh) {
@@ -237,6 +264,17 @@ export const InventoryDrillDownWidget: React.FC<InventoryDrillDownWidgetProps> =
           )}
         </Breadcrumbs>
 
+        {hasLocationFilter && (
+          <Chip
+            label={`${locationFilter.warehouse ? 'Warehouse' : 'Region'}: ${locationLabel}`}
+            size="small"
+            color="primary"
+            variant="outlined"
+            onDelete={() => setLocationFilter({})}
+            sx={{ mb: 2 }}
+          />
+        )}
+
         {/* Category Selection View */}
         {!selectedCategory && businessMetrics && (
           <Box>
@@ -273,6 +311,11 @@ export const InventoryDrillDownWidget: React.FC<InventoryDrillDownWidgetProps> =
                     Low Stock: {formatNumber(category.lowStockItems)} • 
                     Out of Stock: {formatNumber(category.outOfStockItems)}
                   </Typography>
+                  {locationCounts && (
+                    <Typography variant="body2" color="text.secondary">
+                      At {locationLabel}: {locationCounts[category.id]?.low || 0} low • {locationCounts[category.id]?.out || 0} out
+                    </Typography>
+                  )}
                   <Chip
                     label={category.alertLevel}
                     size="small"
@@ -335,84 +378,139 @@ export const InventoryDrillDownWidget: React.FC<InventoryDrillDownWidgetProps> =
                     <TableCell>SKU</TableCell>
                     <TableCell align="right">Current Stock</TableCell>
                     <TableCell align="right">Min Threshold</TableCell>
+                    <TableCell>Warehouse</TableCell>
                     <TableCell>Status</TableCell>
+                    <TableCell align="right">Days of Cover</TableCell>
+                    <TableCell>Stock-out</TableCell>
                     <TableCell>Last Restocked</TableCell>
                   </TableRow>
                 </TableHead>
                 <TableBody>
-                  {productItems.map((item) => (
-                    <React.Fragment key={item.id}>
-                      <TableRow sx={{ '& > *': { borderBottom: 'unset' } }}>
-                        <TableCell>
-                          <IconButton
-                            size="small"
-                            onClick={() => toggleRowExpansion(item.id)}
-                          >
-                            {expandedRows.has(item.id) ? <ExpandLess /> : <ExpandMore />}
-                          </IconButton>
-                        </TableCell>
-                        <TableCell component="th" scope="row">
-                          <Typography variant="body2" fontWeight="medium">
-                            {item.name}
-                          </Typography>
-                        </TableCell>
-                        <TableCell>
-                          <Typography variant="body2" fontFamily="monospace">
-                            {item.sku}
-                          </Typography>
-                        </TableCell>
-                        <TableCell align="right">
-                          <Typography variant="body2" fontWeight="medium">
-                            {formatNumber(item.currentStock)}
-                          </Typography>
-                        </TableCell>
-                        <TableCell align="right">
-                          {formatNumber(item.minThreshold)}
-                        </TableCell>
-                        <TableCell>
-                          <Chip
-                            label={getStatusLabel(item.status)}
-                            color={getStatusColor(item.status)}
-                            size="small"
-                          />
-                        </TableCell>
-                        <TableCell>
-                          <Typography variant="body2">
-                            {new Date(item.lastRestocked).toLocaleDateString()}
-                          </Typography>
-                        </TableCell>
-                      </TableRow>
-                      <TableRow>
-                        <TableCell style={{ paddingBottom: 0, paddingTop: 0 }} colSpan={7}>
-                          <Collapse in={expandedRows.has(item.id)} timeout="auto" unmountOnExit>
-                            <Box sx={{ margin: 1, p: 2, bgcolor: 'background.default', borderRadius: 1 }}>
-                              <Typography variant="subtitle2" gutterBottom>
-                                Additional Details
-                              </Typography>
-                              <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: 2 }}>
-                                <Box>
-                                  <Typography variant="body2" color="text.secondary">
-                                    Max Capacity: {formatNumber(item.maxCapacity)}
-                                  </Typography>
-                                  <Typography variant="body2" color="text.secondary">
-                                    Supplier: {item.supplier}
-                                  </Typography>
-                                </Box>
-                                <Box>
-                                  <Typography variant="body2" color="text.secondary">
-                                    Stock Level: {((item.currentStock / item.maxCapacity) * 100).toFixed(1)}%
-                                  </Typography>
-                                  <Typography variant="body2" color="text.secondary">
-                                    Days Since Restock: {Math.floor((Date.now() - new Date(item.lastRestocked).getTime()) / (1000 * 60 * 60 * 24))}
-                                  </Typography>
+                  {visibleItems.map((item) => {
+                    const plan = plans.get(item.id);
+                    return (
+                      <React.Fragment key={item.id}>
+                        <TableRow selected={item.sku === highlightSku} sx={{ '& > *': { borderBottom: 'unset' } }}>
+                          <TableCell>
+                            <IconButton
+                              size="small"
+                              onClick={() => toggleRowExpansion(item.id)}
+                            >
+                              {expandedRows.has(item.id) ? <ExpandLess /> : <ExpandMore />}
+                            </IconButton>
+                          </TableCell>
+                          <TableCell component="th" scope="row">
+                            <Typography variant="body2" fontWeight="medium">
+                              {item.name}
+                            </Typography>
+                          </TableCell>
+                          <TableCell>
+                            <Typography variant="body2" fontFamily="monospace">
+                              {item.sku}
+                            </Typography>
+                          </TableCell>
+                          <TableCell align="right">
+                            <Typography variant="body2" fontWeight="medium">
+                              {formatNumber(item.currentStock)}
+                            </Typography>
+                          </TableCell>
+                          <TableCell align="right">
+                            {formatNumber(item.minThreshold)}
+                          </TableCell>
+                          <TableCell>
+                            <Typography variant="body2">
+                              {getWarehouseName(item.warehouseId)}
+                            </Typography>
+                          </TableCell>
+                          <TableCell>
+                            <Chip
+                              label={getStatusLabel(item.status)}
+                              color={getStatusColor(item.status)}
+                              size="small"
+                            />
+                          </TableCell>
+                          <TableCell align="right">
+                            {plan && (
+                              <Chip
+                                label={plan.daysOfCover !== null ? `${plan.daysOfCover.toFixed(1)} d` : '–'}
+                                color={getCoverColor(plan)}
+                                variant={plan.urgency === 'ok' ? 'outlined' : 'filled'}
+                                size="small"
+                              />
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Typography variant="body2">
+                              {item.currentStock === 0 ? 'Now' : plan?.stockOutDate ? formatDay(plan.stockOutDate) : '–'}
+                            </Typography>
+                          </TableCell>
+                          <TableCell>
+                            <Typography variant="body2">
+                              {new Date(item.lastRestocked).toLocaleDateString()}
+                            </Typography>
+                          </TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell style={{ paddingBottom: 0, paddingTop: 0 }} colSpan={10}>
+                            <Collapse in={expandedRows.has(item.id)} timeout="auto" unmountOnExit>
+                              <Box sx={{ margin: 1, p: 2, bgcolor: 'background.default', borderRadius: 1 }}>
+                                <Typography variant="subtitle2" gutterBottom>
+                                  Additional Details
+                                </Typography>
+                                <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: 2 }}>
+                                  <Box>
+                                    <Typography variant="body2" color="text.secondary">
+                                      Max Capacity: {formatNumber(item.maxCapacity)}
+                                    </Typography>
+                                    <Typography variant="body2" color="text.secondary">
+                                      Supplier: {item.supplier}
+                                    </Typography>
+                                    <Typography variant="body2" color="text.secondary">
+                                      Region: {item.region}
+                                    </Typography>
+                                  </Box>
+                                  <Box>
+                                    <Typography variant="body2" color="text.secondary">
+                                      Stock Level: {((item.currentStock / item.maxCapacity) * 100).toFixed(1)}%
+                                    </Typography>
+                                    <Typography variant="body2" color="text.secondary">
+                                      Days Since Restock: {Math.floor((Date.now() - new Date(item.lastRestocked).getTime()) / (1000 * 60 * 60 * 24))}
+                                    </Typography>
+                                  </Box>
+                                  {plan && (
+                                    <Box>
+                                      <Typography variant="body2" color="text.secondary">
+                                        Velocity: {plan.dailyVelocity.toFixed(1)} units/day (±{plan.demandStdDev.toFixed(1)})
+                                      </Typography>
+                                      <Typography variant="body2" color="text.secondary">
+                                        Lead Time: {plan.leadTimeDays} days • Safety Stock: {formatNumber(plan.safetyStock)}
+                                      </Typography>
+                                      <Typography variant="body2" color="text.secondary">
+                                        Reorder Point: {formatNumber(plan.reorderPoint)}
+                                      </Typography>
+                                    </Box>
+                                  )}
+                                  {plan && (
+                                    <Box>
+                                      <Typography variant="body2" color="text.secondary">
+                                        Economic Order Qty: {formatNumber(plan.economicOrderQuantity)}
+                                      </Typography>
+                                      <Typography variant="body2" color={plan.urgency === 'ok' ? 'text.secondary' : 'warning.main'}>
+                                        Suggested Order: {formatNumber(plan.suggestedOrderQuantity)}
+                                        {plan.urgency === 'reorder_now'
+                                          ? ' (order now)'
+                                          : plan.orderByDate ? ` by ${formatDay(plan.orderByDate)}` : ''}
+                                      </Typography>
+                                    </Box>
+                                  )}
                                 </Box>
                               </Box>
-                            </Box>
-                          </Collapse>
-                        </TableCell>
-                      </TableRow>
-                    </React.Fragment>
-                  ))}
+                            </Collapse>
+                          </TableCell>
+                        </TableRow>
+                      </React.Fragment>
+                    );
+                  })}
                 </TableBody>
               </Table>
             </TableContainer>
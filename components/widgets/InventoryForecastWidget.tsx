@@ -0,0 +1,164 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Box, FormControl, InputLabel, MenuItem, Select, Typography } from '@mui/material';
+import { BaseWidget } from './BaseWidget';
+import { ChartWidget } from './ChartWidget';
+import { mockDataGenerator } from '../../services/mockDataService';
+import { formatNumber } from '../../utils/formatters';
+import { ChartType, ChartData, InventoryCategory } from '../../types';
+import { StockLevelPoint, generateStockHistory } from '../../services/inventoryEntities';
+import ForecastControls, { ForecastSettings } from '../charts/ForecastControls';
+
+interface InventoryForecastWidgetProps {
+  id: string;
+  title?: string;
+  refreshable?: boolean;
+  onRefresh?: () => void;
+  historyDays?: number;
+}
+
+const ALL_CATEGORIES = 'all';
+
+const HORIZONS = [
+  { value: 7, label: '1 week' },
+  { value: 14, label: '2 weeks' },
+  { value: 28, label: '4 weeks' }
+];
+
+// Stock follows a weekly delivery cycle
+const SEASON_LENGTH = 7;
+
+const sumHistories = (histories: StockLevelPoint[][]): StockLevelPoint[] =>
+  (histories[0] || []).map((point, index) => ({
+    date: point.date,
+    stock: histories.reduce((sum, history) => sum + (history[index]?.stock || 0), 0)
+  }));
+
+export const InventoryForecastWidget: React.FC<InventoryForecastWidgetProps> = ({
+  id,
+  title = 'Stock Level Forecast',
+  refreshable = true,
+  onRefresh,
+  historyDays = 56
+}) => {
+  const [categories, setCategories] = useState<InventoryCategory[]>([]);
+  const [categoryId, setCategoryId] = useState(ALL_CATEGORIES);
+  const [history, setHistory] = useState<StockLevelPoint[]>([]);
+  const [forecastSettings, setForecastSettings] = useState<ForecastSettings>({ enabled: true, method: 'auto', horizon: 14 });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const metrics = mockDataGenerator.generateBusinessMetrics();
+      setCategories(metrics.inventory.categories);
+
+      const selected = metrics.inventory.categories.filter(
+        category => categoryId === ALL_CATEGORIES || category.id === categoryId
+      );
+      setHistory(sumHistories(selected.map(category => generateStockHistory(category, historyDays))));
+    } catch (err) {
+      setError('Failed to load stock history');
+      console.error('Stock history loading error:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadHistory();
+  }, [categoryId, historyDays]);
+
+  const handleRefresh = async () => {
+    await loadHistory();
+    if (onRefresh) {
+      onRefresh();
+    }
+  };
+
+  const chartData = useMemo<ChartData>(() => ({
+    labels: history.map(point => point.date),
+    datasets: [{
+      label: 'Units on Hand',
+      data: history.map(point => ({ x: point.date, y: point.stock })),
+      backgroundColor: 'rgba(46, 125, 50, 0.2)',
+      borderColor: 'rgba(46, 125, 50, 1)',
+      borderWidth: 2,
+      fill: false,
+      tension: 0.2
+    }],
+    metadata: {
+      title: 'Daily Units on Hand',
+      description: `Daily closing stock over the last ${historyDays} days`,
+      lastUpdated: new Date().toISOString()
+    }
+  }), [history, historyDays]);
+
+  const currentStock = history[history.length - 1]?.stock;
+
+  return (
+    <BaseWidget
+      id={id}
+      title={title}
+      loading={loading}
+      error={error}
+      refreshable={refreshable}
+      onRefresh={handleRefresh}
+    >
+      <Box sx={{ p: 2 }}>
+        <Box sx={{ mb: 2, display: 'flex', alignItems: 'center', gap: 3, flexWrap: 'wrap' }}>
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel>Category</InputLabel>
+            <Select label="Category" value={categoryId} onChange={(e) => setCategoryId(e.target.value)}>
+              <MenuItem value={ALL_CATEGORIES}>All categories</MenuItem>
+              {categories.map(category => (
+                <MenuItem key={category.id} value={category.id}>{category.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <ForecastControls value={forecastSettings} onChange={setForecastSettings} horizons={HORIZONS} />
+          {currentStock !== undefined && (
+            <Typography variant="body2" color="text.secondary">
+              On hand today: {formatNumber(currentStock)} units
+            </Typography>
+          )}
+        </Box>
+
+        {history.length > 0 && (
+          <ChartWidget
+            id={`${id}-chart`}
+            title=""
+            chartType={ChartType.LINE}
+            data={chartData}
+            height={300}
+            forecast={forecastSettings.enabled ? {
+              horizon: forecastSettings.horizon,
+              method: forecastSettings.method,
+              seasonLength: SEASON_LENGTH,
+              min: 0
+            } : undefined}
+            options={{
+              elements: {
+                point: {
+                  radius: 0
+                }
+              },
+              scales: {
+                y: {
+                  beginAtZero: false,
+                  ticks: {
+                    callback: (value: any) => formatNumber(value)
+                  }
+                }
+              }
+            }}
+          />
+        )}
+      </Box>
+    </BaseWidget>
+  );
+};
+
+export default InventoryForecastWidget;
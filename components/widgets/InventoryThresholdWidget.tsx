@@ -1,10 +1,33 @@
-import React, { useState, useEffect } from 'react';
-import { Box, Typography, Alert, Chip, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper } from '@mui/material';
-import { Warning, Error as ErrorIcon, CheckCircle, Notifications } from '@mui/icons-material';
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  Alert,
+  Button,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TableSortLabel,
+  Paper
+} from '@mui/material';
+import { Warning, Error as ErrorIcon, CheckCircle, Notifications, Download as DownloadIcon } from '@mui/icons-material';
 import { BaseWidget } from './BaseWidget';
 import { mockDataGenerator } from '../../services/mockDataService';
+import { exportService } from '../../services/exportService';
 import { formatNumber } from '../../utils/formatters';
 import { BusinessMetrics, AlertLevel, InventoryCategory } from '../../types';
+import { getInventoryProducts } from '../../services/inventoryEntities';
+import {
+  ReplenishmentPlan,
+  getReorderList,
+  getReplenishmentPlans,
+  reorderListToCsv,
+  reorderListToRows
+} from '../../services/replenishment';
 
 interface InventoryThresholdWidgetProps {
   id: string;
@@ -20,6 +43,42 @@ interface ThresholdAlert {
   message: string;
 }
 
+type ReorderSortKey = 'sku' | 'category' | 'stock' | 'daysOfCover' | 'reorderPoint' | 'suggested' | 'orderBy';
+
+const REORDER_COLUMNS: Array<{ key: ReorderSortKey; label: string; align?: 'right' }> = [
+  { key: 'sku', label: 'Product' },
+  { key: 'category', label: 'Category' },
+  { key: 'stock', label: 'Stock', align: 'right' },
+  { key: 'daysOfCover', label: 'Days of Cover', align: 'right' },
+  { key: 'reorderPoint', label: 'Reorder Point', align: 'right' },
+  { key: 'suggested', label: 'Suggested Order', align: 'right' },
+  { key: 'orderBy', label: 'Order By' }
+];
+
+const REORDER_SORT_VALUES: Record<ReorderSortKey, (plan: ReplenishmentPlan) => string | number> = {
+  sku: plan => plan.item.sku,
+  category: plan => plan.item.categoryName,
+  stock: plan => plan.item.currentStock,
+  daysOfCover: plan => plan.daysOfCover ?? Infinity,
+  reorderPoint: plan => plan.reorderPoint,
+  suggested: plan => plan.suggestedOrderQuantity,
+  orderBy: plan => plan.orderByDate || '9999-12-31'
+};
+
+const REORDER_PREVIEW_COUNT = 10;
+
+// Plan dates are calendar days; show them as the local day rather than UTC midnight
+const formatDay = (date: string): string => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+const downloadCsv = (content: string, filename: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 export const InventoryThresholdWidget: React.FC<InventoryThresholdWidgetProps> = ({
   id,
   title = 'Inventory Threshold Alerts',
@@ -28,6 +87,12 @@ export const InventoryThresholdWidget: React.FC<InventoryThresholdWidgetProps> =
 }) => {
   const [businessMetrics, setBusinessMetrics] = useState<BusinessMetrics | null>(null);
   const [thresholdAlerts, setThresholdAlerts] = useState<ThresholdAlert[]>([]);
+  const [reorderList, setReorderList] = useState<ReplenishmentPlan[]>([]);
+  const [reorderSort, setReorderSort] = useState<{ key: ReorderSortKey; direction: 'asc' | 'desc' }>({
+    key: 'daysOfCover',
+    direction: 'asc'
+  });
+  const [showAllReorders, setShowAllReorders] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -83,6 +148,9 @@ export const InventoryThresholdWidget: React.FC<InventoryThresholdWidgetProps> =
       });
       
       setThresholdAlerts(alerts);
+
+      // SKUs at or near their reorder point, from recent consumption
+      setReorderList(getReorderList(getReplenishmentPlans(getInventoryProducts(metrics.inventory.categories))));
       
     } catch (err) {
       setError('Failed to load threshold data');
@@ -144,6 +212,39 @@ export const InventoryThresholdWidget: React.FC<InventoryThresholdWidgetProps> =
     }
   };
 
+  const sortedReorders = useMemo(() => {
+    const value = REORDER_SORT_VALUES[reorderSort.key];
+    const sign = reorderSort.direction === 'asc' ? 1 : -1;
+    return [...reorderList].sort((a, b) => {
+      const left = value(a);
+      const right = value(b);
+      return sign * (typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : String(left).localeCompare(String(right)));
+    });
+  }, [reorderList, reorderSort]);
+
+  const handleReorderSort = (key: ReorderSortKey) => {
+    setReorderSort(current => ({
+      key,
+      direction: current.key === key && current.direction === 'asc' ? 'desc' : 'asc'
+    }));
+  };
+
+  const reorderFilename = (extension: string) => `reorder-list-${new Date().toISOString().split('T')[0]}.${extension}`;
+
+  const handleExportReordersCsv = () => {
+    downloadCsv(reorderListToCsv(sortedReorders), reorderFilename('csv'));
+  };
+
+  const handleExportReordersExcel = async () => {
+    try {
+      await exportService.exportToExcel(reorderListToRows(sortedReorders), { filename: reorderFilename('xlsx') });
+    } catch (err) {
+      console.error('Reorder list export failed:', err);
+    }
+  };
+
   const getCriticalAlerts = () => thresholdAlerts.filter(alert => alert.severity === AlertLevel.CRITICAL);
   const getHighAlerts = () => thresholdAlerts.filter(alert => alert.severity === AlertLevel.HIGH);
 
@@ -274,6 +375,83 @@ export const InventoryThresholdWidget: React.FC<InventoryThresholdWidgetProps> =
           </Alert>
         )}
 
+        {/* Reorder Recommendations */}
+        {reorderList.length > 0 && (
+          <Box sx={{ mb: 3 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              <Typography variant="subtitle2" sx={{ flex: 1 }}>
+                Reorder Now ({reorderList.filter(plan => plan.urgency === 'reorder_now').length} due,
+                {' '}{reorderList.filter(plan => plan.urgency === 'reorder_soon').length} within a week)
+              </Typography>
+              <Button size="small" startIcon={<DownloadIcon />} onClick={handleExportReordersCsv}>
+                CSV
+              </Button>
+              <Button size="small" startIcon={<DownloadIcon />} onClick={handleExportReordersExcel}>
+                Excel
+              </Button>
+            </Box>
+            <TableContainer component={Paper}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    {REORDER_COLUMNS.map(column => (
+                      <TableCell
+                        key={column.key}
+                        align={column.align}
+                        sortDirection={reorderSort.key === column.key ? reorderSort.direction : false}
+                      >
+                        <TableSortLabel
+                          active={reorderSort.key === column.key}
+                          direction={reorderSort.key === column.key ? reorderSort.direction : 'asc'}
+                          onClick={() => handleReorderSort(column.key)}
+                        >
+                          {column.label}
+                        </TableSortLabel>
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {(showAllReorders ? sortedReorders : sortedReorders.slice(0, REORDER_PREVIEW_COUNT)).map(plan => (
+                    <TableRow key={plan.item.id}>
+                      <TableCell component="th" scope="row">
+                        <Typography variant="body2" fontWeight="medium">
+                          {plan.item.name}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary" fontFamily="monospace">
+                          {plan.item.sku}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>{plan.item.categoryName}</TableCell>
+                      <TableCell align="right">{formatNumber(plan.item.currentStock)}</TableCell>
+                      <TableCell align="right">
+                        <Chip
+                          size="small"
+                          color={plan.urgency === 'reorder_now' ? 'error' : 'warning'}
+                          label={plan.daysOfCover !== null ? `${plan.daysOfCover.toFixed(1)} d` : '–'}
+                          title={plan.stockOutDate ? `Projected stock-out ${formatDay(plan.stockOutDate)}` : undefined}
+                        />
+                      </TableCell>
+                      <TableCell align="right">{formatNumber(plan.reorderPoint)}</TableCell>
+                      <TableCell align="right">{formatNumber(plan.suggestedOrderQuantity)}</TableCell>
+                      <TableCell>
+                        {plan.urgency === 'reorder_now'
+                          ? 'Now'
+                          : plan.orderByDate ? formatDay(plan.orderByDate) : '–'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            {sortedReorders.length > REORDER_PREVIEW_COUNT && (
+              <Button size="small" onClick={() => setShowAllReorders(prev => !prev)} sx={{ mt: 1 }}>
+                {showAllReorders ? 'Show fewer' : `Show all ${sortedReorders.length}`}
+              </Button>
+            )}
+          </Box>
+        )}
+
         {/* Threshold Configuration Summary */}
         {businessMetrics && (
           <Box sx={{ p: 2, bgcolor: 'background.default', borderRadius: 1 }}>
@@ -7,21 +7,43 @@ import { mockDataGenerator } from '../../services/mockDataService';
 import { dataTransformUtils } from '../../utils/dataTransform';
 import { formatCurrency, formatTrend } from '../../utils/formatters';
 import { ChartType, TimePeriod, TrendDirection, ChartData, FinancialMetrics } from '../../types';
+import ForecastControls, { ForecastSettings } from '../charts/ForecastControls';
 
 interface RevenueWidgetProps {
   id: string;
   title?: string;
   refreshable?: boolean;
   onRefresh?: () => void;
+  forecast?: boolean; // Show forecast controls and project the revenue trend
 }
 
+// Points per yearly cycle and the horizons offered for each period
+const FORECAST_PERIODS: Partial<Record<TimePeriod, { seasonLength: number; horizons: Array<{ value: number; label: string }> }>> = {
+  [TimePeriod.MONTHLY]: {
+    seasonLength: 12,
+    horizons: [{ value: 3, label: '3 months' }, { value: 6, label: '6 months' }, { value: 12, label: '12 months' }]
+  },
+  [TimePeriod.QUARTERLY]: {
+    seasonLength: 4,
+    horizons: [{ value: 2, label: '2 quarters' }, { value: 4, label: '4 quarters' }, { value: 8, label: '8 quarters' }]
+  },
+  [TimePeriod.YEARLY]: {
+    seasonLength: 1,
+    horizons: [{ value: 1, label: '1 year' }, { value: 2, label: '2 years' }, { value: 3, label: '3 years' }]
+  }
+};
+
 export const RevenueWidget: React.FC<RevenueWidgetProps> = ({
   id,
   title = 'Revenue Trends',
   refreshable = true,
-  onRefresh
+  onRefresh,
+  forecast = false
 }) => {
   const [timePeriod, setTimePeriod] = useState<TimePeriod>(TimePeriod.MONTHLY);
+  const [forecastSettings, setForecastSettings] = useState<ForecastSettings>({ enabled: true, method: 'auto', horizon: 6 });
+  const forecastPeriod = FORECAST_PERIODS[timePeriod];
+  const showForecast = forecast && forecastSettings.enabled && Boolean(forecastPeriod);
   const [revenueData, setRevenueData] = useState<ChartData | null>(null);
   const [financialMetrics, setFinancialMetrics] = useState<FinancialMetrics | null>(null);
   const [loading, setLoading] = useState(true);
@@ -65,6 +87,11 @@ export const RevenueWidget: React.FC<RevenueWidgetProps> = ({
   ) => {
     if (newPeriod) {
       setTimePeriod(newPeriod);
+      // Keep the horizon to one the new period offers
+      const horizons = FORECAST_PERIODS[newPeriod]?.horizons;
+      if (horizons && !horizons.some(horizon => horizon.value === forecastSettings.horizon)) {
+        setForecastSettings(prev => ({ ...prev, horizon: horizons[1]!.value }));
+      }
     }
   };
 
@@ -84,7 +111,7 @@ export const RevenueWidget: React.FC<RevenueWidgetProps> = ({
     >
       <Box sx={{ p: 2 }}>
         {/* Time Period Selector */}
-        <Box sx={{ mb: 3, display: 'flex', justifyContent: 'center' }}>
+        <Box sx={{ mb: 3, display: 'flex', justifyContent: 'center', alignItems: 'center', gap: 3, flexWrap: 'wrap' }}>
           <ToggleButtonGroup
             value={timePeriod}
             exclusive
@@ -102,6 +129,13 @@ export const RevenueWidget: React.FC<RevenueWidgetProps> = ({
               Yearly
             </ToggleButton>
           </ToggleButtonGroup>
+          {forecast && forecastPeriod && (
+            <ForecastControls
+              value={forecastSettings}
+              onChange={setForecastSettings}
+              horizons={forecastPeriod.horizons}
+            />
+          )}
         </Box>
 
         {/* Revenue KPIs */}
@@ -139,25 +173,30 @@ export const RevenueWidget: React.FC<RevenueWidgetProps> = ({
 
         {/* Revenue Trend Chart */}
         {revenueData && (
-          <Box sx={{ height: 300 }}>
+          <Box sx={{ minHeight: 300 }}>
             <ChartWidget
               id={`${id}-chart`}
               title=""
               chartType={ChartType.LINE}
               data={revenueData}
               height={300}
+              forecast={showForecast ? {
+                horizon: forecastSettings.horizon,
+                method: forecastSettings.method,
+                seasonLength: forecastPeriod!.seasonLength,
+                min: 0
+              } : undefined}
               options={{
                 responsive: true,
                 maintainAspectRatio: false,
                 plugins: {
-                  legend: {
-                    display: false
-                  },
+                  // The legend tells actuals from the forecast and its interval
+                  ...(showForecast ? {} : { legend: { display: false } }),
                   tooltip: {
                     callbacks: {
                       label: (context: any) => {
                         const value = context.parsed.y;
-                        return `Revenue: ${formatCurrency(value)}`;
+                        return `${showForecast ? context.dataset.label : 'Revenue'}: ${formatCurrency(value)}`;
                       }
                     }
                   }
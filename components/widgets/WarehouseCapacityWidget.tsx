@@ -7,6 +7,7 @@ import { KPIWidget } from './KPIWidget';
 import { mockDataGenerator } from '../../services/mockDataService';
 import { formatPercentage, formatNumber } from '../../utils/formatters';
 import { ChartType, ChartData, BusinessMetrics, TrendDirection } from '../../types';
+import { WAREHOUSES } from '../../services/inventoryEntities';
 
 interface WarehouseCapacityWidgetProps {
   id: string;
@@ -36,16 +37,8 @@ export const WarehouseCapacityWidget: React.FC<WarehouseCapacityWidgetProps> = (
       const metrics = mockDataGenerator.generateBusinessMetrics();
       setBusinessMetrics(metrics);
       
-      // Generate warehouse capacity data
-      const warehouses = [
-        { name: 'West Coast Hub', capacity: 85, location: 'California' },
-        { name: 'East Coast Hub', capacity: 92, location: 'New York' },
-        { name: 'Central Hub', capacity: 78, location: 'Texas' },
-        { name: 'Southeast Hub', capacity: 88, location: 'Florida' },
-        { name: 'Northwest Hub', capacity: 73, location: 'Washington' }
-      ];
-      
-      setWarehouseDetails(warehouses);
+      // Warehouse capacity data, shared with the inventory drill-down and alerts
+      setWarehouseDetails(WAREHOUSES);
       
       // Create gauge chart data for overall capacity
       const gaugeData: ChartData = {
@@ -14,6 +14,7 @@ export { InventoryLevelsWidget } from './InventoryLevelsWidget';
 export { WarehouseCapacityWidget } from './WarehouseCapacityWidget';
 export { InventoryThresholdWidget } from './InventoryThresholdWidget';
 export { InventoryDrillDownWidget } from './InventoryDrillDownWidget';
+export { InventoryForecastWidget } from './InventoryForecastWidget';
 
 // Customer service widgets
 export { CustomerSatisfactionWidget } from './CustomerSatisfactionWidget';
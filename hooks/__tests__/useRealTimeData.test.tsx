@@ -0,0 +1,89 @@
+/**
+ * @jest-environment node
+ */
+import { act, create, ReactTestRenderer } from 'react-test-renderer';
+import { ChartData, TimePeriod } from '@/types';
+import { autoRefreshService } from '@/services/autoRefreshService';
+import { dataCacheService } from '@/services/dataCacheService';
+import { RealTimeUpdate, realTimeDataService } from '@/services/realTimeDataService';
+import { realTimeRelay } from '@/services/realTimeRelay';
+import { tabCoordinator } from '@/services/tabCoordinator';
+import { useRealTimeData } from '../useRealTimeData';
+
+jest.mock('@/services/realTimeDataService', () => {
+  const handlers = new Map<string, Set<(update: unknown) => void>>();
+  return {
+    realTimeDataService: {
+      connect: () => {},
+      disconnect: () => {},
+      subscribe: (type: string, handler: (update: unknown) => void) => {
+        const forType = handlers.get(type) || new Set();
+        forType.add(handler);
+        handlers.set(type, forType);
+        return () => forType.delete(handler);
+      },
+      onConnectionChange: () => () => {},
+      getConnectionStatus: () => 'connected',
+      emit: (update: { type: string }) => handlers.get(update.type)?.forEach(handler => handler(update))
+    }
+  };
+});
+
+// Lets the test push updates through the mocked stream
+const stream = realTimeDataService as unknown as { emit: (update: RealTimeUpdate) => void };
+
+/**
+ * Mount a hook in a bare component and expose its latest return value
+ */
+const renderHook = <T,>(hook: () => T) => {
+  const result = {} as { current: T };
+  const Probe = () => {
+    result.current = hook();
+    return null;
+  };
+  let renderer!: ReactTestRenderer;
+  act(() => {
+    renderer = create(<Probe />);
+  });
+  return { result, unmount: () => act(() => renderer.unmount()) };
+};
+
+const waitFor = async (predicate: () => boolean) => {
+  for (let i = 0; i < 100 && !predicate(); i++) {
+    await act(() => new Promise(resolve => setTimeout(resolve, 10)));
+  }
+  expect(predicate()).toBe(true);
+};
+
+const revenue = (y: number): ChartData => ({
+  labels: ['Jan'],
+  datasets: [{ label: 'Revenue', data: [{ x: 'Jan', y }] }]
+});
+
+describe('useRealTimeData', () => {
+  afterAll(() => {
+    realTimeRelay.disconnect();
+    autoRefreshService.destroy();
+    dataCacheService.destroy();
+    tabCoordinator.stop();
+  });
+
+  it('invalidates the cache once per realtime update, however many hooks are mounted', async () => {
+    // Seed the cache so mounting does not reach for the API
+    dataCacheService.cacheRevenueData(revenue(10), TimePeriod.MONTHLY);
+    const first = renderHook(() => useRealTimeData<ChartData>('revenue', { enableAutoRefresh: false }));
+    const second = renderHook(() => useRealTimeData<ChartData>('revenue', { enableAutoRefresh: false }));
+    await waitFor(() => tabCoordinator.isLeader() && !first.result.current[0].loading && !second.result.current[0].loading);
+    const invalidate = jest.spyOn(dataCacheService, 'invalidateDomain');
+
+    act(() => stream.emit({ type: 'revenue', data: revenue(20), timestamp: '2024-03-01T10:00:00.000Z' }));
+
+    expect(first.result.current[0].data).toEqual(revenue(20));
+    expect(second.result.current[0].data).toEqual(revenue(20));
+    expect(invalidate).toHaveBeenCalledTimes(1);
+    expect(invalidate).toHaveBeenCalledWith('revenue', { reason: 'Real-time revenue update' });
+
+    first.unmount();
+    second.unmount();
+  });
+});
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Alert, AlertConfiguration, AlertThreshold } from '../types/alerts';
 import { alertService } from '../services/alertService';
+import { AlertRuleSet, RuleSetImportMode } from '../services/alertRuleSets';
 import { useNotifications } from '../components/notifications/NotificationProvider';
 import { BusinessMetrics, FinancialMetrics, CustomerMetrics } from '../types';
 
@@ -17,6 +18,8 @@ interface UseAlertsReturn {
   updateThreshold: (threshold: AlertThreshold) => void;
   deleteThreshold: (thresholdId: string) => void;
   updateGlobalSettings: (settings: Partial<AlertConfiguration['globalSettings']>) => void;
+  importRuleSet: (ruleSet: AlertRuleSet, mode: RuleSetImportMode) => void;
+  rollbackRuleSet: (version: number) => void;
   checkMetrics: (metrics: { business?: BusinessMetrics; financial?: FinancialMetrics; customer?: CustomerMetrics }) => void;
   getActiveAlertsCount: () => number;
   getAlertSummary: () => ReturnType<typeof alertService.getAlertSummary>;
@@ -151,6 +154,16 @@ export const useAlerts = (): UseAlertsReturn => {
     setConfiguration(alertService.getConfiguration());
   }, []);
 
+  const importRuleSet = useCallback((ruleSet: AlertRuleSet, mode: RuleSetImportMode) => {
+    alertService.importRuleSet(ruleSet, mode);
+    setConfiguration(alertService.getConfiguration());
+  }, []);
+
+  const rollbackRuleSet = useCallback((version: number) => {
+    alertService.rollbackRuleSet(version);
+    setConfiguration(alertService.getConfiguration());
+  }, []);
+
   const checkMetrics = useCallback((metrics: { business?: BusinessMetrics; financial?: FinancialMetrics; customer?: CustomerMetrics }) => {
     if (metrics.business) {
       alertService.checkBusinessMetrics(metrics.business);
@@ -181,6 +194,8 @@ export const useAlerts = (): UseAlertsReturn => {
     updateThreshold,
     deleteThreshold,
     updateGlobalSettings,
+    importRuleSet,
+    rollbackRuleSet,
     checkMetrics,
     getActiveAlertsCount,
     getAlertSummary
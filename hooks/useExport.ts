@@ -2,6 +2,10 @@ import { useState, useCallback } from 'react';
 import { useSelector } from 'react-redux';
 import { RootState } from '../store';
 import { exportService } from '../services/exportService';
+import { ReportData, ReportDefinition } from '../services/reportDefinition';
+import { ReportOutputFormat, renderReport } from '../services/reportPipeline';
+import { downloadExportFile } from '../services/dataExport';
+import { renderDashboardWorkbook } from '../services/excelWorkbook';
 import { ExportOptions, ExportResult, ExportFormat } from '../types';
 
 interface UseExportReturn {
@@ -11,6 +15,7 @@ interface UseExportReturn {
   exportToPDF: (elementId: string, options?: Partial<ExportOptions>) => Promise<ExportResult>;
   exportToExcel: (data: any, options?: Partial<ExportOptions>) => Promise<ExportResult>;
   exportToImage: (elementId: string, format?: 'png' | 'jpeg', options?: Partial<ExportOptions>) => Promise<ExportResult>;
+  exportReport: (definition: ReportDefinition, data: ReportData, format?: ReportOutputFormat) => Promise<ExportResult>;
   printDashboard: (elementId: string) => void;
   clearResult: () => void;
   clearError: () => void;
@@ -92,8 +97,15 @@ export const useExport = (): UseExportReturn => {
         timestamp: new Date().toISOString()
       };
 
-      const result = await exportService.exportToExcel(exportData, mergedOptions);
-      
+      // One sheet per data domain, with a cover sheet for the applied filters
+      const workbook = renderDashboardWorkbook(exportData, {
+        title: 'Dashboard Data',
+        filename: mergedOptions.filename,
+        filters: filters.current
+      });
+      downloadExportFile(workbook);
+
+      const result: ExportResult = { success: true, filename: workbook.filename, size: workbook.bytes.length };
       setExportResult(result);
       return result;
     } catch (err) {
@@ -145,6 +157,42 @@ export const useExport = (): UseExportReturn => {
     }
   }, []);
 
+  // Rendered from data rather than a DOM capture, so charts stay vector and sheets keep formulas
+  const exportReport = useCallback(async (
+    definition: ReportDefinition,
+    data: ReportData,
+    format: ReportOutputFormat = ExportFormat.PDF
+  ): Promise<ExportResult> => {
+    setIsExporting(true);
+    setError(null);
+    setExportResult(null);
+
+    try {
+      const report = renderReport(
+        { ...definition, filters: definition.filters || filters.current },
+        data,
+        format
+      );
+
+      downloadExportFile(report);
+
+      const result: ExportResult = { success: true, filename: report.filename, size: report.bytes.length };
+      setExportResult(result);
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Report export failed';
+      setError(errorMessage);
+      return {
+        success: false,
+        filename: '',
+        size: 0,
+        error: errorMessage
+      };
+    } finally {
+      setIsExporting(false);
+    }
+  }, [filters]);
+
   const printDashboard = useCallback((elementId: string) => {
     try {
       exportService.preparePrintVersion(elementId);
@@ -161,6 +209,7 @@ export const useExport = (): UseExportReturn => {
     exportToPDF,
     exportToExcel,
     exportToImage,
+    exportReport,
     printDashboard,
     clearResult,
     clearError
@@ -1,10 +1,14 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { BusinessMetrics, ChartData, FilterCriteria, TimePeriod } from '@/types';
-import { realTimeDataService, RealTimeUpdate } from '@/services/realTimeDataService';
+import { RealTimeUpdate } from '@/services/realTimeDataService';
+import { realTimeRelay, RelayConnectionStatus } from '@/services/realTimeRelay';
 import { dataCacheService } from '@/services/dataCacheService';
 import { autoRefreshService, RefreshJob } from '@/services/autoRefreshService';
-import { apiService } from '@/services/api';
+import { apiService, isAbortError } from '@/services/api';
 import { configService } from '@/services/configService';
+import { isCircuitOpenError } from '@/services/circuitBreaker';
+
+const BACKEND_UNAVAILABLE_MESSAGE = 'Paused — backend unavailable';
 
 export interface UseRealTimeDataOptions {
   enableRealTime?: boolean;
@@ -20,8 +24,9 @@ export interface RealTimeDataState<T> {
   loading: boolean;
   error: string | null;
   lastUpdated: string | null;
-  connectionStatus: 'connected' | 'disconnected' | 'connecting' | 'error';
+  connectionStatus: 'connected' | 'disconnected' | 'connecting' | 'error' | 'paused';
   refreshing: boolean;
+  stale: boolean; // Data came from an expired cache entry that is being revalidated
 }
 
 export interface RealTimeDataActions {
@@ -52,7 +57,8 @@ export function useRealTimeData<T>(
     error: null,
     lastUpdated: null,
     connectionStatus: 'disconnected',
-    refreshing: false
+    refreshing: false,
+    stale: false
   });
 
   const filtersRef = useRef(filters);
@@ -60,12 +66,50 @@ export function useRealTimeData<T>(
   const unsubscribeRealTimeRef = useRef<(() => void) | null>(null);
   const unsubscribeConnectionRef = useRef<(() => void) | null>(null);
   const unsubscribeRefreshRef = useRef<(() => void) | null>(null);
+  const unsubscribeCacheRef = useRef<(() => void) | null>(null);
 
   // Update filters ref when filters change
   useEffect(() => {
     filtersRef.current = filters;
   }, [filters]);
 
+  /**
+   * Cache key for the current data type and filters
+   */
+  const getCacheKey = useCallback((): string => {
+    switch (dataType) {
+      case 'metrics':
+        return dataCacheService.getBusinessMetricsKey(filtersRef.current);
+      case 'revenue':
+        return dataCacheService.getRevenueDataKey(TimePeriod.MONTHLY, filtersRef.current);
+      case 'inventory':
+        return dataCacheService.getInventoryDataKey(undefined, filtersRef.current);
+      case 'customers':
+        return dataCacheService.getCustomerDataKey(filtersRef.current);
+    }
+  }, [dataType]);
+
+  /**
+   * Pick up fresh values when a stale cache entry finishes revalidating
+   */
+  const subscribeToCache = useCallback((key: string) => {
+    unsubscribeCacheRef.current?.();
+    unsubscribeCacheRef.current = dataCacheService.subscribe<T>(key, event => {
+      setState((prev: RealTimeDataState<T>) => ({
+        ...prev,
+        data: event.data,
+        stale: false,
+        lastUpdated: new Date(event.timestamp).toISOString()
+      }));
+    });
+  }, []);
+
+  /**
+   * Connection status to fall back to once a paused backend recovers
+   */
+  const getLiveConnectionStatus = useCallback((): RealTimeDataState<T>['connectionStatus'] =>
+    enableRealTime ? realTimeRelay.getConnectionStatus() : 'disconnected', [enableRealTime]);
+
   /**
    * Load data from cache or API
    */
@@ -76,26 +120,49 @@ export function useRealTimeData<T>(
       setState((prev: RealTimeDataState<T>) => ({ ...prev, refreshing: true, error: null }));
     }
 
+    // Each load supersedes the previous one for this hook, so stale filter requests get aborted
+    const signal = apiService.beginRequestScope(jobIdRef.current);
+
     try {
       let data: T | null = null;
 
-      // Try cache first if enabled
+      // Try cache first if enabled; expired entries are served stale and revalidated in the background
+      const currentFilters = filtersRef.current;
       if (cacheEnabled) {
+        // Make sure data persisted by a previous session is available before the first lookup
+        await dataCacheService.whenReady();
+        subscribeToCache(getCacheKey());
+
         switch (dataType) {
           case 'metrics':
-            data = dataCacheService.getCachedBusinessMetrics(filtersRef.current) as T;
+            data = dataCacheService.getCachedBusinessMetrics(
+              currentFilters,
+              () => apiService.getBusinessMetrics(currentFilters, false)
+            ) as T;
             break;
           case 'revenue':
-            data = dataCacheService.getCachedRevenueData(TimePeriod.MONTHLY, filtersRef.current) as T;
+            data = dataCacheService.getCachedRevenueData(
+              TimePeriod.MONTHLY,
+              currentFilters,
+              () => apiService.getRevenueData(TimePeriod.MONTHLY, currentFilters, false)
+            ) as T;
             break;
           case 'inventory':
-            data = dataCacheService.getCachedInventoryData(undefined, filtersRef.current) as T;
+            data = dataCacheService.getCachedInventoryData(
+              undefined,
+              currentFilters,
+              () => apiService.getInventoryData(undefined, currentFilters, false)
+            ) as T;
             break;
           case 'customers':
-            data = dataCacheService.getCachedCustomerData(filtersRef.current) as T;
+            data = dataCacheService.getCachedCustomerData(
+              currentFilters,
+              () => apiService.getCustomerMetrics(currentFilters, false)
+            ) as T;
             break;
         }
       }
+      const stale = Boolean(data) && cacheEnabled && dataCacheService.isStale(getCacheKey());
 
       // If no cached data, fetch from API
       if (!data) {
@@ -103,25 +170,25 @@ export function useRealTimeData<T>(
         
         switch (dataType) {
           case 'metrics':
-            data = await apiService.getBusinessMetrics(filtersRef.current) as T;
+            data = await apiService.getBusinessMetrics(filtersRef.current, true, signal) as T;
             if (cacheEnabled) {
               dataCacheService.cacheBusinessMetrics(data as BusinessMetrics, filtersRef.current, cacheTTL);
             }
             break;
           case 'revenue':
-            data = await apiService.getRevenueData(TimePeriod.MONTHLY, filtersRef.current) as T;
+            data = await apiService.getRevenueData(TimePeriod.MONTHLY, filtersRef.current, true, signal) as T;
             if (cacheEnabled) {
               dataCacheService.cacheRevenueData(data as ChartData, TimePeriod.MONTHLY, filtersRef.current, cacheTTL);
             }
             break;
           case 'inventory':
-            data = await apiService.getInventoryData(undefined, filtersRef.current) as T;
+            data = await apiService.getInventoryData(undefined, filtersRef.current, true, signal) as T;
             if (cacheEnabled) {
               dataCacheService.cacheInventoryData(data as ChartData, undefined, filtersRef.current, cacheTTL);
             }
             break;
           case 'customers':
-            data = await apiService.getCustomerMetrics(filtersRef.current) as T;
+            data = await apiService.getCustomerMetrics(filtersRef.current, true, signal) as T;
             if (cacheEnabled) {
               dataCacheService.cacheCustomerData(data as ChartData, filtersRef.current, cacheTTL);
             }
@@ -137,11 +204,30 @@ export function useRealTimeData<T>(
         loading: false,
         refreshing: false,
         error: null,
+        stale,
+        connectionStatus: prev.connectionStatus === 'paused' ? getLiveConnectionStatus() : prev.connectionStatus,
         lastUpdated: new Date().toISOString()
       }));
 
       return data;
     } catch (error) {
+      if (isAbortError(error)) {
+        configService.log('debug', `Superseded ${dataType} request was cancelled`);
+        return null;
+      }
+
+      if (isCircuitOpenError(error)) {
+        configService.log('warn', `Backend unavailable for ${dataType}, keeping last data`);
+        setState((prev: RealTimeDataState<T>) => ({
+          ...prev,
+          loading: false,
+          refreshing: false,
+          error: BACKEND_UNAVAILABLE_MESSAGE,
+          connectionStatus: 'paused'
+        }));
+        return null;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       configService.log('error', `Failed to load ${dataType} data:`, error);
       
@@ -154,7 +240,7 @@ export function useRealTimeData<T>(
 
       return null;
     }
-  }, [dataType, cacheEnabled, cacheTTL]);
+  }, [dataType, cacheEnabled, cacheTTL, getCacheKey, subscribeToCache, getLiveConnectionStatus]);
 
   /**
    * Handle real-time updates
@@ -167,10 +253,11 @@ export function useRealTimeData<T>(
         ...prev,
         data: update.data as T,
         lastUpdated: update.timestamp,
-        error: null
+        error: null,
+        stale: false
       }));
 
-      // Update cache if enabled
+      // Update cache if enabled; realTimeRelay has already invalidated the domain
       if (cacheEnabled) {
         switch (dataType) {
           case 'metrics':
@@ -193,10 +280,10 @@ export function useRealTimeData<T>(
   /**
    * Handle connection status changes
    */
-  const handleConnectionChange = useCallback((status: 'connected' | 'disconnected' | 'error' | 'reconnecting') => {
+  const handleConnectionChange = useCallback((status: RelayConnectionStatus) => {
     setState((prev: RealTimeDataState<T>) => ({
       ...prev,
-      connectionStatus: status === 'reconnecting' ? 'connecting' : status
+      connectionStatus: status
     }));
   }, []);
 
@@ -208,6 +295,15 @@ export function useRealTimeData<T>(
       if (success) {
         // Reload data after successful refresh
         loadData(false);
+      } else if (job.status === 'paused') {
+        configService.log('warn', `Auto-refresh paused for ${dataType}, backend unavailable`);
+        setState((prev: RealTimeDataState<T>) => ({
+          ...prev,
+          loading: false,
+          refreshing: false,
+          error: BACKEND_UNAVAILABLE_MESSAGE,
+          connectionStatus: 'paused'
+        }));
       } else {
         configService.log('error', `Auto-refresh failed for ${dataType}:`, error);
         setState((prev: RealTimeDataState<T>) => ({
@@ -223,16 +319,16 @@ export function useRealTimeData<T>(
    */
   useEffect(() => {
     if (enableRealTime) {
-      // Subscribe to real-time updates
-      unsubscribeRealTimeRef.current = realTimeDataService.subscribe(dataType, handleRealTimeUpdate);
+      // Subscribe to real-time updates (relayed from the leader tab when this tab follows)
+      unsubscribeRealTimeRef.current = realTimeRelay.subscribe(dataType, handleRealTimeUpdate);
       
       // Subscribe to connection status
-      unsubscribeConnectionRef.current = realTimeDataService.onConnectionChange(handleConnectionChange);
+      unsubscribeConnectionRef.current = realTimeRelay.onConnectionChange(handleConnectionChange);
       
       // Update initial connection status
       setState((prev: RealTimeDataState<T>) => ({
         ...prev,
-        connectionStatus: realTimeDataService.getConnectionStatus()
+        connectionStatus: realTimeRelay.getConnectionStatus()
       }));
     }
 
@@ -289,6 +385,18 @@ export function useRealTimeData<T>(
     loadData();
   }, [loadData]);
 
+  /**
+   * Cancel outstanding requests on unmount
+   */
+  useEffect(() => {
+    const scope = jobIdRef.current;
+    return () => {
+      apiService.cancelRequestScope(scope);
+      unsubscribeCacheRef.current?.();
+      unsubscribeCacheRef.current = null;
+    };
+  }, []);
+
   /**
    * Update auto-refresh job when filters change
    */
@@ -28,6 +28,7 @@ export const FinancialDashboard: React.FC = () => {
             id="revenue-trends"
             title="Revenue Trends & Forecasting"
             refreshable={true}
+            forecast={true}
           />
         </Grid>
 
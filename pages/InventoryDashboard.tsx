@@ -1,13 +1,29 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Box, Grid, Typography, Paper } from '@mui/material';
 import {
   InventoryLevelsWidget,
   WarehouseCapacityWidget,
   InventoryThresholdWidget,
-  InventoryDrillDownWidget
+  InventoryDrillDownWidget,
+  InventoryForecastWidget
 } from '../components/widgets';
 
 export const InventoryDashboard: React.FC = () => {
+  // Alerts link here with ?category=&sku= or ?warehouse= / ?region=
+  const [searchParams] = useSearchParams();
+  const drillDownRef = useRef<HTMLDivElement>(null);
+  const category = searchParams.get('category') || undefined;
+  const sku = searchParams.get('sku') || undefined;
+  const warehouse = searchParams.get('warehouse') || undefined;
+  const region = searchParams.get('region') || undefined;
+
+  useEffect(() => {
+    if (category || sku || warehouse || region) {
+      drillDownRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  }, [category, sku, warehouse, region]);
+
   return (
     <Box sx={{ p: 3 }}>
       {/* Page Header */}
@@ -31,6 +47,15 @@ export const InventoryDashboard: React.FC = () => {
           />
         </Grid>
 
+        {/* Stock Level Forecast - Full Width */}
+        <Grid item xs={12}>
+          <InventoryForecastWidget
+            id="inventory-forecast"
+            title="Stock Level Forecast"
+            refreshable={true}
+          />
+        </Grid>
+
         {/* Warehouse Capacity - Half Width */}
         <Grid item xs={12} lg={6}>
           <WarehouseCapacityWidget
@@ -50,11 +75,15 @@ export const InventoryDashboard: React.FC = () => {
         </Grid>
 
         {/* Inventory Drill-Down - Full Width */}
-        <Grid item xs={12}>
+        <Grid item xs={12} ref={drillDownRef}>
           <InventoryDrillDownWidget
             id="inventory-drilldown"
             title="Category & Product Analysis"
             refreshable={true}
+            initialCategory={category}
+            highlightSku={sku}
+            warehouse={warehouse}
+            region={region}
           />
         </Grid>
       </Grid>
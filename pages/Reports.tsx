@@ -25,7 +25,7 @@ import {
   Download as DownloadIcon,
   CheckCircle as CheckIcon
 } from '@mui/icons-material';
-import { ExportButton, ExportPanel } from '../components/export';
+import { ExportButton, ExportPanel, ReportBuilder, ReportSubscriptions } from '../components/export';
 import { useExport } from '../hooks/useExport';
 import { useSelector } from 'react-redux';
 import { RootState } from '../store';
@@ -207,6 +207,16 @@ const Reports: React.FC = () => {
           </Paper>
         </Grid>
 
+        {/* Report Template Builder */}
+        <Grid item xs={12}>
+          <ReportBuilder />
+        </Grid>
+
+        {/* Scheduled Report Subscriptions */}
+        <Grid item xs={12}>
+          <ReportSubscriptions />
+        </Grid>
+
         {/* Export Instructions */}
         <Grid item xs={12}>
           <Paper sx={{ p: 3 }}>
@@ -214,7 +224,7 @@ const Reports: React.FC = () => {
               How to Use Export Features
             </Typography>
             <Grid container spacing={2}>
-              <Grid item xs={12} md={4}>
+              <Grid item xs={12} md={3}>
                 <Typography variant="subtitle2" gutterBottom>
                   Quick Export
                 </Typography>
@@ -222,7 +232,7 @@ const Reports: React.FC = () => {
                   Use the export button in the header for quick PDF, Excel, or image exports with default settings.
                 </Typography>
               </Grid>
-              <Grid item xs={12} md={4}>
+              <Grid item xs={12} md={3}>
                 <Typography variant="subtitle2" gutterBottom>
                   Advanced Export
                 </Typography>
@@ -230,7 +240,7 @@ const Reports: React.FC = () => {
                   Click "Advanced Export Options" to customize export settings, including format, quality, and orientation.
                 </Typography>
               </Grid>
-              <Grid item xs={12} md={4}>
+              <Grid item xs={12} md={3}>
                 <Typography variant="subtitle2" gutterBottom>
                   Email Sharing
                 </Typography>
@@ -238,6 +248,14 @@ const Reports: React.FC = () => {
                   Share reports via email with customizable subject lines and recipient lists.
                 </Typography>
               </Grid>
+              <Grid item xs={12} md={3}>
+                <Typography variant="subtitle2" gutterBottom>
+                  Report Templates
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Compose reports from widgets, text and page breaks in the Report Builder, save them as templates and generate them for any period.
+                </Typography>
+              </Grid>
             </Grid>
           </Paper>
         </Grid>
@@ -1,5 +1,6 @@
 import React from 'react';
-import { Typography, Box } from '@mui/material';
+import { Typography, Box, Grid, Paper } from '@mui/material';
+import { RevenueWidget, ProfitMarginWidget } from '../components/widgets';
 
 const Revenue: React.FC = () => {
   return (
@@ -7,9 +8,35 @@ const Revenue: React.FC = () => {
       <Typography variant="h4" gutterBottom>
         Revenue Analytics
       </Typography>
-      <Typography variant="body1">
-        This page will display revenue trends, profit margins, and financial analytics.
+      <Typography variant="body1" sx={{ mb: 3 }}>
+        Revenue trends with projected revenue, confidence intervals and backtested forecast accuracy.
       </Typography>
+
+      <Grid container spacing={3}>
+        <Grid item xs={12}>
+          <RevenueWidget
+            id="revenue-forecast"
+            title="Revenue Forecast"
+            refreshable={true}
+            forecast={true}
+          />
+        </Grid>
+
+        <Grid item xs={12}>
+          <ProfitMarginWidget
+            id="revenue-profit-margins"
+            title="Profit Margin Analysis"
+            refreshable={true}
+          />
+        </Grid>
+      </Grid>
+
+      <Paper sx={{ p: 2, mt: 3, bgcolor: 'background.default' }}>
+        <Typography variant="body2" color="text.secondary">
+          Forecasts are refit whenever the data refreshes. MAPE is the average error when the same model
+          forecasts the most recent actual periods from the data before them.
+        </Typography>
+      </Paper>
     </Box>
   );
 };
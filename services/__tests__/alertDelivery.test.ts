@@ -0,0 +1,237 @@
+/**
+ * @jest-environment node
+ */
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { createHmac } from 'crypto';
+import { AlertSeverity } from '../../types/alerts';
+import { createManualClock } from '../manualClock';
+import {
+  AlertDeliveryService,
+  DeliveryChannel,
+  DeliveryContext,
+  DeliveryLogEntry,
+  DeliveryRequest,
+  DEFAULT_MESSAGE_TEMPLATE,
+  renderTemplate
+} from '../alertDelivery';
+import { TrackedAlert } from '../alertLifecycle';
+import { MemoryTransport, TabCoordinator, tabCoordinator } from '../tabCoordinator';
+
+interface ReceivedRequest {
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+/**
+ * Local HTTP stand-in that answers with the given statuses in order, then 200
+ */
+const startStandIn = async (statuses: number[] = []) => {
+  const received: ReceivedRequest[] = [];
+  const server = createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => {
+      received.push({ headers: request.headers, body });
+      response.statusCode = statuses.shift() ?? 200;
+      response.end('ok');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`,
+    received,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+};
+
+const waitFor = async (predicate: () => boolean) => {
+  for (let i = 0; i < 100 && !predicate(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  expect(predicate()).toBe(true);
+};
+
+const alert = {
+  id: 'alert_1',
+  type: 'inventory_low_stock',
+  severity: AlertSeverity.ERROR,
+  status: 'active',
+  title: 'Low Stock Alert',
+  message: '1200 items are running low on stock',
+  thresholdId: 'threshold_1',
+  triggeredAt: '2024-03-01T10:00:00.000Z',
+  metadata: { currentValue: 1200, thresholdValue: 1000 },
+  occurrences: 2
+} as unknown as TrackedAlert;
+
+const context: DeliveryContext = { event: 'triggered', alert, thresholdName: 'Low stock' };
+
+const channel = (overrides: Partial<DeliveryChannel>): DeliveryChannel => ({
+  id: 'channel_1',
+  name: 'Ops',
+  enabled: true,
+  events: ['triggered', 'resolved'],
+  minSeverity: AlertSeverity.WARNING,
+  template: DEFAULT_MESSAGE_TEMPLATE,
+  kind: 'webhook',
+  url: 'http://127.0.0.1:1/unused',
+  ...overrides
+} as DeliveryChannel);
+
+const latest = (service: AlertDeliveryService): DeliveryLogEntry => service.getLog()[0]!;
+
+describe('alertDelivery', () => {
+  afterAll(() => tabCoordinator.stop());
+
+  it('renders alert placeholders', () => {
+    expect(renderTemplate('{{alert.title}}: {{ alert.currentValue }} ({{alert.occurrences}}x, {{event}}){{unknown}}', context))
+      .toBe('Low Stock Alert: 1200 (2x, triggered)');
+  });
+
+  it('posts signed webhooks to an HTTP endpoint', async () => {
+    const standIn = await startStandIn();
+    const service = new AlertDeliveryService({ persist: false });
+    service.updateChannel(channel({ url: standIn.url, secret: 's3cret' } as Partial<DeliveryChannel>));
+
+    service.deliver(context, ['channel_1']);
+    await waitFor(() => latest(service).status === 'delivered');
+    await standIn.close();
+
+    const [request] = standIn.received;
+    const payload = JSON.parse(request!.body);
+    expect(payload.event).toBe('triggered');
+    expect(payload.subject).toBe('[error] Low Stock Alert (triggered)');
+    expect(payload.alert.id).toBe('alert_1');
+
+    const expected = createHmac('sha256', 's3cret')
+      .update(`${request!.headers['x-alert-timestamp']}.${request!.body}`)
+      .digest('hex');
+    expect(request!.headers['x-alert-signature']).toBe(`sha256=${expected}`);
+  });
+
+  it('formats Slack and Teams payloads', async () => {
+    const requests: DeliveryRequest[] = [];
+    const service = new AlertDeliveryService({
+      persist: false,
+      transport: async request => { requests.push(request); return { status: 200 }; }
+    });
+    service.updateChannel(channel({ id: 'slack', kind: 'slack', url: 'https://hooks.slack.test/1' }));
+    service.updateChannel(channel({ id: 'teams', kind: 'teams', url: 'https://teams.test/1' }));
+
+    service.deliver(context, ['slack', 'teams']);
+    await waitFor(() => requests.length === 2);
+
+    const slack = JSON.parse(requests.find(request => request.url.includes('slack'))!.body);
+    const teams = JSON.parse(requests.find(request => request.url.includes('teams'))!.body);
+    expect(slack.blocks[0].text.text).toBe('[error] Low Stock Alert (triggered)');
+    expect(teams['@type']).toBe('MessageCard');
+    expect(teams.themeColor).toBe('F44336');
+  });
+
+  it('retries server errors with backoff and gives up on client errors', async () => {
+    const standIn = await startStandIn([503, 502, 400]);
+    const { clock, advance } = createManualClock(1700000000000);
+    const service = new AlertDeliveryService({ persist: false, clock, retry: { retryDelay: 1000 } });
+    service.updateChannel(channel({ url: standIn.url }));
+
+    service.deliver(context, ['channel_1']);
+    await waitFor(() => latest(service).responseStatus === 503);
+    expect(latest(service).status).toBe('retrying');
+    advance(1000);
+    await waitFor(() => latest(service).responseStatus === 502);
+    advance(2000);
+    await waitFor(() => latest(service).responseStatus === 400);
+    await standIn.close();
+
+    expect(latest(service).status).toBe('failed');
+    expect(latest(service).responseStatus).toBe(400);
+    expect(standIn.received.length).toBe(3);
+  });
+
+  it('only delivers to enabled channels that accept the event and severity', () => {
+    const service = new AlertDeliveryService({ persist: false, transport: async () => ({ status: 200 }) });
+    service.updateChannel(channel({ id: 'critical_only', minSeverity: AlertSeverity.CRITICAL }));
+    service.updateChannel(channel({ id: 'disabled', enabled: false }));
+    service.updateChannel(channel({ id: 'resolved_only', events: ['resolved'] }));
+    service.updateChannel(channel({ id: 'match' }));
+
+    const entries = service.deliver(context, ['critical_only', 'disabled', 'resolved_only', 'match']);
+
+    expect(entries.map(entry => entry.channelId)).toEqual(['match']);
+  });
+
+  it('sends a test alert regardless of the channel filters', async () => {
+    const requests: DeliveryRequest[] = [];
+    const service = new AlertDeliveryService({ persist: false, transport: async request => { requests.push(request); return { status: 200 }; } });
+    service.updateChannel(channel({ events: ['resolved'], minSeverity: AlertSeverity.CRITICAL }));
+
+    expect(service.sendTest('missing')).toBeNull();
+    service.sendTest('channel_1');
+    await waitFor(() => latest(service).status === 'delivered');
+
+    expect(JSON.parse(requests[0]!.body)).toEqual(expect.objectContaining({
+      event: 'triggered',
+      alert: expect.objectContaining({ title: 'Test alert', status: 'active', severity: 'info' })
+    }));
+  });
+
+  it('keeps webhook signing secrets out of localStorage', () => {
+    const stored = new Map<string, string>([
+      ['alertDeliveryChannels', JSON.stringify([channel({ id: 'legacy', secret: 'old-key' } as Partial<DeliveryChannel>)])]
+    ]);
+    Object.defineProperty(globalThis, 'localStorage', {
+      configurable: true,
+      value: { getItem: (key: string) => stored.get(key) ?? null, setItem: (key: string, value: string) => stored.set(key, value) }
+    });
+
+    try {
+      const service = new AlertDeliveryService({ transport: async () => ({ status: 200 }) });
+      expect(service.getChannels()[0]).not.toHaveProperty('secret');
+      expect(stored.get('alertDeliveryChannels')).not.toContain('old-key');
+
+      service.updateChannel(channel({ secret: 's3cret' } as Partial<DeliveryChannel>));
+      expect(service.getChannels().find(c => c.id === 'channel_1')).toHaveProperty('secret', 's3cret');
+      expect(stored.get('alertDeliveryChannels')).not.toContain('s3cret');
+    } finally {
+      delete (globalThis as { localStorage?: unknown }).localStorage;
+    }
+  });
+
+  it('sends from the leader tab only and mirrors its log to followers', async () => {
+    const hub = new Set<MemoryTransport>();
+    const requests: DeliveryRequest[] = [];
+    const openTab = () => {
+      const coordinator = new TabCoordinator({ transport: new MemoryTransport(hub), heartbeatInterval: 100, leaderTimeout: 250, electionDelay: 10 });
+      const service = new AlertDeliveryService({
+        persist: false,
+        transport: async request => {
+          requests.push(request);
+          return { status: 202 };
+        },
+        isLeader: () => coordinator.isLeader(),
+        coordinator
+      });
+      service.updateChannel(channel({}));
+      return { coordinator, service };
+    };
+    const tabs = [openTab(), openTab()];
+
+    try {
+      await waitFor(() => tabs.filter(tab => tab.coordinator.isLeader()).length === 1);
+      const leader = tabs.find(tab => tab.coordinator.isLeader())!;
+      const follower = tabs.find(tab => tab !== leader)!;
+
+      // Every tab evaluates the same alert
+      expect(follower.service.deliver(context, ['channel_1'])).toEqual([]);
+      leader.service.deliver(context, ['channel_1']);
+      await waitFor(() => follower.service.getLog()[0]?.status === 'delivered');
+
+      expect(requests).toHaveLength(1);
+      expect(follower.service.getLog()).toEqual(leader.service.getLog());
+    } finally {
+      tabs.forEach(tab => tab.coordinator.stop());
+    }
+  });
+});
@@ -0,0 +1,88 @@
+import { createManualClock } from '../manualClock';
+import {
+  EscalationManager,
+  EscalationPolicy,
+  EscalationRecord,
+  RotationSchedule,
+  getOnCall
+} from '../alertEscalation';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const rotation: RotationSchedule = {
+  id: 'primary',
+  name: 'Primary',
+  participants: ['ana', 'ben', 'cho'],
+  start: new Date(0).toISOString(),
+  shiftLength: DAY,
+  overrides: [{ user: 'dee', start: new Date(5 * DAY).toISOString(), end: new Date(6 * DAY).toISOString() }]
+};
+
+const policy: EscalationPolicy = {
+  id: 'critical',
+  name: 'Critical',
+  steps: [
+    { delay: 0, targets: [{ kind: 'rotation', rotationId: 'primary' }] },
+    { delay: 15 * MINUTE, targets: [{ kind: 'user', name: 'lead' }] },
+    { delay: HOUR, targets: [{ kind: 'user', name: 'director' }, { kind: 'rotation', rotationId: 'primary' }] }
+  ]
+};
+
+describe('alertEscalation', () => {
+  it('rotates on-call shifts and applies overrides', () => {
+    expect(getOnCall(rotation, 0)).toBe('ana');
+    expect(getOnCall(rotation, DAY + HOUR)).toBe('ben');
+    expect(getOnCall(rotation, 3 * DAY)).toBe('ana');
+    expect(getOnCall(rotation, 5 * DAY + HOUR)).toBe('dee');
+    expect(getOnCall({ ...rotation, participants: [] }, 0)).toBe(null);
+  });
+
+  it('walks through the policy steps until stopped', () => {
+    const { clock, advance } = createManualClock();
+    const records: EscalationRecord[] = [];
+    const manager = new EscalationManager((_alertId, record) => records.push(record), clock);
+    manager.configure([policy], [rotation]);
+
+    manager.start('alert_1', 'critical', clock.now());
+    advance(0);
+    expect(records.map(record => record.recipients)).toEqual([['ana']]);
+
+    advance(14 * MINUTE);
+    expect(records.length).toBe(1);
+
+    advance(MINUTE);
+    expect(records[1]).toEqual({ policyId: 'critical', step: 1, recipients: ['lead'], at: new Date(15 * MINUTE).toISOString() });
+
+    advance(HOUR);
+    expect(records[2]!.recipients).toEqual(['director', 'ana']);
+    expect(manager.isEscalating('alert_1')).toBe(false);
+  });
+
+  it('does not escalate acknowledged alerts', () => {
+    const { clock, advance } = createManualClock();
+    const records: EscalationRecord[] = [];
+    const manager = new EscalationManager((_alertId, record) => records.push(record), clock);
+    manager.configure([policy], [rotation]);
+
+    manager.start('alert_1', 'critical', clock.now());
+    advance(MINUTE);
+    manager.stop('alert_1');
+    advance(2 * HOUR);
+
+    expect(records.length).toBe(1);
+  });
+
+  it('catches up on steps that are already due', () => {
+    const { clock, advance } = createManualClock(HOUR / 2);
+    const records: EscalationRecord[] = [];
+    const manager = new EscalationManager((_alertId, record) => records.push(record), clock);
+    manager.configure([policy], [rotation]);
+
+    manager.start('alert_1', 'critical', 0);
+    advance(0);
+
+    expect(records.map(record => record.step)).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  parseExpression,
+  validateExpression,
+  evaluateRule,
+  createStaticContext,
+  getReferencedMetrics,
+  ExpressionContext
+} from '../alertExpressions';
+
+const METRICS = ['revenue.total', 'revenue.growth', 'costs.growth', 'inventory.utilizationRate'];
+
+const evaluate = (source: string, context: ExpressionContext) => {
+  const { ast, errors } = parseExpression(source);
+  expect(errors).toEqual([]);
+  return evaluateRule(ast!, context);
+};
+
+describe('alertExpressions', () => {
+  it('respects precedence of arithmetic, comparison and logical operators', () => {
+    const context = createStaticContext({ 'revenue.growth': 2, 'costs.growth': 9, 'inventory.utilizationRate': 80 });
+
+    expect(evaluate('revenue.growth - costs.growth < -5 AND NOT (inventory.utilizationRate > 95)', context))
+      .toEqual({ triggered: true, value: -7 });
+    expect(evaluate('revenue.growth > 5 OR costs.growth > 5 AND inventory.utilizationRate > 90', context).triggered).toBe(false);
+    expect(evaluate('revenue.growth * 2 + 1 == 5', context).triggered).toBe(true);
+  });
+
+  it('accepts symbolic operator aliases', () => {
+    const context = createStaticContext({ a: 1, b: 3 });
+
+    expect(evaluate('a = 1 && !(b <> 3)', context).triggered).toBe(true);
+    expect(evaluate('a > 5 || b >= 3', context).triggered).toBe(true);
+  });
+
+  it('treats missing metrics as unknown instead of triggering', () => {
+    const context = createStaticContext({ 'revenue.growth': 2 });
+
+    expect(evaluate('NOT (costs.growth > 5)', context).triggered).toBe(false);
+    expect(evaluate('revenue.growth > 1 OR costs.growth > 5', context).triggered).toBe(true);
+    expect(evaluate('revenue.growth > 1 AND costs.growth > 5', context).triggered).toBe(false);
+  });
+
+  it('computes windowed functions from history', () => {
+    const now = 10 * 60 * 60 * 1000;
+    const samples = [
+      { timestamp: now - 2 * 60 * 60 * 1000, value: 1000 },
+      { timestamp: now - 30 * 60 * 1000, value: 900 },
+      { timestamp: now, value: 850 }
+    ];
+    const context: ExpressionContext = {
+      now,
+      getValue: () => 850,
+      getValueAt: (_path, timestamp) => [...samples].reverse().find(sample => sample.timestamp <= timestamp)?.value,
+      getSamples: (_path, from, to) => samples.filter(sample => sample.timestamp >= from && sample.timestamp <= to)
+    };
+
+    expect(evaluate('pct_change(revenue.total, 1h) <= -15', context)).toEqual({ triggered: true, value: -15 });
+    expect(evaluate('avg(revenue.total, 1h) == 875', context).triggered).toBe(true);
+    expect(evaluate('pct_change(revenue.total, 1d) < 0', context).triggered).toBe(false); // no sample that old
+  });
+
+  it('reports syntax errors with their position', () => {
+    expect(validateExpression('revenue.growth >')).toEqual([
+      { message: 'Unexpected end of expression', start: 16, end: 17 }
+    ]);
+    expect(validateExpression('revenue.growth > 1 > 2')[0]?.message).toMatch(/cannot be chained/);
+    expect(validateExpression('pct_change(revenue.total, 1y) < 0')[0]?.message).toMatch(/Unknown duration unit "y"/);
+  });
+
+  it('reports type, metric and function errors', () => {
+    expect(validateExpression('revenue.growth', METRICS)[0]?.message).toMatch(/must be a condition/);
+    expect(validateExpression('revenue.growht > 1', METRICS)).toEqual([
+      { message: 'Unknown metric "revenue.growht"', start: 0, end: 14 }
+    ]);
+    expect(validateExpression('avg(1, 1h) > 2', METRICS)[0]?.message).toMatch(/expects a metric name/);
+    expect(validateExpression('median(revenue.total, 1h) > 2', METRICS)[0]?.message).toMatch(/Unknown function "median"/);
+    expect(validateExpression('(revenue.growth > 1) + 2 > 3', METRICS)[0]?.message).toMatch(/expects a number, got a condition/);
+    expect(validateExpression('pct_change(revenue.total, 1h) < -10 AND costs.growth > 0', METRICS)).toEqual([]);
+  });
+
+  it('lists referenced metrics', () => {
+    const { ast } = parseExpression('pct_change(revenue.total, 1h) < revenue.growth - costs.growth');
+    expect(getReferencedMetrics(ast!).sort()).toEqual(['costs.growth', 'revenue.growth', 'revenue.total']);
+  });
+});
@@ -0,0 +1,143 @@
+import { AlertSeverity, AlertStatus, AlertType } from '../../types/alerts';
+import {
+  AlertHistoryRecord,
+  AlertHistoryStore,
+  MemoryHistoryBackend,
+  computeResponseStats,
+  searchAlertHistory,
+  toAuditCsv
+} from '../alertHistory';
+import { TrackedAlert } from '../alertLifecycle';
+
+const MINUTE = 60 * 1000;
+const start = new Date('2024-03-01T10:00:00.000Z').getTime();
+
+const alert = (id: string, overrides: Partial<TrackedAlert> = {}): TrackedAlert => ({
+  id,
+  type: AlertType.INVENTORY_LOW_STOCK,
+  severity: AlertSeverity.WARNING,
+  status: AlertStatus.ACTIVE,
+  title: 'Low Stock Alert',
+  message: '1200 items are running low on stock',
+  thresholdId: 'threshold_1',
+  triggeredAt: new Date(start).toISOString(),
+  ...overrides
+} as TrackedAlert);
+
+const record = (id: string, overrides: Partial<TrackedAlert> = {}): AlertHistoryRecord =>
+  ({ ...alert(id, overrides), updatedAt: new Date(start).toISOString() });
+
+const records: AlertHistoryRecord[] = [
+  record('a1', {
+    status: AlertStatus.RESOLVED,
+    acknowledgedAt: new Date(start + 4 * MINUTE).toISOString(),
+    acknowledgedBy: 'ana',
+    resolvedAt: new Date(start + 30 * MINUTE).toISOString()
+  }),
+  record('a2', {
+    type: AlertType.WAREHOUSE_CAPACITY,
+    severity: AlertSeverity.CRITICAL,
+    title: 'Warehouse Capacity Warning',
+    message: 'Warehouse utilization is at 97.0%',
+    triggeredAt: new Date(start + 60 * MINUTE).toISOString(),
+    status: AlertStatus.ACKNOWLEDGED,
+    acknowledgedAt: new Date(start + 70 * MINUTE).toISOString(),
+    acknowledgedBy: 'ben'
+  }),
+  record('a3', {
+    triggeredAt: new Date(start + 24 * 60 * MINUTE).toISOString(),
+    labels: { region: 'EU' }
+  })
+];
+
+describe('alertHistory', () => {
+  it('searches text across fields and counts facets with the other filters applied', () => {
+    const result = searchAlertHistory(records, { text: 'low STOCK', severities: [AlertSeverity.WARNING] });
+
+    expect(result.records.map(r => r.id)).toEqual(['a3', 'a1']);
+    expect(result.facets.severities).toEqual({ warning: 2 });
+    expect(result.facets.statuses).toEqual({ resolved: 1, active: 1 });
+    expect(searchAlertHistory(records, { text: 'region=eu' }).total).toBe(1);
+    expect(searchAlertHistory(records, { acknowledgedBy: ['ben'] }).records[0]!.id).toBe('a2');
+  });
+
+  it('filters by date range and pages results', () => {
+    const result = searchAlertHistory(records, {
+      from: new Date(start).toISOString(),
+      to: new Date(start + 2 * 60 * MINUTE).toISOString(),
+      limit: 1,
+      offset: 1
+    });
+
+    expect(result.total).toBe(2);
+    expect(result.records.map(r => r.id)).toEqual(['a1']);
+  });
+
+  it('computes mean time to acknowledge and resolve', () => {
+    expect(computeResponseStats(records)).toEqual({
+      alerts: 3,
+      acknowledged: 2,
+      resolved: 1,
+      mtta: 7 * MINUTE,
+      mttr: 30 * MINUTE
+    });
+  });
+
+  it('exports one audit row per event and escapes cells', () => {
+    const csv = toAuditCsv([record('a1', {
+      title: '=HYPERLINK("x")',
+      message: 'a, b',
+      timeline: [
+        { type: 'triggered', at: new Date(start).toISOString(), value: -5 },
+        { type: 'acknowledged', at: new Date(start + MINUTE).toISOString(), by: 'ana' }
+      ]
+    })]).split('\r\n');
+
+    expect(csv.length).toBe(3);
+    expect(csv[1]!.startsWith('a1,"\'=HYPERLINK(""x"")",inventory_low_stock,warning')).toBe(true);
+    expect(csv[1]!.endsWith(',triggered,2024-03-01T10:00:00.000Z,,-5,')).toBe(true);
+    expect(csv[2]!.endsWith(',acknowledged,2024-03-01T10:01:00.000Z,ana,,')).toBe(true);
+  });
+
+  it('keeps history across reloads and skips unchanged alerts', async () => {
+    const backend = new MemoryHistoryBackend();
+    const putMany = backend.putMany.bind(backend);
+    let writes = 0;
+    backend.putMany = async batch => {
+      writes += batch.length;
+      return putMany(batch);
+    };
+
+    const triggeredAt = new Date().toISOString();
+    const store = new AlertHistoryStore({ backend });
+    await store.load();
+    store.record([alert('a1', { triggeredAt })], () => 'Low stock');
+    store.record([alert('a1', { triggeredAt })]);
+    store.record([alert('a1', { triggeredAt, status: AlertStatus.ACKNOWLEDGED })]);
+    store.archive(['a1']);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const reloaded = new AlertHistoryStore({ backend });
+    const loaded = await reloaded.load();
+
+    expect(writes).toBe(3);
+    expect(loaded.length).toBe(1);
+    expect(loaded[0]!.status).toBe(AlertStatus.ACKNOWLEDGED);
+    expect(loaded[0]!.thresholdName).toBe('Low stock');
+    expect(loaded[0]!.archived).toBe(true);
+  });
+
+  it('drops records past the retention limits on load', async () => {
+    const backend = new MemoryHistoryBackend();
+    await backend.putMany([
+      record('old', { triggeredAt: new Date(Date.now() - 10 * MINUTE).toISOString() }),
+      record('older', { triggeredAt: new Date(Date.now() - 20 * MINUTE).toISOString() }),
+      record('expired', { triggeredAt: new Date(Date.now() - 120 * MINUTE).toISOString() })
+    ]);
+
+    const loaded = await new AlertHistoryStore({ backend, maxAge: 60 * MINUTE, maxRecords: 1 }).load();
+
+    expect(loaded.map(r => r.id)).toEqual(['old']);
+    expect((await backend.getAll()).length).toBe(1);
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  DEFAULT_LIFECYCLE_SETTINGS,
+  ThresholdLifecycleState,
+  ThresholdObservation,
+  advanceLifecycle,
+  createLifecycleState
+} from '../alertLifecycle';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Feed observations one minute apart, tracking whether an alert is open
+ */
+const run = (observations: ThresholdObservation[], settings = DEFAULT_LIFECYCLE_SETTINGS, minClearDuration = 0) => {
+  let state: ThresholdLifecycleState = createLifecycleState();
+  let open = false;
+  const actions: string[] = [];
+
+  observations.forEach((observation, index) => {
+    const step = advanceLifecycle(state, observation, open, settings, index * MINUTE, minClearDuration);
+    state = step.state;
+    if (step.action === 'open') open = true;
+    if (step.action === 'resolve') open = false;
+    actions.push(step.action);
+  });
+
+  return { actions, state, open };
+};
+
+describe('alertLifecycle', () => {
+  it('opens once and auto-resolves after consecutive clear checks', () => {
+    const { actions, open } = run(['firing', 'firing', 'clear', 'clear', 'clear']);
+
+    expect(actions).toEqual(['open', 'none', 'none', 'none', 'resolve']);
+    expect(open).toBe(false);
+  });
+
+  it('restarts the clear count inside the hysteresis band', () => {
+    const { actions } = run(['firing', 'clear', 'clear', 'hold', 'clear', 'clear', 'clear']);
+
+    expect(actions).toEqual(['open', 'none', 'none', 'none', 'none', 'none', 'resolve']);
+  });
+
+  it('counts re-triggers on the open alert', () => {
+    const { actions } = run(['firing', 'clear', 'firing', 'clear', 'clear', 'clear'], { ...DEFAULT_LIFECYCLE_SETTINGS, flapThreshold: 10 });
+
+    expect(actions).toEqual(['open', 'none', 'retrigger', 'none', 'none', 'resolve']);
+  });
+
+  it('keeps a flapping alert open instead of resolving and re-opening', () => {
+    const settings = { ...DEFAULT_LIFECYCLE_SETTINGS, clearAfterChecks: 1, flapThreshold: 3 };
+    const { actions, state, open } = run(['firing', 'clear', 'firing', 'clear', 'firing', 'clear'], settings);
+
+    expect(actions).toEqual(['open', 'resolve', 'open', 'none', 'retrigger', 'none']);
+    expect(state.flapping).toBe(true);
+    expect(open).toBe(true);
+  });
+
+  it('waits for the minimum clear time and never resolves with auto-resolve off', () => {
+    expect(run(['firing', 'clear', 'clear', 'clear'], DEFAULT_LIFECYCLE_SETTINGS, 5 * MINUTE).actions[3]).toBe('none');
+    expect(run(['firing', 'clear', 'clear', 'clear'], { ...DEFAULT_LIFECYCLE_SETTINGS, clearAfterChecks: 0 }).open).toBe(true);
+  });
+});
@@ -0,0 +1,123 @@
+import { AlertSeverity, AlertType } from '../../types/alerts';
+import { AlertRuleThreshold } from '../alertService';
+import {
+  AlertRuleSet,
+  RuleSetHistory,
+  RuleSetValidationContext,
+  diffRuleSets,
+  parseRuleSet,
+  serializeRuleSet,
+  summarizeRuleSetDiff
+} from '../alertRuleSets';
+
+const globalSettings = {
+  enableSounds: true,
+  enableToasts: true,
+  enableNotificationCenter: true,
+  maxAlertsInCenter: 50,
+  autoRefreshInterval: 30000,
+  defaultNotificationDuration: 5000
+};
+
+const context: RuleSetValidationContext = {
+  alertTypes: Object.values(AlertType),
+  defaultGlobalSettings: globalSettings,
+  validateExpression: source => (source.includes('unknown.metric')
+    ? [{ message: 'Unknown metric "unknown.metric"', start: source.indexOf('unknown.metric'), end: source.length }]
+    : []),
+  escalationPolicyIds: ['default'],
+  deliveryChannelIds: ['ops-slack']
+};
+
+const threshold = (id: string, overrides: Partial<AlertRuleThreshold> = {}): AlertRuleThreshold => ({
+  id,
+  type: AlertType.INVENTORY_LOW_STOCK,
+  name: `Threshold ${id}`,
+  description: '',
+  enabled: true,
+  conditions: [{ field: 'lowStockItems', operator: 'gt', value: 1000 }],
+  severity: AlertSeverity.WARNING,
+  notificationSettings: { showToast: true, showInCenter: true, playSound: false, persistent: false, autoResolve: false },
+  createdAt: '2024-03-01T10:00:00.000Z',
+  updatedAt: '2024-03-01T10:00:00.000Z',
+  ...overrides
+} as AlertRuleThreshold);
+
+const ruleSet = (overrides: Partial<AlertRuleSet> = {}): AlertRuleSet => ({
+  schemaVersion: 1,
+  version: 4,
+  name: 'EU rules',
+  exportedAt: '2024-03-01T10:00:00.000Z',
+  thresholds: [threshold('a'), threshold('b', { expression: 'inventory.outOfStock > 0', entityScope: 'warehouse' })],
+  globalSettings,
+  ...overrides
+});
+
+describe('alertRuleSets', () => {
+  it('reads back exported JSON and YAML', () => {
+    (['json', 'yaml'] as const).forEach(format => {
+      const { ruleSet: parsed, issues } = parseRuleSet(serializeRuleSet(ruleSet(), format), context);
+      expect(issues).toEqual([]);
+      expect(parsed).toEqual(ruleSet());
+    });
+  });
+
+  it('reports schema errors by path and unknown references as warnings', () => {
+    const text = JSON.stringify(ruleSet({
+      schemaVersion: 2,
+      thresholds: [
+        threshold('a', { severity: 'urgent' as AlertSeverity, expression: 'unknown.metric > 1' }),
+        threshold('a', { deliveryChannelIds: ['ops-slack', 'pager'] })
+      ],
+      globalSettings: { ...globalSettings, maxAlertsInCenter: '50' as unknown as number }
+    }));
+
+    const { ruleSet: parsed, issues } = parseRuleSet(text, context);
+
+    expect(parsed).toBe(undefined);
+    expect(issues.map(issue => `${issue.level} ${issue.path}`)).toEqual([
+      'error schemaVersion',
+      'error thresholds[0].severity',
+      'error thresholds[0].expression',
+      'error thresholds[1].id',
+      'warning thresholds[1].deliveryChannelIds',
+      'error globalSettings.maxAlertsInCenter'
+    ]);
+    expect(issues[2]!.message).toBe('Unknown metric "unknown.metric" (column 1)');
+    expect(parseRuleSet('thresholds: [', context).issues[0]!.message).toBe('Invalid YAML: Line 1: unterminated flow sequence');
+  });
+
+  it('diffs thresholds by id and ignores timestamps', () => {
+    const current = { thresholds: [threshold('a'), threshold('b'), threshold('c')], globalSettings };
+    const incoming = {
+      thresholds: [
+        threshold('a', { updatedAt: '2024-04-01T00:00:00.000Z' }),
+        threshold('b', { severity: AlertSeverity.CRITICAL, expression: 'inventory.lowStock > 5' }),
+        threshold('d')
+      ],
+      globalSettings: { ...globalSettings, enableSounds: false }
+    };
+
+    const diff = diffRuleSets(current, incoming);
+    expect(diff.added.map(t => t.id)).toEqual(['d']);
+    expect(diff.removed.map(t => t.id)).toEqual(['c']);
+    expect(diff.changed.map(change => [change.after.id, change.fields])).toEqual([['b', ['severity', 'expression']]]);
+    expect(diff.unchanged).toBe(1);
+    expect(diff.settings).toEqual([{ key: 'enableSounds', before: true, after: false }]);
+    expect(summarizeRuleSetDiff(diff)).toBe('1 added, 1 removed, 1 changed, 1 setting');
+    expect(summarizeRuleSetDiff(diffRuleSets(current, incoming, 'merge'))).toBe('1 added, 1 changed, 1 setting');
+  });
+
+  it('numbers versions and keeps the newest', () => {
+    const history = new RuleSetHistory({ maxVersions: 2 });
+    const entry = { name: 'Rules', source: 'saved' as const, thresholds: [threshold('a')], globalSettings };
+
+    history.add(entry);
+    history.add({ ...entry, name: 'Tuned' });
+    history.add({ ...entry, source: 'rollback' });
+
+    expect(history.getVersions().map(version => version.version)).toEqual([3, 2]);
+    expect(history.getVersion(2)!.name).toBe('Tuned');
+    expect(history.getVersion(1)).toBe(undefined);
+  });
+});
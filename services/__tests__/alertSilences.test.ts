@@ -0,0 +1,90 @@
+import { AlertSeverity, AlertType } from '../../types/alerts';
+import {
+  AlertSilence,
+  findActiveSilence,
+  getActiveWindow,
+  getNextWindow,
+  matchesSilence,
+  validateSilence
+} from '../alertSilences';
+
+// Local times, so windows keep their wall-clock time whatever the test machine's zone
+const at = (day: number, hour: number, minute = 0) => new Date(2024, 2, day, hour, minute).getTime();
+
+const silence = (overrides: Partial<AlertSilence> = {}): AlertSilence => ({
+  id: 'silence_1',
+  name: 'Nightly migration',
+  createdAt: new Date(at(1, 0)).toISOString(),
+  enabled: true,
+  matcher: {},
+  start: new Date(at(4, 22)).toISOString(), // Monday 4 March 2024
+  end: new Date(at(5, 2)).toISOString(),
+  ...overrides
+});
+
+describe('alertSilences', () => {
+  it('matches alerts by type, severity, region and labels', () => {
+    const target = {
+      type: AlertType.WAREHOUSE_CAPACITY,
+      severity: AlertSeverity.WARNING,
+      labels: { region: 'EU', team: 'warehouse' }
+    };
+
+    expect(matchesSilence({}, target)).toBe(true);
+    expect(matchesSilence({ types: [AlertType.WAREHOUSE_CAPACITY, AlertType.INVENTORY_LOW_STOCK] }, target)).toBe(true);
+    expect(matchesSilence({ types: [AlertType.WAREHOUSE_CAPACITY], severities: [AlertSeverity.CRITICAL] }, target)).toBe(false);
+    expect(matchesSilence({ regions: ['EU', 'UK'], labels: { team: 'warehouse' } }, target)).toBe(true);
+    expect(matchesSilence({ regions: ['US'] }, target)).toBe(false);
+    expect(matchesSilence({ labels: { team: 'finance' } }, { ...target, labels: undefined })).toBe(false);
+  });
+
+  it('is active only inside a one-off window', () => {
+    expect(getActiveWindow(silence(), at(4, 21, 59))).toBe(null);
+    expect(getActiveWindow(silence(), at(5, 1))).toEqual({ start: at(4, 22), end: at(5, 2) });
+    expect(getActiveWindow(silence(), at(5, 2))).toBe(null);
+    expect(getNextWindow(silence(), at(5, 2))).toBe(null);
+  });
+
+  it('repeats daily windows across midnight until the end date', () => {
+    const nightly = silence({ recurrence: { frequency: 'daily', until: new Date(at(8, 0)).toISOString() } });
+
+    expect(getActiveWindow(nightly, at(7, 1, 30))).toEqual({ start: at(6, 22), end: at(7, 2) });
+    expect(getActiveWindow(nightly, at(7, 12))).toBe(null);
+    expect(getNextWindow(nightly, at(7, 12))).toEqual({ start: at(7, 22), end: at(8, 2) });
+    expect(getActiveWindow(nightly, at(8, 23))).toBe(null);
+  });
+
+  it('repeats weekly windows on the chosen days', () => {
+    // Monday and Thursday inventory counts, 08:00-12:00
+    const counts = silence({
+      start: new Date(at(4, 8)).toISOString(),
+      end: new Date(at(4, 12)).toISOString(),
+      recurrence: { frequency: 'weekly', daysOfWeek: [1, 4] }
+    });
+
+    expect(getActiveWindow(counts, at(7, 9)) !== null).toBe(true);
+    expect(getActiveWindow(counts, at(8, 9))).toBe(null);
+    expect(getActiveWindow(counts, at(11, 11, 59)) !== null).toBe(true);
+    expect(getNextWindow(counts, at(8, 9))).toEqual({ start: at(11, 8), end: at(11, 12) });
+  });
+
+  it('finds the first enabled silence that matches now', () => {
+    const silences = [
+      silence({ id: 'disabled', enabled: false }),
+      silence({ id: 'capacity', matcher: { types: [AlertType.WAREHOUSE_CAPACITY] } })
+    ];
+    const target = { type: AlertType.WAREHOUSE_CAPACITY, severity: AlertSeverity.ERROR };
+
+    expect(findActiveSilence(silences, target, at(4, 23))?.id).toBe('capacity');
+    expect(findActiveSilence(silences, { ...target, type: AlertType.INVENTORY_LOW_STOCK }, at(4, 23))).toBe(null);
+  });
+
+  it('rejects windows that overlap their own repeats', () => {
+    expect(validateSilence(silence())).toEqual([]);
+    expect(validateSilence(silence({ end: silence().start }))).toEqual(['End must be after start']);
+    expect(validateSilence(silence({
+      end: new Date(at(5, 23)).toISOString(),
+      recurrence: { frequency: 'daily' }
+    }))).toEqual(['Daily windows must be shorter than a day']);
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  AnomalySettings,
+  DEFAULT_ANOMALY_SETTINGS,
+  MetricHistory,
+  detectAnomaly,
+  selectBaseline
+} from '../anomalyDetection';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+const settings = (overrides: Partial<AnomalySettings> = {}): AnomalySettings => ({
+  ...DEFAULT_ANOMALY_SETTINGS,
+  ...overrides
+});
+
+describe('anomalyDetection', () => {
+  it('flags a drop that a static floor would miss', () => {
+    const baseline = [1000, 980, 1030, 1010, 990];
+
+    expect(detectAnomaly(baseline, 600, settings()).isAnomaly).toBe(true);
+    expect(detectAnomaly(baseline, 1005, settings()).isAnomaly).toBe(false);
+  });
+
+  it('scores with each method and respects direction', () => {
+    const baseline = [100, 102, 98, 101, 99, 100];
+
+    (['zscore', 'mad', 'ewma'] as const).forEach(method => {
+      const drop = detectAnomaly(baseline, 80, settings({ method }));
+      expect(drop.isAnomaly).toBe(true);
+      expect(drop.score < 0).toBe(true);
+    });
+
+    expect(detectAnomaly(baseline, 80, settings({ direction: 'spike' })).isAnomaly).toBe(false);
+    expect(detectAnomaly(baseline, 120, settings({ direction: 'spike' })).isAnomaly).toBe(true);
+  });
+
+  it('is less sensitive to past outliers with MAD than with z-score', () => {
+    const baseline = [100, 101, 99, 100, 500];
+
+    expect(detectAnomaly(baseline, 130, settings({ method: 'mad' })).isAnomaly).toBe(true);
+    expect(detectAnomaly(baseline, 130, settings({ method: 'zscore' })).isAnomaly).toBe(false);
+  });
+
+  it('does not flag anything without enough history', () => {
+    const result = detectAnomaly([1000, 1000], 10, settings({ minSamples: 3 }));
+
+    expect(result.isAnomaly).toBe(false);
+    expect(result.reason).toMatch(/Not enough history/);
+  });
+
+  it('selects seasonal baselines from earlier buckets only', () => {
+    const now = 10 * WEEK + 9 * HOUR + 15 * 60 * 1000;
+    const current = 10 * WEEK + 9 * HOUR;
+    const buckets = [
+      current - 2 * WEEK,
+      current - WEEK,
+      current - 2 * DAY,
+      current - DAY,
+      current - HOUR,
+      current
+    ].map(start => ({ start, sum: start, count: 1 }));
+
+    expect(selectBaseline(buckets, now, 'day-of-week').map(b => b.start)).toEqual([current - 2 * WEEK, current - WEEK]);
+    expect(selectBaseline(buckets, now, 'hour-of-day').map(b => b.start))
+      .toEqual([current - 2 * WEEK, current - WEEK, current - 2 * DAY, current - DAY]);
+    expect(selectBaseline(buckets, now, 'none').length).toBe(5);
+  });
+
+  it('averages values per bucket and drops expired history', () => {
+    const history = new MetricHistory({ bucketSize: HOUR, retention: 2 * HOUR });
+
+    expect(history.record({ revenue: 100 }, 0)).toBe(true);
+    expect(history.record({ revenue: 200 }, 30 * 60 * 1000)).toBe(false);
+    history.record({ revenue: 50 }, HOUR);
+
+    expect(history.getBaseline('revenue', 2 * HOUR, 'none')).toEqual([150, 50]);
+
+    history.record({ revenue: 75 }, 3 * HOUR);
+    expect(history.getBuckets('revenue').map(bucket => bucket.start)).toEqual([HOUR, 3 * HOUR]);
+  });
+});
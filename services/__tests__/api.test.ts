@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+import { TimePeriod } from '../../types';
+import { apiService, isAbortError } from '../api';
+import { configService } from '../configService';
+import { dataCacheService } from '../dataCacheService';
+import { DataSourceAdapter, DataSourceRequest } from '../dataSourceAdapters';
+import { tabCoordinator } from '../tabCoordinator';
+
+interface PendingRequest {
+  request: DataSourceRequest;
+  resolve: (data: unknown) => void;
+}
+
+/**
+ * Data source whose requests stay pending until the test resolves them
+ */
+const createDeferredSource = () => {
+  const pending: PendingRequest[] = [];
+  const adapter: DataSourceAdapter = {
+    name: 'deferred',
+    kind: 'rest',
+    request: <T>(request: DataSourceRequest) => new Promise((resolve, reject) => {
+      request.options.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      pending.push({
+        request,
+        resolve: data => resolve({ data: data as T, success: true, message: 'Success', timestamp: '' })
+      });
+    })
+  };
+  return { adapter, pending };
+};
+
+const filtersFor = (region: string) => ({
+  dateRange: { start: new Date('2024-01-01T00:00:00Z'), end: new Date('2024-01-31T00:00:00Z') },
+  regions: [region],
+  categories: [],
+  businessUnits: [],
+  timePeriod: TimePeriod.MONTHLY
+});
+
+// Let the request pipeline reach the data source
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('apiService request coalescing and cancellation', () => {
+  let source: ReturnType<typeof createDeferredSource>;
+
+  beforeAll(() => {
+    jest.spyOn(configService, 'simulateDelays', 'get').mockReturnValue(false);
+    jest.spyOn(configService, 'errorSimulationRate', 'get').mockReturnValue(0);
+  });
+
+  beforeEach(() => {
+    source = createDeferredSource();
+    apiService.registerDataSource(source.adapter);
+    apiService.setDataSourceRoute('/metrics', 'deferred');
+  });
+
+  afterEach(() => {
+    apiService.cancelAllRequests();
+    apiService.clearDataSourceRoute('/metrics');
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+    dataCacheService.destroy();
+    tabCoordinator.stop();
+  });
+
+  it('shares one fetch between concurrent identical GETs', async () => {
+    const first = apiService.getBusinessMetrics(filtersFor('EMEA'), false);
+    const second = apiService.getBusinessMetrics(filtersFor('EMEA'), false);
+    await settle();
+
+    expect(source.pending).toHaveLength(1);
+    expect(apiService.getInFlightCount()).toBe(1);
+
+    source.pending[0]!.resolve({ revenue: { total: 10 } });
+    await expect(first).resolves.toEqual({ revenue: { total: 10 } });
+    await expect(second).resolves.toEqual({ revenue: { total: 10 } });
+    expect(apiService.getInFlightCount()).toBe(0);
+  });
+
+  it('keeps a shared request alive until every caller has aborted', async () => {
+    const firstCaller = new AbortController();
+    const secondCaller = new AbortController();
+    const first = apiService.getBusinessMetrics(filtersFor('EMEA'), false, firstCaller.signal);
+    const second = apiService.getBusinessMetrics(filtersFor('EMEA'), false, secondCaller.signal);
+    await settle();
+
+    const upstream = source.pending[0]!.request.options.signal!;
+    firstCaller.abort();
+    await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+    expect(upstream.aborted).toBe(false);
+
+    const third = apiService.getBusinessMetrics(filtersFor('EMEA'), false);
+    source.pending[0]!.resolve({ revenue: { total: 20 } });
+    await expect(second).resolves.toEqual({ revenue: { total: 20 } });
+    await expect(third).resolves.toEqual({ revenue: { total: 20 } });
+    expect(source.pending).toHaveLength(1);
+
+    const lastCaller = new AbortController();
+    const last = apiService.getBusinessMetrics(filtersFor('NA'), false, lastCaller.signal);
+    await settle();
+    lastCaller.abort();
+    await expect(last).rejects.toMatchObject({ name: 'AbortError' });
+    expect(source.pending[1]!.request.options.signal!.aborted).toBe(true);
+    expect(apiService.getInFlightCount()).toBe(0);
+  });
+
+  it('cancels only the requests of the cancelled scope', async () => {
+    const overview = apiService.getBusinessMetrics(filtersFor('EMEA'), false, apiService.beginRequestScope('overview'));
+    const revenue = apiService.getBusinessMetrics(filtersFor('NA'), false, apiService.beginRequestScope('revenue'));
+    await settle();
+
+    apiService.cancelRequestScope('overview');
+    await expect(overview).rejects.toMatchObject({ name: 'AbortError' });
+    expect(source.pending[0]!.request.options.signal!.aborted).toBe(true);
+    expect(source.pending[1]!.request.options.signal!.aborted).toBe(false);
+
+    source.pending[1]!.resolve({ revenue: { total: 30 } });
+    await expect(revenue).resolves.toEqual({ revenue: { total: 30 } });
+  });
+
+  it('aborts the previous request of a scope when it begins again', async () => {
+    const stale = apiService.getBusinessMetrics(filtersFor('EMEA'), false, apiService.beginRequestScope('overview'));
+    const staleResult = stale.catch(error => error);
+    const current = apiService.getBusinessMetrics(filtersFor('APAC'), false, apiService.beginRequestScope('overview'));
+    await settle();
+
+    expect(isAbortError(await staleResult)).toBe(true);
+    source.pending[source.pending.length - 1]!.resolve({ revenue: { total: 40 } });
+    await expect(current).resolves.toEqual({ revenue: { total: 40 } });
+  });
+});
@@ -0,0 +1,136 @@
+import { CircuitBreaker, isCircuitOpenError, circuitBreakerRegistry } from '../circuitBreaker';
+import { autoRefreshService, getBackoffDelay, RefreshConfig } from '../autoRefreshService';
+import { apiService } from '../api';
+import { dataCacheService } from '../dataCacheService';
+import { tabCoordinator } from '../tabCoordinator';
+
+const config = { failureThreshold: 2, resetTimeout: 1000, halfOpenMaxCalls: 1 };
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('opens after consecutive failures and allows a trial once the reset timeout passes', () => {
+    const breaker = new CircuitBreaker('/metrics', config);
+
+    breaker.recordFailure(new Error('boom'));
+    expect(breaker.getState()).toBe('closed');
+    breaker.recordFailure(new Error('boom'));
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+
+    jest.advanceTimersByTime(1000);
+
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.canRequest()).toBe(false); // only one trial call
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('reopens when the half-open trial fails', () => {
+    const breaker = new CircuitBreaker('/revenue', config);
+    breaker.recordFailure();
+    breaker.recordFailure();
+    jest.advanceTimersByTime(1000);
+
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getRetryAt()).toBe(Date.now() + 1000);
+  });
+
+  it('rejects requests with a circuit open error while open', async () => {
+    circuitBreakerRegistry.updateConfig(config);
+    const failing = jest.fn().mockRejectedValue(new Error('down'));
+
+    await expect(circuitBreakerRegistry.execute('/inventory', failing)).rejects.toThrow('down');
+    await expect(circuitBreakerRegistry.execute('/inventory', failing)).rejects.toThrow('down');
+
+    const error = await circuitBreakerRegistry.execute('/inventory', failing).catch(e => e);
+    expect(isCircuitOpenError(error)).toBe(true);
+    expect(failing).toHaveBeenCalledTimes(2);
+
+    circuitBreakerRegistry.reset();
+  });
+});
+
+describe('getBackoffDelay', () => {
+  const refreshConfig = {
+    retryDelay: 1000,
+    backoffMultiplier: 2,
+    maxRetryDelay: 10000,
+    jitter: 0.5
+  } as RefreshConfig;
+
+  it('grows exponentially up to the max delay', () => {
+    const noJitter = { ...refreshConfig, jitter: 0 };
+
+    expect(getBackoffDelay(noJitter, 1)).toBe(1000);
+    expect(getBackoffDelay(noJitter, 3)).toBe(4000);
+    expect(getBackoffDelay(noJitter, 10)).toBe(10000);
+  });
+
+  it('randomizes within the jitter fraction', () => {
+    expect(getBackoffDelay(refreshConfig, 2, () => 0)).toBe(1000);
+    expect(getBackoffDelay(refreshConfig, 2, () => 1)).toBe(2000);
+  });
+});
+
+describe('autoRefreshService circuit handling', () => {
+  beforeAll(() => {
+    // Run standalone so this tab leads and scheduled runs aren't skipped
+    tabCoordinator.stop();
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    circuitBreakerRegistry.updateConfig(config);
+  });
+
+  afterEach(() => {
+    autoRefreshService.removeJob('customers');
+    circuitBreakerRegistry.reset();
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    dataCacheService.destroy();
+  });
+
+  it('pauses the customers job while the /customers circuit is open', async () => {
+    const fetchCustomers = jest.spyOn(apiService, 'getCustomerMetrics').mockResolvedValue({ labels: [], datasets: [] });
+    const breaker = circuitBreakerRegistry.get('/customers');
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    autoRefreshService.createJob('customers', 'customers', { interval: 60 * 60 * 1000 });
+    await autoRefreshService.refreshNow('customers');
+
+    const job = autoRefreshService.getJob('customers')!;
+    expect(job.status).toBe('paused');
+    expect(job.pausedUntil).toBe(breaker.getRetryAt());
+    expect(fetchCustomers).not.toHaveBeenCalled();
+
+    const resumed = new Promise<boolean>(resolve => {
+      const unsubscribe = autoRefreshService.onRefresh((_job, success) => {
+        unsubscribe();
+        resolve(success);
+      });
+    });
+    circuitBreakerRegistry.reset('/customers');
+
+    expect(await resumed).toBe(true);
+    expect(fetchCustomers).toHaveBeenCalledTimes(1);
+    expect(job.status).toBe('idle');
+    expect(job.pausedUntil).toBeUndefined();
+  });
+});
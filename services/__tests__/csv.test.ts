@@ -0,0 +1,24 @@
+import { toCsvCell } from '../csv';
+
+describe('toCsvCell', () => {
+  it('quotes cells containing quotes, line breaks or the delimiter', () => {
+    expect(toCsvCell('plain')).toBe('plain');
+    expect(toCsvCell('North, "East"')).toBe('"North, ""East"""');
+    expect(toCsvCell('line\rbreak')).toBe('"line\rbreak"');
+    expect(toCsvCell('a;b', { delimiter: ';' })).toBe('"a;b"');
+    expect(toCsvCell('a,b', { delimiter: ';' })).toBe('a,b');
+  });
+
+  it('keeps text that looks like a formula from being evaluated', () => {
+    expect(['=SUM(A1)', '+1', '-cmd', '@A1', '\tx'].map(value => toCsvCell(value)))
+      .toEqual(["'=SUM(A1)", "'+1", "'-cmd", "'@A1", "'\tx"]);
+    expect(toCsvCell(-5)).toBe('-5');
+  });
+
+  it('formats empty values, numbers and dates', () => {
+    expect([undefined, null, NaN].map(value => toCsvCell(value))).toEqual(['', '', '']);
+    expect(toCsvCell(1234.5, { delimiter: ';', decimal: ',' })).toBe('1234,5');
+    expect(toCsvCell(new Date('2024-02-01T00:00:00Z'))).toBe('2024-02-01T00:00:00.000Z');
+    expect(toCsvCell(true)).toBe('true');
+  });
+});
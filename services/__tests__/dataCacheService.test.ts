@@ -0,0 +1,161 @@
+/**
+ * @jest-environment node
+ */
+import { TimePeriod } from '../../types';
+import { CacheInvalidationEvent, dataCacheService } from '../dataCacheService';
+import { TabMessage, tabCoordinator } from '../tabCoordinator';
+
+afterAll(() => {
+  dataCacheService.destroy();
+  tabCoordinator.stop();
+});
+
+describe('dataCacheService stale-while-revalidate', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    dataCacheService.clear();
+    dataCacheService.updateConfig({ staleWhileRevalidate: true, maxStaleAge: 60000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('serves expired entries as stale and revalidates them in the background', async () => {
+    const listener = jest.fn();
+    const revalidate = jest.fn().mockResolvedValue({ value: 2 });
+
+    dataCacheService.set('metrics', { value: 1 }, 1000);
+    dataCacheService.subscribe('metrics', listener);
+    jest.advanceTimersByTime(1500);
+
+    expect(dataCacheService.isStale('metrics')).toBe(true);
+    expect(dataCacheService.get('metrics', revalidate)).toEqual({ value: 1 });
+    expect(dataCacheService.get('metrics', revalidate)).toEqual({ value: 1 });
+    expect(revalidate).toHaveBeenCalledTimes(1);
+
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+      key: 'metrics',
+      data: { value: 2 },
+      revalidated: true
+    }));
+    expect(dataCacheService.get('metrics')).toEqual({ value: 2 });
+    expect(dataCacheService.getStats()).toEqual(expect.objectContaining({
+      staleHits: 2,
+      revalidations: 1,
+      revalidationFailures: 0
+    }));
+  });
+
+  it('treats expired entries as misses without a revalidator', () => {
+    dataCacheService.set('revenue', { value: 1 }, 1000);
+    jest.advanceTimersByTime(1500);
+
+    expect(dataCacheService.get('revenue')).toBeNull();
+  });
+
+  it('stops serving stale data past the max stale age', () => {
+    const revalidate = jest.fn().mockResolvedValue({ value: 2 });
+    dataCacheService.set('inventory', { value: 1 }, 1000);
+    jest.advanceTimersByTime(1000 + 60000);
+
+    expect(dataCacheService.get('inventory', revalidate)).toBeNull();
+    expect(revalidate).not.toHaveBeenCalled();
+  });
+});
+
+describe('dataCacheService domain invalidation', () => {
+  const seed = () => {
+    dataCacheService.cacheBusinessMetrics({ revenue: 1 } as any);
+    dataCacheService.cacheRevenueData({ labels: [], datasets: [] }, TimePeriod.MONTHLY);
+    dataCacheService.cacheInventoryData({ labels: [], datasets: [] });
+    dataCacheService.cacheCustomerData({ labels: [], datasets: [] });
+    dataCacheService.set('financial', { margin: 0.2 }, undefined, dataCacheService.buildTags('financial'));
+  };
+
+  const cachedDomains = () => ({
+    metrics: dataCacheService.getCachedBusinessMetrics() !== null,
+    revenue: dataCacheService.getCachedRevenueData(TimePeriod.MONTHLY) !== null,
+    inventory: dataCacheService.getCachedInventoryData() !== null,
+    customers: dataCacheService.getCachedCustomerData() !== null,
+    financial: dataCacheService.get('financial') !== null
+  });
+
+  beforeEach(() => {
+    dataCacheService.clear();
+    seed();
+  });
+
+  it('drops the domains derived from revenue and nothing else', () => {
+    expect(dataCacheService.invalidateDomain('revenue', { reason: 'POST /revenue' })).toBe(3);
+
+    expect(cachedDomains()).toEqual({
+      metrics: false,
+      revenue: false,
+      inventory: true,
+      customers: true,
+      financial: false
+    });
+  });
+
+  it('only follows dependencies when cascading', () => {
+    expect(dataCacheService.invalidateByTags(['domain:revenue'], { cascade: false })).toBe(1);
+    expect(cachedDomains()).toEqual({
+      metrics: true,
+      revenue: false,
+      inventory: true,
+      customers: true,
+      financial: true
+    });
+
+    expect(dataCacheService.invalidateDomain('metrics')).toBe(1);
+    expect(cachedDomains().inventory).toBe(true);
+  });
+
+  it('shares invalidations with other tabs and applies theirs', async () => {
+    const peer = new BroadcastChannel('sap-dashboard-tabs');
+    const next = <T>(predicate: (message: TabMessage<T>) => boolean) => new Promise<TabMessage<T>>(resolve => {
+      const listener = (event: MessageEvent<TabMessage<T>>) => {
+        if (predicate(event.data)) {
+          peer.removeEventListener('message', listener);
+          resolve(event.data);
+        }
+      };
+      peer.addEventListener('message', listener);
+    });
+
+    try {
+      const shared = next<{ keys: string[]; reason?: string }>(message => message.type === 'cache-invalidation');
+      dataCacheService.invalidateDomain('inventory', { reason: 'POST /inventory' });
+      const { payload } = await shared;
+      expect(payload!.reason).toBe('POST /inventory');
+      expect(payload!.keys).toHaveLength(2);
+      expect(payload!.keys).toContain(dataCacheService.getBusinessMetricsKey());
+
+      const applied = new Promise<CacheInvalidationEvent>(resolve => {
+        const unsubscribe = dataCacheService.onInvalidate(event => {
+          unsubscribe();
+          resolve(event);
+        });
+      });
+      const historyLength = dataCacheService.getInvalidationHistory().length;
+      peer.postMessage({
+        type: 'cache-invalidation',
+        from: 'peer-tab',
+        term: 0,
+        payload: { keys: ['financial', 'not-cached'], reason: 'Updated elsewhere' },
+        timestamp: Date.now()
+      });
+
+      expect(await applied).toEqual(expect.objectContaining({ keys: ['financial'], reason: 'Updated elsewhere' }));
+      expect(dataCacheService.get('financial')).toBeNull();
+      expect(cachedDomains()).toEqual(expect.objectContaining({ revenue: true, customers: true }));
+      expect(dataCacheService.getInvalidationHistory()).toHaveLength(historyLength + 1);
+    } finally {
+      peer.close();
+    }
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+import * as XLSX from 'xlsx';
+import { exportDataAs, getCsvDelimiter, toCsv, toExportRecords, toNdjson } from '../dataExport';
+import { DataExportFormat } from '../exportFormats';
+import { inferParquetType } from '../parquetWriter';
+
+const generatedAt = new Date('2024-03-01T10:30:00Z');
+
+const rows = [
+  { region: 'EMEA', revenue: 1234.5, orders: 12, active: true, owner: { name: 'Ana' }, updated: new Date('2024-02-01T00:00:00Z') },
+  { region: 'North, "East"', revenue: null, orders: 3, active: false, owner: { name: '=cmd' }, updated: new Date('2024-02-02T00:00:00Z') }
+];
+
+const chart = {
+  labels: ['Jan', 'Feb'],
+  datasets: [{ label: 'Revenue', data: [{ x: 'Jan', y: 10 }, { x: 'Feb', y: 20 }] }]
+};
+
+describe('dataExport', () => {
+  it('writes CSV with locale-aware delimiters and quoting', () => {
+    expect(getCsvDelimiter('en-US')).toBe(',');
+    expect(getCsvDelimiter('de-DE')).toBe(';');
+
+    expect(toCsv(rows, { locale: 'en-US' })).toBe([
+      'region,revenue,orders,active,owner.name,updated',
+      'EMEA,1234.5,12,true,Ana,2024-02-01T00:00:00.000Z',
+      '"North, ""East""",,3,false,\'=cmd,2024-02-02T00:00:00.000Z'
+    ].join('\r\n'));
+
+    expect(toCsv(rows, { locale: 'de-DE' }).split('\r\n')[1]).toBe('EMEA;1234,5;12;true;Ana;2024-02-01T00:00:00.000Z');
+    expect(toCsv(rows, { locale: 'de-DE', delimiter: '\t' }).split('\r\n')[0]).toBe('region\trevenue\torders\tactive\towner.name\tupdated');
+  });
+
+  it('flattens chart data into long rows and writes JSON lines', () => {
+    expect(toExportRecords(chart)).toEqual([
+      { series: 'Revenue', label: 'Jan', value: 10 },
+      { series: 'Revenue', label: 'Feb', value: 20 }
+    ]);
+    expect(toExportRecords({ labels: ['Jan', 'Feb'], datasets: [{ label: 'Orders', data: [10, 20] }] })).toEqual([
+      { series: 'Orders', label: 'Jan', value: 10 },
+      { series: 'Orders', label: 'Feb', value: 20 }
+    ]);
+    expect(toNdjson(chart)).toBe('{"series":"Revenue","label":"Jan","value":10}\n{"series":"Revenue","label":"Feb","value":20}\n');
+
+    const file = exportDataAs(rows, DataExportFormat.CSV, { title: 'Regional Revenue', generatedAt, locale: 'en-US' });
+    expect(file.filename).toBe('regional-revenue-2024-03-01.csv');
+    expect(Array.from(file.bytes.slice(0, 3))).toEqual([0xef, 0xbb, 0xbf]);
+  });
+
+  it('writes a Parquet file with typed columns', () => {
+    expect(inferParquetType([1, 2, null])).toBe('int64');
+    expect(inferParquetType([1.5, 2])).toBe('double');
+    expect(inferParquetType([new Date()])).toBe('timestamp');
+    expect(inferParquetType(['a', 1])).toBe('string');
+
+    const file = exportDataAs(rows, DataExportFormat.PARQUET, { filename: 'revenue.parquet' });
+    const bytes = Buffer.from(file.bytes);
+    expect(file.filename).toBe('revenue.parquet');
+    expect(bytes.subarray(0, 4).toString('latin1')).toBe('PAR1');
+    expect(bytes.subarray(bytes.length - 4).toString('latin1')).toBe('PAR1');
+
+    const footerLength = bytes.readUInt32LE(bytes.length - 8);
+    const footer = bytes.subarray(bytes.length - 8 - footerLength, bytes.length - 8).toString('latin1');
+    expect(footer).toContain('owner.name');
+    expect(() => exportDataAs([], DataExportFormat.PARQUET)).toThrow('No data to export');
+  });
+
+  it('builds a PowerPoint deck with one slide per widget', () => {
+    const file = exportDataAs({ title: 'Sales', trend: chart, orders: rows, region: 'EMEA' }, DataExportFormat.PPTX, { generatedAt });
+    expect(file.filename).toBe('sales-2024-03-01.pptx');
+
+    const zip = XLSX.CFB.read(file.bytes, { type: 'array' });
+    const entries = new Map<string, Uint8Array>((zip.FullPaths as string[])
+      .map((path, i) => [path.replace(/^Root Entry\//, ''), zip.FileIndex[i].content]));
+    const slides = Array.from(entries.keys()).filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name));
+    // Title slide, chart, orders table and details
+    expect(slides).toHaveLength(4);
+    expect(Buffer.from(entries.get('ppt/slides/slide1.xml')!).toString('utf8')).toContain('Sales');
+    expect(entries.has('ppt/charts/chart1.xml')).toBe(true);
+  });
+});
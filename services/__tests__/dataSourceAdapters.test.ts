@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ */
+import { TimePeriod } from '../../types';
+import { apiService } from '../api';
+import { dataCacheService } from '../dataCacheService';
+import { ODataClient } from '../odataClient';
+import {
+  MockDataSourceAdapter,
+  ODataDataSourceAdapter,
+  RestDataSourceAdapter,
+  StaticJsonDataSourceAdapter,
+  DataSourceDefinition,
+  createDataSourceAdapter,
+  filtersFromParams,
+  parseEndpoint
+} from '../dataSourceAdapters';
+import { tabCoordinator } from '../tabCoordinator';
+
+describe('dataSourceAdapters', () => {
+  it('creates an adapter for each configured kind', () => {
+    const definitions: DataSourceDefinition[] = [
+      { name: 'demo', kind: 'mock' },
+      { name: 'backend', kind: 'rest', baseUrl: 'https://api.example.com' },
+      { name: 'sap', kind: 'sap-odata', serviceUrl: 'https://sap.example.com/ZSALES_SRV', entitySets: { '/revenue': 'RevenueSet' } },
+      { name: 'fixtures', kind: 'static-json', fixtures: {} }
+    ];
+
+    const adapters = definitions.map(createDataSourceAdapter);
+    expect(adapters[0]).toBeInstanceOf(MockDataSourceAdapter);
+    expect(adapters[1]).toBeInstanceOf(RestDataSourceAdapter);
+    expect(adapters[2]).toBeInstanceOf(ODataDataSourceAdapter);
+    expect(adapters[3]).toBeInstanceOf(StaticJsonDataSourceAdapter);
+    expect(adapters.map(adapter => `${adapter.name}:${adapter.kind}`)).toEqual([
+      'demo:mock',
+      'backend:rest',
+      'sap:sap-odata',
+      'fixtures:static-json'
+    ]);
+
+    expect(() => createDataSourceAdapter({ name: 'ftp', kind: 'ftp' } as unknown as DataSourceDefinition))
+      .toThrow('Unknown data source kind: ftp');
+  });
+
+  it('serves inline static fixtures by endpoint path', async () => {
+    const adapter = createDataSourceAdapter({ name: 'fixtures', kind: 'static-json', fixtures: { '/revenue': { total: 42 } } });
+    const { path, params } = parseEndpoint('/revenue?period=monthly');
+
+    const response = await adapter.request({ endpoint: '/revenue?period=monthly', path, params, options: {} });
+    expect(response.data).toEqual({ total: 42 });
+    await expect(adapter.request({ endpoint: '/inventory', path: '/inventory', params, options: {} }))
+      .rejects.toThrow('No fixture found for endpoint: /inventory');
+  });
+
+  it('rejects OData metrics that a partial mapping leaves incomplete', async () => {
+    const query = jest.spyOn(ODataClient.prototype, 'queryWithFilters').mockResolvedValue([
+      { NetRevenue: 1200, BudgetVariance: 4, ForecastVariance: -2, PreviousPeriodVariance: 6 }
+    ]);
+    const adapter = new ODataDataSourceAdapter({
+      name: 'sap',
+      serviceUrl: 'https://sap.example.com/ZSALES_SRV',
+      entitySets: {
+        '/metrics': { entitySet: 'KpiSet', mapTo: 'business-metrics', metricMapping: { 'revenue.total': 'NetRevenue' } },
+        '/financial': { entitySet: 'VarianceSet', mapTo: 'financial-metrics' }
+      }
+    });
+    const params = new URLSearchParams();
+
+    await expect(adapter.request({ endpoint: '/metrics', path: '/metrics', params, options: {} }))
+      .rejects.toThrow('OData entity set KpiSet is missing metric fields: revenue.growth, costs.operational');
+    const response = await adapter.request({ endpoint: '/financial', path: '/financial', params, options: {} });
+    expect(response.data).toEqual({ variance: { budget: 4, forecast: -2, previousPeriod: 6 } });
+
+    query.mockRestore();
+  });
+
+  it('rebuilds filter criteria from query parameters', () => {
+    const { params } = parseEndpoint(
+      '/metrics?startDate=2024-01-01T00:00:00.000Z&endDate=2024-01-31T00:00:00.000Z&regions=EMEA,NA&categories=&timePeriod=weekly'
+    );
+
+    expect(filtersFromParams(params)).toEqual({
+      dateRange: { start: new Date('2024-01-01T00:00:00.000Z'), end: new Date('2024-01-31T00:00:00.000Z') },
+      regions: ['EMEA', 'NA'],
+      categories: [],
+      businessUnits: [],
+      timePeriod: TimePeriod.WEEKLY
+    });
+    expect(filtersFromParams(new URLSearchParams('startDate=2024-01-01&endDate=2024-01-31&period=fortnightly'))!.timePeriod)
+      .toBe(TimePeriod.MONTHLY);
+    expect(filtersFromParams(new URLSearchParams('startDate=2024-01-01'))).toBeUndefined();
+  });
+
+  describe('ApiService routing', () => {
+    const routes = ['/customers', '/customers/detailed', '/inv'];
+
+    beforeAll(() => {
+      apiService.registerDataSource(new StaticJsonDataSourceAdapter({ name: 'crm' }));
+      apiService.registerDataSource(new StaticJsonDataSourceAdapter({ name: 'warehouse' }));
+    });
+
+    afterEach(() => routes.forEach(route => apiService.clearDataSourceRoute(route)));
+
+    afterAll(() => {
+      dataCacheService.destroy();
+      tabCoordinator.stop();
+    });
+
+    it('routes endpoints to the longest matching prefix', () => {
+      apiService.setDataSourceRoute('/customers', 'crm');
+      apiService.setDataSourceRoute('/customers/detailed', 'warehouse');
+
+      expect(apiService.getDataSourceFor('/customers?segment=smb').name).toBe('crm');
+      expect(apiService.getDataSourceFor('/customers/segments').name).toBe('crm');
+      expect(apiService.getDataSourceFor('/customers/detailed').name).toBe('warehouse');
+      expect(apiService.getDataSourceFor('/customers/detailed/123').name).toBe('warehouse');
+    });
+
+    it('only matches whole path segments and falls back to the default source', () => {
+      apiService.setDataSourceRoute('/inv', 'warehouse');
+      const fallback = apiService.getDataSourceFor('/metrics').name;
+
+      expect(apiService.getDataSourceFor('/inv/items').name).toBe('warehouse');
+      expect(apiService.getDataSourceFor('/inventory').name).toBe(fallback);
+
+      apiService.clearDataSourceRoute('/inv');
+      expect(apiService.getDataSourceFor('/inv/items').name).toBe(fallback);
+      expect(() => apiService.setDataSourceRoute('/inv', 'missing')).toThrow('Data source not registered: missing');
+    });
+  });
+});
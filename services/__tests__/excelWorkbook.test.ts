@@ -0,0 +1,104 @@
+/**
+ * @jest-environment node
+ */
+import * as XLSX from 'xlsx';
+import { ALERT_LEVEL_CONFIG } from '../../constants';
+import { AlertLevel, TimePeriod } from '../../types';
+import { renderDashboardWorkbook } from '../excelWorkbook';
+
+const generatedAt = new Date('2024-03-01T10:30:00Z');
+
+const data = {
+  filters: {
+    dateRange: { start: '2024-01-01T00:00:00.000Z', end: '2024-03-31T00:00:00.000Z' },
+    regions: ['EMEA'],
+    categories: [],
+    businessUnits: [],
+    timePeriod: TimePeriod.MONTHLY
+  },
+  businessMetrics: {
+    revenue: { total: 1250000, growth: 12.5 },
+    costs: { operational: 600000, marketing: 150000 },
+    inventory: {
+      utilizationRate: 92,
+      categories: [
+        { id: 'electronics', name: 'Electronics', currentStock: 120, alertLevel: AlertLevel.CRITICAL },
+        { id: 'apparel', name: 'Apparel', currentStock: 940, alertLevel: AlertLevel.LOW }
+      ]
+    }
+  },
+  revenue: {
+    labels: ['Jan', 'Feb', 'Mar'],
+    datasets: [{ label: 'Revenue', data: [{ x: 'Jan', y: 400000 }, { x: 'Feb', y: 350000 }, { x: 'Mar', y: 500000 }] }]
+  },
+  timestamp: '2024-03-01T10:30:00.000Z'
+};
+
+const render = () => renderDashboardWorkbook(data, {
+  title: 'Operations',
+  generatedAt,
+  alertRules: [{ field: 'inventory.utilizationRate', operator: 'greaterThanOrEqual', value: 90, level: AlertLevel.HIGH }]
+});
+
+const sheetXml = (bytes: Uint8Array, index: number): string => {
+  const zip = XLSX.CFB.read(bytes, { type: 'array' });
+  const i = (zip.FullPaths as string[]).findIndex(path => path.endsWith(`xl/worksheets/sheet${index}.xml`));
+  return Buffer.from(zip.FileIndex[i].content).toString('utf8');
+};
+
+describe('excelWorkbook', () => {
+  it('writes a cover, one sheet per domain and a fact sheet', () => {
+    const file = render();
+    expect(file.filename).toBe('operations-2024-03-01.xlsx');
+
+    const workbook = XLSX.read(file.bytes, { type: 'array', cellFormula: true, cellNF: true });
+    expect(workbook.SheetNames).toEqual(['Cover', 'Overview', 'Business Metrics', 'Inventory Categories', 'Revenue', 'Facts']);
+
+    const cover = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets['Cover']!, { header: 1 });
+    expect(cover).toContainEqual(['Regions', 'EMEA']);
+    expect(cover).toContainEqual(['Categories', 'All']);
+    const periodRow = cover.findIndex(row => row[0] === 'Period start') + 1;
+    expect(workbook.Sheets['Cover']![`B${periodRow}`].t).toBe('n');
+    const linkRow = cover.findIndex(row => row[0] === 'Revenue') + 1;
+    expect(workbook.Sheets['Cover']![`A${linkRow}`].f).toBe('HYPERLINK("#\'Revenue\'!A1","Revenue")');
+  });
+
+  it('types cells by field', () => {
+    const workbook = XLSX.read(render().bytes, { type: 'array', cellFormula: true, cellNF: true });
+
+    const metrics = workbook.Sheets['Business Metrics']!;
+    expect(XLSX.utils.sheet_to_json<unknown[]>(metrics, { header: 1 })[1]).toEqual(['Revenue', 'Total', 1250000]);
+    expect(metrics['C2'].z).toBe('"$"#,##0.00');
+    expect(metrics['C3'].v).toBe(0.125);
+    expect(metrics['C3'].z).toBe('0.0%');
+
+    const categories = workbook.Sheets['Inventory Categories']!;
+    expect(categories['D2'].v).toBe(ALERT_LEVEL_CONFIG[AlertLevel.CRITICAL].label);
+    expect(categories['C2'].z).toBe('#,##0');
+
+    const revenue = workbook.Sheets['Revenue']!;
+    expect(revenue['B5'].f).toBe('SUM(B2:B4)');
+    expect(revenue['B5'].v).toBe(1250000);
+
+    expect(workbook.Sheets['Overview']!['C2'].t).toBe('n');
+  });
+
+  it('adds frozen headers, filters and alert level formatting', () => {
+    const file = render();
+
+    const categories = sheetXml(file.bytes, 4);
+    expect(categories).toContain('<pane xSplit="1" ySplit="1" topLeftCell="B2" activePane="bottomRight" state="frozen"/>');
+    expect(categories).toContain('<autoFilter ref="A1:D3"/>');
+    // Most severe level first, in the level's colors
+    expect(categories).toMatch(/<conditionalFormatting sqref="D2:D3"><cfRule type="cellIs" dxfId="\d+" priority="1" operator="equal" stopIfTrue="1"><formula>&quot;Critical&quot;<\/formula>/);
+
+    // Utilization is the fifth metric, so its value is in C6
+    expect(sheetXml(file.bytes, 3)).toMatch(/<conditionalFormatting sqref="C6"><cfRule type="cellIs" dxfId="\d+" priority="\d+" operator="greaterThanOrEqual" stopIfTrue="1"><formula>0.9<\/formula>/);
+
+    const workbook = XLSX.read(file.bytes, { type: 'array' });
+    const facts = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets['Facts']!);
+    expect(facts).toContainEqual({ Domain: 'Revenue', Dimension: 'Feb', Metric: 'Revenue', Value: 350000 });
+    expect(facts).toContainEqual({ Domain: 'Inventory Categories', Dimension: 'Electronics', Metric: 'Current Stock', Value: 120 });
+    expect(facts).toContainEqual({ Domain: 'Business Metrics', Dimension: 'Costs', Metric: 'Marketing', Value: 150000 });
+  });
+});
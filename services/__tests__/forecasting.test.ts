@@ -0,0 +1,59 @@
+import { backtest, calculateMape, forecastSeries, projectLabels } from '../forecasting';
+
+// Three years of monthly data: upward trend plus a yearly cycle
+const seasonalSeries = Array.from({ length: 36 }, (_, month) =>
+  1000 + month * 20 + 150 * Math.sin((2 * Math.PI * month) / 12)
+);
+
+describe('forecasting', () => {
+  it('continues trend and seasonality with Holt-Winters', () => {
+    const forecast = forecastSeries(seasonalSeries, { horizon: 12, seasonLength: 12, method: 'holt-winters' })!;
+
+    expect(forecast.method).toBe('holt-winters');
+    expect(forecast.seasonal).toBe(true);
+    expect(forecast.points).toHaveLength(12);
+    forecast.points.forEach(point => {
+      const expected = 1000 + (35 + point.step) * 20 + 150 * Math.sin((2 * Math.PI * (35 + point.step)) / 12);
+      expect(Math.abs(point.value - expected) / expected).toBeLessThan(0.05);
+      expect(point.lower).toBeLessThanOrEqual(point.value);
+      expect(point.upper).toBeGreaterThanOrEqual(point.value);
+    });
+    expect(forecast.backtest!.holdout).toBe(12);
+    expect(forecast.backtest!.mape!).toBeLessThan(5);
+  });
+
+  it('widens the band with the horizon and the confidence level', () => {
+    const noisy = [120, 132, 101, 134, 90, 130, 110, 142, 125, 118, 139, 128];
+    const width = (point: { lower: number; upper: number }) => point.upper - point.lower;
+
+    const at80 = forecastSeries(noisy, { horizon: 6, method: 'linear' })!;
+    const at95 = forecastSeries(noisy, { horizon: 6, method: 'linear', confidence: 0.95 })!;
+
+    expect(at80.seasonal).toBe(false);
+    expect(width(at80.points[5]!)).toBeGreaterThan(width(at80.points[0]!));
+    expect(width(at95.points[0]!)).toBeGreaterThan(width(at80.points[0]!));
+  });
+
+  it('picks the method with the lower backtest error and respects a floor', () => {
+    const draining = [400, 350, 310, 260, 220, 170, 130, 80, 40];
+    const forecast = forecastSeries(draining, { horizon: 5, method: 'auto', min: 0 })!;
+
+    const linearMape = backtest(draining, 'linear', 5)!.mape!;
+    const holtMape = backtest(draining, 'holt-winters', 5)!.mape!;
+    expect(forecast.method).toBe(linearMape < holtMape ? 'linear' : 'holt-winters');
+    expect(forecast.points[4]!.value).toBe(0);
+    expect(forecast.points.every(point => point.lower >= 0)).toBe(true);
+
+    expect(forecastSeries([1, 2], { horizon: 3 })).toBeNull();
+    expect(calculateMape([100, 0, 200], [110, 5, 180])).toBe(10);
+  });
+
+  it('continues period labels', () => {
+    expect(projectLabels(['Oct', 'Nov', 'Dec'], 2)).toEqual(['Jan', 'Feb']);
+    expect(projectLabels(['Dec 2024'], 1)).toEqual(['Jan 2025']);
+    expect(projectLabels(['Q3 2024', 'Q4 2024'], 2)).toEqual(['Q1 2025', 'Q2 2025']);
+    expect(projectLabels(['2023', '2024'], 1)).toEqual(['2025']);
+    expect(projectLabels(['2024-03-01', '2024-03-08'], 2)).toEqual(['2024-03-15', '2024-03-22']);
+    expect(projectLabels(['Week A'], 2)).toEqual(['+1', '+2']);
+  });
+});
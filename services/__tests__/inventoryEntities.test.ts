@@ -0,0 +1,88 @@
+import {
+  ProductItem,
+  describeEntityChanges,
+  generateProductItems,
+  getDrillDownLink,
+  getInventoryEntities,
+  INVENTORY_SYNC_INTERVAL
+} from '../inventoryEntities';
+
+const electronics = { id: 'electronics', name: 'Electronics' };
+const syncedAt = new Date('2024-03-01T10:00:00.000Z').getTime();
+
+const product = (sku: string, overrides: Partial<ProductItem> = {}): ProductItem => ({
+  id: sku,
+  name: 'Laptop Stand',
+  sku,
+  categoryId: 'electronics',
+  categoryName: 'Electronics',
+  warehouseId: 'west-coast',
+  region: 'West',
+  currentStock: 100,
+  minThreshold: 20,
+  maxCapacity: 400,
+  status: 'in_stock',
+  lastRestocked: new Date(syncedAt).toISOString(),
+  supplier: 'Direct Supplier',
+  unitCost: 24.5,
+  ...overrides
+});
+
+const products: ProductItem[] = [
+  product('SKU-ELE-001', { currentStock: 10, status: 'low_stock' }),
+  product('SKU-ELE-002', { warehouseId: 'northwest' }),
+  product('SKU-HOM-001', {
+    categoryId: 'home',
+    categoryName: 'Home',
+    warehouseId: 'east-coast',
+    region: 'East',
+    currentStock: 0,
+    status: 'out_of_stock'
+  })
+];
+
+describe('inventoryEntities', () => {
+  it('generates the same products within a sync interval', () => {
+    const first = generateProductItems(electronics, syncedAt);
+
+    expect(generateProductItems(electronics, syncedAt + INVENTORY_SYNC_INTERVAL - 1)).toEqual(first);
+    expect(generateProductItems(electronics, syncedAt + INVENTORY_SYNC_INTERVAL) === first).toBe(false);
+    expect(first.length).toBe(12);
+    expect(first[3]!.sku).toBe('SKU-ELE-004');
+    expect(first.every(item => item.status === (
+      item.currentStock === 0 ? 'out_of_stock' : item.currentStock <= item.minThreshold ? 'low_stock' : 'in_stock'
+    ))).toBe(true);
+  });
+
+  it('rolls products up by category, warehouse and region', () => {
+    const categories = getInventoryEntities(products, 'category');
+    expect(categories.map(entity => [entity.id, entity.metrics.items, entity.metrics.lowStock, entity.metrics.outOfStock]))
+      .toEqual([['electronics', 2, 1, 0], ['home', 1, 0, 1]]);
+
+    const regions = getInventoryEntities(products, 'region');
+    expect(regions.map(entity => entity.id)).toEqual(['West', 'East']);
+    expect(regions[0]!.metrics.stock).toBe(110);
+    expect(regions[0]!.metrics.capacity).toBe(800);
+    expect(regions[0]!.metrics.utilization.toFixed(2)).toBe('13.75');
+
+    const warehouses = getInventoryEntities(products, 'warehouse');
+    expect(warehouses.map(entity => entity.name)).toEqual(['West Coast Hub', 'Northwest Hub', 'East Coast Hub']);
+  });
+
+  it('reports SKU figures and links back into the drill-down', () => {
+    const [sku] = getInventoryEntities(products, 'sku');
+
+    expect(sku!.name).toBe('Laptop Stand (SKU-ELE-001)');
+    expect(sku!.metrics.lowStock).toBe(1);
+    expect(sku!.metrics.coverage).toBe(0.5);
+    expect(sku!.link).toBe('/inventory-dashboard?category=electronics&sku=SKU-ELE-001');
+    expect(getDrillDownLink({ region: 'North East' })).toBe('/inventory-dashboard?region=North+East');
+  });
+
+  it('describes entities added to and cleared from an alert', () => {
+    const entity = (id: string) => ({ scope: 'sku' as const, id, name: id, link: '' });
+
+    expect(describeEntityChanges([entity('A'), entity('B')], [entity('B'), entity('C')])).toBe('+C, -A');
+    expect(describeEntityChanges([entity('A')], [entity('A')])).toBe('');
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * @jest-environment node
+ */
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import {
+  ODataClient,
+  buildODataFilter,
+  buildODataQueryString,
+  parseODataMetadata,
+  mapToBusinessMetrics,
+  mapToChartData
+} from '../odataClient';
+import { FilterCriteria, TimePeriod } from '../../types';
+
+const filters = {
+  dateRange: {
+    start: new Date('2024-01-01T00:00:00.000Z'),
+    end: new Date('2024-01-31T23:59:59.000Z')
+  },
+  regions: ['EMEA', 'NA'],
+  categories: ["Kids' Toys"],
+  businessUnits: [],
+  timePeriod: TimePeriod.MONTHLY
+} as FilterCriteria;
+
+const METADATA = `<?xml version="1.0" encoding="utf-8"?>
+<edmx:Edmx Version="1.0">
+  <edmx:DataServices>
+    <Schema Namespace="ZSALES_SRV">
+      <EntityType Name="Revenue">
+        <Key><PropertyRef Name="PostingDate"/></Key>
+        <Property Name="PostingDate" Type="Edm.DateTime" Nullable="false"/>
+        <Property Name="NetRevenue" Type="Edm.Decimal"/>
+      </EntityType>
+      <EntityContainer Name="ZSALES_SRV_Entities">
+        <EntitySet Name="RevenueSet" EntityType="ZSALES_SRV.Revenue"/>
+      </EntityContainer>
+    </Schema>
+  </edmx:DataServices>
+</edmx:Edmx>`;
+
+/**
+ * Local HTTP fixture server answering with canned payloads keyed by request path
+ */
+const startFixtureServer = async (fixtures: Record<string, unknown>) => {
+  const requests: string[] = [];
+  const server = createServer((request, response) => {
+    const path = request.url || '';
+    requests.push(path);
+    const body = fixtures[path];
+    if (body === undefined) {
+      response.statusCode = 404;
+      response.end();
+      return;
+    }
+    response.setHeader('Content-Type', typeof body === 'string' ? 'application/xml' : 'application/json');
+    response.end(typeof body === 'string' ? body : JSON.stringify(body));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    fixtures,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+};
+
+describe('odataClient', () => {
+  it('translates filter criteria into a v2 $filter expression', () => {
+    expect(buildODataFilter(filters, 'v2')).toBe(
+      "PostingDate ge datetime'2024-01-01T00:00:00' and PostingDate le datetime'2024-01-31T23:59:59' and " +
+      "(Region eq 'EMEA' or Region eq 'NA') and ProductCategory eq 'Kids'' Toys'"
+    );
+  });
+
+  it('uses DateTimeOffset literals for v4', () => {
+    expect(buildODataFilter(filters, 'v4', { date: 'Date' })).toBe(
+      'Date ge 2024-01-01T00:00:00Z and Date le 2024-01-31T23:59:59Z'
+    );
+  });
+
+  it('builds system query options', () => {
+    const query = buildODataQueryString({
+      select: ['PostingDate', 'NetRevenue'],
+      orderby: [{ field: 'PostingDate', direction: 'desc' }],
+      top: 10,
+      skip: 20
+    }, 'v4');
+
+    expect(query).toBe('$select=PostingDate,NetRevenue&$orderby=PostingDate%20desc&$top=10&$skip=20');
+  });
+
+  it('follows v2 __next links until all pages are read', async () => {
+    const server = await startFixtureServer({
+      '/sap/RevenueSet?$format=json': {
+        d: { results: [{ NetRevenue: '100' }], __next: 'RevenueSet?$skiptoken=1' }
+      },
+      '/sap/RevenueSet?$skiptoken=1': {
+        d: { results: [{ NetRevenue: '50' }] }
+      }
+    });
+    const client = new ODataClient({ serviceUrl: `${server.url}/sap/` });
+
+    try {
+      const rows = await client.query('RevenueSet');
+
+      expect(rows).toEqual([{ NetRevenue: '100' }, { NetRevenue: '50' }]);
+      expect(server.requests).toHaveLength(2);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('follows v4 @odata.nextLink', async () => {
+    const server = await startFixtureServer({
+      '/odata/Revenue?$top=1&$skip=1': { value: [{ NetRevenue: 2 }] }
+    });
+    server.fixtures['/odata/Revenue?$top=1'] = {
+      value: [{ NetRevenue: 1 }],
+      '@odata.nextLink': `${server.url}/odata/Revenue?$top=1&$skip=1`
+    };
+    const client = new ODataClient({ serviceUrl: `${server.url}/odata`, version: 'v4' });
+
+    try {
+      await expect(client.query('Revenue', { top: 1 })).resolves.toEqual([{ NetRevenue: 1 }, { NetRevenue: 2 }]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('does not send requests for an already aborted signal', async () => {
+    const server = await startFixtureServer({ '/sap/RevenueSet?$format=json': { d: { results: [] } } });
+    const client = new ODataClient({ serviceUrl: `${server.url}/sap` });
+    const controller = new AbortController();
+    controller.abort();
+
+    try {
+      await expect(client.query('RevenueSet', {}, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+      expect(server.requests).toHaveLength(0);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('parses $metadata entity types and sets', async () => {
+    const server = await startFixtureServer({ '/sap/$metadata': METADATA });
+    const client = new ODataClient({ serviceUrl: `${server.url}/sap` });
+
+    try {
+      const metadata = await client.getMetadata();
+
+      expect(metadata.namespace).toBe('ZSALES_SRV');
+      expect(metadata.entitySets).toEqual({ RevenueSet: 'Revenue' });
+      expect(metadata.entityTypes.Revenue?.keys).toEqual(['PostingDate']);
+      expect(metadata.entityTypes.Revenue?.properties[0]).toEqual({
+        name: 'PostingDate',
+        type: 'Edm.DateTime',
+        nullable: false
+      });
+      expect(parseODataMetadata(METADATA)).toEqual(metadata);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('maps entity rows into business metrics and chart data', () => {
+    const rows = [
+      { PostingDate: '/Date(1704067200000)/', NetRevenue: '1000', LowStockCount: 3, WarehouseUtilization: 80 },
+      { PostingDate: '/Date(1704153600000)/', NetRevenue: '500', LowStockCount: 2, WarehouseUtilization: 90 }
+    ];
+
+    const metrics = mapToBusinessMetrics(rows);
+    expect(metrics.revenue?.total).toBe(1500);
+    expect(metrics.inventory?.lowStock).toBe(5);
+    expect(metrics.inventory?.utilizationRate).toBe(85);
+
+    const chart = mapToChartData(rows, {
+      labelField: 'PostingDate',
+      series: [{ field: 'NetRevenue', label: 'Revenue' }]
+    });
+    expect(chart.labels).toEqual(['2024-01-01', '2024-01-02']);
+    expect(chart.datasets[0]?.data).toEqual([
+      { x: '2024-01-01', y: 1000 },
+      { x: '2024-01-02', y: 500 }
+    ]);
+  });
+});
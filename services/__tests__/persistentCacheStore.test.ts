@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+import {
+  MemoryStorageBackend,
+  PersistedCacheEntry,
+  PersistentCacheStore,
+  estimateSize
+} from '../persistentCacheStore';
+
+const NOW = 1700000000000;
+const MINUTE = 60 * 1000;
+
+// 'x'.repeat(n) serializes to n + 2 characters, two bytes each
+const payload = (bytes: number) => 'x'.repeat(bytes / 2 - 2);
+
+const persisted = (key: string, data: unknown, age: number, ttl = 5 * MINUTE): PersistedCacheEntry => ({
+  key,
+  data,
+  timestamp: NOW - age,
+  ttl,
+  size: estimateSize(data),
+  lastAccessed: NOW - age,
+  tags: ['domain:metrics']
+});
+
+describe('PersistentCacheStore', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = NOW;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('evicts the least recently accessed entries to stay within the byte budget', async () => {
+    const backend = new MemoryStorageBackend();
+    const store = new PersistentCacheStore({ maxBytes: 300, maxAge: 30 * MINUTE, backend });
+
+    await store.set('a', payload(100), now, MINUTE);
+    now += 1;
+    await store.set('b', payload(100), now, MINUTE);
+    now += 1;
+    await store.set('c', payload(100), now, MINUTE);
+    expect(store.getUsage()).toEqual({ entries: 3, bytes: 300, maxBytes: 300 });
+
+    now += 1;
+    await store.get('a');
+    now += 1;
+    await store.set('d', payload(100), now, MINUTE);
+
+    expect(store.keys().sort()).toEqual(['a', 'c', 'd']);
+    expect(await backend.get('b')).toBeUndefined();
+    expect(store.getUsage().bytes).toBe(300);
+
+    await store.updateOptions({ maxBytes: 150 });
+    expect(store.keys()).toEqual(['d']);
+    expect((await backend.getAll()).map(entry => entry.key)).toEqual(['d']);
+  });
+
+  it('skips entries larger than the whole budget', async () => {
+    const backend = new MemoryStorageBackend();
+    const store = new PersistentCacheStore({ maxBytes: 100, maxAge: 30 * MINUTE, backend });
+
+    await store.set('small', payload(50), now, MINUTE);
+    await store.set('huge', payload(200), now, MINUTE);
+
+    expect(store.keys()).toEqual(['small']);
+    expect(await backend.get('huge')).toBeUndefined();
+  });
+
+  it('loads persisted entries, dropping expired ones and enforcing the budget', async () => {
+    const backend = new MemoryStorageBackend();
+    await backend.put(persisted('fresh', payload(100), MINUTE));
+    await backend.put(persisted('stale', payload(100), 10 * MINUTE));
+    await backend.put(persisted('expired', payload(100), 40 * MINUTE));
+    await backend.put(persisted('oldest-access', payload(100), 20 * MINUTE));
+
+    const store = new PersistentCacheStore({ maxBytes: 200, maxAge: 30 * MINUTE, backend });
+    const loaded = await store.load();
+
+    expect(loaded.map(entry => entry.key)).toEqual(['fresh', 'stale']);
+    expect(store.keys().sort()).toEqual(['fresh', 'stale']);
+    expect((await backend.getAll()).map(entry => entry.key).sort()).toEqual(['fresh', 'stale']);
+    expect(store.findKeys((_key, tags) => tags.includes('domain:metrics')).sort()).toEqual(['fresh', 'stale']);
+  });
+
+  it('drops entries that expire after loading when read', async () => {
+    const backend = new MemoryStorageBackend();
+    await backend.put(persisted('metrics', { total: 1 }, MINUTE));
+    const store = new PersistentCacheStore({ maxBytes: 1000, maxAge: 30 * MINUTE, backend });
+    await store.load();
+
+    expect((await store.get('metrics'))?.data).toEqual({ total: 1 });
+
+    now += 40 * MINUTE;
+    expect(await store.get('metrics')).toBeNull();
+    expect(store.keys()).toEqual([]);
+  });
+});
+
+describe('dataCacheService persistent tier', () => {
+  it('hydrates memory from persisted entries before whenReady resolves', async () => {
+    const seeded = [
+      persisted('metrics:no-filters', { revenue: 100 }, MINUTE),
+      persisted('revenue:monthly', { labels: [] }, 10 * MINUTE),
+      persisted('inventory:all', { labels: [] }, 60 * MINUTE)
+    ];
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+
+    let service!: typeof import('../dataCacheService')['dataCacheService'];
+    let coordinator!: typeof import('../tabCoordinator')['tabCoordinator'];
+    jest.isolateModules(() => {
+      const { MemoryStorageBackend: IsolatedBackend } = require('../persistentCacheStore');
+      jest.spyOn(IsolatedBackend.prototype, 'getAll').mockResolvedValue(seeded);
+      service = require('../dataCacheService').dataCacheService;
+      coordinator = require('../tabCoordinator').tabCoordinator;
+    });
+
+    try {
+      await service.whenReady();
+
+      expect(service.get('metrics:no-filters')).toEqual({ revenue: 100 });
+      expect(service.get('revenue:monthly', async () => ({ labels: ['Jan'] }))).toEqual({ labels: [] });
+      expect(service.get('inventory:all')).toBeNull();
+      expect(service.getStats()).toEqual(expect.objectContaining({ persistentEntries: 2 }));
+    } finally {
+      service.destroy();
+      coordinator.stop();
+      jest.restoreAllMocks();
+    }
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * @jest-environment node
+ */
+import { dataCacheService } from '../dataCacheService';
+import { RealTimeUpdate } from '../realTimeDataService';
+import { RealTimeRelay, RealTimeStream, realTimeRelay } from '../realTimeRelay';
+import { MemoryTransport, TabCoordinator, tabCoordinator } from '../tabCoordinator';
+
+const options = { heartbeatInterval: 100, leaderTimeout: 250, electionDelay: 30 };
+
+/**
+ * Stand-in for the realtime connection that tests drive by hand
+ */
+const createStream = () => {
+  let status = 'disconnected';
+  const updateHandlers = new Map<string, Set<(update: RealTimeUpdate) => void>>();
+  const statusHandlers = new Set<(status: string) => void>();
+  const setStatus = (next: string) => {
+    status = next;
+    statusHandlers.forEach(handler => handler(next));
+  };
+
+  const stream = {
+    connect: jest.fn(() => setStatus('connected')),
+    disconnect: jest.fn(() => setStatus('disconnected')),
+    subscribe: (type: string, handler: (update: RealTimeUpdate) => void) => {
+      const handlers = updateHandlers.get(type) || new Set();
+      handlers.add(handler);
+      updateHandlers.set(type, handlers);
+      return () => handlers.delete(handler);
+    },
+    onConnectionChange: (handler: (status: string) => void) => {
+      statusHandlers.add(handler);
+      return () => statusHandlers.delete(handler);
+    },
+    getConnectionStatus: () => status
+  } satisfies RealTimeStream;
+
+  return {
+    stream,
+    setStatus,
+    emit: (update: RealTimeUpdate) => updateHandlers.get(update.type)?.forEach(handler => handler(update))
+  };
+};
+
+const update = (data: unknown) => ({ type: 'revenue', data, timestamp: '2024-03-01T10:00:00.000Z' }) as RealTimeUpdate;
+
+describe('RealTimeRelay', () => {
+  let coordinators: TabCoordinator[];
+
+  const openTab = (hub: Set<MemoryTransport>) => {
+    const coordinator = new TabCoordinator({ ...options, transport: new MemoryTransport(hub) });
+    const connection = createStream();
+    const cache = { invalidateDomain: jest.fn(() => 0) };
+    coordinators.push(coordinator);
+    return { coordinator, connection, cache, relay: new RealTimeRelay({ coordinator, stream: connection.stream, cache }) };
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    coordinators = [];
+  });
+
+  afterEach(() => {
+    coordinators.forEach(coordinator => coordinator.stop());
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    realTimeRelay.disconnect();
+    tabCoordinator.stop();
+    dataCacheService.destroy();
+  });
+
+  it('keeps one connection in the leader tab and relays its updates and status', () => {
+    const hub = new Set<MemoryTransport>();
+    const first = openTab(hub);
+    jest.advanceTimersByTime(options.electionDelay * 3);
+    const second = openTab(hub);
+    jest.advanceTimersByTime(options.electionDelay * 3);
+
+    expect(first.coordinator.isLeader()).toBe(true);
+    expect(first.connection.stream.getConnectionStatus()).toBe('connected');
+    expect(second.connection.stream.connect).not.toHaveBeenCalled();
+    expect(second.relay.getConnectionStatus()).toBe('connected');
+
+    const onLeader = jest.fn();
+    const onFollower = jest.fn();
+    const followerStatus = jest.fn();
+    first.relay.subscribe('revenue', onLeader);
+    second.relay.subscribe('revenue', onFollower);
+    second.relay.onConnectionChange(followerStatus);
+
+    first.connection.emit(update({ total: 10 }));
+    expect(onLeader).toHaveBeenCalledWith(update({ total: 10 }));
+    expect(onFollower).toHaveBeenCalledWith(update({ total: 10 }));
+    // The leader invalidates the cached domain once for all tabs
+    expect(first.cache.invalidateDomain).toHaveBeenCalledTimes(1);
+    expect(first.cache.invalidateDomain).toHaveBeenCalledWith('revenue', { reason: 'Real-time revenue update' });
+    expect(second.cache.invalidateDomain).not.toHaveBeenCalled();
+
+    first.connection.setStatus('reconnecting');
+    expect(followerStatus).toHaveBeenCalledWith('connecting');
+    expect(second.relay.getConnectionStatus()).toBe('connecting');
+  });
+
+  it('forwards connect and disconnect requests from followers to the leader', () => {
+    const hub = new Set<MemoryTransport>();
+    const first = openTab(hub);
+    jest.advanceTimersByTime(options.electionDelay * 3);
+    const second = openTab(hub);
+    jest.advanceTimersByTime(options.electionDelay * 3);
+
+    second.relay.disconnect();
+    expect(first.connection.stream.disconnect).toHaveBeenCalled();
+    expect(second.relay.getConnectionStatus()).toBe('disconnected');
+
+    second.relay.connect();
+    expect(first.connection.stream.getConnectionStatus()).toBe('connected');
+    expect(second.connection.stream.connect).not.toHaveBeenCalled();
+  });
+
+  it('moves the connection to the next leader when the leader tab closes', () => {
+    const hub = new Set<MemoryTransport>();
+    const first = openTab(hub);
+    jest.advanceTimersByTime(options.electionDelay * 3);
+    const second = openTab(hub);
+    jest.advanceTimersByTime(options.electionDelay * 3);
+    const onFollower = jest.fn();
+    second.relay.subscribe('revenue', onFollower);
+
+    first.coordinator.stop();
+    jest.advanceTimersByTime(options.electionDelay * 2);
+
+    expect(second.coordinator.isLeader()).toBe(true);
+    expect(second.connection.stream.connect).toHaveBeenCalledTimes(1);
+    expect(second.relay.getConnectionStatus()).toBe('connected');
+
+    second.connection.emit(update({ total: 20 }));
+    expect(onFollower).toHaveBeenCalledWith(update({ total: 20 }));
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  parseCron,
+  getNextCronRun,
+  getNextRunTime,
+  isWithinBusinessHours,
+  getActiveBurstWindow,
+  getNextBurstWindowStart,
+  validateSchedule,
+  BusinessCalendar
+} from '../refreshSchedule';
+
+const at = (iso: string) => new Date(iso).getTime();
+
+const calendar: BusinessCalendar = {
+  timezone: 'America/New_York',
+  days: [1, 2, 3, 4, 5],
+  start: '08:00',
+  end: '18:00',
+  holidays: ['2024-07-04']
+};
+
+describe('refreshSchedule', () => {
+  it('parses ranges, lists and steps', () => {
+    const cron = parseCron('*/15 9-17 * * 1-5');
+
+    expect(Array.from(cron.minutes)).toEqual([0, 15, 30, 45]);
+    expect(cron.hours.has(9) && cron.hours.has(17) && !cron.hours.has(18)).toBe(true);
+    expect(Array.from(cron.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('* * *')).toThrow('5 fields');
+    expect(() => parseCron('61 * * * *')).toThrow('minute');
+    expect(validateSchedule({ kind: 'cron', expression: '* * * 13 *' })).toHaveLength(1);
+  });
+
+  it('finds the next cron run in a timezone', () => {
+    // Friday 2024-03-01 23:10 UTC is 18:10 in New York; next weekday 07:00 NY is Monday 12:00 UTC
+    const next = getNextCronRun('0 7 * * 1-5', at('2024-03-01T23:10:00Z'), 'America/New_York');
+    expect(new Date(next!).toISOString()).toBe('2024-03-04T12:00:00.000Z');
+  });
+
+  it('respects business hours and holidays', () => {
+    expect(isWithinBusinessHours(at('2024-07-03T14:00:00Z'), calendar)).toBe(true);
+    expect(isWithinBusinessHours(at('2024-07-04T14:00:00Z'), calendar)).toBe(false);
+    expect(isWithinBusinessHours(at('2024-07-06T14:00:00Z'), calendar)).toBe(false);
+  });
+
+  it('waits for the next opening outside business hours', () => {
+    // Saturday 03:00 NY -> Monday 08:00 NY (12:00 UTC, EDT)
+    const next = getNextRunTime(
+      { kind: 'business-hours', interval: 5 * 60 * 1000, calendar },
+      at('2024-07-06T07:00:00Z')
+    );
+    expect(new Date(next).toISOString()).toBe('2024-07-08T12:00:00.000Z');
+  });
+
+  it('speeds up during the last days of a fiscal period', () => {
+    const burst = { kind: 'fiscal-period-end' as const, period: 'month' as const, lastDays: 2, interval: 30000 };
+    const schedule = { kind: 'interval' as const, interval: 5 * 60 * 1000 };
+
+    expect(getActiveBurstWindow(at('2024-04-29T10:00:00Z'), [burst])).toBe(burst);
+    expect(getActiveBurstWindow(at('2024-04-28T10:00:00Z'), [burst])).toBeNull();
+    expect(getNextRunTime(schedule, at('2024-04-30T10:00:00Z'), [burst])).toBe(at('2024-04-30T10:00:30Z'));
+  });
+
+  it('wakes up when a burst window opens before the next scheduled run', () => {
+    const fiscal = { kind: 'fiscal-period-end' as const, period: 'month' as const, lastDays: 2, interval: 30000 };
+    const fixed = { kind: 'fixed' as const, start: '2024-04-10T10:10:00Z', end: '2024-04-10T12:00:00Z', interval: 30000 };
+    const hourly = { kind: 'interval' as const, interval: 60 * 60 * 1000 };
+
+    expect(getNextBurstWindowStart(at('2024-04-28T23:30:00Z'), [fiscal])).toBe(at('2024-04-29T00:00:00Z'));
+    expect(getNextRunTime(hourly, at('2024-04-28T23:30:00Z'), [fiscal])).toBe(at('2024-04-29T00:00:00Z'));
+    expect(getNextRunTime(hourly, at('2024-04-10T10:00:00Z'), [fixed])).toBe(at('2024-04-10T10:10:00Z'));
+    // A window opening after the scheduled run changes nothing
+    expect(getNextRunTime(hourly, at('2024-04-10T09:00:00Z'), [fixed])).toBe(at('2024-04-10T10:00:00Z'));
+  });
+
+  it('only bursts at quarter end for quarterly windows', () => {
+    const burst = {
+      kind: 'fiscal-period-end' as const,
+      period: 'quarter' as const,
+      lastDays: 2,
+      interval: 30000,
+      fiscalYearStartMonth: 4
+    };
+
+    expect(getActiveBurstWindow(at('2024-06-30T10:00:00Z'), [burst])).toBe(burst);
+    expect(getActiveBurstWindow(at('2024-05-31T10:00:00Z'), [burst])).toBeNull();
+  });
+});
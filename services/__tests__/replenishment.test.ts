@@ -0,0 +1,77 @@
+import { ProductItem } from '../inventoryEntities';
+import {
+  calculateVelocity,
+  economicOrderQuantity,
+  getReorderList,
+  planReplenishment,
+  reorderListToCsv
+} from '../replenishment';
+
+const now = new Date('2024-03-01T10:00:00.000Z').getTime();
+
+const product = (overrides: Partial<ProductItem> = {}): ProductItem => ({
+  id: 'electronics-item-1',
+  name: 'USB-C Hub',
+  sku: 'SKU-ELE-005',
+  categoryId: 'electronics',
+  categoryName: 'Electronics',
+  warehouseId: 'central',
+  region: 'Central',
+  currentStock: 100,
+  minThreshold: 20,
+  maxCapacity: 400,
+  status: 'in_stock',
+  lastRestocked: new Date(now).toISOString(),
+  supplier: 'Direct Supplier',
+  unitCost: 20,
+  ...overrides
+});
+
+// Ten units a day, give or take two
+const steadyDemand = Array.from({ length: 28 }, (_, day) => (day % 2 === 0 ? 8 : 12));
+
+describe('replenishment', () => {
+  it('measures velocity and the economic order quantity', () => {
+    const { velocity, stdDev } = calculateVelocity(steadyDemand);
+    expect(velocity).toBe(10);
+    expect(stdDev.toFixed(3)).toBe('2.037');
+
+    // √(2 × 3650 × 50 / 5) ≈ 270.2
+    expect(economicOrderQuantity(3650, 50, 5).toFixed(1)).toBe('270.2');
+    expect(economicOrderQuantity(0, 50, 5)).toBe(0);
+  });
+
+  it('projects the stock-out date and reorder point from lead time', () => {
+    const plan = planReplenishment(product(), steadyDemand, now);
+
+    expect(plan.daysOfCover).toBe(10);
+    expect(plan.stockOutDate).toBe('2024-03-11');
+    expect(plan.leadTimeDays).toBe(10);
+    // 10 days × 10 units + 1.65 × 2.04 × √10 safety stock
+    expect(plan.safetyStock).toBe(11);
+    expect(plan.reorderPoint).toBe(111);
+    expect(plan.urgency).toBe('reorder_now');
+    expect(plan.economicOrderQuantity).toBe(271);
+    expect(plan.suggestedOrderQuantity).toBe(271);
+
+    // Capped by what fits: 250 capacity − 100 on hand + 100 sold during the lead time
+    expect(planReplenishment(product({ maxCapacity: 250 }), steadyDemand, now).suggestedOrderQuantity).toBe(250);
+  });
+
+  it('lists what needs ordering, soonest stock-out first', () => {
+    const plans = [
+      planReplenishment(product({ sku: 'A', currentStock: 300 }), steadyDemand, now),
+      planReplenishment(product({ sku: 'B', currentStock: 150 }), steadyDemand, now),
+      planReplenishment(product({ sku: 'C', currentStock: 40 }), steadyDemand, now),
+      planReplenishment(product({ sku: 'D', currentStock: 40 }), [0, 0, 0], now)
+    ];
+
+    expect(plans.map(plan => plan.urgency)).toEqual(['ok', 'reorder_soon', 'reorder_now', 'ok']);
+    expect(plans[3]!.daysOfCover).toBeNull();
+    expect(getReorderList(plans).map(plan => plan.item.sku)).toEqual(['C', 'B']);
+
+    const [header, first] = reorderListToCsv(getReorderList(plans)).split('\n');
+    expect(header!.startsWith('SKU,Product,Category')).toBe(true);
+    expect(first!.startsWith('C,USB-C Hub,Electronics,central,Direct Supplier,40,10.0,4.0,2024-03-05')).toBe(true);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * @jest-environment node
+ */
+import * as XLSX from 'xlsx';
+import { ExportFormat, TimePeriod } from '../../types';
+import { ReportData, ReportDefinition, resolveReport } from '../reportDefinition';
+import { renderReport, reportFromExportPayload } from '../reportPipeline';
+import { columnName, sanitizeSheetName } from '../xlsxWriter';
+
+const generatedAt = new Date('2024-03-01T10:30:00Z');
+
+const definition: ReportDefinition = {
+  title: 'Quarterly Review',
+  subtitle: 'Revenue, costs and orders',
+  orientation: 'landscape',
+  filters: {
+    dateRange: { start: new Date('2024-01-01T00:00:00Z'), end: new Date('2024-03-31T00:00:00Z') },
+    regions: ['EMEA', 'APAC'],
+    categories: [],
+    businessUnits: [],
+    timePeriod: TimePeriod.MONTHLY
+  },
+  widgets: [
+    { id: 'revenue', type: 'kpi', title: 'Revenue', dataKey: 'revenueTotal', valueFormat: 'currency' },
+    { id: 'margin', type: 'kpi', title: 'Margin', dataKey: 'margin', valueFormat: 'percent' },
+    { id: 'utilization', type: 'gauge', title: 'Utilization', dataKey: 'utilization', valueFormat: 'percent' },
+    { id: 'trend', type: 'chart', chart: 'area', title: 'Revenue Trend', dataKey: 'trend', valueFormat: 'currency' },
+    { id: 'costs', type: 'chart', chart: 'doughnut', title: 'Cost Split', dataKey: 'costs', valueFormat: 'currency' },
+    { id: 'returns', type: 'chart', chart: 'bar', title: 'Returns', dataKey: 'returns' },
+    {
+      id: 'orders',
+      type: 'table',
+      title: 'Orders',
+      dataKey: 'orders',
+      columns: [
+        { key: 'id', label: 'Order', format: 'text' },
+        { key: 'date', label: 'Date', format: 'date' },
+        { key: 'amount', label: 'Amount', format: 'currency', total: 'sum' }
+      ]
+    }
+  ]
+};
+
+const data: ReportData = {
+  revenueTotal: { value: 1250000, previous: 1000000, target: 1500000 },
+  margin: { value: 12.5, previous: 10 },
+  utilization: { value: 75 },
+  trend: {
+    labels: ['Jan', 'Feb', 'Mar'],
+    datasets: [
+      { label: 'Actual', data: [{ x: 'Jan', y: 400000 }, { x: 'Feb', y: 350000 }, { x: 'Mar', y: 500000 }], borderColor: 'rgba(25, 118, 210, 1)' },
+      { label: 'Plan', data: [{ x: 'Jan', y: 380000 }, { x: 'Feb', y: 390000 }, { x: 'Mar', y: 420000 }] }
+    ]
+  },
+  costs: {
+    labels: ['Operational', 'Marketing', 'Logistics'],
+    datasets: [{ label: 'Cost', data: [{ x: 'Operational', y: 600 }, { x: 'Marketing', y: 300 }, { x: 'Logistics', y: 100 }] }]
+  },
+  orders: Array.from({ length: 80 }, (_, i) => ({
+    id: `SO-${1000 + i}`,
+    date: new Date(Date.UTC(2024, 0, 1 + i)),
+    amount: 100 + i
+  }))
+};
+
+describe('reportPipeline', () => {
+  it('resolves defaults, filters and missing data', () => {
+    const report = resolveReport(definition, data, generatedAt);
+
+    expect(report.pageSize).toBe('a4');
+    expect(report.currency).toBe('USD');
+    expect(report.filterSummary).toEqual([
+      { label: 'Period', value: '2024-01-01 to 2024-03-31' },
+      { label: 'Regions', value: 'EMEA, APAC' },
+      { label: 'Categories', value: 'All' },
+      { label: 'Business units', value: 'All' },
+      { label: 'Granularity', value: 'monthly' }
+    ]);
+
+    const trend = report.widgets.find(entry => entry.widget.id === 'trend')!;
+    expect(trend.content).toEqual({
+      labels: ['Jan', 'Feb', 'Mar'],
+      series: [
+        { label: 'Actual', values: [400000, 350000, 500000], color: '#1976d2' },
+        { label: 'Plan', values: [380000, 390000, 420000], color: '#dc004e' }
+      ],
+      sliceColors: ['#1976d2', '#dc004e', '#2e7d32']
+    });
+    expect(report.widgets.find(entry => entry.widget.id === 'returns')!.content).toBeNull();
+    expect(report.widgets.find(entry => entry.widget.id === 'utilization')!.content).toEqual({ value: 75, min: 0, max: 100 });
+
+    expect(() => resolveReport({ ...definition, widgets: [definition.widgets[0]!, definition.widgets[0]!] }, data))
+      .toThrow('Invalid report definition: Duplicate widget id: revenue');
+  });
+
+  it('renders a paginated vector PDF without a DOM', () => {
+    const report = renderReport(definition, data, ExportFormat.PDF, { generatedAt });
+    const pdf = Buffer.from(report.bytes).toString('latin1');
+
+    expect(report.filename).toBe('quarterly-review-2024-03-01.pdf');
+    expect(report.mimeType).toBe('application/pdf');
+    expect(pdf.startsWith('%PDF-')).toBe(true);
+    expect(pdf).toContain('(Quarterly Review)');
+    expect(pdf).toContain('(Generated 2024-03-01 10:30 UTC)');
+    expect(pdf).toContain('(+25.0% vs previous)');
+    expect(pdf).toContain('(No data available)');
+    expect(pdf).toContain('(Orders \\(continued\\))');
+
+    const pages = Number(/\(Page 1 of (\d+)\)/.exec(pdf)![1]);
+    expect(pages).toBeGreaterThan(1);
+    expect(pdf).toContain(`(Page ${pages} of ${pages})`);
+
+    // Charts are paths and fills, never embedded images
+    expect(pdf).not.toContain('/Subtype /Image');
+    expect(pdf).toMatch(/ re\s*\n\s*f/);
+    expect(pdf).toMatch(/ l\s*\n/);
+  });
+
+  it('renders native Excel sheets with formulas and number formats', () => {
+    const report = renderReport(definition, data, ExportFormat.EXCEL, { generatedAt });
+    expect(report.filename).toBe('quarterly-review-2024-03-01.xlsx');
+
+    const workbook = XLSX.read(report.bytes, { type: 'array', cellFormula: true, cellNF: true });
+    expect(workbook.SheetNames).toEqual(['Summary', 'Revenue Trend', 'Cost Split', 'Returns', 'Orders']);
+
+    const summary = workbook.Sheets['Summary']!;
+    const kpiRow = XLSX.utils.sheet_to_json<unknown[]>(summary, { header: 1 })
+      .findIndex(row => row[0] === 'Revenue') + 1;
+    expect(summary[`B${kpiRow}`].v).toBe(1250000);
+    expect(summary[`B${kpiRow}`].z).toBe('"$"#,##0.00');
+    expect(summary[`D${kpiRow}`].f).toBe(`IF(OR(C${kpiRow}="",C${kpiRow}=0),"",(B${kpiRow}-C${kpiRow})/ABS(C${kpiRow}))`);
+    expect(summary[`D${kpiRow}`].v).toBeCloseTo(0.25);
+    expect(summary[`B${kpiRow + 1}`].v).toBe(0.125);
+    expect(summary[`B${kpiRow + 1}`].z).toBe('0.0%');
+
+    const trend = workbook.Sheets['Revenue Trend']!;
+    expect(trend['B1'].v).toBe('Actual');
+    expect(trend['B5'].f).toBe('SUM(B2:B4)');
+    expect(trend['B5'].v).toBe(1250000);
+
+    const costs = workbook.Sheets['Cost Split']!;
+    expect(costs['C2'].f).toBe('IF(SUM($B$2:$B$4)=0,0,B2/SUM($B$2:$B$4))');
+    expect(costs['C2'].v).toBeCloseTo(0.6);
+
+    expect(workbook.Sheets['Returns']!['A2'].v).toBe('No data available');
+
+    const orders = workbook.Sheets['Orders']!;
+    expect(orders['B2'].t).toBe('n');
+    expect(orders['B2'].w).toBe('2024-01-01');
+    expect(orders['C82'].f).toBe('SUM(C2:C81)');
+    expect(orders['C82'].v).toBe(80 * 100 + (79 * 80) / 2);
+  });
+
+  it('builds a report from a plain export payload', () => {
+    const { definition: fromPayload, data: payloadData } = reportFromExportPayload({
+      title: 'Daily Revenue',
+      filters: { dateRange: { start: '2024-02-29T00:00:00.000Z', end: '2024-02-29T23:59:59.999Z' }, regions: ['EMEA'] },
+      source: { kind: 'page', path: '/revenue' }
+    });
+
+    expect(fromPayload.title).toBe('Daily Revenue');
+    expect(fromPayload.filters!.dateRange.start).toEqual(new Date('2024-02-29T00:00:00.000Z'));
+    expect(payloadData.details).toEqual([{ field: 'source', value: '{"kind":"page","path":"/revenue"}' }]);
+    expect(renderReport(fromPayload, payloadData, ExportFormat.PDF).bytes.length).toBeGreaterThan(0);
+
+    expect(columnName(0)).toBe('A');
+    expect(columnName(27)).toBe('AB');
+    const taken = new Set<string>();
+    expect(sanitizeSheetName('Revenue: Q1/Q2', taken)).toBe('Revenue  Q1 Q2');
+    expect(sanitizeSheetName('revenue  q1 q2', taken)).toBe('revenue  q1 q2 (2)');
+  });
+});
@@ -0,0 +1,159 @@
+import { ExportFormat, TimePeriod } from '../../types';
+import { createManualClock } from '../manualClock';
+import { DeliveryRequest } from '../alertDelivery';
+import { dataCacheService } from '../dataCacheService';
+import {
+  ReportSubscription,
+  ReportSubscriptionService,
+  describeReportSchedule,
+  getNextReportRun,
+  resolveDatePreset,
+  validateSubscription
+} from '../reportSubscriptions';
+import { tabCoordinator } from '../tabCoordinator';
+
+const at = (iso: string) => new Date(iso).getTime();
+
+const waitFor = async (predicate: () => boolean) => {
+  for (let i = 0; i < 100 && !predicate(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  expect(predicate()).toBe(true);
+};
+
+const input = (overrides: Partial<ReportSubscription> = {}): Omit<ReportSubscription, 'id' | 'createdAt'> => ({
+  name: 'Daily Revenue',
+  source: { kind: 'page', path: '/revenue' },
+  filters: { regions: ['EMEA'], categories: [], businessUnits: [], timePeriod: TimePeriod.DAILY },
+  dateRange: { kind: 'relative', preset: 'yesterday' },
+  format: ExportFormat.PDF,
+  recipients: ['cfo@example.com', 'ops@example.com'],
+  schedule: { frequency: 'daily', time: '07:00', timezone: 'UTC' },
+  enabled: true,
+  ...overrides
+});
+
+const generator = async () => ({ filename: 'daily-revenue.pdf', blob: new Blob(['%PDF-report']) });
+
+describe('reportSubscriptions', () => {
+  afterAll(() => {
+    dataCacheService.destroy();
+    tabCoordinator.stop();
+  });
+
+  it('finds the next daily and first-business-day runs', () => {
+    expect(new Date(getNextReportRun({ frequency: 'daily', time: '07:00', timezone: 'Europe/Berlin' }, at('2024-03-01T10:00:00Z'))!).toISOString())
+      .toBe('2024-03-02T06:00:00.000Z');
+
+    const firstBusinessDay = { frequency: 'first-business-day' as const, time: '07:00', timezone: 'UTC' };
+    // June 2024 starts on a Saturday
+    expect(new Date(getNextReportRun(firstBusinessDay, at('2024-05-31T12:00:00Z'))!).toISOString()).toBe('2024-06-03T07:00:00.000Z');
+    expect(new Date(getNextReportRun({ ...firstBusinessDay, holidays: ['2024-06-03'] }, at('2024-05-31T12:00:00Z'))!).toISOString())
+      .toBe('2024-06-04T07:00:00.000Z');
+    expect(new Date(getNextReportRun(firstBusinessDay, at('2024-06-03T08:00:00Z'))!).toISOString()).toBe('2024-07-01T07:00:00.000Z');
+
+    expect(describeReportSchedule(firstBusinessDay)).toBe('First business day of the month at 07:00 UTC');
+    expect(describeReportSchedule({ frequency: 'weekly', time: '09:30', timezone: 'UTC', weekday: 1 })).toBe('Mondays at 09:30 UTC');
+  });
+
+  it('resolves relative date presets in the schedule timezone', () => {
+    const now = at('2024-03-15T10:00:00Z');
+
+    const lastMonth = resolveDatePreset('lastMonth', now);
+    expect(lastMonth.start.toISOString()).toBe('2024-02-01T00:00:00.000Z');
+    expect(lastMonth.end.toISOString()).toBe('2024-02-29T23:59:59.999Z');
+
+    const last7 = resolveDatePreset('last7days', now);
+    expect(last7.start.toISOString()).toBe('2024-03-08T00:00:00.000Z');
+    expect(last7.end.toISOString()).toBe('2024-03-14T23:59:59.999Z');
+
+    // New York is on daylight time (UTC-4) from March 10
+    const yesterday = resolveDatePreset('yesterday', now, 'America/New_York');
+    expect(yesterday.start.toISOString()).toBe('2024-03-14T04:00:00.000Z');
+    expect(yesterday.end.toISOString()).toBe('2024-03-15T03:59:59.999Z');
+
+    expect(validateSubscription(input({ recipients: ['nobody'], schedule: { frequency: 'daily', time: '25:00', timezone: 'Mars/Base' } })))
+      .toEqual(['Invalid email address: nobody', 'Time must be HH:mm', 'Unknown timezone: Mars/Base']);
+  });
+
+  it('emails the generated file to each recipient and records the run', async () => {
+    const requests: DeliveryRequest[] = [];
+    let failOps = true;
+    const { clock } = createManualClock(at('2024-03-01T10:00:00Z'));
+    const service = new ReportSubscriptionService({
+      persist: false,
+      clock,
+      generator,
+      transport: async request => {
+        requests.push(request);
+        const to = JSON.parse(request.body).to[0];
+        return to === 'ops@example.com' && failOps ? { status: 550, body: 'Mailbox unavailable' } : { status: 202 };
+      }
+    });
+
+    const subscription = service.createSubscription(input());
+    expect(subscription.nextRunAt).toBe('2024-03-02T07:00:00.000Z');
+
+    const run = (await service.runNow(subscription.id))!;
+    expect(run.status).toBe('partial');
+    expect(run.trigger).toBe('manual');
+    expect(run.file).toEqual({ filename: 'daily-revenue.pdf', size: 11, mimeType: 'application/pdf' });
+    expect(run.period).toEqual({ start: '2024-02-29T00:00:00.000Z', end: '2024-02-29T23:59:59.999Z' });
+    expect(run.deliveries.map(delivery => delivery.status)).toEqual(['delivered', 'failed']);
+    expect(run.deliveries[1]!.error).toBe('HTTP 550: Mailbox unavailable');
+
+    const payload = JSON.parse(requests[0]!.body);
+    expect(payload.subject).toBe('Daily Revenue (2024-02-29)');
+    expect(payload.attachments[0].filename).toBe('daily-revenue.pdf');
+    expect(Buffer.from(payload.attachments[0].content, 'base64').toString()).toBe('%PDF-report');
+
+    failOps = false;
+    const retried = (await service.retryFailedDeliveries(run.id))!;
+    expect(retried.status).toBe('delivered');
+    expect(requests).toHaveLength(3);
+    expect(service.getRuns(subscription.id)).toHaveLength(1);
+  });
+
+  it('runs due subscriptions on schedule in the leader tab only', async () => {
+    const { clock, advance } = createManualClock(at('2024-03-01T10:00:00Z'));
+    const options = { persist: false, clock, generator, transport: async () => ({ status: 202 }) };
+    const leader = new ReportSubscriptionService(options);
+    const follower = new ReportSubscriptionService({ ...options, isLeader: () => false });
+
+    const subscription = leader.createSubscription(input());
+    follower.createSubscription(input());
+    leader.start();
+    follower.start();
+
+    advance(21 * 60 * 60 * 1000);
+    await waitFor(() => leader.getRuns()[0]?.status === 'delivered');
+
+    const [run] = leader.getRuns();
+    expect(run!.trigger).toBe('schedule');
+    expect(run!.scheduledFor).toBe('2024-03-02T07:00:00.000Z');
+    expect(leader.getSubscriptions()[0]!.nextRunAt).toBe('2024-03-03T07:00:00.000Z');
+    expect(leader.getSubscriptions()[0]!.lastRunAt).toBe(run!.startedAt);
+    expect(follower.getRuns()).toHaveLength(0);
+
+    leader.setEnabled(subscription.id, false);
+    expect(leader.getSubscriptions()[0]!.nextRunAt).toBeUndefined();
+    leader.stop();
+    follower.stop();
+  });
+
+  it('keeps a single pending timer across scheduled runs', async () => {
+    const { clock, advance, pending } = createManualClock(at('2024-03-01T10:00:00Z'));
+    const service = new ReportSubscriptionService({ persist: false, clock, generator, transport: async () => ({ status: 202 }) });
+    service.createSubscription(input());
+    service.start();
+
+    for (let day = 1; day <= 3; day++) {
+      advance(24 * 60 * 60 * 1000);
+      await waitFor(() => service.getRuns().length === day && service.getRuns()[0]!.status === 'delivered');
+      expect(pending()).toBe(1);
+    }
+
+    service.stop();
+    expect(pending()).toBe(0);
+  });
+});
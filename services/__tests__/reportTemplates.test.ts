@@ -0,0 +1,138 @@
+/**
+ * @jest-environment node
+ */
+import * as XLSX from 'xlsx';
+import { ExportFormat, TimePeriod, WidgetType } from '../../types';
+import {
+  ReportTemplateData,
+  ReportTemplateDraft,
+  ReportTemplateService,
+  buildTemplateReport,
+  fillPlaceholders,
+  renderTemplateReport,
+  validateTemplate
+} from '../reportTemplates';
+import { dataCacheService } from '../dataCacheService';
+import { tabCoordinator } from '../tabCoordinator';
+
+const generatedAt = new Date('2024-03-01T10:30:00Z');
+
+const filters = {
+  dateRange: { start: new Date('2024-01-01T00:00:00Z'), end: new Date('2024-03-31T00:00:00Z') },
+  regions: ['EMEA'],
+  categories: [],
+  businessUnits: [],
+  timePeriod: TimePeriod.MONTHLY
+};
+
+const source = {
+  metrics: {
+    revenue: { total: 1250000, growth: 12.5 },
+    costs: { total: 750000 },
+    inventory: { utilizationRate: 92 }
+  },
+  revenue: {
+    labels: ['Jan', 'Feb', 'Mar'],
+    datasets: [{ label: 'Revenue', data: [{ x: 'Jan', y: 400000 }, { x: 'Feb', y: 350000 }, { x: 'Mar', y: 500000 }] }]
+  }
+} as unknown as ReportTemplateData;
+
+const template: ReportTemplateDraft = {
+  name: 'Monthly Review',
+  pageSize: 'a4',
+  orientation: 'portrait',
+  header: 'Confidential',
+  footer: '{title} - {period}',
+  sections: [
+    {
+      id: 'highlights',
+      title: 'Highlights',
+      blocks: [
+        { id: 'revenue-kpi', kind: 'widget', widgetType: WidgetType.KPI, title: 'Revenue', source: 'revenue.total' },
+        { id: 'utilization', kind: 'widget', widgetType: WidgetType.GAUGE_CHART, title: 'Utilization', source: 'inventory.utilizationRate' },
+        { id: 'summary', kind: 'text', text: 'Revenue grew {revenue.growth}% to {revenue.total|currency}.\n\nReturns: {returns.rate}' },
+        { id: 'break', kind: 'pageBreak' }
+      ]
+    },
+    {
+      id: 'trends',
+      title: 'Trends',
+      blocks: [{ id: 'revenue-trend', kind: 'widget', widgetType: WidgetType.LINE_CHART, title: 'Revenue Trend', source: 'revenue' }]
+    }
+  ]
+};
+
+describe('reportTemplates', () => {
+  afterAll(() => {
+    dataCacheService.destroy();
+    tabCoordinator.stop();
+  });
+
+  it('fills placeholders and validates templates', () => {
+    const context = { metrics: source.metrics, variables: { title: 'Review' }, currency: 'USD', locale: 'en-US' };
+    expect(fillPlaceholders('{title}: revenue grew {revenue.growth}% ({revenue.growth|percent})', context))
+      .toBe('Review: revenue grew 12.5% (12.5%)');
+    expect(fillPlaceholders('{revenue.total|currency} / {costs.missing} / {revenue}', context))
+      .toBe('$1,250,000.00 / n/a / n/a');
+
+    expect(validateTemplate(template)).toEqual(['Unknown placeholder: {returns.rate}']);
+    expect(validateTemplate({
+      ...template,
+      name: ' ',
+      sections: [{ id: 's', title: '', blocks: [{ id: 'g', kind: 'widget', widgetType: WidgetType.GAUGE_CHART, title: 'Revenue', source: 'revenue.total' }] }]
+    })).toEqual(['Name is required', 'Choose data for "Revenue"']);
+  });
+
+  it('builds a report definition from sections and blocks', () => {
+    const { definition, data } = buildTemplateReport(template, source, { filters, generatedAt });
+
+    expect(definition.widgets.map(widget => `${widget.type}:${widget.id}`)).toEqual([
+      'text:highlights',
+      'kpi:revenue-kpi',
+      'gauge:utilization',
+      'text:summary',
+      'pageBreak:break',
+      'text:trends',
+      'chart:revenue-trend'
+    ]);
+    expect(definition.widgets[3]).toEqual({
+      id: 'summary',
+      type: 'text',
+      text: 'Revenue grew 12.5% to $1,250,000.00.\n\nReturns: n/a'
+    });
+    expect(definition.footer).toBe('Monthly Review - 2024-01-01 to 2024-03-31');
+    expect(data['revenue-kpi']).toEqual({ value: 1250000 });
+    expect(data.utilization).toEqual({ value: 92, min: 0, max: 100 });
+    expect(data['revenue-trend']).toBe(source.revenue);
+  });
+
+  it('renders templates with text, page breaks, headers and footers', () => {
+    const pdf = Buffer.from(renderTemplateReport(template, source, ExportFormat.PDF, { filters, generatedAt }).bytes).toString('latin1');
+    expect(pdf).toContain('(Revenue grew 12.5% to $1,250,000.00.)');
+    expect(pdf).toContain('(Confidential)');
+    expect(pdf).toContain('(Monthly Review - 2024-01-01 to 2024-03-31)');
+    expect(pdf).toContain('(Page 2 of 2)');
+
+    const workbook = XLSX.read(renderTemplateReport(template, source, ExportFormat.EXCEL, { filters, generatedAt }).bytes, { type: 'array' });
+    expect(workbook.SheetNames).toEqual(['Summary', 'Revenue Trend']);
+    const summary = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets['Summary']!, { header: 1 });
+    expect(summary).toContainEqual(['Revenue grew 12.5% to $1,250,000.00.']);
+    expect(summary).toContainEqual(['Returns: n/a']);
+  });
+
+  it('saves, duplicates and deletes templates', () => {
+    const service = new ReportTemplateService({ persist: false });
+    expect(() => service.createTemplate({ ...template, sections: [] })).toThrow('Add at least one widget or text block');
+
+    const fixed = { ...template, sections: template.sections.slice(1) };
+    const saved = service.createTemplate(fixed);
+    const copy = service.duplicateTemplate(saved.id)!;
+    expect(copy.name).toBe('Monthly Review (copy)');
+    expect(copy.id).not.toBe(saved.id);
+
+    service.updateTemplate({ ...saved, name: 'Quarterly Review' });
+    expect(service.getTemplate(saved.id)!.name).toBe('Quarterly Review');
+    service.deleteTemplate(copy.id);
+    expect(service.getTemplates().map(t => t.name)).toEqual(['Quarterly Review']);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * @jest-environment node
+ */
+import { MemoryTransport, TabCoordinator, TabCoordinatorOptions, TabTransport, tabCoordinator } from '../tabCoordinator';
+
+const options = { heartbeatInterval: 100, leaderTimeout: 250, electionDelay: 30 };
+
+const createTab = (transport: TabTransport | null, overrides: Partial<TabCoordinatorOptions> = {}) =>
+  new TabCoordinator({ ...options, transport, ...overrides });
+
+const leaders = (tabs: TabCoordinator[]) => tabs.filter(tab => tab.getState().role === 'leader');
+
+afterAll(() => tabCoordinator.stop());
+
+describe('TabCoordinator', () => {
+  let tabs: TabCoordinator[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    tabs = [];
+  });
+
+  afterEach(() => {
+    tabs.forEach(tab => tab.stop());
+    jest.useRealTimers();
+  });
+
+  const open = (transport: TabTransport | null, overrides?: Partial<TabCoordinatorOptions>) => {
+    const tab = createTab(transport, overrides);
+    tabs.push(tab);
+    return tab;
+  };
+
+  it('leads right away without a transport', () => {
+    const tab = open(null);
+
+    expect(tab.isLeader()).toBe(true);
+    expect(tab.getState()).toEqual(expect.objectContaining({ role: 'leader', leaderId: tab.tabId, transport: 'none' }));
+  });
+
+  it('elects a single leader that the other tabs follow', () => {
+    const hub = new Set<MemoryTransport>();
+    const group = [open(new MemoryTransport(hub)), open(new MemoryTransport(hub)), open(new MemoryTransport(hub))];
+    jest.advanceTimersByTime(options.electionDelay * 3);
+
+    const [leader] = leaders(group);
+    expect(leaders(group)).toHaveLength(1);
+    group.forEach(tab => expect(tab.getState().leaderId).toBe(leader!.tabId));
+
+    // A tab joining later finds the existing leader instead of electing itself
+    const late = open(new MemoryTransport(hub));
+    jest.advanceTimersByTime(options.electionDelay * 3);
+    expect(late.isLeader()).toBe(false);
+    expect(late.getState().leaderId).toBe(leader!.tabId);
+  });
+
+  it('resolves split leadership by lower tab id, then by higher term', () => {
+    // Two partitions that each elect their own leader
+    const leftHub = new Set<MemoryTransport>();
+    const rightHub = new Set<MemoryTransport>();
+    const leftTransport = new MemoryTransport(leftHub);
+    const rightTransport = new MemoryTransport(rightHub);
+    const left = open(leftTransport);
+    const right = open(rightTransport);
+    jest.advanceTimersByTime(options.electionDelay * 3);
+    expect(left.isLeader() && right.isLeader()).toBe(true);
+    expect(left.getState().term).toBe(right.getState().term);
+
+    // Heal the partition: with equal terms the lower tab id keeps leading
+    leftHub.add(rightTransport);
+    rightHub.add(leftTransport);
+    jest.advanceTimersByTime(options.heartbeatInterval);
+
+    const [lower, higher] = left.tabId < right.tabId ? [left, right] : [right, left];
+    expect(lower.isLeader()).toBe(true);
+    expect(higher.isLeader()).toBe(false);
+    expect(higher.getState().leaderId).toBe(lower.tabId);
+
+    // A higher term wins regardless of tab id
+    higher.requestLeadership();
+    jest.advanceTimersByTime(options.heartbeatInterval);
+    expect(higher.isLeader()).toBe(true);
+    expect(lower.isLeader()).toBe(false);
+    expect(lower.getState()).toEqual(expect.objectContaining({ leaderId: higher.tabId, term: higher.getState().term }));
+  });
+
+  it('elects a new leader when heartbeats stop', () => {
+    const hub = new Set<MemoryTransport>();
+    const leaderTransport = new MemoryTransport(hub);
+    const first = open(leaderTransport);
+    jest.advanceTimersByTime(options.electionDelay * 3);
+    const second = open(new MemoryTransport(hub));
+    jest.advanceTimersByTime(options.electionDelay * 3);
+    expect(first.isLeader()).toBe(true);
+    const { term } = second.getState();
+
+    // The leader tab hangs: nothing it sends arrives anymore
+    jest.spyOn(leaderTransport, 'post').mockImplementation(() => {});
+    const changes: boolean[] = [];
+    second.onLeadershipChange(isLeader => changes.push(isLeader));
+
+    jest.advanceTimersByTime(options.leaderTimeout - options.heartbeatInterval);
+    expect(second.isLeader()).toBe(false);
+    jest.advanceTimersByTime(options.leaderTimeout + options.electionDelay);
+
+    expect(second.isLeader()).toBe(true);
+    expect(second.getState().term).toBe(term + 1);
+    expect(changes).toEqual([true]);
+  });
+
+  it('hands leadership over when the leader resigns', () => {
+    const hub = new Set<MemoryTransport>();
+    const first = open(new MemoryTransport(hub));
+    jest.advanceTimersByTime(options.electionDelay * 3);
+    const second = open(new MemoryTransport(hub));
+    jest.advanceTimersByTime(options.electionDelay * 3);
+
+    first.stop();
+    expect(second.getState().leaderId).toBeNull();
+    jest.advanceTimersByTime(options.electionDelay * 2);
+
+    expect(second.isLeader()).toBe(true);
+    // A stopped tab runs standalone again
+    expect(first.isLeader()).toBe(true);
+    expect(first.getState().transport).toBe('none');
+  });
+
+  it('lets a tab that becomes visible take over leadership', () => {
+    const hub = new Set<MemoryTransport>();
+    const first = open(new MemoryTransport(hub));
+    jest.advanceTimersByTime(options.electionDelay * 3);
+    const second = open(new MemoryTransport(hub));
+    jest.advanceTimersByTime(options.electionDelay * 3);
+    const steppedDown = jest.fn();
+    first.onLeadershipChange(steppedDown);
+
+    second.requestLeadership();
+
+    expect(second.isLeader()).toBe(true);
+    expect(first.isLeader()).toBe(false);
+    expect(first.getState().leaderId).toBe(second.tabId);
+    expect(steppedDown).toHaveBeenCalledWith(false);
+
+    jest.advanceTimersByTime(options.leaderTimeout * 2);
+    expect(leaders([first, second])).toEqual([second]);
+  });
+
+  it('delivers broadcasts to other tabs only', () => {
+    const hub = new Set<MemoryTransport>();
+    const first = open(new MemoryTransport(hub));
+    const second = open(new MemoryTransport(hub));
+    const received = jest.fn();
+    const own = jest.fn();
+    second.on('cache-entry', received);
+    first.on('cache-entry', own);
+
+    first.broadcast('cache-entry', { key: 'metrics' });
+
+    expect(received).toHaveBeenCalledWith({ key: 'metrics' }, expect.objectContaining({ from: first.tabId }));
+    expect(own).not.toHaveBeenCalled();
+    expect(() => first.broadcast('heartbeat')).toThrow('Reserved tab message type: heartbeat');
+  });
+});
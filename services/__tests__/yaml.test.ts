@@ -0,0 +1,69 @@
+import { parseYaml, stringifyYaml } from '../yaml';
+
+describe('yaml', () => {
+  it('round-trips nested data', () => {
+    const value = {
+      name: 'EU warehouses',
+      version: 3,
+      thresholds: [
+        {
+          id: 'threshold_1',
+          expression: 'inventory.lowStock > 10 AND NOT (pct_change(revenue.total, 1h) > 0)',
+          conditions: [{ field: 'lowStockItems', operator: 'gt', value: 1000 }],
+          labels: { region: 'EU', 'team name': 'warehouse #2' },
+          deliveryChannelIds: [],
+          enabled: true,
+          description: null
+        }
+      ],
+      globalSettings: { enableSounds: false, maxAlertsInCenter: 50 },
+      tricky: ['yes', '42', ' padded', 'a: b', 'line\nbreak', "it's", '']
+    };
+
+    expect(parseYaml(stringifyYaml(value))).toEqual(value);
+  });
+
+  it('reads hand-written YAML with comments, flow lists and quoting styles', () => {
+    const text = [
+      '# Rule set for the EU team',
+      'name: EU rules   # trailing comment',
+      'thresholds:',
+      '- id: low_stock',
+      '  severity: "warning"',
+      '  labels: {region: EU, team: \'ops, night\'}',
+      '  deliveryChannelIds: [slack, email]',
+      '  notes:',
+      '    -',
+      '      nested: ~',
+      'enabled: True'
+    ].join('\n');
+
+    expect(parseYaml(text)).toEqual({
+      name: 'EU rules',
+      thresholds: [{
+        id: 'low_stock',
+        severity: 'warning',
+        labels: { region: 'EU', team: 'ops, night' },
+        deliveryChannelIds: ['slack', 'email'],
+        notes: [{ nested: null }]
+      }],
+      enabled: true
+    });
+  });
+
+  it('reports the line of unsupported or malformed input', () => {
+    const errorOf = (text: string): string => {
+      try {
+        parseYaml(text);
+        return '';
+      } catch (error) {
+        return (error as Error).message;
+      }
+    };
+
+    expect(errorOf('a: 1\na: 2')).toBe('Line 2: duplicate key "a"');
+    expect(errorOf('a:\n  b: 1\n c: 2')).toBe('Line 3: unexpected indentation');
+    expect(errorOf('base: &anchor 1')).toMatch(/^Line 1: "&"/);
+    expect(errorOf('a:\n\tb: 1')).toBe('Line 2: tabs are not allowed for indentation');
+  });
+});
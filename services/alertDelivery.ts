@@ -0,0 +1,583 @@
+import { AlertSeverity, AlertStatus, AlertType } from '../types/alerts';
+import { configService } from './configService';
+import { Clock, systemClock } from './clock';
+import { TrackedAlert } from './alertLifecycle';
+import { TabCoordinator, tabCoordinator } from './tabCoordinator';
+
+export type DeliveryEvent = 'triggered' | 'escalated' | 'resolved';
+export type ChannelKind = 'webhook' | 'email' | 'slack' | 'teams';
+
+export interface MessageTemplate {
+  subject: string;
+  body: string;
+}
+
+interface ChannelBase {
+  id: string;
+  name: string;
+  enabled: boolean;
+  events: DeliveryEvent[];
+  minSeverity: AlertSeverity;
+  template: MessageTemplate;
+}
+
+export interface WebhookChannel extends ChannelBase {
+  kind: 'webhook';
+  url: string;
+  secret?: string; // Signs payloads with HMAC-SHA256 when set; kept in memory only
+  headers?: Record<string, string>;
+}
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  username?: string; // The relay holds the password
+}
+
+export interface EmailChannel extends ChannelBase {
+  kind: 'email';
+  from: string;
+  to: string[];
+  smtp: SmtpSettings;
+  relayUrl?: string; // Defaults to configService.alertEmailRelayUrl
+  includeEscalationRecipients?: boolean; // Also mail escalation recipients that look like addresses
+}
+
+export interface ChatChannel extends ChannelBase {
+  kind: 'slack' | 'teams';
+  url: string; // Incoming webhook URL
+}
+
+export type DeliveryChannel = WebhookChannel | EmailChannel | ChatChannel;
+
+export interface DeliveryContext {
+  event: DeliveryEvent;
+  alert: TrackedAlert;
+  thresholdName?: string | undefined;
+  recipients?: string[] | undefined; // Escalation recipients
+}
+
+export interface RenderedMessage {
+  subject: string;
+  body: string;
+}
+
+export interface DeliveryRequest {
+  url: string;
+  method: 'POST';
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface DeliveryResponse {
+  status: number;
+  body?: string;
+}
+
+export type DeliveryTransport = (request: DeliveryRequest) => Promise<DeliveryResponse>;
+
+/**
+ * Turns a rendered message into an HTTP request for one kind of channel
+ */
+export interface ChannelDriver<C extends DeliveryChannel = DeliveryChannel> {
+  kind: C['kind'];
+  buildRequest(channel: C, message: RenderedMessage, context: DeliveryContext): Promise<DeliveryRequest>;
+}
+
+export type DeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed';
+
+export interface DeliveryLogEntry {
+  id: string;
+  channelId: string;
+  channelName: string;
+  alertId: string;
+  alertTitle: string;
+  event: DeliveryEvent;
+  status: DeliveryStatus;
+  attempts: number;
+  responseStatus?: number | undefined;
+  lastError?: string | undefined;
+  nextAttemptAt?: string | undefined;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DeliveryRetryConfig {
+  maxAttempts: number;
+  retryDelay: number;
+  backoffMultiplier: number;
+  maxRetryDelay: number;
+}
+
+export const TEMPLATE_PLACEHOLDERS = [
+  'event',
+  'alert.id',
+  'alert.title',
+  'alert.message',
+  'alert.severity',
+  'alert.status',
+  'alert.type',
+  'alert.triggeredAt',
+  'alert.currentValue',
+  'alert.thresholdValue',
+  'alert.occurrences',
+  'threshold.name',
+  'recipients'
+];
+
+export const DEFAULT_MESSAGE_TEMPLATE: MessageTemplate = {
+  subject: '[{{alert.severity}}] {{alert.title}} ({{event}})',
+  body: '{{alert.message}}\nCurrent value: {{alert.currentValue}}\nThreshold: {{threshold.name}}\nTriggered: {{alert.triggeredAt}}'
+};
+
+export const DEFAULT_RETRY_CONFIG: DeliveryRetryConfig = {
+  maxAttempts: 5,
+  retryDelay: 30000, // 30 seconds
+  backoffMultiplier: 2,
+  maxRetryDelay: 15 * 60 * 1000 // 15 minutes
+};
+
+const SEVERITY_ORDER: AlertSeverity[] = [AlertSeverity.INFO, AlertSeverity.WARNING, AlertSeverity.ERROR, AlertSeverity.CRITICAL];
+
+const SEVERITY_COLORS: Record<string, string> = {
+  [AlertSeverity.INFO]: '2196F3',
+  [AlertSeverity.WARNING]: 'FF9800',
+  [AlertSeverity.ERROR]: 'F44336',
+  [AlertSeverity.CRITICAL]: 'B71C1C'
+};
+
+const CHANNELS_STORAGE_KEY = 'alertDeliveryChannels';
+const LOG_STORAGE_KEY = 'alertDeliveryLog';
+const LOG_MESSAGE = 'alert-delivery-log';
+const MAX_LOG_ENTRIES = 200;
+
+/**
+ * Signing keys never go to localStorage, where any script on the origin can read them
+ */
+const withoutSecret = (channel: DeliveryChannel): DeliveryChannel => {
+  if (channel.kind !== 'webhook' || channel.secret === undefined) return channel;
+  const { secret: _secret, ...rest } = channel;
+  return rest;
+};
+
+/**
+ * Fill `{{placeholder}}` tokens from the delivery context; unknown placeholders render empty
+ */
+export const renderTemplate = (template: string, context: DeliveryContext): string => {
+  const { alert } = context;
+  const values: Record<string, unknown> = {
+    event: context.event,
+    'alert.id': alert.id,
+    'alert.title': alert.title,
+    'alert.message': alert.message,
+    'alert.severity': alert.severity,
+    'alert.status': alert.status,
+    'alert.type': alert.type,
+    'alert.triggeredAt': alert.triggeredAt,
+    'alert.currentValue': alert.metadata?.currentValue,
+    'alert.thresholdValue': alert.metadata?.thresholdValue,
+    'alert.occurrences': alert.occurrences ?? 1,
+    'threshold.name': context.thresholdName,
+    recipients: context.recipients?.join(', ')
+  };
+
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, key: string) => {
+    const value = values[key];
+    return value === undefined || value === null ? '' : String(value);
+  });
+};
+
+export const renderMessage = (template: MessageTemplate, context: DeliveryContext): RenderedMessage => ({
+  subject: renderTemplate(template.subject, context),
+  body: renderTemplate(template.body, context)
+});
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * HMAC-SHA256 of `${timestamp}.${body}`, hex encoded
+ */
+export const signPayload = async (secret: string, timestamp: string, body: string): Promise<string> => {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error('Web Crypto is not available to sign webhook payloads');
+  }
+
+  const encoder = new TextEncoder();
+  const key = await subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`)));
+};
+
+const summarizeAlert = (alert: TrackedAlert) => ({
+  id: alert.id,
+  type: alert.type,
+  severity: alert.severity,
+  status: alert.status,
+  title: alert.title,
+  message: alert.message,
+  triggeredAt: alert.triggeredAt,
+  occurrences: alert.occurrences ?? 1,
+  metadata: alert.metadata
+});
+
+const webhookDriver: ChannelDriver<WebhookChannel> = {
+  kind: 'webhook',
+  async buildRequest(channel, message, context) {
+    const body = JSON.stringify({
+      event: context.event,
+      subject: message.subject,
+      text: message.body,
+      alert: summarizeAlert(context.alert),
+      threshold: context.thresholdName,
+      recipients: context.recipients || []
+    });
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', ...channel.headers };
+
+    if (channel.secret) {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      headers['X-Alert-Timestamp'] = timestamp;
+      headers['X-Alert-Signature'] = `sha256=${await signPayload(channel.secret, timestamp, body)}`;
+    }
+
+    return { url: channel.url, method: 'POST', headers, body };
+  }
+};
+
+const emailDriver: ChannelDriver<EmailChannel> = {
+  kind: 'email',
+  async buildRequest(channel, message, context) {
+    const escalationRecipients = channel.includeEscalationRecipients
+      ? (context.recipients || []).filter(recipient => recipient.includes('@'))
+      : [];
+
+    return {
+      url: channel.relayUrl || configService.alertEmailRelayUrl,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        smtp: channel.smtp,
+        from: channel.from,
+        to: Array.from(new Set([...channel.to, ...escalationRecipients])),
+        subject: message.subject,
+        text: message.body
+      })
+    };
+  }
+};
+
+const slackDriver: ChannelDriver<ChatChannel> = {
+  kind: 'slack',
+  async buildRequest(channel, message, context) {
+    return {
+      url: channel.url,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        text: `${message.subject}\n${message.body}`,
+        blocks: [
+          { type: 'header', text: { type: 'plain_text', text: message.subject } },
+          { type: 'section', text: { type: 'mrkdwn', text: message.body } },
+          {
+            type: 'context',
+            elements: [{ type: 'mrkdwn', text: `Severity: *${context.alert.severity}* • Event: ${context.event}` }]
+          }
+        ]
+      })
+    };
+  }
+};
+
+const teamsDriver: ChannelDriver<ChatChannel> = {
+  kind: 'teams',
+  async buildRequest(channel, message, context) {
+    return {
+      url: channel.url,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        '@type': 'MessageCard',
+        '@context': 'https://schema.org/extensions',
+        summary: message.subject,
+        themeColor: SEVERITY_COLORS[context.alert.severity] || SEVERITY_COLORS[AlertSeverity.INFO],
+        title: message.subject,
+        text: message.body.replace(/\n/g, '<br>'),
+        sections: [{
+          facts: [
+            { name: 'Severity', value: context.alert.severity },
+            { name: 'Event', value: context.event },
+            { name: 'Status', value: context.alert.status }
+          ]
+        }]
+      })
+    };
+  }
+};
+
+export const fetchTransport: DeliveryTransport = async request => {
+  const response = await fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body
+  });
+  return { status: response.status, body: await response.text() };
+};
+
+export interface AlertDeliveryOptions {
+  transport?: DeliveryTransport;
+  clock?: Clock;
+  retry?: Partial<DeliveryRetryConfig>;
+  persist?: boolean;
+  isLeader?: () => boolean; // Only the leader tab sends, so each message goes out once
+  coordinator?: TabCoordinator | null; // Shares the leader's log with the other tabs
+}
+
+/**
+ * Delivers alert events to outbound channels through a retry queue and keeps
+ * a log of every attempt
+ */
+export class AlertDeliveryService {
+  private channels: DeliveryChannel[] = [];
+  private log: DeliveryLogEntry[] = [];
+  private drivers = new Map<string, ChannelDriver<any>>();
+  private listeners = new Set<(log: DeliveryLogEntry[]) => void>();
+  private transport: DeliveryTransport;
+  private clock: Clock;
+  private retryConfig: DeliveryRetryConfig;
+  private persist: boolean;
+  private isLeader: () => boolean;
+  private coordinator: TabCoordinator | null;
+
+  constructor(options: AlertDeliveryOptions = {}) {
+    this.transport = options.transport || fetchTransport;
+    this.clock = options.clock || systemClock;
+    this.retryConfig = { ...DEFAULT_RETRY_CONFIG, ...options.retry };
+    this.isLeader = options.isLeader || (() => true);
+    this.coordinator = options.coordinator || null;
+    this.coordinator?.on<DeliveryLogEntry[]>(LOG_MESSAGE, log => this.mirrorLog(log));
+    ([webhookDriver, emailDriver, slackDriver, teamsDriver] as ChannelDriver<any>[]).forEach(driver => this.registerDriver(driver));
+
+    this.persist = options.persist !== false && typeof localStorage !== 'undefined';
+    if (this.persist) {
+      this.load();
+    }
+  }
+
+  /**
+   * Add or replace the driver for a channel kind
+   */
+  registerDriver<C extends DeliveryChannel>(driver: ChannelDriver<C>): void {
+    this.drivers.set(driver.kind, driver);
+  }
+
+  setTransport(transport: DeliveryTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Queue an alert event for every listed channel that accepts it. Follower
+   * tabs send nothing and see the leader's deliveries in their log.
+   */
+  deliver(context: DeliveryContext, channelIds: string[]): DeliveryLogEntry[] {
+    if (!this.isLeader()) return [];
+
+    const severity = SEVERITY_ORDER.indexOf(context.alert.severity);
+    return this.channels
+      .filter(channel => channelIds.includes(channel.id) && channel.enabled)
+      .filter(channel => channel.events.includes(context.event))
+      .filter(channel => severity >= SEVERITY_ORDER.indexOf(channel.minSeverity))
+      .map(channel => this.enqueue(channel, context));
+  }
+
+  /**
+   * Send a sample alert through a channel, regardless of its event and severity filters
+   */
+  sendTest(channelId: string): DeliveryLogEntry | null {
+    const channel = this.channels.find(c => c.id === channelId);
+    if (!channel) return null;
+
+    const alert: TrackedAlert = {
+      id: `alert_test_${this.clock.now()}`,
+      type: AlertType.INVENTORY_LOW_STOCK,
+      severity: AlertSeverity.INFO,
+      status: AlertStatus.ACTIVE,
+      title: 'Test alert',
+      message: `Test message from the dashboard to ${channel.name}`,
+      thresholdId: 'test',
+      triggeredAt: new Date(this.clock.now()).toISOString(),
+      metadata: { currentValue: 42 }
+    };
+    return this.enqueue(channel, { event: 'triggered', thresholdName: 'Test threshold', alert });
+  }
+
+  private enqueue(channel: DeliveryChannel, context: DeliveryContext): DeliveryLogEntry {
+    const now = new Date(this.clock.now()).toISOString();
+    const entry: DeliveryLogEntry = {
+      id: `delivery_${this.clock.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      channelId: channel.id,
+      channelName: channel.name,
+      alertId: context.alert.id,
+      alertTitle: context.alert.title,
+      event: context.event,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.log.unshift(entry);
+    this.log = this.log.slice(0, MAX_LOG_ENTRIES);
+    this.notify();
+
+    // Snapshot the alert so retries send what was true when the event happened
+    void this.attempt(entry, channel, { ...context, alert: { ...context.alert } });
+    return entry;
+  }
+
+  private async attempt(entry: DeliveryLogEntry, channel: DeliveryChannel, context: DeliveryContext): Promise<void> {
+    entry.attempts++;
+    let retryable = true;
+
+    try {
+      const driver = this.drivers.get(channel.kind);
+      if (!driver) {
+        retryable = false;
+        throw new Error(`No delivery driver for channel kind "${channel.kind}"`);
+      }
+
+      const request = await driver.buildRequest(channel, renderMessage(channel.template, context), context);
+      const response = await this.transport(request);
+      entry.responseStatus = response.status;
+
+      if (response.status < 200 || response.status >= 300) {
+        // Client errors other than rate limiting won't succeed on retry
+        retryable = response.status >= 500 || response.status === 429;
+        throw new Error(`HTTP ${response.status}${response.body ? `: ${response.body.slice(0, 200)}` : ''}`);
+      }
+
+      entry.status = 'delivered';
+      entry.lastError = undefined;
+      entry.nextAttemptAt = undefined;
+    } catch (error) {
+      entry.lastError = error instanceof Error ? error.message : String(error);
+
+      if (retryable && entry.attempts < this.retryConfig.maxAttempts) {
+        const delay = this.getRetryDelay(entry.attempts);
+        entry.status = 'retrying';
+        entry.nextAttemptAt = new Date(this.clock.now() + delay).toISOString();
+        this.clock.setTimeout(() => void this.attempt(entry, channel, context), delay);
+      } else {
+        entry.status = 'failed';
+        entry.nextAttemptAt = undefined;
+        configService.log('warn', `Alert delivery to "${channel.name}" failed after ${entry.attempts} attempt(s):`, entry.lastError);
+      }
+    }
+
+    entry.updatedAt = new Date(this.clock.now()).toISOString();
+    this.notify();
+  }
+
+  private getRetryDelay(attempts: number): number {
+    const { retryDelay, backoffMultiplier, maxRetryDelay } = this.retryConfig;
+    return Math.min(retryDelay * Math.pow(backoffMultiplier, attempts - 1), maxRetryDelay);
+  }
+
+  // Channel management
+  getChannels(): DeliveryChannel[] {
+    return [...this.channels];
+  }
+
+  updateChannel(channel: DeliveryChannel): void {
+    const index = this.channels.findIndex(c => c.id === channel.id);
+    this.channels = index >= 0
+      ? this.channels.map(c => (c.id === channel.id ? channel : c))
+      : [...this.channels, channel];
+    this.save();
+  }
+
+  deleteChannel(channelId: string): void {
+    this.channels = this.channels.filter(c => c.id !== channelId);
+    this.save();
+  }
+
+  getLog(): DeliveryLogEntry[] {
+    return this.log.map(entry => ({ ...entry }));
+  }
+
+  clearLog(): void {
+    this.log = this.log.filter(entry => entry.status === 'pending' || entry.status === 'retrying');
+    this.notify();
+  }
+
+  subscribe(listener: (log: DeliveryLogEntry[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.saveLog();
+    const log = this.getLog();
+    this.listeners.forEach(listener => listener(log));
+    if (this.isLeader()) this.coordinator?.broadcast(LOG_MESSAGE, log);
+  }
+
+  /**
+   * Take over the leader tab's log in a follower tab
+   */
+  private mirrorLog(log: DeliveryLogEntry[]): void {
+    if (this.isLeader()) return;
+    this.log = log.map(entry => ({ ...entry }));
+    const snapshot = this.getLog();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  private load(): void {
+    try {
+      const channels = localStorage.getItem(CHANNELS_STORAGE_KEY);
+      if (channels) {
+        const stored = JSON.parse(channels) as DeliveryChannel[];
+        this.channels = stored.map(withoutSecret);
+        // Settings saved before signing keys were kept out of storage
+        if (stored.some(channel => channel.kind === 'webhook' && channel.secret)) this.save();
+      }
+      const log = localStorage.getItem(LOG_STORAGE_KEY);
+      if (log) {
+        // Retries don't survive a reload
+        this.log = (JSON.parse(log) as DeliveryLogEntry[]).map(entry =>
+          entry.status === 'pending' || entry.status === 'retrying'
+            ? { ...entry, status: 'failed', lastError: entry.lastError || 'Interrupted by page reload', nextAttemptAt: undefined }
+            : entry
+        );
+      }
+    } catch (error) {
+      console.error('Failed to load alert delivery settings:', error);
+    }
+  }
+
+  private save(): void {
+    if (!this.persist) return;
+    try {
+      localStorage.setItem(CHANNELS_STORAGE_KEY, JSON.stringify(this.channels.map(withoutSecret)));
+    } catch (error) {
+      console.error('Failed to save alert delivery channels:', error);
+    }
+  }
+
+  private saveLog(): void {
+    if (!this.persist) return;
+    try {
+      localStorage.setItem(LOG_STORAGE_KEY, JSON.stringify(this.log));
+    } catch (error) {
+      console.error('Failed to save alert delivery log:', error);
+    }
+  }
+}
+
+export const alertDeliveryService = new AlertDeliveryService({
+  isLeader: () => tabCoordinator.isLeader(),
+  coordinator: tabCoordinator
+});
+export default alertDeliveryService;
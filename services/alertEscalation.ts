@@ -0,0 +1,161 @@
+import { Clock, ClockHandle, systemClock } from './clock';
+
+export type EscalationTarget =
+  | { kind: 'user'; name: string }
+  | { kind: 'rotation'; rotationId: string };
+
+export interface EscalationStep {
+  delay: number; // Time after the alert triggered, in ms
+  targets: EscalationTarget[];
+}
+
+export interface EscalationPolicy {
+  id: string;
+  name: string;
+  steps: EscalationStep[];
+}
+
+export interface RotationOverride {
+  user: string;
+  start: string;
+  end: string;
+}
+
+/**
+ * On-call rotation: participants take turns in fixed-length shifts from `start`
+ */
+export interface RotationSchedule {
+  id: string;
+  name: string;
+  participants: string[];
+  start: string; // First handoff
+  shiftLength: number; // ms
+  overrides?: RotationOverride[];
+}
+
+export interface EscalationRecord {
+  policyId: string;
+  step: number; // Zero-based step index
+  recipients: string[];
+  at: string;
+}
+
+export const DEFAULT_ESCALATION_POLICIES: EscalationPolicy[] = [
+  {
+    id: 'policy_default',
+    name: 'Owner, team lead, director',
+    steps: [
+      { delay: 0, targets: [{ kind: 'rotation', rotationId: 'rotation_primary' }] },
+      { delay: 15 * 60 * 1000, targets: [{ kind: 'user', name: 'Team Lead' }] },
+      { delay: 60 * 60 * 1000, targets: [{ kind: 'user', name: 'Director' }] }
+    ]
+  }
+];
+
+export const DEFAULT_ROTATIONS: RotationSchedule[] = [
+  {
+    id: 'rotation_primary',
+    name: 'Primary on-call',
+    participants: ['Alert Owner'],
+    start: '2024-01-01T09:00:00.000Z',
+    shiftLength: 7 * 24 * 60 * 60 * 1000
+  }
+];
+
+/**
+ * Who is on call for a rotation at a point in time; overrides win over the regular shift
+ */
+export const getOnCall = (rotation: RotationSchedule, timestamp: number): string | null => {
+  const override = rotation.overrides?.find(entry =>
+    new Date(entry.start).getTime() <= timestamp && timestamp < new Date(entry.end).getTime()
+  );
+  if (override) return override.user;
+
+  const start = new Date(rotation.start).getTime();
+  if (rotation.participants.length === 0 || !(rotation.shiftLength > 0) || Number.isNaN(start)) return null;
+
+  const shift = Math.floor((timestamp - start) / rotation.shiftLength);
+  const index = ((shift % rotation.participants.length) + rotation.participants.length) % rotation.participants.length;
+  return rotation.participants[index]!;
+};
+
+export const resolveRecipients = (targets: EscalationTarget[], rotations: RotationSchedule[], timestamp: number): string[] =>
+  Array.from(new Set(targets.flatMap(target => {
+    if (target.kind === 'user') return [target.name];
+    const rotation = rotations.find(entry => entry.id === target.rotationId);
+    const onCall = rotation ? getOnCall(rotation, timestamp) : null;
+    return onCall ? [onCall] : [];
+  })));
+
+export const describeTarget = (target: EscalationTarget, rotations: RotationSchedule[]): string =>
+  target.kind === 'user'
+    ? target.name
+    : `${rotations.find(entry => entry.id === target.rotationId)?.name || target.rotationId} (rotation)`;
+
+/**
+ * Walks unacknowledged alerts through their escalation policy. Steps fire at
+ * their delay after the alert triggered; `stop` ends escalation for an alert.
+ */
+export class EscalationManager {
+  private timers = new Map<string, ClockHandle>();
+  private policies: EscalationPolicy[] = [];
+  private rotations: RotationSchedule[] = [];
+
+  constructor(
+    private onEscalate: (alertId: string, record: EscalationRecord) => void,
+    private clock: Clock = systemClock
+  ) {}
+
+  configure(policies: EscalationPolicy[], rotations: RotationSchedule[]): void {
+    this.policies = policies;
+    this.rotations = rotations;
+  }
+
+  /**
+   * Start escalating an alert; steps whose time has already passed fire immediately
+   */
+  start(alertId: string, policyId: string, triggeredAt: number, fromStep = 0): void {
+    this.stop(alertId);
+    this.scheduleStep(alertId, policyId, triggeredAt, fromStep);
+  }
+
+  stop(alertId: string): void {
+    const handle = this.timers.get(alertId);
+    if (handle !== undefined) {
+      this.clock.clearTimeout(handle);
+      this.timers.delete(alertId);
+    }
+  }
+
+  stopAll(): void {
+    Array.from(this.timers.keys()).forEach(alertId => this.stop(alertId));
+  }
+
+  isEscalating(alertId: string): boolean {
+    return this.timers.has(alertId);
+  }
+
+  private scheduleStep(alertId: string, policyId: string, triggeredAt: number, stepIndex: number): void {
+    const policy = this.policies.find(entry => entry.id === policyId);
+    const step = policy?.steps[stepIndex];
+    if (!step) {
+      this.timers.delete(alertId);
+      return;
+    }
+
+    const delay = Math.max(triggeredAt + step.delay - this.clock.now(), 0);
+    this.timers.set(alertId, this.clock.setTimeout(() => {
+      const now = this.clock.now();
+      this.onEscalate(alertId, {
+        policyId,
+        step: stepIndex,
+        recipients: resolveRecipients(step.targets, this.rotations, now),
+        at: new Date(now).toISOString()
+      });
+      // The callback may have stopped escalation (e.g. the alert is gone)
+      if (this.timers.has(alertId)) {
+        this.scheduleStep(alertId, policyId, triggeredAt, stepIndex + 1);
+      }
+    }, delay));
+  }
+}
@@ -0,0 +1,578 @@
+/**
+ * Small expression language for alert rules, e.g.
+ *
+ *   revenue.growth - costs.growth < -5 AND NOT (inventory.utilizationRate > 95)
+ *   pct_change(revenue.total, 1h) <= -10 OR avg(customers.satisfaction, 1d) < 3.5
+ *
+ * Metrics are dotted paths, durations are numbers with a s/m/h/d/w suffix.
+ * Missing data evaluates to "unknown", which never triggers a rule.
+ */
+
+export type ComparisonOperator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+export type ArithmeticOperator = '+' | '-' | '*' | '/';
+export type LogicalOperator = 'AND' | 'OR';
+
+interface NodeBase {
+  start: number;
+  end: number;
+}
+
+export type ExpressionNode =
+  | (NodeBase & { kind: 'number'; value: number })
+  | (NodeBase & { kind: 'duration'; ms: number })
+  | (NodeBase & { kind: 'metric'; path: string })
+  | (NodeBase & { kind: 'negate'; operand: ExpressionNode })
+  | (NodeBase & { kind: 'not'; operand: ExpressionNode })
+  | (NodeBase & { kind: 'arithmetic'; operator: ArithmeticOperator; left: ExpressionNode; right: ExpressionNode })
+  | (NodeBase & { kind: 'comparison'; operator: ComparisonOperator; left: ExpressionNode; right: ExpressionNode })
+  | (NodeBase & { kind: 'logical'; operator: LogicalOperator; left: ExpressionNode; right: ExpressionNode })
+  | (NodeBase & { kind: 'call'; name: string; args: ExpressionNode[] });
+
+export interface ExpressionError {
+  message: string;
+  start: number; // Offset into the source, for highlighting
+  end: number;
+}
+
+export interface ParseResult {
+  ast: ExpressionNode | null;
+  errors: ExpressionError[];
+}
+
+export interface MetricSample {
+  timestamp: number;
+  value: number;
+}
+
+export interface ExpressionContext {
+  now: number;
+  getValue(path: string): number | undefined;
+  getValueAt(path: string, timestamp: number): number | undefined; // Latest sample at or before timestamp
+  getSamples(path: string, from: number, to: number): MetricSample[];
+}
+
+export interface RuleEvaluation {
+  triggered: boolean;
+  value?: number | undefined; // Left-hand side of the first comparison, for alert messages
+}
+
+type ValueType = 'number' | 'boolean' | 'duration';
+type Value = number | boolean | null;
+
+interface FunctionSpec {
+  params: ('metric' | 'number' | 'duration')[];
+  description: string;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+export const EXPRESSION_FUNCTIONS: Record<string, FunctionSpec> = {
+  pct_change: { params: ['metric', 'duration'], description: 'Percent change of a metric over a window' },
+  change: { params: ['metric', 'duration'], description: 'Absolute change of a metric over a window' },
+  avg: { params: ['metric', 'duration'], description: 'Average of a metric over a window' },
+  min: { params: ['metric', 'duration'], description: 'Minimum of a metric over a window' },
+  max: { params: ['metric', 'duration'], description: 'Maximum of a metric over a window' },
+  abs: { params: ['number'], description: 'Absolute value' }
+};
+
+// --- Tokenizer ---
+
+type TokenType = 'number' | 'duration' | 'identifier' | 'operator' | 'keyword' | 'lparen' | 'rparen' | 'comma' | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  start: number;
+  end: number;
+}
+
+const KEYWORDS: Record<string, string> = { and: 'AND', or: 'OR', not: 'NOT' };
+const SYMBOL_ALIASES: Record<string, string> = { '&&': 'AND', '||': 'OR', '!': 'NOT', '=': '==', '<>': '!=' };
+const OPERATORS = ['>=', '<=', '==', '!=', '<>', '&&', '||', '>', '<', '=', '!', '+', '-', '*', '/'];
+
+const syntaxError = (message: string, start: number, end: number): ExpressionError => ({ message, start, end });
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i]!;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)([a-zA-Z_]*)/.exec(source.slice(i));
+      if (!match) {
+        throw syntaxError(`Unexpected "${char}"`, start, start + 1);
+      }
+      const text = match[0];
+      const suffix = match[2];
+      if (suffix) {
+        if (!(suffix in DURATION_UNITS)) {
+          throw syntaxError(`Unknown duration unit "${suffix}" (use s, m, h, d or w)`, start, start + text.length);
+        }
+        tokens.push({ type: 'duration', text, start, end: start + text.length });
+      } else {
+        tokens.push({ type: 'number', text, start, end: start + text.length });
+      }
+      i += text.length;
+      continue;
+    }
+
+    if (/[a-zA-Z_]/.test(char)) {
+      const text = /^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z_][a-zA-Z0-9_]*)*/.exec(source.slice(i))![0];
+      const keyword = KEYWORDS[text.toLowerCase()];
+      tokens.push({ type: keyword ? 'keyword' : 'identifier', text: keyword || text, start, end: start + text.length });
+      i += text.length;
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ type: char === '(' ? 'lparen' : char === ')' ? 'rparen' : 'comma', text: char, start, end: start + 1 });
+      i++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (operator) {
+      const text = SYMBOL_ALIASES[operator] || operator;
+      tokens.push({ type: text === 'AND' || text === 'OR' || text === 'NOT' ? 'keyword' : 'operator', text, start, end: start + operator.length });
+      i += operator.length;
+      continue;
+    }
+
+    throw syntaxError(`Unexpected character "${char}"`, start, start + 1);
+  }
+
+  tokens.push({ type: 'eof', text: '', start: source.length, end: source.length });
+  return tokens;
+};
+
+// --- Parser (recursive descent, lowest precedence first) ---
+
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw syntaxError(`Unexpected "${next.text}"`, next.start, next.end);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position]!;
+  }
+
+  private advance(): Token {
+    return this.tokens[this.position++]!;
+  }
+
+  private match(type: TokenType, ...texts: string[]): Token | null {
+    const token = this.peek();
+    if (token.type === type && (texts.length === 0 || texts.includes(token.text))) {
+      this.position++;
+      return token;
+    }
+    return null;
+  }
+
+  private expect(type: TokenType, description: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw syntaxError(
+        token.type === 'eof' ? `Expected ${description} at end of expression` : `Expected ${description} but found "${token.text}"`,
+        token.start,
+        Math.max(token.end, token.start + 1)
+      );
+    }
+    return this.advance();
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.match('keyword', 'OR')) {
+      const right = this.parseAnd();
+      left = { kind: 'logical', operator: 'OR', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.match('keyword', 'AND')) {
+      const right = this.parseNot();
+      left = { kind: 'logical', operator: 'AND', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    const not = this.match('keyword', 'NOT');
+    if (not) {
+      const operand = this.parseNot();
+      return { kind: 'not', operand, start: not.start, end: operand.end };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    const operator = this.match('operator', '>', '>=', '<', '<=', '==', '!=');
+    if (!operator) return left;
+
+    const right = this.parseAdditive();
+    const next = this.peek();
+    if (next.type === 'operator' && ['>', '>=', '<', '<=', '==', '!='].includes(next.text)) {
+      throw syntaxError('Comparisons cannot be chained, combine them with AND', next.start, next.end);
+    }
+    return { kind: 'comparison', operator: operator.text as ComparisonOperator, left, right, start: left.start, end: right.end };
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    let operator: Token | null;
+    while ((operator = this.match('operator', '+', '-'))) {
+      const right = this.parseMultiplicative();
+      left = { kind: 'arithmetic', operator: operator.text as ArithmeticOperator, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    let operator: Token | null;
+    while ((operator = this.match('operator', '*', '/'))) {
+      const right = this.parseUnary();
+      left = { kind: 'arithmetic', operator: operator.text as ArithmeticOperator, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const minus = this.match('operator', '-');
+    if (minus) {
+      const operand = this.parseUnary();
+      return { kind: 'negate', operand, start: minus.start, end: operand.end };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.advance();
+        return { kind: 'number', value: parseFloat(token.text), start: token.start, end: token.end };
+      case 'duration': {
+        this.advance();
+        const unit = token.text.replace(/^[\d.]+/, '');
+        return { kind: 'duration', ms: parseFloat(token.text) * DURATION_UNITS[unit]!, start: token.start, end: token.end };
+      }
+      case 'identifier': {
+        this.advance();
+        if (!this.match('lparen')) {
+          return { kind: 'metric', path: token.text, start: token.start, end: token.end };
+        }
+        const args: ExpressionNode[] = [];
+        if (!this.match('rparen')) {
+          do {
+            args.push(this.parseOr());
+          } while (this.match('comma'));
+          const close = this.expect('rparen', '")"');
+          return { kind: 'call', name: token.text, args, start: token.start, end: close.end };
+        }
+        return { kind: 'call', name: token.text, args, start: token.start, end: this.tokens[this.position - 1]!.end };
+      }
+      case 'lparen': {
+        this.advance();
+        const inner = this.parseOr();
+        this.expect('rparen', '")"');
+        return inner;
+      }
+      default:
+        throw syntaxError(
+          token.type === 'eof' ? 'Unexpected end of expression' : `Unexpected "${token.text}"`,
+          token.start,
+          Math.max(token.end, token.start + 1)
+        );
+    }
+  }
+}
+
+const isExpressionError = (error: unknown): error is ExpressionError =>
+  typeof error === 'object' && error !== null && 'message' in error && 'start' in error && 'end' in error;
+
+/**
+ * Parse an expression; syntax errors are returned rather than thrown
+ */
+export const parseExpression = (source: string): ParseResult => {
+  if (!source.trim()) {
+    return { ast: null, errors: [syntaxError('Expression is empty', 0, 0)] };
+  }
+
+  try {
+    return { ast: new Parser(tokenize(source)).parse(), errors: [] };
+  } catch (error) {
+    if (isExpressionError(error)) {
+      return { ast: null, errors: [error] };
+    }
+    throw error;
+  }
+};
+
+// --- Validation ---
+
+const TYPE_NAMES: Record<ValueType, string> = { number: 'a number', boolean: 'a condition', duration: 'a duration' };
+
+/**
+ * Type-check a parsed expression and check metric and function names
+ */
+const checkTypes = (node: ExpressionNode, knownMetrics: Set<string> | null, errors: ExpressionError[]): ValueType | null => {
+  const expect = (child: ExpressionNode, expected: ValueType, context: string): void => {
+    const type = checkTypes(child, knownMetrics, errors);
+    if (type && type !== expected) {
+      errors.push(syntaxError(`${context} expects ${TYPE_NAMES[expected]}, got ${TYPE_NAMES[type]}`, child.start, child.end));
+    }
+  };
+
+  switch (node.kind) {
+    case 'number':
+      return 'number';
+    case 'duration':
+      return 'duration';
+    case 'metric':
+      if (knownMetrics && !knownMetrics.has(node.path)) {
+        errors.push(syntaxError(`Unknown metric "${node.path}"`, node.start, node.end));
+      }
+      return 'number';
+    case 'negate':
+      expect(node.operand, 'number', 'Unary "-"');
+      return 'number';
+    case 'not':
+      expect(node.operand, 'boolean', 'NOT');
+      return 'boolean';
+    case 'arithmetic':
+      expect(node.left, 'number', `"${node.operator}"`);
+      expect(node.right, 'number', `"${node.operator}"`);
+      return 'number';
+    case 'comparison':
+      expect(node.left, 'number', `"${node.operator}"`);
+      expect(node.right, 'number', `"${node.operator}"`);
+      return 'boolean';
+    case 'logical':
+      expect(node.left, 'boolean', node.operator);
+      expect(node.right, 'boolean', node.operator);
+      return 'boolean';
+    case 'call': {
+      const spec = EXPRESSION_FUNCTIONS[node.name];
+      if (!spec) {
+        errors.push(syntaxError(
+          `Unknown function "${node.name}" (available: ${Object.keys(EXPRESSION_FUNCTIONS).join(', ')})`,
+          node.start,
+          node.end
+        ));
+        return 'number';
+      }
+      if (node.args.length !== spec.params.length) {
+        errors.push(syntaxError(`${node.name}() takes ${spec.params.length} argument(s), got ${node.args.length}`, node.start, node.end));
+        return 'number';
+      }
+      node.args.forEach((arg, index) => {
+        const param = spec.params[index]!;
+        if (param === 'metric') {
+          if (arg.kind !== 'metric') {
+            errors.push(syntaxError(`${node.name}() expects a metric name as argument ${index + 1}`, arg.start, arg.end));
+          } else {
+            checkTypes(arg, knownMetrics, errors);
+          }
+        } else {
+          expect(arg, param, `${node.name}()`);
+        }
+      });
+      return 'number';
+    }
+  }
+};
+
+/**
+ * Parse and validate an expression. Pass the known metric names to flag typos.
+ */
+export const validateExpression = (source: string, knownMetrics?: Iterable<string>): ExpressionError[] => {
+  const { ast, errors } = parseExpression(source);
+  if (!ast) return errors;
+
+  const typeErrors: ExpressionError[] = [];
+  const type = checkTypes(ast, knownMetrics ? new Set(knownMetrics) : null, typeErrors);
+  if (type && type !== 'boolean') {
+    typeErrors.push(syntaxError(`Expression must be a condition (e.g. "... > 10"), got ${TYPE_NAMES[type]}`, ast.start, ast.end));
+  }
+  return typeErrors;
+};
+
+/**
+ * Metric paths referenced by an expression
+ */
+export const getReferencedMetrics = (node: ExpressionNode): string[] => {
+  const paths = new Set<string>();
+
+  const visit = (current: ExpressionNode): void => {
+    switch (current.kind) {
+      case 'metric':
+        paths.add(current.path);
+        break;
+      case 'negate':
+      case 'not':
+        visit(current.operand);
+        break;
+      case 'arithmetic':
+      case 'comparison':
+      case 'logical':
+        visit(current.left);
+        visit(current.right);
+        break;
+      case 'call':
+        current.args.forEach(visit);
+        break;
+    }
+  };
+
+  visit(node);
+  return Array.from(paths);
+};
+
+// --- Evaluation ---
+
+const compare = (operator: ComparisonOperator, left: number, right: number): boolean => {
+  switch (operator) {
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '==': return left === right;
+    case '!=': return left !== right;
+  }
+};
+
+const evaluateCall = (node: Extract<ExpressionNode, { kind: 'call' }>, context: ExpressionContext, evaluate: (node: ExpressionNode) => Value): Value => {
+  if (node.name === 'abs') {
+    const value = evaluate(node.args[0]!);
+    return typeof value === 'number' ? Math.abs(value) : null;
+  }
+
+  const metric = node.args[0];
+  const window = node.args[1];
+  if (metric?.kind !== 'metric' || window?.kind !== 'duration') return null;
+
+  const from = context.now - window.ms;
+
+  if (node.name === 'pct_change' || node.name === 'change') {
+    const current = context.getValue(metric.path);
+    const baseline = context.getValueAt(metric.path, from);
+    if (current === undefined || baseline === undefined) return null;
+    if (node.name === 'change') return current - baseline;
+    return baseline === 0 ? null : ((current - baseline) / Math.abs(baseline)) * 100;
+  }
+
+  const values = context.getSamples(metric.path, from, context.now).map(sample => sample.value);
+  if (values.length === 0) return null;
+
+  switch (node.name) {
+    case 'avg': return values.reduce((sum, value) => sum + value, 0) / values.length;
+    case 'min': return Math.min(...values);
+    case 'max': return Math.max(...values);
+    default: return null;
+  }
+};
+
+/**
+ * Evaluate a parsed rule. Unknown values (missing metrics or history)
+ * propagate through operators and never trigger.
+ */
+export const evaluateRule = (ast: ExpressionNode, context: ExpressionContext): RuleEvaluation => {
+  let observed: number | undefined;
+
+  const evaluate = (node: ExpressionNode): Value => {
+    switch (node.kind) {
+      case 'number':
+        return node.value;
+      case 'duration':
+        return node.ms;
+      case 'metric': {
+        const value = context.getValue(node.path);
+        return value === undefined || Number.isNaN(value) ? null : value;
+      }
+      case 'negate': {
+        const value = evaluate(node.operand);
+        return typeof value === 'number' ? -value : null;
+      }
+      case 'not': {
+        const value = evaluate(node.operand);
+        return typeof value === 'boolean' ? !value : null;
+      }
+      case 'arithmetic': {
+        const left = evaluate(node.left);
+        const right = evaluate(node.right);
+        if (typeof left !== 'number' || typeof right !== 'number') return null;
+        switch (node.operator) {
+          case '+': return left + right;
+          case '-': return left - right;
+          case '*': return left * right;
+          case '/': return right === 0 ? null : left / right;
+        }
+        return null;
+      }
+      case 'comparison': {
+        const left = evaluate(node.left);
+        const right = evaluate(node.right);
+        if (typeof left === 'number' && observed === undefined) {
+          observed = left;
+        }
+        if (typeof left !== 'number' || typeof right !== 'number') return null;
+        return compare(node.operator, left, right);
+      }
+      case 'logical': {
+        const left = evaluate(node.left);
+        const right = evaluate(node.right);
+        // Three-valued logic: a known false (AND) or true (OR) decides regardless of unknowns
+        if (node.operator === 'AND') {
+          if (left === false || right === false) return false;
+          return left === true && right === true ? true : null;
+        }
+        if (left === true || right === true) return true;
+        return left === false && right === false ? false : null;
+      }
+      case 'call':
+        return evaluateCall(node, context, evaluate);
+    }
+  };
+
+  return { triggered: evaluate(ast) === true, value: observed };
+};
+
+/**
+ * Context backed by a plain value map, without history
+ */
+export const createStaticContext = (values: Record<string, number>, now = Date.now()): ExpressionContext => ({
+  now,
+  getValue: path => values[path],
+  getValueAt: () => undefined,
+  getSamples: () => []
+});
@@ -0,0 +1,452 @@
+import { AlertSeverity, AlertStatus, AlertType } from '../types/alerts';
+import { configService } from './configService';
+import { toCsvCell } from './csv';
+import { AlertTimelineEvent, TrackedAlert } from './alertLifecycle';
+import { promisifyRequest } from './persistentCacheStore';
+
+/**
+ * Alert as kept in the history store, with the name of its threshold at the time
+ */
+export type AlertHistoryRecord = TrackedAlert & {
+  thresholdName?: string;
+  updatedAt: string;
+  archived?: boolean; // Cleared from the notification center, kept for audit
+};
+
+export interface AlertHistoryBackend {
+  readonly name: string;
+  getAll(): Promise<AlertHistoryRecord[]>;
+  putMany(records: AlertHistoryRecord[]): Promise<void>;
+  deleteMany(ids: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface AlertHistoryOptions {
+  maxAge: number; // Records triggered longer ago than this are dropped, in ms
+  maxRecords: number;
+  backend?: AlertHistoryBackend;
+}
+
+export interface AlertHistoryQuery {
+  text?: string; // Every word must appear in the alert's title, message, threshold, people or timeline
+  types?: AlertType[];
+  severities?: AlertSeverity[];
+  statuses?: AlertStatus[];
+  acknowledgedBy?: string[];
+  from?: string; // Triggered at or after
+  to?: string; // Triggered at or before
+  limit?: number;
+  offset?: number;
+}
+
+export interface AlertHistoryFacets {
+  types: Record<string, number>;
+  severities: Record<string, number>;
+  statuses: Record<string, number>;
+  acknowledgedBy: Record<string, number>;
+}
+
+export interface AlertHistoryResult {
+  records: AlertHistoryRecord[]; // Newest first, after limit and offset
+  total: number;
+  facets: AlertHistoryFacets; // Counts for each facet with every other filter applied
+}
+
+export interface AlertResponseStats {
+  alerts: number;
+  acknowledged: number;
+  resolved: number;
+  mtta: number | null; // Mean time to acknowledge, in ms
+  mttr: number | null; // Mean time to resolve, in ms
+}
+
+export const DEFAULT_HISTORY_OPTIONS: AlertHistoryOptions = {
+  maxAge: 365 * 24 * 60 * 60 * 1000, // 1 year
+  maxRecords: 20000
+};
+
+const DB_NAME = 'sap-dashboard-alerts';
+const DB_VERSION = 1;
+const STORE_NAME = 'alerts';
+
+/**
+ * IndexedDB-backed alert history, survives page reloads
+ */
+export class IndexedDBHistoryBackend implements AlertHistoryBackend {
+  readonly name = 'indexeddb';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async getAll(): Promise<AlertHistoryRecord[]> {
+    return promisifyRequest((await this.store('readonly')).getAll());
+  }
+
+  async putMany(records: AlertHistoryRecord[]): Promise<void> {
+    const store = await this.store('readwrite');
+    await Promise.all(records.map(record => promisifyRequest(store.put(record))));
+  }
+
+  async deleteMany(ids: string[]): Promise<void> {
+    const store = await this.store('readwrite');
+    await Promise.all(ids.map(id => promisifyRequest(store.delete(id))));
+  }
+
+  async clear(): Promise<void> {
+    await promisifyRequest((await this.store('readwrite')).clear());
+  }
+}
+
+/**
+ * In-memory history used when IndexedDB is unavailable (tests, private browsing)
+ */
+export class MemoryHistoryBackend implements AlertHistoryBackend {
+  readonly name = 'memory';
+  private records = new Map<string, AlertHistoryRecord>();
+
+  async getAll(): Promise<AlertHistoryRecord[]> {
+    return Array.from(this.records.values());
+  }
+
+  async putMany(records: AlertHistoryRecord[]): Promise<void> {
+    records.forEach(record => this.records.set(record.id, record));
+  }
+
+  async deleteMany(ids: string[]): Promise<void> {
+    ids.forEach(id => this.records.delete(id));
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+  }
+}
+
+const byNewest = (a: AlertHistoryRecord, b: AlertHistoryRecord): number =>
+  new Date(b.triggeredAt).getTime() - new Date(a.triggeredAt).getTime();
+
+const getSearchText = (record: AlertHistoryRecord): string => [
+  record.title,
+  record.message,
+  record.type,
+  record.severity,
+  record.status,
+  record.thresholdName,
+  record.acknowledgedBy,
+  record.resolvedBy,
+  record.dismissedBy,
+  ...Object.entries(record.labels || {}).map(([key, value]) => `${key}=${value}`),
+  ...(record.timeline || []).flatMap(event => [event.by, event.detail])
+].filter(Boolean).join(' ').toLowerCase();
+
+type FacetName = keyof AlertHistoryFacets;
+
+const FACET_VALUES: Record<FacetName, (record: AlertHistoryRecord) => string | undefined> = {
+  types: record => record.type,
+  severities: record => record.severity,
+  statuses: record => record.status,
+  acknowledgedBy: record => record.acknowledgedBy
+};
+
+const countFacet = (records: AlertHistoryRecord[], facet: FacetName): Record<string, number> =>
+  records.reduce((counts, record) => {
+    const value = FACET_VALUES[facet](record);
+    if (value) counts[value] = (counts[value] || 0) + 1;
+    return counts;
+  }, {} as Record<string, number>);
+
+/**
+ * Full-text and faceted search over history records
+ */
+export const searchAlertHistory = (records: AlertHistoryRecord[], query: AlertHistoryQuery): AlertHistoryResult => {
+  const terms = (query.text || '').toLowerCase().split(/\s+/).filter(Boolean);
+  const from = query.from ? new Date(query.from).getTime() : -Infinity;
+  const to = query.to ? new Date(query.to).getTime() : Infinity;
+
+  // Text and date range apply to every facet count
+  const base = records.filter(record => {
+    const triggeredAt = new Date(record.triggeredAt).getTime();
+    if (triggeredAt < from || triggeredAt > to) return false;
+    if (terms.length === 0) return true;
+    const text = getSearchText(record);
+    return terms.every(term => text.includes(term));
+  });
+
+  const selected: Record<FacetName, string[] | undefined> = {
+    types: query.types,
+    severities: query.severities,
+    statuses: query.statuses,
+    acknowledgedBy: query.acknowledgedBy
+  };
+  const facetNames = Object.keys(FACET_VALUES) as FacetName[];
+  const matchesFacets = (record: AlertHistoryRecord, except?: FacetName) => facetNames.every(facet => {
+    const values = selected[facet];
+    return facet === except || !values?.length || values.includes(FACET_VALUES[facet](record) || '');
+  });
+
+  const matches = base.filter(record => matchesFacets(record)).sort(byNewest);
+  const offset = query.offset || 0;
+
+  return {
+    records: matches.slice(offset, query.limit !== undefined ? offset + query.limit : undefined),
+    total: matches.length,
+    facets: facetNames.reduce((facets, facet) => {
+      facets[facet] = countFacet(base.filter(record => matchesFacets(record, facet)), facet);
+      return facets;
+    }, {} as AlertHistoryFacets)
+  };
+};
+
+const mean = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+/**
+ * Mean time to acknowledge and resolve, measured from when each alert triggered
+ */
+export const computeResponseStats = (records: AlertHistoryRecord[]): AlertResponseStats => {
+  const elapsed = (record: AlertHistoryRecord, at: string | undefined) =>
+    at ? new Date(at).getTime() - new Date(record.triggeredAt).getTime() : NaN;
+  const acknowledged = records.map(record => elapsed(record, record.acknowledgedAt)).filter(ms => ms >= 0);
+  const resolved = records
+    .filter(record => record.status === AlertStatus.RESOLVED)
+    .map(record => elapsed(record, record.resolvedAt))
+    .filter(ms => ms >= 0);
+
+  return {
+    alerts: records.length,
+    acknowledged: acknowledged.length,
+    resolved: resolved.length,
+    mtta: mean(acknowledged),
+    mttr: mean(resolved)
+  };
+};
+
+export const formatDuration = (ms: number | null): string => {
+  if (ms === null) return '–';
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return `${Math.round(ms / 1000)}s`;
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+/**
+ * Timeline of an alert; alerts recorded before timelines existed get one from their timestamps
+ */
+const getAuditEvents = (record: AlertHistoryRecord): AlertTimelineEvent[] => {
+  if (record.timeline?.length) return record.timeline;
+  return [
+    { type: 'triggered' as const, at: record.triggeredAt },
+    ...(record.acknowledgedAt ? [{ type: 'acknowledged' as const, at: record.acknowledgedAt, by: record.acknowledgedBy }] : []),
+    ...(record.resolvedAt ? [{ type: 'resolved' as const, at: record.resolvedAt, by: record.resolvedBy }] : []),
+    ...(record.dismissedAt ? [{ type: 'dismissed' as const, at: record.dismissedAt, by: record.dismissedBy }] : [])
+  ];
+};
+
+const AUDIT_CSV_COLUMNS = [
+  'alert_id',
+  'title',
+  'type',
+  'severity',
+  'threshold_id',
+  'threshold_name',
+  'current_status',
+  'event',
+  'event_at',
+  'event_by',
+  'value',
+  'detail'
+];
+
+/**
+ * Audit trail as CSV, one row per timeline event, oldest alert first
+ */
+export const toAuditCsv = (records: AlertHistoryRecord[]): string => {
+  const rows = [...records].sort((a, b) => byNewest(b, a)).flatMap(record =>
+    getAuditEvents(record).map(event => [
+      record.id,
+      record.title,
+      record.type,
+      record.severity,
+      record.thresholdId,
+      record.thresholdName,
+      record.status,
+      event.type,
+      event.at,
+      event.by,
+      event.value,
+      event.detail
+    ].map(value => toCsvCell(value)).join(','))
+  );
+  return [AUDIT_CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+export const toAuditJson = (records: AlertHistoryRecord[], query: AlertHistoryQuery = {}): string =>
+  JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    query,
+    count: records.length,
+    alerts: [...records].sort((a, b) => byNewest(b, a)).map(record => ({ ...record, timeline: getAuditEvents(record) }))
+  }, null, 2);
+
+/**
+ * Persistent store of every alert raised, independent of what the notification
+ * center still shows. Reads are served from memory; writes go to the backend
+ * in the background.
+ */
+export class AlertHistoryStore {
+  private records = new Map<string, AlertHistoryRecord>();
+  private written = new Map<string, string>(); // Serialized alert last written, to skip unchanged alerts
+  private backend: AlertHistoryBackend;
+  private options: AlertHistoryOptions;
+  private loading: Promise<AlertHistoryRecord[]> | null = null;
+
+  constructor(options: Partial<AlertHistoryOptions> = {}) {
+    this.options = { ...DEFAULT_HISTORY_OPTIONS, ...options };
+    this.backend = options.backend || (typeof indexedDB !== 'undefined'
+      ? new IndexedDBHistoryBackend()
+      : new MemoryHistoryBackend());
+  }
+
+  get backendName(): string {
+    return this.backend.name;
+  }
+
+  /**
+   * Load persisted history once; alerts recorded in the meantime take precedence
+   */
+  load(): Promise<AlertHistoryRecord[]> {
+    if (!this.loading) {
+      this.loading = this.backend.getAll()
+        .then(stored => {
+          stored.forEach(record => {
+            if (!this.records.has(record.id)) {
+              this.records.set(record.id, record);
+              this.written.set(record.id, this.serialize(record));
+            }
+          });
+          return this.enforceRetention();
+        })
+        .catch(error => {
+          configService.log('warn', `Failed to load alert history (${this.backend.name}):`, error);
+        })
+        .then(() => this.getRecords());
+    }
+    return this.loading;
+  }
+
+  /**
+   * Save alerts that are new or changed since they were last recorded
+   */
+  record(alerts: TrackedAlert[], getThresholdName: (thresholdId: string) => string | undefined = () => undefined): void {
+    const now = new Date().toISOString();
+    const changed: AlertHistoryRecord[] = [];
+
+    alerts.forEach(alert => {
+      const serialized = this.serialize(alert);
+      if (this.written.get(alert.id) === serialized) return;
+
+      const previous = this.records.get(alert.id);
+      const record: AlertHistoryRecord = {
+        ...alert,
+        thresholdName: previous?.thresholdName ?? getThresholdName(alert.thresholdId),
+        updatedAt: now,
+        ...(previous?.archived ? { archived: true } : {})
+      };
+      this.records.set(alert.id, record);
+      this.written.set(alert.id, serialized);
+      changed.push(record);
+    });
+
+    if (changed.length > 0) {
+      this.backend.putMany(changed)
+        .then(() => (this.records.size > this.options.maxRecords ? this.enforceRetention() : undefined))
+        .catch(error => configService.log('warn', 'Failed to persist alert history:', error));
+    }
+  }
+
+  /**
+   * Mark alerts as cleared from the notification center so they aren't restored on reload
+   */
+  archive(alertIds: string[]): void {
+    const archived = alertIds
+      .map(id => this.records.get(id))
+      .filter((record): record is AlertHistoryRecord => Boolean(record && !record.archived))
+      .map(record => ({ ...record, archived: true }));
+    if (archived.length === 0) return;
+
+    archived.forEach(record => this.records.set(record.id, record));
+    this.backend.putMany(archived)
+      .catch(error => configService.log('warn', 'Failed to archive alert history:', error));
+  }
+
+  /**
+   * All records, newest first
+   */
+  getRecords(): AlertHistoryRecord[] {
+    return Array.from(this.records.values()).sort(byNewest);
+  }
+
+  search(query: AlertHistoryQuery): AlertHistoryResult {
+    return searchAlertHistory(Array.from(this.records.values()), query);
+  }
+
+  getResponseStats(since?: number): AlertResponseStats {
+    const records = Array.from(this.records.values());
+    return computeResponseStats(since === undefined
+      ? records
+      : records.filter(record => new Date(record.triggeredAt).getTime() >= since));
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+    this.written.clear();
+    try {
+      await this.backend.clear();
+    } catch (error) {
+      configService.log('warn', 'Failed to clear alert history:', error);
+    }
+  }
+
+  private serialize(alert: TrackedAlert): string {
+    const { thresholdName: _name, updatedAt: _updatedAt, archived: _archived, ...rest } = alert as AlertHistoryRecord;
+    return JSON.stringify(rest);
+  }
+
+  /**
+   * Drop records past the maximum age, then the oldest beyond the record limit
+   */
+  private async enforceRetention(): Promise<void> {
+    const cutoff = Date.now() - this.options.maxAge;
+    const sorted = this.getRecords();
+    const expired = sorted
+      .filter((record, index) => index >= this.options.maxRecords || new Date(record.triggeredAt).getTime() < cutoff)
+      .map(record => record.id);
+    if (expired.length === 0) return;
+
+    expired.forEach(id => {
+      this.records.delete(id);
+      this.written.delete(id);
+    });
+    await this.backend.deleteMany(expired);
+    configService.log('debug', `Dropped ${expired.length} alert history records past retention`);
+  }
+}
@@ -0,0 +1,139 @@
+import { Alert } from '../types/alerts';
+import { EscalationRecord } from './alertEscalation';
+import { AffectedEntity } from './inventoryEntities';
+
+export interface AlertLifecycleSettings {
+  clearAfterChecks: number; // Consecutive clear checks before an alert auto-resolves
+  clearRule?: string | undefined; // Expression that must hold for a check to count as clear (hysteresis)
+  flapWindow: number; // Window in ms over which condition changes are counted
+  flapThreshold: number; // Condition changes within the window that mark a threshold as flapping
+}
+
+export type AlertTimelineEventType =
+  | 'triggered'
+  | 'retriggered'
+  | 'acknowledged'
+  | 'resolved'
+  | 'auto-resolved'
+  | 'dismissed'
+  | 'escalated'
+  | 'flapping'
+  | 'stable'
+  | 'updated';
+
+export interface AlertTimelineEvent {
+  type: AlertTimelineEventType;
+  at: string;
+  by?: string | undefined;
+  value?: number | undefined;
+  detail?: string | undefined;
+}
+
+/**
+ * Alert with its occurrence count and state history
+ */
+export type TrackedAlert = Alert & {
+  occurrences?: number;
+  lastTriggeredAt?: string;
+  flapping?: boolean;
+  timeline?: AlertTimelineEvent[];
+  escalationPolicyId?: string;
+  escalations?: EscalationRecord[];
+  labels?: Record<string, string>;
+  entities?: AffectedEntity[]; // SKUs, categories, warehouses or regions a grouped alert covers
+};
+
+/**
+ * Result of one check of a threshold: the trigger rule holds, the clear rule
+ * holds, or neither (missing data, or a value inside the hysteresis band)
+ */
+export type ThresholdObservation = 'firing' | 'clear' | 'hold';
+
+export interface ThresholdLifecycleState {
+  condition: 'firing' | 'clear';
+  clearChecks: number;
+  clearSince?: number | undefined;
+  changes: number[]; // Timestamps of condition changes within the flap window
+  flapping: boolean;
+}
+
+export type LifecycleAction = 'open' | 'retrigger' | 'resolve' | 'none';
+
+export interface LifecycleStep {
+  state: ThresholdLifecycleState;
+  action: LifecycleAction;
+  flappingChanged: boolean;
+}
+
+export const DEFAULT_LIFECYCLE_SETTINGS: AlertLifecycleSettings = {
+  clearAfterChecks: 3,
+  flapWindow: 30 * 60 * 1000, // 30 minutes
+  flapThreshold: 4
+};
+
+// Timeline entries kept per alert
+const MAX_TIMELINE_EVENTS = 50;
+
+export const createLifecycleState = (): ThresholdLifecycleState => ({
+  condition: 'clear',
+  clearChecks: 0,
+  changes: [],
+  flapping: false
+});
+
+/**
+ * Advance a threshold's state by one check. Alerts open when the condition starts
+ * firing, repeat on later re-triggers, and resolve once the condition has been
+ * clear for enough consecutive checks and `minClearDuration`. While the condition
+ * flaps, the open alert is kept instead of resolving and re-opening.
+ */
+export const advanceLifecycle = (
+  previous: ThresholdLifecycleState,
+  observation: ThresholdObservation,
+  hasOpenAlert: boolean,
+  settings: AlertLifecycleSettings,
+  now: number,
+  minClearDuration = 0
+): LifecycleStep => {
+  if (observation === 'hold') {
+    // Neither side of the hysteresis band: nothing changes, but clear checks must be consecutive
+    return { state: { ...previous, clearChecks: 0, clearSince: undefined }, action: 'none', flappingChanged: false };
+  }
+
+  const changed = observation !== previous.condition;
+  const changes = [...previous.changes, ...(changed ? [now] : [])]
+    .filter(timestamp => now - timestamp <= settings.flapWindow);
+  const flapping = changes.length >= settings.flapThreshold;
+
+  const state: ThresholdLifecycleState = {
+    condition: observation,
+    clearChecks: observation === 'clear' ? previous.clearChecks + 1 : 0,
+    clearSince: observation === 'clear' ? previous.clearSince ?? now : undefined,
+    changes,
+    flapping
+  };
+  const flappingChanged = flapping !== previous.flapping;
+
+  let action: LifecycleAction = 'none';
+  if (observation === 'firing' && changed) {
+    action = hasOpenAlert ? 'retrigger' : 'open';
+  } else if (
+    observation === 'clear'
+    && hasOpenAlert
+    && !flapping
+    && settings.clearAfterChecks > 0
+    && state.clearChecks >= settings.clearAfterChecks
+    && now - state.clearSince! >= minClearDuration
+  ) {
+    action = 'resolve';
+  }
+
+  return { state, action, flappingChanged };
+};
+
+/**
+ * Append an event to an alert's timeline
+ */
+export const addTimelineEvent = (alert: TrackedAlert, event: Omit<AlertTimelineEvent, 'at'>, at = new Date().toISOString()): void => {
+  alert.timeline = [...(alert.timeline || []), { ...event, at }].slice(-MAX_TIMELINE_EVENTS);
+};
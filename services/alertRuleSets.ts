@@ -0,0 +1,403 @@
+import { AlertConfiguration, AlertSeverity } from '../types/alerts';
+import type { AlertRuleThreshold } from './alertService';
+import type { ExpressionError } from './alertExpressions';
+import { AnomalySettings, validateAnomalySettings } from './anomalyDetection';
+import { ENTITY_SCOPE_LABELS } from './inventoryEntities';
+import { parseYaml, stringifyYaml } from './yaml';
+
+export const RULE_SET_SCHEMA_VERSION = 1;
+
+export type RuleSetFormat = 'json' | 'yaml';
+
+export type GlobalAlertSettings = AlertConfiguration['globalSettings'];
+
+/**
+ * Thresholds and global settings as exported to, and imported from, a file
+ */
+export interface AlertRuleSet {
+  schemaVersion: number;
+  version: number; // Version in the history of the machine that exported it
+  name: string;
+  description?: string | undefined;
+  exportedAt: string;
+  exportedBy?: string | undefined;
+  thresholds: AlertRuleThreshold[];
+  globalSettings: GlobalAlertSettings;
+}
+
+export type RuleSetVersionSource = 'saved' | 'import' | 'rollback' | 'snapshot';
+
+/**
+ * A rule set that was in effect at some point, kept for rollback
+ */
+export interface RuleSetVersion {
+  version: number;
+  name: string;
+  description?: string | undefined;
+  source: RuleSetVersionSource;
+  createdAt: string;
+  createdBy?: string | undefined;
+  thresholds: AlertRuleThreshold[];
+  globalSettings: GlobalAlertSettings;
+}
+
+export interface RuleSetIssue {
+  level: 'error' | 'warning';
+  path: string; // e.g. `thresholds[2].expression`
+  message: string;
+}
+
+export interface RuleSetValidationContext {
+  alertTypes: string[];
+  defaultGlobalSettings: GlobalAlertSettings;
+  validateExpression: (source: string) => ExpressionError[];
+  escalationPolicyIds?: string[]; // Unknown references are reported as warnings
+  deliveryChannelIds?: string[];
+}
+
+export type RuleSetImportMode = 'replace' | 'merge';
+
+export interface ThresholdChange {
+  before: AlertRuleThreshold;
+  after: AlertRuleThreshold;
+  fields: string[];
+}
+
+export interface RuleSetDiff {
+  added: AlertRuleThreshold[];
+  removed: AlertRuleThreshold[];
+  changed: ThresholdChange[];
+  unchanged: number;
+  settings: { key: string; before: unknown; after: unknown }[];
+}
+
+const CONDITION_OPERATORS = ['gt', 'lt', 'gte', 'lte', 'eq', 'neq'];
+const NOTIFICATION_FLAGS = ['showToast', 'showInCenter', 'playSound', 'persistent', 'autoResolve'];
+
+// Bookkeeping fields that don't count as changes
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt']);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Check a parsed rule set file against the schema. Errors block an import;
+ * warnings (e.g. a delivery channel that doesn't exist here) don't.
+ */
+export const validateRuleSet = (value: unknown, context: RuleSetValidationContext): RuleSetIssue[] => {
+  const issues: RuleSetIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ level: 'error', path, message });
+  const warning = (path: string, message: string) => issues.push({ level: 'warning', path, message });
+
+  if (!isRecord(value)) {
+    error('', 'A rule set must be an object with thresholds and globalSettings');
+    return issues;
+  }
+
+  if (typeof value.schemaVersion !== 'number' || !Number.isInteger(value.schemaVersion)) {
+    error('schemaVersion', 'Must be an integer');
+  } else if (value.schemaVersion > RULE_SET_SCHEMA_VERSION) {
+    error('schemaVersion', `Version ${value.schemaVersion} is newer than this dashboard supports (${RULE_SET_SCHEMA_VERSION})`);
+  }
+  if (value.name !== undefined && typeof value.name !== 'string') error('name', 'Must be a string');
+  if (value.version !== undefined && typeof value.version !== 'number') error('version', 'Must be a number');
+
+  if (!Array.isArray(value.thresholds)) {
+    error('thresholds', 'Must be a list');
+  } else {
+    const ids = new Set<string>();
+    value.thresholds.forEach((threshold, index) => {
+      const path = `thresholds[${index}]`;
+      if (!isRecord(threshold)) {
+        error(path, 'Must be an object');
+        return;
+      }
+
+      if (typeof threshold.id !== 'string' || !threshold.id.trim()) {
+        error(`${path}.id`, 'Required');
+      } else if (ids.has(threshold.id)) {
+        error(`${path}.id`, `Duplicate id "${threshold.id}"`);
+      } else {
+        ids.add(threshold.id);
+      }
+      if (typeof threshold.name !== 'string' || !threshold.name.trim()) error(`${path}.name`, 'Required');
+      if (!context.alertTypes.includes(threshold.type as string)) {
+        error(`${path}.type`, `Unknown alert type "${String(threshold.type)}"`);
+      }
+      if (!Object.values(AlertSeverity).includes(threshold.severity as AlertSeverity)) {
+        error(`${path}.severity`, `Must be one of ${Object.values(AlertSeverity).join(', ')}`);
+      }
+      if (typeof threshold.enabled !== 'boolean') error(`${path}.enabled`, 'Must be true or false');
+      if (threshold.description !== undefined && threshold.description !== null && typeof threshold.description !== 'string') {
+        error(`${path}.description`, 'Must be a string');
+      }
+
+      if (!Array.isArray(threshold.conditions)) {
+        error(`${path}.conditions`, 'Must be a list');
+      } else {
+        threshold.conditions.forEach((condition, conditionIndex) => {
+          const conditionPath = `${path}.conditions[${conditionIndex}]`;
+          if (!isRecord(condition) || typeof condition.field !== 'string' || typeof condition.value !== 'number') {
+            error(conditionPath, 'Must have a field and a numeric value');
+          } else if (!CONDITION_OPERATORS.includes(condition.operator as string)) {
+            error(`${conditionPath}.operator`, `Must be one of ${CONDITION_OPERATORS.join(', ')}`);
+          }
+        });
+      }
+
+      if (!isRecord(threshold.notificationSettings)) {
+        error(`${path}.notificationSettings`, 'Required');
+      } else {
+        const settings = threshold.notificationSettings;
+        NOTIFICATION_FLAGS.forEach(flag => {
+          if (typeof settings[flag] !== 'boolean') error(`${path}.notificationSettings.${flag}`, 'Must be true or false');
+        });
+        if (settings.autoResolveDelay !== undefined && typeof settings.autoResolveDelay !== 'number') {
+          error(`${path}.notificationSettings.autoResolveDelay`, 'Must be a number of minutes');
+        }
+      }
+
+      if (threshold.expression !== undefined && threshold.expression !== null) {
+        if (typeof threshold.expression !== 'string') {
+          error(`${path}.expression`, 'Must be a string');
+        } else if (threshold.expression.trim()) {
+          context.validateExpression(threshold.expression).forEach(expressionError =>
+            error(`${path}.expression`, `${expressionError.message} (column ${expressionError.start + 1})`));
+        }
+      }
+
+      if (threshold.anomaly !== undefined) {
+        if (!isRecord(threshold.anomaly) || typeof threshold.anomaly.metric !== 'string') {
+          error(`${path}.anomaly`, 'Must have a metric');
+        } else {
+          validateAnomalySettings(threshold.anomaly as unknown as AnomalySettings).forEach(message => error(`${path}.anomaly`, message));
+        }
+      }
+
+      if (threshold.lifecycle !== undefined) {
+        if (!isRecord(threshold.lifecycle)) {
+          error(`${path}.lifecycle`, 'Must be an object');
+        } else if (typeof threshold.lifecycle.clearRule === 'string' && threshold.lifecycle.clearRule.trim()) {
+          context.validateExpression(threshold.lifecycle.clearRule).forEach(expressionError =>
+            error(`${path}.lifecycle.clearRule`, `${expressionError.message} (column ${expressionError.start + 1})`));
+        }
+      }
+
+      if (threshold.entityScope !== undefined && !(threshold.entityScope as string in ENTITY_SCOPE_LABELS)) {
+        error(`${path}.entityScope`, `Must be one of ${Object.keys(ENTITY_SCOPE_LABELS).join(', ')}`);
+      }
+
+      if (threshold.labels !== undefined && (!isRecord(threshold.labels) || Object.values(threshold.labels).some(label => typeof label !== 'string'))) {
+        error(`${path}.labels`, 'Must map names to text values');
+      }
+
+      if (threshold.escalationPolicyId !== undefined) {
+        if (typeof threshold.escalationPolicyId !== 'string') {
+          error(`${path}.escalationPolicyId`, 'Must be a string');
+        } else if (context.escalationPolicyIds && !context.escalationPolicyIds.includes(threshold.escalationPolicyId)) {
+          warning(`${path}.escalationPolicyId`, `No escalation policy "${threshold.escalationPolicyId}" on this machine`);
+        }
+      }
+
+      if (threshold.deliveryChannelIds !== undefined) {
+        if (!Array.isArray(threshold.deliveryChannelIds) || threshold.deliveryChannelIds.some(id => typeof id !== 'string')) {
+          error(`${path}.deliveryChannelIds`, 'Must be a list of channel ids');
+        } else if (context.deliveryChannelIds) {
+          (threshold.deliveryChannelIds as string[])
+            .filter(id => !context.deliveryChannelIds!.includes(id))
+            .forEach(id => warning(`${path}.deliveryChannelIds`, `No delivery channel "${id}" on this machine`));
+        }
+      }
+    });
+  }
+
+  if (!isRecord(value.globalSettings)) {
+    error('globalSettings', 'Required');
+  } else {
+    const defaults = context.defaultGlobalSettings as unknown as Record<string, unknown>;
+    Object.entries(value.globalSettings).forEach(([key, setting]) => {
+      if (!(key in defaults)) {
+        warning(`globalSettings.${key}`, 'Unknown setting, ignored');
+      } else if (typeof setting !== typeof defaults[key]) {
+        error(`globalSettings.${key}`, `Must be a ${typeof defaults[key]}`);
+      }
+    });
+  }
+
+  return issues;
+};
+
+const detectFormat = (text: string): RuleSetFormat => (/^\s*[{[]/.test(text) ? 'json' : 'yaml');
+
+/**
+ * Parse and validate a rule set file. Returns the rule set only when there are no errors.
+ */
+export const parseRuleSet = (
+  text: string,
+  context: RuleSetValidationContext,
+  format: RuleSetFormat = detectFormat(text)
+): { ruleSet?: AlertRuleSet; issues: RuleSetIssue[] } => {
+  let value: unknown;
+  try {
+    value = format === 'json' ? JSON.parse(text) : parseYaml(text);
+  } catch (parseError) {
+    const message = parseError instanceof Error ? parseError.message : String(parseError);
+    return { issues: [{ level: 'error', path: '', message: `Invalid ${format.toUpperCase()}: ${message}` }] };
+  }
+
+  const issues = validateRuleSet(value, context);
+  if (issues.some(issue => issue.level === 'error')) return { issues };
+
+  const parsed = value as AlertRuleSet;
+  const defaults = context.defaultGlobalSettings as unknown as Record<string, unknown>;
+  const globalSettings = Object.fromEntries(
+    Object.entries(parsed.globalSettings).filter(([key]) => key in defaults)
+  ) as Partial<GlobalAlertSettings>;
+
+  return {
+    ruleSet: {
+      ...parsed,
+      name: parsed.name || 'Imported rule set',
+      version: parsed.version || 0,
+      globalSettings: { ...context.defaultGlobalSettings, ...globalSettings }
+    },
+    issues
+  };
+};
+
+export const serializeRuleSet = (ruleSet: AlertRuleSet, format: RuleSetFormat): string =>
+  format === 'json' ? `${JSON.stringify(ruleSet, null, 2)}\n` : stringifyYaml(ruleSet);
+
+const comparable = (threshold: AlertRuleThreshold): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(threshold)
+      .filter(([key, value]) => !IGNORED_FIELDS.has(key) && value !== undefined)
+      .map(([key, value]) => [key, JSON.stringify(value)])
+  );
+
+/**
+ * What importing a rule set would change. In merge mode thresholds missing
+ * from the rule set are kept, so nothing is removed.
+ */
+export const diffRuleSets = (
+  current: { thresholds: AlertRuleThreshold[]; globalSettings: GlobalAlertSettings },
+  incoming: { thresholds: AlertRuleThreshold[]; globalSettings: GlobalAlertSettings },
+  mode: RuleSetImportMode = 'replace'
+): RuleSetDiff => {
+  const currentById = new Map(current.thresholds.map(threshold => [threshold.id, threshold]));
+  const incomingIds = new Set(incoming.thresholds.map(threshold => threshold.id));
+  const diff: RuleSetDiff = { added: [], removed: [], changed: [], unchanged: 0, settings: [] };
+
+  incoming.thresholds.forEach(after => {
+    const before = currentById.get(after.id);
+    if (!before) {
+      diff.added.push(after);
+      return;
+    }
+    const beforeFields = comparable(before);
+    const afterFields = comparable(after);
+    const fields = Array.from(new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]))
+      .filter(field => beforeFields[field] !== afterFields[field]);
+    if (fields.length > 0) {
+      diff.changed.push({ before, after, fields });
+    } else {
+      diff.unchanged++;
+    }
+  });
+
+  if (mode === 'replace') {
+    diff.removed = current.thresholds.filter(threshold => !incomingIds.has(threshold.id));
+  } else {
+    diff.unchanged += current.thresholds.filter(threshold => !incomingIds.has(threshold.id)).length;
+  }
+
+  const before = current.globalSettings as unknown as Record<string, unknown>;
+  const after = incoming.globalSettings as unknown as Record<string, unknown>;
+  Object.keys(after).forEach(key => {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      diff.settings.push({ key, before: before[key], after: after[key] });
+    }
+  });
+
+  return diff;
+};
+
+export const isEmptyDiff = (diff: RuleSetDiff): boolean =>
+  diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0 && diff.settings.length === 0;
+
+/**
+ * One-line summary, e.g. "2 added, 1 removed, 3 changed, 1 setting"
+ */
+export const summarizeRuleSetDiff = (diff: RuleSetDiff): string => {
+  const parts = [
+    diff.added.length > 0 ? `${diff.added.length} added` : '',
+    diff.removed.length > 0 ? `${diff.removed.length} removed` : '',
+    diff.changed.length > 0 ? `${diff.changed.length} changed` : '',
+    diff.settings.length > 0 ? `${diff.settings.length} setting${diff.settings.length === 1 ? '' : 's'}` : ''
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+};
+
+export interface RuleSetHistoryOptions {
+  maxVersions: number;
+  storageKey?: string | undefined; // localStorage key, omit to keep versions in memory only
+}
+
+/**
+ * Numbered versions of the rule sets that have been in effect, newest first
+ */
+export class RuleSetHistory {
+  private versions: RuleSetVersion[] = [];
+  private options: RuleSetHistoryOptions;
+
+  constructor(options: Partial<RuleSetHistoryOptions> = {}) {
+    this.options = { maxVersions: 25, ...options };
+    this.load();
+  }
+
+  getVersions(): RuleSetVersion[] {
+    return [...this.versions];
+  }
+
+  getVersion(version: number): RuleSetVersion | undefined {
+    return this.versions.find(entry => entry.version === version);
+  }
+
+  getLatest(): RuleSetVersion | undefined {
+    return this.versions[0];
+  }
+
+  add(entry: Omit<RuleSetVersion, 'version' | 'createdAt'>, now = Date.now()): RuleSetVersion {
+    const version: RuleSetVersion = {
+      ...entry,
+      version: (this.versions[0]?.version || 0) + 1,
+      createdAt: new Date(now).toISOString()
+    };
+    this.versions = [version, ...this.versions].slice(0, this.options.maxVersions);
+    this.save();
+    return version;
+  }
+
+  private load(): void {
+    if (!this.options.storageKey || typeof localStorage === 'undefined') return;
+
+    try {
+      const saved = localStorage.getItem(this.options.storageKey);
+      if (saved) {
+        this.versions = JSON.parse(saved) as RuleSetVersion[];
+      }
+    } catch (loadError) {
+      console.error('Failed to load rule set versions:', loadError);
+    }
+  }
+
+  private save(): void {
+    if (!this.options.storageKey || typeof localStorage === 'undefined') return;
+
+    try {
+      localStorage.setItem(this.options.storageKey, JSON.stringify(this.versions));
+    } catch (saveError) {
+      console.error('Failed to save rule set versions:', saveError);
+    }
+  }
+}
@@ -11,21 +11,343 @@ import {
   DEFAULT_ALERT_CONFIGURATION
 } from '../types/alerts';
 import { BusinessMetrics, FinancialMetrics, CustomerMetrics } from '../types';
+import { configService } from './configService';
+import {
+  ExpressionContext,
+  ExpressionError,
+  ExpressionNode,
+  ParseResult,
+  parseExpression,
+  validateExpression,
+  evaluateRule,
+  getReferencedMetrics
+} from './alertExpressions';
+import {
+  AnomalySettings,
+  DEFAULT_ANOMALY_SETTINGS,
+  MetricHistory,
+  detectAnomaly,
+  describeSeasonalSlot
+} from './anomalyDetection';
+import {
+  AlertLifecycleSettings,
+  DEFAULT_LIFECYCLE_SETTINGS,
+  ThresholdLifecycleState,
+  ThresholdObservation,
+  TrackedAlert,
+  advanceLifecycle,
+  addTimelineEvent,
+  createLifecycleState
+} from './alertLifecycle';
+import {
+  EscalationManager,
+  EscalationPolicy,
+  EscalationRecord,
+  RotationSchedule,
+  DEFAULT_ESCALATION_POLICIES,
+  DEFAULT_ROTATIONS
+} from './alertEscalation';
+import { alertDeliveryService, DeliveryEvent } from './alertDelivery';
+import { AlertSilence, findActiveSilence, getActiveWindow } from './alertSilences';
+import {
+  AlertHistoryQuery,
+  AlertHistoryRecord,
+  AlertHistoryResult,
+  AlertHistoryStore,
+  AlertResponseStats,
+  toAuditCsv,
+  toAuditJson
+} from './alertHistory';
+import {
+  AffectedEntity,
+  ENTITY_SCOPE_LABELS,
+  INVENTORY_ENTITY_METRICS,
+  InventoryEntity,
+  InventoryEntityMetric,
+  InventoryEntityScope,
+  ProductItem,
+  describeEntityChanges,
+  getInventoryEntities,
+  getInventoryProducts
+} from './inventoryEntities';
+import {
+  AlertRuleSet,
+  RULE_SET_SCHEMA_VERSION,
+  RuleSetDiff,
+  RuleSetFormat,
+  RuleSetHistory,
+  RuleSetImportMode,
+  RuleSetIssue,
+  RuleSetValidationContext,
+  RuleSetVersion,
+  diffRuleSets,
+  isEmptyDiff,
+  parseRuleSet
+} from './alertRuleSets';
+import { tabCoordinator } from './tabCoordinator';
+
+/**
+ * Threshold with an optional rule expression; when set it replaces the field conditions.
+ * Anomaly thresholds carry their detector settings instead.
+ */
+export type AlertRuleThreshold = AlertThreshold & {
+  expression?: string;
+  anomaly?: AnomalySettings;
+  lifecycle?: Partial<AlertLifecycleSettings>;
+  escalationPolicyId?: string; // Escalate unacknowledged alerts through this policy
+  deliveryChannelIds?: string[]; // Outbound channels notified when alerts trigger, escalate or resolve
+  labels?: Record<string, string>; // Copied onto alerts for silences, e.g. `region`
+  entityScope?: InventoryEntityScope; // Evaluate the rule per SKU, category, warehouse or region
+};
+
+/**
+ * Alert type for thresholds that flag outliers against a metric's own history.
+ * The AlertType enum has no member for it, so ALERT_TYPES lists both.
+ */
+export const ANOMALY_ALERT_TYPE = 'metric_anomaly' as AlertType;
+
+export const ALERT_TYPES: AlertType[] = [...Object.values(AlertType), ANOMALY_ALERT_TYPE];
+
+export const isAnomalyThreshold = (threshold: AlertThreshold): threshold is AlertRuleThreshold & { anomaly: AnomalySettings } =>
+  threshold.type === ANOMALY_ALERT_TYPE && Boolean((threshold as AlertRuleThreshold).anomaly);
+
+interface ThresholdCheck {
+  threshold: AlertRuleThreshold;
+  observation: ThresholdObservation;
+  alert?: TrackedAlert; // Alert to raise or update when the threshold fires
+}
+
+interface AlertTypeRule {
+  metric: string; // Metric the alert type reports on
+  title: string;
+  message: (value: number) => string;
+  applies: (value: number) => boolean; // Whether legacy conditions should be checked for this value
+  affectedItems?: string[];
+  entityMessage?: string; // Describes the entities a per-entity threshold fires for
+}
+
+const ALERT_TYPE_RULES: Partial<Record<AlertType, AlertTypeRule>> = {
+  [AlertType.INVENTORY_LOW_STOCK]: {
+    metric: 'inventory.lowStock',
+    title: 'Low Stock Alert',
+    message: value => `${value} items are running low on stock`,
+    applies: value => value > 0,
+    affectedItems: ['Multiple categories'],
+    entityMessage: 'running low on stock'
+  },
+  [AlertType.INVENTORY_OUT_OF_STOCK]: {
+    metric: 'inventory.outOfStock',
+    title: 'Out of Stock Alert',
+    message: value => `${value} items are completely out of stock`,
+    applies: value => value > 0,
+    affectedItems: ['Multiple categories'],
+    entityMessage: 'with items out of stock'
+  },
+  [AlertType.WAREHOUSE_CAPACITY]: {
+    metric: 'inventory.utilizationRate',
+    title: 'Warehouse Capacity Warning',
+    message: value => `Warehouse utilization is at ${value.toFixed(1)}%`,
+    applies: value => value > 0,
+    entityMessage: 'over the utilization limit'
+  },
+  [AlertType.CUSTOMER_SATISFACTION_LOW]: {
+    metric: 'customers.satisfaction',
+    title: 'Low Customer Satisfaction',
+    message: value => `Customer satisfaction has dropped to ${value.toFixed(1)}`,
+    applies: value => value > 0
+  },
+  [AlertType.HIGH_SUPPORT_TICKETS]: {
+    metric: 'customers.supportTickets.open',
+    title: 'High Support Ticket Volume',
+    message: value => `${value} support tickets are currently open`,
+    applies: value => value > 0
+  },
+  [AlertType.FINANCIAL_TARGET_MISSED]: {
+    metric: 'variance.budget',
+    title: 'Financial Target Missed',
+    message: value => `Revenue is ${Math.abs(value).toFixed(1)}% below budget target`,
+    applies: value => value < 0
+  }
+};
+
+// Field names used by threshold conditions before rule expressions existed
+const LEGACY_METRIC_ALIASES: Record<string, string> = {
+  lowStockItems: 'inventory.lowStock',
+  outOfStockItems: 'inventory.outOfStock',
+  warehouseUtilization: 'inventory.utilizationRate',
+  customerSatisfaction: 'customers.satisfaction',
+  openSupportTickets: 'customers.supportTickets.open',
+  revenueVariance: 'variance.budget'
+};
+
+// Inventory metrics that refer to the entity being checked when a threshold has an entity scope
+const ENTITY_METRIC_ALIASES: Record<string, InventoryEntityMetric> = {
+  'inventory.lowStock': 'lowStock',
+  'inventory.outOfStock': 'outOfStock',
+  'inventory.utilizationRate': 'utilization'
+};
+
+const ENTITY_METRIC_PATHS = INVENTORY_ENTITY_METRICS.map(metric => `entity.${metric}`);
+
+// Entities named in a grouped alert's message; the full list is on the alert
+const ENTITY_MESSAGE_LIMIT = 5;
+
+const DEFAULT_ALERT_METRICS = [
+  'revenue.total',
+  'revenue.growth',
+  'costs.total',
+  'costs.operational',
+  'costs.marketing',
+  'costs.logistics',
+  'costs.growth',
+  'inventory.lowStock',
+  'inventory.outOfStock',
+  'inventory.utilizationRate',
+  'customers.satisfaction',
+  'customers.supportTickets.open',
+  'variance.budget',
+  'variance.forecast',
+  'variance.previousPeriod'
+];
+
+const DEFAULT_ANOMALY_THRESHOLDS: Omit<AlertRuleThreshold, 'id' | 'createdAt' | 'updatedAt'>[] = [
+  {
+    type: ANOMALY_ALERT_TYPE,
+    name: 'Revenue Anomaly',
+    description: 'Revenue deviates from its usual level for this weekday and hour',
+    enabled: true,
+    conditions: [],
+    anomaly: { ...DEFAULT_ANOMALY_SETTINGS, metric: 'revenue.total' },
+    severity: AlertSeverity.WARNING,
+    notificationSettings: {
+      showToast: true,
+      showInCenter: true,
+      playSound: false,
+      persistent: false,
+      autoResolve: false
+    }
+  }
+];
+
+const CONDITION_OPERATORS: Record<AlertCondition['operator'], string> = {
+  gt: '>',
+  lt: '<',
+  gte: '>=',
+  lte: '<=',
+  eq: '==',
+  neq: '!='
+};
+
+const METRIC_HISTORY_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+const METRIC_HISTORY_MAX_SAMPLES = 2000;
+
+const resolveMetricPath = (path: string): string => LEGACY_METRIC_ALIASES[path] || path;
+
+const resolveEntityMetric = (path: string): InventoryEntityMetric | undefined => {
+  const resolved = resolveMetricPath(path);
+  if (ENTITY_METRIC_ALIASES[resolved]) return ENTITY_METRIC_ALIASES[resolved];
+  const metric = resolved.startsWith('entity.') ? resolved.slice('entity.'.length) : '';
+  return (INVENTORY_ENTITY_METRICS as readonly string[]).includes(metric) ? metric as InventoryEntityMetric : undefined;
+};
+
+/**
+ * Flatten nested metric objects into dotted paths with numeric values
+ */
+const flattenMetrics = (value: Record<string, unknown>, prefix = ''): Record<string, number> =>
+  Object.entries(value).reduce((acc, [key, child]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (typeof child === 'number' && !Number.isNaN(child)) {
+      acc[path] = child;
+    } else if (child && typeof child === 'object' && !Array.isArray(child)) {
+      Object.assign(acc, flattenMetrics(child as Record<string, unknown>, path));
+    }
+    return acc;
+  }, {} as Record<string, number>);
+
+/**
+ * Express field conditions as a rule (all must hold)
+ */
+export const conditionsToExpression = (conditions: AlertCondition[]): string =>
+  conditions
+    .map(condition => `${condition.field} ${CONDITION_OPERATORS[condition.operator] || condition.operator} ${condition.value}`)
+    .join(' AND ');
+
+/**
+ * The rule a threshold is evaluated with
+ */
+export const getRuleSource = (threshold: AlertRuleThreshold): string =>
+  threshold.expression?.trim() || conditionsToExpression(threshold.conditions);
+
+const formatValue = (value: number): string =>
+  Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+export const getLifecycleSettings = (threshold: AlertThreshold): AlertLifecycleSettings => ({
+  ...DEFAULT_LIFECYCLE_SETTINGS,
+  ...(threshold as AlertRuleThreshold).lifecycle
+});
+
+// Window for the response time statistics in the alert summary
+const RESPONSE_STATS_WINDOW = 30 * 24 * 60 * 60 * 1000;
+
+const isOpenAlert = (alert: Alert): boolean =>
+  alert.status === AlertStatus.ACTIVE || alert.status === AlertStatus.ACKNOWLEDGED;
 
 class AlertService {
-  private alerts: Alert[] = [];
+  private alerts: TrackedAlert[] = [];
   private thresholds: AlertThreshold[] = [];
   private configuration: AlertConfiguration = DEFAULT_ALERT_CONFIGURATION;
   private listeners: Array<(alerts: Alert[]) => void> = [];
   private checkInterval: NodeJS.Timeout | null = null;
+  private latestValues: Record<string, number> = {};
+  private inventoryProducts: ProductItem[] | null = null; // Products behind the latest business metrics
+  private metricHistory: { timestamp: number; values: Record<string, number> }[] = [];
+  private parsedRules = new Map<string, ParseResult>();
+  private anomalyHistory = new MetricHistory({ storageKey: 'alertMetricHistory' });
+  private lifecycleStates = new Map<string, ThresholdLifecycleState>();
+  private escalationPolicies: EscalationPolicy[] = DEFAULT_ESCALATION_POLICIES;
+  private rotations: RotationSchedule[] = DEFAULT_ROTATIONS;
+  private silences: AlertSilence[] = [];
+  private history = new AlertHistoryStore();
+  private ruleSetVersions = new RuleSetHistory({ storageKey: 'alertRuleSetVersions' });
+  private escalations = new EscalationManager((alertId, record) => this.handleEscalation(alertId, record));
 
   constructor() {
     this.initializeDefaultThresholds();
     this.loadConfiguration();
+    this.escalations.configure(this.escalationPolicies, this.rotations);
+    void this.restoreHistory();
+  }
+
+  /**
+   * Bring the most recent alerts back into the notification center after a reload,
+   * resuming the lifecycle and escalation of the ones still open
+   */
+  private async restoreHistory(): Promise<void> {
+    const records = await this.history.load();
+    const known = new Set(this.alerts.map(alert => alert.id));
+    const restored = records
+      .filter(record => !record.archived && !known.has(record.id))
+      .slice(0, Math.max(this.configuration.globalSettings.maxAlertsInCenter - this.alerts.length, 0))
+      .map(({ thresholdName: _name, updatedAt: _updatedAt, archived: _archived, ...alert }) => alert as TrackedAlert);
+    if (restored.length === 0) return;
+
+    restored.filter(isOpenAlert).forEach(alert => {
+      // The condition was firing when the alert was saved; don't count the next check as a re-trigger
+      if (!this.lifecycleStates.has(alert.thresholdId)) {
+        this.lifecycleStates.set(alert.thresholdId, { ...createLifecycleState(), condition: 'firing' });
+      }
+      if (alert.status === AlertStatus.ACTIVE && alert.escalationPolicyId) {
+        this.escalations.start(alert.id, alert.escalationPolicyId, new Date(alert.triggeredAt).getTime(), alert.escalations?.length || 0);
+      }
+    });
+
+    this.alerts = [...this.alerts, ...restored]
+      .sort((a, b) => new Date(b.triggeredAt).getTime() - new Date(a.triggeredAt).getTime());
+    this.notifyListeners();
   }
 
   private initializeDefaultThresholds(): void {
-    this.thresholds = DEFAULT_ALERT_THRESHOLDS.map((threshold, index) => ({
+    this.thresholds = [...DEFAULT_ALERT_THRESHOLDS, ...DEFAULT_ANOMALY_THRESHOLDS].map((threshold, index) => ({
       ...threshold,
       id: `threshold_${index + 1}`,
       createdAt: new Date().toISOString(),
@@ -42,6 +364,15 @@ class AlertService {
         if (config.thresholds) {
           this.thresholds = config.thresholds;
         }
+        if (config.escalationPolicies) {
+          this.escalationPolicies = config.escalationPolicies;
+        }
+        if (config.rotations) {
+          this.rotations = config.rotations;
+        }
+        if (config.silences) {
+          this.silences = config.silences;
+        }
       }
     } catch (error) {
       console.error('Failed to load alert configuration:', error);
@@ -52,7 +383,10 @@ class AlertService {
     try {
       const config = {
         ...this.configuration,
-        thresholds: this.thresholds
+        thresholds: this.thresholds,
+        escalationPolicies: this.escalationPolicies,
+        rotations: this.rotations,
+        silences: this.silences
       };
       localStorage.setItem('alertConfiguration', JSON.stringify(config));
     } catch (error) {
@@ -62,144 +396,299 @@ class AlertService {
 
   // Alert monitoring methods
   checkBusinessMetrics(metrics: BusinessMetrics): Alert[] {
-    const newAlerts: Alert[] = [];
-
-    // Check inventory alerts
-    if (metrics.inventory.lowStock > 0) {
-      const threshold = this.thresholds.find(t => t.type === AlertType.INVENTORY_LOW_STOCK && t.enabled);
-      if (threshold && this.evaluateConditions(threshold.conditions, { lowStockItems: metrics.inventory.lowStock })) {
-        const alert = this.createAlert(
-          AlertType.INVENTORY_LOW_STOCK,
-          threshold,
-          'Low Stock Alert',
-          `${metrics.inventory.lowStock} items are running low on stock`,
-          {
-            currentValue: metrics.inventory.lowStock,
-            thresholdValue: threshold.conditions[0]?.value,
-            affectedItems: ['Multiple categories']
-          }
-        );
-        newAlerts.push(alert);
-      }
+    const updated = this.recordMetrics(metrics as unknown as Record<string, unknown>);
+    const categories = metrics.inventory?.categories;
+    if (categories?.length) {
+      this.inventoryProducts = getInventoryProducts(categories);
+      updated.push(...ENTITY_METRIC_PATHS);
     }
+    return this.applyChecks(this.evaluateThresholds(updated));
+  }
 
-    if (metrics.inventory.outOfStock > 0) {
-      const threshold = this.thresholds.find(t => t.type === AlertType.INVENTORY_OUT_OF_STOCK && t.enabled);
-      if (threshold && this.evaluateConditions(threshold.conditions, { outOfStockItems: metrics.inventory.outOfStock })) {
-        const alert = this.createAlert(
-          AlertType.INVENTORY_OUT_OF_STOCK,
-          threshold,
-          'Out of Stock Alert',
-          `${metrics.inventory.outOfStock} items are completely out of stock`,
-          {
-            currentValue: metrics.inventory.outOfStock,
-            thresholdValue: threshold.conditions[0]?.value,
-            affectedItems: ['Multiple categories']
-          }
-        );
-        newAlerts.push(alert);
+  checkFinancialMetrics(metrics: FinancialMetrics): Alert[] {
+    const updated = this.recordMetrics(metrics as unknown as Record<string, unknown>);
+    return this.applyChecks(this.evaluateThresholds(updated));
+  }
+
+  /**
+   * Store a snapshot of metric values for windowed functions (pct_change, avg, ...)
+   * and the long-term history of metrics watched by anomaly thresholds
+   */
+  private recordMetrics(metrics: Record<string, unknown>): string[] {
+    const values = flattenMetrics(metrics);
+    const now = Date.now();
+
+    this.latestValues = { ...this.latestValues, ...values };
+    this.metricHistory.push({ timestamp: now, values });
+    this.metricHistory = this.metricHistory
+      .filter(sample => now - sample.timestamp <= METRIC_HISTORY_MAX_AGE)
+      .slice(-METRIC_HISTORY_MAX_SAMPLES);
+
+    const anomalyValues = this.getAnomalyMetrics().reduce((acc, path) => {
+      if (values[path] !== undefined) acc[path] = values[path]!;
+      return acc;
+    }, {} as Record<string, number>);
+    this.anomalyHistory.record(anomalyValues, now);
+
+    return Object.keys(values);
+  }
+
+  /**
+   * Metrics that need long-term history, whether or not their threshold is enabled
+   */
+  private getAnomalyMetrics(): string[] {
+    return Array.from(new Set(
+      this.thresholds.filter(isAnomalyThreshold).map(threshold => resolveMetricPath(threshold.anomaly.metric))
+    ));
+  }
+
+  /**
+   * Evaluate every enabled threshold that depends on one of the updated metrics
+   */
+  private evaluateThresholds(updatedPaths: string[]): ThresholdCheck[] {
+    const updated = new Set(updatedPaths);
+    const context = this.createExpressionContext();
+    const checks: ThresholdCheck[] = [];
+
+    (this.thresholds as AlertRuleThreshold[]).forEach(threshold => {
+      if (!threshold.enabled) return;
+
+      if (isAnomalyThreshold(threshold)) {
+        const check = this.evaluateAnomaly(threshold, updated, context);
+        if (check) checks.push(check);
+        return;
       }
-    }
 
-    // Check warehouse capacity
-    if (metrics.inventory.utilizationRate > 0) {
-      const threshold = this.thresholds.find(t => t.type === AlertType.WAREHOUSE_CAPACITY && t.enabled);
-      if (threshold && this.evaluateConditions(threshold.conditions, { warehouseUtilization: metrics.inventory.utilizationRate })) {
-        const alert = this.createAlert(
-          AlertType.WAREHOUSE_CAPACITY,
-          threshold,
-          'Warehouse Capacity Warning',
-          `Warehouse utilization is at ${metrics.inventory.utilizationRate.toFixed(1)}%`,
-          {
-            currentValue: metrics.inventory.utilizationRate,
-            thresholdValue: threshold.conditions[0]?.value
-          }
-        );
-        newAlerts.push(alert);
+      const source = getRuleSource(threshold);
+      const { ast, errors } = this.parseRule(source);
+      if (!ast) {
+        configService.log('warn', `Skipping alert threshold "${threshold.name}" with invalid rule: ${errors[0]?.message}`);
+        return;
       }
-    }
 
-    // Check customer satisfaction
-    if (metrics.customers.satisfaction > 0) {
-      const threshold = this.thresholds.find(t => t.type === AlertType.CUSTOMER_SATISFACTION_LOW && t.enabled);
-      if (threshold && this.evaluateConditions(threshold.conditions, { customerSatisfaction: metrics.customers.satisfaction })) {
-        const alert = this.createAlert(
-          AlertType.CUSTOMER_SATISFACTION_LOW,
-          threshold,
-          'Low Customer Satisfaction',
-          `Customer satisfaction has dropped to ${metrics.customers.satisfaction.toFixed(1)}`,
-          {
-            currentValue: metrics.customers.satisfaction,
-            thresholdValue: threshold.conditions[0]?.value
-          }
-        );
-        newAlerts.push(alert);
+      const referenced = getReferencedMetrics(ast).map(resolveMetricPath);
+      if (!referenced.some(path => updated.has(path))) return;
+
+      if (threshold.entityScope) {
+        const check = this.evaluateEntities(threshold, threshold.entityScope, ast, source, context);
+        if (check) checks.push(check);
+        return;
+      }
+
+      const rule = ALERT_TYPE_RULES[threshold.type];
+      const hasExpression = Boolean(threshold.expression?.trim());
+      const primaryValue = rule ? this.latestValues[rule.metric] : undefined;
+
+      // Legacy field conditions only apply once the metric reports meaningful data
+      if (!hasExpression && rule) {
+        if (primaryValue === undefined) return;
+        if (!rule.applies(primaryValue)) {
+          checks.push({ threshold, observation: 'clear' });
+          return;
+        }
       }
-    }
 
-    // Check support tickets
-    if (metrics.customers.supportTickets.open > 0) {
-      const threshold = this.thresholds.find(t => t.type === AlertType.HIGH_SUPPORT_TICKETS && t.enabled);
-      if (threshold && this.evaluateConditions(threshold.conditions, { openSupportTickets: metrics.customers.supportTickets.open })) {
-        const alert = this.createAlert(
-          AlertType.HIGH_SUPPORT_TICKETS,
+      const evaluation = evaluateRule(ast, context);
+      if (!evaluation.triggered) {
+        checks.push({ threshold, observation: this.isRuleClear(threshold, `NOT (${source})`, context) ? 'clear' : 'hold' });
+        return;
+      }
+
+      const currentValue = evaluation.value ?? primaryValue;
+      checks.push({
+        threshold,
+        observation: 'firing',
+        alert: this.createAlert(
+          threshold.type,
           threshold,
-          'High Support Ticket Volume',
-          `${metrics.customers.supportTickets.open} support tickets are currently open`,
+          rule?.title || threshold.name,
+          hasExpression || !rule || currentValue === undefined
+            ? `${threshold.name}: ${source}${currentValue !== undefined ? ` (current value ${formatValue(currentValue)})` : ''}`
+            : rule.message(currentValue),
           {
-            currentValue: metrics.customers.supportTickets.open,
-            thresholdValue: threshold.conditions[0]?.value
+            currentValue,
+            thresholdValue: hasExpression ? undefined : threshold.conditions[0]?.value,
+            ...(rule?.affectedItems ? { affectedItems: rule.affectedItems } : {})
           }
-        );
-        newAlerts.push(alert);
+        )
+      });
+    });
+
+    return checks;
+  }
+
+  /**
+   * Evaluate a rule for every SKU, category, warehouse or region and group the ones
+   * it fires for into one alert. The threshold clears once every entity has cleared.
+   */
+  private evaluateEntities(
+    threshold: AlertRuleThreshold,
+    scope: InventoryEntityScope,
+    ast: ExpressionNode,
+    source: string,
+    context: ExpressionContext
+  ): ThresholdCheck | null {
+    if (!this.inventoryProducts) return null;
+
+    const clearAst = this.parseRule(threshold.lifecycle?.clearRule?.trim() || `NOT (${source})`).ast;
+    const affected: AffectedEntity[] = [];
+    let holding = false;
+
+    getInventoryEntities(this.inventoryProducts, scope).forEach(entity => {
+      const entityContext = this.createEntityContext(entity, context);
+      const evaluation = evaluateRule(ast, entityContext);
+      if (evaluation.triggered) {
+        affected.push({ scope, id: entity.id, name: entity.name, link: entity.link, value: evaluation.value });
+      } else if (!clearAst || !evaluateRule(clearAst, entityContext).triggered) {
+        holding = true;
       }
+    });
+
+    if (affected.length === 0) {
+      return { threshold, observation: holding ? 'hold' : 'clear' };
     }
 
-    return this.processNewAlerts(newAlerts);
-  }
+    const rule = ALERT_TYPE_RULES[threshold.type];
+    const label = ENTITY_SCOPE_LABELS[scope];
+    const names = affected.slice(0, ENTITY_MESSAGE_LIMIT).map(entity => entity.name).join(', ');
+    const more = affected.length > ENTITY_MESSAGE_LIMIT ? ` and ${affected.length - ENTITY_MESSAGE_LIMIT} more` : '';
 
-  checkFinancialMetrics(metrics: FinancialMetrics): Alert[] {
-    const newAlerts: Alert[] = [];
-
-    // Check revenue variance
-    if (metrics.variance.budget < 0) {
-      const threshold = this.thresholds.find(t => t.type === AlertType.FINANCIAL_TARGET_MISSED && t.enabled);
-      if (threshold && this.evaluateConditions(threshold.conditions, { revenueVariance: metrics.variance.budget })) {
-        const alert = this.createAlert(
-          AlertType.FINANCIAL_TARGET_MISSED,
+    return {
+      threshold,
+      observation: 'firing',
+      alert: {
+        ...this.createAlert(
+          threshold.type,
           threshold,
-          'Financial Target Missed',
-          `Revenue is ${Math.abs(metrics.variance.budget).toFixed(1)}% below budget target`,
+          rule?.title || threshold.name,
+          `${affected.length} ${affected.length === 1 ? label.singular : label.plural} ${rule?.entityMessage || `matching ${source}`}: ${names}${more}`,
           {
-            currentValue: metrics.variance.budget,
-            thresholdValue: threshold.conditions[0]?.value
+            currentValue: affected.length,
+            affectedItems: affected.map(entity => entity.name)
           }
-        );
-        newAlerts.push(alert);
+        ),
+        entities: affected
       }
-    }
+    };
+  }
 
-    return this.processNewAlerts(newAlerts);
+  /**
+   * Context in which `entity.*` metrics, and the inventory metrics they stand for,
+   * read the entity's current figures. They have no history of their own.
+   */
+  private createEntityContext(entity: InventoryEntity, context: ExpressionContext): ExpressionContext {
+    return {
+      ...context,
+      getValue: path => {
+        const metric = resolveEntityMetric(path);
+        return metric ? entity.metrics[metric] : context.getValue(path);
+      },
+      getValueAt: (path, timestamp) => (resolveEntityMetric(path) ? undefined : context.getValueAt(path, timestamp)),
+      getSamples: (path, from, to) => (resolveEntityMetric(path) ? [] : context.getSamples(path, from, to))
+    };
   }
 
-  private evaluateConditions(conditions: AlertCondition[], data: Record<string, number | string>): boolean {
-    return conditions.every(condition => {
-      const value = data[condition.field];
-      if (value === undefined) return false;
+  /**
+   * Whether a non-firing threshold has cleared. With a clear rule the value must
+   * cross it (hysteresis); otherwise the trigger rule must be known to be false.
+   */
+  private isRuleClear(threshold: AlertRuleThreshold, fallbackSource: string, context: ExpressionContext): boolean {
+    const source = threshold.lifecycle?.clearRule?.trim() || fallbackSource;
+    const { ast } = this.parseRule(source);
+    return ast ? evaluateRule(ast, context).triggered : false;
+  }
+
+  /**
+   * Compare the latest value of an anomaly threshold's metric with its seasonal baseline
+   */
+  private evaluateAnomaly(
+    threshold: AlertRuleThreshold & { anomaly: AnomalySettings },
+    updated: Set<string>,
+    context: ExpressionContext
+  ): ThresholdCheck | null {
+    const settings = threshold.anomaly;
+    const metric = resolveMetricPath(settings.metric);
+    const value = this.latestValues[metric];
+    if (!updated.has(metric) || value === undefined) return null;
+
+    const now = context.now;
+    const result = detectAnomaly(this.anomalyHistory.getBaseline(metric, now, settings.seasonality), value, settings);
+    if (result.reason) return { threshold, observation: 'hold' };
+    if (!result.isAnomaly) {
+      const cleared = threshold.lifecycle?.clearRule?.trim() ? this.isRuleClear(threshold, '', context) : true;
+      return { threshold, observation: cleared ? 'clear' : 'hold' };
+    }
+
+    const direction = result.score < 0 ? 'below' : 'above';
+    const difference = result.expected !== 0
+      ? `${Math.abs(((value - result.expected) / result.expected) * 100).toFixed(1)}% ${direction}`
+      : direction;
+
+    return {
+      threshold,
+      observation: 'firing',
+      alert: this.createAlert(
+        threshold.type,
+        threshold,
+        threshold.name,
+        `${metric} is ${formatValue(value)}, ${difference} the expected ${formatValue(result.expected)} for ${describeSeasonalSlot(now, settings.seasonality)} (score ${result.score.toFixed(1)}, sensitivity ${settings.sensitivity})`,
+        {
+          currentValue: value,
+          thresholdValue: result.score < 0 ? result.expectedRange[0] : result.expectedRange[1]
+        }
+      )
+    };
+  }
 
-      const numValue = typeof value === 'string' ? parseFloat(value) : value;
-      const thresholdValue = typeof condition.value === 'string' ? parseFloat(condition.value) : condition.value;
+  private parseRule(source: string): ParseResult {
+    let parsed = this.parsedRules.get(source);
+    if (!parsed) {
+      parsed = parseExpression(source);
+      this.parsedRules.set(source, parsed);
+    }
+    return parsed;
+  }
 
-      switch (condition.operator) {
-        case 'gt': return numValue > thresholdValue;
-        case 'lt': return numValue < thresholdValue;
-        case 'gte': return numValue >= thresholdValue;
-        case 'lte': return numValue <= thresholdValue;
-        case 'eq': return numValue === thresholdValue;
-        case 'neq': return numValue !== thresholdValue;
-        default: return false;
+  private createExpressionContext(): ExpressionContext {
+    return {
+      now: Date.now(),
+      getValue: path => this.latestValues[resolveMetricPath(path)],
+      getValueAt: (path, timestamp) => {
+        const resolved = resolveMetricPath(path);
+        for (let i = this.metricHistory.length - 1; i >= 0; i--) {
+          const sample = this.metricHistory[i]!;
+          if (sample.timestamp <= timestamp && sample.values[resolved] !== undefined) {
+            return sample.values[resolved];
+          }
+        }
+        return undefined;
+      },
+      getSamples: (path, from, to) => {
+        const resolved = resolveMetricPath(path);
+        return this.metricHistory
+          .filter(sample => sample.timestamp >= from && sample.timestamp <= to && sample.values[resolved] !== undefined)
+          .map(sample => ({ timestamp: sample.timestamp, value: sample.values[resolved]! }));
       }
-    });
+    };
+  }
+
+  /**
+   * Metric names usable in rule expressions
+   */
+  getKnownMetrics(): string[] {
+    return Array.from(new Set([
+      ...DEFAULT_ALERT_METRICS,
+      ...ENTITY_METRIC_PATHS,
+      ...Object.keys(LEGACY_METRIC_ALIASES),
+      ...Object.keys(this.latestValues)
+    ])).sort();
+  }
+
+  /**
+   * Validate a rule expression against the known metrics
+   */
+  validateRuleExpression(source: string): ExpressionError[] {
+    return validateExpression(source, this.getKnownMetrics());
   }
 
   private createAlert(
@@ -208,7 +697,8 @@ class AlertService {
     title: string,
     message: string,
     metadata?: Alert['metadata']
-  ): Alert {
+  ): TrackedAlert {
+    const labels = (threshold as AlertRuleThreshold).labels;
     return {
       id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       type,
@@ -218,34 +708,151 @@ class AlertService {
       message,
       thresholdId: threshold.id,
       triggeredAt: new Date().toISOString(),
-      metadata
+      metadata,
+      ...(labels && Object.keys(labels).length > 0 ? { labels: { ...labels } } : {})
     };
   }
 
-  private processNewAlerts(newAlerts: Alert[]): Alert[] {
-    // Filter out duplicate alerts (same type and similar conditions)
-    const uniqueAlerts = newAlerts.filter(newAlert => {
-      return !this.alerts.some(existingAlert => 
-        existingAlert.type === newAlert.type &&
-        existingAlert.status === AlertStatus.ACTIVE &&
-        this.isRecentAlert(existingAlert, 300000) // 5 minutes
+  /**
+   * Run each check through its threshold's lifecycle: open an alert when the
+   * condition starts firing, count re-triggers on the open alert, and resolve it
+   * once the condition has stayed clear
+   */
+  private applyChecks(checks: ThresholdCheck[]): Alert[] {
+    const now = Date.now();
+    const newAlerts: TrackedAlert[] = [];
+    let changed = false;
+
+    checks.forEach(({ threshold, observation, alert }) => {
+      const settings = getLifecycleSettings(threshold);
+      const { autoResolve, autoResolveDelay } = threshold.notificationSettings;
+      const openAlert = this.alerts.find(existing => existing.thresholdId === threshold.id && isOpenAlert(existing));
+      const step = advanceLifecycle(
+        this.lifecycleStates.get(threshold.id) || createLifecycleState(),
+        observation,
+        Boolean(openAlert),
+        autoResolve ? settings : { ...settings, clearAfterChecks: 0 },
+        now,
+        autoResolve ? (autoResolveDelay || 0) * 60000 : 0
       );
+
+      // Silenced alerts are dropped without recording the change, so the alert
+      // opens on the first check after the silence if the condition still fires
+      const silence = step.action === 'open' && alert ? findActiveSilence(this.silences, alert, now) : null;
+      if (silence) {
+        this.recordSuppression(silence, now);
+        return;
+      }
+      this.lifecycleStates.set(threshold.id, step.state);
+
+      let target: TrackedAlert | undefined = openAlert;
+      if (step.action === 'open' && alert) {
+        target = { ...alert, occurrences: 1, lastTriggeredAt: alert.triggeredAt, timeline: [] };
+        addTimelineEvent(target, { type: 'triggered', value: alert.metadata?.currentValue }, alert.triggeredAt);
+        newAlerts.push(target);
+        this.startEscalation(target, threshold);
+        this.deliver(target, 'triggered');
+      } else if (step.action === 'retrigger' && openAlert && alert) {
+        openAlert.occurrences = (openAlert.occurrences || 1) + 1;
+        openAlert.lastTriggeredAt = alert.triggeredAt;
+        openAlert.message = alert.message;
+        openAlert.metadata = alert.metadata;
+        openAlert.entities = alert.entities;
+        addTimelineEvent(openAlert, { type: 'retriggered', value: alert.metadata?.currentValue }, alert.triggeredAt);
+        changed = true;
+      } else if (step.action === 'none' && observation === 'firing' && openAlert && alert?.entities) {
+        // Grouped alerts stay open while entities come and go; keep the list current
+        const detail = describeEntityChanges(openAlert.entities || [], alert.entities);
+        if (detail) {
+          openAlert.message = alert.message;
+          openAlert.metadata = alert.metadata;
+          openAlert.entities = alert.entities;
+          addTimelineEvent(openAlert, { type: 'updated', value: alert.metadata?.currentValue, detail }, alert.triggeredAt);
+          changed = true;
+        }
+      } else if (step.action === 'resolve' && openAlert) {
+        openAlert.status = AlertStatus.RESOLVED;
+        openAlert.resolvedAt = new Date(now).toISOString();
+        openAlert.resolvedBy = 'system';
+        addTimelineEvent(openAlert, { type: 'auto-resolved', by: 'system' }, openAlert.resolvedAt);
+        this.escalations.stop(openAlert.id);
+        this.deliver(openAlert, 'resolved');
+        changed = true;
+      }
+
+      if (step.flappingChanged && target) {
+        target.flapping = step.state.flapping;
+        addTimelineEvent(target, { type: step.state.flapping ? 'flapping' : 'stable' });
+        changed = true;
+      }
     });
 
-    // Add unique alerts to the collection
-    this.alerts.unshift(...uniqueAlerts);
+    // Add new alerts to the collection
+    this.alerts.unshift(...newAlerts);
 
     // Limit the number of stored alerts
     if (this.alerts.length > this.configuration.globalSettings.maxAlertsInCenter) {
+      this.alerts.slice(this.configuration.globalSettings.maxAlertsInCenter).forEach(alert => this.escalations.stop(alert.id));
       this.alerts = this.alerts.slice(0, this.configuration.globalSettings.maxAlertsInCenter);
     }
 
     // Notify listeners
-    if (uniqueAlerts.length > 0) {
+    if (newAlerts.length > 0 || changed) {
       this.notifyListeners();
     }
 
-    return uniqueAlerts;
+    return newAlerts;
+  }
+
+  private recordSuppression(silence: AlertSilence, now: number): void {
+    silence.suppressed = (silence.suppressed || 0) + 1;
+    silence.lastSuppressedAt = new Date(now).toISOString();
+    this.saveConfiguration();
+  }
+
+  private startEscalation(alert: TrackedAlert, threshold: AlertRuleThreshold): void {
+    const policyId = threshold.escalationPolicyId;
+    if (!policyId || !this.escalationPolicies.some(policy => policy.id === policyId)) return;
+
+    alert.escalationPolicyId = policyId;
+    alert.escalations = [];
+    this.escalations.start(alert.id, policyId, new Date(alert.triggeredAt).getTime());
+  }
+
+  /**
+   * Record an escalation step on an alert that is still unacknowledged. Only
+   * the leader tab escalates, so the on-call rotation is paged once.
+   */
+  private handleEscalation(alertId: string, record: EscalationRecord): void {
+    if (!tabCoordinator.isLeader()) return;
+
+    const alert = this.alerts.find(a => a.id === alertId);
+    if (!alert || alert.status !== AlertStatus.ACTIVE) {
+      this.escalations.stop(alertId);
+      return;
+    }
+
+    alert.escalations = [...(alert.escalations || []), record];
+    addTimelineEvent(alert, {
+      type: 'escalated',
+      detail: record.recipients.length > 0 ? `notified ${record.recipients.join(', ')}` : 'nobody on call'
+    }, record.at);
+    if (record.recipients.length === 0) {
+      configService.log('warn', `Escalation step ${record.step + 1} for alert "${alert.title}" has no recipients`);
+    }
+    this.deliver(alert, 'escalated', record.recipients);
+    this.notifyListeners();
+  }
+
+  /**
+   * Send an alert event to the outbound channels of its threshold
+   */
+  private deliver(alert: TrackedAlert, event: DeliveryEvent, recipients?: string[]): void {
+    const threshold = this.thresholds.find(t => t.id === alert.thresholdId) as AlertRuleThreshold | undefined;
+    if (!threshold?.deliveryChannelIds?.length) return;
+    if (findActiveSilence(this.silences, alert, Date.now())) return;
+
+    alertDeliveryService.deliver({ event, alert, thresholdName: threshold.name, recipients }, threshold.deliveryChannelIds);
   }
 
   private isRecentAlert(alert: Alert, timeWindow: number): boolean {
@@ -261,6 +868,8 @@ class AlertService {
       alert.status = AlertStatus.ACKNOWLEDGED;
       alert.acknowledgedAt = new Date().toISOString();
       alert.acknowledgedBy = acknowledgedBy;
+      addTimelineEvent(alert, { type: 'acknowledged', by: acknowledgedBy }, alert.acknowledgedAt);
+      this.escalations.stop(alertId);
       this.notifyListeners();
       return true;
     }
@@ -273,6 +882,9 @@ class AlertService {
       alert.status = AlertStatus.RESOLVED;
       alert.resolvedAt = new Date().toISOString();
       alert.resolvedBy = resolvedBy;
+      addTimelineEvent(alert, { type: 'resolved', by: resolvedBy }, alert.resolvedAt);
+      this.escalations.stop(alertId);
+      this.deliver(alert, 'resolved');
       this.notifyListeners();
       return true;
     }
@@ -285,6 +897,8 @@ class AlertService {
       alert.status = AlertStatus.DISMISSED;
       alert.dismissedAt = new Date().toISOString();
       alert.dismissedBy = dismissedBy;
+      addTimelineEvent(alert, { type: 'dismissed', by: dismissedBy }, alert.dismissedAt);
+      this.escalations.stop(alertId);
       this.notifyListeners();
       return true;
     }
@@ -292,11 +906,14 @@ class AlertService {
   }
 
   clearResolvedAlerts(): void {
+    this.history.archive(this.alerts.filter(alert => alert.status === AlertStatus.RESOLVED).map(alert => alert.id));
     this.alerts = this.alerts.filter(alert => alert.status !== AlertStatus.RESOLVED);
     this.notifyListeners();
   }
 
   clearAllAlerts(): void {
+    this.escalations.stopAll();
+    this.history.archive(this.alerts.map(alert => alert.id));
     this.alerts = [];
     this.notifyListeners();
   }
@@ -314,6 +931,51 @@ class AlertService {
 
   deleteThreshold(thresholdId: string): void {
     this.thresholds = this.thresholds.filter(t => t.id !== thresholdId);
+    this.lifecycleStates.delete(thresholdId);
+    this.anomalyHistory.retain(this.getAnomalyMetrics());
+    this.saveConfiguration();
+  }
+
+  updateEscalationPolicy(policy: EscalationPolicy): void {
+    const index = this.escalationPolicies.findIndex(p => p.id === policy.id);
+    this.escalationPolicies = index >= 0
+      ? this.escalationPolicies.map(p => (p.id === policy.id ? policy : p))
+      : [...this.escalationPolicies, policy];
+    this.escalations.configure(this.escalationPolicies, this.rotations);
+    this.saveConfiguration();
+  }
+
+  deleteEscalationPolicy(policyId: string): void {
+    this.escalationPolicies = this.escalationPolicies.filter(p => p.id !== policyId);
+    this.escalations.configure(this.escalationPolicies, this.rotations);
+    this.saveConfiguration();
+  }
+
+  updateRotation(rotation: RotationSchedule): void {
+    const index = this.rotations.findIndex(r => r.id === rotation.id);
+    this.rotations = index >= 0
+      ? this.rotations.map(r => (r.id === rotation.id ? rotation : r))
+      : [...this.rotations, rotation];
+    this.escalations.configure(this.escalationPolicies, this.rotations);
+    this.saveConfiguration();
+  }
+
+  deleteRotation(rotationId: string): void {
+    this.rotations = this.rotations.filter(r => r.id !== rotationId);
+    this.escalations.configure(this.escalationPolicies, this.rotations);
+    this.saveConfiguration();
+  }
+
+  updateSilence(silence: AlertSilence): void {
+    const index = this.silences.findIndex(s => s.id === silence.id);
+    this.silences = index >= 0
+      ? this.silences.map(s => (s.id === silence.id ? silence : s))
+      : [...this.silences, silence];
+    this.saveConfiguration();
+  }
+
+  deleteSilence(silenceId: string): void {
+    this.silences = this.silences.filter(s => s.id !== silenceId);
     this.saveConfiguration();
   }
 
@@ -322,6 +984,155 @@ class AlertService {
     this.saveConfiguration();
   }
 
+  // Rule sets
+  getRuleSetValidationContext(): RuleSetValidationContext {
+    return {
+      alertTypes: ALERT_TYPES,
+      defaultGlobalSettings: DEFAULT_ALERT_CONFIGURATION.globalSettings,
+      validateExpression: source => this.validateRuleExpression(source),
+      escalationPolicyIds: this.escalationPolicies.map(policy => policy.id),
+      deliveryChannelIds: alertDeliveryService.getChannels().map(channel => channel.id)
+    };
+  }
+
+  /**
+   * Current thresholds and global settings as a rule set. Unsaved edits are
+   * recorded as a new version first, so the exported version can be rolled back to.
+   */
+  exportRuleSet(name = 'Alert rules', description?: string, exportedBy?: string): AlertRuleSet {
+    const version = this.snapshotRuleSet(name, exportedBy);
+    return {
+      schemaVersion: RULE_SET_SCHEMA_VERSION,
+      version: version.version,
+      name,
+      description,
+      exportedAt: new Date().toISOString(),
+      exportedBy,
+      thresholds: this.thresholds as AlertRuleThreshold[],
+      globalSettings: { ...this.configuration.globalSettings }
+    };
+  }
+
+  /**
+   * Validate a rule set file and show what importing it would change
+   */
+  previewRuleSetImport(
+    text: string,
+    mode: RuleSetImportMode = 'replace',
+    format?: RuleSetFormat
+  ): { ruleSet?: AlertRuleSet; issues: RuleSetIssue[]; diff?: RuleSetDiff } {
+    const { ruleSet, issues } = parseRuleSet(text, this.getRuleSetValidationContext(), format);
+    if (!ruleSet) return { issues };
+
+    return {
+      ruleSet,
+      issues,
+      diff: diffRuleSets(
+        { thresholds: this.thresholds as AlertRuleThreshold[], globalSettings: this.configuration.globalSettings },
+        ruleSet,
+        mode
+      )
+    };
+  }
+
+  importRuleSet(ruleSet: AlertRuleSet, mode: RuleSetImportMode = 'replace', importedBy?: string): RuleSetVersion {
+    this.snapshotRuleSet('Before import', importedBy);
+    this.applyRuleSet(ruleSet.thresholds, ruleSet.globalSettings, mode);
+    return this.ruleSetVersions.add({
+      name: ruleSet.name,
+      description: ruleSet.description || (ruleSet.version ? `Imported version ${ruleSet.version}${mode === 'merge' ? ', merged' : ''}` : undefined),
+      source: 'import',
+      createdBy: importedBy,
+      thresholds: this.thresholds as AlertRuleThreshold[],
+      globalSettings: { ...this.configuration.globalSettings }
+    });
+  }
+
+  /**
+   * Record the current thresholds and settings as a version to roll back to
+   */
+  saveRuleSetVersion(name: string, description?: string, createdBy?: string): RuleSetVersion {
+    return this.ruleSetVersions.add({
+      name,
+      description,
+      source: 'saved',
+      createdBy,
+      thresholds: this.thresholds as AlertRuleThreshold[],
+      globalSettings: { ...this.configuration.globalSettings }
+    });
+  }
+
+  rollbackRuleSet(version: number, rolledBackBy?: string): RuleSetVersion {
+    const target = this.ruleSetVersions.getVersion(version);
+    if (!target) {
+      throw new Error(`Rule set version ${version} not found`);
+    }
+
+    this.snapshotRuleSet('Before rollback', rolledBackBy);
+    this.applyRuleSet(target.thresholds, target.globalSettings, 'replace');
+    return this.ruleSetVersions.add({
+      name: target.name,
+      description: `Rolled back to version ${version}`,
+      source: 'rollback',
+      createdBy: rolledBackBy,
+      thresholds: target.thresholds,
+      globalSettings: target.globalSettings
+    });
+  }
+
+  getRuleSetVersions(): RuleSetVersion[] {
+    return this.ruleSetVersions.getVersions();
+  }
+
+  /**
+   * The latest version, after recording the current state as a new one if it has changed since
+   */
+  private snapshotRuleSet(name: string, createdBy?: string): RuleSetVersion {
+    const current = { thresholds: this.thresholds as AlertRuleThreshold[], globalSettings: this.configuration.globalSettings };
+    const latest = this.ruleSetVersions.getLatest();
+    if (latest && isEmptyDiff(diffRuleSets(latest, current))) return latest;
+
+    return this.ruleSetVersions.add({
+      name,
+      source: 'snapshot',
+      createdBy,
+      thresholds: current.thresholds,
+      globalSettings: { ...current.globalSettings }
+    });
+  }
+
+  private applyRuleSet(
+    thresholds: AlertRuleThreshold[],
+    globalSettings: AlertConfiguration['globalSettings'],
+    mode: RuleSetImportMode
+  ): void {
+    const now = new Date().toISOString();
+    const current = this.thresholds as AlertRuleThreshold[];
+    const diff = diffRuleSets({ thresholds: current, globalSettings: this.configuration.globalSettings }, { thresholds, globalSettings }, mode);
+    const changedIds = new Set(diff.changed.map(change => change.after.id));
+    const incomingIds = new Set(thresholds.map(threshold => threshold.id));
+    const previous = new Map(current.map(threshold => [threshold.id, threshold]));
+
+    const incoming = thresholds.map(threshold => {
+      const existing = previous.get(threshold.id);
+      return {
+        ...threshold,
+        createdAt: existing?.createdAt || threshold.createdAt || now,
+        updatedAt: existing && !changedIds.has(threshold.id) ? existing.updatedAt : now
+      };
+    });
+    this.thresholds = mode === 'merge'
+      ? [...current.filter(threshold => !incomingIds.has(threshold.id)), ...incoming]
+      : incoming;
+
+    // Changed and removed thresholds start their lifecycle afresh
+    [...diff.removed, ...diff.changed.map(change => change.after)].forEach(threshold => this.lifecycleStates.delete(threshold.id));
+    this.anomalyHistory.retain(this.getAnomalyMetrics());
+
+    this.configuration.globalSettings = { ...globalSettings };
+    this.saveConfiguration();
+  }
+
   // Getters
   getAlerts(): Alert[] {
     return [...this.alerts];
@@ -339,7 +1150,7 @@ class AlertService {
     return this.alerts.filter(alert => alert.severity === severity);
   }
 
-  getAlertSummary(): AlertSummary {
+  getAlertSummary(): AlertSummary & { response: AlertResponseStats } {
     const total = this.alerts.length;
     const active = this.alerts.filter(a => a.status === AlertStatus.ACTIVE).length;
     const acknowledged = this.alerts.filter(a => a.status === AlertStatus.ACKNOWLEDGED).length;
@@ -353,7 +1164,7 @@ class AlertService {
       [AlertSeverity.CRITICAL]: this.alerts.filter(a => a.severity === AlertSeverity.CRITICAL).length
     };
 
-    const byType = Object.values(AlertType).reduce((acc, type) => {
+    const byType = ALERT_TYPES.reduce((acc, type) => {
       acc[type] = this.alerts.filter(a => a.type === type).length;
       return acc;
     }, {} as Record<AlertType, number>);
@@ -370,7 +1181,8 @@ class AlertService {
       dismissed,
       bySeverity,
       byType,
-      recentAlerts
+      recentAlerts,
+      response: this.getResponseStats()
     };
   }
 
@@ -378,6 +1190,48 @@ class AlertService {
     return [...this.thresholds];
   }
 
+  getEscalationPolicies(): EscalationPolicy[] {
+    return [...this.escalationPolicies];
+  }
+
+  getRotations(): RotationSchedule[] {
+    return [...this.rotations];
+  }
+
+  /**
+   * Search every alert raised, including those no longer in the notification center
+   */
+  searchHistory(query: AlertHistoryQuery = {}): AlertHistoryResult {
+    return this.history.search(query);
+  }
+
+  getResponseStats(since = Date.now() - RESPONSE_STATS_WINDOW): AlertResponseStats {
+    return this.history.getResponseStats(since);
+  }
+
+  /**
+   * Audit trail of the alerts matching a history query
+   */
+  exportAlertAudit(format: 'csv' | 'json', query: AlertHistoryQuery = {}): string {
+    const { records } = this.history.search({ ...query, limit: undefined, offset: undefined });
+    return format === 'csv' ? toAuditCsv(records) : toAuditJson(records, query);
+  }
+
+  getHistoryRecord(alertId: string): AlertHistoryRecord | undefined {
+    return this.history.getRecords().find(record => record.id === alertId);
+  }
+
+  getSilences(): AlertSilence[] {
+    return [...this.silences];
+  }
+
+  /**
+   * Enabled silences that are inside one of their windows
+   */
+  getActiveSilences(now = Date.now()): AlertSilence[] {
+    return this.silences.filter(silence => silence.enabled && getActiveWindow(silence, now) !== null);
+  }
+
   getConfiguration(): AlertConfiguration {
     return { ...this.configuration, thresholds: [...this.thresholds] };
   }
@@ -391,6 +1245,11 @@ class AlertService {
   }
 
   private notifyListeners(): void {
+    // Every tab raises its own copy of each alert; only the leader's go into the
+    // shared history. The tab in front takes over leadership, so its actions are recorded.
+    if (tabCoordinator.isLeader()) {
+      this.history.record(this.alerts, thresholdId => this.thresholds.find(t => t.id === thresholdId)?.name);
+    }
     this.listeners.forEach(listener => listener([...this.alerts]));
   }
 
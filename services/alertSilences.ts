@@ -0,0 +1,200 @@
+import { AlertSeverity, AlertType } from '../types/alerts';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Which alerts a silence applies to. Every field that is set must match;
+ * lists match any of their entries. An empty matcher silences everything.
+ */
+export interface SilenceMatcher {
+  types?: AlertType[];
+  severities?: AlertSeverity[];
+  regions?: string[]; // Matched against the alert's `region` label
+  labels?: Record<string, string>;
+}
+
+export type SilenceFrequency = 'once' | 'daily' | 'weekly';
+
+export interface SilenceRecurrence {
+  frequency: SilenceFrequency;
+  daysOfWeek?: number[]; // Weekly: days (0 = Sunday) the window starts on; defaults to the start's weekday
+  until?: string; // No windows start after this time
+}
+
+/**
+ * Suppresses matching alerts between `start` and `end`, optionally repeating
+ * that window daily or weekly at the same local time
+ */
+export interface AlertSilence {
+  id: string;
+  name: string;
+  comment?: string;
+  createdBy?: string;
+  createdAt: string;
+  enabled: boolean;
+  matcher: SilenceMatcher;
+  start: string;
+  end: string;
+  recurrence?: SilenceRecurrence;
+  suppressed?: number; // Alerts suppressed so far
+  lastSuppressedAt?: string;
+}
+
+export interface SilenceTarget {
+  type: AlertType;
+  severity: AlertSeverity;
+  labels?: Record<string, string> | undefined;
+}
+
+export interface SilenceWindow {
+  start: number;
+  end: number;
+}
+
+const getWeekdays = (recurrence: SilenceRecurrence, first: Date): number[] =>
+  recurrence.daysOfWeek?.length ? recurrence.daysOfWeek : [first.getDay()];
+
+/**
+ * Start of the window `offset` days after the first one. Uses calendar days so
+ * the window keeps its local time across daylight saving changes.
+ */
+const getWindowStart = (first: Date, offset: number): Date => {
+  const start = new Date(first);
+  start.setDate(first.getDate() + offset);
+  return start;
+};
+
+const parseWindow = (silence: AlertSilence): SilenceWindow | null => {
+  const start = new Date(silence.start).getTime();
+  const end = new Date(silence.end).getTime();
+  return Number.isNaN(start) || Number.isNaN(end) || end <= start ? null : { start, end };
+};
+
+/**
+ * Recurring windows starting on the given day offsets, filtered by weekday and `until`
+ */
+const getRecurringWindows = (silence: AlertSilence, window: SilenceWindow, offsets: number[]): SilenceWindow[] => {
+  const recurrence = silence.recurrence!;
+  const first = new Date(window.start);
+  const until = recurrence.until ? new Date(recurrence.until).getTime() : Infinity;
+  const weekdays = getWeekdays(recurrence, first);
+  const duration = window.end - window.start;
+
+  return offsets
+    .filter(offset => offset >= 0)
+    .map(offset => getWindowStart(first, offset))
+    .filter(start => start.getTime() <= until)
+    .filter(start => recurrence.frequency === 'daily' || weekdays.includes(start.getDay()))
+    .map(start => ({ start: start.getTime(), end: start.getTime() + duration }));
+};
+
+const isRecurring = (silence: AlertSilence): boolean =>
+  Boolean(silence.recurrence && silence.recurrence.frequency !== 'once');
+
+/**
+ * The window of a silence that contains `now`, if any
+ */
+export const getActiveWindow = (silence: AlertSilence, now: number): SilenceWindow | null => {
+  const window = parseWindow(silence);
+  if (!window) return null;
+  if (!isRecurring(silence)) return window.start <= now && now < window.end ? window : null;
+
+  // Windows that started up to the window length ago, plus one for DST shifts
+  const today = Math.floor((now - window.start) / DAY);
+  const lookback = Math.ceil((window.end - window.start) / DAY);
+  const offsets = Array.from({ length: lookback + 2 }, (_, i) => today + 1 - i);
+  return getRecurringWindows(silence, window, offsets).find(candidate => candidate.start <= now && now < candidate.end) || null;
+};
+
+/**
+ * The next window of a silence that starts after `now`, if any
+ */
+export const getNextWindow = (silence: AlertSilence, now: number): SilenceWindow | null => {
+  const window = parseWindow(silence);
+  if (!window) return null;
+  if (!isRecurring(silence)) return window.start > now ? window : null;
+
+  const today = Math.max(Math.floor((now - window.start) / DAY), 0);
+  const offsets = Array.from({ length: 9 }, (_, i) => today + i);
+  return getRecurringWindows(silence, window, offsets).find(candidate => candidate.start > now) || null;
+};
+
+/**
+ * Whether a silence has no current or future windows left
+ */
+export const isSilenceExpired = (silence: AlertSilence, now: number): boolean =>
+  !getActiveWindow(silence, now) && !getNextWindow(silence, now);
+
+export const matchesSilence = (matcher: SilenceMatcher, target: SilenceTarget): boolean => {
+  if (matcher.types?.length && !matcher.types.includes(target.type)) return false;
+  if (matcher.severities?.length && !matcher.severities.includes(target.severity)) return false;
+  if (matcher.regions?.length && !matcher.regions.includes(target.labels?.region ?? '')) return false;
+  return Object.entries(matcher.labels || {}).every(([key, value]) => target.labels?.[key] === value);
+};
+
+/**
+ * The first enabled silence that is in a window now and matches the alert
+ */
+export const findActiveSilence = (silences: AlertSilence[], target: SilenceTarget, now: number): AlertSilence | null =>
+  silences.find(silence => silence.enabled && matchesSilence(silence.matcher, target) && getActiveWindow(silence, now) !== null) || null;
+
+export const validateSilence = (silence: AlertSilence): string[] => {
+  const errors: string[] = [];
+  if (!silence.name.trim()) errors.push('Name is required');
+
+  const window = parseWindow(silence);
+  if (!window) {
+    errors.push('End must be after start');
+    return errors;
+  }
+
+  const recurrence = silence.recurrence;
+  if (recurrence?.frequency === 'daily' && window.end - window.start >= DAY) {
+    errors.push('Daily windows must be shorter than a day');
+  }
+  if (recurrence?.frequency === 'weekly') {
+    const weekdays = getWeekdays(recurrence, new Date(window.start));
+    if (window.end - window.start >= (weekdays.length > 1 ? DAY : 7 * DAY)) {
+      errors.push(weekdays.length > 1 ? 'Windows repeating on several days must be shorter than a day' : 'Weekly windows must be shorter than a week');
+    }
+  }
+  if (recurrence?.until && new Date(recurrence.until).getTime() < window.start) {
+    errors.push('Repeat until must be after the first window');
+  }
+  return errors;
+};
+
+export const describeMatcher = (matcher: SilenceMatcher): string => {
+  const parts = [
+    ...(matcher.types || []),
+    ...(matcher.severities || []),
+    ...(matcher.regions?.length ? [`region ${matcher.regions.join('/')}`] : []),
+    ...Object.entries(matcher.labels || {}).map(([key, value]) => `${key}=${value}`)
+  ];
+  return parts.length > 0 ? parts.join(', ') : 'All alerts';
+};
+
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const describeRecurrence = (silence: AlertSilence): string => {
+  const recurrence = silence.recurrence;
+  if (!recurrence || recurrence.frequency === 'once') return 'Once';
+
+  const until = recurrence.until ? ` until ${new Date(recurrence.until).toLocaleDateString()}` : '';
+  if (recurrence.frequency === 'daily') return `Daily${until}`;
+  const weekdays = getWeekdays(recurrence, new Date(silence.start)).map(day => WEEKDAY_NAMES[day]);
+  return `Weekly on ${weekdays.join(', ')}${until}`;
+};
+
+/**
+ * Parse `key=value` pairs separated by commas
+ */
+export const parseLabels = (value: string): Record<string, string> =>
+  value.split(',').reduce((labels, pair) => {
+    const [key, ...rest] = pair.split('=');
+    if (key?.trim() && rest.length > 0) labels[key.trim()] = rest.join('=').trim();
+    return labels;
+  }, {} as Record<string, string>);
+
+export const formatLabels = (labels: Record<string, string> | undefined): string =>
+  Object.entries(labels || {}).map(([key, value]) => `${key}=${value}`).join(', ');
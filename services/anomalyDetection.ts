@@ -0,0 +1,277 @@
+export type AnomalyMethod = 'zscore' | 'mad' | 'ewma';
+export type AnomalySeasonality = 'none' | 'hour-of-day' | 'day-of-week';
+export type AnomalyDirection = 'both' | 'drop' | 'spike';
+
+export interface AnomalySettings {
+  metric: string; // Dotted metric path, e.g. revenue.total
+  method: AnomalyMethod;
+  sensitivity: number; // Score (standard deviations / MAD units) above which a value is anomalous
+  seasonality: AnomalySeasonality; // Which past buckets form the baseline
+  direction: AnomalyDirection;
+  minSamples: number; // Baseline points needed before anything is flagged
+  ewmaAlpha?: number | undefined; // Smoothing factor for the EWMA method (0-1)
+}
+
+export interface HistoryBucket {
+  start: number; // Bucket start timestamp
+  sum: number;
+  count: number;
+}
+
+export interface AnomalyResult {
+  isAnomaly: boolean;
+  score: number; // Signed deviation in the method's units
+  expected: number; // Baseline center
+  expectedRange: [number, number];
+  samples: number; // Baseline points used
+  reason?: string | undefined; // Why nothing was flagged, when there wasn't enough data
+}
+
+export const DEFAULT_ANOMALY_SETTINGS: AnomalySettings = {
+  metric: 'revenue.total',
+  method: 'mad',
+  sensitivity: 3.5,
+  seasonality: 'day-of-week',
+  direction: 'both',
+  minSamples: 3,
+  ewmaAlpha: 0.3
+};
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+// Scales MAD to be comparable with a standard deviation for normal data
+const MAD_SCALE = 1.4826;
+// Non-seasonal baselines look at this many recent buckets
+const RECENT_BUCKETS = 48;
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1]! + sorted[middle]!) / 2 : sorted[middle]!;
+};
+
+const standardDeviation = (values: number[], center: number): number =>
+  Math.sqrt(values.reduce((sum, value) => sum + (value - center) ** 2, 0) / Math.max(values.length - 1, 1));
+
+/**
+ * Center and spread of a baseline series for a detection method
+ */
+const describeBaseline = (values: number[], method: AnomalyMethod, alpha = 0.3): { center: number; scale: number } => {
+  switch (method) {
+    case 'mad': {
+      const center = median(values);
+      return { center, scale: MAD_SCALE * median(values.map(value => Math.abs(value - center))) };
+    }
+    case 'ewma': {
+      // Exponentially weighted mean and variance, oldest value first
+      let center = values[0]!;
+      let variance = 0;
+      for (let i = 1; i < values.length; i++) {
+        const diff = values[i]! - center;
+        const increment = alpha * diff;
+        center += increment;
+        variance = (1 - alpha) * (variance + diff * increment);
+      }
+      return { center, scale: Math.sqrt(variance) };
+    }
+    case 'zscore':
+    default: {
+      const center = mean(values);
+      return { center, scale: standardDeviation(values, center) };
+    }
+  }
+};
+
+/**
+ * Past buckets comparable to the given time under a seasonality
+ */
+export const selectBaseline = (buckets: HistoryBucket[], timestamp: number, seasonality: AnomalySeasonality, bucketSize = HOUR): HistoryBucket[] => {
+  const currentStart = Math.floor(timestamp / bucketSize) * bucketSize;
+  const past = buckets.filter(bucket => bucket.start < currentStart && bucket.count > 0);
+
+  switch (seasonality) {
+    case 'hour-of-day':
+      return past.filter(bucket => (currentStart - bucket.start) % DAY === 0);
+    case 'day-of-week':
+      return past.filter(bucket => (currentStart - bucket.start) % WEEK === 0);
+    case 'none':
+    default:
+      return past.slice(-RECENT_BUCKETS);
+  }
+};
+
+/**
+ * Score a value against its baseline
+ */
+export const detectAnomaly = (baselineValues: number[], value: number, settings: AnomalySettings): AnomalyResult => {
+  if (baselineValues.length < Math.max(settings.minSamples, 2)) {
+    return {
+      isAnomaly: false,
+      score: 0,
+      expected: baselineValues.length > 0 ? mean(baselineValues) : value,
+      expectedRange: [value, value],
+      samples: baselineValues.length,
+      reason: `Not enough history (${baselineValues.length}/${Math.max(settings.minSamples, 2)} samples)`
+    };
+  }
+
+  const { center, scale: rawScale } = describeBaseline(baselineValues, settings.method, settings.ewmaAlpha);
+  // A flat baseline has no spread; fall back to 1% of its level so small wiggles aren't infinite outliers
+  const scale = rawScale > 0 ? rawScale : Math.abs(center) * 0.01 || 1;
+  const score = (value - center) / scale;
+
+  const outside = Math.abs(score) >= settings.sensitivity;
+  const directionMatches = settings.direction === 'both'
+    || (settings.direction === 'drop' && score < 0)
+    || (settings.direction === 'spike' && score > 0);
+
+  return {
+    isAnomaly: outside && directionMatches,
+    score,
+    expected: center,
+    expectedRange: [center - settings.sensitivity * scale, center + settings.sensitivity * scale],
+    samples: baselineValues.length
+  };
+};
+
+/**
+ * Human-readable baseline slot, e.g. "Tuesdays at 09:00"
+ */
+export const describeSeasonalSlot = (timestamp: number, seasonality: AnomalySeasonality): string => {
+  const date = new Date(timestamp);
+  const hour = `${String(date.getHours()).padStart(2, '0')}:00`;
+
+  switch (seasonality) {
+    case 'day-of-week':
+      return `${date.toLocaleDateString('en-US', { weekday: 'long' })}s at ${hour}`;
+    case 'hour-of-day':
+      return `${hour} on recent days`;
+    case 'none':
+    default:
+      return 'recent hours';
+  }
+};
+
+export const validateAnomalySettings = (settings: AnomalySettings): string[] => {
+  const errors: string[] = [];
+  if (!settings.metric) errors.push('A metric is required');
+  if (!(settings.sensitivity > 0)) errors.push('Sensitivity must be greater than 0');
+  if (!(settings.minSamples >= 2)) errors.push('At least 2 baseline samples are required');
+  if (settings.method === 'ewma' && settings.ewmaAlpha !== undefined && (settings.ewmaAlpha <= 0 || settings.ewmaAlpha > 1)) {
+    errors.push('EWMA smoothing must be between 0 and 1');
+  }
+  return errors;
+};
+
+export interface MetricHistoryOptions {
+  bucketSize: number; // Values within a bucket are averaged
+  retention: number; // How long buckets are kept
+  storageKey?: string | undefined; // localStorage key, omit to keep history in memory only
+}
+
+/**
+ * Rolling per-metric history, downsampled into fixed-size buckets so weeks of
+ * data stay small enough to persist
+ */
+export class MetricHistory {
+  private buckets = new Map<string, HistoryBucket[]>();
+  private options: MetricHistoryOptions;
+
+  constructor(options: Partial<MetricHistoryOptions> = {}) {
+    this.options = {
+      bucketSize: HOUR,
+      retention: 5 * WEEK, // Enough for four same-weekday baselines
+      ...options
+    };
+    this.load();
+  }
+
+  get bucketSize(): number {
+    return this.options.bucketSize;
+  }
+
+  /**
+   * Add a value for each metric. Returns true when a new bucket was started.
+   */
+  record(values: Record<string, number>, timestamp = Date.now()): boolean {
+    const start = Math.floor(timestamp / this.options.bucketSize) * this.options.bucketSize;
+    let rolledOver = false;
+
+    Object.entries(values).forEach(([metric, value]) => {
+      const buckets = this.buckets.get(metric) || [];
+      const last = buckets[buckets.length - 1];
+
+      if (last && last.start === start) {
+        last.sum += value;
+        last.count++;
+      } else {
+        buckets.push({ start, sum: value, count: 1 });
+        rolledOver = true;
+      }
+
+      const cutoff = timestamp - this.options.retention;
+      while (buckets.length > 0 && buckets[0]!.start < cutoff) {
+        buckets.shift();
+      }
+      this.buckets.set(metric, buckets);
+    });
+
+    if (rolledOver) this.save();
+    return rolledOver;
+  }
+
+  getBuckets(metric: string): HistoryBucket[] {
+    return this.buckets.get(metric) || [];
+  }
+
+  /**
+   * Bucket averages forming the baseline for a point in time
+   */
+  getBaseline(metric: string, timestamp: number, seasonality: AnomalySeasonality): number[] {
+    return selectBaseline(this.getBuckets(metric), timestamp, seasonality, this.options.bucketSize)
+      .map(bucket => bucket.sum / bucket.count);
+  }
+
+  /**
+   * Keep only the given metrics
+   */
+  retain(metrics: Iterable<string>): void {
+    const keep = new Set(metrics);
+    Array.from(this.buckets.keys()).forEach(metric => {
+      if (!keep.has(metric)) this.buckets.delete(metric);
+    });
+  }
+
+  clear(): void {
+    this.buckets.clear();
+    this.save();
+  }
+
+  private load(): void {
+    if (!this.options.storageKey || typeof localStorage === 'undefined') return;
+
+    try {
+      const saved = localStorage.getItem(this.options.storageKey);
+      if (saved) {
+        const parsed = JSON.parse(saved) as Record<string, HistoryBucket[]>;
+        Object.entries(parsed).forEach(([metric, buckets]) => this.buckets.set(metric, buckets));
+      }
+    } catch (error) {
+      console.error('Failed to load metric history:', error);
+    }
+  }
+
+  private save(): void {
+    if (!this.options.storageKey || typeof localStorage === 'undefined') return;
+
+    try {
+      localStorage.setItem(this.options.storageKey, JSON.stringify(Object.fromEntries(this.buckets)));
+    } catch (error) {
+      console.error('Failed to save metric history:', error);
+    }
+  }
+}
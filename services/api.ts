@@ -6,21 +6,67 @@ import {
   ApiError,
   FinancialMetrics,
   CustomerMetrics,
+  ExportFormat,
   TimePeriod
 } from '@/types';
-import { mockDataGenerator } from './mockDataService';
 import { dataTransformUtils } from '../utils/dataTransform';
 import { configService } from './configService';
-import { dataCacheService } from './dataCacheService';
+import { dataCacheService, CacheDomain } from './dataCacheService';
+import {
+  DataSourceAdapter,
+  MockDataSourceAdapter,
+  RestDataSourceAdapter,
+  createDataSourceAdapter,
+  parseEndpoint
+} from './dataSourceAdapters';
+import { circuitBreakerRegistry } from './circuitBreaker';
+import { renderReport, reportFromExportPayload, toReportBlob } from './reportPipeline';
 
 interface RequestConfig extends RequestInit {
   timeout?: number;
   retries?: number;
   simulateError?: boolean;
+  dedupe?: boolean; // Coalesce identical in-flight GET requests (default true)
 }
 
+interface InFlightRequest {
+  promise: Promise<ApiResponse<unknown>>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+export const createAbortError = (): Error => {
+  const error = new Error('Request aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
 class ApiService {
   private requestCount = 0;
+  private adapters = new Map<string, DataSourceAdapter>();
+  private routes: Record<string, string> = {};
+  private inFlight = new Map<string, InFlightRequest>();
+  private requestScopes = new Map<string, AbortController>();
+
+  constructor() {
+    this.registerDataSource(new MockDataSourceAdapter());
+    this.registerDataSource(new RestDataSourceAdapter({ name: 'rest', baseUrl: configService.apiBaseUrl }));
+
+    configService.dataSources.forEach(definition => {
+      try {
+        this.registerDataSource(createDataSourceAdapter(definition));
+      } catch (error) {
+        configService.log('error', `Failed to create data source ${definition.name}:`, error);
+      }
+    });
+
+    Object.entries(configService.dataSourceRoutes).forEach(([path, sourceName]) => {
+      this.routes[path] = sourceName;
+    });
+  }
 
   private async simulateDelay(min?: number, max?: number): Promise<void> {
     if (!configService.simulateDelays) return;
@@ -75,104 +121,248 @@ class ApiService {
     endpoint: string,
     options: RequestConfig = {}
   ): Promise<ApiResponse<T>> {
-    // Simulate API delay
-    await this.simulateDelay();
+    const method = (options.method || 'GET').toUpperCase();
+    const callerSignal = options.signal ?? undefined;
 
-    // Simulate random errors for testing
-    if (options.simulateError !== false && this.shouldSimulateError()) {
-      const error = this.generateApiError(endpoint);
-      throw new Error(`API Error: ${error.message} (${error.code})`);
+    if (options.dedupe === false || method !== 'GET') {
+      const response = await this.executeRequest<T>(endpoint, options, callerSignal);
+      if (method !== 'GET') {
+        this.invalidateAfterWrite(endpoint, method);
+      }
+      return response;
     }
 
-    if (configService.useMockData) {
-      configService.log('debug', `Using mock data for endpoint: ${endpoint}`);
-      return this.getMockResponse<T>(endpoint);
+    const key = this.getRequestKey(endpoint);
+    let entry = this.inFlight.get(key);
+
+    if (entry) {
+      configService.log('debug', `Coalescing in-flight request: ${endpoint}`);
+    } else {
+      const controller = new AbortController();
+      const promise = this.executeRequest<unknown>(endpoint, options, controller.signal);
+      const created: InFlightRequest = { promise, controller, subscribers: 0 };
+
+      promise.then(
+        () => this.releaseInFlight(key, created),
+        () => this.releaseInFlight(key, created)
+      );
+
+      this.inFlight.set(key, created);
+      entry = created;
     }
 
-    // Real API call
-    const url = `${configService.apiBaseUrl}${endpoint}`;
-    configService.log('debug', `Making API request to: ${url}`);
-    const timeout = options.timeout || 10000;
-    const retries = options.retries || 2;
-    
-    const config: RequestInit = {
-      headers: {
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-      ...options,
+    return this.attachSubscriber(key, entry, callerSignal) as Promise<ApiResponse<T>>;
+  }
+
+  /**
+   * Writes make every cached entry derived from the written domain stale
+   */
+  private invalidateAfterWrite(endpoint: string, method: string): void {
+    const domains: Record<string, CacheDomain> = {
+      metrics: 'metrics',
+      revenue: 'revenue',
+      inventory: 'inventory',
+      customers: 'customers',
+      financial: 'financial'
     };
+    const segment = parseEndpoint(endpoint).path.split('/').filter(Boolean)[0] || '';
+    const domain = domains[segment];
 
-    for (let attempt = 0; attempt <= retries; attempt++) {
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), timeout);
-        
-        const response = await fetch(url, {
-          ...config,
-          signal: controller.signal
-        });
-        
-        clearTimeout(timeoutId);
-        
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
+    if (domain) {
+      dataCacheService.invalidateDomain(domain, { reason: `${method} ${endpoint}` });
+    }
+  }
+
+  /**
+   * Key in-flight requests the same way the data cache keys its entries
+   */
+  private getRequestKey(endpoint: string): string {
+    const { path, params } = parseEndpoint(endpoint);
+    return dataCacheService.generateKey(`request:${path}`, Object.fromEntries(params.entries()));
+  }
+
+  /**
+   * Share an in-flight request with a caller; the underlying request is only
+   * aborted once every caller sharing it has aborted
+   */
+  private attachSubscriber(
+    key: string,
+    entry: InFlightRequest,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<unknown>> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    entry.subscribers++;
+    if (!signal) return entry.promise;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        entry.subscribers--;
+        if (entry.subscribers <= 0) {
+          entry.controller.abort();
+          this.releaseInFlight(key, entry);
         }
-        
-        const data = await response.json();
-        configService.log('debug', `API request successful: ${url}`);
-        return data;
-      } catch (error) {
-        configService.log('error', `API request failed (attempt ${attempt + 1}):`, error);
-        
-        if (attempt === retries) {
-          throw error;
+        reject(createAbortError());
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      entry.promise.then(
+        response => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(response);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private releaseInFlight(key: string, entry: InFlightRequest): void {
+    if (this.inFlight.get(key) === entry) {
+      this.inFlight.delete(key);
+    }
+  }
+
+  private async executeRequest<T>(
+    endpoint: string,
+    options: RequestConfig,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<T>> {
+    // Simulate API delay
+    await this.simulateDelay();
+
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
+    const { path, params } = parseEndpoint(endpoint);
+
+    return circuitBreakerRegistry.execute(path, async () => {
+      // Simulate random errors for testing
+      if (options.simulateError !== false && this.shouldSimulateError()) {
+        const error = this.generateApiError(endpoint);
+        throw new Error(`API Error: ${error.message} (${error.code})`);
+      }
+
+      const adapter = this.resolveDataSource(path);
+      configService.log('debug', `Routing ${endpoint} to data source: ${adapter.name} (${adapter.kind})`);
+
+      return adapter.request<T>({
+        endpoint,
+        path,
+        params,
+        options: {
+          method: options.method,
+          headers: options.headers,
+          body: options.body,
+          timeout: options.timeout,
+          retries: options.retries,
+          signal
         }
-        
-        // Exponential backoff for retries
-        await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000));
+      });
+    }, error => !isAbortError(error) && !signal?.aborted);
+  }
+
+  /**
+   * Start a new request scope, aborting whatever the previous scope with the
+   * same id still had in flight (e.g. requests for filters that were replaced)
+   */
+  beginRequestScope(scope: string): AbortSignal {
+    this.requestScopes.get(scope)?.abort();
+
+    const controller = new AbortController();
+    this.requestScopes.set(scope, controller);
+    return controller.signal;
+  }
+
+  /**
+   * Abort and forget a request scope
+   */
+  cancelRequestScope(scope: string): void {
+    this.requestScopes.get(scope)?.abort();
+    this.requestScopes.delete(scope);
+  }
+
+  /**
+   * Abort every in-flight request
+   */
+  cancelAllRequests(): void {
+    this.requestScopes.forEach(controller => controller.abort());
+    this.requestScopes.clear();
+    this.inFlight.forEach(entry => entry.controller.abort());
+    this.inFlight.clear();
+  }
+
+  /**
+   * Number of distinct requests currently in flight
+   */
+  getInFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  /**
+   * Pick the adapter for an endpoint path using the longest matching route prefix
+   */
+  private resolveDataSource(path: string): DataSourceAdapter {
+    let match: string | null = null;
+
+    for (const prefix of Object.keys(this.routes)) {
+      const matches = path === prefix || path.startsWith(`${prefix}/`);
+      if (matches && (!match || prefix.length > match.length)) {
+        match = prefix;
       }
     }
 
-    throw new Error('Max retries exceeded');
+    const sourceName = match ? this.routes[match]! : configService.defaultDataSource;
+    const adapter = this.adapters.get(sourceName);
+    if (!adapter) {
+      throw new Error(`Data source not registered: ${sourceName}`);
+    }
+
+    return adapter;
   }
 
-  private getMockResponse<T>(endpoint: string): ApiResponse<T> {
-    let data: any;
-
-    // Route mock data based on endpoint
-    if (endpoint.includes('/metrics')) {
-      data = mockDataGenerator.generateBusinessMetrics();
-    } else if (endpoint.includes('/revenue')) {
-      const urlParams = new URLSearchParams(endpoint.split('?')[1] || '');
-      const period = urlParams.get('period') as TimePeriod || TimePeriod.MONTHLY;
-      data = mockDataGenerator.generateRevenueData(period);
-    } else if (endpoint.includes('/inventory')) {
-      const urlParams = new URLSearchParams(endpoint.split('?')[1] || '');
-      const category = urlParams.get('category') || undefined;
-      data = mockDataGenerator.generateInventoryData(category);
-    } else if (endpoint.includes('/customers')) {
-      data = mockDataGenerator.generateCustomerData();
-    } else if (endpoint.includes('/financial')) {
-      data = mockDataGenerator.generateFinancialMetrics();
-    } else {
-      // Default fallback
-      data = { message: 'Mock data not implemented for this endpoint' };
+  /**
+   * Register (or replace) a data source adapter
+   */
+  registerDataSource(adapter: DataSourceAdapter): void {
+    this.adapters.set(adapter.name, adapter);
+    configService.log('info', `Registered data source: ${adapter.name} (${adapter.kind})`);
+  }
+
+  /**
+   * Route an endpoint path (and its sub-paths) to a registered data source
+   */
+  setDataSourceRoute(path: string, sourceName: string): void {
+    if (!this.adapters.has(sourceName)) {
+      throw new Error(`Data source not registered: ${sourceName}`);
     }
+    this.routes[path] = sourceName;
+  }
 
-    return {
-      data: data as T,
-      success: true,
-      message: 'Success',
-      timestamp: new Date().toISOString()
-    };
+  /**
+   * Remove a route so the endpoint falls back to the default data source
+   */
+  clearDataSourceRoute(path: string): void {
+    delete this.routes[path];
+  }
+
+  /**
+   * Get the data source that would serve an endpoint
+   */
+  getDataSourceFor(endpoint: string): DataSourceAdapter {
+    return this.resolveDataSource(parseEndpoint(endpoint).path);
   }
 
   // Business metrics endpoints
-  async getBusinessMetrics(filters?: FilterCriteria, useCache = true): Promise<BusinessMetrics> {
+  async getBusinessMetrics(filters?: FilterCriteria, useCache = true, signal?: AbortSignal): Promise<BusinessMetrics> {
     // Check cache first if enabled
     if (useCache) {
-      const cached = dataCacheService.getCachedBusinessMetrics(filters);
+      const cached = dataCacheService.getCachedBusinessMetrics(filters, () => this.getBusinessMetrics(filters, false));
       if (cached) {
         configService.log('debug', 'Using cached business metrics');
         return cached;
@@ -189,7 +379,7 @@ class ApiService {
     }).toString() : '';
 
     const endpoint = `/metrics${queryParams ? `?${queryParams}` : ''}`;
-    const response = await this.request<BusinessMetrics>(endpoint);
+    const response = await this.request<BusinessMetrics>(endpoint, { signal });
     
     // Cache the result
     if (useCache) {
@@ -200,10 +390,15 @@ class ApiService {
   }
 
   // Revenue data endpoints
-  async getRevenueData(period: TimePeriod = TimePeriod.MONTHLY, filters?: FilterCriteria, useCache = true): Promise<ChartData> {
+  async getRevenueData(
+    period: TimePeriod = TimePeriod.MONTHLY,
+    filters?: FilterCriteria,
+    useCache = true,
+    signal?: AbortSignal
+  ): Promise<ChartData> {
     // Check cache first if enabled
     if (useCache) {
-      const cached = dataCacheService.getCachedRevenueData(period, filters);
+      const cached = dataCacheService.getCachedRevenueData(period, filters, () => this.getRevenueData(period, filters, false));
       if (cached) {
         configService.log('debug', 'Using cached revenue data');
         return cached;
@@ -219,7 +414,7 @@ class ApiService {
       }
     }
     
-    const response = await this.request<ChartData>(`/revenue?${queryParams.toString()}`);
+    const response = await this.request<ChartData>(`/revenue?${queryParams.toString()}`, { signal });
     const transformedData = dataTransformUtils.transformToChartData(response.data);
     
     // Cache the result
@@ -231,10 +426,15 @@ class ApiService {
   }
 
   // Inventory data endpoints
-  async getInventoryData(category?: string, filters?: FilterCriteria, useCache = true): Promise<ChartData> {
+  async getInventoryData(
+    category?: string,
+    filters?: FilterCriteria,
+    useCache = true,
+    signal?: AbortSignal
+  ): Promise<ChartData> {
     // Check cache first if enabled
     if (useCache) {
-      const cached = dataCacheService.getCachedInventoryData(category, filters);
+      const cached = dataCacheService.getCachedInventoryData(category, filters, () => this.getInventoryData(category, filters, false));
       if (cached) {
         configService.log('debug', 'Using cached inventory data');
         return cached;
@@ -252,7 +452,7 @@ class ApiService {
     }
     
     const endpoint = `/inventory${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    const response = await this.request<ChartData>(endpoint);
+    const response = await this.request<ChartData>(endpoint, { signal });
     const transformedData = dataTransformUtils.transformToChartData(response.data);
     
     // Cache the result
@@ -264,10 +464,10 @@ class ApiService {
   }
 
   // Customer metrics endpoints
-  async getCustomerMetrics(filters?: FilterCriteria, useCache = true): Promise<ChartData> {
+  async getCustomerMetrics(filters?: FilterCriteria, useCache = true, signal?: AbortSignal): Promise<ChartData> {
     // Check cache first if enabled
     if (useCache) {
-      const cached = dataCacheService.getCachedCustomerData(filters);
+      const cached = dataCacheService.getCachedCustomerData(filters, () => this.getCustomerMetrics(filters, false));
       if (cached) {
         configService.log('debug', 'Using cached customer data');
         return cached;
@@ -281,7 +481,7 @@ class ApiService {
     }).toString() : '';
 
     const endpoint = `/customers${queryParams ? `?${queryParams}` : ''}`;
-    const response = await this.request<ChartData>(endpoint);
+    const response = await this.request<ChartData>(endpoint, { signal });
     const transformedData = dataTransformUtils.transformToChartData(response.data);
     
     // Cache the result
@@ -293,7 +493,7 @@ class ApiService {
   }
 
   // Financial metrics endpoints
-  async getFinancialMetrics(filters?: FilterCriteria): Promise<FinancialMetrics> {
+  async getFinancialMetrics(filters?: FilterCriteria, signal?: AbortSignal): Promise<FinancialMetrics> {
     const queryParams = filters ? new URLSearchParams({
       startDate: filters.dateRange.start.toISOString(),
       endDate: filters.dateRange.end.toISOString(),
@@ -302,12 +502,12 @@ class ApiService {
     }).toString() : '';
 
     const endpoint = `/financial${queryParams ? `?${queryParams}` : ''}`;
-    const response = await this.request<FinancialMetrics>(endpoint);
+    const response = await this.request<FinancialMetrics>(endpoint, { signal });
     return response.data;
   }
 
   // Detailed customer metrics
-  async getDetailedCustomerMetrics(filters?: FilterCriteria): Promise<CustomerMetrics> {
+  async getDetailedCustomerMetrics(filters?: FilterCriteria, signal?: AbortSignal): Promise<CustomerMetrics> {
     const queryParams = filters ? new URLSearchParams({
       startDate: filters.dateRange.start.toISOString(),
       endDate: filters.dateRange.end.toISOString(),
@@ -315,20 +515,18 @@ class ApiService {
     }).toString() : '';
 
     const endpoint = `/customers/detailed${queryParams ? `?${queryParams}` : ''}`;
-    const response = await this.request<CustomerMetrics>(endpoint);
+    const response = await this.request<CustomerMetrics>(endpoint, { signal });
     return response.data;
   }
 
   // Export functionality
   async exportData(format: 'pdf' | 'excel', data: unknown): Promise<Blob> {
     if (configService.useMockData) {
-      // Simulate export for mock data
+      // Render locally what the export endpoint would return
       await this.simulateDelay(1000, 3000);
-      
-      const mockBlob = new Blob(['Mock export data'], { 
-        type: format === 'pdf' ? 'application/pdf' : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' 
-      });
-      return mockBlob;
+
+      const { definition, data: reportData } = reportFromExportPayload(data);
+      return toReportBlob(renderReport(definition, reportData, format === 'pdf' ? ExportFormat.PDF : ExportFormat.EXCEL));
     }
 
     const response = await fetch(`${configService.apiBaseUrl}/export/${format}`, {
@@ -366,7 +564,7 @@ class ApiService {
   }
 
   // Batch data fetching for dashboard initialization
-  async getDashboardData(filters?: FilterCriteria): Promise<{
+  async getDashboardData(filters?: FilterCriteria, signal?: AbortSignal): Promise<{
     metrics: BusinessMetrics;
     revenue: ChartData;
     inventory: ChartData;
@@ -374,10 +572,10 @@ class ApiService {
   }> {
     try {
       const [metrics, revenue, inventory, customers] = await Promise.all([
-        this.getBusinessMetrics(filters),
-        this.getRevenueData(TimePeriod.MONTHLY, filters),
-        this.getInventoryData(undefined, filters),
-        this.getCustomerMetrics(filters)
+        this.getBusinessMetrics(filters, true, signal),
+        this.getRevenueData(TimePeriod.MONTHLY, filters, true, signal),
+        this.getInventoryData(undefined, filters, true, signal),
+        this.getCustomerMetrics(filters, true, signal)
       ]);
 
       return { metrics, revenue, inventory, customers };
@@ -2,15 +2,31 @@ import { FilterCriteria, TimePeriod } from '@/types';
 import { configService } from './configService';
 import { dataCacheService } from './dataCacheService';
 import { apiService } from './api';
+import {
+  RefreshSchedule,
+  BurstWindow,
+  getNextRunTime,
+  validateSchedule,
+  describeSchedule
+} from './refreshSchedule';
+import { circuitBreakerRegistry, isCircuitOpenError } from './circuitBreaker';
+import { tabCoordinator } from './tabCoordinator';
 
 export interface RefreshConfig {
   enabled: boolean;
-  interval: number; // Interval in milliseconds
+  interval: number; // Interval in milliseconds, used when no schedule is set
   retryAttempts: number;
-  retryDelay: number; // Delay between retries in milliseconds
+  retryDelay: number; // Base delay between retries in milliseconds
+  backoffMultiplier: number; // Growth factor applied to retryDelay per consecutive failure
+  maxRetryDelay: number; // Upper bound for the backoff delay
+  jitter: number; // Fraction (0-1) of the backoff delay randomized to spread out retries
   onlyWhenVisible: boolean; // Only refresh when page is visible
+  schedule?: RefreshSchedule | undefined; // Cron or business-hours schedule overriding interval
+  burstWindows?: BurstWindow[] | undefined; // Periods with faster refresh, e.g. fiscal period close
 }
 
+export type RefreshJobStatus = 'idle' | 'running' | 'backoff' | 'paused';
+
 export interface RefreshJob {
   id: string;
   type: 'metrics' | 'revenue' | 'inventory' | 'customers' | 'all';
@@ -19,12 +35,49 @@ export interface RefreshJob {
   lastRun?: number | undefined;
   nextRun?: number | undefined;
   isRunning: boolean;
+  status: RefreshJobStatus;
+  pausedUntil?: number | undefined; // Set while an endpoint circuit is open
+  lastError?: string | undefined;
   errors: number;
   successCount: number;
 }
 
 type RefreshEventHandler = (job: RefreshJob, success: boolean, error?: Error) => void;
 
+// setTimeout overflows above 2^31 - 1 ms (~24.8 days)
+const MAX_TIMER_DELAY = 2147483647;
+
+// API paths each job type hits, used to look up their circuit breakers
+const JOB_ENDPOINTS: Record<RefreshJob['type'], string[]> = {
+  metrics: ['/metrics'],
+  revenue: ['/revenue'],
+  inventory: ['/inventory'],
+  customers: ['/customers'],
+  all: ['/metrics', '/revenue', '/inventory', '/customers']
+};
+
+/**
+ * Exponential backoff delay for the given number of consecutive failures, with jitter
+ */
+export const getBackoffDelay = (config: RefreshConfig, failures: number, random: () => number = Math.random): number => {
+  const exponent = Math.max(failures - 1, 0);
+  const base = Math.min(config.retryDelay * Math.pow(config.backoffMultiplier, exponent), config.maxRetryDelay);
+  const jitter = Math.min(Math.max(config.jitter, 0), 1);
+  return Math.round(base * (1 - jitter + jitter * random()));
+};
+
+/**
+ * The schedule a job actually runs on
+ */
+export const getEffectiveSchedule = (config: RefreshConfig): RefreshSchedule =>
+  config.schedule || { kind: 'interval', interval: config.interval };
+
+/**
+ * Human-readable schedule for a job
+ */
+export const describeJobSchedule = (job: RefreshJob): string =>
+  describeSchedule(getEffectiveSchedule(job.config), job.config.burstWindows);
+
 class AutoRefreshService {
   private jobs = new Map<string, RefreshJob>();
   private timers = new Map<string, ReturnType<typeof setTimeout>>();
@@ -35,11 +88,15 @@ class AutoRefreshService {
     interval: 5 * 60 * 1000, // 5 minutes default
     retryAttempts: 3,
     retryDelay: 5000, // 5 seconds
+    backoffMultiplier: 2,
+    maxRetryDelay: 5 * 60 * 1000, // 5 minutes
+    jitter: 0.5,
     onlyWhenVisible: true
   };
 
   constructor() {
     this.setupVisibilityHandling();
+    this.setupCircuitHandling();
     configService.log('info', 'Auto-refresh service initialized');
   }
 
@@ -61,6 +118,24 @@ class AutoRefreshService {
     }
   }
 
+  /**
+   * Resume paused jobs as soon as their endpoints recover (e.g. a manual request succeeded)
+   */
+  private setupCircuitHandling(): void {
+    circuitBreakerRegistry.subscribe(snapshot => {
+      if (snapshot.state !== 'closed') return;
+
+      for (const job of this.jobs.values()) {
+        if (job.status === 'paused' && job.config.enabled && JOB_ENDPOINTS[job.type].includes(snapshot.key)) {
+          configService.log('info', `Circuit ${snapshot.key} closed, resuming job ${job.id}`);
+          job.status = 'idle';
+          job.pausedUntil = undefined;
+          this.executeJob(job);
+        }
+      }
+    });
+  }
+
   /**
    * Create or update a refresh job
    */
@@ -71,6 +146,14 @@ class AutoRefreshService {
     filters?: FilterCriteria
   ): RefreshJob {
     const jobConfig = { ...this.globalConfig, ...config };
+
+    if (jobConfig.schedule) {
+      const errors = validateSchedule(jobConfig.schedule);
+      if (errors.length > 0) {
+        configService.log('error', `Invalid schedule for job ${id}, falling back to interval:`, errors);
+        jobConfig.schedule = undefined;
+      }
+    }
     
     const job: RefreshJob = {
       id,
@@ -78,6 +161,7 @@ class AutoRefreshService {
       config: jobConfig,
       filters,
       isRunning: false,
+      status: 'idle',
       errors: 0,
       successCount: 0
     };
@@ -88,7 +172,7 @@ class AutoRefreshService {
       this.scheduleJob(job);
     }
     
-    configService.log('info', `Created refresh job: ${id} (${type}), interval: ${jobConfig.interval}ms`);
+    configService.log('info', `Created refresh job: ${id} (${type}), schedule: ${describeSchedule(getEffectiveSchedule(jobConfig), jobConfig.burstWindows)}`);
     return job;
   }
 
@@ -105,20 +189,33 @@ class AutoRefreshService {
     }
 
     const now = Date.now();
-    job.nextRun = now + job.config.interval;
-    
+    job.nextRun = getNextRunTime(getEffectiveSchedule(job.config), now, job.config.burstWindows);
+    this.armTimer(job);
+    configService.log('debug', `Scheduled job ${job.id} to run at ${new Date(job.nextRun).toISOString()}`);
+  }
+
+  /**
+   * Start the timer for a job's next run, re-arming if the delay exceeds what setTimeout supports
+   */
+  private armTimer(job: RefreshJob): void {
+    const delay = Math.max((job.nextRun ?? Date.now()) - Date.now(), 0);
+
     const timer = setTimeout(() => {
+      if (job.nextRun && job.nextRun > Date.now()) {
+        this.armTimer(job);
+        return;
+      }
       this.executeJob(job);
-    }, job.config.interval);
+    }, Math.min(delay, MAX_TIMER_DELAY));
     
     this.timers.set(job.id, timer);
-    configService.log('debug', `Scheduled job ${job.id} to run in ${job.config.interval}ms`);
   }
 
   /**
-   * Execute a refresh job
+   * Execute a refresh job. Scheduled runs only happen in the leader tab;
+   * manual refreshes (force) run in any tab.
    */
-  private async executeJob(job: RefreshJob): Promise<void> {
+  private async executeJob(job: RefreshJob, force = false): Promise<void> {
     if (job.isRunning) {
       configService.log('debug', `Job ${job.id} is already running, skipping`);
       return;
@@ -131,7 +228,22 @@ class AutoRefreshService {
       return;
     }
 
+    // The leader tab refreshes and broadcasts results into this tab's cache
+    if (!force && !tabCoordinator.isLeader()) {
+      configService.log('debug', `Skipping job ${job.id} - another tab is leading`);
+      this.scheduleJob(job);
+      return;
+    }
+
+    // Don't call endpoints whose circuit is open, wait until a trial request is allowed
+    const retryAt = this.getCircuitRetryAt(job);
+    if (retryAt !== undefined) {
+      this.pauseJob(job, retryAt);
+      return;
+    }
+
     job.isRunning = true;
+    job.status = 'running';
     job.lastRun = Date.now();
     
     configService.log('debug', `Executing refresh job: ${job.id} (${job.type})`);
@@ -140,23 +252,41 @@ class AutoRefreshService {
       await this.performRefresh(job);
       job.successCount++;
       job.errors = 0; // Reset error count on success
+      job.status = 'idle';
+      job.pausedUntil = undefined;
+      job.lastError = undefined;
       this.notifyHandlers(job, true);
       configService.log('debug', `Job ${job.id} completed successfully`);
     } catch (error) {
+      job.isRunning = false;
+      job.lastError = error instanceof Error ? error.message : String(error);
+
+      if (isCircuitOpenError(error)) {
+        this.pauseJob(job, (error as Error & { retryAt?: number }).retryAt, error as Error);
+        return;
+      }
+
       job.errors++;
-      this.notifyHandlers(job, false, error as Error);
       configService.log('error', `Job ${job.id} failed:`, error);
-      
-      // Retry logic
+
+      // Retry with exponential backoff; keep backing off between scheduled runs once retries are exhausted
+      const delay = getBackoffDelay(job.config, job.errors);
       if (job.errors < job.config.retryAttempts) {
-        configService.log('info', `Retrying job ${job.id} in ${job.config.retryDelay}ms (attempt ${job.errors + 1})`);
-        setTimeout(() => {
-          this.executeJob(job);
-        }, job.config.retryDelay);
-        return;
+        configService.log('info', `Retrying job ${job.id} in ${delay}ms (attempt ${job.errors + 1})`);
+        this.backoffJob(job, delay);
       } else {
-        configService.log('error', `Job ${job.id} failed after ${job.config.retryAttempts} attempts`);
+        configService.log('error', `Job ${job.id} failed after ${job.errors} attempts`);
+        job.status = 'idle';
+        if (job.config.enabled) {
+          this.scheduleJob(job);
+          if ((job.nextRun ?? 0) < Date.now() + delay) {
+            this.backoffJob(job, delay);
+          }
+        }
       }
+
+      this.notifyHandlers(job, false, error as Error);
+      return;
     } finally {
       job.isRunning = false;
     }
@@ -167,6 +297,61 @@ class AutoRefreshService {
     }
   }
 
+  /**
+   * Earliest time the job's open circuits allow a trial request, if any is open
+   */
+  private getCircuitRetryAt(job: RefreshJob): number | undefined {
+    let retryAt: number | undefined;
+
+    for (const path of JOB_ENDPOINTS[job.type]) {
+      if (circuitBreakerRegistry.getState(path) !== 'open') continue;
+      const breakerRetryAt = circuitBreakerRegistry.get(path).getRetryAt() ?? Date.now();
+      retryAt = Math.max(retryAt ?? 0, breakerRetryAt);
+    }
+
+    return retryAt;
+  }
+
+  /**
+   * Hold a job until its circuit allows a trial request
+   */
+  private pauseJob(job: RefreshJob, retryAt?: number, error?: Error): void {
+    const resumeAt = retryAt ?? Date.now() + circuitBreakerRegistry.getConfig().resetTimeout;
+    const wasPaused = job.status === 'paused';
+
+    job.status = 'paused';
+    job.pausedUntil = resumeAt;
+
+    if (job.config.enabled) {
+      this.clearTimer(job.id);
+      job.nextRun = resumeAt;
+      this.armTimer(job);
+    }
+
+    if (!wasPaused) {
+      configService.log('warn', `Pausing job ${job.id} until ${new Date(resumeAt).toISOString()}, backend unavailable`);
+      this.notifyHandlers(job, false, error || new Error('Backend unavailable'));
+    }
+  }
+
+  /**
+   * Re-run a failed job after a backoff delay
+   */
+  private backoffJob(job: RefreshJob, delay: number): void {
+    job.status = 'backoff';
+    this.clearTimer(job.id);
+    job.nextRun = Date.now() + delay;
+    this.armTimer(job);
+  }
+
+  private clearTimer(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+
   /**
    * Perform the actual data refresh
    */
@@ -193,10 +378,11 @@ class AutoRefreshService {
   }
 
   /**
-   * Refresh business metrics
+   * Refresh business metrics. Refresh jobs bypass the cache so stale entries
+   * are replaced with fetched data rather than re-stamped as fresh.
    */
   private async refreshBusinessMetrics(filters?: FilterCriteria): Promise<void> {
-    const data = await apiService.getBusinessMetrics(filters);
+    const data = await apiService.getBusinessMetrics(filters, false);
     dataCacheService.cacheBusinessMetrics(data, filters);
   }
 
@@ -207,7 +393,7 @@ class AutoRefreshService {
     const periods: TimePeriod[] = [TimePeriod.DAILY, TimePeriod.MONTHLY, TimePeriod.QUARTERLY];
     
     await Promise.all(periods.map(async (period) => {
-      const data = await apiService.getRevenueData(period, filters);
+      const data = await apiService.getRevenueData(period, filters, false);
       dataCacheService.cacheRevenueData(data, period, filters);
     }));
   }
@@ -217,13 +403,13 @@ class AutoRefreshService {
    */
   private async refreshInventoryData(filters?: FilterCriteria): Promise<void> {
     // Refresh general inventory data
-    const generalData = await apiService.getInventoryData(undefined, filters);
+    const generalData = await apiService.getInventoryData(undefined, filters, false);
     dataCacheService.cacheInventoryData(generalData, undefined, filters);
     
     // Refresh category-specific data for common categories
     const categories = ['Electronics', 'Books', 'Clothing', 'Home & Garden'];
     await Promise.all(categories.map(async (category) => {
-      const data = await apiService.getInventoryData(category, filters);
+      const data = await apiService.getInventoryData(category, filters, false);
       dataCacheService.cacheInventoryData(data, category, filters);
     }));
   }
@@ -232,7 +418,7 @@ class AutoRefreshService {
    * Refresh customer data
    */
   private async refreshCustomerData(filters?: FilterCriteria): Promise<void> {
-    const data = await apiService.getCustomerMetrics(filters);
+    const data = await apiService.getCustomerMetrics(filters, false);
     dataCacheService.cacheCustomerData(data, filters);
   }
 
@@ -334,7 +520,7 @@ class AutoRefreshService {
     }
 
     try {
-      await this.executeJob(job);
+      await this.executeJob(job, true);
       return true;
     } catch (error) {
       configService.log('error', `Manual refresh failed for job ${id}:`, error);
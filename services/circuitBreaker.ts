@@ -0,0 +1,239 @@
+import { configService } from './configService';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number; // Consecutive failures before the circuit opens
+  resetTimeout: number; // How long the circuit stays open before a trial request
+  halfOpenMaxCalls: number; // Trial requests allowed while half-open
+}
+
+export interface CircuitSnapshot {
+  key: string;
+  state: CircuitState;
+  failures: number;
+  openedAt?: number | undefined;
+  nextAttemptAt?: number | undefined;
+  lastError?: string | undefined;
+}
+
+type CircuitListener = (snapshot: CircuitSnapshot) => void;
+
+export const createCircuitOpenError = (key: string, retryAt?: number): Error => {
+  const error = new Error(`Circuit open for ${key}, backend unavailable`);
+  error.name = 'CircuitOpenError';
+  (error as Error & { retryAt?: number }).retryAt = retryAt;
+  return error;
+};
+
+export const isCircuitOpenError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'CircuitOpenError';
+
+/**
+ * Closed -> open after repeated failures; open -> half-open once the reset
+ * timeout passes; half-open -> closed on a successful trial, open on failure.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private halfOpenCalls = 0;
+  private openedAt?: number;
+  private lastError?: string;
+
+  constructor(
+    readonly key: string,
+    private config: CircuitBreakerConfig,
+    private onChange?: (snapshot: CircuitSnapshot) => void
+  ) {}
+
+  /**
+   * Whether a request may go through right now (moves open -> half-open when due)
+   */
+  canRequest(): boolean {
+    if (this.state === 'open' && this.openedAt !== undefined && Date.now() - this.openedAt >= this.config.resetTimeout) {
+      this.transition('half-open');
+    }
+
+    if (this.state === 'open') return false;
+    if (this.state === 'half-open') {
+      if (this.halfOpenCalls >= this.config.halfOpenMaxCalls) return false;
+      this.halfOpenCalls++;
+    }
+    return true;
+  }
+
+  recordSuccess(): void {
+    const wasClosed = this.state === 'closed' && this.failures === 0;
+    this.failures = 0;
+    this.lastError = undefined;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    } else if (!wasClosed) {
+      this.emit();
+    }
+  }
+
+  recordFailure(error?: unknown): void {
+    this.failures++;
+    this.lastError = error instanceof Error ? error.message : undefined;
+
+    if (this.state === 'half-open' || this.failures >= this.config.failureThreshold) {
+      this.transition('open');
+    } else {
+      this.emit();
+    }
+  }
+
+  /**
+   * Give back a half-open trial slot when the request neither succeeded nor failed (e.g. aborted)
+   */
+  releaseTrial(): void {
+    if (this.state === 'half-open' && this.halfOpenCalls > 0) {
+      this.halfOpenCalls--;
+    }
+  }
+
+  /**
+   * Earliest time a trial request will be allowed, if the circuit is open
+   */
+  getRetryAt(): number | undefined {
+    return this.state === 'open' && this.openedAt !== undefined
+      ? this.openedAt + this.config.resetTimeout
+      : undefined;
+  }
+
+  getState(): CircuitState {
+    // Report half-open once the reset timeout has passed, without consuming a trial call
+    if (this.state === 'open' && this.openedAt !== undefined && Date.now() - this.openedAt >= this.config.resetTimeout) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  getSnapshot(): CircuitSnapshot {
+    return {
+      key: this.key,
+      state: this.getState(),
+      failures: this.failures,
+      openedAt: this.openedAt,
+      nextAttemptAt: this.getRetryAt(),
+      lastError: this.lastError
+    };
+  }
+
+  reset(): void {
+    this.failures = 0;
+    this.lastError = undefined;
+    this.transition('closed');
+  }
+
+  updateConfig(config: CircuitBreakerConfig): void {
+    this.config = config;
+  }
+
+  private transition(state: CircuitState): void {
+    this.state = state;
+    this.halfOpenCalls = 0;
+    this.openedAt = state === 'open' ? Date.now() : undefined;
+    configService.log(state === 'open' ? 'warn' : 'info', `Circuit ${this.key} is now ${state}`);
+    this.emit();
+  }
+
+  private emit(): void {
+    this.onChange?.(this.getSnapshot());
+  }
+}
+
+/**
+ * Per-endpoint circuit breakers shared by ApiService and AutoRefreshService
+ */
+class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+  private listeners: CircuitListener[] = [];
+  private config: CircuitBreakerConfig = {
+    failureThreshold: 5,
+    resetTimeout: 60 * 1000, // 1 minute
+    halfOpenMaxCalls: 1
+  };
+
+  get(key: string): CircuitBreaker {
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(key, this.config, snapshot => this.notify(snapshot));
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Run a request through the breaker for a key
+   */
+  async execute<T>(key: string, request: () => Promise<T>, isFailure: (error: unknown) => boolean = () => true): Promise<T> {
+    const breaker = this.get(key);
+    if (!breaker.canRequest()) {
+      throw createCircuitOpenError(key, breaker.getRetryAt());
+    }
+
+    try {
+      const result = await request();
+      breaker.recordSuccess();
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        breaker.recordFailure(error);
+      } else {
+        breaker.releaseTrial();
+      }
+      throw error;
+    }
+  }
+
+  getState(key: string): CircuitState {
+    return this.breakers.get(key)?.getState() ?? 'closed';
+  }
+
+  getAll(): CircuitSnapshot[] {
+    return Array.from(this.breakers.values()).map(breaker => breaker.getSnapshot());
+  }
+
+  subscribe(listener: CircuitListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  reset(key?: string): void {
+    if (key) {
+      this.breakers.get(key)?.reset();
+    } else {
+      this.breakers.forEach(breaker => breaker.reset());
+    }
+  }
+
+  updateConfig(config: Partial<CircuitBreakerConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.breakers.forEach(breaker => breaker.updateConfig(this.config));
+    configService.log('info', 'Circuit breaker configuration updated', this.config);
+  }
+
+  getConfig(): CircuitBreakerConfig {
+    return { ...this.config };
+  }
+
+  private notify(snapshot: CircuitSnapshot): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        configService.log('error', 'Error in circuit breaker listener:', error);
+      }
+    });
+  }
+}
+
+export const circuitBreakerRegistry = new CircuitBreakerRegistry();
+export default circuitBreakerRegistry;
@@ -0,0 +1,17 @@
+export type ClockHandle = ReturnType<typeof setTimeout>;
+
+/**
+ * Time source for timer-driven services; swap in a manual clock to drive tests
+ */
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, delay: number): ClockHandle;
+  clearTimeout(handle: ClockHandle): void;
+}
+
+// Reads the globals on every call so fake timers installed later still apply
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: handle => clearTimeout(handle)
+};
@@ -1,3 +1,5 @@
+import type { DataSourceDefinition } from './dataSourceAdapters';
+
 /**
  * Configuration service for managing application settings
  */
@@ -7,6 +9,16 @@ class ConfigService {
     return import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
   }
 
+  // Backend endpoint that relays alert emails over SMTP
+  get alertEmailRelayUrl(): string {
+    return import.meta.env.VITE_ALERT_EMAIL_RELAY_URL || `${this.apiBaseUrl}/notifications/email`;
+  }
+
+  // Sender address for scheduled report emails
+  get reportEmailFrom(): string {
+    return import.meta.env.VITE_REPORT_EMAIL_FROM || 'reports@localhost';
+  }
+
   get useMockData(): boolean {
     return import.meta.env.VITE_USE_MOCK_DATA !== 'false';
   }
@@ -19,6 +31,19 @@ class ConfigService {
     return parseFloat(import.meta.env.VITE_ERROR_RATE || '0.1');
   }
 
+  // Data Source Configuration
+  get defaultDataSource(): string {
+    return import.meta.env.VITE_DATA_SOURCE || (this.useMockData ? 'mock' : 'rest');
+  }
+
+  get dataSources(): DataSourceDefinition[] {
+    return this.parseJson<DataSourceDefinition[]>(import.meta.env.VITE_DATA_SOURCES, []);
+  }
+
+  get dataSourceRoutes(): Record<string, string> {
+    return this.parseJson<Record<string, string>>(import.meta.env.VITE_DATA_SOURCE_ROUTES, {});
+  }
+
   // Development Settings
   get debugMode(): boolean {
     return import.meta.env.VITE_DEBUG_MODE === 'true';
@@ -58,6 +83,10 @@ class ConfigService {
     return import.meta.env.VITE_ENABLE_ADVANCED_FILTERS !== 'false';
   }
 
+  get enableTabCoordination(): boolean {
+    return import.meta.env.VITE_ENABLE_TAB_COORDINATION !== 'false';
+  }
+
   // Environment Detection
   get isDevelopment(): boolean {
     return import.meta.env.DEV;
@@ -67,6 +96,17 @@ class ConfigService {
     return import.meta.env.PROD;
   }
 
+  private parseJson<T>(value: string | undefined, fallback: T): T {
+    if (!value) return fallback;
+
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      console.error('Invalid JSON in environment configuration:', value);
+      return fallback;
+    }
+  }
+
   // Logging utility
   log(level: 'debug' | 'info' | 'warn' | 'error', message: string, ...args: any[]): void {
     if (!this.shouldLog(level)) return;
@@ -119,6 +159,17 @@ class ConfigService {
       errors.push('Invalid mock delay configuration');
     }
 
+    // Validate data source routing
+    const knownSources = new Set(['mock', 'rest', ...this.dataSources.map(source => source.name)]);
+    if (!knownSources.has(this.defaultDataSource)) {
+      errors.push(`Unknown default data source "${this.defaultDataSource}"`);
+    }
+    Object.entries(this.dataSourceRoutes).forEach(([path, source]) => {
+      if (!knownSources.has(source)) {
+        errors.push(`Unknown data source "${source}" routed for ${path}`);
+      }
+    });
+
     // Validate refresh interval
     if (this.mockDataRefreshInterval < 1000) {
       errors.push('Mock data refresh interval must be at least 1000ms');
@@ -139,6 +190,11 @@ class ConfigService {
         simulateDelays: this.simulateDelays,
         errorSimulationRate: this.errorSimulationRate
       },
+      dataSources: {
+        default: this.defaultDataSource,
+        sources: this.dataSources.map(source => ({ name: source.name, kind: source.kind })),
+        routes: this.dataSourceRoutes
+      },
       development: {
         debugMode: this.debugMode,
         logLevel: this.logLevel,
@@ -153,7 +209,8 @@ class ConfigService {
       features: {
         realTimeUpdates: this.enableRealTimeUpdates,
         exportFeatures: this.enableExportFeatures,
-        advancedFilters: this.enableAdvancedFilters
+        advancedFilters: this.enableAdvancedFilters,
+        tabCoordination: this.enableTabCoordination
       }
     };
   }
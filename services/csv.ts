@@ -0,0 +1,20 @@
+export interface CsvCellOptions {
+  delimiter?: string;
+  decimal?: string; // Decimal separator for numbers, e.g. ',' for de-DE
+}
+
+/**
+ * Quote a CSV cell, and keep text that looks like a formula from being
+ * evaluated by spreadsheets. Dates are written as ISO timestamps and
+ * non-finite numbers as empty cells.
+ */
+export const toCsvCell = (value: unknown, { delimiter = ',', decimal = '.' }: CsvCellOptions = {}): string => {
+  let text: string;
+  if (value === undefined || value === null) text = '';
+  else if (value instanceof Date) text = value.toISOString();
+  else if (typeof value === 'number') text = isFinite(value) ? String(value).replace('.', decimal) : '';
+  else if (typeof value === 'string') text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  else text = String(value);
+
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
@@ -1,5 +1,7 @@
 import { BusinessMetrics, ChartData, FilterCriteria, TimePeriod } from '@/types';
 import { configService } from './configService';
+import { PersistentCacheStore } from './persistentCacheStore';
+import { tabCoordinator } from './tabCoordinator';
 
 export interface CacheEntry<T> {
   data: T;
@@ -7,6 +9,36 @@ export interface CacheEntry<T> {
   ttl: number; // Time to live in milliseconds
   key: string;
   hits: number;
+  revalidating?: boolean;
+  tags: string[];
+}
+
+export type CacheDomain = 'metrics' | 'revenue' | 'inventory' | 'customers' | 'financial';
+
+/**
+ * Domains whose cached data is derived from other domains; invalidating a
+ * domain also invalidates everything that depends on it
+ */
+export const CACHE_DOMAIN_DEPENDENCIES: Record<CacheDomain, CacheDomain[]> = {
+  metrics: ['revenue', 'inventory', 'customers'],
+  revenue: [],
+  inventory: [],
+  customers: [],
+  financial: ['revenue']
+};
+
+export interface CacheInvalidationEvent {
+  keys: string[];
+  tags?: string[];
+  pattern?: string;
+  reason?: string;
+  timestamp: number;
+}
+
+export interface InvalidateByTagsOptions {
+  match?: 'any' | 'all'; // Whether an entry needs any or all of the tags (default 'all')
+  cascade?: boolean; // Follow domain dependencies (default true)
+  reason?: string;
 }
 
 export interface CacheStats {
@@ -15,6 +47,11 @@ export interface CacheStats {
   totalMisses: number;
   hitRate: number;
   memoryUsage: number; // Approximate memory usage in bytes
+  staleHits: number; // Expired entries served while revalidating
+  revalidations: number;
+  revalidationFailures: number;
+  persistentEntries: number;
+  persistentBytes: number;
 }
 
 export interface CacheConfig {
@@ -22,32 +59,167 @@ export interface CacheConfig {
   defaultTTL: number; // Default TTL in milliseconds
   cleanupInterval: number; // Cleanup interval in milliseconds
   enableStats: boolean;
+  staleWhileRevalidate: boolean; // Serve expired entries while refetching in the background
+  maxStaleAge: number; // How long past its TTL an entry may still be served stale
+  persistent: boolean; // Mirror entries into IndexedDB so they survive reloads
+  persistentMaxBytes: number; // Byte budget for the persistent tier
+}
+
+export interface CacheUpdateEvent<T = unknown> {
+  key: string;
+  data: T;
+  revalidated: boolean; // True when the update came from a background revalidation
+  timestamp: number;
 }
 
+// Entry shared with other tabs when it is written
+export type SharedCacheEntry<T = unknown> = Pick<CacheEntry<T>, 'key' | 'data' | 'timestamp' | 'ttl' | 'tags'>;
+
+type CacheUpdateListener = (event: CacheUpdateEvent) => void;
+type CacheInvalidationListener = (event: CacheInvalidationEvent) => void;
+type Revalidator<T> = () => Promise<T>;
+
+const WILDCARD = '*';
+
+/**
+ * Build a `dimension:value` tag
+ */
+export const cacheTag = (dimension: string, value: string): string => `${dimension}:${value}`;
+
+/**
+ * Domains that depend (directly or transitively) on the given domain, including itself
+ */
+export const getDependentDomains = (domain: CacheDomain): CacheDomain[] => {
+  const result = new Set<CacheDomain>([domain]);
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    (Object.keys(CACHE_DOMAIN_DEPENDENCIES) as CacheDomain[]).forEach(candidate => {
+      if (!result.has(candidate) && CACHE_DOMAIN_DEPENDENCIES[candidate].some(dep => result.has(dep))) {
+        result.add(candidate);
+        changed = true;
+      }
+    });
+  }
+
+  return Array.from(result);
+};
+
+/**
+ * An entry matches a tag when it carries the tag itself or the wildcard for
+ * that dimension (an unfiltered entry covers every region, unit, etc.)
+ */
+const entryHasTag = (entryTags: string[], tag: string): boolean => {
+  if (entryTags.includes(tag)) return true;
+  const [dimension] = tag.split(':');
+  return dimension !== 'domain' && entryTags.includes(cacheTag(dimension || '', WILDCARD));
+};
+
 class DataCacheService {
   private cache = new Map<string, CacheEntry<any>>();
   private stats = {
     hits: 0,
-    misses: 0
+    misses: 0,
+    staleHits: 0,
+    revalidations: 0,
+    revalidationFailures: 0
   };
+  private listeners = new Map<string, Set<CacheUpdateListener>>();
+  private invalidationListeners: CacheInvalidationListener[] = [];
+  private invalidationHistory: CacheInvalidationEvent[] = [];
+  private readonly maxInvalidationHistory = 50;
   private cleanupTimer: ReturnType<typeof setInterval> | null = null;
+  private persistentStore: PersistentCacheStore;
+  private readyPromise: Promise<void>;
 
   private config: CacheConfig = {
     maxEntries: 100,
     defaultTTL: 5 * 60 * 1000, // 5 minutes
     cleanupInterval: 60 * 1000, // 1 minute
-    enableStats: configService.debugMode
+    enableStats: configService.debugMode,
+    staleWhileRevalidate: true,
+    maxStaleAge: 30 * 60 * 1000, // 30 minutes
+    persistent: true,
+    persistentMaxBytes: 10 * 1024 * 1024 // 10 MB
   };
 
   constructor() {
+    this.persistentStore = new PersistentCacheStore({
+      maxBytes: this.config.persistentMaxBytes,
+      maxAge: this.config.maxStaleAge
+    });
     this.startCleanupTimer();
-    configService.log('info', 'Data cache service initialized');
+    this.setupTabSync();
+    this.readyPromise = this.hydrate();
+    configService.log('info', `Data cache service initialized (persistent tier: ${this.persistentStore.backendName})`);
+  }
+
+  /**
+   * Load the last known data from the persistent tier into memory
+   */
+  private async hydrate(): Promise<void> {
+    if (!this.config.persistent) return;
+
+    const entries = await this.persistentStore.load();
+    let restored = 0;
+
+    entries.forEach(({ key, data, timestamp, ttl, tags = [] }) => {
+      const existing = this.cache.get(key);
+      if (!existing || existing.timestamp < timestamp) {
+        this.cache.set(key, { data, timestamp, ttl, key, hits: 0, tags });
+        restored++;
+      }
+    });
+
+    if (restored > 0) {
+      configService.log('info', `Restored ${restored} cache entries from persistent storage`);
+    }
+  }
+
+  /**
+   * Share writes and invalidations with other open tabs
+   */
+  private setupTabSync(): void {
+    tabCoordinator.on<SharedCacheEntry>('cache-entry', entry => this.applySharedEntry(entry));
+    tabCoordinator.on<{ keys: string[]; reason?: string }>('cache-invalidation', ({ keys, reason }) => {
+      const removed = keys.filter(key => this.cache.delete(key));
+      if (removed.length > 0) {
+        configService.log('debug', `Removed ${removed.length} cache entries invalidated in another tab`);
+        this.emitInvalidation({ keys: removed, reason: reason || 'Invalidated in another tab', timestamp: Date.now() }, false);
+      }
+    });
+  }
+
+  /**
+   * Store an entry written by another tab. The writing tab already persisted
+   * it, so it only goes into memory. Returns false when the local copy is newer.
+   */
+  applySharedEntry<T>(entry: SharedCacheEntry<T>): boolean {
+    const existing = this.cache.get(entry.key);
+    if (existing && existing.timestamp >= entry.timestamp) return false;
+
+    if (!existing && this.cache.size >= this.config.maxEntries) {
+      this.evictLeastUsed();
+    }
+
+    this.cache.set(entry.key, { ...entry, hits: existing?.hits || 0, tags: entry.tags || [] });
+    configService.log('debug', `Applied cache entry from another tab: ${entry.key}`);
+    this.notify(entry.key, entry.data, false);
+    return true;
+  }
+
+  /**
+   * Resolves once persisted entries have been loaded into memory
+   */
+  whenReady(): Promise<void> {
+    return this.readyPromise;
   }
 
   /**
    * Generate cache key from parameters
    */
-  private generateKey(prefix: string, params?: Record<string, any>): string {
+  generateKey(prefix: string, params?: Record<string, any>): string {
     if (!params) return prefix;
     
     const sortedParams = Object.keys(params)
@@ -86,9 +258,18 @@ class DataCacheService {
   }
 
   /**
-   * Get data from cache
+   * Check if an expired entry may still be served while it revalidates
+   */
+  private isServableStale<T>(entry: CacheEntry<T>): boolean {
+    return this.config.staleWhileRevalidate &&
+      Date.now() - entry.timestamp < entry.ttl + this.config.maxStaleAge;
+  }
+
+  /**
+   * Get data from cache. When a revalidator is given and the entry has expired,
+   * the stale data is returned and fresh data is fetched in the background.
    */
-  get<T>(key: string): T | null {
+  get<T>(key: string, revalidate?: Revalidator<T>): T | null {
     const entry = this.cache.get(key);
     
     if (!entry) {
@@ -98,6 +279,14 @@ class DataCacheService {
     }
     
     if (!this.isValid(entry)) {
+      if (revalidate && this.isServableStale(entry)) {
+        entry.hits++;
+        this.stats.staleHits++;
+        configService.log('debug', `Serving stale cache entry for key: ${key}`);
+        this.revalidate(entry, revalidate);
+        return entry.data;
+      }
+
       this.cache.delete(key);
       this.stats.misses++;
       configService.log('debug', `Cache expired for key: ${key}`);
@@ -110,12 +299,92 @@ class DataCacheService {
     return entry.data;
   }
 
+  /**
+   * Get data from cache, falling back to the persistent tier on a memory miss
+   */
+  async getAsync<T>(key: string, revalidate?: Revalidator<T>): Promise<T | null> {
+    await this.whenReady();
+
+    if (!this.cache.has(key) && this.config.persistent) {
+      const persisted = await this.persistentStore.get<T>(key);
+      if (persisted) {
+        const { data, timestamp, ttl, tags = [] } = persisted;
+        this.cache.set(key, { data, timestamp, ttl, key, hits: 0, tags });
+      }
+    }
+
+    return this.get(key, revalidate);
+  }
+
+  /**
+   * Refetch an expired entry in the background, at most once at a time
+   */
+  private revalidate<T>(entry: CacheEntry<T>, revalidate: Revalidator<T>): void {
+    if (entry.revalidating) return;
+
+    entry.revalidating = true;
+    this.stats.revalidations++;
+    configService.log('debug', `Revalidating cache entry: ${entry.key}`);
+
+    revalidate()
+      .then(data => {
+        this.set(entry.key, data, entry.ttl, entry.tags);
+        this.notify(entry.key, data, true);
+      })
+      .catch(error => {
+        this.stats.revalidationFailures++;
+        configService.log('warn', `Revalidation failed for key: ${entry.key}`, error);
+      })
+      .finally(() => {
+        entry.revalidating = false;
+      });
+  }
+
+  /**
+   * Check whether the entry for a key has outlived its TTL
+   */
+  isStale(key: string): boolean {
+    const entry = this.cache.get(key);
+    return entry ? !this.isValid(entry) : false;
+  }
+
+  /**
+   * Subscribe to updates for a cache key
+   */
+  subscribe<T>(key: string, listener: (event: CacheUpdateEvent<T>) => void): () => void {
+    const listeners = this.listeners.get(key) || new Set<CacheUpdateListener>();
+    listeners.add(listener as CacheUpdateListener);
+    this.listeners.set(key, listeners);
+
+    return () => {
+      listeners.delete(listener as CacheUpdateListener);
+      if (listeners.size === 0) {
+        this.listeners.delete(key);
+      }
+    };
+  }
+
+  /**
+   * Notify subscribers of a key
+   */
+  private notify<T>(key: string, data: T, revalidated: boolean): void {
+    const event: CacheUpdateEvent<T> = { key, data, revalidated, timestamp: Date.now() };
+
+    this.listeners.get(key)?.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        configService.log('error', 'Error in cache update listener:', error);
+      }
+    });
+  }
+
   /**
    * Set data in cache
    */
-  set<T>(key: string, data: T, ttl?: number): void {
+  set<T>(key: string, data: T, ttl?: number, tags: string[] = []): void {
     // Check if we need to evict entries
-    if (this.cache.size >= this.config.maxEntries) {
+    if (!this.cache.has(key) && this.cache.size >= this.config.maxEntries) {
       this.evictLeastUsed();
     }
     
@@ -124,11 +393,18 @@ class DataCacheService {
       timestamp: Date.now(),
       ttl: ttl || this.config.defaultTTL,
       key,
-      hits: 0
+      hits: 0,
+      tags
     };
     
     this.cache.set(key, entry);
     configService.log('debug', `Cached data for key: ${key}, TTL: ${entry.ttl}ms`);
+
+    if (this.config.persistent) {
+      void this.persistentStore.set(key, data, entry.timestamp, entry.ttl, tags);
+    }
+
+    tabCoordinator.broadcast<SharedCacheEntry<T>>('cache-entry', { key, data, timestamp: entry.timestamp, ttl: entry.ttl, tags });
   }
 
   /**
@@ -165,8 +441,10 @@ class DataCacheService {
     const now = Date.now();
     const expiredKeys: string[] = [];
     
+    const staleAllowance = this.config.staleWhileRevalidate ? this.config.maxStaleAge : 0;
+    
     for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp >= entry.ttl) {
+      if (now - entry.timestamp >= entry.ttl + staleAllowance) {
         expiredKeys.push(key);
       }
     }
@@ -193,110 +471,272 @@ class DataCacheService {
     }, this.config.cleanupInterval);
   }
 
+  /**
+   * Cache key for business metrics
+   */
+  getBusinessMetricsKey(filters?: FilterCriteria): string {
+    return this.generateKey('business-metrics', { filters: this.generateFilterKey(filters) });
+  }
+
+  /**
+   * Cache key for revenue data
+   */
+  getRevenueDataKey(period: TimePeriod, filters?: FilterCriteria): string {
+    return this.generateKey('revenue-data', { 
+      period, 
+      filters: this.generateFilterKey(filters) 
+    });
+  }
+
+  /**
+   * Cache key for inventory data
+   */
+  getInventoryDataKey(category?: string, filters?: FilterCriteria): string {
+    return this.generateKey('inventory-data', { 
+      category, 
+      filters: this.generateFilterKey(filters) 
+    });
+  }
+
+  /**
+   * Cache key for customer data
+   */
+  getCustomerDataKey(filters?: FilterCriteria): string {
+    return this.generateKey('customer-data', { filters: this.generateFilterKey(filters) });
+  }
+
+  /**
+   * Tags describing which domain and filter slice an entry belongs to
+   */
+  buildTags(domain: CacheDomain, filters?: FilterCriteria, extra: Record<string, string | undefined> = {}): string[] {
+    const dimension = (name: string, values?: string[]) =>
+      values && values.length > 0
+        ? values.map(value => cacheTag(name, value))
+        : [cacheTag(name, WILDCARD)];
+
+    const tags = [
+      cacheTag('domain', domain),
+      ...dimension('region', filters?.regions),
+      ...dimension('businessUnit', filters?.businessUnits),
+      ...dimension('category', filters?.categories)
+    ];
+
+    Object.entries(extra).forEach(([name, value]) => {
+      if (value) tags.push(cacheTag(name, value));
+    });
+
+    return tags;
+  }
+
   /**
    * Cache business metrics
    */
   cacheBusinessMetrics(data: BusinessMetrics, filters?: FilterCriteria, ttl?: number): void {
-    const key = this.generateKey('business-metrics', { filters: this.generateFilterKey(filters) });
-    this.set(key, data, ttl);
+    this.set(this.getBusinessMetricsKey(filters), data, ttl, this.buildTags('metrics', filters));
   }
 
   /**
    * Get cached business metrics
    */
-  getCachedBusinessMetrics(filters?: FilterCriteria): BusinessMetrics | null {
-    const key = this.generateKey('business-metrics', { filters: this.generateFilterKey(filters) });
-    return this.get<BusinessMetrics>(key);
+  getCachedBusinessMetrics(filters?: FilterCriteria, revalidate?: Revalidator<BusinessMetrics>): BusinessMetrics | null {
+    return this.get<BusinessMetrics>(this.getBusinessMetricsKey(filters), revalidate);
   }
 
   /**
    * Cache revenue data
    */
   cacheRevenueData(data: ChartData, period: TimePeriod, filters?: FilterCriteria, ttl?: number): void {
-    const key = this.generateKey('revenue-data', { 
-      period, 
-      filters: this.generateFilterKey(filters) 
-    });
-    this.set(key, data, ttl);
+    this.set(this.getRevenueDataKey(period, filters), data, ttl, this.buildTags('revenue', filters, { period }));
   }
 
   /**
    * Get cached revenue data
    */
-  getCachedRevenueData(period: TimePeriod, filters?: FilterCriteria): ChartData | null {
-    const key = this.generateKey('revenue-data', { 
-      period, 
-      filters: this.generateFilterKey(filters) 
-    });
-    return this.get<ChartData>(key);
+  getCachedRevenueData(
+    period: TimePeriod,
+    filters?: FilterCriteria,
+    revalidate?: Revalidator<ChartData>
+  ): ChartData | null {
+    return this.get<ChartData>(this.getRevenueDataKey(period, filters), revalidate);
   }
 
   /**
    * Cache inventory data
    */
   cacheInventoryData(data: ChartData, category?: string, filters?: FilterCriteria, ttl?: number): void {
-    const key = this.generateKey('inventory-data', { 
-      category, 
-      filters: this.generateFilterKey(filters) 
-    });
-    this.set(key, data, ttl);
+    const tags = this.buildTags('inventory', category ? { ...filters, categories: [category] } as FilterCriteria : filters);
+    this.set(this.getInventoryDataKey(category, filters), data, ttl, tags);
   }
 
   /**
    * Get cached inventory data
    */
-  getCachedInventoryData(category?: string, filters?: FilterCriteria): ChartData | null {
-    const key = this.generateKey('inventory-data', { 
-      category, 
-      filters: this.generateFilterKey(filters) 
-    });
-    return this.get<ChartData>(key);
+  getCachedInventoryData(
+    category?: string,
+    filters?: FilterCriteria,
+    revalidate?: Revalidator<ChartData>
+  ): ChartData | null {
+    return this.get<ChartData>(this.getInventoryDataKey(category, filters), revalidate);
   }
 
   /**
    * Cache customer data
    */
   cacheCustomerData(data: ChartData, filters?: FilterCriteria, ttl?: number): void {
-    const key = this.generateKey('customer-data', { filters: this.generateFilterKey(filters) });
-    this.set(key, data, ttl);
+    this.set(this.getCustomerDataKey(filters), data, ttl, this.buildTags('customers', filters));
   }
 
   /**
    * Get cached customer data
    */
-  getCachedCustomerData(filters?: FilterCriteria): ChartData | null {
-    const key = this.generateKey('customer-data', { filters: this.generateFilterKey(filters) });
-    return this.get<ChartData>(key);
+  getCachedCustomerData(filters?: FilterCriteria, revalidate?: Revalidator<ChartData>): ChartData | null {
+    return this.get<ChartData>(this.getCustomerDataKey(filters), revalidate);
   }
 
   /**
    * Invalidate cache entries by pattern
    */
   invalidate(pattern: string): number {
-    const keysToDelete: string[] = [];
+    const keys = this.removeMatching(key => key.includes(pattern));
     
-    for (const key of this.cache.keys()) {
-      if (key.includes(pattern)) {
-        keysToDelete.push(key);
+    configService.log('debug', `Invalidated ${keys.length} cache entries matching pattern: ${pattern}`);
+    this.emitInvalidation({ keys, pattern, timestamp: Date.now() });
+    return keys.length;
+  }
+
+  /**
+   * Invalidate entries carrying the given tags. Domain tags cascade to the
+   * domains derived from them, so `domain:inventory` also drops metrics.
+   */
+  invalidateByTags(tags: string[], options: InvalidateByTagsOptions = {}): number {
+    const { match = 'all', cascade = true, reason } = options;
+    if (tags.length === 0) return 0;
+
+    const domainTags = tags.filter(tag => tag.startsWith('domain:'));
+    const otherTags = tags.filter(tag => !tag.startsWith('domain:'));
+    const domains = cascade
+      ? Array.from(new Set(domainTags.flatMap(tag => getDependentDomains(tag.slice('domain:'.length) as CacheDomain))))
+      : domainTags.map(tag => tag.slice('domain:'.length));
+    const expandedDomainTags = domains.map(domain => cacheTag('domain', domain));
+
+    const matches = (entryTags: string[]): boolean => {
+      if (match === 'any') {
+        return [...expandedDomainTags, ...otherTags].some(tag => entryHasTag(entryTags, tag));
       }
+
+      const domainMatches = expandedDomainTags.length === 0 ||
+        expandedDomainTags.some(tag => entryTags.includes(tag));
+      return domainMatches && otherTags.every(tag => entryHasTag(entryTags, tag));
+    };
+
+    const keys = this.removeMatching((_key, entryTags) => matches(entryTags));
+
+    configService.log('debug', `Invalidated ${keys.length} cache entries tagged: ${tags.join(', ')}`);
+    this.emitInvalidation({ keys, tags, reason, timestamp: Date.now() });
+    return keys.length;
+  }
+
+  /**
+   * Invalidate a data domain (and its dependents), optionally limited to regions or business units
+   */
+  invalidateDomain(
+    domain: CacheDomain,
+    scope: { regions?: string[]; businessUnits?: string[]; reason?: string } = {}
+  ): number {
+    const { regions = [], businessUnits = [], reason } = scope;
+    if (regions.length === 0 && businessUnits.length === 0) {
+      return this.invalidateByTags([cacheTag('domain', domain)], { reason });
     }
-    
-    keysToDelete.forEach(key => {
-      this.cache.delete(key);
+
+    // One pass per scoped value: an entry is dropped if it covers any of them
+    let total = 0;
+    const scopedTags = [
+      ...regions.map(region => cacheTag('region', region)),
+      ...businessUnits.map(unit => cacheTag('businessUnit', unit))
+    ];
+    scopedTags.forEach(tag => {
+      total += this.invalidateByTags([cacheTag('domain', domain), tag], { reason });
+    });
+    return total;
+  }
+
+  /**
+   * Remove matching entries from both tiers
+   */
+  private removeMatching(predicate: (key: string, tags: string[]) => boolean): string[] {
+    const removed = new Set<string>();
+
+    for (const [key, entry] of this.cache.entries()) {
+      if (predicate(key, entry.tags)) {
+        removed.add(key);
+      }
+    }
+    removed.forEach(key => this.cache.delete(key));
+
+    this.persistentStore.findKeys(predicate).forEach(key => {
+      removed.add(key);
+      void this.persistentStore.delete(key);
+    });
+
+    return Array.from(removed);
+  }
+
+  /**
+   * Subscribe to cache invalidations
+   */
+  onInvalidate(listener: CacheInvalidationListener): () => void {
+    this.invalidationListeners.push(listener);
+
+    return () => {
+      const index = this.invalidationListeners.indexOf(listener);
+      if (index > -1) {
+        this.invalidationListeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Recent invalidations, newest first
+   */
+  getInvalidationHistory(): CacheInvalidationEvent[] {
+    return [...this.invalidationHistory];
+  }
+
+  private emitInvalidation(event: CacheInvalidationEvent, share = true): void {
+    if (event.keys.length === 0) return;
+
+    if (share) {
+      tabCoordinator.broadcast('cache-invalidation', { keys: event.keys, reason: event.reason });
+    }
+
+    this.invalidationHistory.unshift(event);
+    if (this.invalidationHistory.length > this.maxInvalidationHistory) {
+      this.invalidationHistory.length = this.maxInvalidationHistory;
+    }
+
+    this.invalidationListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        configService.log('error', 'Error in cache invalidation listener:', error);
+      }
     });
-    
-    configService.log('debug', `Invalidated ${keysToDelete.length} cache entries matching pattern: ${pattern}`);
-    return keysToDelete.length;
   }
 
   /**
    * Clear all cache entries
    */
-  clear(): void {
+  clear(includePersistent = true): void {
     const size = this.cache.size;
     this.cache.clear();
+    if (includePersistent) {
+      void this.persistentStore.clear();
+    }
     this.stats.hits = 0;
     this.stats.misses = 0;
+    this.stats.staleHits = 0;
+    this.stats.revalidations = 0;
+    this.stats.revalidationFailures = 0;
     configService.log('info', `Cleared ${size} cache entries`);
   }
 
@@ -313,12 +753,19 @@ class DataCacheService {
       memoryUsage += JSON.stringify(entry.data).length * 2; // Rough estimate (UTF-16)
     }
     
+    const persistentUsage = this.persistentStore.getUsage();
+    
     return {
       totalEntries: this.cache.size,
       totalHits: this.stats.hits,
       totalMisses: this.stats.misses,
       hitRate: Math.round(hitRate * 100) / 100,
-      memoryUsage
+      memoryUsage,
+      staleHits: this.stats.staleHits,
+      revalidations: this.stats.revalidations,
+      revalidationFailures: this.stats.revalidationFailures,
+      persistentEntries: persistentUsage.entries,
+      persistentBytes: persistentUsage.bytes
     };
   }
 
@@ -337,6 +784,13 @@ class DataCacheService {
     while (this.cache.size > this.config.maxEntries) {
       this.evictLeastUsed();
     }
+
+    if (newConfig.persistentMaxBytes !== undefined || newConfig.maxStaleAge !== undefined) {
+      void this.persistentStore.updateOptions({
+        maxBytes: this.config.persistentMaxBytes,
+        maxAge: this.config.maxStaleAge
+      });
+    }
     
     configService.log('info', 'Cache configuration updated', this.config);
   }
@@ -351,12 +805,12 @@ class DataCacheService {
   /**
    * Preload data into cache
    */
-  async preload(dataLoader: () => Promise<{ key: string; data: any; ttl?: number }[]>): Promise<void> {
+  async preload(dataLoader: () => Promise<{ key: string; data: any; ttl?: number; tags?: string[] }[]>): Promise<void> {
     try {
       const entries = await dataLoader();
       
-      entries.forEach(({ key, data, ttl }) => {
-        this.set(key, data, ttl);
+      entries.forEach(({ key, data, ttl, tags }) => {
+        this.set(key, data, ttl, tags);
       });
       
       configService.log('info', `Preloaded ${entries.length} cache entries`);
@@ -374,7 +828,9 @@ class DataCacheService {
       this.cleanupTimer = null;
     }
     
-    this.clear();
+    this.clear(false);
+    this.listeners.clear();
+    this.invalidationListeners.length = 0;
     configService.log('info', 'Data cache service destroyed');
   }
 }
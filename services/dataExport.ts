@@ -0,0 +1,147 @@
+import { ChartData } from '../types';
+import { toCsvCell } from './csv';
+import { DATA_EXPORT_FORMAT_CONFIG, DataExportFormat } from './exportFormats';
+import { ParquetValue, writeParquet } from './parquetWriter';
+import { getReportFileStem } from './reportDefinition';
+import { RenderedReport, renderReport, reportFromExportPayload, toReportBlob } from './reportPipeline';
+
+/**
+ * Data exports: CSV, line-delimited JSON and Parquet from the rows behind a
+ * dashboard or widget, and PowerPoint through the report pipeline.
+ */
+
+export interface DataExportOptions {
+  title?: string;
+  filename?: string; // Extension is added when missing
+  locale?: string; // CSV number format and default delimiter
+  delimiter?: ',' | ';' | '\t';
+  generatedAt?: Date;
+}
+
+export type ExportRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is ExportRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+const isChartData = (value: unknown): value is ChartData => isRecord(value) && Array.isArray(value.datasets);
+
+/**
+ * Rows for a data export: chart data in long form (series, label, value),
+ * arrays as one row per item, anything else as a single row
+ */
+export const toExportRecords = (data: unknown): ExportRecord[] => {
+  if (isChartData(data)) {
+    const labels = data.labels || [];
+    // Datasets may hold plain numbers as well as {x, y} points
+    return data.datasets.flatMap(dataset => (dataset.data || []).map((point: unknown, i) => {
+      const fields: ExportRecord = isRecord(point) ? point : {};
+      return {
+        series: dataset.label,
+        label: labels[i] ?? fields.label ?? fields.x ?? null,
+        value: typeof point === 'number' ? point : fields.y ?? null
+      };
+    }));
+  }
+  if (Array.isArray(data)) {
+    return data.map(item => (isRecord(item) ? item : { value: item }));
+  }
+  if (isRecord(data)) return [data];
+  return data === undefined || data === null ? [] : [{ value: data }];
+};
+
+/**
+ * Flatten nested objects into dotted column names; arrays become JSON text
+ */
+export const flattenRecord = (record: ExportRecord, prefix = '', target: Record<string, ParquetValue> = {}): Record<string, ParquetValue> => {
+  Object.entries(record).forEach(([key, value]) => {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (isRecord(value)) flattenRecord(value, column, target);
+    else if (Array.isArray(value)) target[column] = JSON.stringify(value);
+    else if (value === undefined || value === null || value instanceof Date ||
+      typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') target[column] = value;
+    else target[column] = String(value);
+  });
+  return target;
+};
+
+const toTable = (data: unknown): { columns: string[]; rows: Array<Record<string, ParquetValue>> } => {
+  const rows = toExportRecords(data).map(record => flattenRecord(record));
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  return { columns, rows };
+};
+
+const getDecimalSeparator = (locale?: string): string =>
+  new Intl.NumberFormat(locale).formatToParts(1.5).find(part => part.type === 'decimal')?.value || '.';
+
+/**
+ * Semicolon where the locale writes decimals with a comma, as spreadsheet
+ * apps in those locales expect; comma everywhere else
+ */
+export const getCsvDelimiter = (locale?: string): ',' | ';' => (getDecimalSeparator(locale) === ',' ? ';' : ',');
+
+/**
+ * RFC 4180 CSV. Text that a spreadsheet would run as a formula is prefixed
+ * with an apostrophe.
+ */
+export const toCsv = (data: unknown, options: Pick<DataExportOptions, 'locale' | 'delimiter'> = {}): string => {
+  const { columns, rows } = toTable(data);
+  const delimiter = options.delimiter || getCsvDelimiter(options.locale);
+  const decimal = getDecimalSeparator(options.locale);
+
+  const cell = (value: ParquetValue): string => toCsvCell(value, { delimiter, decimal });
+
+  return [columns.map(column => cell(column)), ...rows.map(row => columns.map(column => cell(row[column])))]
+    .map(line => line.join(delimiter))
+    .join('\r\n');
+};
+
+/**
+ * One JSON object per line, keeping nested structure
+ */
+export const toNdjson = (data: unknown): string =>
+  toExportRecords(data).map(record => JSON.stringify(record)).join('\n') + '\n';
+
+const encoder = new TextEncoder();
+
+/**
+ * Export data in one of the data formats
+ */
+export const exportDataAs = (data: unknown, format: DataExportFormat, options: DataExportOptions = {}): RenderedReport => {
+  const config = DATA_EXPORT_FORMAT_CONFIG[format];
+  const generatedAt = options.generatedAt || new Date();
+  const title = options.title || (isRecord(data) && typeof data.title === 'string' ? data.title : 'export');
+  const stem = options.filename
+    ? options.filename.replace(new RegExp(`\\.${config.extension}$`, 'i'), '')
+    : getReportFileStem(title, generatedAt);
+  const filename = `${stem}.${config.extension}`;
+
+  switch (format) {
+    case DataExportFormat.CSV:
+      // Byte order mark so spreadsheet apps read the file as UTF-8
+      return { filename, mimeType: config.mimeType, bytes: encoder.encode(`\ufeff${toCsv(data, options)}`) };
+    case DataExportFormat.NDJSON:
+      return { filename, mimeType: config.mimeType, bytes: encoder.encode(toNdjson(data)) };
+    case DataExportFormat.PARQUET: {
+      const { columns, rows } = toTable(data);
+      if (columns.length === 0) throw new Error('No data to export');
+      return { filename, mimeType: config.mimeType, bytes: writeParquet(columns, rows) };
+    }
+    case DataExportFormat.PPTX: {
+      const { definition, data: reportData } = reportFromExportPayload(data, title);
+      const report = renderReport(definition, reportData, DataExportFormat.PPTX, { generatedAt });
+      return { ...report, filename };
+    }
+  }
+};
+
+/**
+ * Save an exported file through the browser
+ */
+export const downloadExportFile = (file: RenderedReport) => {
+  const url = URL.createObjectURL(toReportBlob(file));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
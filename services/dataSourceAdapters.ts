@@ -0,0 +1,379 @@
+import { ApiResponse, BusinessMetrics, FilterCriteria, FinancialMetrics, TimePeriod } from '@/types';
+import { mockDataGenerator } from './mockDataService';
+import { configService } from './configService';
+import {
+  ODataClient,
+  ODataChartMapping,
+  ODataFilterFieldMap,
+  ODataMetricMapping,
+  ODataQueryOptions,
+  ODataVersion,
+  DEFAULT_BUSINESS_METRICS_MAPPING,
+  DEFAULT_FILTER_FIELDS,
+  DEFAULT_FINANCIAL_METRICS_MAPPING,
+  mapToBusinessMetrics,
+  mapToChartData,
+  mapToFinancialMetrics
+} from './odataClient';
+
+export type DataSourceKind = 'mock' | 'rest' | 'sap-odata' | 'static-json';
+
+export interface DataSourceRequestOptions {
+  method?: string;
+  headers?: HeadersInit;
+  body?: BodyInit | null;
+  timeout?: number;
+  retries?: number;
+  signal?: AbortSignal;
+}
+
+export interface DataSourceRequest {
+  endpoint: string; // Full endpoint including query string, e.g. /revenue?period=monthly
+  path: string; // Endpoint without query string, e.g. /revenue
+  params: URLSearchParams;
+  options: DataSourceRequestOptions;
+}
+
+export interface DataSourceAdapter {
+  readonly name: string;
+  readonly kind: DataSourceKind;
+  request<T>(request: DataSourceRequest): Promise<ApiResponse<T>>;
+}
+
+export interface MockDataSourceDefinition {
+  name: string;
+  kind: 'mock';
+}
+
+export interface RestDataSourceDefinition {
+  name: string;
+  kind: 'rest';
+  baseUrl: string;
+  headers?: Record<string, string>;
+  timeout?: number;
+  retries?: number;
+}
+
+export interface ODataEntityBinding {
+  entitySet: string;
+  mapTo?: 'business-metrics' | 'financial-metrics' | 'chart' | 'raw';
+  metricMapping?: ODataMetricMapping;
+  chartMapping?: ODataChartMapping;
+  filterFields?: ODataFilterFieldMap;
+  select?: string[];
+  orderby?: ODataQueryOptions['orderby'];
+}
+
+export interface ODataDataSourceDefinition {
+  name: string;
+  kind: 'sap-odata';
+  serviceUrl: string;
+  version?: ODataVersion;
+  entitySets: Record<string, string | ODataEntityBinding>; // Endpoint path -> entity set
+  headers?: Record<string, string>;
+  timeout?: number;
+}
+
+export interface StaticJsonDataSourceDefinition {
+  name: string;
+  kind: 'static-json';
+  fixtures?: Record<string, unknown>; // Endpoint path -> payload
+  baseUrl?: string; // Serves `${baseUrl}${path}.json` when no inline fixture matches
+}
+
+export type DataSourceDefinition =
+  | MockDataSourceDefinition
+  | RestDataSourceDefinition
+  | ODataDataSourceDefinition
+  | StaticJsonDataSourceDefinition;
+
+const DEFAULT_TIMEOUT = 10000;
+const DEFAULT_RETRIES = 2;
+
+/**
+ * Split an endpoint into its path and query parameters
+ */
+export const parseEndpoint = (endpoint: string): { path: string; params: URLSearchParams } => {
+  const [path = '', query = ''] = endpoint.split('?');
+  return { path, params: new URLSearchParams(query) };
+};
+
+// Every field the default mapping fills in; a custom mapping has to cover them too
+const REQUIRED_METRIC_FIELDS: Record<'business-metrics' | 'financial-metrics', string[]> = {
+  'business-metrics': Object.keys(DEFAULT_BUSINESS_METRICS_MAPPING),
+  'financial-metrics': Object.keys(DEFAULT_FINANCIAL_METRICS_MAPPING)
+};
+
+/**
+ * Reject mapped metrics with missing fields rather than passing them off as complete
+ */
+const requireMetricFields = <T>(
+  metrics: Partial<T>,
+  mapTo: keyof typeof REQUIRED_METRIC_FIELDS,
+  entitySet: string
+): T => {
+  const missing = REQUIRED_METRIC_FIELDS[mapTo].filter(path => {
+    const value = path.split('.').reduce<unknown>(
+      (cursor, segment) => (cursor as Record<string, unknown> | undefined)?.[segment],
+      metrics
+    );
+    return typeof value !== 'number';
+  });
+  if (missing.length > 0) {
+    throw new Error(`OData entity set ${entitySet} is missing metric fields: ${missing.join(', ')}`);
+  }
+  return metrics as T;
+};
+
+const wrapResponse = <T>(data: T): ApiResponse<T> => ({
+  data,
+  success: true,
+  message: 'Success',
+  timestamp: new Date().toISOString()
+});
+
+/**
+ * Fetch with a timeout that also honours an external abort signal
+ */
+const fetchWithTimeout = async (
+  url: string,
+  init: RequestInit,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<Response> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const abortFromCaller = () => controller.abort();
+
+  if (signal) {
+    if (signal.aborted) controller.abort();
+    signal.addEventListener('abort', abortFromCaller);
+  }
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abortFromCaller);
+  }
+};
+
+/**
+ * Serves generated mock data, routed by endpoint path
+ */
+export class MockDataSourceAdapter implements DataSourceAdapter {
+  readonly kind = 'mock' as const;
+
+  private handlers: Record<string, (params: URLSearchParams) => unknown> = {
+    '/metrics': () => mockDataGenerator.generateBusinessMetrics(),
+    '/revenue': params => {
+      const period = params.get('period') as TimePeriod || TimePeriod.MONTHLY;
+      return mockDataGenerator.generateRevenueData(period);
+    },
+    '/inventory': params => mockDataGenerator.generateInventoryData(params.get('category') || undefined),
+    '/customers': () => mockDataGenerator.generateCustomerData(),
+    '/customers/detailed': () => mockDataGenerator.generateCustomerData(),
+    '/financial': () => mockDataGenerator.generateFinancialMetrics()
+  };
+
+  constructor(readonly name = 'mock') {}
+
+  async request<T>({ path, params }: DataSourceRequest): Promise<ApiResponse<T>> {
+    const handler = this.handlers[path];
+    const data = handler
+      ? handler(params)
+      : { message: 'Mock data not implemented for this endpoint' };
+
+    configService.log('debug', `Using mock data for endpoint: ${path}`);
+    return wrapResponse(data as T);
+  }
+}
+
+/**
+ * Plain JSON-over-HTTP backend with timeout and exponential backoff retries
+ */
+export class RestDataSourceAdapter implements DataSourceAdapter {
+  readonly kind = 'rest' as const;
+  readonly name: string;
+
+  constructor(private definition: Omit<RestDataSourceDefinition, 'kind'>) {
+    this.name = definition.name;
+  }
+
+  async request<T>({ endpoint, options }: DataSourceRequest): Promise<ApiResponse<T>> {
+    const url = `${this.definition.baseUrl}${endpoint}`;
+    const timeout = options.timeout || this.definition.timeout || DEFAULT_TIMEOUT;
+    const retries = options.retries ?? this.definition.retries ?? DEFAULT_RETRIES;
+
+    const init: RequestInit = {
+      method: options.method,
+      body: options.body,
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.definition.headers,
+        ...options.headers
+      }
+    };
+
+    configService.log('debug', `Making API request to: ${url}`);
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      try {
+        const response = await fetchWithTimeout(url, init, timeout, options.signal);
+
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const data = await response.json();
+        configService.log('debug', `API request successful: ${url}`);
+        return data;
+      } catch (error) {
+        configService.log('error', `API request failed (attempt ${attempt + 1}):`, error);
+
+        if (attempt === retries || options.signal?.aborted) {
+          throw error;
+        }
+
+        // Exponential backoff for retries
+        await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000));
+      }
+    }
+
+    throw new Error('Max retries exceeded');
+  }
+}
+
+const isTimePeriod = (value: unknown): value is TimePeriod =>
+  (Object.values(TimePeriod) as unknown[]).includes(value);
+
+/**
+ * Rebuild filter criteria from the query parameters ApiService sends
+ */
+export const filtersFromParams = (params: URLSearchParams): FilterCriteria | undefined => {
+  const start = params.get('startDate');
+  const end = params.get('endDate');
+  if (!start || !end) return undefined;
+
+  const list = (name: string) => (params.get(name) || '').split(',').filter(Boolean);
+  const period = params.get('timePeriod') || params.get('period');
+  const filters: FilterCriteria = {
+    dateRange: { start: new Date(start), end: new Date(end) },
+    regions: list('regions'),
+    categories: list('categories'),
+    businessUnits: list('businessUnits'),
+    timePeriod: isTimePeriod(period) ? period : TimePeriod.MONTHLY
+  };
+  return filters;
+};
+
+/**
+ * SAP Gateway OData service; each endpoint path maps to an entity set
+ */
+export class ODataDataSourceAdapter implements DataSourceAdapter {
+  readonly kind = 'sap-odata' as const;
+  readonly name: string;
+  private client: ODataClient;
+
+  constructor(private definition: Omit<ODataDataSourceDefinition, 'kind'>) {
+    this.name = definition.name;
+    this.client = new ODataClient({
+      serviceUrl: definition.serviceUrl,
+      version: definition.version,
+      headers: definition.headers,
+      timeout: definition.timeout
+    });
+  }
+
+  async request<T>({ path, params, options }: DataSourceRequest): Promise<ApiResponse<T>> {
+    const configured = this.definition.entitySets[path];
+    if (!configured) {
+      throw new Error(`No OData entity set mapped for endpoint: ${path}`);
+    }
+
+    const binding: ODataEntityBinding = typeof configured === 'string' ? { entitySet: configured } : configured;
+    const rows = await this.client.queryWithFilters<Record<string, unknown>>(
+      binding.entitySet,
+      filtersFromParams(params),
+      { select: binding.select, orderby: binding.orderby },
+      binding.filterFields || DEFAULT_FILTER_FIELDS,
+      options.signal
+    );
+
+    return wrapResponse(this.mapRows(rows, binding) as T);
+  }
+
+  private mapRows(rows: Record<string, unknown>[], binding: ODataEntityBinding): unknown {
+    switch (binding.mapTo) {
+      case 'business-metrics':
+        return requireMetricFields<BusinessMetrics>(
+          mapToBusinessMetrics(rows, binding.metricMapping),
+          binding.mapTo,
+          binding.entitySet
+        );
+      case 'financial-metrics':
+        return requireMetricFields<FinancialMetrics>(
+          mapToFinancialMetrics(rows, binding.metricMapping),
+          binding.mapTo,
+          binding.entitySet
+        );
+      case 'chart':
+        if (!binding.chartMapping) {
+          throw new Error(`Chart mapping required for entity set: ${binding.entitySet}`);
+        }
+        return mapToChartData(rows, binding.chartMapping);
+      default:
+        return rows;
+    }
+  }
+}
+
+/**
+ * Static JSON fixtures, either inline or served as files
+ */
+export class StaticJsonDataSourceAdapter implements DataSourceAdapter {
+  readonly kind = 'static-json' as const;
+  readonly name: string;
+
+  constructor(private definition: Omit<StaticJsonDataSourceDefinition, 'kind'>) {
+    this.name = definition.name;
+  }
+
+  async request<T>({ path, options }: DataSourceRequest): Promise<ApiResponse<T>> {
+    const fixtures = this.definition.fixtures || {};
+    if (path in fixtures) {
+      return wrapResponse(fixtures[path] as T);
+    }
+
+    if (!this.definition.baseUrl) {
+      throw new Error(`No fixture found for endpoint: ${path}`);
+    }
+
+    const url = `${this.definition.baseUrl.replace(/\/$/, '')}${path}.json`;
+    const response = await fetchWithTimeout(url, {}, options.timeout || DEFAULT_TIMEOUT, options.signal);
+
+    if (!response.ok) {
+      throw new Error(`Fixture not found: ${url} (status: ${response.status})`);
+    }
+
+    return wrapResponse(await response.json() as T);
+  }
+}
+
+/**
+ * Create an adapter from a configuration definition
+ */
+export const createDataSourceAdapter = (definition: DataSourceDefinition): DataSourceAdapter => {
+  switch (definition.kind) {
+    case 'mock':
+      return new MockDataSourceAdapter(definition.name);
+    case 'rest':
+      return new RestDataSourceAdapter(definition);
+    case 'sap-odata':
+      return new ODataDataSourceAdapter(definition);
+    case 'static-json':
+      return new StaticJsonDataSourceAdapter(definition);
+    default:
+      throw new Error(`Unknown data source kind: ${(definition as DataSourceDefinition).kind}`);
+  }
+};
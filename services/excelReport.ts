@@ -0,0 +1,247 @@
+import {
+  NO_DATA_LABEL,
+  ReportTableColumn,
+  ReportTableRow,
+  ReportValueFormat,
+  ResolvedReport,
+  ResolvedReportWidget
+} from './reportDefinition';
+import { XlsxCell, XlsxCellStyle, XlsxRow, XlsxSheet, cellRef, writeXlsx } from './xlsxWriter';
+
+/**
+ * Native Excel renderer for resolved reports: a summary sheet with the
+ * filters, KPIs and text blocks, then one sheet per chart or table with its
+ * data and live SUM/AVERAGE/share formulas.
+ */
+
+const HEADER_STYLE: XlsxCellStyle = { bold: true, fill: '#f5f5f5', borderBottom: true };
+const TOTAL_STYLE: XlsxCellStyle = { bold: true };
+const DATE_FORMAT = 'yyyy-mm-dd';
+const TIMESTAMP_FORMAT = 'yyyy-mm-dd hh:mm';
+
+/**
+ * Excel number format code for a report value format
+ */
+export const getExcelNumberFormat = (format: ReportValueFormat = 'number', currency = 'USD', locale = 'en-US'): string => {
+  switch (format) {
+    case 'currency': {
+      const symbol = new Intl.NumberFormat(locale, { style: 'currency', currency })
+        .formatToParts(0)
+        .find(part => part.type === 'currency')?.value || currency;
+      return `"${symbol.replace(/"/g, '')}"#,##0.00`;
+    }
+    case 'percent':
+      return '0.0%';
+    case 'decimal':
+      return '#,##0.00';
+    default:
+      return '#,##0';
+  }
+};
+
+// Percent values are stored as fractions so Excel arithmetic on them is correct
+export const toCellNumber = (value: number, format: ReportValueFormat | undefined): number =>
+  format === 'percent' ? value / 100 : value;
+
+const header = (labels: string[]): XlsxRow => labels.map(label => ({ value: label, style: HEADER_STYLE }));
+
+const emptySheet = (title: string): XlsxSheet => ({
+  name: title,
+  rows: [[{ value: title, style: { bold: true } }], [NO_DATA_LABEL]]
+});
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+const buildSummarySheet = (report: ResolvedReport): XlsxSheet => {
+  const rows: XlsxRow[] = [
+    [{ value: report.title, style: { bold: true, fontSize: 14 } }]
+  ];
+  if (report.subtitle) rows.push([report.subtitle]);
+  rows.push(
+    [],
+    [{ value: 'Generated', style: { bold: true } }, { value: report.generatedAt, style: { numberFormat: TIMESTAMP_FORMAT, align: 'left' } }],
+    ...report.filterSummary.map(({ label, value }): XlsxRow => [{ value: label, style: { bold: true } }, value])
+  );
+
+  const kpis = report.widgets.filter((entry): entry is Extract<ResolvedReportWidget, { type: 'kpi' }> => entry.type === 'kpi');
+  if (kpis.length > 0) {
+    rows.push([], header(['Metric', 'Value', 'Previous', 'Change', 'Target', 'Attainment']));
+    kpis.forEach(({ widget, content }) => {
+      const r = rows.length;
+      if (!content) {
+        rows.push([widget.title, NO_DATA_LABEL]);
+        return;
+      }
+      const numberFormat = getExcelNumberFormat(widget.valueFormat, report.currency, report.locale);
+      const value = toCellNumber(content.value, widget.valueFormat);
+      const previous = content.previous === undefined ? undefined : toCellNumber(content.previous, widget.valueFormat);
+      const target = content.target === undefined ? undefined : toCellNumber(content.target, widget.valueFormat);
+      rows.push([
+        widget.title,
+        { value, style: { numberFormat } },
+        { value: previous, style: { numberFormat } },
+        {
+          formula: `IF(OR(${cellRef(r, 2)}="",${cellRef(r, 2)}=0),"",(${cellRef(r, 1)}-${cellRef(r, 2)})/ABS(${cellRef(r, 2)}))`,
+          value: previous ? (value - previous) / Math.abs(previous) : '',
+          style: { numberFormat: '0.0%' }
+        },
+        { value: target, style: { numberFormat } },
+        {
+          formula: `IF(OR(${cellRef(r, 4)}="",${cellRef(r, 4)}=0),"",${cellRef(r, 1)}/${cellRef(r, 4)})`,
+          value: target ? value / target : '',
+          style: { numberFormat: '0.0%' }
+        }
+      ]);
+    });
+  }
+
+  const gauges = report.widgets.filter((entry): entry is Extract<ResolvedReportWidget, { type: 'gauge' }> => entry.type === 'gauge');
+  if (gauges.length > 0) {
+    rows.push([], header(['Gauge', 'Value', 'Min', 'Max', 'Position']));
+    gauges.forEach(({ widget, content }) => {
+      const r = rows.length;
+      if (!content) {
+        rows.push([widget.title, NO_DATA_LABEL]);
+        return;
+      }
+      const numberFormat = getExcelNumberFormat(widget.valueFormat, report.currency, report.locale);
+      const [value, min, max] = [content.value, content.min, content.max].map(n => toCellNumber(n, widget.valueFormat)) as [number, number, number];
+      rows.push([
+        widget.title,
+        { value, style: { numberFormat } },
+        { value: min, style: { numberFormat } },
+        { value: max, style: { numberFormat } },
+        {
+          formula: `(${cellRef(r, 1)}-${cellRef(r, 2)})/(${cellRef(r, 3)}-${cellRef(r, 2)})`,
+          value: (value - min) / (max - min),
+          style: { numberFormat: '0.0%' }
+        }
+      ]);
+    });
+  }
+
+  const notes = report.widgets.filter((entry): entry is Extract<ResolvedReportWidget, { type: 'text' }> => entry.type === 'text');
+  notes.forEach(({ widget, content }) => {
+    rows.push([]);
+    if (widget.title) rows.push([{ value: widget.title, style: { bold: true } }]);
+    content.forEach(paragraph => rows.push([paragraph]));
+  });
+
+  return { name: 'Summary', rows, columnWidths: [24, 18, 18, 12, 18, 12] };
+};
+
+const buildChartSheet = (report: ResolvedReport, entry: Extract<ResolvedReportWidget, { type: 'chart' }>): XlsxSheet => {
+  const { widget, content } = entry;
+  if (!content) return emptySheet(widget.title);
+
+  const numberFormat = getExcelNumberFormat(widget.valueFormat, report.currency, report.locale);
+  const first = 1;
+  const last = content.labels.length;
+  const aggregate = widget.valueFormat === 'percent' ? 'AVERAGE' : 'SUM';
+
+  if (widget.chart === 'pie' || widget.chart === 'doughnut') {
+    const values = content.series[0]!.values.map(value => toCellNumber(value ?? 0, widget.valueFormat));
+    const total = sum(values);
+    const range = `${cellRef(first, 1, true)}:${cellRef(last, 1, true)}`;
+    return {
+      name: widget.title,
+      freeze: { rows: 1 },
+      rows: [
+        header(['Label', content.series[0]!.label, 'Share']),
+        ...content.labels.map((label, i): XlsxRow => [
+          label,
+          { value: values[i], style: { numberFormat } },
+          { formula: `IF(SUM(${range})=0,0,${cellRef(i + 1, 1)}/SUM(${range}))`, value: total ? values[i]! / total : 0, style: { numberFormat: '0.0%' } }
+        ]),
+        [
+          { value: 'Total', style: TOTAL_STYLE },
+          { formula: `SUM(${cellRef(first, 1)}:${cellRef(last, 1)})`, value: total, style: { ...TOTAL_STYLE, numberFormat } },
+          { formula: `SUM(${cellRef(first, 2)}:${cellRef(last, 2)})`, value: total ? 1 : 0, style: { ...TOTAL_STYLE, numberFormat: '0.0%' } }
+        ]
+      ]
+    };
+  }
+
+  const totals: XlsxRow = [{ value: aggregate === 'AVERAGE' ? 'Average' : 'Total', style: TOTAL_STYLE }];
+  content.series.forEach((series, s) => {
+    const values = series.values.filter((value): value is number => value !== null).map(value => toCellNumber(value, widget.valueFormat));
+    totals.push({
+      formula: `${aggregate}(${cellRef(first, s + 1)}:${cellRef(last, s + 1)})`,
+      value: aggregate === 'AVERAGE' ? (values.length ? sum(values) / values.length : 0) : sum(values),
+      style: { ...TOTAL_STYLE, numberFormat }
+    });
+  });
+
+  return {
+    name: widget.title,
+    freeze: { rows: 1, columns: 1 },
+    rows: [
+      header(['Label', ...content.series.map(series => series.label)]),
+      ...content.labels.map((label, i): XlsxRow => [
+        label,
+        ...content.series.map((series): XlsxCell => ({
+          value: series.values[i] === null ? null : toCellNumber(series.values[i]!, widget.valueFormat),
+          style: { numberFormat }
+        }))
+      ]),
+      totals
+    ]
+  };
+};
+
+const toTableCell = (value: ReportTableRow[string], column: ReportTableColumn, report: ResolvedReport): XlsxCell => {
+  if (column.format === 'date') {
+    const date = value instanceof Date ? value : typeof value === 'string' && !isNaN(Date.parse(value)) ? new Date(value) : null;
+    return date ? { value: date, style: { numberFormat: DATE_FORMAT } } : { value: value as string };
+  }
+  if (typeof value === 'number' && column.format !== 'text') {
+    return { value: toCellNumber(value, column.format), style: { numberFormat: getExcelNumberFormat(column.format, report.currency, report.locale) } };
+  }
+  return { value };
+};
+
+const buildTableSheet = (report: ResolvedReport, entry: Extract<ResolvedReportWidget, { type: 'table' }>): XlsxSheet => {
+  const { widget, content } = entry;
+  if (!content) return emptySheet(widget.title);
+
+  const rows: XlsxRow[] = [
+    header(widget.columns.map(column => column.label)),
+    ...content.map(row => widget.columns.map(column => toTableCell(row[column.key], column, report)))
+  ];
+
+  if (widget.columns.some(column => column.total)) {
+    rows.push(widget.columns.map((column, c): XlsxCell => {
+      if (!column.total) return c === 0 ? { value: 'Total', style: TOTAL_STYLE } : { style: TOTAL_STYLE };
+      const values = content
+        .map(row => row[column.key])
+        .filter((value): value is number => typeof value === 'number')
+        .map(value => toCellNumber(value, column.format as ReportValueFormat));
+      const fn = column.total === 'average' ? 'AVERAGE' : 'SUM';
+      return {
+        formula: `${fn}(${cellRef(1, c)}:${cellRef(content.length, c)})`,
+        value: fn === 'AVERAGE' ? (values.length ? sum(values) / values.length : 0) : sum(values),
+        style: { ...TOTAL_STYLE, numberFormat: getExcelNumberFormat(column.format as ReportValueFormat, report.currency, report.locale) }
+      };
+    }));
+  }
+
+  return { name: widget.title, rows, freeze: { rows: 1 } };
+};
+
+/**
+ * Build the workbook sheets for a resolved report
+ */
+export const buildReportSheets = (report: ResolvedReport): XlsxSheet[] => [
+  buildSummarySheet(report),
+  ...report.widgets.flatMap(entry => {
+    if (entry.type === 'chart') return [buildChartSheet(report, entry)];
+    if (entry.type === 'table') return [buildTableSheet(report, entry)];
+    return [];
+  })
+].map(sheet => ({ ...sheet, printHeader: report.header, printFooter: report.footer || report.title }));
+
+/**
+ * Render a resolved report as .xlsx bytes
+ */
+export const renderExcelReport = (report: ResolvedReport): Uint8Array =>
+  writeXlsx({ sheets: buildReportSheets(report), title: report.title, created: report.generatedAt });
@@ -0,0 +1,475 @@
+import { ALERT_LEVEL_CONFIG, DEFAULT_CURRENCY } from '../constants';
+import { AlertLevel, ChartData, FilterCriteria } from '../types';
+import { flattenRecord } from './dataExport';
+import { getExcelNumberFormat, toCellNumber } from './excelReport';
+import { ReportValueFormat, getReportFileStem, toFieldLabel, toSeriesData } from './reportDefinition';
+import { RenderedReport, toFilterCriteria } from './reportPipeline';
+import {
+  XLSX_MIME_TYPE,
+  XlsxCell,
+  XlsxCellStyle,
+  XlsxComparison,
+  XlsxConditionalFormat,
+  XlsxRow,
+  XlsxSheet,
+  XlsxValue,
+  XlsxWorkbook,
+  cellRef,
+  rangeRef,
+  sanitizeSheetName,
+  writeXlsx
+} from './xlsxWriter';
+
+/**
+ * Dashboard workbook builder: a cover sheet with the applied filters and a
+ * table of contents, one sheet per data domain (chart, table or metric
+ * group) and a flat fact sheet to pivot on.
+ */
+
+export type WorkbookFieldFormat = ReportValueFormat | 'date' | 'text';
+
+/**
+ * Color cells of a numeric field with an alert level's colors when they cross a value
+ */
+export interface WorkbookAlertRule {
+  field: string; // Column key or metric path, e.g. 'utilizationRate' or 'inventory.utilizationRate'
+  operator: XlsxComparison;
+  value: number; // In the field's units, so percent units for percent fields
+  level: AlertLevel;
+}
+
+export interface DashboardWorkbookOptions {
+  title?: string;
+  filename?: string;
+  filters?: FilterCriteria; // Defaults to a `filters` entry in the data
+  currency?: string;
+  locale?: string;
+  generatedAt?: Date;
+  formats?: Record<string, WorkbookFieldFormat>; // By field name or path; overrides inference
+  alertRules?: WorkbookAlertRule[];
+}
+
+type Domain =
+  | { kind: 'chart'; path: string; name: string; chart: ChartData }
+  | { kind: 'table'; path: string; name: string; rows: Array<Record<string, unknown>> }
+  | { kind: 'metrics'; path: string; name: string; entries: Array<{ path: string; value: unknown }> };
+
+interface Fact {
+  domain: string;
+  dimension: string;
+  metric: string;
+  value: number;
+  format: ReportValueFormat;
+}
+
+interface BuiltSheet {
+  sheet: XlsxSheet;
+  description: string;
+  rowCount: number;
+}
+
+interface BuildContext {
+  currency: string;
+  locale: string;
+  formats: Record<string, WorkbookFieldFormat>;
+  alertRules: WorkbookAlertRule[];
+  facts: Fact[];
+}
+
+const HEADER_STYLE: XlsxCellStyle = { bold: true, fill: '#f5f5f5', borderBottom: true };
+const TOTAL_STYLE: XlsxCellStyle = { bold: true };
+const DATE_FORMAT = 'yyyy-mm-dd';
+const TIMESTAMP_FORMAT = 'yyyy-mm-dd hh:mm';
+const RESERVED_KEYS = ['title', 'filters'];
+
+// Field names that carry percentages (in percent units) or money
+const PERCENT_FIELD = /(rate|percent|percentage|pct|growth|margin|share|ratio|utili[sz]ation)$/i;
+const CURRENCY_FIELD = /(revenue|cost|price|amount|profit|sales|spend|expense|income|budget)/i;
+const DATE_TEXT = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// Most severe first, so the strongest matching color wins
+const ALERT_LEVELS = (Object.keys(ALERT_LEVEL_CONFIG) as AlertLevel[]).reverse();
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+const isChartData = (value: unknown): value is ChartData => isRecord(value) && Array.isArray(value.datasets);
+
+const isRecordArray = (value: unknown): value is Array<Record<string, unknown>> =>
+  Array.isArray(value) && value.length > 0 && value.every(isRecord);
+
+const isAlertLevel = (value: unknown): value is AlertLevel =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(ALERT_LEVEL_CONFIG, value);
+
+const pathLabel = (path: string): string => path.split('.').map(toFieldLabel).join(' ');
+
+const header = (labels: string[]): XlsxRow => labels.map(label => ({ value: label, style: HEADER_STYLE }));
+
+/**
+ * Split dashboard data into domains: chart data and arrays of records get a
+ * sheet each, remaining values of an object are grouped as its metrics
+ */
+const collectDomains = (data: Record<string, unknown>): Domain[] => {
+  const domains: Domain[] = [];
+  const overview: Array<{ path: string; value: unknown }> = [];
+
+  const walk = (root: string, value: Record<string, unknown>, prefix: string, entries: Array<{ path: string; value: unknown }>) => {
+    Object.entries(value).forEach(([key, child]) => {
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (child === undefined || child === null) return;
+      if (isChartData(child)) domains.push({ kind: 'chart', path: `${root}.${path}`, name: pathLabel(path), chart: child });
+      else if (isRecordArray(child)) domains.push({ kind: 'table', path: `${root}.${path}`, name: pathLabel(path), rows: child });
+      else if (isRecord(child)) walk(root, child, path, entries);
+      else entries.push({ path, value: child });
+    });
+  };
+
+  Object.entries(data).forEach(([key, value]) => {
+    if (RESERVED_KEYS.includes(key) || value === undefined || value === null) return;
+    if (isChartData(value)) {
+      domains.push({ kind: 'chart', path: key, name: value.metadata?.title || toFieldLabel(key), chart: value });
+    } else if (isRecordArray(value)) {
+      domains.push({ kind: 'table', path: key, name: toFieldLabel(key), rows: value });
+    } else if (isRecord(value)) {
+      const entries: Array<{ path: string; value: unknown }> = [];
+      const index = domains.length;
+      walk(key, value, '', entries);
+      if (entries.length > 0) domains.splice(index, 0, { kind: 'metrics', path: key, name: toFieldLabel(key), entries });
+    } else {
+      overview.push({ path: key, value });
+    }
+  });
+
+  if (overview.length > 0) domains.unshift({ kind: 'metrics', path: '', name: 'Overview', entries: overview });
+  return domains;
+};
+
+const inferFormat = (path: string, values: unknown[], context: BuildContext): WorkbookFieldFormat => {
+  const field = path.split('.').pop()!;
+  const override = context.formats[path] || context.formats[field];
+  if (override) return override;
+
+  const present = values.filter(value => value !== null && value !== undefined && value !== '');
+  if (present.length === 0) return 'text';
+  if (present.every(value => value instanceof Date || (typeof value === 'string' && DATE_TEXT.test(value)))) return 'date';
+  if (!present.every(value => typeof value === 'number' && isFinite(value))) return 'text';
+  if (PERCENT_FIELD.test(field)) return 'percent';
+  if (CURRENCY_FIELD.test(path)) return 'currency';
+  return present.every(value => Number.isInteger(value)) ? 'number' : 'decimal';
+};
+
+const toCell = (value: unknown, format: WorkbookFieldFormat, context: BuildContext, levels = false): XlsxCell => {
+  if (value === null || value === undefined || value === '') return { value: null };
+  if (levels && isAlertLevel(value)) return { value: ALERT_LEVEL_CONFIG[value].label };
+
+  if (format === 'date') {
+    const date = value instanceof Date ? value : new Date(String(value));
+    if (isNaN(date.getTime())) return { value: String(value) };
+    const hasTime = date.getHours() !== 0 || date.getMinutes() !== 0 || date.getSeconds() !== 0;
+    return { value: date, style: { numberFormat: hasTime ? TIMESTAMP_FORMAT : DATE_FORMAT } };
+  }
+  if (typeof value === 'number' && format !== 'text') {
+    return { value: toCellNumber(value, format), style: { numberFormat: getExcelNumberFormat(format, context.currency, context.locale) } };
+  }
+  if (Array.isArray(value)) return { value: value.every(item => !isRecord(item)) ? value.join(', ') : JSON.stringify(value) };
+  return { value: isRecord(value) ? JSON.stringify(value) : value as XlsxValue };
+};
+
+/**
+ * Conditional formats for a range: alert level labels in their level's
+ * colors, plus any numeric alert rules for the field
+ */
+const alertFormats = (range: string, paths: string[], format: WorkbookFieldFormat, hasLevels: boolean, context: BuildContext): XlsxConditionalFormat[] => {
+  const formats: XlsxConditionalFormat[] = [];
+  const style = (level: AlertLevel) => ({ fill: ALERT_LEVEL_CONFIG[level].backgroundColor, fontColor: ALERT_LEVEL_CONFIG[level].color });
+
+  if (hasLevels) {
+    formats.push({
+      range,
+      rules: ALERT_LEVELS.map(level => ({
+        type: 'cellIs' as const,
+        operator: 'equal' as const,
+        formula: `"${ALERT_LEVEL_CONFIG[level].label}"`,
+        style: style(level)
+      }))
+    });
+  }
+
+  const rules = context.alertRules
+    .filter(rule => paths.includes(rule.field))
+    .sort((a, b) => ALERT_LEVELS.indexOf(a.level) - ALERT_LEVELS.indexOf(b.level));
+  if (rules.length > 0 && format !== 'text' && format !== 'date') {
+    formats.push({
+      range,
+      rules: rules.map(rule => ({
+        type: 'cellIs' as const,
+        operator: rule.operator,
+        formula: String(toCellNumber(rule.value, format)),
+        style: style(rule.level)
+      }))
+    });
+  }
+  return formats;
+};
+
+const buildChartSheet = (domain: Extract<Domain, { kind: 'chart' }>, context: BuildContext): BuiltSheet | null => {
+  const content = toSeriesData(domain.chart);
+  if (!content) return null;
+
+  const format = inferFormat(domain.path, content.series.flatMap(series => series.values), context);
+  const valueFormat: ReportValueFormat = format === 'text' || format === 'date' ? 'number' : format;
+  const numberFormat = getExcelNumberFormat(valueFormat, context.currency, context.locale);
+  const labelFormat: WorkbookFieldFormat = content.labels.every(label => DATE_TEXT.test(label)) ? 'date' : 'text';
+  const last = content.labels.length;
+  const aggregate = valueFormat === 'percent' ? 'AVERAGE' : 'SUM';
+
+  const rows: XlsxRow[] = [
+    header(['Label', ...content.series.map(series => series.label)]),
+    ...content.labels.map((label, i): XlsxRow => [
+      toCell(label, labelFormat, context),
+      ...content.series.map((series): XlsxCell => ({
+        value: series.values[i] === null ? null : toCellNumber(series.values[i]!, valueFormat),
+        style: { numberFormat }
+      }))
+    ]),
+    [
+      { value: aggregate === 'AVERAGE' ? 'Average' : 'Total', style: TOTAL_STYLE },
+      ...content.series.map((series, s): XlsxCell => {
+        const values = series.values.filter((value): value is number => value !== null).map(value => toCellNumber(value, valueFormat));
+        const total = values.reduce((sum, value) => sum + value, 0);
+        return {
+          formula: `${aggregate}(${cellRef(1, s + 1)}:${cellRef(last, s + 1)})`,
+          value: aggregate === 'AVERAGE' ? (values.length ? total / values.length : 0) : total,
+          style: { ...TOTAL_STYLE, numberFormat }
+        };
+      })
+    ]
+  ];
+
+  content.series.forEach(series => series.values.forEach((value, i) => {
+    if (value !== null) context.facts.push({ domain: domain.name, dimension: content.labels[i]!, metric: series.label, value, format: valueFormat });
+  }));
+
+  return {
+    sheet: {
+      name: domain.name,
+      rows,
+      freeze: { rows: 1, columns: 1 },
+      autoFilter: rangeRef(0, 0, last, content.series.length),
+      conditionalFormats: content.series.flatMap((series, s) =>
+        alertFormats(rangeRef(1, s + 1, last, s + 1), [domain.path, series.label], valueFormat, false, context))
+    },
+    description: 'Chart data',
+    rowCount: last
+  };
+};
+
+const buildTableSheet = (domain: Extract<Domain, { kind: 'table' }>, context: BuildContext): BuiltSheet => {
+  const rows = domain.rows.map(row => flattenRecord(row));
+  const keys = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const columns = keys.map(key => {
+    const values = rows.map(row => row[key]);
+    return { key, format: inferFormat(key, values, context), hasLevels: values.some(isAlertLevel) };
+  });
+
+  // Facts are labelled by the row's name-like column
+  const dimension = ['name', 'label', 'title', 'id'].map(key => columns.find(column => column.key === key)).find(Boolean) ||
+    columns.find(column => column.format === 'text');
+  rows.forEach(row => columns.forEach(column => {
+    const value = row[column.key];
+    if (typeof value !== 'number' || column.format === 'text' || column.format === 'date') return;
+    context.facts.push({
+      domain: domain.name,
+      dimension: dimension ? String(row[dimension.key] ?? '') : '',
+      metric: pathLabel(column.key),
+      value,
+      format: column.format
+    });
+  }));
+
+  return {
+    sheet: {
+      name: domain.name,
+      rows: [
+        header(columns.map(column => pathLabel(column.key))),
+        ...rows.map(row => columns.map(column => toCell(row[column.key], column.format, context, column.hasLevels)))
+      ],
+      freeze: { rows: 1, columns: 1 },
+      autoFilter: columns.length > 0 ? rangeRef(0, 0, rows.length, columns.length - 1) : undefined,
+      conditionalFormats: columns.flatMap((column, c) => alertFormats(
+        rangeRef(1, c, rows.length, c),
+        [column.key, `${domain.path}.${column.key}`],
+        column.format,
+        column.hasLevels,
+        context
+      ))
+    },
+    description: 'Table',
+    rowCount: rows.length
+  };
+};
+
+const buildMetricsSheet = (domain: Extract<Domain, { kind: 'metrics' }>, context: BuildContext): BuiltSheet => {
+  const rows: XlsxRow[] = [header(['Group', 'Metric', 'Value'])];
+  const conditionalFormats: XlsxConditionalFormat[] = [];
+
+  domain.entries.forEach(({ path, value }) => {
+    const fullPath = domain.path ? `${domain.path}.${path}` : path;
+    const format = inferFormat(path, [value], context);
+    const segments = path.split('.');
+    const group = segments.slice(0, -1).map(toFieldLabel).join(' ');
+    const metric = toFieldLabel(segments[segments.length - 1]!);
+
+    conditionalFormats.push(...alertFormats(cellRef(rows.length, 2), [path, fullPath], format, isAlertLevel(value), context));
+    rows.push([group, metric, toCell(value, format, context, true)]);
+
+    if (typeof value === 'number' && isFinite(value) && format !== 'text' && format !== 'date') {
+      context.facts.push({ domain: domain.name, dimension: group, metric, value, format });
+    }
+  });
+
+  return {
+    sheet: {
+      name: domain.name,
+      rows,
+      freeze: { rows: 1 },
+      autoFilter: rangeRef(0, 0, rows.length - 1, 2),
+      conditionalFormats
+    },
+    description: 'Metrics',
+    rowCount: rows.length - 1
+  };
+};
+
+const buildFactSheet = (context: BuildContext): XlsxSheet => ({
+  name: 'Facts',
+  rows: [
+    header(['Domain', 'Dimension', 'Metric', 'Value']),
+    ...context.facts.map((fact): XlsxRow => [
+      fact.domain,
+      fact.dimension,
+      fact.metric,
+      {
+        value: toCellNumber(fact.value, fact.format),
+        style: { numberFormat: getExcelNumberFormat(fact.format, context.currency, context.locale) }
+      }
+    ])
+  ],
+  freeze: { rows: 1 },
+  autoFilter: rangeRef(0, 0, context.facts.length, 3),
+  columnWidths: [24, 24, 24, 16]
+});
+
+const buildCoverSheet = (
+  title: string,
+  generatedAt: Date,
+  filters: FilterCriteria | undefined,
+  contents: Array<{ name: string; description: string; rowCount: number }>,
+  currency: string
+): XlsxSheet => {
+  const label = (text: string): XlsxCell => ({ value: text, style: { bold: true } });
+  const list = (values: string[] | undefined) => (values && values.length > 0 ? values.join(', ') : 'All');
+
+  const rows: XlsxRow[] = [
+    [{ value: title, style: { bold: true, fontSize: 14 } }],
+    [label('Generated'), { value: generatedAt, style: { numberFormat: TIMESTAMP_FORMAT, align: 'left' } }],
+    [label('Currency'), currency],
+    [],
+    header(['Filter', 'Value'])
+  ];
+
+  if (filters) {
+    if (filters.dateRange) {
+      rows.push(
+        [label('Period start'), { value: filters.dateRange.start, style: { numberFormat: DATE_FORMAT, align: 'left' } }],
+        [label('Period end'), { value: filters.dateRange.end, style: { numberFormat: DATE_FORMAT, align: 'left' } }]
+      );
+    }
+    rows.push(
+      [label('Regions'), list(filters.regions)],
+      [label('Categories'), list(filters.categories)],
+      [label('Business units'), list(filters.businessUnits)]
+    );
+    if (filters.timePeriod) rows.push([label('Granularity'), String(filters.timePeriod)]);
+  } else {
+    rows.push(['No filters applied']);
+  }
+
+  rows.push([], header(['Sheet', 'Contents', 'Rows']));
+  contents.forEach(entry => {
+    const target = entry.name.replace(/'/g, "''").replace(/"/g, '""');
+    rows.push([
+      { formula: `HYPERLINK("#'${target}'!A1","${entry.name.replace(/"/g, '""')}")`, value: entry.name, style: { fontColor: '#1976d2' } },
+      entry.description,
+      entry.rowCount
+    ]);
+  });
+
+  rows.push([], header(['Alert level']));
+  [...ALERT_LEVELS].reverse().forEach(level => {
+    const config = ALERT_LEVEL_CONFIG[level];
+    rows.push([{ value: config.label, style: { fill: config.backgroundColor, fontColor: config.color, bold: true } }]);
+  });
+
+  return { name: 'Cover', rows, columnWidths: [24, 40, 10] };
+};
+
+/**
+ * Build the workbook for a dashboard's data
+ */
+export const buildDashboardWorkbook = (
+  data: unknown,
+  options: DashboardWorkbookOptions = {}
+): XlsxWorkbook & { title: string; created: Date } => {
+  const fields: Record<string, unknown> = isRecord(data) && !isChartData(data) ? data : { data };
+  const generatedAt = options.generatedAt || new Date();
+  const title = options.title || (typeof fields.title === 'string' && fields.title ? fields.title : 'Dashboard Data');
+  const currency = options.currency || DEFAULT_CURRENCY;
+  const context: BuildContext = {
+    currency,
+    locale: options.locale || 'en-US',
+    formats: options.formats || {},
+    alertRules: options.alertRules || [],
+    facts: []
+  };
+
+  const built = collectDomains(fields)
+    .map(domain => {
+      if (domain.kind === 'chart') return buildChartSheet(domain, context);
+      if (domain.kind === 'table') return buildTableSheet(domain, context);
+      return buildMetricsSheet(domain, context);
+    })
+    .filter((entry): entry is BuiltSheet => entry !== null);
+
+  // Final names up front, so the cover can link to each sheet
+  const taken = new Set(['cover', 'facts']);
+  built.forEach(entry => {
+    entry.sheet.name = sanitizeSheetName(entry.sheet.name, taken);
+  });
+
+  const contents = [
+    ...built.map(entry => ({ name: entry.sheet.name, description: entry.description, rowCount: entry.rowCount })),
+    { name: 'Facts', description: 'Pivot-ready facts: one row per value', rowCount: context.facts.length }
+  ];
+
+  return {
+    title,
+    created: generatedAt,
+    sheets: [
+      buildCoverSheet(title, generatedAt, options.filters || toFilterCriteria(fields.filters), contents, currency),
+      ...built.map(entry => entry.sheet),
+      buildFactSheet(context)
+    ]
+  };
+};
+
+/**
+ * Render a dashboard's data as an .xlsx workbook
+ */
+export const renderDashboardWorkbook = (data: unknown, options: DashboardWorkbookOptions = {}): RenderedReport => {
+  const workbook = buildDashboardWorkbook(data, options);
+  const filename = options.filename
+    ? options.filename.replace(/\.xlsx$/i, '')
+    : getReportFileStem(workbook.title, workbook.created);
+  return { filename: `${filename}.xlsx`, mimeType: XLSX_MIME_TYPE, bytes: writeXlsx(workbook) };
+};
@@ -0,0 +1,28 @@
+import { ExportFormat } from '../types';
+import { PARQUET_MIME_TYPE } from './parquetWriter';
+import { PPTX_MIME_TYPE } from './pptxReport';
+
+/**
+ * Export formats produced from data rather than a capture of the page.
+ * Values never collide with ExportFormat, so both can share one selection.
+ */
+export enum DataExportFormat {
+  CSV = 'csv',
+  NDJSON = 'ndjson',
+  PARQUET = 'parquet',
+  PPTX = 'pptx'
+}
+
+export type AnyExportFormat = ExportFormat | DataExportFormat;
+
+export const DATA_EXPORT_FORMATS = Object.values(DataExportFormat);
+
+export const DATA_EXPORT_FORMAT_CONFIG: Record<DataExportFormat, { label: string; extension: string; mimeType: string }> = {
+  [DataExportFormat.CSV]: { label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  [DataExportFormat.NDJSON]: { label: 'JSON Lines', extension: 'ndjson', mimeType: 'application/x-ndjson' },
+  [DataExportFormat.PARQUET]: { label: 'Parquet', extension: 'parquet', mimeType: PARQUET_MIME_TYPE },
+  [DataExportFormat.PPTX]: { label: 'PowerPoint', extension: 'pptx', mimeType: PPTX_MIME_TYPE }
+};
+
+export const isDataExportFormat = (format: unknown): format is DataExportFormat =>
+  DATA_EXPORT_FORMATS.includes(format as DataExportFormat);
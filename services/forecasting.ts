@@ -0,0 +1,292 @@
+/**
+ * Time series forecasting for the revenue and inventory charts: additive
+ * Holt-Winters and linear trend with seasonality, with prediction intervals
+ * and a holdout backtest to report accuracy.
+ */
+
+export type ForecastMethod = 'holt-winters' | 'linear';
+
+export type ForecastConfidence = 0.8 | 0.9 | 0.95 | 0.99;
+
+export interface ForecastOptions {
+  horizon: number;
+  seasonLength?: number;        // Points per season, e.g. 12 for monthly data; 1 or omitted for none
+  method?: ForecastMethod | 'auto'; // 'auto' picks the method with the lower backtest MAPE
+  confidence?: ForecastConfidence;
+  min?: number;                 // Lower bound for projected values, e.g. 0 for stock levels
+}
+
+export interface ForecastPoint {
+  step: number;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface Backtest {
+  holdout: number;
+  actual: number[];
+  predicted: number[];
+  mape: number | null; // Percent; null when every held-out value is zero
+}
+
+export interface Forecast {
+  method: ForecastMethod;
+  seasonal: boolean;
+  seasonLength: number;
+  confidence: ForecastConfidence;
+  points: ForecastPoint[];
+  backtest: Backtest | null;
+}
+
+export const FORECAST_METHOD_LABELS: Record<ForecastMethod, string> = {
+  'holt-winters': 'Holt-Winters',
+  linear: 'Linear trend'
+};
+
+const Z_SCORES: Record<ForecastConfidence, number> = {
+  0.8: 1.2816,
+  0.9: 1.6449,
+  0.95: 1.96,
+  0.99: 2.5758
+};
+
+// Smoothing parameters tried when fitting Holt-Winters
+const ALPHAS = [0.1, 0.3, 0.5, 0.7, 0.9];
+const BETAS = [0.01, 0.1, 0.2, 0.4];
+const GAMMAS = [0.05, 0.2, 0.4, 0.6];
+
+// Fewest points worth fitting a trend to
+const MIN_POINTS = 3;
+
+interface Fit {
+  // Projection and standard error of the projection, `step` points past the end
+  project: (step: number) => { value: number; stdError: number };
+}
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const isSeasonal = (length: number, seasonLength: number): boolean => seasonLength > 1 && length >= seasonLength * 2;
+
+interface HoltWintersParams {
+  alpha: number;
+  beta: number;
+  gamma: number;
+}
+
+const runHoltWinters = (values: number[], seasonLength: number, params: HoltWintersParams) => {
+  const m = isSeasonal(values.length, seasonLength) ? seasonLength : 1;
+  const { alpha, beta } = params;
+  const gamma = m > 1 ? params.gamma : 0;
+
+  // Seasonal series start from the first two seasons; others from the first two points
+  let level: number;
+  let trend: number;
+  let seasonals: number[];
+  if (m > 1) {
+    // Level at the end of the first season, seasonals as distances from its trend line
+    const firstMean = mean(values.slice(0, m));
+    trend = (mean(values.slice(m, 2 * m)) - firstMean) / m;
+    level = firstMean + trend * (m - 1) / 2;
+    seasonals = values.slice(0, m).map((value, index) => value - (firstMean + trend * (index - (m - 1) / 2)));
+  } else {
+    level = values[0]!;
+    trend = values[1]! - values[0]!;
+    seasonals = [0];
+  }
+
+  const start = m > 1 ? m : 1;
+  let sse = 0;
+  for (let t = start; t < values.length; t++) {
+    const value = values[t]!;
+    const season = seasonals[t % m]!;
+    const error = value - (level + trend + season);
+    sse += error * error;
+
+    const previousLevel = level;
+    level = alpha * (value - season) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    seasonals[t % m] = gamma * (value - level) + (1 - gamma) * season;
+  }
+
+  const residuals = values.length - start;
+  return { level, trend, seasonals, m, sse, sigma: residuals > 0 ? Math.sqrt(sse / residuals) : 0, alpha, beta, gamma };
+};
+
+const fitHoltWinters = (values: number[], seasonLength: number): Fit => {
+  let best = runHoltWinters(values, seasonLength, { alpha: ALPHAS[0]!, beta: BETAS[0]!, gamma: GAMMAS[0]! });
+  ALPHAS.forEach(alpha => BETAS.forEach(beta => GAMMAS.forEach(gamma => {
+    const run = runHoltWinters(values, seasonLength, { alpha, beta, gamma });
+    if (run.sse < best.sse) best = run;
+  })));
+
+  const { level, trend, seasonals, m, sigma, alpha, beta, gamma } = best;
+  const n = values.length;
+
+  return {
+    project: (step) => {
+      // Variance of the h-step error for additive Holt-Winters (Hyndman et al., 2008)
+      let variance = 1;
+      for (let j = 1; j < step; j++) {
+        const c = alpha * (1 + j * beta) + (m > 1 && j % m === 0 ? gamma : 0);
+        variance += c * c;
+      }
+      return {
+        value: level + step * trend + seasonals[(n + step - 1) % m]!,
+        stdError: sigma * Math.sqrt(variance)
+      };
+    }
+  };
+};
+
+const fitLinear = (values: number[], seasonLength: number): Fit => {
+  const n = values.length;
+  const m = isSeasonal(n, seasonLength) ? seasonLength : 1;
+  const xMean = (n - 1) / 2;
+  const yMean = mean(values);
+  const sxx = values.reduce((sum, _, x) => sum + (x - xMean) ** 2, 0);
+  const slope = values.reduce((sum, y, x) => sum + (x - xMean) * (y - yMean), 0) / sxx;
+  const intercept = yMean - slope * xMean;
+
+  // Seasonal index: average distance from the trend line at each position in the season
+  const seasonals = Array.from({ length: m }, (_, position) => {
+    if (m === 1) return 0;
+    const offsets = values
+      .map((y, x) => ({ x, offset: y - (intercept + slope * x) }))
+      .filter(({ x }) => x % m === position)
+      .map(({ offset }) => offset);
+    return mean(offsets);
+  });
+
+  const sse = values.reduce((sum, y, x) => sum + (y - (intercept + slope * x + seasonals[x % m]!)) ** 2, 0);
+  const degreesOfFreedom = Math.max(1, n - 2 - (m - 1));
+  const sigma = Math.sqrt(sse / degreesOfFreedom);
+
+  return {
+    project: (step) => {
+      const x = n - 1 + step;
+      return {
+        value: intercept + slope * x + seasonals[x % m]!,
+        stdError: sigma * Math.sqrt(1 + 1 / n + (x - xMean) ** 2 / sxx)
+      };
+    }
+  };
+};
+
+const fit = (values: number[], method: ForecastMethod, seasonLength: number): Fit =>
+  method === 'holt-winters' ? fitHoltWinters(values, seasonLength) : fitLinear(values, seasonLength);
+
+/**
+ * Mean absolute percentage error in percent, skipping points where the actual value is zero
+ */
+export const calculateMape = (actual: number[], predicted: number[]): number | null => {
+  const errors = actual
+    .map((value, index) => (value === 0 ? null : Math.abs((value - predicted[index]!) / value)))
+    .filter((error): error is number => error !== null);
+  return errors.length > 0 ? (errors.reduce((sum, error) => sum + error, 0) / errors.length) * 100 : null;
+};
+
+/**
+ * Fit on all but the last `horizon` points (fewer for short series) and score the
+ * projection against them. Null when the series is too short to hold any back.
+ */
+export const backtest = (
+  values: number[],
+  method: ForecastMethod,
+  horizon: number,
+  seasonLength = 1
+): Backtest | null => {
+  const holdout = Math.min(horizon, values.length - MIN_POINTS);
+  if (holdout < 1) return null;
+
+  const training = values.slice(0, values.length - holdout);
+  const model = fit(training, method, seasonLength);
+  const actual = values.slice(-holdout);
+  const predicted = actual.map((_, index) => model.project(index + 1).value);
+  return { holdout, actual, predicted, mape: calculateMape(actual, predicted) };
+};
+
+/**
+ * Project a series `horizon` points ahead with a prediction interval at the chosen
+ * confidence. Returns null for series shorter than three points.
+ */
+export const forecastSeries = (values: number[], options: ForecastOptions): Forecast | null => {
+  if (values.length < MIN_POINTS || options.horizon < 1) return null;
+
+  const seasonLength = Math.max(1, Math.round(options.seasonLength || 1));
+  const confidence = options.confidence || 0.8;
+  const z = Z_SCORES[confidence];
+  const requested = options.method || 'auto';
+
+  const candidates: ForecastMethod[] = requested === 'auto' ? ['holt-winters', 'linear'] : [requested];
+  const scored = candidates.map(method => ({ method, backtest: backtest(values, method, options.horizon, seasonLength) }));
+  // Auto picks the lower backtest error; Holt-Winters wins ties and series too short to score
+  const chosen = scored.reduce((best, candidate) =>
+    (candidate.backtest?.mape ?? Infinity) < (best.backtest?.mape ?? Infinity) ? candidate : best
+  );
+
+  const model = fit(values, chosen.method, seasonLength);
+  const clamp = (value: number) => (options.min !== undefined ? Math.max(options.min, value) : value);
+
+  return {
+    method: chosen.method,
+    seasonal: isSeasonal(values.length, seasonLength),
+    seasonLength,
+    confidence,
+    points: Array.from({ length: options.horizon }, (_, index) => {
+      const { value, stdError } = model.project(index + 1);
+      return {
+        step: index + 1,
+        value: clamp(value),
+        lower: clamp(value - z * stdError),
+        upper: clamp(value + z * stdError)
+      };
+    }),
+    backtest: chosen.backtest
+  };
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const QUARTER = /^Q([1-4])(?:\s+(\d{4}))?$/;
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Labels for the `count` periods after `labels`, continuing month names (`Jan`,
+ * `Mar 2024`), quarters (`Q3 2024`), years and ISO dates; `+1`, `+2`… otherwise
+ */
+export const projectLabels = (labels: string[], count: number): string[] => {
+  const last = labels[labels.length - 1] || '';
+  const steps = Array.from({ length: count }, (_, index) => index + 1);
+
+  const month = last.match(/^([A-Z][a-z]{2})(?:\s+(\d{4}))?$/);
+  if (month && MONTHS.includes(month[1]!)) {
+    const start = MONTHS.indexOf(month[1]!);
+    return steps.map(step => {
+      const index = start + step;
+      const name = MONTHS[index % 12]!;
+      return month[2] ? `${name} ${Number(month[2]) + Math.floor(index / 12)}` : name;
+    });
+  }
+
+  const quarter = last.match(QUARTER);
+  if (quarter) {
+    const start = Number(quarter[1]) - 1;
+    return steps.map(step => {
+      const index = start + step;
+      return quarter[2] ? `Q${(index % 4) + 1} ${Number(quarter[2]) + Math.floor(index / 4)}` : `Q${(index % 4) + 1}`;
+    });
+  }
+
+  if (/^\d{4}$/.test(last)) {
+    return steps.map(step => String(Number(last) + step));
+  }
+
+  if (ISO_DATE.test(last)) {
+    const previous = labels[labels.length - 2];
+    const interval = previous && ISO_DATE.test(previous) ? Date.parse(last) - Date.parse(previous) : DAY;
+    return steps.map(step => new Date(Date.parse(last) + step * (interval || DAY)).toISOString().slice(0, 10));
+  }
+
+  return steps.map(step => `+${step}`);
+};
@@ -0,0 +1,323 @@
+import { InventoryCategory } from '../types';
+
+export type InventoryEntityScope = 'sku' | 'category' | 'warehouse' | 'region';
+
+export type ProductStatus = 'in_stock' | 'low_stock' | 'out_of_stock';
+
+export interface Warehouse {
+  id: string;
+  name: string;
+  location: string;
+  region: string;
+  capacity: number; // Reported utilization in percent
+}
+
+export interface ProductItem {
+  id: string;
+  name: string;
+  sku: string;
+  categoryId: string;
+  categoryName: string;
+  warehouseId: string;
+  region: string;
+  currentStock: number;
+  minThreshold: number;
+  maxCapacity: number;
+  status: ProductStatus;
+  lastRestocked: string;
+  supplier: string;
+  unitCost: number;
+}
+
+/**
+ * A SKU, category, warehouse or region with the stock figures rules are evaluated against
+ */
+export interface InventoryEntity {
+  scope: InventoryEntityScope;
+  id: string;
+  name: string;
+  metrics: Record<InventoryEntityMetric, number>;
+  link: string;
+}
+
+/**
+ * Units on hand across a category at the end of a day
+ */
+export interface StockLevelPoint {
+  date: string; // YYYY-MM-DD
+  stock: number;
+}
+
+/**
+ * Entity listed on a grouped alert, with the rule's value for it
+ */
+export interface AffectedEntity {
+  scope: InventoryEntityScope;
+  id: string;
+  name: string;
+  link: string;
+  value?: number | undefined;
+}
+
+export const WAREHOUSES: Warehouse[] = [
+  { id: 'west-coast', name: 'West Coast Hub', location: 'California', region: 'West', capacity: 85 },
+  { id: 'east-coast', name: 'East Coast Hub', location: 'New York', region: 'East', capacity: 92 },
+  { id: 'central', name: 'Central Hub', location: 'Texas', region: 'Central', capacity: 78 },
+  { id: 'southeast', name: 'Southeast Hub', location: 'Florida', region: 'East', capacity: 88 },
+  { id: 'northwest', name: 'Northwest Hub', location: 'Washington', region: 'West', capacity: 73 }
+];
+
+export const INVENTORY_REGIONS = Array.from(new Set(WAREHOUSES.map(warehouse => warehouse.region)));
+
+export const INVENTORY_ENTITY_METRICS = [
+  'items',
+  'stock',
+  'minThreshold',
+  'capacity',
+  'lowStock',
+  'outOfStock',
+  'utilization',
+  'coverage'
+] as const;
+
+export type InventoryEntityMetric = typeof INVENTORY_ENTITY_METRICS[number];
+
+export const ENTITY_SCOPE_LABELS: Record<InventoryEntityScope, { singular: string; plural: string }> = {
+  sku: { singular: 'SKU', plural: 'SKUs' },
+  category: { singular: 'category', plural: 'categories' },
+  warehouse: { singular: 'warehouse', plural: 'warehouses' },
+  region: { singular: 'region', plural: 'regions' }
+};
+
+export const INVENTORY_DRILLDOWN_PATH = '/inventory-dashboard';
+
+// Product data changes with each warehouse sync, not on every render
+export const INVENTORY_SYNC_INTERVAL = 15 * 60 * 1000;
+
+const PRODUCTS_PER_CATEGORY = 12;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const PRODUCT_NAMES = [
+  'Premium Wireless Headphones', 'Smart Fitness Tracker', 'Bluetooth Speaker',
+  'Laptop Stand', 'USB-C Hub', 'Wireless Mouse', 'Mechanical Keyboard',
+  'Monitor Stand', 'Webcam HD', 'Phone Case', 'Screen Protector', 'Charging Cable'
+];
+
+const SUPPLIERS = ['Amazon Logistics', 'Direct Supplier', 'Third Party'];
+
+const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small, fast and good enough for repeatable mock data
+const createRandom = (seed: number): (() => number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Price and demand belong to the SKU, not the sync, so they stay put between syncs
+const getUnitCost = (sku: string): number => Math.round(500 + (hashString(`${sku}:cost`) % 19500)) / 100;
+
+export const getProductStatus = (currentStock: number, minThreshold: number): ProductStatus => {
+  if (currentStock === 0) return 'out_of_stock';
+  if (currentStock <= minThreshold) return 'low_stock';
+  return 'in_stock';
+};
+
+/**
+ * Products of a category as of the sync that covers `now`. The same category and
+ * sync always give the same products, so widgets and alert checks agree.
+ */
+export const generateProductItems = (
+  category: Pick<InventoryCategory, 'id' | 'name'>,
+  now = Date.now()
+): ProductItem[] => {
+  const syncedAt = Math.floor(now / INVENTORY_SYNC_INTERVAL) * INVENTORY_SYNC_INTERVAL;
+  const random = createRandom(hashString(`${category.id}:${syncedAt}`));
+  const prefix = category.name.substring(0, 3).toUpperCase();
+
+  return Array.from({ length: PRODUCTS_PER_CATEGORY }, (_, i) => {
+    // Some items sit at zero so out-of-stock rules have something to find
+    const currentStock = random() < 0.08 ? 0 : Math.floor(random() * 500);
+    const minThreshold = Math.floor(random() * 50) + 10;
+    const maxCapacity = Math.floor(random() * 200) + 300;
+    const warehouse = WAREHOUSES[Math.floor(random() * WAREHOUSES.length)]!;
+
+    return {
+      id: `${category.id}-item-${i + 1}`,
+      name: PRODUCT_NAMES[i] || `Product ${i + 1}`,
+      sku: `SKU-${prefix}-${String(i + 1).padStart(3, '0')}`,
+      categoryId: category.id,
+      categoryName: category.name,
+      warehouseId: warehouse.id,
+      region: warehouse.region,
+      currentStock,
+      minThreshold,
+      maxCapacity,
+      status: getProductStatus(currentStock, minThreshold),
+      lastRestocked: new Date(syncedAt - random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
+      supplier: SUPPLIERS[Math.floor(random() * SUPPLIERS.length)] || 'Amazon Logistics',
+      unitCost: getUnitCost(`SKU-${prefix}-${String(i + 1).padStart(3, '0')}`)
+    };
+  });
+};
+
+/**
+ * Daily units on hand for a category over the last `days` days, ending at the stock
+ * of the current sync. Monday deliveries and busier weekends give it a weekly cycle.
+ */
+export const generateStockHistory = (
+  category: Pick<InventoryCategory, 'id' | 'name'>,
+  days = 56,
+  now = Date.now()
+): StockLevelPoint[] => {
+  const products = generateProductItems(category, now);
+  const today = Math.floor(now / DAY) * DAY;
+  const random = createRandom(hashString(`${category.id}:history:${today}`));
+  const capacity = products.reduce((sum, item) => sum + item.maxCapacity, 0);
+  const dailyDemand = capacity * 0.03;
+  // Deliveries run slightly short of or ahead of demand, so the category trends over the period
+  const deliveryRatio = 0.94 + random() * 0.1;
+
+  // Walk back from today: the day before held today's stock plus what sold, minus what arrived
+  const history: StockLevelPoint[] = [];
+  let stock = products.reduce((sum, item) => sum + item.currentStock, 0);
+  for (let offset = 0; offset < days; offset++) {
+    const date = new Date(today - offset * DAY);
+    history.unshift({ date: date.toISOString().slice(0, 10), stock: Math.round(stock) });
+
+    const weekday = date.getUTCDay();
+    const demand = dailyDemand * (weekday === 0 || weekday === 6 ? 1.4 : 1) * (0.85 + random() * 0.3);
+    const delivery = weekday === 1 ? dailyDemand * 7.8 * deliveryRatio : 0;
+    stock = Math.max(0, stock + demand - delivery);
+  }
+  return history;
+};
+
+/**
+ * Units of a product sold or consumed on each of the last `days` full days, oldest first
+ */
+export const generateConsumptionHistory = (
+  item: Pick<ProductItem, 'sku' | 'maxCapacity'>,
+  days = 28,
+  now = Date.now()
+): number[] => {
+  const today = Math.floor(now / DAY) * DAY;
+  // Each SKU sells between 0.5% and 3% of its capacity on an average day
+  const baseRate = item.maxCapacity * (0.005 + (hashString(`${item.sku}:demand`) % 100) / 4000);
+
+  return Array.from({ length: days }, (_, index) => {
+    const day = today - (days - index) * DAY;
+    const random = createRandom(hashString(`${item.sku}:${day}`));
+    const weekday = new Date(day).getUTCDay();
+    const weekendFactor = weekday === 0 || weekday === 6 ? 1.3 : 1;
+    return Math.round(baseRate * weekendFactor * (0.6 + random() * 0.8));
+  });
+};
+
+export const getInventoryProducts = (
+  categories: Pick<InventoryCategory, 'id' | 'name'>[],
+  now = Date.now()
+): ProductItem[] => categories.flatMap(category => generateProductItems(category, now));
+
+/**
+ * Link into the inventory drill-down, e.g. `/inventory-dashboard?category=electronics&sku=SKU-ELE-004`
+ */
+export const getDrillDownLink = (params: { category?: string; sku?: string; warehouse?: string; region?: string }): string => {
+  const search = new URLSearchParams();
+  (['category', 'sku', 'warehouse', 'region'] as const).forEach(key => {
+    if (params[key]) search.set(key, params[key]!);
+  });
+  const query = search.toString();
+  return query ? `${INVENTORY_DRILLDOWN_PATH}?${query}` : INVENTORY_DRILLDOWN_PATH;
+};
+
+const summarize = (items: ProductItem[]): Record<InventoryEntityMetric, number> => {
+  const stock = items.reduce((sum, item) => sum + item.currentStock, 0);
+  const minThreshold = items.reduce((sum, item) => sum + item.minThreshold, 0);
+  const capacity = items.reduce((sum, item) => sum + item.maxCapacity, 0);
+
+  return {
+    items: items.length,
+    stock,
+    minThreshold,
+    capacity,
+    lowStock: items.filter(item => item.status === 'low_stock').length,
+    outOfStock: items.filter(item => item.status === 'out_of_stock').length,
+    utilization: capacity > 0 ? (stock / capacity) * 100 : 0,
+    coverage: minThreshold > 0 ? stock / minThreshold : 0
+  };
+};
+
+const groupBy = (items: ProductItem[], key: (item: ProductItem) => string): Map<string, ProductItem[]> =>
+  items.reduce((groups, item) => {
+    const id = key(item);
+    groups.set(id, [...(groups.get(id) || []), item]);
+    return groups;
+  }, new Map<string, ProductItem[]>());
+
+/**
+ * Roll products up to the entities of a scope. SKUs report their own figures,
+ * with `lowStock` and `outOfStock` as 0 or 1.
+ */
+export const getInventoryEntities = (products: ProductItem[], scope: InventoryEntityScope): InventoryEntity[] => {
+  switch (scope) {
+    case 'sku':
+      return products.map(item => ({
+        scope,
+        id: item.sku,
+        name: `${item.name} (${item.sku})`,
+        metrics: summarize([item]),
+        link: getDrillDownLink({ category: item.categoryId, sku: item.sku })
+      }));
+    case 'category':
+      return Array.from(groupBy(products, item => item.categoryId), ([id, items]) => ({
+        scope,
+        id,
+        name: items[0]!.categoryName,
+        metrics: summarize(items),
+        link: getDrillDownLink({ category: id })
+      }));
+    case 'warehouse':
+      return Array.from(groupBy(products, item => item.warehouseId), ([id, items]) => ({
+        scope,
+        id,
+        name: WAREHOUSES.find(warehouse => warehouse.id === id)?.name || id,
+        metrics: summarize(items),
+        link: getDrillDownLink({ warehouse: id })
+      }));
+    case 'region':
+      return Array.from(groupBy(products, item => item.region), ([id, items]) => ({
+        scope,
+        id,
+        name: id,
+        metrics: summarize(items),
+        link: getDrillDownLink({ region: id })
+      }));
+    default:
+      return [];
+  }
+};
+
+/**
+ * Summary of how the entities on an alert changed, e.g. `+SKU-ELE-004, -SKU-TOY-010`;
+ * empty when they are the same
+ */
+export const describeEntityChanges = (previous: AffectedEntity[], next: AffectedEntity[]): string => {
+  const before = new Set(previous.map(entity => entity.id));
+  const after = new Set(next.map(entity => entity.id));
+  return [
+    ...next.filter(entity => !before.has(entity.id)).map(entity => `+${entity.id}`),
+    ...previous.filter(entity => !after.has(entity.id)).map(entity => `-${entity.id}`)
+  ].join(', ');
+};
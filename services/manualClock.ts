@@ -0,0 +1,44 @@
+import { Clock, ClockHandle } from './clock';
+
+export interface ManualClock {
+  clock: Clock;
+  advance(ms: number): void; // Fires due timers in order, including ones they schedule
+  pending(): number;
+}
+
+/**
+ * Clock whose timers only fire when advanced, for driving timer-based services in tests
+ */
+export const createManualClock = (start = 0): ManualClock => {
+  let now = start;
+  let nextId = 1;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  const clock: Clock = {
+    now: () => now,
+    setTimeout: (callback, delay) => {
+      const id = nextId++;
+      timers.set(id, { at: now + delay, callback });
+      return id as unknown as ClockHandle;
+    },
+    clearTimeout: handle => {
+      timers.delete(handle as unknown as number);
+    }
+  };
+
+  const advance = (ms: number) => {
+    const target = now + ms;
+    for (;;) {
+      const due = Array.from(timers.entries())
+        .filter(([, timer]) => timer.at <= target)
+        .sort(([, a], [, b]) => a.at - b.at)[0];
+      if (!due) break;
+      timers.delete(due[0]);
+      now = due[1].at;
+      due[1].callback();
+    }
+    now = target;
+  };
+
+  return { clock, advance, pending: () => timers.size };
+};
@@ -0,0 +1,401 @@
+import { BusinessMetrics, ChartData, FilterCriteria, FinancialMetrics } from '@/types';
+import { configService } from './configService';
+
+export type ODataVersion = 'v2' | 'v4';
+
+export interface ODataQueryOptions {
+  filter?: string;
+  select?: string[];
+  orderby?: Array<{ field: string; direction?: 'asc' | 'desc' }>;
+  top?: number;
+  skip?: number;
+  expand?: string[];
+}
+
+/**
+ * Names of the entity properties that FilterCriteria fields are matched against
+ */
+export interface ODataFilterFieldMap {
+  date?: string;
+  region?: string;
+  category?: string;
+  businessUnit?: string;
+}
+
+export interface ODataClientConfig {
+  serviceUrl: string;
+  version?: ODataVersion;
+  headers?: Record<string, string>;
+  timeout?: number;
+  maxPages?: number; // Safety limit when following next links
+  fetchImpl?: typeof fetch;
+}
+
+export interface ODataProperty {
+  name: string;
+  type: string;
+  nullable: boolean;
+}
+
+export interface ODataEntityType {
+  name: string;
+  keys: string[];
+  properties: ODataProperty[];
+}
+
+export interface ODataMetadata {
+  namespace: string;
+  entityTypes: Record<string, ODataEntityType>;
+  entitySets: Record<string, string>; // Entity set name -> entity type name
+}
+
+export interface ODataChartMapping {
+  labelField: string;
+  series: Array<{ field: string; label: string }>;
+  title?: string;
+}
+
+/**
+ * Dotted target path (e.g. `inventory.lowStock`) -> entity property, summed across rows
+ */
+export type ODataMetricMapping = Record<string, string>;
+
+export const DEFAULT_FILTER_FIELDS: Required<ODataFilterFieldMap> = {
+  date: 'PostingDate',
+  region: 'Region',
+  category: 'ProductCategory',
+  businessUnit: 'BusinessUnit'
+};
+
+export const DEFAULT_BUSINESS_METRICS_MAPPING: ODataMetricMapping = {
+  'revenue.total': 'NetRevenue',
+  'revenue.growth': 'RevenueGrowth',
+  'costs.operational': 'OperationalCost',
+  'costs.marketing': 'MarketingCost',
+  'costs.logistics': 'LogisticsCost',
+  'costs.total': 'TotalCost',
+  'inventory.lowStock': 'LowStockCount',
+  'inventory.outOfStock': 'OutOfStockCount',
+  'inventory.utilizationRate': 'WarehouseUtilization',
+  'customers.satisfaction': 'CustomerSatisfaction',
+  'customers.supportTickets.open': 'OpenSupportTickets'
+};
+
+export const DEFAULT_FINANCIAL_METRICS_MAPPING: ODataMetricMapping = {
+  'variance.budget': 'BudgetVariance',
+  'variance.forecast': 'ForecastVariance',
+  'variance.previousPeriod': 'PreviousPeriodVariance'
+};
+
+// Averaged rather than summed when several rows are returned
+const RATE_SUFFIXES = ['Rate', 'growth', 'satisfaction', 'budget', 'forecast', 'previousPeriod'];
+
+const escapeLiteral = (value: string): string => `'${value.replace(/'/g, "''")}'`;
+
+const formatDateLiteral = (date: Date, version: ODataVersion): string => {
+  const iso = date.toISOString().replace(/\.\d{3}Z$/, '');
+  return version === 'v2' ? `datetime'${iso}'` : `${iso}Z`;
+};
+
+const anyOf = (field: string, values: string[]): string | null => {
+  if (values.length === 0) return null;
+  const clauses = values.map(value => `${field} eq ${escapeLiteral(value)}`);
+  return clauses.length === 1 ? clauses[0]! : `(${clauses.join(' or ')})`;
+};
+
+/**
+ * Translate dashboard filters into an OData $filter expression
+ */
+export const buildODataFilter = (
+  filters: FilterCriteria,
+  version: ODataVersion = 'v2',
+  fields: ODataFilterFieldMap = DEFAULT_FILTER_FIELDS
+): string => {
+  const clauses: Array<string | null> = [];
+
+  if (fields.date) {
+    clauses.push(`${fields.date} ge ${formatDateLiteral(filters.dateRange.start, version)}`);
+    clauses.push(`${fields.date} le ${formatDateLiteral(filters.dateRange.end, version)}`);
+  }
+  if (fields.region) clauses.push(anyOf(fields.region, filters.regions));
+  if (fields.category) clauses.push(anyOf(fields.category, filters.categories));
+  if (fields.businessUnit) clauses.push(anyOf(fields.businessUnit, filters.businessUnits));
+
+  return clauses.filter((clause): clause is string => Boolean(clause)).join(' and ');
+};
+
+/**
+ * Build the system query string ($filter, $select, ...) for a request
+ */
+export const buildODataQueryString = (query: ODataQueryOptions, version: ODataVersion = 'v2'): string => {
+  const parts: string[] = [];
+
+  if (query.filter) parts.push(`$filter=${encodeURIComponent(query.filter)}`);
+  if (query.select?.length) parts.push(`$select=${query.select.join(',')}`);
+  if (query.expand?.length) parts.push(`$expand=${query.expand.join(',')}`);
+  if (query.orderby?.length) {
+    const order = query.orderby.map(({ field, direction = 'asc' }) => `${field} ${direction}`).join(',');
+    parts.push(`$orderby=${encodeURIComponent(order)}`);
+  }
+  if (query.top !== undefined) parts.push(`$top=${query.top}`);
+  if (query.skip !== undefined) parts.push(`$skip=${query.skip}`);
+  if (version === 'v2') parts.push('$format=json');
+
+  return parts.join('&');
+};
+
+const readAttribute = (source: string, name: string): string | undefined => {
+  const match = source.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match?.[1];
+};
+
+/**
+ * Parse an EDMX $metadata document into entity types and sets
+ */
+export const parseODataMetadata = (xml: string): ODataMetadata => {
+  const namespace = xml.match(/<Schema[^>]*\bNamespace="([^"]+)"/)?.[1] || '';
+  const entityTypes: Record<string, ODataEntityType> = {};
+  const entitySets: Record<string, string> = {};
+
+  const entityTypePattern = /<EntityType\b([^>]*)>([\s\S]*?)<\/EntityType>/g;
+  let typeMatch: RegExpExecArray | null;
+  while ((typeMatch = entityTypePattern.exec(xml)) !== null) {
+    const name = readAttribute(typeMatch[1] || '', 'Name');
+    if (!name) continue;
+
+    const body = typeMatch[2] || '';
+    const keys = Array.from(body.matchAll(/<PropertyRef\b([^>]*)\/>/g))
+      .map(match => readAttribute(match[1] || '', 'Name'))
+      .filter((key): key is string => Boolean(key));
+    const properties = Array.from(body.matchAll(/<Property\b([^>]*)\/?>/g)).map(match => {
+      const attributes = match[1] || '';
+      return {
+        name: readAttribute(attributes, 'Name') || '',
+        type: readAttribute(attributes, 'Type') || 'Edm.String',
+        nullable: readAttribute(attributes, 'Nullable') !== 'false'
+      };
+    });
+
+    entityTypes[name] = { name, keys, properties };
+  }
+
+  for (const match of xml.matchAll(/<EntitySet\b([^>]*)\/?>/g)) {
+    const attributes = match[1] || '';
+    const name = readAttribute(attributes, 'Name');
+    const entityType = readAttribute(attributes, 'EntityType');
+    if (name && entityType) {
+      entitySets[name] = entityType.split('.').pop() || entityType;
+    }
+  }
+
+  return { namespace, entityTypes, entitySets };
+};
+
+const setPath = (target: Record<string, any>, path: string, value: number): void => {
+  const segments = path.split('.');
+  let cursor = target;
+
+  segments.slice(0, -1).forEach(segment => {
+    if (typeof cursor[segment] !== 'object' || cursor[segment] === null) {
+      cursor[segment] = {};
+    }
+    cursor = cursor[segment];
+  });
+
+  cursor[segments[segments.length - 1]!] = value;
+};
+
+const toNumber = (value: unknown): number => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+/**
+ * Aggregate entity rows into a nested metrics object. Only mapped properties
+ * present in the rows (plus whatever `base` provides) are filled in.
+ */
+export const mapEntitiesToMetrics = <T>(
+  rows: Record<string, unknown>[],
+  mapping: ODataMetricMapping,
+  base: Partial<T> = {}
+): Partial<T> => {
+  const result = JSON.parse(JSON.stringify(base)) as Record<string, any>;
+
+  Object.entries(mapping).forEach(([targetPath, property]) => {
+    const values = rows.map(row => row[property]).filter(value => value !== undefined && value !== null);
+    if (values.length === 0) return;
+
+    const total = values.reduce<number>((sum, value) => sum + toNumber(value), 0);
+    const isRate = RATE_SUFFIXES.some(suffix => targetPath.endsWith(suffix));
+    setPath(result, targetPath, isRate ? total / values.length : total);
+  });
+
+  return result as Partial<T>;
+};
+
+export const mapToBusinessMetrics = (
+  rows: Record<string, unknown>[],
+  mapping: ODataMetricMapping = DEFAULT_BUSINESS_METRICS_MAPPING,
+  base: Partial<BusinessMetrics> = {}
+): Partial<BusinessMetrics> => mapEntitiesToMetrics<BusinessMetrics>(rows, mapping, base);
+
+export const mapToFinancialMetrics = (
+  rows: Record<string, unknown>[],
+  mapping: ODataMetricMapping = DEFAULT_FINANCIAL_METRICS_MAPPING,
+  base: Partial<FinancialMetrics> = {}
+): Partial<FinancialMetrics> => mapEntitiesToMetrics<FinancialMetrics>(rows, mapping, base);
+
+const parseODataDate = (value: unknown): string => {
+  // v2 serialises dates as /Date(1700000000000)/
+  const legacy = typeof value === 'string' ? value.match(/\/Date\((-?\d+)(?:[+-]\d+)?\)\//) : null;
+  if (legacy?.[1]) {
+    return new Date(parseInt(legacy[1], 10)).toISOString().split('T')[0]!;
+  }
+  return String(value ?? '');
+};
+
+/**
+ * Convert entity rows into chart series
+ */
+export const mapToChartData = (rows: Record<string, unknown>[], mapping: ODataChartMapping): ChartData => {
+  const labels = rows.map(row => parseODataDate(row[mapping.labelField]));
+
+  return {
+    labels,
+    datasets: mapping.series.map(({ field, label }) => ({
+      label,
+      data: rows.map((row, index) => ({
+        x: labels[index] || `${index}`,
+        y: toNumber(row[field])
+      }))
+    })),
+    metadata: {
+      title: mapping.title || mapping.series.map(series => series.label).join(', '),
+      lastUpdated: new Date().toISOString()
+    }
+  } as ChartData;
+};
+
+/**
+ * Minimal OData client for SAP Gateway services (v2 and v4)
+ */
+export class ODataClient {
+  private metadata: ODataMetadata | null = null;
+  private readonly version: ODataVersion;
+  private readonly serviceUrl: string;
+
+  constructor(private config: ODataClientConfig) {
+    this.version = config.version || 'v2';
+    this.serviceUrl = config.serviceUrl.replace(/\/$/, '');
+  }
+
+  /**
+   * Build the full URL for an entity set query
+   */
+  buildUrl(entitySet: string, query: ODataQueryOptions = {}): string {
+    const queryString = buildODataQueryString(query, this.version);
+    return `${this.serviceUrl}/${entitySet}${queryString ? `?${queryString}` : ''}`;
+  }
+
+  /**
+   * Query an entity set, following server-driven paging until exhausted
+   */
+  async query<T = Record<string, unknown>>(
+    entitySet: string,
+    query: ODataQueryOptions = {},
+    signal?: AbortSignal
+  ): Promise<T[]> {
+    const rows: T[] = [];
+    const maxPages = this.config.maxPages ?? 50;
+    let url: string | null = this.buildUrl(entitySet, query);
+    let page = 0;
+
+    while (url && page < maxPages) {
+      const payload = await this.fetchJson(url, signal);
+      const { results, next } = this.unwrap<T>(payload);
+      rows.push(...results);
+      url = next ? this.resolveNextLink(next) : null;
+      page++;
+    }
+
+    if (url) {
+      configService.log('warn', `OData paging stopped after ${maxPages} pages for ${entitySet}`);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Query an entity set using dashboard filter criteria
+   */
+  async queryWithFilters<T = Record<string, unknown>>(
+    entitySet: string,
+    filters?: FilterCriteria,
+    query: Omit<ODataQueryOptions, 'filter'> = {},
+    fields?: ODataFilterFieldMap,
+    signal?: AbortSignal
+  ): Promise<T[]> {
+    const filter = filters ? buildODataFilter(filters, this.version, fields) : undefined;
+    return this.query<T>(entitySet, { ...query, filter: filter || undefined }, signal);
+  }
+
+  /**
+   * Fetch and cache the service $metadata document
+   */
+  async getMetadata(forceReload = false): Promise<ODataMetadata> {
+    if (this.metadata && !forceReload) return this.metadata;
+
+    const response = await this.fetchWithTimeout(`${this.serviceUrl}/$metadata`, 'application/xml');
+    this.metadata = parseODataMetadata(await response.text());
+    return this.metadata;
+  }
+
+  private unwrap<T>(payload: any): { results: T[]; next?: string } {
+    if (this.version === 'v2') {
+      const d = payload?.d ?? {};
+      const results = Array.isArray(d) ? d : (d.results ?? [d]);
+      return { results, next: d.__next };
+    }
+    return { results: payload?.value ?? [], next: payload?.['@odata.nextLink'] };
+  }
+
+  private resolveNextLink(next: string): string {
+    if (/^https?:\/\//.test(next)) return next;
+    return `${this.serviceUrl}/${next.replace(/^\//, '')}`;
+  }
+
+  private async fetchJson(url: string, signal?: AbortSignal): Promise<unknown> {
+    const response = await this.fetchWithTimeout(url, 'application/json', signal);
+    return response.json();
+  }
+
+  private async fetchWithTimeout(url: string, accept: string, signal?: AbortSignal): Promise<Response> {
+    // An already aborted signal never fires 'abort', so don't start the request
+    if (signal?.aborted) {
+      throw new DOMException('The operation was aborted.', 'AbortError');
+    }
+
+    const fetchImpl = this.config.fetchImpl || fetch;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout || 10000);
+    const abortFromCaller = () => controller.abort();
+    signal?.addEventListener('abort', abortFromCaller);
+
+    try {
+      configService.log('debug', `Making OData request to: ${url}`);
+      const response = await fetchImpl(url, {
+        headers: { Accept: accept, ...this.config.headers },
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`OData error! status: ${response.status}`);
+      }
+
+      return response;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * Minimal Apache Parquet writer: one row group, one uncompressed PLAIN data
+ * page per column, all columns optional. Enough for data lake ingestion of
+ * flat exports without a native dependency.
+ */
+
+export type ParquetValue = string | number | boolean | Date | null | undefined;
+
+export type ParquetColumnType = 'boolean' | 'int64' | 'double' | 'timestamp' | 'string';
+
+export interface ParquetColumn {
+  name: string;
+  type: ParquetColumnType;
+}
+
+export const PARQUET_MIME_TYPE = 'application/vnd.apache.parquet';
+
+const MAGIC = [0x50, 0x41, 0x52, 0x31]; // PAR1
+
+// Parquet physical types, converted types and encodings (parquet.thrift)
+const PhysicalType = { BOOLEAN: 0, INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6 };
+const ConvertedType = { UTF8: 0, TIMESTAMP_MILLIS: 9 };
+const Encoding = { PLAIN: 0, RLE: 3 };
+const OPTIONAL = 1;
+
+const PHYSICAL_TYPES: Record<ParquetColumnType, number> = {
+  boolean: PhysicalType.BOOLEAN,
+  int64: PhysicalType.INT64,
+  double: PhysicalType.DOUBLE,
+  timestamp: PhysicalType.INT64,
+  string: PhysicalType.BYTE_ARRAY
+};
+
+class ByteWriter {
+  private chunks: number[] = [];
+
+  get length(): number {
+    return this.chunks.length;
+  }
+
+  byte(value: number) {
+    this.chunks.push(value & 0xff);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.chunks.push(values[i]!);
+  }
+
+  uint32(value: number) {
+    const view = new DataView(new ArrayBuffer(4));
+    view.setUint32(0, value, true);
+    this.bytes(new Uint8Array(view.buffer));
+  }
+
+  int64(value: number) {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setBigInt64(0, BigInt(Math.trunc(value)), true);
+    this.bytes(new Uint8Array(view.buffer));
+  }
+
+  double(value: number) {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value, true);
+    this.bytes(new Uint8Array(view.buffer));
+  }
+
+  varint(value: number) {
+    let remaining = BigInt(value);
+    while (remaining >= BigInt(0x80)) {
+      this.byte(Number(remaining & BigInt(0x7f)) | 0x80);
+      remaining >>= BigInt(7);
+    }
+    this.byte(Number(remaining));
+  }
+
+  toUint8Array(): Uint8Array {
+    return Uint8Array.from(this.chunks);
+  }
+}
+
+/**
+ * Thrift compact protocol encoder, for the file footer and page headers
+ */
+type ThriftValue =
+  | { type: 'i32' | 'i64'; value: number }
+  | { type: 'bool'; value: boolean }
+  | { type: 'binary'; value: string }
+  | { type: 'struct'; value: ThriftStruct }
+  | { type: 'list'; element: 'i32' | 'binary' | 'struct'; value: Array<number | string | ThriftStruct> };
+
+type ThriftStruct = Array<[number, ThriftValue | undefined]>;
+
+const COMPACT_TYPES = { bool: 1, i32: 5, i64: 6, binary: 8, list: 9, struct: 12 };
+
+const zigzag = (value: number): number => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+const encoder = new TextEncoder();
+
+const writeStruct = (out: ByteWriter, fields: ThriftStruct) => {
+  let lastId = 0;
+  fields.forEach(([id, field]) => {
+    if (!field) return;
+    const typeId = field.type === 'bool' ? (field.value ? 1 : 2) : COMPACT_TYPES[field.type];
+    const delta = id - lastId;
+    if (delta > 0 && delta <= 15) {
+      out.byte((delta << 4) | typeId);
+    } else {
+      out.byte(typeId);
+      out.varint(zigzag(id));
+    }
+    lastId = id;
+    if (field.type !== 'bool') writeValue(out, field);
+  });
+  out.byte(0); // Stop
+};
+
+const writeValue = (out: ByteWriter, field: Exclude<ThriftValue, { type: 'bool' }>) => {
+  switch (field.type) {
+    case 'i32':
+    case 'i64':
+      out.varint(zigzag(field.value));
+      break;
+    case 'binary': {
+      const bytes = encoder.encode(field.value);
+      out.varint(bytes.length);
+      out.bytes(bytes);
+      break;
+    }
+    case 'struct':
+      writeStruct(out, field.value);
+      break;
+    case 'list': {
+      const size = field.value.length;
+      const elementType = COMPACT_TYPES[field.element];
+      if (size < 15) {
+        out.byte((size << 4) | elementType);
+      } else {
+        out.byte(0xf0 | elementType);
+        out.varint(size);
+      }
+      field.value.forEach(item => {
+        if (field.element === 'struct') writeStruct(out, item as ThriftStruct);
+        else if (field.element === 'i32') writeValue(out, { type: 'i32', value: item as number });
+        else writeValue(out, { type: 'binary', value: item as string });
+      });
+      break;
+    }
+  }
+};
+
+const i32 = (value: number): ThriftValue => ({ type: 'i32', value });
+const i64 = (value: number): ThriftValue => ({ type: 'i64', value });
+const binary = (value: string): ThriftValue => ({ type: 'binary', value });
+const struct = (value: ThriftStruct): ThriftValue => ({ type: 'struct', value });
+
+/**
+ * RLE/bit-packed hybrid encoding of 0/1 definition levels, length-prefixed
+ */
+const encodeDefinitionLevels = (present: boolean[]): Uint8Array => {
+  const runs = new ByteWriter();
+  for (let i = 0; i < present.length;) {
+    let end = i;
+    while (end < present.length && present[end] === present[i]) end++;
+    runs.varint((end - i) << 1);
+    runs.byte(present[i] ? 1 : 0);
+    i = end;
+  }
+  const out = new ByteWriter();
+  out.uint32(runs.length);
+  out.bytes(runs.toUint8Array());
+  return out.toUint8Array();
+};
+
+const encodeValues = (type: ParquetColumnType, values: ParquetValue[]): Uint8Array => {
+  const out = new ByteWriter();
+  if (type === 'boolean') {
+    for (let i = 0; i < values.length; i += 8) {
+      let byte = 0;
+      for (let bit = 0; bit < 8 && i + bit < values.length; bit++) {
+        if (values[i + bit]) byte |= 1 << bit;
+      }
+      out.byte(byte);
+    }
+  } else {
+    values.forEach(value => {
+      switch (type) {
+        case 'int64':
+          out.int64(Number(value));
+          break;
+        case 'double':
+          out.double(Number(value));
+          break;
+        case 'timestamp':
+          out.int64(value instanceof Date ? value.getTime() : new Date(value as string).getTime());
+          break;
+        default: {
+          const bytes = encoder.encode(value instanceof Date ? value.toISOString() : String(value));
+          out.uint32(bytes.length);
+          out.bytes(bytes);
+        }
+      }
+    });
+  }
+  return out.toUint8Array();
+};
+
+const schemaElement = (column: ParquetColumn): ThriftStruct => [
+  [1, i32(PHYSICAL_TYPES[column.type])],
+  [3, i32(OPTIONAL)],
+  [4, binary(column.name)],
+  [6, column.type === 'string' ? i32(ConvertedType.UTF8) : column.type === 'timestamp' ? i32(ConvertedType.TIMESTAMP_MILLIS) : undefined],
+  // Logical type: STRING, or TIMESTAMP(isAdjustedToUTC, MILLIS)
+  [10, column.type === 'string'
+    ? struct([[1, struct([])]])
+    : column.type === 'timestamp'
+      ? struct([[8, struct([[1, { type: 'bool', value: true }], [2, struct([[1, struct([])]])]])]])
+      : undefined]
+];
+
+/**
+ * Pick a column type from the non-empty values of a column
+ */
+export const inferParquetType = (values: ParquetValue[]): ParquetColumnType => {
+  const present = values.filter(value => value !== null && value !== undefined);
+  if (present.length === 0) return 'string';
+  if (present.every(value => typeof value === 'boolean')) return 'boolean';
+  if (present.every(value => value instanceof Date)) return 'timestamp';
+  if (present.every(value => typeof value === 'number' && isFinite(value))) {
+    return present.every(value => Number.isSafeInteger(value)) ? 'int64' : 'double';
+  }
+  return 'string';
+};
+
+/**
+ * Write rows as a Parquet file. Columns without an explicit type are inferred.
+ */
+export const writeParquet = (
+  columns: Array<ParquetColumn | string>,
+  rows: Array<Record<string, ParquetValue>>,
+  createdBy = 'Dashboard'
+): Uint8Array => {
+  if (columns.length === 0) {
+    throw new Error('A Parquet file needs at least one column');
+  }
+
+  const schema = columns.map((column): ParquetColumn => (typeof column === 'string'
+    ? { name: column, type: inferParquetType(rows.map(row => row[column])) }
+    : column));
+
+  const out = new ByteWriter();
+  out.bytes(MAGIC);
+
+  const chunks: ThriftStruct[] = schema.map(column => {
+    const values = rows.map(row => row[column.name]);
+    const present = values.map(value => value !== null && value !== undefined &&
+      !(typeof value === 'number' && !isFinite(value)) && !(value instanceof Date && isNaN(value.getTime())));
+    const levels = encodeDefinitionLevels(present);
+    const data = encodeValues(column.type, values.filter((_, i) => present[i]));
+    const pageSize = levels.length + data.length;
+
+    const header = new ByteWriter();
+    writeStruct(header, [
+      [1, i32(0)], // DATA_PAGE
+      [2, i32(pageSize)],
+      [3, i32(pageSize)],
+      [5, struct([
+        [1, i32(rows.length)],
+        [2, i32(Encoding.PLAIN)],
+        [3, i32(Encoding.RLE)],
+        [4, i32(Encoding.RLE)]
+      ])]
+    ]);
+
+    const offset = out.length;
+    out.bytes(header.toUint8Array());
+    out.bytes(levels);
+    out.bytes(data);
+    const size = out.length - offset;
+
+    return [
+      [2, i64(offset)],
+      [3, struct([
+        [1, i32(PHYSICAL_TYPES[column.type])],
+        [2, { type: 'list', element: 'i32', value: [Encoding.PLAIN, Encoding.RLE] }],
+        [3, { type: 'list', element: 'binary', value: [column.name] }],
+        [4, i32(0)], // UNCOMPRESSED
+        [5, i64(rows.length)],
+        [6, i64(size)],
+        [7, i64(size)],
+        [9, i64(offset)]
+      ])]
+    ];
+  });
+
+  const totalSize = out.length - MAGIC.length;
+  const footer = new ByteWriter();
+  writeStruct(footer, [
+    [1, i32(1)],
+    [2, { type: 'list', element: 'struct', value: [[[4, binary('schema')], [5, i32(schema.length)]], ...schema.map(schemaElement)] }],
+    [3, i64(rows.length)],
+    [4, { type: 'list', element: 'struct', value: [[
+      [1, { type: 'list', element: 'struct', value: chunks }],
+      [2, i64(totalSize)],
+      [3, i64(rows.length)]
+    ]] }],
+    [6, binary(createdBy)]
+  ]);
+
+  out.bytes(footer.toUint8Array());
+  out.uint32(footer.length);
+  out.bytes(MAGIC);
+  return out.toUint8Array();
+};
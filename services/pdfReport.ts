@@ -0,0 +1,607 @@
+import { jsPDF } from 'jspdf';
+import { CHART_COLORS } from '../constants';
+import {
+  NO_DATA_LABEL,
+  REPORT_PAGE_SIZES,
+  ReportSeriesData,
+  ReportTableColumn,
+  ReportTableRow,
+  ReportValueFormat,
+  ResolvedReport,
+  ResolvedReportWidget,
+  formatReportValue,
+  lightenColor
+} from './reportDefinition';
+
+/**
+ * Vector PDF renderer for resolved reports. Charts are drawn with PDF path
+ * operators rather than screenshots, so it needs no DOM or canvas.
+ */
+
+export const PDF_MIME_TYPE = 'application/pdf';
+
+const MARGIN = 36;
+const GAP = 12;
+const FOOTER_HEIGHT = 24;
+const TILE_HEIGHT = 68;
+const GAUGE_HEIGHT = 104;
+const TABLE_ROW_HEIGHT = 16;
+const TITLE_HEIGHT = 18;
+const TEXT_LINE_HEIGHT = 13;
+const TEXT_COLOR = '#212121';
+const MUTED_COLOR = '#757575';
+const GRID_COLOR = '#e0e0e0';
+const POSITIVE_COLOR = CHART_COLORS.SUCCESS;
+const NEGATIVE_COLOR = CHART_COLORS.ERROR;
+
+type TileWidget = Extract<ResolvedReportWidget, { type: 'kpi' | 'gauge' }>;
+
+/**
+ * Replace characters the standard PDF fonts cannot encode
+ */
+const pdfText = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/[\u2013\u2014\u2212]/g, '-')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/\u2026/g, '...')
+    .replace(/\u2022/g, '*')
+    .replace(/[\u00a0\u2009\u202f]/g, ' ')
+    .replace(/[^\x20-\x7e\xa1-\xff\u20ac]/g, '?');
+
+const formatTimestamp = (date: Date): string =>
+  `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+const niceStep = (range: number, ticks: number): number => {
+  const raw = range / ticks;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const normalized = raw / magnitude;
+  return (normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10) * magnitude;
+};
+
+/**
+ * Axis bounds on round numbers, always including zero
+ */
+export const niceScale = (min: number, max: number, ticks = 5): { min: number; max: number; step: number } => {
+  let low = Math.min(0, min);
+  let high = Math.max(0, max);
+  if (high === low) high = low + 1;
+  const step = niceStep(high - low, ticks);
+  low = Math.floor(low / step) * step;
+  high = Math.ceil(high / step) * step;
+  return { min: low, max: high, step };
+};
+
+class PdfReportWriter {
+  private doc: jsPDF;
+  private y = MARGIN;
+  private readonly width: number;
+  private readonly height: number;
+  private readonly contentWidth: number;
+
+  constructor(private report: ResolvedReport) {
+    const size = REPORT_PAGE_SIZES[report.pageSize];
+    const landscape = report.orientation === 'landscape';
+    this.width = landscape ? size.height : size.width;
+    this.height = landscape ? size.width : size.height;
+    this.contentWidth = this.width - MARGIN * 2;
+    this.doc = new jsPDF({ unit: 'pt', format: [size.width, size.height], orientation: report.orientation });
+    this.doc.setProperties({ title: pdfText(report.title), creator: 'Dashboard' });
+  }
+
+  render(): Uint8Array {
+    this.drawHeader();
+
+    const { widgets } = this.report;
+    const perRow = this.report.orientation === 'landscape' ? 4 : 3;
+    for (let i = 0; i < widgets.length;) {
+      const entry = widgets[i]!;
+      if (entry.type === 'kpi' || entry.type === 'gauge') {
+        const tiles: TileWidget[] = [];
+        while (i < widgets.length && tiles.length < perRow && (widgets[i]!.type === 'kpi' || widgets[i]!.type === 'gauge')) {
+          tiles.push(widgets[i++] as TileWidget);
+        }
+        this.drawTiles(tiles, perRow);
+      } else {
+        if (entry.type === 'chart') this.drawChart(entry);
+        else if (entry.type === 'table') this.drawTable(entry);
+        else if (entry.type === 'text') this.drawText(entry);
+        else this.breakPage();
+        i++;
+      }
+    }
+
+    this.drawFooters();
+    return new Uint8Array(this.doc.output('arraybuffer'));
+  }
+
+  private get bottom(): number {
+    return this.height - MARGIN - FOOTER_HEIGHT;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y + height > this.bottom && this.y > MARGIN) {
+      this.doc.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  private breakPage() {
+    if (this.y > MARGIN) {
+      this.doc.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  private format(value: number, format: ReportValueFormat | undefined, compact = false): string {
+    return pdfText(formatReportValue(value, format, this.report, compact));
+  }
+
+  private setText(size: number, color = TEXT_COLOR, bold = false) {
+    this.doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(color);
+  }
+
+  private fit(text: string, width: number): string {
+    if (this.doc.getTextWidth(text) <= width) return text;
+    let fitted = text;
+    while (fitted.length > 1 && this.doc.getTextWidth(`${fitted}...`) > width) fitted = fitted.slice(0, -1);
+    return `${fitted}...`;
+  }
+
+  private drawHeader() {
+    const { doc, report } = this;
+    this.setText(18, TEXT_COLOR, true);
+    doc.text(this.fit(pdfText(report.title), this.contentWidth * 0.7), MARGIN, this.y + 16);
+
+    this.setText(8, MUTED_COLOR);
+    doc.text(`Generated ${formatTimestamp(report.generatedAt)}`, this.width - MARGIN, this.y + 16, { align: 'right' });
+    this.y += 24;
+
+    if (report.subtitle) {
+      this.setText(11, MUTED_COLOR);
+      doc.text(this.fit(pdfText(report.subtitle), this.contentWidth), MARGIN, this.y + 10);
+      this.y += 16;
+    }
+
+    if (report.filterSummary.length > 0) {
+      this.setText(8, MUTED_COLOR);
+      const summary = report.filterSummary.map(({ label, value }) => `${label}: ${value}`).join('    ');
+      const lines: string[] = doc.splitTextToSize(pdfText(summary), this.contentWidth);
+      lines.forEach(line => {
+        doc.text(line, MARGIN, this.y + 8);
+        this.y += 11;
+      });
+    }
+
+    this.y += 4;
+    doc.setDrawColor(GRID_COLOR);
+    doc.setLineWidth(1);
+    doc.line(MARGIN, this.y, this.width - MARGIN, this.y);
+    this.y += GAP;
+  }
+
+  private drawTitle(title: string, x: number, y: number, width: number) {
+    this.setText(11, TEXT_COLOR, true);
+    this.doc.text(this.fit(pdfText(title), width), x, y + 11);
+  }
+
+  private drawNoData(x: number, y: number, width: number, height: number) {
+    this.setText(9, MUTED_COLOR);
+    this.doc.text(NO_DATA_LABEL, x + width / 2, y + height / 2 + 3, { align: 'center' });
+  }
+
+  private drawText({ widget, content }: Extract<ResolvedReportWidget, { type: 'text' }>) {
+    if (widget.title) {
+      this.ensureSpace(TITLE_HEIGHT + TEXT_LINE_HEIGHT);
+      this.drawTitle(widget.title, MARGIN, this.y, this.contentWidth);
+      this.y += TITLE_HEIGHT;
+    }
+
+    this.setText(10, TEXT_COLOR);
+    content.forEach(paragraph => {
+      const lines: string[] = this.doc.splitTextToSize(pdfText(paragraph), this.contentWidth);
+      lines.forEach(line => {
+        this.ensureSpace(TEXT_LINE_HEIGHT);
+        this.doc.text(line, MARGIN, this.y + 10);
+        this.y += TEXT_LINE_HEIGHT;
+      });
+      this.y += TEXT_LINE_HEIGHT / 2;
+    });
+    this.y += GAP / 2;
+  }
+
+  private drawTiles(tiles: TileWidget[], perRow: number) {
+    const height = tiles.some(tile => tile.type === 'gauge') ? GAUGE_HEIGHT : TILE_HEIGHT;
+    this.ensureSpace(height);
+
+    const width = (this.contentWidth - GAP * (perRow - 1)) / perRow;
+    tiles.forEach((tile, index) => {
+      const x = MARGIN + index * (width + GAP);
+      this.doc.setDrawColor(GRID_COLOR);
+      this.doc.setLineWidth(0.75);
+      this.doc.rect(x, this.y, width, height, 'S');
+
+      this.setText(8, MUTED_COLOR);
+      this.doc.text(this.fit(pdfText(tile.widget.title), width - 16), x + 8, this.y + 14);
+
+      if (!tile.content) this.drawNoData(x, this.y, width, height);
+      else if (tile.type === 'kpi') this.drawKpi(tile.content, tile.widget.valueFormat, x, width);
+      else this.drawGauge(tile.content, tile.widget.valueFormat, x, width, height);
+    });
+    this.y += height + GAP;
+  }
+
+  private drawKpi(kpi: NonNullable<Extract<TileWidget, { type: 'kpi' }>['content']>, format: ReportValueFormat | undefined, x: number, width: number) {
+    const { doc } = this;
+    this.setText(16, TEXT_COLOR, true);
+    doc.text(this.fit(this.format(kpi.value, format), width - 16), x + 8, this.y + 36);
+
+    const details: Array<{ text: string; color: string }> = [];
+    if (typeof kpi.previous === 'number' && kpi.previous !== 0) {
+      const change = ((kpi.value - kpi.previous) / Math.abs(kpi.previous)) * 100;
+      details.push({
+        text: `${change >= 0 ? '+' : ''}${change.toFixed(1)}% vs previous`,
+        color: change >= 0 ? POSITIVE_COLOR : NEGATIVE_COLOR
+      });
+    }
+    if (typeof kpi.target === 'number' && kpi.target !== 0) {
+      details.push({
+        text: `Target ${this.format(kpi.target, format, true)} (${Math.round((kpi.value / kpi.target) * 100)}%)`,
+        color: MUTED_COLOR
+      });
+    }
+    details.forEach((detail, index) => {
+      this.setText(7.5, detail.color);
+      doc.text(this.fit(detail.text, width - 16), x + 8, this.y + 50 + index * 10);
+    });
+  }
+
+  private drawGauge(gauge: { value: number; min: number; max: number }, format: ReportValueFormat | undefined, x: number, width: number, height: number) {
+    const cx = x + width / 2;
+    const cy = this.y + height - 22;
+    const outer = Math.min(width / 2 - 16, height - 44);
+    const inner = outer * 0.65;
+    const ratio = Math.min(1, Math.max(0, (gauge.value - gauge.min) / (gauge.max - gauge.min)));
+
+    this.drawBand(cx, cy, inner, outer, Math.PI, 0, GRID_COLOR);
+    if (ratio > 0) this.drawBand(cx, cy, inner, outer, Math.PI, Math.PI * (1 - ratio), CHART_COLORS.PRIMARY);
+
+    this.setText(11, TEXT_COLOR, true);
+    this.doc.text(this.format(gauge.value, format), cx, cy - 2, { align: 'center' });
+    this.setText(7, MUTED_COLOR);
+    this.doc.text(this.format(gauge.min, format, true), cx - (inner + outer) / 2, cy + 10, { align: 'center' });
+    this.doc.text(this.format(gauge.max, format, true), cx + (inner + outer) / 2, cy + 10, { align: 'center' });
+  }
+
+  // Filled ring segment between two angles (radians, counter-clockwise from 3 o'clock, y up)
+  private drawBand(cx: number, cy: number, inner: number, outer: number, from: number, to: number, color: string) {
+    const steps = Math.max(2, Math.ceil(Math.abs(from - to) / (Math.PI / 60)));
+    const points: Array<[number, number]> = [];
+    for (let i = 0; i <= steps; i++) {
+      const angle = from + ((to - from) * i) / steps;
+      points.push([cx + outer * Math.cos(angle), cy - outer * Math.sin(angle)]);
+    }
+    for (let i = steps; i >= 0; i--) {
+      const angle = from + ((to - from) * i) / steps;
+      points.push([cx + inner * Math.cos(angle), cy - inner * Math.sin(angle)]);
+    }
+    this.fillPolygon(points, color);
+  }
+
+  private fillPolygon(points: Array<[number, number]>, color: string) {
+    const [start, ...rest] = points;
+    if (!start) return;
+    const deltas = rest.map((point, i) => {
+      const previous = points[i]!;
+      return [point[0] - previous[0], point[1] - previous[1]];
+    });
+    this.doc.setFillColor(color);
+    this.doc.lines(deltas, start[0], start[1], [1, 1], 'F', true);
+  }
+
+  private drawChart(entry: Extract<ResolvedReportWidget, { type: 'chart' }>) {
+    const height = Math.min(240, (this.bottom - MARGIN) * 0.42);
+    this.ensureSpace(TITLE_HEIGHT + height);
+    this.drawTitle(entry.widget.title, MARGIN, this.y, this.contentWidth);
+    this.y += TITLE_HEIGHT;
+
+    const { content, widget } = entry;
+    if (!content) {
+      this.doc.setDrawColor(GRID_COLOR);
+      this.doc.rect(MARGIN, this.y, this.contentWidth, 48, 'S');
+      this.drawNoData(MARGIN, this.y, this.contentWidth, 48);
+      this.y += 48 + GAP;
+      return;
+    }
+
+    if (widget.chart === 'pie' || widget.chart === 'doughnut') {
+      this.drawPie(content, widget.chart === 'doughnut', widget.valueFormat, height);
+    } else {
+      this.drawCartesian(content, widget.chart, Boolean(widget.stacked), widget.valueFormat, height);
+    }
+    this.y += height + GAP;
+  }
+
+  private drawLegend(entries: Array<{ label: string; color: string }>, x: number, y: number, maxWidth: number): number {
+    this.setText(8, TEXT_COLOR);
+    let cursorX = x;
+    let cursorY = y;
+    entries.forEach(({ label, color }) => {
+      const text = pdfText(label);
+      const itemWidth = 14 + this.doc.getTextWidth(text) + 12;
+      if (cursorX > x && cursorX + itemWidth > x + maxWidth) {
+        cursorX = x;
+        cursorY += 12;
+      }
+      this.doc.setFillColor(color);
+      this.doc.rect(cursorX, cursorY - 6, 8, 8, 'F');
+      this.doc.text(text, cursorX + 12, cursorY + 1);
+      cursorX += itemWidth;
+    });
+    return cursorY + 10 - y;
+  }
+
+  private drawCartesian(data: ReportSeriesData, kind: 'line' | 'area' | 'bar', stacked: boolean, format: ReportValueFormat | undefined, height: number) {
+    const { doc } = this;
+    const top = this.y;
+    const legendHeight = data.series.length > 1
+      ? this.drawLegend(data.series, MARGIN, top + 6, this.contentWidth)
+      : 0;
+
+    const stackBars = kind === 'bar' && stacked;
+    let min = 0;
+    let max = 0;
+    data.labels.forEach((_, i) => {
+      let positive = 0;
+      let negative = 0;
+      data.series.forEach(series => {
+        const value = series.values[i] ?? 0;
+        if (stackBars) {
+          if (value >= 0) positive += value;
+          else negative += value;
+        } else {
+          max = Math.max(max, value);
+          min = Math.min(min, value);
+        }
+      });
+      if (stackBars) {
+        max = Math.max(max, positive);
+        min = Math.min(min, negative);
+      }
+    });
+    const scale = niceScale(min, max);
+
+    this.setText(7, MUTED_COLOR);
+    const ticks: number[] = [];
+    for (let tick = scale.min; tick <= scale.max + scale.step / 2; tick += scale.step) ticks.push(tick);
+    const tickLabels = ticks.map(tick => this.format(tick, format, true));
+    const axisWidth = Math.max(...tickLabels.map(label => doc.getTextWidth(label))) + 6;
+
+    const plotX = MARGIN + axisWidth;
+    const plotY = top + legendHeight + 6;
+    const plotWidth = this.contentWidth - axisWidth;
+    const plotHeight = height - legendHeight - 22;
+    const toY = (value: number) => plotY + plotHeight - ((value - scale.min) / (scale.max - scale.min)) * plotHeight;
+
+    doc.setLineWidth(0.5);
+    ticks.forEach((tick, i) => {
+      const y = toY(tick);
+      doc.setDrawColor(tick === 0 ? MUTED_COLOR : GRID_COLOR);
+      doc.line(plotX, y, plotX + plotWidth, y);
+      doc.text(tickLabels[i]!, plotX - 4, y + 2.5, { align: 'right' });
+    });
+
+    const band = plotWidth / Math.max(1, data.labels.length);
+    const labelWidth = Math.max(...data.labels.map(label => doc.getTextWidth(pdfText(label)))) + 6;
+    const labelStep = Math.max(1, Math.ceil(labelWidth / band));
+    data.labels.forEach((label, i) => {
+      if (i % labelStep !== 0) return;
+      doc.text(this.fit(pdfText(label), band * labelStep - 2), plotX + band * (i + 0.5), plotY + plotHeight + 10, { align: 'center' });
+    });
+
+    const zeroY = toY(Math.max(scale.min, Math.min(0, scale.max)));
+    if (kind === 'bar') {
+      const groupWidth = band * 0.7;
+      const barWidth = stackBars ? groupWidth : groupWidth / data.series.length;
+      const positive = data.labels.map(() => 0);
+      const negative = data.labels.map(() => 0);
+      data.series.forEach((series, s) => {
+        doc.setFillColor(series.color);
+        series.values.forEach((value, i) => {
+          if (value === null || value === 0) return;
+          let from = 0;
+          if (stackBars) {
+            from = value >= 0 ? positive[i]! : negative[i]!;
+            if (value >= 0) positive[i]! += value;
+            else negative[i]! += value;
+          }
+          const x = plotX + band * i + (band - groupWidth) / 2 + (stackBars ? 0 : s * barWidth);
+          const y1 = toY(from);
+          const y2 = toY(from + value);
+          doc.rect(x, Math.min(y1, y2), barWidth, Math.abs(y2 - y1), 'F');
+        });
+      });
+      return;
+    }
+
+    const toX = (i: number) => plotX + band * (i + 0.5);
+    // Runs of consecutive values per series; nulls break the line
+    const runs = data.series.map(series => {
+      const seriesRuns: Array<Array<[number, number]>> = [[]];
+      series.values.forEach((value, i) => {
+        if (value === null) seriesRuns.push([]);
+        else seriesRuns[seriesRuns.length - 1]!.push([toX(i), toY(value)]);
+      });
+      return seriesRuns.filter(run => run.length > 0);
+    });
+
+    // Fills first so no area hides another series' line
+    if (kind === 'area') {
+      data.series.forEach((series, s) => runs[s]!.filter(run => run.length > 1).forEach(run => {
+        this.fillPolygon([...run, [run[run.length - 1]![0], zeroY], [run[0]![0], zeroY]], lightenColor(series.color, 0.75));
+      }));
+    }
+
+    data.series.forEach((series, s) => runs[s]!.forEach(run => {
+      doc.setDrawColor(series.color);
+      doc.setLineWidth(1.5);
+      for (let i = 1; i < run.length; i++) {
+        doc.line(run[i - 1]![0], run[i - 1]![1], run[i]![0], run[i]![1]);
+      }
+      if (run.length === 1) {
+        doc.setFillColor(series.color);
+        doc.circle(run[0]![0], run[0]![1], 1.5, 'F');
+      }
+    }));
+  }
+
+  private drawPie(data: ReportSeriesData, doughnut: boolean, format: ReportValueFormat | undefined, height: number) {
+    const { doc } = this;
+    const values = data.series[0]!.values.map(value => Math.max(0, value ?? 0));
+    const total = values.reduce((sum, value) => sum + value, 0);
+    if (total === 0) {
+      this.drawNoData(MARGIN, this.y, this.contentWidth, height);
+      return;
+    }
+
+    const radius = Math.min(height / 2 - 6, this.contentWidth / 4);
+    const cx = MARGIN + radius + 6;
+    const cy = this.y + height / 2;
+    let angle = Math.PI / 2;
+    values.forEach((value, i) => {
+      if (value === 0) return;
+      const sweep = (value / total) * Math.PI * 2;
+      const steps = Math.max(2, Math.ceil(sweep / (Math.PI / 60)));
+      const points: Array<[number, number]> = [[cx, cy]];
+      for (let step = 0; step <= steps; step++) {
+        const a = angle - (sweep * step) / steps;
+        points.push([cx + radius * Math.cos(a), cy - radius * Math.sin(a)]);
+      }
+      this.fillPolygon(points, data.sliceColors[i]!);
+      angle -= sweep;
+    });
+
+    if (doughnut) {
+      doc.setFillColor('#ffffff');
+      doc.circle(cx, cy, radius * 0.55, 'F');
+      this.setText(9, TEXT_COLOR, true);
+      doc.text(this.format(total, format, true), cx, cy + 3, { align: 'center' });
+    }
+
+    const legendX = cx + radius + 24;
+    const legendWidth = Math.min(MARGIN + this.contentWidth - legendX, 320);
+    const rowHeight = Math.min(14, (height - 8) / values.length);
+    this.setText(Math.min(9, rowHeight - 3), TEXT_COLOR);
+    data.labels.forEach((label, i) => {
+      const y = this.y + 8 + rowHeight * i;
+      const share = `${((values[i]! / total) * 100).toFixed(1)}%`;
+      const amount = this.format(values[i]!, format);
+      doc.setFillColor(data.sliceColors[i]!);
+      doc.rect(legendX, y, 8, 8, 'F');
+      doc.text(this.fit(pdfText(label), legendWidth * 0.5), legendX + 12, y + 7);
+      doc.text(amount, legendX + legendWidth * 0.8, y + 7, { align: 'right' });
+      doc.text(share, legendX + legendWidth, y + 7, { align: 'right' });
+    });
+  }
+
+  private formatCell(value: ReportTableRow[string], column: ReportTableColumn): string {
+    if (value === null || value === undefined || value === '') return '';
+    if (value instanceof Date) return value.toISOString().split('T')[0]!;
+    if (typeof value === 'number' && column.format !== 'text' && column.format !== 'date') {
+      return this.format(value, column.format);
+    }
+    if (column.format === 'date' && typeof value === 'string' && !isNaN(Date.parse(value))) {
+      return new Date(value).toISOString().split('T')[0]!;
+    }
+    return pdfText(value);
+  }
+
+  private drawTable(entry: Extract<ResolvedReportWidget, { type: 'table' }>) {
+    const { doc } = this;
+    const { widget, content } = entry;
+    this.ensureSpace(TITLE_HEIGHT + TABLE_ROW_HEIGHT * 3);
+    this.drawTitle(widget.title, MARGIN, this.y, this.contentWidth);
+    this.y += TITLE_HEIGHT;
+
+    if (!content) {
+      this.drawNoData(MARGIN, this.y, this.contentWidth, TABLE_ROW_HEIGHT * 2);
+      this.y += TABLE_ROW_HEIGHT * 2 + GAP;
+      return;
+    }
+
+    const { columns } = widget;
+    const cells = content.map(row => columns.map(column => this.formatCell(row[column.key], column)));
+    if (columns.some(column => column.total)) {
+      cells.push(columns.map((column, i) => {
+        if (!column.total) return i === 0 ? 'Total' : '';
+        const values = content.map(row => row[column.key]).filter((value): value is number => typeof value === 'number');
+        const sum = values.reduce((total, value) => total + value, 0);
+        return this.format(column.total === 'average' && values.length > 0 ? sum / values.length : sum, column.format as ReportValueFormat);
+      }));
+    }
+    const totalsIndex = columns.some(column => column.total) ? cells.length - 1 : -1;
+
+    this.setText(8, TEXT_COLOR);
+    const natural = columns.map((column, i) => Math.max(
+      doc.getTextWidth(pdfText(column.label)),
+      ...cells.slice(0, 50).map(row => doc.getTextWidth(row[i]!))
+    ) + 10);
+    const naturalTotal = natural.reduce((sum, width) => sum + width, 0);
+    const widths = natural.map(width => (width / naturalTotal) * this.contentWidth);
+    const numeric = columns.map(column => column.format !== 'text' && column.format !== 'date' &&
+      content.some(row => typeof row[column.key] === 'number'));
+
+    const drawRow = (values: string[], bold: boolean, fill?: string) => {
+      if (fill) {
+        doc.setFillColor(fill);
+        doc.rect(MARGIN, this.y, this.contentWidth, TABLE_ROW_HEIGHT, 'F');
+      }
+      this.setText(8, TEXT_COLOR, bold);
+      let x = MARGIN;
+      values.forEach((value, i) => {
+        const text = this.fit(value, widths[i]! - 8);
+        if (numeric[i]) doc.text(text, x + widths[i]! - 4, this.y + 11, { align: 'right' });
+        else doc.text(text, x + 4, this.y + 11);
+        x += widths[i]!;
+      });
+      doc.setDrawColor(GRID_COLOR);
+      doc.setLineWidth(0.5);
+      doc.line(MARGIN, this.y + TABLE_ROW_HEIGHT, MARGIN + this.contentWidth, this.y + TABLE_ROW_HEIGHT);
+      this.y += TABLE_ROW_HEIGHT;
+    };
+    const header = columns.map(column => pdfText(column.label));
+
+    drawRow(header, true, '#f5f5f5');
+    cells.forEach((row, index) => {
+      if (this.y + TABLE_ROW_HEIGHT > this.bottom) {
+        doc.addPage();
+        this.y = MARGIN;
+        this.drawTitle(`${widget.title} (continued)`, MARGIN, this.y, this.contentWidth);
+        this.y += TITLE_HEIGHT;
+        drawRow(header, true, '#f5f5f5');
+      }
+      drawRow(row, index === totalsIndex);
+    });
+    this.y += GAP;
+  }
+
+  private drawFooters() {
+    const { doc, report } = this;
+    const pages = doc.getNumberOfPages();
+    for (let page = 1; page <= pages; page++) {
+      doc.setPage(page);
+      this.setText(8, MUTED_COLOR);
+      if (report.header) doc.text(this.fit(pdfText(report.header), this.contentWidth), MARGIN, MARGIN - 14);
+      const y = this.height - MARGIN + 8;
+      doc.text(this.fit(pdfText(report.footer || report.title), this.contentWidth * 0.6), MARGIN, y);
+      doc.text(`Page ${page} of ${pages}`, this.width - MARGIN, y, { align: 'right' });
+    }
+  }
+}
+
+/**
+ * Render a resolved report as PDF bytes
+ */
+export const renderPdfReport = (report: ResolvedReport): Uint8Array => new PdfReportWriter(report).render();
@@ -0,0 +1,283 @@
+import { configService } from './configService';
+
+export interface PersistedCacheEntry<T = unknown> {
+  key: string;
+  data: T;
+  timestamp: number;
+  ttl: number;
+  size: number; // Approximate size in bytes
+  lastAccessed: number;
+  tags?: string[];
+}
+
+export interface CacheStorageBackend {
+  readonly name: string;
+  get(key: string): Promise<PersistedCacheEntry | undefined>;
+  getAll(): Promise<PersistedCacheEntry[]>;
+  put(entry: PersistedCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface PersistentCacheOptions {
+  maxBytes: number;
+  maxAge: number; // Entries older than timestamp + ttl + maxAge are dropped on load
+  backend?: CacheStorageBackend;
+}
+
+const DB_NAME = 'sap-dashboard-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+/**
+ * Approximate serialized size of a value (UTF-16)
+ */
+export const estimateSize = (data: unknown): number => {
+  try {
+    return (JSON.stringify(data)?.length || 0) * 2;
+  } catch {
+    return 0;
+  }
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * IndexedDB-backed storage, survives page reloads
+ */
+export class IndexedDBStorageBackend implements CacheStorageBackend {
+  readonly name = 'indexeddb';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async get(key: string): Promise<PersistedCacheEntry | undefined> {
+    return promisifyRequest((await this.store('readonly')).get(key));
+  }
+
+  async getAll(): Promise<PersistedCacheEntry[]> {
+    return promisifyRequest((await this.store('readonly')).getAll());
+  }
+
+  async put(entry: PersistedCacheEntry): Promise<void> {
+    await promisifyRequest((await this.store('readwrite')).put(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    await promisifyRequest((await this.store('readwrite')).delete(key));
+  }
+
+  async clear(): Promise<void> {
+    await promisifyRequest((await this.store('readwrite')).clear());
+  }
+}
+
+/**
+ * In-memory storage used when IndexedDB is unavailable (tests, private browsing)
+ */
+export class MemoryStorageBackend implements CacheStorageBackend {
+  readonly name = 'memory';
+  private entries = new Map<string, PersistedCacheEntry>();
+
+  async get(key: string): Promise<PersistedCacheEntry | undefined> {
+    return this.entries.get(key);
+  }
+
+  async getAll(): Promise<PersistedCacheEntry[]> {
+    return Array.from(this.entries.values());
+  }
+
+  async put(entry: PersistedCacheEntry): Promise<void> {
+    this.entries.set(entry.key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Persistent cache tier with per-entry TTL and a byte-size budget.
+ * Keeps a synchronous index of entry sizes so accounting and eviction
+ * never need to scan the backend.
+ */
+export class PersistentCacheStore {
+  private index = new Map<string, { size: number; lastAccessed: number; tags: string[] }>();
+  private backend: CacheStorageBackend;
+
+  constructor(private options: PersistentCacheOptions) {
+    this.backend = options.backend || (typeof indexedDB !== 'undefined'
+      ? new IndexedDBStorageBackend()
+      : new MemoryStorageBackend());
+  }
+
+  get backendName(): string {
+    return this.backend.name;
+  }
+
+  /**
+   * Load persisted entries, dropping the ones that are too old to be useful
+   */
+  async load(): Promise<PersistedCacheEntry[]> {
+    const now = Date.now();
+    const loaded: PersistedCacheEntry[] = [];
+
+    try {
+      const all = await this.backend.getAll();
+
+      for (const entry of all) {
+        if (now - entry.timestamp >= entry.ttl + this.options.maxAge) {
+          await this.backend.delete(entry.key);
+          continue;
+        }
+        this.track(entry);
+        loaded.push(entry);
+      }
+
+      await this.enforceBudget();
+    } catch (error) {
+      configService.log('warn', `Failed to load persistent cache (${this.backend.name}):`, error);
+    }
+
+    return loaded.filter(entry => this.index.has(entry.key));
+  }
+
+  async get<T>(key: string): Promise<PersistedCacheEntry<T> | null> {
+    if (!this.index.has(key)) return null;
+
+    try {
+      const entry = await this.backend.get(key);
+      if (!entry) {
+        this.untrack(key);
+        return null;
+      }
+
+      const now = Date.now();
+      if (now - entry.timestamp >= entry.ttl + this.options.maxAge) {
+        await this.delete(key);
+        return null;
+      }
+
+      this.index.set(key, { size: entry.size, lastAccessed: now, tags: entry.tags || [] });
+      return entry as PersistedCacheEntry<T>;
+    } catch (error) {
+      configService.log('warn', `Failed to read persisted cache entry: ${key}`, error);
+      return null;
+    }
+  }
+
+  async set<T>(key: string, data: T, timestamp: number, ttl: number, tags: string[] = []): Promise<void> {
+    const size = estimateSize(data);
+    if (size > this.options.maxBytes) {
+      configService.log('debug', `Skipping persistence for oversized cache entry: ${key} (${size} bytes)`);
+      return;
+    }
+
+    const entry: PersistedCacheEntry<T> = { key, data, timestamp, ttl, size, lastAccessed: Date.now(), tags };
+    this.track(entry);
+
+    try {
+      await this.backend.put(entry);
+      await this.enforceBudget();
+    } catch (error) {
+      configService.log('warn', `Failed to persist cache entry: ${key}`, error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.untrack(key);
+    try {
+      await this.backend.delete(key);
+    } catch (error) {
+      configService.log('warn', `Failed to delete persisted cache entry: ${key}`, error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.index.clear();
+    try {
+      await this.backend.clear();
+    } catch (error) {
+      configService.log('warn', 'Failed to clear persistent cache:', error);
+    }
+  }
+
+  keys(): string[] {
+    return Array.from(this.index.keys());
+  }
+
+  /**
+   * Find stored keys by key and tags without touching the backend
+   */
+  findKeys(predicate: (key: string, tags: string[]) => boolean): string[] {
+    return Array.from(this.index.entries())
+      .filter(([key, { tags }]) => predicate(key, tags))
+      .map(([key]) => key);
+  }
+
+  getUsage(): { entries: number; bytes: number; maxBytes: number } {
+    let bytes = 0;
+    this.index.forEach(({ size }) => {
+      bytes += size;
+    });
+    return { entries: this.index.size, bytes, maxBytes: this.options.maxBytes };
+  }
+
+  updateOptions(options: Partial<Omit<PersistentCacheOptions, 'backend'>>): Promise<void> {
+    this.options = { ...this.options, ...options };
+    return this.enforceBudget();
+  }
+
+  private track(entry: PersistedCacheEntry): void {
+    this.index.set(entry.key, { size: entry.size, lastAccessed: entry.lastAccessed, tags: entry.tags || [] });
+  }
+
+  private untrack(key: string): void {
+    this.index.delete(key);
+  }
+
+  /**
+   * Evict least recently accessed entries until the byte budget is met
+   */
+  private async enforceBudget(): Promise<void> {
+    let { bytes } = this.getUsage();
+    if (bytes <= this.options.maxBytes) return;
+
+    const byAccess = Array.from(this.index.entries())
+      .sort(([, a], [, b]) => a.lastAccessed - b.lastAccessed);
+
+    for (const [key, { size }] of byAccess) {
+      if (bytes <= this.options.maxBytes) break;
+      bytes -= size;
+      await this.delete(key);
+      configService.log('debug', `Evicted persisted cache entry: ${key}`);
+    }
+  }
+}
@@ -0,0 +1,527 @@
+import { CHART_COLORS } from '../constants';
+import {
+  NO_DATA_LABEL,
+  ReportSeriesData,
+  ReportTableRow,
+  ReportValueFormat,
+  ResolvedReport,
+  ResolvedReportWidget,
+  formatReportValue
+} from './reportDefinition';
+import { getExcelNumberFormat, toCellNumber } from './excelReport';
+import { escapeXml } from './xlsxWriter';
+import { ZipEntry, createZip } from './zip';
+
+/**
+ * PowerPoint renderer for resolved reports: a title slide, then one slide per
+ * widget. Charts are native, editable PowerPoint charts with literal data.
+ */
+
+export const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+const MAX_TABLE_ROWS = 15;
+
+// Slide geometry in EMU, 16:9
+const SLIDE_WIDTH = 12192000;
+const SLIDE_HEIGHT = 6858000;
+const MARGIN = 457200;
+const CONTENT_TOP = 1143000;
+const CONTENT_WIDTH = SLIDE_WIDTH - MARGIN * 2;
+const CONTENT_HEIGHT = SLIDE_HEIGHT - CONTENT_TOP - 685800;
+
+const TEXT_COLOR = '212121';
+const MUTED_COLOR = '757575';
+
+const NS_A = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_P = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const NS_C = 'http://schemas.openxmlformats.org/drawingml/2006/chart';
+const NS_REL = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const PRESENTATION_NS = `xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"`;
+
+const CONTENT_TYPES = {
+  presentation: 'application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml',
+  slide: 'application/vnd.openxmlformats-officedocument.presentationml.slide+xml',
+  slideMaster: 'application/vnd.openxmlformats-officedocument.presentationml.slideMaster+xml',
+  slideLayout: 'application/vnd.openxmlformats-officedocument.presentationml.slideLayout+xml',
+  theme: 'application/vnd.openxmlformats-officedocument.theme+xml',
+  chart: 'application/vnd.openxmlformats-officedocument.drawingml.chart+xml',
+  presProps: 'application/vnd.openxmlformats-officedocument.presentationml.presProps+xml',
+  viewProps: 'application/vnd.openxmlformats-officedocument.presentationml.viewProps+xml',
+  tableStyles: 'application/vnd.openxmlformats-officedocument.presentationml.tableStyles+xml',
+  core: 'application/vnd.openxmlformats-package.core-properties+xml',
+  app: 'application/vnd.openxmlformats-officedocument.extended-properties+xml'
+};
+
+const REL_TYPES = {
+  officeDocument: `${NS_R}/officeDocument`,
+  slide: `${NS_R}/slide`,
+  slideMaster: `${NS_R}/slideMaster`,
+  slideLayout: `${NS_R}/slideLayout`,
+  theme: `${NS_R}/theme`,
+  chart: `${NS_R}/chart`,
+  presProps: `${NS_R}/presProps`,
+  viewProps: `${NS_R}/viewProps`,
+  tableStyles: `${NS_R}/tableStyles`,
+  core: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+  app: `${NS_R}/extended-properties`
+};
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface TextRun {
+  text: string;
+  size: number; // Points
+  bold?: boolean;
+  color?: string;
+}
+
+interface Slide {
+  shapes: string[];
+  chart?: string; // Chart part XML, related as rId2
+}
+
+const hex = (color: string): string => color.replace('#', '').toUpperCase();
+
+const relationships = (entries: Array<{ id: string; type: string; target: string }>): string =>
+  `${XML_HEADER}<Relationships xmlns="${NS_REL}">` +
+  entries.map(({ id, type, target }) => `<Relationship Id="${id}" Type="${type}" Target="${target}"/>`).join('') +
+  '</Relationships>';
+
+const xfrm = ({ x, y, width, height }: Box, tag = 'a:xfrm'): string =>
+  `<${tag}><a:off x="${Math.round(x)}" y="${Math.round(y)}"/><a:ext cx="${Math.round(width)}" cy="${Math.round(height)}"/></${tag}>`;
+
+const run = ({ text, size, bold, color = TEXT_COLOR }: TextRun): string =>
+  `<a:r><a:rPr lang="en-US" sz="${Math.round(size * 100)}"${bold ? ' b="1"' : ''} dirty="0">` +
+  `<a:solidFill><a:srgbClr val="${hex(color)}"/></a:solidFill></a:rPr><a:t>${escapeXml(text)}</a:t></a:r>`;
+
+const textBox = (id: number, name: string, box: Box, paragraphs: TextRun[], align: 'l' | 'ctr' | 'r' = 'l'): string =>
+  `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${escapeXml(name)}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>` +
+  `<p:spPr>${xfrm(box)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/></p:spPr>` +
+  '<p:txBody><a:bodyPr wrap="square" rtlCol="0"><a:normAutofit/></a:bodyPr><a:lstStyle/>' +
+  paragraphs.map(paragraph => `<a:p><a:pPr algn="${align}"/>${run(paragraph)}</a:p>`).join('') +
+  '</p:txBody></p:sp>';
+
+const slideTitle = (title: string): string =>
+  textBox(2, 'Title', { x: MARGIN, y: 304800, width: CONTENT_WIDTH, height: 685800 }, [{ text: title, size: 28, bold: true }]);
+
+const noData = (): string =>
+  textBox(3, 'No data', { x: MARGIN, y: CONTENT_TOP, width: CONTENT_WIDTH, height: CONTENT_HEIGHT }, [{ text: NO_DATA_LABEL, size: 18, color: MUTED_COLOR }], 'ctr');
+
+const chartFrame = (box: Box): string =>
+  '<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="3" name="Chart"/><p:cNvGraphicFramePr/><p:nvPr/></p:nvGraphicFramePr>' +
+  `${xfrm(box, 'p:xfrm')}<a:graphic><a:graphicData uri="${NS_C}"><c:chart xmlns:c="${NS_C}" r:id="rId2"/></a:graphicData></a:graphic>` +
+  '</p:graphicFrame>';
+
+const solidFill = (color: string): string => `<a:solidFill><a:srgbClr val="${hex(color)}"/></a:solidFill>`;
+
+const strLiteral = (values: string[]): string =>
+  `<c:strLit><c:ptCount val="${values.length}"/>` +
+  values.map((value, i) => `<c:pt idx="${i}"><c:v>${escapeXml(value)}</c:v></c:pt>`).join('') +
+  '</c:strLit>';
+
+const numLiteral = (values: Array<number | null>, formatCode: string): string =>
+  `<c:numLit><c:formatCode>${escapeXml(formatCode)}</c:formatCode><c:ptCount val="${values.length}"/>` +
+  values.map((value, i) => (value === null ? '' : `<c:pt idx="${i}"><c:v>${value}</c:v></c:pt>`)).join('') +
+  '</c:numLit>';
+
+const chartSpace = (plot: string, legend: boolean): string =>
+  `${XML_HEADER}<c:chartSpace xmlns:c="${NS_C}" xmlns:a="${NS_A}" xmlns:r="${NS_R}"><c:roundedCorners val="0"/>` +
+  `<c:chart><c:autoTitleDeleted val="1"/><c:plotArea><c:layout/>${plot}</c:plotArea>` +
+  (legend ? '<c:legend><c:legendPos val="b"/><c:overlay val="0"/></c:legend>' : '') +
+  '<c:plotVisOnly val="1"/><c:dispBlanksAs val="gap"/></c:chart></c:chartSpace>';
+
+const axes = (formatCode: string): string =>
+  '<c:catAx><c:axId val="1"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/><c:axPos val="b"/>' +
+  '<c:numFmt formatCode="General" sourceLinked="0"/><c:majorTickMark val="none"/><c:minorTickMark val="none"/><c:tickLblPos val="low"/>' +
+  '<c:crossAx val="2"/><c:crosses val="autoZero"/><c:auto val="1"/><c:lblAlgn val="ctr"/><c:lblOffset val="100"/><c:noMultiLvlLbl val="0"/></c:catAx>' +
+  '<c:valAx><c:axId val="2"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/><c:axPos val="l"/>' +
+  `<c:majorGridlines><c:spPr><a:ln w="6350">${solidFill('#e0e0e0')}</a:ln></c:spPr></c:majorGridlines>` +
+  `<c:numFmt formatCode="${escapeXml(formatCode)}" sourceLinked="0"/><c:majorTickMark val="none"/><c:minorTickMark val="none"/>` +
+  '<c:tickLblPos val="nextTo"/><c:crossAx val="1"/><c:crosses val="autoZero"/><c:crossBetween val="between"/></c:valAx>';
+
+/**
+ * DrawingML chart part for a chart widget
+ */
+const buildChart = (
+  data: ReportSeriesData,
+  kind: 'line' | 'area' | 'bar' | 'pie' | 'doughnut',
+  stacked: boolean,
+  valueFormat: ReportValueFormat | undefined,
+  report: ResolvedReport
+): string => {
+  const formatCode = getExcelNumberFormat(valueFormat, report.currency, report.locale);
+  const values = (series: ReportSeriesData['series'][number]) =>
+    numLiteral(series.values.map(value => (value === null ? null : toCellNumber(value, valueFormat))), formatCode);
+  const categories = `<c:cat>${strLiteral(data.labels)}</c:cat>`;
+
+  if (kind === 'pie' || kind === 'doughnut') {
+    const [series] = data.series;
+    const points = data.labels.map((_, i) =>
+      `<c:dPt><c:idx val="${i}"/><c:bubble3D val="0"/><c:spPr>${solidFill(data.sliceColors[i]!)}</c:spPr></c:dPt>`).join('');
+    const ser = `<c:ser><c:idx val="0"/><c:order val="0"/><c:tx><c:v>${escapeXml(series!.label)}</c:v></c:tx>${points}` +
+      `<c:dLbls><c:numFmt formatCode="0.0%" sourceLinked="0"/><c:spPr><a:noFill/><a:ln><a:noFill/></a:ln></c:spPr>` +
+      '<c:showLegendKey val="0"/><c:showVal val="0"/><c:showCatName val="0"/><c:showSerName val="0"/><c:showPercent val="1"/><c:showBubbleSize val="0"/></c:dLbls>' +
+      `${categories}<c:val>${values(series!)}</c:val></c:ser>`;
+    return chartSpace(kind === 'pie'
+      ? `<c:pieChart><c:varyColors val="1"/>${ser}<c:firstSliceAng val="0"/></c:pieChart>`
+      : `<c:doughnutChart><c:varyColors val="1"/>${ser}<c:firstSliceAng val="0"/><c:holeSize val="55"/></c:doughnutChart>`, true);
+  }
+
+  const legend = data.series.length > 1;
+  const series = data.series.map((entry, i) => {
+    const head = `<c:idx val="${i}"/><c:order val="${i}"/><c:tx><c:v>${escapeXml(entry.label)}</c:v></c:tx>`;
+    const tail = `${categories}<c:val>${values(entry)}</c:val>`;
+    switch (kind) {
+      case 'bar':
+        return `<c:ser>${head}<c:spPr>${solidFill(entry.color)}</c:spPr><c:invertIfNegative val="0"/>${tail}</c:ser>`;
+      case 'area':
+        return `<c:ser>${head}<c:spPr>${solidFill(entry.color)}<a:ln w="19050">${solidFill(entry.color)}</a:ln></c:spPr>${tail}</c:ser>`;
+      default:
+        return `<c:ser>${head}<c:spPr><a:ln w="28575" cap="rnd">${solidFill(entry.color)}<a:round/></a:ln></c:spPr>` +
+          `<c:marker><c:symbol val="none"/></c:marker>${tail}<c:smooth val="0"/></c:ser>`;
+    }
+  }).join('');
+
+  switch (kind) {
+    case 'bar':
+      return chartSpace(
+        `<c:barChart><c:barDir val="col"/><c:grouping val="${stacked ? 'stacked' : 'clustered'}"/><c:varyColors val="0"/>${series}` +
+        `<c:gapWidth val="80"/>${stacked ? '<c:overlap val="100"/>' : ''}<c:axId val="1"/><c:axId val="2"/></c:barChart>${axes(formatCode)}`,
+        legend
+      );
+    case 'area':
+      return chartSpace(
+        `<c:areaChart><c:grouping val="${stacked ? 'stacked' : 'standard'}"/><c:varyColors val="0"/>${series}` +
+        `<c:axId val="1"/><c:axId val="2"/></c:areaChart>${axes(formatCode)}`,
+        legend
+      );
+    default:
+      return chartSpace(
+        `<c:lineChart><c:grouping val="standard"/><c:varyColors val="0"/>${series}<c:marker val="1"/>` +
+        `<c:axId val="1"/><c:axId val="2"/></c:lineChart>${axes(formatCode)}`,
+        legend
+      );
+  }
+};
+
+const tableCell = (text: string, header: boolean, align: 'l' | 'r'): string =>
+  `<a:tc><a:txBody><a:bodyPr/><a:lstStyle/><a:p><a:pPr algn="${align}"/>${run({ text, size: 11, bold: header })}</a:p></a:txBody>` +
+  `<a:tcPr marL="76200" marR="76200" marT="38100" marB="38100">${header ? solidFill('#f5f5f5') : '<a:noFill/>'}</a:tcPr></a:tc>`;
+
+const buildTableSlide = (entry: Extract<ResolvedReportWidget, { type: 'table' }>, report: ResolvedReport): Slide => {
+  const { widget, content } = entry;
+  if (!content) return { shapes: [slideTitle(widget.title), noData()] };
+
+  const format = (value: ReportTableRow[string], columnFormat: string | undefined): string => {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString().split('T')[0]!;
+    if (typeof value === 'number' && columnFormat !== 'text' && columnFormat !== 'date') {
+      return formatReportValue(value, columnFormat as ReportValueFormat, report);
+    }
+    if (columnFormat === 'date' && typeof value === 'string' && !isNaN(Date.parse(value))) {
+      return new Date(value).toISOString().split('T')[0]!;
+    }
+    return String(value);
+  };
+
+  const rows = content.slice(0, MAX_TABLE_ROWS);
+  const rowHeight = 320040;
+  const columnWidth = Math.floor(CONTENT_WIDTH / widget.columns.length);
+  const numeric = widget.columns.map(column => column.format !== 'text' && column.format !== 'date' &&
+    content.some(row => typeof row[column.key] === 'number'));
+
+  const tableRows = [
+    `<a:tr h="${rowHeight}">${widget.columns.map((column, i) => tableCell(column.label, true, numeric[i] ? 'r' : 'l')).join('')}</a:tr>`,
+    ...rows.map(row =>
+      `<a:tr h="${rowHeight}">${widget.columns.map((column, i) => tableCell(format(row[column.key], column.format), false, numeric[i] ? 'r' : 'l')).join('')}</a:tr>`)
+  ];
+
+  const table =
+    '<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="3" name="Table"/><p:cNvGraphicFramePr><a:graphicFrameLocks noGrp="1"/></p:cNvGraphicFramePr><p:nvPr/></p:nvGraphicFramePr>' +
+    xfrm({ x: MARGIN, y: CONTENT_TOP, width: columnWidth * widget.columns.length, height: rowHeight * tableRows.length }, 'p:xfrm') +
+    '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table"><a:tbl><a:tblPr firstRow="1" bandRow="1"/>' +
+    `<a:tblGrid>${widget.columns.map(() => `<a:gridCol w="${columnWidth}"/>`).join('')}</a:tblGrid>${tableRows.join('')}</a:tbl>` +
+    '</a:graphicData></a:graphic></p:graphicFrame>';
+
+  const shapes = [slideTitle(widget.title), table];
+  if (content.length > rows.length) {
+    shapes.push(textBox(4, 'Note', { x: MARGIN, y: SLIDE_HEIGHT - 685800, width: CONTENT_WIDTH, height: 320040 }, [
+      { text: `Showing ${rows.length} of ${content.length} rows`, size: 11, color: MUTED_COLOR }
+    ]));
+  }
+  return { shapes };
+};
+
+const buildKpiSlide = (entry: Extract<ResolvedReportWidget, { type: 'kpi' }>, report: ResolvedReport): Slide => {
+  const { widget, content } = entry;
+  if (!content) return { shapes: [slideTitle(widget.title), noData()] };
+
+  const lines: TextRun[] = [{ text: formatReportValue(content.value, widget.valueFormat, report), size: 60, bold: true }];
+  if (typeof content.previous === 'number' && content.previous !== 0) {
+    const change = ((content.value - content.previous) / Math.abs(content.previous)) * 100;
+    lines.push({
+      text: `${change >= 0 ? '+' : ''}${change.toFixed(1)}% vs previous (${formatReportValue(content.previous, widget.valueFormat, report)})`,
+      size: 20,
+      color: change >= 0 ? CHART_COLORS.SUCCESS : CHART_COLORS.ERROR
+    });
+  }
+  if (typeof content.target === 'number' && content.target !== 0) {
+    lines.push({
+      text: `Target ${formatReportValue(content.target, widget.valueFormat, report)} (${Math.round((content.value / content.target) * 100)}% attained)`,
+      size: 20,
+      color: MUTED_COLOR
+    });
+  }
+  return {
+    shapes: [
+      slideTitle(widget.title),
+      textBox(3, 'Value', { x: MARGIN, y: CONTENT_TOP + 914400, width: CONTENT_WIDTH, height: 2743200 }, lines, 'ctr')
+    ]
+  };
+};
+
+const buildGaugeSlide = (entry: Extract<ResolvedReportWidget, { type: 'gauge' }>, report: ResolvedReport): Slide => {
+  const { widget, content } = entry;
+  if (!content) return { shapes: [slideTitle(widget.title), noData()] };
+
+  const position = Math.min(content.max, Math.max(content.min, content.value)) - content.min;
+  const remainder = content.max - content.min - position;
+  const chart = `${XML_HEADER}<c:chartSpace xmlns:c="${NS_C}" xmlns:a="${NS_A}" xmlns:r="${NS_R}"><c:roundedCorners val="0"/>` +
+    '<c:chart><c:autoTitleDeleted val="1"/><c:plotArea><c:layout/><c:doughnutChart><c:varyColors val="1"/>' +
+    `<c:ser><c:idx val="0"/><c:order val="0"/><c:tx><c:v>${escapeXml(widget.title)}</c:v></c:tx>` +
+    `<c:dPt><c:idx val="0"/><c:bubble3D val="0"/><c:spPr>${solidFill(CHART_COLORS.PRIMARY)}</c:spPr></c:dPt>` +
+    `<c:dPt><c:idx val="1"/><c:bubble3D val="0"/><c:spPr>${solidFill('#e0e0e0')}</c:spPr></c:dPt>` +
+    `<c:cat>${strLiteral(['Value', 'Remaining'])}</c:cat><c:val>${numLiteral([position, remainder], 'General')}</c:val></c:ser>` +
+    '<c:firstSliceAng val="0"/><c:holeSize val="65"/></c:doughnutChart></c:plotArea><c:plotVisOnly val="1"/></c:chart></c:chartSpace>';
+
+  const size = 3657600;
+  return {
+    chart,
+    shapes: [
+      slideTitle(widget.title),
+      chartFrame({ x: (SLIDE_WIDTH - size) / 2, y: CONTENT_TOP, width: size, height: size }),
+      textBox(4, 'Value', { x: MARGIN, y: CONTENT_TOP + size + 91440, width: CONTENT_WIDTH, height: 914400 }, [
+        { text: formatReportValue(content.value, widget.valueFormat, report), size: 32, bold: true },
+        {
+          text: `Range ${formatReportValue(content.min, widget.valueFormat, report)} to ${formatReportValue(content.max, widget.valueFormat, report)}`,
+          size: 14,
+          color: MUTED_COLOR
+        }
+      ], 'ctr')
+    ]
+  };
+};
+
+const buildWidgetSlide = (entry: ResolvedReportWidget, report: ResolvedReport): Slide => {
+  switch (entry.type) {
+    case 'chart':
+      return entry.content
+        ? {
+          chart: buildChart(entry.content, entry.widget.chart, Boolean(entry.widget.stacked), entry.widget.valueFormat, report),
+          shapes: [slideTitle(entry.widget.title), chartFrame({ x: MARGIN, y: CONTENT_TOP, width: CONTENT_WIDTH, height: CONTENT_HEIGHT })]
+        }
+        : { shapes: [slideTitle(entry.widget.title), noData()] };
+    case 'kpi':
+      return buildKpiSlide(entry, report);
+    case 'gauge':
+      return buildGaugeSlide(entry, report);
+    case 'table':
+      return buildTableSlide(entry, report);
+    case 'text': {
+      // A title without text is a section divider
+      const shapes = entry.widget.title ? [slideTitle(entry.widget.title)] : [];
+      if (entry.content.length > 0) {
+        shapes.push(textBox(3, 'Text', { x: MARGIN, y: CONTENT_TOP, width: CONTENT_WIDTH, height: CONTENT_HEIGHT },
+          entry.content.map(paragraph => ({ text: paragraph, size: 18 }))));
+      }
+      return { shapes };
+    }
+    case 'pageBreak':
+      return { shapes: [] }; // Skipped by renderPptxReport; every widget is already its own slide
+  }
+};
+
+const buildTitleSlide = (report: ResolvedReport): Slide => {
+  const details: TextRun[] = [
+    { text: `Generated ${report.generatedAt.toISOString().slice(0, 16).replace('T', ' ')} UTC`, size: 14, color: MUTED_COLOR },
+    ...report.filterSummary.map(({ label, value }) => ({ text: `${label}: ${value}`, size: 14, color: MUTED_COLOR }))
+  ];
+  return {
+    shapes: [
+      textBox(2, 'Title', { x: MARGIN, y: 2057400, width: CONTENT_WIDTH, height: 1143000 }, [
+        { text: report.title, size: 40, bold: true },
+        ...(report.subtitle ? [{ text: report.subtitle, size: 20, color: MUTED_COLOR }] : [])
+      ]),
+      textBox(3, 'Details', { x: MARGIN, y: 3429000, width: CONTENT_WIDTH, height: 2286000 }, details)
+    ]
+  };
+};
+
+const renderSlide = (slide: Slide, number: number, total: number, report: ResolvedReport): string =>
+  `${XML_HEADER}<p:sld ${PRESENTATION_NS}><p:cSld><p:spTree>` +
+  '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>' +
+  slide.shapes.join('') +
+  (report.header
+    ? textBox(11, 'Header', { x: MARGIN, y: 76200, width: CONTENT_WIDTH, height: 228600 }, [{ text: report.header, size: 10, color: MUTED_COLOR }])
+    : '') +
+  (report.footer
+    ? textBox(12, 'Footer', { x: MARGIN, y: SLIDE_HEIGHT - 457200, width: CONTENT_WIDTH - 1828800, height: 320040 }, [{ text: report.footer, size: 10, color: MUTED_COLOR }])
+    : '') +
+  textBox(10, 'Slide Number', { x: SLIDE_WIDTH - MARGIN - 1828800, y: SLIDE_HEIGHT - 457200, width: 1828800, height: 320040 }, [
+    { text: `${number} / ${total}`, size: 10, color: MUTED_COLOR }
+  ], 'r') +
+  '</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>';
+
+const EMPTY_TREE = '<p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr></p:spTree>';
+
+const THEME_COLORS: Array<[string, string]> = [
+  ['dk1', '<a:sysClr val="windowText" lastClr="000000"/>'],
+  ['lt1', '<a:sysClr val="window" lastClr="FFFFFF"/>'],
+  ['dk2', '<a:srgbClr val="212121"/>'],
+  ['lt2', '<a:srgbClr val="F5F5F5"/>'],
+  ...CHART_COLORS.PALETTE.slice(0, 6).map((color, i): [string, string] => [`accent${i + 1}`, `<a:srgbClr val="${hex(color)}"/>`]),
+  ['hlink', '<a:srgbClr val="1976D2"/>'],
+  ['folHlink', '<a:srgbClr val="7B1FA2"/>']
+];
+
+const theme = (): string => {
+  const fill = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>';
+  const line = (width: number) => `<a:ln w="${width}"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>`;
+  return `${XML_HEADER}<a:theme xmlns:a="${NS_A}" name="Dashboard"><a:themeElements>` +
+    `<a:clrScheme name="Dashboard">${THEME_COLORS.map(([name, color]) => `<a:${name}>${color}</a:${name}>`).join('')}</a:clrScheme>` +
+    '<a:fontScheme name="Dashboard"><a:majorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont>' +
+    '<a:minorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont></a:fontScheme>' +
+    `<a:fmtScheme name="Dashboard"><a:fillStyleLst>${fill}${fill}${fill}</a:fillStyleLst>` +
+    `<a:lnStyleLst>${line(6350)}${line(12700)}${line(19050)}</a:lnStyleLst>` +
+    '<a:effectStyleLst><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle></a:effectStyleLst>' +
+    `<a:bgFillStyleLst>${fill}${fill}${fill}</a:bgFillStyleLst></a:fmtScheme>` +
+    '</a:themeElements><a:objectDefaults/><a:extraClrSchemeLst/></a:theme>';
+};
+
+/**
+ * Render a resolved report as a .pptx deck
+ */
+export const renderPptxReport = (report: ResolvedReport): Uint8Array => {
+  const slides = [
+    buildTitleSlide(report),
+    ...report.widgets.filter(entry => entry.type !== 'pageBreak').map(entry => buildWidgetSlide(entry, report))
+  ];
+  const charts: string[] = [];
+  const entries: ZipEntry[] = [];
+
+  slides.forEach((slide, i) => {
+    const rels = [{ id: 'rId1', type: REL_TYPES.slideLayout, target: '../slideLayouts/slideLayout1.xml' }];
+    if (slide.chart) {
+      charts.push(slide.chart);
+      rels.push({ id: 'rId2', type: REL_TYPES.chart, target: `../charts/chart${charts.length}.xml` });
+      entries.push({ name: `ppt/charts/chart${charts.length}.xml`, data: slide.chart });
+    }
+    entries.push(
+      { name: `ppt/slides/slide${i + 1}.xml`, data: renderSlide(slide, i + 1, slides.length, report) },
+      { name: `ppt/slides/_rels/slide${i + 1}.xml.rels`, data: relationships(rels) }
+    );
+  });
+
+  const created = report.generatedAt.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const slideRelId = (i: number) => `rId${i + 3}`;
+  const extraRelId = (offset: number) => `rId${slides.length + 3 + offset}`;
+  const colorMap = 'bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" ' +
+    'accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"';
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        `<Override PartName="/ppt/presentation.xml" ContentType="${CONTENT_TYPES.presentation}"/>` +
+        `<Override PartName="/ppt/slideMasters/slideMaster1.xml" ContentType="${CONTENT_TYPES.slideMaster}"/>` +
+        `<Override PartName="/ppt/slideLayouts/slideLayout1.xml" ContentType="${CONTENT_TYPES.slideLayout}"/>` +
+        `<Override PartName="/ppt/theme/theme1.xml" ContentType="${CONTENT_TYPES.theme}"/>` +
+        `<Override PartName="/ppt/presProps.xml" ContentType="${CONTENT_TYPES.presProps}"/>` +
+        `<Override PartName="/ppt/viewProps.xml" ContentType="${CONTENT_TYPES.viewProps}"/>` +
+        `<Override PartName="/ppt/tableStyles.xml" ContentType="${CONTENT_TYPES.tableStyles}"/>` +
+        slides.map((_, i) => `<Override PartName="/ppt/slides/slide${i + 1}.xml" ContentType="${CONTENT_TYPES.slide}"/>`).join('') +
+        charts.map((_, i) => `<Override PartName="/ppt/charts/chart${i + 1}.xml" ContentType="${CONTENT_TYPES.chart}"/>`).join('') +
+        `<Override PartName="/docProps/core.xml" ContentType="${CONTENT_TYPES.core}"/>` +
+        `<Override PartName="/docProps/app.xml" ContentType="${CONTENT_TYPES.app}"/>` +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      data: relationships([
+        { id: 'rId1', type: REL_TYPES.officeDocument, target: 'ppt/presentation.xml' },
+        { id: 'rId2', type: REL_TYPES.core, target: 'docProps/core.xml' },
+        { id: 'rId3', type: REL_TYPES.app, target: 'docProps/app.xml' }
+      ])
+    },
+    {
+      name: 'docProps/core.xml',
+      data: `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+        'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+        'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+        `<dc:title>${escapeXml(report.title)}</dc:title><dc:creator>Dashboard</dc:creator>` +
+        `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created></cp:coreProperties>`
+    },
+    {
+      name: 'docProps/app.xml',
+      data: `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">` +
+        `<Application>Dashboard</Application><Slides>${slides.length}</Slides></Properties>`
+    },
+    {
+      name: 'ppt/presentation.xml',
+      data: `${XML_HEADER}<p:presentation ${PRESENTATION_NS} saveSubsetFonts="1">` +
+        '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>' +
+        `<p:sldIdLst>${slides.map((_, i) => `<p:sldId id="${256 + i}" r:id="${slideRelId(i)}"/>`).join('')}</p:sldIdLst>` +
+        `<p:sldSz cx="${SLIDE_WIDTH}" cy="${SLIDE_HEIGHT}"/><p:notesSz cx="${SLIDE_HEIGHT}" cy="9144000"/>` +
+        '</p:presentation>'
+    },
+    {
+      name: 'ppt/_rels/presentation.xml.rels',
+      data: relationships([
+        { id: 'rId1', type: REL_TYPES.slideMaster, target: 'slideMasters/slideMaster1.xml' },
+        { id: 'rId2', type: REL_TYPES.theme, target: 'theme/theme1.xml' },
+        ...slides.map((_, i) => ({ id: slideRelId(i), type: REL_TYPES.slide, target: `slides/slide${i + 1}.xml` })),
+        { id: extraRelId(0), type: REL_TYPES.presProps, target: 'presProps.xml' },
+        { id: extraRelId(1), type: REL_TYPES.viewProps, target: 'viewProps.xml' },
+        { id: extraRelId(2), type: REL_TYPES.tableStyles, target: 'tableStyles.xml' }
+      ])
+    },
+    { name: 'ppt/presProps.xml', data: `${XML_HEADER}<p:presentationPr ${PRESENTATION_NS}/>` },
+    { name: 'ppt/viewProps.xml', data: `${XML_HEADER}<p:viewPr ${PRESENTATION_NS}/>` },
+    { name: 'ppt/tableStyles.xml', data: `${XML_HEADER}<a:tblStyleLst xmlns:a="${NS_A}" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>` },
+    { name: 'ppt/theme/theme1.xml', data: theme() },
+    {
+      name: 'ppt/slideMasters/slideMaster1.xml',
+      data: `${XML_HEADER}<p:sldMaster ${PRESENTATION_NS}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg>${EMPTY_TREE}</p:cSld>` +
+        `<p:clrMap ${colorMap}/><p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst>` +
+        '<p:txStyles><p:titleStyle/><p:bodyStyle/><p:otherStyle/></p:txStyles></p:sldMaster>'
+    },
+    {
+      name: 'ppt/slideMasters/_rels/slideMaster1.xml.rels',
+      data: relationships([
+        { id: 'rId1', type: REL_TYPES.slideLayout, target: '../slideLayouts/slideLayout1.xml' },
+        { id: 'rId2', type: REL_TYPES.theme, target: '../theme/theme1.xml' }
+      ])
+    },
+    {
+      name: 'ppt/slideLayouts/slideLayout1.xml',
+      data: `${XML_HEADER}<p:sldLayout ${PRESENTATION_NS} type="blank" preserve="1"><p:cSld name="Blank">${EMPTY_TREE}</p:cSld>` +
+        '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>'
+    },
+    {
+      name: 'ppt/slideLayouts/_rels/slideLayout1.xml.rels',
+      data: relationships([{ id: 'rId1', type: REL_TYPES.slideMaster, target: '../slideMasters/slideMaster1.xml' }])
+    },
+    ...entries
+  ], report.generatedAt);
+};
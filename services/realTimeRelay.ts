@@ -0,0 +1,165 @@
+import { configService } from './configService';
+import { CacheDomain, dataCacheService } from './dataCacheService';
+import { realTimeDataService, RealTimeUpdate } from './realTimeDataService';
+import { TabCoordinator, tabCoordinator } from './tabCoordinator';
+
+export type RelayConnectionStatus = 'connected' | 'disconnected' | 'connecting' | 'error';
+
+type UpdateHandler = (update: RealTimeUpdate) => void;
+type ConnectionHandler = (status: RelayConnectionStatus) => void;
+
+/**
+ * The realtime connection owned by the leader tab
+ */
+export interface RealTimeStream {
+  connect(): void;
+  disconnect(): void;
+  subscribe(type: string, handler: UpdateHandler): () => void;
+  onConnectionChange(handler: (status: string) => void): () => void;
+  getConnectionStatus(): string;
+}
+
+export interface RealTimeRelayOptions {
+  coordinator?: TabCoordinator;
+  stream?: RealTimeStream;
+  cache?: Pick<typeof dataCacheService, 'invalidateDomain'>;
+}
+
+const RELAYED_TYPES: CacheDomain[] = ['metrics', 'revenue', 'inventory', 'customers'];
+
+const normalizeStatus = (status: string): RelayConnectionStatus =>
+  status === 'reconnecting' ? 'connecting' : status as RelayConnectionStatus;
+
+/**
+ * Keeps a single realtime connection across tabs: the leader tab owns the
+ * stream and relays updates and connection status to follower tabs, which
+ * stay disconnected. Mirrors the realTimeDataService subscription API.
+ */
+export class RealTimeRelay {
+  private coordinator: TabCoordinator;
+  private stream: RealTimeStream;
+  private cache: Pick<typeof dataCacheService, 'invalidateDomain'>;
+  private enabled = configService.enableRealTimeUpdates;
+  private leaderStatus: RelayConnectionStatus = 'disconnected';
+  private leaderSubscriptions: (() => void)[] = [];
+  private updateHandlers = new Map<string, Set<UpdateHandler>>();
+  private connectionHandlers = new Set<ConnectionHandler>();
+
+  constructor(options: RealTimeRelayOptions = {}) {
+    this.coordinator = options.coordinator || tabCoordinator;
+    this.stream = options.stream || realTimeDataService;
+    this.cache = options.cache || dataCacheService;
+
+    this.coordinator.on<RealTimeUpdate>('realtime-update', update => this.deliver(update));
+    this.coordinator.on<RelayConnectionStatus>('realtime-status', status => {
+      if (this.coordinator.isLeader()) return;
+      this.leaderStatus = status;
+      this.connectionHandlers.forEach(handler => handler(status));
+    });
+    this.coordinator.on<{ enabled: boolean }>('realtime-control', ({ enabled }) => {
+      if (this.coordinator.isLeader()) this.setEnabled(enabled);
+    });
+    this.coordinator.on('realtime-status-request', () => {
+      if (this.coordinator.isLeader()) this.coordinator.broadcast('realtime-status', this.getConnectionStatus());
+    });
+    this.coordinator.onLeadershipChange(isLeader => this.handleLeadershipChange(isLeader));
+
+    this.handleLeadershipChange(this.coordinator.isLeader());
+    // Pick up the stream status from a leader that is already running
+    this.coordinator.broadcast('realtime-status-request');
+  }
+
+  /**
+   * Turn the shared stream on or off; follower tabs forward the request to the leader
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+
+    if (!this.coordinator.isLeader()) {
+      this.coordinator.broadcast('realtime-control', { enabled });
+      return;
+    }
+
+    if (enabled) {
+      this.stream.connect();
+    } else {
+      this.stream.disconnect();
+    }
+  }
+
+  connect(): void {
+    this.setEnabled(true);
+  }
+
+  disconnect(): void {
+    this.setEnabled(false);
+  }
+
+  subscribe(type: string, handler: UpdateHandler): () => void {
+    const handlers = this.updateHandlers.get(type) || new Set<UpdateHandler>();
+    handlers.add(handler);
+    this.updateHandlers.set(type, handlers);
+
+    return () => {
+      handlers.delete(handler);
+      if (handlers.size === 0) {
+        this.updateHandlers.delete(type);
+      }
+    };
+  }
+
+  onConnectionChange(handler: ConnectionHandler): () => void {
+    this.connectionHandlers.add(handler);
+    return () => {
+      this.connectionHandlers.delete(handler);
+    };
+  }
+
+  getConnectionStatus(): RelayConnectionStatus {
+    return this.coordinator.isLeader() ? normalizeStatus(this.stream.getConnectionStatus()) : this.leaderStatus;
+  }
+
+  private handleLeadershipChange(isLeader: boolean): void {
+    this.leaderSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.leaderSubscriptions = [];
+
+    if (!isLeader) {
+      this.stream.disconnect();
+      configService.log('debug', 'Realtime stream handed to the leader tab');
+      return;
+    }
+
+    this.leaderSubscriptions = [
+      ...RELAYED_TYPES.map(type => this.stream.subscribe(type, (update: RealTimeUpdate) => {
+        // Cached entries of the domain (and its dependents) are out of date. Invalidate
+        // once here, which also tells the other tabs, before any tab caches the update.
+        this.cache.invalidateDomain(type, { reason: `Real-time ${type} update` });
+        this.coordinator.broadcast('realtime-update', update);
+        this.deliver(update);
+      })),
+      this.stream.onConnectionChange((rawStatus: string) => {
+        const status = normalizeStatus(rawStatus);
+        this.connectionHandlers.forEach(handler => handler(status));
+        this.coordinator.broadcast('realtime-status', status);
+      })
+    ];
+
+    if (this.enabled) {
+      this.stream.connect();
+    }
+    this.coordinator.broadcast('realtime-status', this.getConnectionStatus());
+  }
+
+  private deliver(update: RealTimeUpdate): void {
+    this.updateHandlers.get(update.type)?.forEach(handler => {
+      try {
+        handler(update);
+      } catch (error) {
+        configService.log('error', 'Error in realtime update handler:', error);
+      }
+    });
+  }
+}
+
+export const realTimeRelay = new RealTimeRelay();
+export default realTimeRelay;
@@ -0,0 +1,451 @@
+/**
+ * Schedules for auto-refresh jobs: fixed intervals, cron expressions,
+ * business-hours calendars and burst windows around fiscal period close.
+ */
+
+export interface IntervalSchedule {
+  kind: 'interval';
+  interval: number; // Milliseconds
+}
+
+export interface CronSchedule {
+  kind: 'cron';
+  expression: string; // minute hour day-of-month month day-of-week
+  timezone?: string;
+}
+
+export interface BusinessCalendar {
+  timezone: string;
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  start: string; // HH:mm
+  end: string; // HH:mm
+  holidays?: string[]; // YYYY-MM-DD in the calendar's timezone
+}
+
+export interface BusinessHoursSchedule {
+  kind: 'business-hours';
+  interval: number; // Interval while the business is open
+  offHoursInterval?: number; // Interval outside business hours; omitted = wait until opening
+  calendar: BusinessCalendar;
+}
+
+export type RefreshSchedule = IntervalSchedule | CronSchedule | BusinessHoursSchedule;
+
+export interface FiscalBurstWindow {
+  kind: 'fiscal-period-end';
+  period: 'month' | 'quarter';
+  lastDays: number; // e.g. 2 = the last two days of the period
+  interval: number;
+  fiscalYearStartMonth?: number; // 1-12, used for quarter boundaries (default 1)
+  timezone?: string;
+}
+
+export interface FixedBurstWindow {
+  kind: 'fixed';
+  start: string; // ISO timestamp
+  end: string;
+  interval: number;
+}
+
+export type BurstWindow = FiscalBurstWindow | FixedBurstWindow;
+
+export interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0-6
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const MAX_SEARCH_SPAN = 5 * 366 * DAY; // Long enough to reach the next Feb 29
+
+const CRON_FIELDS: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day-of-week', min: 0, max: 7 }
+];
+
+const CRON_ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+};
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+      hourCycle: 'h23'
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Wall-clock parts of a timestamp in a timezone
+ */
+export const getZonedParts = (timestamp: number, timezone = 'UTC'): ZonedParts => {
+  const parts = getFormatter(timezone).formatToParts(new Date(timestamp));
+  const value = (type: string) => parts.find(part => part.type === type)?.value || '0';
+
+  return {
+    year: parseInt(value('year'), 10),
+    month: parseInt(value('month'), 10),
+    day: parseInt(value('day'), 10),
+    hour: parseInt(value('hour'), 10) % 24,
+    minute: parseInt(value('minute'), 10),
+    weekday: WEEKDAYS[value('weekday')] ?? 0
+  };
+};
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const parseTimeOfDay = (value: string): number => {
+  const [hours = '0', minutes = '0'] = value.split(':');
+  return parseInt(hours, 10) * 60 + parseInt(minutes, 10);
+};
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+const parseCronField = (field: string, min: number, max: number, name: string): Set<number> => {
+  const values = new Set<number>();
+
+  field.split(',').forEach(part => {
+    const [range = '', stepText] = part.split('/');
+    const step = stepText ? parseInt(stepText, 10) : 1;
+    if (isNaN(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in cron ${name} field`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [from = '', to] = range.split('-');
+      start = parseInt(from, 10);
+      end = to !== undefined ? parseInt(to, 10) : (stepText ? max : start);
+    }
+
+    if (isNaN(start) || isNaN(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid value "${part}" in cron ${name} field (allowed ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  });
+
+  return values;
+};
+
+/**
+ * Parse a five-field cron expression (or @hourly/@daily/@weekly/@monthly)
+ */
+export const parseCron = (expression: string): ParsedCron => {
+  const normalized = CRON_ALIASES[expression.trim()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${fields.length}: "${expression}"`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => {
+    const { min, max, name } = CRON_FIELDS[index]!;
+    return parseCronField(field, min, max, name);
+  }) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*'
+  };
+};
+
+const cronDayMatches = (cron: ParsedCron, parts: ZonedParts): boolean => {
+  const domMatch = cron.daysOfMonth.has(parts.day);
+  const dowMatch = cron.daysOfWeek.has(parts.weekday);
+
+  // Standard cron: if both fields are restricted, either may match
+  if (!cron.anyDayOfMonth && !cron.anyDayOfWeek) return domMatch || dowMatch;
+  return domMatch && dowMatch;
+};
+
+/**
+ * Next time strictly after `from` that matches the cron expression
+ */
+export const getNextCronRun = (cron: ParsedCron | string, from: number, timezone = 'UTC'): number | null => {
+  const parsed = typeof cron === 'string' ? parseCron(cron) : cron;
+  let candidate = Math.floor(from / MINUTE) * MINUTE + MINUTE;
+  const limit = from + MAX_SEARCH_SPAN;
+
+  while (candidate <= limit) {
+    const parts = getZonedParts(candidate, timezone);
+    const minutesLeftInDay = (24 * 60) - (parts.hour * 60 + parts.minute);
+
+    if (!parsed.months.has(parts.month) || !cronDayMatches(parsed, parts)) {
+      candidate += minutesLeftInDay * MINUTE;
+      continue;
+    }
+
+    if (!parsed.hours.has(parts.hour)) {
+      candidate += (60 - parts.minute) * MINUTE;
+      continue;
+    }
+
+    if (!parsed.minutes.has(parts.minute)) {
+      candidate += MINUTE;
+      continue;
+    }
+
+    return candidate;
+  }
+
+  return null;
+};
+
+/**
+ * Whether a timestamp falls inside the calendar's business hours
+ */
+export const isWithinBusinessHours = (timestamp: number, calendar: BusinessCalendar): boolean => {
+  const parts = getZonedParts(timestamp, calendar.timezone);
+  const date = `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+  if (!calendar.days.includes(parts.weekday) || calendar.holidays?.includes(date)) {
+    return false;
+  }
+
+  const minuteOfDay = parts.hour * 60 + parts.minute;
+  return minuteOfDay >= parseTimeOfDay(calendar.start) && minuteOfDay < parseTimeOfDay(calendar.end);
+};
+
+/**
+ * Next time the business opens
+ */
+export const getNextBusinessOpening = (from: number, calendar: BusinessCalendar): number | null => {
+  const openAt = parseTimeOfDay(calendar.start);
+  let candidate = Math.floor(from / MINUTE) * MINUTE + MINUTE;
+  const limit = from + MAX_SEARCH_SPAN;
+
+  while (candidate <= limit) {
+    if (isWithinBusinessHours(candidate, calendar)) return candidate;
+
+    const parts = getZonedParts(candidate, calendar.timezone);
+    const minuteOfDay = parts.hour * 60 + parts.minute;
+    // Jump straight to today's opening time, or to the start of the next day
+    const jump = minuteOfDay < openAt ? openAt - minuteOfDay : (24 * 60) - minuteOfDay;
+    candidate += Math.max(jump, 1) * MINUTE;
+  }
+
+  return null;
+};
+
+/**
+ * Whether a timestamp falls in the last N days of a fiscal month or quarter
+ */
+const isInFiscalPeriodEnd = (timestamp: number, window: FiscalBurstWindow): boolean => {
+  const parts = getZonedParts(timestamp, window.timezone || 'UTC');
+
+  if (window.period === 'quarter') {
+    const startMonth = window.fiscalYearStartMonth || 1;
+    const monthInFiscalYear = ((parts.month - startMonth + 12) % 12) + 1;
+    if (monthInFiscalYear % 3 !== 0) return false;
+  }
+
+  return daysInMonth(parts.year, parts.month) - parts.day < window.lastDays;
+};
+
+/**
+ * Burst window active at a timestamp, if any (the fastest one wins)
+ */
+export const getActiveBurstWindow = (timestamp: number, windows: BurstWindow[] = []): BurstWindow | null => {
+  const active = windows.filter(window => {
+    if (window.kind === 'fixed') {
+      return timestamp >= new Date(window.start).getTime() && timestamp < new Date(window.end).getTime();
+    }
+    return isInFiscalPeriodEnd(timestamp, window);
+  });
+
+  if (active.length === 0) return null;
+  return active.reduce((fastest, window) => (window.interval < fastest.interval ? window : fastest));
+};
+
+/**
+ * Earliest time after `from` (and no later than `until`) at which a burst window opens
+ */
+export const getNextBurstWindowStart = (
+  from: number,
+  windows: BurstWindow[] = [],
+  until = from + MAX_SEARCH_SPAN
+): number | null => {
+  const openings = windows.map(window => {
+    if (window.kind === 'fixed') {
+      const start = new Date(window.start).getTime();
+      return start > from && start <= until ? start : null;
+    }
+
+    // Fiscal windows open at a local midnight, so check the start of each day
+    const timezone = window.timezone || 'UTC';
+    let wasActive = isInFiscalPeriodEnd(from, window);
+    let candidate = Math.floor(from / MINUTE) * MINUTE + MINUTE;
+
+    while (candidate <= until) {
+      const active = isInFiscalPeriodEnd(candidate, window);
+      if (active && !wasActive) return candidate;
+      wasActive = active;
+
+      const parts = getZonedParts(candidate, timezone);
+      candidate += ((24 * 60) - (parts.hour * 60 + parts.minute)) * MINUTE;
+    }
+    return null;
+  });
+
+  const upcoming = openings.filter((opening): opening is number => opening !== null);
+  return upcoming.length > 0 ? Math.min(...upcoming) : null;
+};
+
+/**
+ * Next run time for a schedule, taking burst windows into account
+ */
+export const getNextRunTime = (
+  schedule: RefreshSchedule,
+  from: number,
+  burstWindows: BurstWindow[] = []
+): number => {
+  let next: number | null;
+
+  switch (schedule.kind) {
+    case 'cron':
+      next = getNextCronRun(schedule.expression, from, schedule.timezone);
+      break;
+    case 'business-hours':
+      if (isWithinBusinessHours(from, schedule.calendar)) {
+        next = from + schedule.interval;
+      } else if (schedule.offHoursInterval) {
+        const opening = getNextBusinessOpening(from, schedule.calendar);
+        next = Math.min(from + schedule.offHoursInterval, opening ?? Infinity);
+      } else {
+        next = getNextBusinessOpening(from, schedule.calendar);
+      }
+      break;
+    default:
+      next = from + schedule.interval;
+  }
+
+  const burst = getActiveBurstWindow(from, burstWindows);
+  const fallback = from + DAY;
+  let scheduled = next ?? fallback;
+
+  // Don't sleep through a burst window that opens before the regular run
+  const opening = getNextBurstWindowStart(from, burstWindows, scheduled);
+  if (opening !== null) scheduled = opening;
+
+  return burst ? Math.min(scheduled, from + burst.interval) : scheduled;
+};
+
+/**
+ * Validate a schedule, returning human-readable errors
+ */
+export const validateSchedule = (schedule: RefreshSchedule): string[] => {
+  const errors: string[] = [];
+
+  switch (schedule.kind) {
+    case 'cron':
+      try {
+        parseCron(schedule.expression);
+      } catch (error) {
+        errors.push((error as Error).message);
+      }
+      break;
+    case 'business-hours':
+      if (schedule.calendar.days.length === 0) errors.push('Business calendar needs at least one working day');
+      if (parseTimeOfDay(schedule.calendar.start) >= parseTimeOfDay(schedule.calendar.end)) {
+        errors.push('Business hours must end after they start');
+      }
+      if (schedule.interval < 1000) errors.push('Interval must be at least 1000ms');
+      break;
+    default:
+      if (schedule.interval < 1000) errors.push('Interval must be at least 1000ms');
+  }
+
+  if (schedule.kind !== 'interval') {
+    const timezone = schedule.kind === 'cron' ? schedule.timezone : schedule.calendar.timezone;
+    if (timezone) {
+      try {
+        getFormatter(timezone);
+      } catch {
+        errors.push(`Unknown timezone: ${timezone}`);
+      }
+    }
+  }
+
+  return errors;
+};
+
+const formatInterval = (ms: number): string => {
+  if (ms < 60000) return `${Math.round(ms / 1000)}s`;
+  if (ms < 3600000) return `${Math.round(ms / 60000)}m`;
+  return `${(ms / 3600000).toFixed(1)}h`;
+};
+
+/**
+ * Short description of a schedule for display
+ */
+export const describeSchedule = (schedule: RefreshSchedule, burstWindows: BurstWindow[] = []): string => {
+  let description: string;
+
+  switch (schedule.kind) {
+    case 'cron':
+      description = `cron "${schedule.expression}"${schedule.timezone ? ` (${schedule.timezone})` : ''}`;
+      break;
+    case 'business-hours':
+      description = `every ${formatInterval(schedule.interval)}, ${schedule.calendar.start}-${schedule.calendar.end} ${schedule.calendar.timezone}`;
+      if (schedule.offHoursInterval) {
+        description += `, ${formatInterval(schedule.offHoursInterval)} off-hours`;
+      }
+      break;
+    default:
+      description = `every ${formatInterval(schedule.interval)}`;
+  }
+
+  if (burstWindows.length > 0) {
+    const fastest = Math.min(...burstWindows.map(window => window.interval));
+    description += ` (burst ${formatInterval(fastest)})`;
+  }
+
+  return description;
+};
@@ -0,0 +1,167 @@
+import { toCsvCell } from './csv';
+import { ProductItem, generateConsumptionHistory } from './inventoryEntities';
+
+/**
+ * Stock-out prediction and reorder recommendations per SKU: days of cover from
+ * consumption velocity, a reorder point covering supplier lead time plus safety
+ * stock, and the economic order quantity.
+ */
+
+export interface SupplierTerms {
+  leadTimeDays: number;
+  orderCost: number; // Fixed cost of placing one purchase order
+}
+
+export type ReorderUrgency = 'reorder_now' | 'reorder_soon' | 'ok';
+
+export interface ReplenishmentPlan {
+  item: ProductItem;
+  dailyVelocity: number;
+  demandStdDev: number;
+  daysOfCover: number | null;     // null when nothing is being consumed
+  stockOutDate: string | null;    // YYYY-MM-DD
+  leadTimeDays: number;
+  safetyStock: number;
+  reorderPoint: number;
+  economicOrderQuantity: number;
+  suggestedOrderQuantity: number;
+  orderByDate: string | null;     // Last day to order before stock falls under the reorder point
+  urgency: ReorderUrgency;
+}
+
+export const SUPPLIER_TERMS: Record<string, SupplierTerms> = {
+  'Amazon Logistics': { leadTimeDays: 3, orderCost: 75 },
+  'Direct Supplier': { leadTimeDays: 10, orderCost: 50 },
+  'Third Party': { leadTimeDays: 14, orderCost: 40 }
+};
+
+export const DEFAULT_SUPPLIER_TERMS: SupplierTerms = { leadTimeDays: 7, orderCost: 50 };
+
+// Yearly cost of holding one unit, as a share of its cost
+export const HOLDING_COST_RATE = 0.25;
+
+// Safety stock for a 95% chance of not running out during the lead time
+export const SERVICE_LEVEL_Z = 1.65;
+
+// Items that reach their reorder point within this many days are due soon
+export const REORDER_SOON_DAYS = 7;
+
+// Days of consumption the velocity is averaged over
+export const VELOCITY_WINDOW_DAYS = 28;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const toDate = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+export const getSupplierTerms = (supplier: string): SupplierTerms => SUPPLIER_TERMS[supplier] || DEFAULT_SUPPLIER_TERMS;
+
+/**
+ * Average daily consumption and its standard deviation
+ */
+export const calculateVelocity = (consumption: number[]): { velocity: number; stdDev: number } => {
+  if (consumption.length === 0) return { velocity: 0, stdDev: 0 };
+  const velocity = consumption.reduce((sum, units) => sum + units, 0) / consumption.length;
+  const variance = consumption.length > 1
+    ? consumption.reduce((sum, units) => sum + (units - velocity) ** 2, 0) / (consumption.length - 1)
+    : 0;
+  return { velocity, stdDev: Math.sqrt(variance) };
+};
+
+/**
+ * Order size that minimizes ordering plus holding cost: √(2DS / H)
+ */
+export const economicOrderQuantity = (annualDemand: number, orderCost: number, holdingCostPerUnit: number): number =>
+  annualDemand > 0 && holdingCostPerUnit > 0 ? Math.sqrt((2 * annualDemand * orderCost) / holdingCostPerUnit) : 0;
+
+/**
+ * Stock level to reorder at: expected demand over the lead time plus safety stock
+ */
+export const reorderPoint = (
+  velocity: number,
+  stdDev: number,
+  leadTimeDays: number,
+  z = SERVICE_LEVEL_Z
+): { reorderPoint: number; safetyStock: number } => {
+  const safetyStock = z * stdDev * Math.sqrt(leadTimeDays);
+  return { reorderPoint: velocity * leadTimeDays + safetyStock, safetyStock };
+};
+
+export const planReplenishment = (item: ProductItem, consumption: number[], now = Date.now()): ReplenishmentPlan => {
+  const { velocity, stdDev } = calculateVelocity(consumption);
+  const terms = getSupplierTerms(item.supplier);
+  const point = reorderPoint(velocity, stdDev, terms.leadTimeDays);
+  const rop = Math.ceil(point.reorderPoint);
+  const eoq = Math.ceil(economicOrderQuantity(velocity * 365, terms.orderCost, item.unitCost * HOLDING_COST_RATE));
+
+  const daysOfCover = velocity > 0 ? item.currentStock / velocity : null;
+  const daysToReorderPoint = velocity > 0 ? Math.max(0, (item.currentStock - rop) / velocity) : null;
+
+  // Order at least enough to get back over the reorder point, and no more than fits
+  // once the lead time's demand has gone out
+  const space = Math.max(0, item.maxCapacity - item.currentStock + Math.round(velocity * terms.leadTimeDays));
+  const suggestedOrderQuantity = Math.min(space, Math.max(eoq, rop - item.currentStock));
+
+  const urgency: ReorderUrgency = velocity > 0 && item.currentStock <= rop
+    ? 'reorder_now'
+    : daysToReorderPoint !== null && daysToReorderPoint <= REORDER_SOON_DAYS ? 'reorder_soon' : 'ok';
+
+  return {
+    item,
+    dailyVelocity: velocity,
+    demandStdDev: stdDev,
+    daysOfCover,
+    stockOutDate: daysOfCover !== null ? toDate(now + daysOfCover * DAY) : null,
+    leadTimeDays: terms.leadTimeDays,
+    safetyStock: Math.ceil(point.safetyStock),
+    reorderPoint: rop,
+    economicOrderQuantity: eoq,
+    suggestedOrderQuantity: Math.max(0, suggestedOrderQuantity),
+    orderByDate: daysToReorderPoint !== null ? toDate(now + daysToReorderPoint * DAY) : null,
+    urgency
+  };
+};
+
+/**
+ * Plans for products using their recent consumption
+ */
+export const getReplenishmentPlans = (products: ProductItem[], now = Date.now()): ReplenishmentPlan[] =>
+  products.map(item => planReplenishment(item, generateConsumptionHistory(item, VELOCITY_WINDOW_DAYS, now), now));
+
+/**
+ * Plans that need an order now or soon, soonest stock-out first
+ */
+export const getReorderList = (plans: ReplenishmentPlan[]): ReplenishmentPlan[] =>
+  plans
+    .filter(plan => plan.urgency !== 'ok')
+    .sort((a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity));
+
+const REORDER_CSV_COLUMNS: Array<[string, (plan: ReplenishmentPlan) => string | number]> = [
+  ['SKU', plan => plan.item.sku],
+  ['Product', plan => plan.item.name],
+  ['Category', plan => plan.item.categoryName],
+  ['Warehouse', plan => plan.item.warehouseId],
+  ['Supplier', plan => plan.item.supplier],
+  ['Current Stock', plan => plan.item.currentStock],
+  ['Daily Velocity', plan => plan.dailyVelocity.toFixed(1)],
+  ['Days of Cover', plan => (plan.daysOfCover !== null ? plan.daysOfCover.toFixed(1) : '')],
+  ['Stock-out Date', plan => plan.stockOutDate || ''],
+  ['Lead Time (days)', plan => plan.leadTimeDays],
+  ['Safety Stock', plan => plan.safetyStock],
+  ['Reorder Point', plan => plan.reorderPoint],
+  ['EOQ', plan => plan.economicOrderQuantity],
+  ['Suggested Order', plan => plan.suggestedOrderQuantity],
+  ['Order By', plan => plan.orderByDate || ''],
+  ['Urgency', plan => plan.urgency]
+];
+
+export const reorderListToCsv = (plans: ReplenishmentPlan[]): string =>
+  [
+    REORDER_CSV_COLUMNS.map(([header]) => header).join(','),
+    ...plans.map(plan => REORDER_CSV_COLUMNS.map(([, value]) => toCsvCell(value(plan))).join(','))
+  ].join('\n');
+
+/**
+ * Flat rows of the reorder list for spreadsheet export
+ */
+export const reorderListToRows = (plans: ReplenishmentPlan[]): Array<Record<string, string | number>> =>
+  plans.map(plan => Object.fromEntries(REORDER_CSV_COLUMNS.map(([header, value]) => [header, value(plan)])));
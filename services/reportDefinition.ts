@@ -0,0 +1,336 @@
+import { ChartData, FilterCriteria } from '../types';
+import { CHART_COLORS, DEFAULT_CURRENCY } from '../constants';
+
+/**
+ * Report definitions: which widgets a report shows, in what order, on what
+ * page, and how their data is resolved before a renderer draws them.
+ */
+
+export type ReportPageSize = 'a4' | 'letter' | 'legal';
+export type ReportOrientation = 'portrait' | 'landscape';
+export type ReportValueFormat = 'number' | 'decimal' | 'currency' | 'percent'; // Percent values are in percent units: 12.5 = 12.5%
+export type ReportChartKind = 'line' | 'area' | 'bar' | 'pie' | 'doughnut';
+
+interface ReportWidgetBase {
+  id: string;
+  title: string;
+  dataKey: string; // Key into ReportData
+  valueFormat?: ReportValueFormat;
+}
+
+export interface ReportChartWidget extends ReportWidgetBase {
+  type: 'chart';
+  chart: ReportChartKind;
+  stacked?: boolean;
+}
+
+export interface ReportKpiWidget extends ReportWidgetBase {
+  type: 'kpi';
+}
+
+export interface ReportGaugeWidget extends ReportWidgetBase {
+  type: 'gauge';
+}
+
+export interface ReportTableColumn {
+  key: string;
+  label: string;
+  format?: ReportValueFormat | 'text' | 'date';
+  total?: 'sum' | 'average';
+}
+
+export interface ReportTableWidget extends ReportWidgetBase {
+  type: 'table';
+  columns: ReportTableColumn[];
+}
+
+export interface ReportTextWidget {
+  id: string;
+  type: 'text';
+  title?: string;
+  text: string; // Paragraphs separated by blank lines
+}
+
+export interface ReportPageBreakWidget {
+  id: string;
+  type: 'pageBreak';
+}
+
+export type ReportWidget =
+  | ReportChartWidget
+  | ReportKpiWidget
+  | ReportGaugeWidget
+  | ReportTableWidget
+  | ReportTextWidget
+  | ReportPageBreakWidget;
+
+export interface ReportDefinition {
+  title: string;
+  subtitle?: string;
+  pageSize?: ReportPageSize;
+  orientation?: ReportOrientation;
+  currency?: string;
+  locale?: string;
+  filters?: FilterCriteria;
+  header?: string; // Running text on every page
+  footer?: string; // Replaces the title in the page footer
+  widgets: ReportWidget[];
+}
+
+export interface ReportKpiValue {
+  value: number;
+  previous?: number;
+  target?: number;
+}
+
+export interface ReportGaugeValue {
+  value: number;
+  min?: number;
+  max?: number;
+}
+
+export type ReportTableRow = Record<string, string | number | boolean | Date | null | undefined>;
+
+export type ReportData = Record<string, ChartData | ReportKpiValue | ReportGaugeValue | ReportTableRow[] | undefined>;
+
+export interface ReportSeries {
+  label: string;
+  values: Array<number | null>;
+  color: string; // #rrggbb
+}
+
+export interface ReportSeriesData {
+  labels: string[];
+  series: ReportSeries[];
+  sliceColors: string[]; // Per label, for pie and doughnut charts
+}
+
+export type ResolvedReportWidget =
+  | { type: 'chart'; widget: ReportChartWidget; content: ReportSeriesData | null }
+  | { type: 'kpi'; widget: ReportKpiWidget; content: ReportKpiValue | null }
+  | { type: 'gauge'; widget: ReportGaugeWidget; content: Required<ReportGaugeValue> | null }
+  | { type: 'table'; widget: ReportTableWidget; content: ReportTableRow[] | null }
+  | { type: 'text'; widget: ReportTextWidget; content: string[] } // Paragraphs
+  | { type: 'pageBreak'; widget: ReportPageBreakWidget; content: null };
+
+export interface ResolvedReport {
+  title: string;
+  subtitle?: string;
+  pageSize: ReportPageSize;
+  orientation: ReportOrientation;
+  currency: string;
+  locale: string;
+  generatedAt: Date;
+  filterSummary: Array<{ label: string; value: string }>;
+  header?: string;
+  footer?: string;
+  widgets: ResolvedReportWidget[];
+}
+
+export const REPORT_PAGE_SIZES: Record<ReportPageSize, { width: number; height: number }> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+  legal: { width: 612, height: 1008 }
+};
+
+export const NO_DATA_LABEL = 'No data available';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const toHex = (r: number, g: number, b: number): string =>
+  `#${[r, g, b].map(channel => Math.round(Math.min(255, Math.max(0, channel))).toString(16).padStart(2, '0')).join('')}`;
+
+/**
+ * Parse #rgb, #rrggbb, rgb() and rgba() colors into #rrggbb
+ */
+export const normalizeColor = (color: unknown): string | null => {
+  if (typeof color !== 'string') return null;
+  const value = color.trim();
+
+  const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/i.exec(value);
+  if (short) return `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`.toLowerCase();
+  if (/^#[0-9a-f]{6}$/i.test(value)) return value.toLowerCase();
+
+  const rgb = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i.exec(value);
+  return rgb ? toHex(Number(rgb[1]), Number(rgb[2]), Number(rgb[3])) : null;
+};
+
+/**
+ * Mix a color with white; amount 1 gives white
+ */
+export const lightenColor = (color: string, amount: number): string => {
+  const hex = normalizeColor(color) || '#000000';
+  const channel = (offset: number) => parseInt(hex.substr(offset, 2), 16);
+  return toHex(
+    channel(1) + (255 - channel(1)) * amount,
+    channel(3) + (255 - channel(3)) * amount,
+    channel(5) + (255 - channel(5)) * amount
+  );
+};
+
+const paletteColor = (index: number): string => CHART_COLORS.PALETTE[index % CHART_COLORS.PALETTE.length]!;
+
+const firstColor = (color: unknown): string | null =>
+  normalizeColor(Array.isArray(color) ? color[0] : color);
+
+/**
+ * Normalize dashboard chart data into aligned label/value series
+ */
+export const toSeriesData = (data: ChartData): ReportSeriesData | null => {
+  const datasets: any[] = Array.isArray(data?.datasets) ? data.datasets : [];
+  if (datasets.length === 0) return null;
+
+  const pointValue = (point: any): number | null => {
+    const value = isNumber(point) ? point : point?.y;
+    return isNumber(value) ? value : null;
+  };
+
+  const labels: string[] = Array.isArray(data.labels) && data.labels.length > 0
+    ? data.labels.map(String)
+    : (datasets[0].data || []).map((point: any, index: number) => String(point?.label ?? point?.x ?? index + 1));
+
+  const series = datasets.map((dataset, index) => ({
+    label: String(dataset.label || `Series ${index + 1}`),
+    values: labels.map((_, i) => pointValue(dataset.data?.[i])),
+    color: firstColor(dataset.borderColor) || firstColor(dataset.backgroundColor) || paletteColor(index)
+  }));
+  if (series.every(entry => entry.values.every(value => value === null))) return null;
+
+  const background = datasets[0].backgroundColor;
+  const sliceColors = labels.map((_, i) =>
+    (Array.isArray(background) ? normalizeColor(background[i]) : null) || paletteColor(i));
+
+  return { labels, series, sliceColors };
+};
+
+/**
+ * Split text into trimmed paragraphs on blank lines
+ */
+export const toParagraphs = (text: string): string[] =>
+  text.split(/\r?\n\s*\r?\n/).map(paragraph => paragraph.replace(/\s*\r?\n\s*/g, ' ').trim()).filter(Boolean);
+
+const resolveWidget = (widget: ReportWidget, data: ReportData): ResolvedReportWidget => {
+  if (widget.type === 'text') return { type: 'text', widget, content: toParagraphs(widget.text) };
+  if (widget.type === 'pageBreak') return { type: 'pageBreak', widget, content: null };
+  const value: any = data[widget.dataKey];
+
+  switch (widget.type) {
+    case 'chart':
+      return { type: 'chart', widget, content: value ? toSeriesData(value) : null };
+    case 'kpi':
+      return { type: 'kpi', widget, content: isNumber(value?.value) ? value : null };
+    case 'gauge': {
+      if (!isNumber(value?.value)) return { type: 'gauge', widget, content: null };
+      const min = isNumber(value.min) ? value.min : 0;
+      const max = isNumber(value.max) && value.max > min ? value.max : Math.max(min + 1, 100);
+      return { type: 'gauge', widget, content: { value: value.value, min, max } };
+    }
+    case 'table':
+      return { type: 'table', widget, content: Array.isArray(value) && value.length > 0 ? value : null };
+  }
+};
+
+const formatDate = (date: Date | string): string => {
+  const parsed = date instanceof Date ? date : new Date(date);
+  return isNaN(parsed.getTime()) ? String(date) : parsed.toISOString().split('T')[0]!;
+};
+
+/**
+ * Filter lines printed in a report header
+ */
+export const summarizeFilters = (filters: FilterCriteria | undefined): Array<{ label: string; value: string }> => {
+  if (!filters) return [];
+
+  const list = (values: string[] | undefined) => (values && values.length > 0 ? values.join(', ') : 'All');
+  const summary = [];
+  if (filters.dateRange) {
+    summary.push({ label: 'Period', value: `${formatDate(filters.dateRange.start)} to ${formatDate(filters.dateRange.end)}` });
+  }
+  summary.push(
+    { label: 'Regions', value: list(filters.regions) },
+    { label: 'Categories', value: list(filters.categories) },
+    { label: 'Business units', value: list(filters.businessUnits) }
+  );
+  if (filters.timePeriod) summary.push({ label: 'Granularity', value: String(filters.timePeriod) });
+  return summary;
+};
+
+/**
+ * Check a definition before rendering; returns a list of problems
+ */
+export const validateReportDefinition = (definition: ReportDefinition): string[] => {
+  const errors: string[] = [];
+  if (!definition.title?.trim()) errors.push('Report title is required');
+  if (definition.pageSize && !REPORT_PAGE_SIZES[definition.pageSize]) errors.push(`Unknown page size: ${definition.pageSize}`);
+
+  const ids = new Set<string>();
+  definition.widgets.forEach(widget => {
+    if (ids.has(widget.id)) errors.push(`Duplicate widget id: ${widget.id}`);
+    ids.add(widget.id);
+    if (widget.type === 'table' && widget.columns.length === 0) errors.push(`Table "${widget.title}" has no columns`);
+  });
+  return errors;
+};
+
+/**
+ * Apply defaults and attach each widget's data. Widgets whose data is
+ * missing or malformed resolve with null content and render as empty.
+ */
+export const resolveReport = (
+  definition: ReportDefinition,
+  data: ReportData,
+  generatedAt: Date = new Date()
+): ResolvedReport => {
+  const errors = validateReportDefinition(definition);
+  if (errors.length > 0) {
+    throw new Error(`Invalid report definition: ${errors.join('; ')}`);
+  }
+
+  return {
+    title: definition.title,
+    subtitle: definition.subtitle,
+    pageSize: definition.pageSize || 'a4',
+    orientation: definition.orientation || 'portrait',
+    currency: definition.currency || DEFAULT_CURRENCY,
+    locale: definition.locale || 'en-US',
+    generatedAt,
+    filterSummary: summarizeFilters(definition.filters),
+    header: definition.header?.trim() || undefined,
+    footer: definition.footer?.trim() || undefined,
+    widgets: definition.widgets.map(widget => resolveWidget(widget, data))
+  };
+};
+
+/**
+ * Format a value for display in a report
+ */
+export const formatReportValue = (
+  value: number,
+  format: ReportValueFormat = 'number',
+  { currency, locale }: { currency: string; locale: string },
+  compact = false
+): string => {
+  const notation = compact ? { notation: 'compact' as const, minimumFractionDigits: 0, maximumFractionDigits: 1 } : {};
+  switch (format) {
+    case 'currency':
+      return new Intl.NumberFormat(locale, { style: 'currency', currency, ...notation }).format(value);
+    case 'percent':
+      return new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 1 }).format(value / 100);
+    case 'decimal':
+      return new Intl.NumberFormat(locale, { maximumFractionDigits: 2, ...notation }).format(value);
+    default:
+      return new Intl.NumberFormat(locale, { maximumFractionDigits: 0, ...notation }).format(value);
+  }
+};
+
+/**
+ * Readable label for a data key, e.g. 'lowStock' becomes 'Low Stock'
+ */
+export const toFieldLabel = (key: string): string =>
+  key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').replace(/^./, first => first.toUpperCase());
+
+/**
+ * Report filename: slugged title plus generation date
+ */
+export const getReportFileStem = (title: string, generatedAt: Date): string =>
+  `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report'}-${formatDate(generatedAt)}`;
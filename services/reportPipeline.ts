@@ -0,0 +1,171 @@
+import { ChartData, ExportFormat, FilterCriteria } from '../types';
+import {
+  ReportData,
+  ReportDefinition,
+  ReportTableColumn,
+  ReportTableRow,
+  ReportWidget,
+  getReportFileStem,
+  resolveReport,
+  toFieldLabel
+} from './reportDefinition';
+import { PDF_MIME_TYPE, renderPdfReport } from './pdfReport';
+import { renderExcelReport } from './excelReport';
+import { PPTX_MIME_TYPE, renderPptxReport } from './pptxReport';
+import { XLSX_MIME_TYPE } from './xlsxWriter';
+import { DataExportFormat } from './exportFormats';
+
+/**
+ * Headless report rendering: data plus a report definition in, file bytes
+ * out. Nothing here touches the DOM, so the same code runs in the browser,
+ * in a worker or under Node.
+ */
+
+export type ReportOutputFormat = ExportFormat.PDF | ExportFormat.EXCEL | DataExportFormat.PPTX;
+
+export interface RenderedReport {
+  filename: string;
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+export interface RenderReportOptions {
+  generatedAt?: Date;
+}
+
+/**
+ * Render a report definition with its data as a PDF, Excel or PowerPoint file
+ */
+export const renderReport = (
+  definition: ReportDefinition,
+  data: ReportData,
+  format: ReportOutputFormat,
+  options: RenderReportOptions = {}
+): RenderedReport => {
+  const report = resolveReport(definition, data, options.generatedAt);
+  const stem = getReportFileStem(report.title, report.generatedAt);
+
+  if (format === ExportFormat.EXCEL) {
+    return { filename: `${stem}.xlsx`, mimeType: XLSX_MIME_TYPE, bytes: renderExcelReport(report) };
+  }
+  if (format === DataExportFormat.PPTX) {
+    return { filename: `${stem}.pptx`, mimeType: PPTX_MIME_TYPE, bytes: renderPptxReport(report) };
+  }
+  return { filename: `${stem}.pdf`, mimeType: PDF_MIME_TYPE, bytes: renderPdfReport(report) };
+};
+
+/**
+ * Wrap rendered bytes in a Blob for download or upload
+ */
+export const toReportBlob = (report: RenderedReport): Blob =>
+  new Blob([report.bytes as BlobPart], { type: report.mimeType });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Filter criteria from a serialized payload, with its dates revived
+ */
+export const toFilterCriteria = (value: unknown): FilterCriteria | undefined => {
+  if (!isRecord(value) || !isRecord(value.dateRange)) return undefined;
+  const { start, end } = value.dateRange as { start: string | Date; end: string | Date };
+  return { ...value, dateRange: { start: new Date(start), end: new Date(end) } } as FilterCriteria;
+};
+
+const describeValue = (value: unknown): string =>
+  isRecord(value) || Array.isArray(value) ? JSON.stringify(value) : String(value);
+
+const isChartData = (value: unknown): boolean => isRecord(value) && Array.isArray(value.datasets);
+
+const isRecordArray = (value: unknown): value is Array<Record<string, unknown>> =>
+  Array.isArray(value) && value.length > 0 && value.every(isRecord);
+
+const toTableWidget = (key: string, records: Array<Record<string, unknown>>): { widget: ReportWidget; rows: ReportTableRow[] } => {
+  const rows = records.map(record => {
+    const row: ReportTableRow = {};
+    Object.entries(record).forEach(([field, value]) => {
+      row[field] = value === null || value === undefined || value instanceof Date || typeof value !== 'object'
+        ? value as ReportTableRow[string]
+        : describeValue(value);
+    });
+    return row;
+  });
+
+  const keys = Array.from(new Set(rows.slice(0, 100).flatMap(row => Object.keys(row))));
+  const columns = keys.map((field): ReportTableColumn => {
+    const values = rows.map(row => row[field]).filter(value => value !== null && value !== undefined);
+    const numeric = values.length > 0 && values.every(value => typeof value === 'number');
+    return {
+      key: field,
+      label: toFieldLabel(field),
+      format: !numeric ? 'text' : values.every(value => Number.isInteger(value)) ? 'number' : 'decimal'
+    };
+  });
+
+  return { widget: { id: key, type: 'table', title: toFieldLabel(key), dataKey: key, columns }, rows };
+};
+
+/**
+ * Turn an export request payload into a report. Payloads that carry their own
+ * definition and data are used as-is. Otherwise chart data becomes a chart,
+ * arrays of records become tables and remaining fields a details table.
+ */
+export const reportFromExportPayload = (
+  payload: unknown,
+  fallbackTitle = 'Dashboard Export'
+): { definition: ReportDefinition; data: ReportData } => {
+  if (isRecord(payload) && isRecord(payload.definition) && Array.isArray(payload.definition.widgets)) {
+    return { definition: payload.definition as unknown as ReportDefinition, data: (payload.data || {}) as ReportData };
+  }
+
+  const fields = isRecord(payload) && !isChartData(payload) ? payload : { data: payload };
+  const { title, filters, ...rest } = fields;
+  const widgets: ReportWidget[] = [];
+  const data: ReportData = {};
+  const details: ReportTableRow[] = [];
+
+  Object.entries(rest).forEach(([key, value]) => {
+    if (value === undefined || value === null) return;
+
+    if (isChartData(value)) {
+      const chart = value as ChartData;
+      widgets.push({
+        id: key,
+        type: 'chart',
+        chart: (chart.labels?.length ?? 0) > 12 ? 'line' : 'bar',
+        title: chart.metadata?.title || toFieldLabel(key),
+        dataKey: key
+      });
+      data[key] = chart;
+    } else if (isRecordArray(value)) {
+      const table = toTableWidget(key, value);
+      widgets.push(table.widget);
+      data[key] = table.rows;
+    } else {
+      details.push({ field: key, value: describeValue(value) });
+    }
+  });
+
+  if (details.length > 0 || widgets.length === 0) {
+    widgets.push({
+      id: 'details',
+      type: 'table',
+      title: 'Details',
+      dataKey: 'details',
+      columns: [
+        { key: 'field', label: 'Field', format: 'text' },
+        { key: 'value', label: 'Value', format: 'text' }
+      ]
+    });
+    data.details = details;
+  }
+
+  return {
+    definition: {
+      title: typeof title === 'string' && title ? title : fallbackTitle,
+      filters: toFilterCriteria(filters),
+      widgets
+    },
+    data
+  };
+};
@@ -0,0 +1,721 @@
+import { ExportFormat, FilterCriteria } from '../types';
+import { DATE_RANGE_PRESETS } from '../constants';
+import { apiService } from './api';
+import { configService } from './configService';
+import { Clock, ClockHandle, systemClock } from './clock';
+import { DeliveryTransport, fetchTransport } from './alertDelivery';
+import { getNextCronRun, getZonedParts, parseCron } from './refreshSchedule';
+import { tabCoordinator } from './tabCoordinator';
+
+/**
+ * Recurring report subscriptions: a page or saved layout exported with fixed or
+ * relative filters on a schedule, then emailed to recipients through the relay.
+ */
+
+export type ReportSource =
+  | { kind: 'page'; path: string }
+  | { kind: 'layout'; layoutId: string; name: string };
+
+export type RelativeDatePreset = Exclude<typeof DATE_RANGE_PRESETS[keyof typeof DATE_RANGE_PRESETS], 'custom'>;
+
+export type ReportDateRange =
+  | { kind: 'fixed'; start: string; end: string } // ISO timestamps from a filter snapshot
+  | { kind: 'relative'; preset: RelativeDatePreset }; // Resolved when the report runs
+
+export type ReportFormat = ExportFormat.PDF | ExportFormat.EXCEL;
+
+export type ReportFrequency = 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'first-business-day' | 'cron';
+
+export interface ReportSchedule {
+  frequency: ReportFrequency;
+  time: string; // HH:mm in the schedule's timezone
+  timezone: string;
+  weekday?: number | undefined; // 0 = Sunday, for weekly
+  dayOfMonth?: number | undefined; // 1-28, for monthly
+  expression?: string | undefined; // For cron; time is ignored
+  holidays?: string[] | undefined; // YYYY-MM-DD skipped by first-business-day
+}
+
+export interface ReportSubscription {
+  id: string;
+  name: string;
+  source: ReportSource;
+  filters: Omit<FilterCriteria, 'dateRange'>;
+  dateRange: ReportDateRange;
+  format: ReportFormat;
+  recipients: string[];
+  schedule: ReportSchedule;
+  enabled: boolean;
+  createdAt: string;
+  nextRunAt?: string | undefined;
+  lastRunAt?: string | undefined;
+}
+
+export type ReportRunStatus = 'running' | 'delivered' | 'partial' | 'failed';
+
+export interface ReportRecipientDelivery {
+  recipient: string;
+  status: 'pending' | 'delivered' | 'failed';
+  responseStatus?: number | undefined;
+  error?: string | undefined;
+}
+
+export interface ReportRun {
+  id: string;
+  subscriptionId: string;
+  subscriptionName: string;
+  trigger: 'schedule' | 'manual';
+  scheduledFor: string;
+  startedAt: string;
+  finishedAt?: string | undefined;
+  status: ReportRunStatus;
+  period: { start: string; end: string };
+  file?: { filename: string; size: number; mimeType: string } | undefined;
+  deliveries: ReportRecipientDelivery[];
+  error?: string | undefined;
+}
+
+export interface GeneratedReport {
+  filename: string;
+  blob: Blob;
+}
+
+export interface ReportRequest {
+  subscription: ReportSubscription;
+  filters: FilterCriteria;
+  runAt: number;
+}
+
+export type ReportGenerator = (request: ReportRequest) => Promise<GeneratedReport>;
+
+export const REPORT_PAGES: Array<{ path: string; label: string }> = [
+  { path: '/', label: 'Overview' },
+  { path: '/revenue', label: 'Revenue' },
+  { path: '/inventory', label: 'Inventory' },
+  { path: '/customers', label: 'Customers' },
+  { path: '/customer-service', label: 'Customer Service' },
+  { path: '/financial', label: 'Financial' },
+  { path: '/inventory-dashboard', label: 'Inventory Dashboard' }
+];
+
+export const REPORT_DATE_PRESETS: Array<{ value: RelativeDatePreset; label: string }> = [
+  { value: DATE_RANGE_PRESETS.TODAY, label: 'Today' },
+  { value: DATE_RANGE_PRESETS.YESTERDAY, label: 'Yesterday' },
+  { value: DATE_RANGE_PRESETS.LAST_7_DAYS, label: 'Last 7 Days' },
+  { value: DATE_RANGE_PRESETS.LAST_30_DAYS, label: 'Last 30 Days' },
+  { value: DATE_RANGE_PRESETS.THIS_MONTH, label: 'This Month' },
+  { value: DATE_RANGE_PRESETS.LAST_MONTH, label: 'Last Month' },
+  { value: DATE_RANGE_PRESETS.THIS_QUARTER, label: 'This Quarter' },
+  { value: DATE_RANGE_PRESETS.LAST_QUARTER, label: 'Last Quarter' },
+  { value: DATE_RANGE_PRESETS.THIS_YEAR, label: 'This Year' },
+  { value: DATE_RANGE_PRESETS.LAST_YEAR, label: 'Last Year' }
+];
+
+export const REPORT_FREQUENCY_LABELS: Record<ReportFrequency, string> = {
+  daily: 'Daily',
+  weekdays: 'Every weekday',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  'first-business-day': 'First business day of the month',
+  cron: 'Custom (cron)'
+};
+
+const REPORT_FILE_TYPES: Record<ReportFormat, { extension: string; mimeType: string }> = {
+  [ExportFormat.PDF]: { extension: 'pdf', mimeType: 'application/pdf' },
+  [ExportFormat.EXCEL]: { extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }
+};
+
+const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const SUBSCRIPTIONS_STORAGE_KEY = 'reportSubscriptions';
+const RUNS_STORAGE_KEY = 'reportRuns';
+const MAX_RUNS = 100;
+const MAX_KEPT_FILES = 20; // Generated files kept in memory for download
+
+const MINUTE = 60 * 1000;
+const MAX_TIMER_DELAY = 60 * MINUTE; // Re-check at least hourly so long timers don't drift
+const FOLLOWER_RECHECK = MINUTE; // Followers look again in case the leader tab went away
+const MAX_FIRST_BUSINESS_DAY_SEARCH = 24; // Months
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+const parseTime = (time: string): { hour: number; minute: number } | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+  const hour = parseInt(match[1]!, 10);
+  const minute = parseInt(match[2]!, 10);
+  return hour < 24 && minute < 60 ? { hour, minute } : null;
+};
+
+/**
+ * Cron expression equivalent of a schedule; first-business-day matches the
+ * candidate days 1-7 and is narrowed by isFirstBusinessDay
+ */
+export const toCronExpression = (schedule: ReportSchedule): string => {
+  if (schedule.frequency === 'cron') return schedule.expression || '';
+
+  const { hour, minute } = parseTime(schedule.time) || { hour: 0, minute: 0 };
+  switch (schedule.frequency) {
+    case 'weekdays':
+      return `${minute} ${hour} * * 1-5`;
+    case 'weekly':
+      return `${minute} ${hour} * * ${schedule.weekday ?? 1}`;
+    case 'monthly':
+      return `${minute} ${hour} ${schedule.dayOfMonth ?? 1} * *`;
+    case 'first-business-day':
+      return `${minute} ${hour} 1-7 * *`;
+    default:
+      return `${minute} ${hour} * * *`;
+  }
+};
+
+/**
+ * Whether a date is the first Monday-Friday of its month that isn't a holiday
+ */
+export const isFirstBusinessDay = (year: number, month: number, day: number, holidays: string[] = []): boolean => {
+  for (let candidate = 1; candidate <= day; candidate++) {
+    const weekday = new Date(Date.UTC(year, month - 1, candidate)).getUTCDay();
+    const date = `${year}-${pad(month)}-${pad(candidate)}`;
+    if (weekday !== 0 && weekday !== 6 && !holidays.includes(date)) {
+      return candidate === day;
+    }
+  }
+  return false;
+};
+
+/**
+ * Next time strictly after `from` that the schedule fires
+ */
+export const getNextReportRun = (schedule: ReportSchedule, from: number): number | null => {
+  const expression = toCronExpression(schedule);
+  if (schedule.frequency !== 'first-business-day') {
+    return getNextCronRun(expression, from, schedule.timezone);
+  }
+
+  const cron = parseCron(expression);
+  let candidate: number | null = from;
+  for (let i = 0; i < MAX_FIRST_BUSINESS_DAY_SEARCH * 7 && candidate !== null; i++) {
+    candidate = getNextCronRun(cron, candidate, schedule.timezone);
+    if (candidate === null) break;
+    const parts = getZonedParts(candidate, schedule.timezone);
+    if (isFirstBusinessDay(parts.year, parts.month, parts.day, schedule.holidays)) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+/**
+ * Start of a calendar day in a timezone; out-of-range months and days roll over
+ */
+const startOfZonedDay = (year: number, month: number, day: number, timezone: string): number => {
+  const utc = Date.UTC(year, month - 1, day);
+  const parts = getZonedParts(utc, timezone);
+  const offset = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) - utc;
+  return utc - offset;
+};
+
+/**
+ * Period a relative preset covers at `now`. Rolling presets cover whole days up
+ * to the end of yesterday, so a morning report doesn't include a partial day.
+ */
+export const resolveDatePreset = (preset: RelativeDatePreset, now: number, timezone = 'UTC'): { start: Date; end: Date } => {
+  const { year, month, day } = getZonedParts(now, timezone);
+  const quarterMonth = Math.floor((month - 1) / 3) * 3 + 1;
+  const startOf = (y: number, m: number, d: number) => startOfZonedDay(y, m, d, timezone);
+
+  const ranges: Record<RelativeDatePreset, [number, number]> = {
+    today: [startOf(year, month, day), startOf(year, month, day + 1)],
+    yesterday: [startOf(year, month, day - 1), startOf(year, month, day)],
+    last7days: [startOf(year, month, day - 7), startOf(year, month, day)],
+    last30days: [startOf(year, month, day - 30), startOf(year, month, day)],
+    thisMonth: [startOf(year, month, 1), startOf(year, month + 1, 1)],
+    lastMonth: [startOf(year, month - 1, 1), startOf(year, month, 1)],
+    thisQuarter: [startOf(year, quarterMonth, 1), startOf(year, quarterMonth + 3, 1)],
+    lastQuarter: [startOf(year, quarterMonth - 3, 1), startOf(year, quarterMonth, 1)],
+    thisYear: [startOf(year, 1, 1), startOf(year + 1, 1, 1)],
+    lastYear: [startOf(year - 1, 1, 1), startOf(year, 1, 1)]
+  };
+
+  const [start, end] = ranges[preset];
+  return { start: new Date(start), end: new Date(end - 1) };
+};
+
+/**
+ * Filters a run uses: the snapshot as saved, or the preset resolved at run time
+ */
+export const resolveReportFilters = (subscription: ReportSubscription, now: number): FilterCriteria => {
+  const { dateRange, schedule } = subscription;
+  return {
+    ...subscription.filters,
+    dateRange: dateRange.kind === 'fixed'
+      ? { start: new Date(dateRange.start), end: new Date(dateRange.end) }
+      : resolveDatePreset(dateRange.preset, now, schedule.timezone)
+  } as FilterCriteria;
+};
+
+/**
+ * Short description of a schedule for display
+ */
+export const describeReportSchedule = (schedule: ReportSchedule): string => {
+  if (schedule.frequency === 'cron') return `cron "${schedule.expression || ''}" (${schedule.timezone})`;
+
+  const at = `at ${schedule.time} ${schedule.timezone}`;
+  switch (schedule.frequency) {
+    case 'weekdays':
+      return `Weekdays ${at}`;
+    case 'weekly':
+      return `${WEEKDAY_LABELS[schedule.weekday ?? 1]}s ${at}`;
+    case 'monthly':
+      return `Monthly on day ${schedule.dayOfMonth ?? 1} ${at}`;
+    case 'first-business-day':
+      return `First business day of the month ${at}`;
+    default:
+      return `Daily ${at}`;
+  }
+};
+
+export const describeReportSource = (source: ReportSource): string =>
+  source.kind === 'layout'
+    ? `Layout: ${source.name}`
+    : REPORT_PAGES.find(page => page.path === source.path)?.label || source.path;
+
+/**
+ * Validate a subscription, returning human-readable errors
+ */
+export const validateSubscription = (subscription: Omit<ReportSubscription, 'id' | 'createdAt'>): string[] => {
+  const errors: string[] = [];
+  const { schedule } = subscription;
+
+  if (!subscription.name.trim()) errors.push('Name is required');
+  if (subscription.recipients.length === 0) errors.push('Add at least one recipient');
+  subscription.recipients
+    .filter(recipient => !EMAIL_PATTERN.test(recipient))
+    .forEach(recipient => errors.push(`Invalid email address: ${recipient}`));
+
+  if (subscription.dateRange.kind === 'fixed' && new Date(subscription.dateRange.start) > new Date(subscription.dateRange.end)) {
+    errors.push('Date range must end after it starts');
+  }
+
+  if (schedule.frequency === 'cron') {
+    try {
+      parseCron(schedule.expression || '');
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  } else if (!parseTime(schedule.time)) {
+    errors.push('Time must be HH:mm');
+  }
+
+  if (schedule.frequency === 'monthly' && !(schedule.dayOfMonth! >= 1 && schedule.dayOfMonth! <= 28)) {
+    errors.push('Day of month must be between 1 and 28');
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: schedule.timezone });
+  } catch {
+    errors.push(`Unknown timezone: ${schedule.timezone}`);
+  }
+
+  return errors;
+};
+
+const slugify = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report';
+
+export const getReportFilename = (subscription: ReportSubscription, runAt: number): string => {
+  const { year, month, day } = getZonedParts(runAt, subscription.schedule.timezone);
+  return `${slugify(subscription.name)}-${year}-${pad(month)}-${pad(day)}.${REPORT_FILE_TYPES[subscription.format].extension}`;
+};
+
+/**
+ * Exports through the backend export endpoint
+ */
+export const apiReportGenerator: ReportGenerator = async ({ subscription, filters, runAt }) => {
+  const blob = await apiService.exportData(subscription.format === ExportFormat.EXCEL ? 'excel' : 'pdf', {
+    title: subscription.name,
+    source: subscription.source,
+    filters,
+    generatedAt: new Date(runAt).toISOString()
+  });
+  return { filename: getReportFilename(subscription, runAt), blob };
+};
+
+const toBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+};
+
+const formatPeriod = (period: ReportRun['period'], timezone: string): string => {
+  const format = (iso: string) => {
+    const { year, month, day } = getZonedParts(new Date(iso).getTime(), timezone);
+    return `${year}-${pad(month)}-${pad(day)}`;
+  };
+  const start = format(period.start);
+  const end = format(period.end);
+  return start === end ? start : `${start} to ${end}`;
+};
+
+export interface ReportSubscriptionOptions {
+  generator?: ReportGenerator;
+  transport?: DeliveryTransport;
+  clock?: Clock;
+  persist?: boolean;
+  isLeader?: () => boolean; // Only the leader tab runs schedules, so reports go out once
+}
+
+/**
+ * Keeps report subscriptions, runs them when due, emails the generated file to
+ * each recipient and records every run
+ */
+export class ReportSubscriptionService {
+  private subscriptions: ReportSubscription[] = [];
+  private runs: ReportRun[] = [];
+  private files = new Map<string, GeneratedReport>();
+  private listeners = new Set<() => void>();
+  private generator: ReportGenerator;
+  private transport: DeliveryTransport;
+  private clock: Clock;
+  private persist: boolean;
+  private isLeader: () => boolean;
+  private timer: ClockHandle | null = null;
+  private running = false;
+
+  constructor(options: ReportSubscriptionOptions = {}) {
+    this.generator = options.generator || apiReportGenerator;
+    this.transport = options.transport || fetchTransport;
+    this.clock = options.clock || systemClock;
+    this.isLeader = options.isLeader || (() => true);
+
+    this.persist = options.persist !== false && typeof localStorage !== 'undefined';
+    if (this.persist) {
+      this.load();
+      // A run still marked running was cut off when its tab closed
+      this.runs = this.runs.map(run => (run.status === 'running'
+        ? { ...run, status: 'failed', error: run.error || 'Interrupted before delivery finished' }
+        : run));
+    }
+  }
+
+  /**
+   * Start the scheduler; runs missed while no tab was open go out once, right away
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.tick();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Subscription management
+  getSubscriptions(): ReportSubscription[] {
+    return this.subscriptions.map(subscription => ({ ...subscription }));
+  }
+
+  createSubscription(input: Omit<ReportSubscription, 'id' | 'createdAt' | 'nextRunAt' | 'lastRunAt'>): ReportSubscription {
+    const errors = validateSubscription(input);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    const now = this.clock.now();
+    const subscription: ReportSubscription = {
+      ...input,
+      id: `report_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date(now).toISOString()
+    };
+    subscription.nextRunAt = this.computeNextRun(subscription, now);
+
+    this.subscriptions = [...this.subscriptions, subscription];
+    this.changed();
+    return { ...subscription };
+  }
+
+  updateSubscription(subscription: ReportSubscription): void {
+    const errors = validateSubscription(subscription);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    // Schedule changes take effect from now rather than from the old next run
+    const updated = { ...subscription, nextRunAt: this.computeNextRun(subscription, this.clock.now()) };
+    this.subscriptions = this.subscriptions.map(s => (s.id === subscription.id ? updated : s));
+    this.changed();
+  }
+
+  setEnabled(subscriptionId: string, enabled: boolean): void {
+    const subscription = this.subscriptions.find(s => s.id === subscriptionId);
+    if (subscription) {
+      this.updateSubscription({ ...subscription, enabled });
+    }
+  }
+
+  deleteSubscription(subscriptionId: string): void {
+    this.subscriptions = this.subscriptions.filter(s => s.id !== subscriptionId);
+    this.changed();
+  }
+
+  // Run history
+  getRuns(subscriptionId?: string): ReportRun[] {
+    return this.runs
+      .filter(run => !subscriptionId || run.subscriptionId === subscriptionId)
+      .map(run => ({ ...run, deliveries: run.deliveries.map(delivery => ({ ...delivery })) }));
+  }
+
+  /**
+   * The generated file of a recent run, while it is still kept in memory
+   */
+  getRunFile(runId: string): GeneratedReport | undefined {
+    return this.files.get(runId);
+  }
+
+  clearRuns(): void {
+    this.runs = this.runs.filter(run => run.status === 'running');
+    this.files.clear();
+    this.notify();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Generate and send a subscription now, outside its schedule
+   */
+  async runNow(subscriptionId: string): Promise<ReportRun | null> {
+    const subscription = this.subscriptions.find(s => s.id === subscriptionId);
+    return subscription ? this.execute(subscription, 'manual', this.clock.now()) : null;
+  }
+
+  /**
+   * Send a run's file again to the recipients it failed to reach
+   */
+  async retryFailedDeliveries(runId: string): Promise<ReportRun | null> {
+    const run = this.runs.find(r => r.id === runId);
+    const file = this.files.get(runId);
+    const subscription = this.subscriptions.find(s => s.id === run?.subscriptionId);
+    if (!run || !file || !subscription) return null;
+
+    run.status = 'running';
+    this.notify();
+    await this.deliver(run, subscription, file, run.deliveries.filter(delivery => delivery.status === 'failed'));
+    return this.finish(run);
+  }
+
+  private computeNextRun(subscription: ReportSubscription, from: number): string | undefined {
+    if (!subscription.enabled) return undefined;
+    const next = getNextReportRun(subscription.schedule, from);
+    return next !== null ? new Date(next).toISOString() : undefined;
+  }
+
+  private tick(): void {
+    this.timer = null;
+    if (!this.running) return;
+
+    // Another tab may have run or edited subscriptions since we last looked
+    if (this.persist) this.load();
+
+    const now = this.clock.now();
+    const due = this.subscriptions.filter(s => s.enabled && s.nextRunAt && new Date(s.nextRunAt).getTime() <= now);
+    const leader = this.isLeader();
+
+    if (leader) {
+      due.forEach(subscription => {
+        void this.execute(subscription, 'schedule', new Date(subscription.nextRunAt!).getTime());
+      });
+    }
+
+    const upcoming = this.subscriptions
+      .filter(s => s.enabled && s.nextRunAt)
+      .map(s => new Date(s.nextRunAt!).getTime());
+    let delay = upcoming.length > 0 ? Math.max(0, Math.min(...upcoming) - now) : MAX_TIMER_DELAY;
+    if (!leader && due.length > 0) delay = FOLLOWER_RECHECK;
+
+    // Running a due subscription already re-armed the timer through changed()
+    if (this.timer !== null) this.clock.clearTimeout(this.timer);
+    this.timer = this.clock.setTimeout(() => this.tick(), Math.min(delay, MAX_TIMER_DELAY));
+  }
+
+  private async execute(subscription: ReportSubscription, trigger: ReportRun['trigger'], scheduledFor: number): Promise<ReportRun> {
+    const now = this.clock.now();
+    const filters = resolveReportFilters(subscription, now);
+    const run: ReportRun = {
+      id: `run_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      subscriptionId: subscription.id,
+      subscriptionName: subscription.name,
+      trigger,
+      scheduledFor: new Date(scheduledFor).toISOString(),
+      startedAt: new Date(now).toISOString(),
+      status: 'running',
+      period: { start: filters.dateRange.start.toISOString(), end: filters.dateRange.end.toISOString() },
+      deliveries: subscription.recipients.map(recipient => ({ recipient, status: 'pending' }))
+    };
+
+    this.runs = [run, ...this.runs].slice(0, MAX_RUNS);
+    if (trigger === 'schedule') {
+      // Advance before generating so a slow export can't fire the same run twice
+      this.subscriptions = this.subscriptions.map(s => (s.id === subscription.id
+        ? { ...s, lastRunAt: run.startedAt, nextRunAt: this.computeNextRun(s, now) }
+        : s));
+      this.changed();
+    } else {
+      this.notify();
+    }
+
+    let file: GeneratedReport;
+    try {
+      file = await this.generator({ subscription, filters, runAt: now });
+    } catch (error) {
+      run.error = error instanceof Error ? error.message : String(error);
+      run.deliveries.forEach(delivery => {
+        delivery.status = 'failed';
+        delivery.error = 'Report was not generated';
+      });
+      configService.log('warn', `Report "${subscription.name}" failed to generate:`, run.error);
+      return this.finish(run);
+    }
+
+    run.file = { filename: file.filename, size: file.blob.size, mimeType: file.blob.type || REPORT_FILE_TYPES[subscription.format].mimeType };
+    this.keepFile(run.id, file);
+    this.notify();
+
+    await this.deliver(run, subscription, file, run.deliveries);
+    return this.finish(run);
+  }
+
+  private async deliver(
+    run: ReportRun,
+    subscription: ReportSubscription,
+    file: GeneratedReport,
+    deliveries: ReportRecipientDelivery[]
+  ): Promise<void> {
+    let content: string;
+    try {
+      content = await toBase64(file.blob);
+    } catch (error) {
+      deliveries.forEach(delivery => {
+        delivery.status = 'failed';
+        delivery.error = error instanceof Error ? error.message : String(error);
+      });
+      return;
+    }
+
+    const period = formatPeriod(run.period, subscription.schedule.timezone);
+    const subject = `${subscription.name} (${period})`;
+    const text = [
+      `${describeReportSource(subscription.source)} report for ${period}.`,
+      `Schedule: ${describeReportSchedule(subscription.schedule)}`,
+      `Attached: ${file.filename}`
+    ].join('\n');
+
+    // One message per recipient so a bad address doesn't block the rest
+    await Promise.all(deliveries.map(async delivery => {
+      try {
+        const response = await this.transport({
+          url: configService.alertEmailRelayUrl,
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            from: configService.reportEmailFrom,
+            to: [delivery.recipient],
+            subject,
+            text,
+            attachments: [{ filename: file.filename, contentType: run.file!.mimeType, content, encoding: 'base64' }]
+          })
+        });
+        delivery.responseStatus = response.status;
+        if (response.status < 200 || response.status >= 300) {
+          throw new Error(`HTTP ${response.status}${response.body ? `: ${response.body.slice(0, 200)}` : ''}`);
+        }
+        delivery.status = 'delivered';
+        delivery.error = undefined;
+      } catch (error) {
+        delivery.status = 'failed';
+        delivery.error = error instanceof Error ? error.message : String(error);
+      }
+    }));
+  }
+
+  private finish(run: ReportRun): ReportRun {
+    const delivered = run.deliveries.filter(delivery => delivery.status === 'delivered').length;
+    run.status = delivered === run.deliveries.length && !run.error
+      ? 'delivered'
+      : delivered > 0 ? 'partial' : 'failed';
+    run.finishedAt = new Date(this.clock.now()).toISOString();
+    this.notify();
+    return { ...run, deliveries: run.deliveries.map(delivery => ({ ...delivery })) };
+  }
+
+  private keepFile(runId: string, file: GeneratedReport): void {
+    this.files.set(runId, file);
+    while (this.files.size > MAX_KEPT_FILES) {
+      this.files.delete(this.files.keys().next().value as string);
+    }
+  }
+
+  private changed(): void {
+    this.save();
+    this.notify();
+    if (this.running) {
+      if (this.timer !== null) this.clock.clearTimeout(this.timer);
+      this.timer = this.clock.setTimeout(() => this.tick(), 0);
+    }
+  }
+
+  private notify(): void {
+    this.saveRuns();
+    this.listeners.forEach(listener => listener());
+  }
+
+  private load(): void {
+    try {
+      const subscriptions = localStorage.getItem(SUBSCRIPTIONS_STORAGE_KEY);
+      if (subscriptions) this.subscriptions = JSON.parse(subscriptions);
+      const runs = localStorage.getItem(RUNS_STORAGE_KEY);
+      if (runs) {
+        // Keep our own run objects, which in-flight runs are still updating
+        const ours = new Map(this.runs.map(run => [run.id, run]));
+        this.runs = (JSON.parse(runs) as ReportRun[]).map(run => ours.get(run.id) || run);
+      }
+    } catch (error) {
+      console.error('Failed to load report subscriptions:', error);
+    }
+  }
+
+  private save(): void {
+    if (!this.persist) return;
+    try {
+      localStorage.setItem(SUBSCRIPTIONS_STORAGE_KEY, JSON.stringify(this.subscriptions));
+    } catch (error) {
+      console.error('Failed to save report subscriptions:', error);
+    }
+  }
+
+  private saveRuns(): void {
+    if (!this.persist) return;
+    try {
+      localStorage.setItem(RUNS_STORAGE_KEY, JSON.stringify(this.runs));
+    } catch (error) {
+      console.error('Failed to save report runs:', error);
+    }
+  }
+}
+
+export const reportSubscriptionService = new ReportSubscriptionService({ isLeader: () => tabCoordinator.isLeader() });
+export default reportSubscriptionService;
@@ -0,0 +1,412 @@
+import { BusinessMetrics, ChartData, FilterCriteria, WidgetType } from '../types';
+import { DEFAULT_CURRENCY } from '../constants';
+import { apiService } from './api';
+import {
+  ReportChartKind,
+  ReportData,
+  ReportDefinition,
+  ReportOrientation,
+  ReportPageSize,
+  ReportValueFormat,
+  ReportWidget,
+  formatReportValue,
+  summarizeFilters
+} from './reportDefinition';
+import { RenderedReport, ReportOutputFormat, renderReport } from './reportPipeline';
+
+/**
+ * Report templates: sections of dashboard widgets, text blocks and page breaks
+ * composed in the report builder, then rendered through the report pipeline
+ * for whatever filters they are generated with.
+ */
+
+export type ReportTemplateBlock =
+  | { id: string; kind: 'widget'; widgetType: WidgetType; title: string; source: string } // Source key from getTemplateSources
+  | { id: string; kind: 'text'; text: string } // May contain {metric.path} placeholders
+  | { id: string; kind: 'pageBreak' };
+
+export interface ReportTemplateSection {
+  id: string;
+  title: string;
+  blocks: ReportTemplateBlock[];
+}
+
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  description?: string | undefined;
+  header?: string | undefined; // Placeholders allowed
+  footer?: string | undefined;
+  pageSize: ReportPageSize;
+  orientation: ReportOrientation;
+  sections: ReportTemplateSection[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ReportTemplateDraft = Omit<ReportTemplate, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type ReportTemplateChart = 'revenue' | 'inventory' | 'customers';
+
+/**
+ * Data a template is generated from, as returned by apiService.getDashboardData
+ */
+export interface ReportTemplateData {
+  metrics: BusinessMetrics;
+  revenue?: ChartData;
+  inventory?: ChartData;
+  customers?: ChartData;
+}
+
+export interface ReportTemplateSource {
+  key: string;
+  label: string;
+  format: ReportValueFormat;
+}
+
+export interface RenderTemplateOptions {
+  filters?: FilterCriteria;
+  currency?: string;
+  locale?: string;
+  generatedAt?: Date;
+}
+
+export const REPORT_TEMPLATE_CHARTS: Array<ReportTemplateSource & { key: ReportTemplateChart }> = [
+  { key: 'revenue', label: 'Revenue', format: 'currency' },
+  { key: 'inventory', label: 'Inventory', format: 'number' },
+  { key: 'customers', label: 'Customers', format: 'number' }
+];
+
+export const REPORT_TEMPLATE_METRICS: ReportTemplateSource[] = [
+  { key: 'revenue.total', label: 'Total Revenue', format: 'currency' },
+  { key: 'revenue.growth', label: 'Revenue Growth', format: 'percent' },
+  { key: 'costs.total', label: 'Total Costs', format: 'currency' },
+  { key: 'costs.operational', label: 'Operational Costs', format: 'currency' },
+  { key: 'costs.marketing', label: 'Marketing Costs', format: 'currency' },
+  { key: 'costs.logistics', label: 'Logistics Costs', format: 'currency' },
+  { key: 'costs.growth', label: 'Cost Growth', format: 'percent' },
+  { key: 'inventory.lowStock', label: 'Low Stock Items', format: 'number' },
+  { key: 'inventory.outOfStock', label: 'Out of Stock Items', format: 'number' },
+  { key: 'inventory.utilizationRate', label: 'Inventory Utilization', format: 'percent' },
+  { key: 'customers.satisfaction', label: 'Customer Satisfaction', format: 'decimal' },
+  { key: 'customers.supportTickets.open', label: 'Open Support Tickets', format: 'number' }
+];
+
+// Placeholders that describe the report rather than a metric
+export const REPORT_TEMPLATE_VARIABLES: Array<{ key: string; label: string }> = [
+  { key: 'title', label: 'Template name' },
+  { key: 'date', label: 'Generation date' },
+  { key: 'period', label: 'Filtered period' }
+];
+
+export const MISSING_PLACEHOLDER_VALUE = 'n/a';
+
+const TEMPLATES_STORAGE_KEY = 'reportTemplates';
+
+// {path} or {path|format}, e.g. {revenue.growth} or {revenue.total|currency}
+const PLACEHOLDER_PATTERN = /\{([a-zA-Z][\w.]*)(?:\|(number|decimal|currency|percent))?\}/g;
+
+const CHART_KINDS: Partial<Record<WidgetType, ReportChartKind>> = {
+  [WidgetType.LINE_CHART]: 'line',
+  [WidgetType.BAR_CHART]: 'bar',
+  [WidgetType.PIE_CHART]: 'pie',
+  [WidgetType.DOUGHNUT_CHART]: 'doughnut'
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const createTemplateId = (prefix: string): string =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * A new template with one empty section
+ */
+export const createTemplateDraft = (name = 'Untitled Report'): ReportTemplateDraft => ({
+  name,
+  pageSize: 'a4',
+  orientation: 'portrait',
+  footer: '{title} - {period}',
+  sections: [{ id: createTemplateId('section'), title: 'Summary', blocks: [] }]
+});
+
+/**
+ * Data sources a widget type can show: charts for chart widgets, percentages
+ * for gauges and any metric for KPIs
+ */
+export const getTemplateSources = (widgetType: WidgetType): ReportTemplateSource[] => {
+  if (CHART_KINDS[widgetType]) return REPORT_TEMPLATE_CHARTS;
+  if (widgetType === WidgetType.GAUGE_CHART) return REPORT_TEMPLATE_METRICS.filter(metric => metric.format === 'percent');
+  return REPORT_TEMPLATE_METRICS;
+};
+
+/**
+ * Value at a dotted path such as 'customers.supportTickets.open'
+ */
+export const getMetricValue = (metrics: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>((value, key) =>
+    (isRecord(value) && Object.prototype.hasOwnProperty.call(value, key) ? value[key] : undefined), metrics);
+
+/**
+ * Distinct placeholder names used in a text
+ */
+export const getPlaceholders = (text: string): string[] =>
+  Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[1]!)));
+
+export interface PlaceholderContext {
+  metrics: unknown;
+  variables: Record<string, string>;
+  currency: string;
+  locale: string;
+}
+
+/**
+ * Replace placeholders with metric values. Numbers are formatted as plain
+ * decimals unless the placeholder names a format; missing values print n/a.
+ */
+export const fillPlaceholders = (text: string, context: PlaceholderContext): string =>
+  text.replace(PLACEHOLDER_PATTERN, (_match, name: string, format?: ReportValueFormat) => {
+    if (Object.prototype.hasOwnProperty.call(context.variables, name)) return context.variables[name]!;
+    const value = getMetricValue(context.metrics, name);
+    if (typeof value === 'number' && isFinite(value)) return formatReportValue(value, format || 'decimal', context);
+    if (typeof value === 'string') return value;
+    return MISSING_PLACEHOLDER_VALUE;
+  });
+
+const isKnownPlaceholder = (name: string): boolean =>
+  REPORT_TEMPLATE_VARIABLES.some(variable => variable.key === name) ||
+  REPORT_TEMPLATE_METRICS.some(metric => metric.key === name);
+
+/**
+ * Validate a template, returning human-readable errors
+ */
+export const validateTemplate = (template: ReportTemplateDraft): string[] => {
+  const errors: string[] = [];
+  if (!template.name.trim()) errors.push('Name is required');
+
+  const blocks = template.sections.flatMap(section => section.blocks);
+  if (!blocks.some(block => block.kind !== 'pageBreak')) errors.push('Add at least one widget or text block');
+
+  const texts = [template.header || '', template.footer || ''];
+  blocks.forEach(block => {
+    if (block.kind === 'text') texts.push(block.text);
+    if (block.kind === 'widget' && !getTemplateSources(block.widgetType).some(source => source.key === block.source)) {
+      errors.push(`Choose data for "${block.title || 'Untitled widget'}"`);
+    }
+  });
+
+  Array.from(new Set(texts.flatMap(getPlaceholders)))
+    .filter(name => !isKnownPlaceholder(name))
+    .forEach(name => errors.push(`Unknown placeholder: {${name}}`));
+  return errors;
+};
+
+const formatDate = (date: Date): string => date.toISOString().split('T')[0]!;
+
+const toWidget = (
+  block: Extract<ReportTemplateBlock, { kind: 'widget' }>,
+  source: ReportTemplateData
+): { widget: ReportWidget; data: ReportData[string] } => {
+  const base = { id: block.id, title: block.title, dataKey: block.id };
+  const chart = CHART_KINDS[block.widgetType];
+  if (chart) {
+    const config = REPORT_TEMPLATE_CHARTS.find(entry => entry.key === block.source);
+    return {
+      widget: { ...base, type: 'chart', chart, valueFormat: config?.format },
+      data: config ? source[config.key] : undefined
+    };
+  }
+
+  const metric = REPORT_TEMPLATE_METRICS.find(entry => entry.key === block.source);
+  const value = getMetricValue(source.metrics, block.source);
+  const content = typeof value === 'number' && isFinite(value) ? value : undefined;
+  if (block.widgetType === WidgetType.GAUGE_CHART) {
+    return {
+      widget: { ...base, type: 'gauge', valueFormat: metric?.format },
+      data: content === undefined ? undefined : { value: content, min: 0, max: 100 }
+    };
+  }
+  return {
+    widget: { ...base, type: 'kpi', valueFormat: metric?.format },
+    data: content === undefined ? undefined : { value: content }
+  };
+};
+
+/**
+ * Turn a template into a report definition and its data. Section titles
+ * become headings and placeholders are filled from the metrics.
+ */
+export const buildTemplateReport = (
+  template: ReportTemplateDraft,
+  source: ReportTemplateData,
+  options: RenderTemplateOptions = {}
+): { definition: ReportDefinition; data: ReportData } => {
+  const currency = options.currency || DEFAULT_CURRENCY;
+  const locale = options.locale || 'en-US';
+  const generatedAt = options.generatedAt || new Date();
+  const context: PlaceholderContext = {
+    metrics: source.metrics,
+    variables: {
+      title: template.name,
+      date: formatDate(generatedAt),
+      period: summarizeFilters(options.filters).find(entry => entry.label === 'Period')?.value || 'All dates'
+    },
+    currency,
+    locale
+  };
+
+  const widgets: ReportWidget[] = [];
+  const data: ReportData = {};
+  template.sections.forEach(section => {
+    if (section.title.trim()) widgets.push({ id: section.id, type: 'text', title: section.title, text: '' });
+    section.blocks.forEach(block => {
+      switch (block.kind) {
+        case 'widget': {
+          const entry = toWidget(block, source);
+          widgets.push(entry.widget);
+          data[block.id] = entry.data;
+          break;
+        }
+        case 'text':
+          widgets.push({ id: block.id, type: 'text', text: fillPlaceholders(block.text, context) });
+          break;
+        case 'pageBreak':
+          widgets.push({ id: block.id, type: 'pageBreak' });
+          break;
+      }
+    });
+  });
+
+  return {
+    definition: {
+      title: template.name,
+      subtitle: template.description,
+      pageSize: template.pageSize,
+      orientation: template.orientation,
+      currency,
+      locale,
+      filters: options.filters,
+      header: template.header ? fillPlaceholders(template.header, context) : undefined,
+      footer: template.footer ? fillPlaceholders(template.footer, context) : undefined,
+      widgets
+    },
+    data
+  };
+};
+
+/**
+ * Render a template with already loaded data
+ */
+export const renderTemplateReport = (
+  template: ReportTemplateDraft,
+  source: ReportTemplateData,
+  format: ReportOutputFormat,
+  options: RenderTemplateOptions = {}
+): RenderedReport => {
+  const { definition, data } = buildTemplateReport(template, source, options);
+  return renderReport(definition, data, format, { generatedAt: options.generatedAt });
+};
+
+/**
+ * Load dashboard data for the filters and render a template with it
+ */
+export const generateTemplateReport = async (
+  template: ReportTemplateDraft,
+  filters: FilterCriteria,
+  format: ReportOutputFormat,
+  options: Omit<RenderTemplateOptions, 'filters'> = {}
+): Promise<RenderedReport> => {
+  const source = await apiService.getDashboardData(filters);
+  return renderTemplateReport(template, source, format, { ...options, filters });
+};
+
+/**
+ * Keeps saved report templates in local storage
+ */
+export class ReportTemplateService {
+  private templates: ReportTemplate[] = [];
+  private listeners = new Set<() => void>();
+  private persist: boolean;
+
+  constructor(options: { persist?: boolean } = {}) {
+    this.persist = options.persist !== false && typeof localStorage !== 'undefined';
+    if (this.persist) this.load();
+  }
+
+  getTemplates(): ReportTemplate[] {
+    return this.templates.map(template => ({ ...template }));
+  }
+
+  getTemplate(templateId: string): ReportTemplate | undefined {
+    const template = this.templates.find(t => t.id === templateId);
+    return template ? { ...template } : undefined;
+  }
+
+  createTemplate(draft: ReportTemplateDraft): ReportTemplate {
+    const errors = validateTemplate(draft);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    const now = new Date().toISOString();
+    const template: ReportTemplate = { ...draft, id: createTemplateId('template'), createdAt: now, updatedAt: now };
+    this.templates = [...this.templates, template];
+    this.changed();
+    return { ...template };
+  }
+
+  updateTemplate(template: ReportTemplate): ReportTemplate {
+    const errors = validateTemplate(template);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    const updated = { ...template, updatedAt: new Date().toISOString() };
+    this.templates = this.templates.map(t => (t.id === template.id ? updated : t));
+    this.changed();
+    return { ...updated };
+  }
+
+  duplicateTemplate(templateId: string): ReportTemplate | undefined {
+    const template = this.templates.find(t => t.id === templateId);
+    return template ? this.createTemplate({ ...template, name: `${template.name} (copy)` }) : undefined;
+  }
+
+  deleteTemplate(templateId: string): void {
+    this.templates = this.templates.filter(t => t.id !== templateId);
+    this.changed();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private changed(): void {
+    this.save();
+    this.listeners.forEach(listener => listener());
+  }
+
+  private load(): void {
+    try {
+      const templates = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+      if (templates) this.templates = JSON.parse(templates);
+    } catch (error) {
+      console.error('Failed to load report templates:', error);
+    }
+  }
+
+  private save(): void {
+    if (!this.persist) return;
+    try {
+      localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(this.templates));
+    } catch (error) {
+      console.error('Failed to save report templates:', error);
+    }
+  }
+}
+
+export const reportTemplateService = new ReportTemplateService();
+export default reportTemplateService;
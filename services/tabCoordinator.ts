@@ -0,0 +1,476 @@
+import { configService } from './configService';
+
+export type TabRole = 'leader' | 'follower' | 'candidate';
+
+export interface TabMessage<T = unknown> {
+  type: string;
+  from: string; // Sending tab id
+  term: number; // Leadership term known to the sender
+  payload?: T;
+  timestamp: number;
+}
+
+/**
+ * Message transport between tabs of the same origin
+ */
+export interface TabTransport {
+  readonly name: string;
+  post(message: TabMessage): void;
+  listen(handler: (message: TabMessage) => void): () => void;
+  close(): void;
+}
+
+export interface TabCoordinatorOptions {
+  heartbeatInterval: number; // How often the leader announces itself
+  leaderTimeout: number; // Missing heartbeats for this long triggers an election
+  electionDelay: number; // How long a candidate waits for objections before leading
+  transport?: TabTransport | null; // null runs the tab standalone (always leader)
+  autoStart: boolean;
+}
+
+export interface TabCoordinatorState {
+  tabId: string;
+  role: TabRole;
+  leaderId: string | null;
+  term: number;
+  transport: string;
+}
+
+type LeadershipListener = (isLeader: boolean) => void;
+type MessageHandler<T> = (payload: T, message: TabMessage<T>) => void;
+
+const CHANNEL_NAME = 'sap-dashboard-tabs';
+const STORAGE_KEY = 'sap-dashboard-tabs:message';
+
+// Messages used by the election protocol itself
+const CONTROL_MESSAGES = new Set(['query', 'heartbeat', 'claim', 'resign']);
+
+/**
+ * BroadcastChannel transport (structured clone, never delivered to the sender)
+ */
+export class BroadcastChannelTransport implements TabTransport {
+  readonly name = 'broadcast-channel';
+  private channel = new BroadcastChannel(CHANNEL_NAME);
+
+  post(message: TabMessage): void {
+    try {
+      this.channel.postMessage(message);
+    } catch (error) {
+      configService.log('warn', `Failed to post tab message: ${message.type}`, error);
+    }
+  }
+
+  listen(handler: (message: TabMessage) => void): () => void {
+    const listener = (event: MessageEvent<TabMessage>) => handler(event.data);
+    this.channel.addEventListener('message', listener);
+    return () => this.channel.removeEventListener('message', listener);
+  }
+
+  close(): void {
+    this.channel.close();
+  }
+}
+
+/**
+ * localStorage transport for browsers without BroadcastChannel. Storage events
+ * only fire in other tabs; the key is removed right away so repeated identical
+ * messages still produce events.
+ */
+export class StorageEventTransport implements TabTransport {
+  readonly name = 'storage';
+
+  post(message: TabMessage): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(message));
+      localStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      configService.log('warn', `Failed to post tab message: ${message.type}`, error);
+    }
+  }
+
+  listen(handler: (message: TabMessage) => void): () => void {
+    const listener = (event: StorageEvent) => {
+      if (event.key !== STORAGE_KEY || !event.newValue) return;
+      try {
+        handler(JSON.parse(event.newValue) as TabMessage);
+      } catch (error) {
+        configService.log('warn', 'Ignoring malformed tab message', error);
+      }
+    };
+    window.addEventListener('storage', listener);
+    return () => window.removeEventListener('storage', listener);
+  }
+
+  close(): void {}
+}
+
+/**
+ * In-process transport connecting coordinators that share a hub (tests, embedded views)
+ */
+export class MemoryTransport implements TabTransport {
+  readonly name = 'memory';
+  private handlers = new Set<(message: TabMessage) => void>();
+
+  constructor(private hub: Set<MemoryTransport>) {
+    hub.add(this);
+  }
+
+  post(message: TabMessage): void {
+    this.hub.forEach(transport => {
+      if (transport !== this) {
+        transport.handlers.forEach(handler => handler(message));
+      }
+    });
+  }
+
+  listen(handler: (message: TabMessage) => void): () => void {
+    this.handlers.add(handler);
+    return () => this.handlers.delete(handler);
+  }
+
+  close(): void {
+    this.handlers.clear();
+    this.hub.delete(this);
+  }
+}
+
+/**
+ * Pick the best transport available in this environment
+ */
+export const createDefaultTransport = (): TabTransport | null => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    return new BroadcastChannelTransport();
+  }
+  if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
+    return new StorageEventTransport();
+  }
+  return null;
+};
+
+const createTabId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Elects a single leader among open dashboard tabs so shared work (refresh
+ * jobs, the realtime stream) runs once. The leader sends heartbeats; followers
+ * start an election when they stop. Conflicts resolve by higher term, then by
+ * lower tab id. A tab becoming visible takes over leadership.
+ */
+export class TabCoordinator {
+  readonly tabId = createTabId();
+  private options: TabCoordinatorOptions;
+  private transport: TabTransport | null = null;
+  private role: TabRole = 'follower';
+  private term = 0;
+  private leaderId: string | null = null;
+  private lastHeartbeat = 0;
+  private started = false;
+  private unlisten: (() => void) | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private electionTimer: ReturnType<typeof setTimeout> | null = null;
+  private leadershipListeners: LeadershipListener[] = [];
+  private handlers = new Map<string, Set<MessageHandler<any>>>();
+
+  constructor(options: Partial<TabCoordinatorOptions> = {}) {
+    this.options = {
+      heartbeatInterval: 2000,
+      leaderTimeout: 5000,
+      electionDelay: 300,
+      autoStart: true,
+      ...options
+    };
+
+    if (this.options.autoStart) {
+      this.start();
+    }
+  }
+
+  /**
+   * Join the tab group and elect a leader
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    this.transport = this.options.transport !== undefined ? this.options.transport : createDefaultTransport();
+
+    if (!this.transport) {
+      configService.log('info', 'No cross-tab transport available, running standalone');
+      this.becomeLeader();
+      return;
+    }
+
+    this.unlisten = this.transport.listen(message => this.handleMessage(message));
+    this.heartbeatTimer = setInterval(() => this.tick(), this.options.heartbeatInterval);
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('beforeunload', this.handleUnload);
+    }
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+
+    // Ask for the current leader, elect one if nobody answers
+    this.post('query');
+    this.electionTimer = setTimeout(() => {
+      if (!this.leaderId) this.startElection();
+    }, this.options.electionDelay);
+
+    configService.log('info', `Tab coordinator started: ${this.tabId} (${this.transport.name})`);
+  }
+
+  /**
+   * Leave the tab group, handing leadership over to another tab
+   */
+  stop(): void {
+    if (!this.started) return;
+
+    if (this.role === 'leader') {
+      this.post('resign');
+    }
+
+    this.clearTimers();
+    this.unlisten?.();
+    this.unlisten = null;
+    this.transport?.close();
+    this.transport = null;
+
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('beforeunload', this.handleUnload);
+    }
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+
+    // A stopped tab runs standalone again (see isLeader)
+    this.started = false;
+    this.leaderId = null;
+    this.role = 'follower';
+  }
+
+  /**
+   * Whether this tab should run shared work. Tabs that don't coordinate always lead.
+   */
+  isLeader(): boolean {
+    return !this.started || this.role === 'leader';
+  }
+
+  /**
+   * Take over leadership from whichever tab currently holds it
+   */
+  requestLeadership(): void {
+    if (!this.started || this.role === 'leader') return;
+    this.term++;
+    configService.log('info', `Tab ${this.tabId} taking over leadership (term ${this.term})`);
+    this.becomeLeader();
+  }
+
+  /**
+   * Send a message to all other tabs
+   */
+  broadcast<T>(type: string, payload?: T): void {
+    if (CONTROL_MESSAGES.has(type)) {
+      throw new Error(`Reserved tab message type: ${type}`);
+    }
+    this.post(type, payload);
+  }
+
+  /**
+   * Handle messages of a type sent by other tabs
+   */
+  on<T>(type: string, handler: MessageHandler<T>): () => void {
+    const handlers = this.handlers.get(type) || new Set<MessageHandler<any>>();
+    handlers.add(handler);
+    this.handlers.set(type, handlers);
+
+    return () => {
+      handlers.delete(handler);
+      if (handlers.size === 0) {
+        this.handlers.delete(type);
+      }
+    };
+  }
+
+  onLeadershipChange(listener: LeadershipListener): () => void {
+    this.leadershipListeners.push(listener);
+
+    return () => {
+      const index = this.leadershipListeners.indexOf(listener);
+      if (index > -1) {
+        this.leadershipListeners.splice(index, 1);
+      }
+    };
+  }
+
+  getState(): TabCoordinatorState {
+    return {
+      tabId: this.tabId,
+      role: this.started ? this.role : 'leader',
+      leaderId: this.started ? this.leaderId : this.tabId,
+      term: this.term,
+      transport: this.transport?.name || 'none'
+    };
+  }
+
+  private handleMessage(message: TabMessage): void {
+    if (!message || message.from === this.tabId) return;
+
+    switch (message.type) {
+      case 'query':
+        if (this.role === 'leader') this.post('heartbeat');
+        break;
+      case 'heartbeat':
+        this.handleHeartbeat(message);
+        break;
+      case 'claim':
+        this.handleClaim(message);
+        break;
+      case 'resign':
+        if (message.from === this.leaderId) {
+          this.leaderId = null;
+          // Randomize slightly so remaining tabs don't all claim at once
+          this.scheduleElection(Math.random() * this.options.electionDelay);
+        }
+        break;
+      default:
+        this.dispatch(message);
+    }
+  }
+
+  private handleHeartbeat(message: TabMessage): void {
+    if (this.role === 'leader' && this.outranks(message)) {
+      // Another tab thinks it leads; reassert so it steps down
+      this.post('heartbeat');
+      return;
+    }
+
+    this.term = Math.max(this.term, message.term);
+    this.leaderId = message.from;
+    this.lastHeartbeat = Date.now();
+    this.cancelElection();
+
+    if (this.role !== 'follower') {
+      configService.log('info', `Tab ${this.tabId} following leader ${message.from} (term ${message.term})`);
+      this.setRole('follower');
+    }
+  }
+
+  private handleClaim(message: TabMessage): void {
+    if (this.role === 'leader') {
+      // Keep leading; a claim only means the candidate missed our heartbeats
+      this.term = Math.max(this.term, message.term);
+      this.post('heartbeat');
+      return;
+    }
+
+    if (this.role === 'candidate' && this.outranks(message)) return;
+
+    // Let the other candidate win, and give it time before electing again
+    this.term = Math.max(this.term, message.term);
+    this.lastHeartbeat = Date.now();
+    this.cancelElection();
+    this.setRole('follower');
+  }
+
+  /**
+   * Whether this tab wins a conflict with the sender of a message
+   */
+  private outranks(message: TabMessage): boolean {
+    if (this.term !== message.term) return this.term > message.term;
+    return this.tabId < message.from;
+  }
+
+  private tick(): void {
+    if (this.role === 'leader') {
+      this.post('heartbeat');
+    } else if (this.role === 'follower' && Date.now() - this.lastHeartbeat > this.options.leaderTimeout) {
+      configService.log('info', `Leader ${this.leaderId || 'unknown'} timed out, starting election`);
+      this.leaderId = null;
+      this.startElection();
+    }
+  }
+
+  private startElection(): void {
+    if (!this.started || this.role === 'leader') return;
+
+    this.term++;
+    this.setRole('candidate');
+    this.post('claim');
+
+    this.cancelElection();
+    this.electionTimer = setTimeout(() => {
+      if (this.role === 'candidate') this.becomeLeader();
+    }, this.options.electionDelay);
+  }
+
+  private scheduleElection(delay: number): void {
+    this.cancelElection();
+    this.electionTimer = setTimeout(() => this.startElection(), delay);
+  }
+
+  private cancelElection(): void {
+    if (this.electionTimer) {
+      clearTimeout(this.electionTimer);
+      this.electionTimer = null;
+    }
+  }
+
+  private becomeLeader(): void {
+    this.cancelElection();
+    this.leaderId = this.tabId;
+    this.setRole('leader');
+    this.post('heartbeat');
+  }
+
+  private setRole(role: TabRole): void {
+    const wasLeader = this.role === 'leader';
+    this.role = role;
+
+    const isLeader = role === 'leader';
+    if (wasLeader !== isLeader) {
+      configService.log('info', `Tab ${this.tabId} is now ${isLeader ? 'leader' : 'a follower'}`);
+      this.leadershipListeners.forEach(listener => {
+        try {
+          listener(isLeader);
+        } catch (error) {
+          configService.log('error', 'Error in leadership listener:', error);
+        }
+      });
+    }
+  }
+
+  private post(type: string, payload?: unknown): void {
+    this.transport?.post({ type, from: this.tabId, term: this.term, payload, timestamp: Date.now() });
+  }
+
+  private dispatch(message: TabMessage): void {
+    this.handlers.get(message.type)?.forEach(handler => {
+      try {
+        handler(message.payload, message);
+      } catch (error) {
+        configService.log('error', `Error in tab message handler (${message.type}):`, error);
+      }
+    });
+  }
+
+  private clearTimers(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.cancelElection();
+  }
+
+  private handleUnload = (): void => {
+    this.stop();
+  };
+
+  private handleVisibilityChange = (): void => {
+    if (!document.hidden) {
+      this.requestLeadership();
+    }
+  };
+}
+
+export const tabCoordinator = new TabCoordinator({ autoStart: configService.enableTabCoordination });
+export default tabCoordinator;
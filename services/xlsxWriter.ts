@@ -0,0 +1,437 @@
+import { createZip } from './zip';
+
+/**
+ * Native .xlsx writer: typed cells, real formulas, number formats, fonts and
+ * fills, column widths, frozen panes, merged cells, autofilters and
+ * conditional formatting. Runs without a DOM.
+ */
+
+export type XlsxValue = string | number | boolean | Date | null | undefined;
+
+export interface XlsxCellStyle {
+  numberFormat?: string | undefined; // Excel format code, e.g. '#,##0.00' or '0.0%'
+  bold?: boolean | undefined;
+  italic?: boolean | undefined;
+  fontSize?: number | undefined;
+  fontColor?: string | undefined; // #RRGGBB
+  fill?: string | undefined; // #RRGGBB
+  align?: 'left' | 'center' | 'right' | undefined;
+  wrap?: boolean | undefined;
+  borderBottom?: boolean | undefined;
+}
+
+export interface XlsxCell {
+  value?: XlsxValue; // For formulas, the cached result shown before Excel recalculates
+  formula?: string | undefined; // Without the leading '='
+  style?: XlsxCellStyle | undefined;
+}
+
+export type XlsxRow = Array<XlsxCell | XlsxValue>;
+
+/**
+ * Formatting applied by a conditional format rule when it matches
+ */
+export interface XlsxDifferentialStyle {
+  fontColor?: string | undefined; // #RRGGBB
+  fill?: string | undefined; // #RRGGBB
+  bold?: boolean | undefined;
+}
+
+export type XlsxComparison = 'equal' | 'notEqual' | 'lessThan' | 'lessThanOrEqual' | 'greaterThan' | 'greaterThanOrEqual';
+
+export type XlsxConditionalRule =
+  | { type: 'cellIs'; operator: XlsxComparison; formula: string; style: XlsxDifferentialStyle } // formula: '100' or '"critical"'
+  | { type: 'expression'; formula: string; style: XlsxDifferentialStyle }; // Relative to the range's top-left cell
+
+export interface XlsxConditionalFormat {
+  range: string; // e.g. 'C2:C40'
+  rules: XlsxConditionalRule[]; // The first matching rule wins
+}
+
+export interface XlsxSheet {
+  name: string;
+  rows: XlsxRow[];
+  columnWidths?: number[] | undefined; // In characters; omitted columns are sized to their content
+  freeze?: { rows?: number; columns?: number } | undefined;
+  merges?: string[] | undefined; // e.g. 'A1:D1'
+  autoFilter?: string | undefined; // Header row plus data, e.g. 'A1:E40'
+  conditionalFormats?: XlsxConditionalFormat[] | undefined;
+  printHeader?: string | undefined; // Printed at the top left of every page
+  printFooter?: string | undefined; // Printed at the bottom left, next to the page number
+}
+
+export interface XlsxWorkbook {
+  sheets: XlsxSheet[];
+  title?: string | undefined;
+  creator?: string | undefined;
+  created?: Date | undefined;
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const DEFAULT_DATE_FORMAT = 'yyyy-mm-dd';
+const FIRST_CUSTOM_FORMAT_ID = 164;
+const MAX_AUTO_WIDTH = 50;
+const MIN_AUTO_WIDTH = 8;
+const DAY = 24 * 60 * 60 * 1000;
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+const NS_MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const NS_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+export const escapeXml = (value: string): string =>
+  value
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Column letters for a zero-based index: 0 = A, 26 = AA
+ */
+export const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+/**
+ * A1 reference for a zero-based row and column
+ */
+export const cellRef = (row: number, column: number, absolute = false): string =>
+  absolute ? `$${columnName(column)}$${row + 1}` : `${columnName(column)}${row + 1}`;
+
+export const rangeRef = (fromRow: number, fromColumn: number, toRow: number, toColumn: number): string =>
+  `${cellRef(fromRow, fromColumn)}:${cellRef(toRow, toColumn)}`;
+
+/**
+ * Excel serial date from a Date's local wall-clock time
+ */
+export const toExcelDate = (date: Date): number =>
+  (date.getTime() - date.getTimezoneOffset() * 60000 - EXCEL_EPOCH) / DAY;
+
+/**
+ * A valid, unique sheet name: at most 31 characters and none of []:*?/\
+ */
+export const sanitizeSheetName = (name: string, taken: Set<string>): string => {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').replace(/^'+|'+$/g, '').trim().slice(0, 31) || 'Sheet';
+  let candidate = base;
+  for (let i = 2; taken.has(candidate.toLowerCase()); i++) {
+    const suffix = ` (${i})`;
+    candidate = base.slice(0, 31 - suffix.length) + suffix;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
+
+const toCell = (cell: XlsxCell | XlsxValue): XlsxCell =>
+  cell !== null && typeof cell === 'object' && !(cell instanceof Date) ? cell : { value: cell };
+
+const argb = (hex: string): string => `FF${hex.replace('#', '').toUpperCase()}`;
+
+/**
+ * Collects the distinct cell formats of a workbook into styles.xml entries
+ */
+class StyleRegistry {
+  private numberFormats = new Map<string, number>();
+  private fonts = new Map<string, number>([['{}', 0]]);
+  private fills = new Map<string, number>([['none', 0], ['gray125', 1]]);
+  private xfs = new Map<string, number>([['0|0|0|0||', 0]]);
+  private fontXml = ['<font><sz val="11"/><name val="Calibri"/><family val="2"/></font>'];
+  private fillXml = ['<fill><patternFill patternType="none"/></fill>', '<fill><patternFill patternType="gray125"/></fill>'];
+  private xfXml = ['<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'];
+  private dxfs = new Map<string, number>();
+  private dxfXml: string[] = [];
+
+  getStyleId(style: XlsxCellStyle | undefined): number {
+    if (!style) return 0;
+
+    const numFmtId = style.numberFormat ? this.getNumberFormatId(style.numberFormat) : 0;
+    const fontId = this.getFontId(style);
+    const fillId = style.fill ? this.getFillId(style.fill) : 0;
+    const borderId = style.borderBottom ? 1 : 0;
+    const alignment = style.align || style.wrap
+      ? `<alignment${style.align ? ` horizontal="${style.align}"` : ''}${style.wrap ? ' wrapText="1"' : ''}/>`
+      : '';
+
+    const key = `${numFmtId}|${fontId}|${fillId}|${borderId}|${alignment}|`;
+    let id = this.xfs.get(key);
+    if (id === undefined) {
+      id = this.xfXml.length;
+      this.xfs.set(key, id);
+      this.xfXml.push(
+        `<xf numFmtId="${numFmtId}" fontId="${fontId}" fillId="${fillId}" borderId="${borderId}" xfId="0"` +
+        `${numFmtId ? ' applyNumberFormat="1"' : ''}${fontId ? ' applyFont="1"' : ''}${fillId ? ' applyFill="1"' : ''}` +
+        `${borderId ? ' applyBorder="1"' : ''}${alignment ? ` applyAlignment="1">${alignment}</xf>` : '/>'}`
+      );
+    }
+    return id;
+  }
+
+  private getNumberFormatId(code: string): number {
+    let id = this.numberFormats.get(code);
+    if (id === undefined) {
+      id = FIRST_CUSTOM_FORMAT_ID + this.numberFormats.size;
+      this.numberFormats.set(code, id);
+    }
+    return id;
+  }
+
+  private getFontId(style: XlsxCellStyle): number {
+    const font = { b: style.bold, i: style.italic, sz: style.fontSize, c: style.fontColor };
+    if (!font.b && !font.i && !font.sz && !font.c) return 0;
+
+    const key = JSON.stringify(font);
+    let id = this.fonts.get(key);
+    if (id === undefined) {
+      id = this.fontXml.length;
+      this.fonts.set(key, id);
+      this.fontXml.push(
+        `<font>${font.b ? '<b/>' : ''}${font.i ? '<i/>' : ''}<sz val="${font.sz || 11}"/>` +
+        `${font.c ? `<color rgb="${argb(font.c)}"/>` : ''}<name val="Calibri"/><family val="2"/></font>`
+      );
+    }
+    return id;
+  }
+
+  private getFillId(color: string): number {
+    let id = this.fills.get(color);
+    if (id === undefined) {
+      id = this.fillXml.length;
+      this.fills.set(color, id);
+      this.fillXml.push(`<fill><patternFill patternType="solid"><fgColor rgb="${argb(color)}"/><bgColor indexed="64"/></patternFill></fill>`);
+    }
+    return id;
+  }
+
+  getDifferentialStyleId(style: XlsxDifferentialStyle): number {
+    const key = JSON.stringify([style.bold, style.fontColor, style.fill]);
+    let id = this.dxfs.get(key);
+    if (id === undefined) {
+      id = this.dxfXml.length;
+      this.dxfs.set(key, id);
+      const font = style.bold || style.fontColor
+        ? `<font>${style.bold ? '<b/>' : ''}${style.fontColor ? `<color rgb="${argb(style.fontColor)}"/>` : ''}</font>`
+        : '';
+      // Differential fills take their solid color from bgColor
+      const fill = style.fill
+        ? `<fill><patternFill patternType="solid"><fgColor rgb="${argb(style.fill)}"/><bgColor rgb="${argb(style.fill)}"/></patternFill></fill>`
+        : '';
+      this.dxfXml.push(`<dxf>${font}${fill}</dxf>`);
+    }
+    return id;
+  }
+
+  toXml(): string {
+    const numFmts = Array.from(this.numberFormats.entries())
+      .map(([code, id]) => `<numFmt numFmtId="${id}" formatCode="${escapeXml(code)}"/>`)
+      .join('');
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="${NS_MAIN}">` +
+      (numFmts ? `<numFmts count="${this.numberFormats.size}">${numFmts}</numFmts>` : '') +
+      `<fonts count="${this.fontXml.length}">${this.fontXml.join('')}</fonts>` +
+      `<fills count="${this.fillXml.length}">${this.fillXml.join('')}</fills>` +
+      '<borders count="2"><border><left/><right/><top/><bottom/><diagonal/></border>' +
+      '<border><left/><right/><top/><bottom style="thin"><color auto="1"/></bottom><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      `<cellXfs count="${this.xfXml.length}">${this.xfXml.join('')}</cellXfs>` +
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+      (this.dxfXml.length ? `<dxfs count="${this.dxfXml.length}">${this.dxfXml.join('')}</dxfs>` : '') +
+      '</styleSheet>';
+  }
+}
+
+const displayLength = (cell: XlsxCell): number => {
+  if (cell.value instanceof Date) return 10;
+  if (typeof cell.value === 'number') return cell.value.toFixed(2).length + 2;
+  return cell.value === null || cell.value === undefined ? 0 : String(cell.value).length;
+};
+
+const renderCell = (cell: XlsxCell, ref: string, styles: StyleRegistry): string => {
+  const style = cell.value instanceof Date && !cell.style?.numberFormat
+    ? { ...cell.style, numberFormat: DEFAULT_DATE_FORMAT }
+    : cell.style;
+  const styleId = styles.getStyleId(style);
+  const s = styleId ? ` s="${styleId}"` : '';
+  const { value } = cell;
+
+  if (cell.formula) {
+    const formula = `<f>${escapeXml(cell.formula.replace(/^=/, ''))}</f>`;
+    if (typeof value === 'number' && isFinite(value)) return `<c r="${ref}"${s}>${formula}<v>${value}</v></c>`;
+    if (typeof value === 'string') return `<c r="${ref}"${s} t="str">${formula}<v>${escapeXml(value)}</v></c>`;
+    return `<c r="${ref}"${s}>${formula}</c>`;
+  }
+
+  if (value === null || value === undefined || (typeof value === 'number' && !isFinite(value))) {
+    return styleId ? `<c r="${ref}"${s}/>` : '';
+  }
+  if (typeof value === 'number') return `<c r="${ref}"${s}><v>${value}</v></c>`;
+  if (typeof value === 'boolean') return `<c r="${ref}"${s} t="b"><v>${value ? 1 : 0}</v></c>`;
+  if (value instanceof Date) return `<c r="${ref}"${s}><v>${toExcelDate(value)}</v></c>`;
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const renderConditionalFormats = (formats: XlsxConditionalFormat[], styles: StyleRegistry): string => {
+  let priority = 0;
+  return formats
+    .filter(format => format.rules.length > 0)
+    .map(format => `<conditionalFormatting sqref="${format.range}">` +
+      format.rules.map(rule => {
+        const dxfId = styles.getDifferentialStyleId(rule.style);
+        const formula = `<formula>${escapeXml(rule.formula.replace(/^=/, ''))}</formula>`;
+        priority++;
+        return rule.type === 'cellIs'
+          ? `<cfRule type="cellIs" dxfId="${dxfId}" priority="${priority}" operator="${rule.operator}" stopIfTrue="1">${formula}</cfRule>`
+          : `<cfRule type="expression" dxfId="${dxfId}" priority="${priority}" stopIfTrue="1">${formula}</cfRule>`;
+      }).join('') +
+      '</conditionalFormatting>')
+    .join('');
+};
+
+// Header and footer text uses & for field codes, so a literal ampersand is doubled
+const headerFooterText = (text: string): string => escapeXml(text.replace(/&/g, '&&'));
+
+const renderHeaderFooter = (sheet: XlsxSheet): string => {
+  if (!sheet.printHeader && !sheet.printFooter) return '';
+  return '<headerFooter>' +
+    (sheet.printHeader ? `<oddHeader>&amp;L${headerFooterText(sheet.printHeader)}</oddHeader>` : '') +
+    `<oddFooter>${sheet.printFooter ? `&amp;L${headerFooterText(sheet.printFooter)}` : ''}&amp;RPage &amp;P of &amp;N</oddFooter>` +
+    '</headerFooter>';
+};
+
+const renderSheet = (sheet: XlsxSheet, styles: StyleRegistry, selected: boolean): string => {
+  const rows = sheet.rows.map(row => row.map(toCell));
+
+  const columnCount = Math.max(0, ...rows.map(row => row.length));
+  const widths = Array.from({ length: columnCount }, (_, column) => {
+    const explicit = sheet.columnWidths?.[column];
+    if (explicit) return explicit;
+    const longest = Math.max(0, ...rows.map(row => (row[column] ? displayLength(row[column]!) : 0)));
+    return Math.min(MAX_AUTO_WIDTH, Math.max(MIN_AUTO_WIDTH, longest + 2));
+  });
+
+  const frozenRows = sheet.freeze?.rows || 0;
+  const frozenColumns = sheet.freeze?.columns || 0;
+  let pane = '';
+  if (frozenRows || frozenColumns) {
+    const activePane = frozenRows && frozenColumns ? 'bottomRight' : frozenRows ? 'bottomLeft' : 'topRight';
+    pane = `<pane${frozenColumns ? ` xSplit="${frozenColumns}"` : ''}${frozenRows ? ` ySplit="${frozenRows}"` : ''}` +
+      ` topLeftCell="${cellRef(frozenRows, frozenColumns)}" activePane="${activePane}" state="frozen"/>` +
+      `<selection pane="${activePane}"/>`;
+  }
+
+  const sheetData = rows
+    .map((row, rowIndex) => {
+      const cells = row.map((cell, column) => renderCell(cell, cellRef(rowIndex, column), styles)).join('');
+      return cells ? `<row r="${rowIndex + 1}">${cells}</row>` : '';
+    })
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="${NS_MAIN}" xmlns:r="${NS_REL}">` +
+    `<sheetViews><sheetView${selected ? ' tabSelected="1"' : ''} workbookViewId="0">${pane}</sheetView></sheetViews>` +
+    '<sheetFormatPr defaultRowHeight="15"/>' +
+    (widths.length > 0
+      ? `<cols>${widths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+      : '') +
+    `<sheetData>${sheetData}</sheetData>` +
+    (sheet.autoFilter ? `<autoFilter ref="${sheet.autoFilter}"/>` : '') +
+    (sheet.merges?.length
+      ? `<mergeCells count="${sheet.merges.length}">${sheet.merges.map(ref => `<mergeCell ref="${ref}"/>`).join('')}</mergeCells>`
+      : '') +
+    renderConditionalFormats(sheet.conditionalFormats || [], styles) +
+    '<pageMargins left="0.7" right="0.7" top="0.75" bottom="0.75" header="0.3" footer="0.3"/>' +
+    renderHeaderFooter(sheet) +
+    '</worksheet>';
+};
+
+/**
+ * Build an .xlsx file. Formulas are recalculated when the workbook opens.
+ */
+export const writeXlsx = (workbook: XlsxWorkbook): Uint8Array => {
+  if (workbook.sheets.length === 0) {
+    throw new Error('A workbook needs at least one sheet');
+  }
+
+  const styles = new StyleRegistry();
+  const taken = new Set<string>();
+  const sheets = workbook.sheets.map((sheet, index) => ({
+    name: sanitizeSheetName(sheet.name, taken),
+    autoFilter: sheet.autoFilter,
+    xml: renderSheet(sheet, styles, index === 0)
+  }));
+  // Excel tracks each sheet's filter range as a hidden defined name
+  const filterNames = sheets
+    .map((sheet, i) => sheet.autoFilter
+      ? `<definedName name="_xlnm._FilterDatabase" localSheetId="${i}" hidden="1">` +
+        `'${escapeXml(sheet.name.replace(/'/g, "''"))}'!${sheet.autoFilter.replace(/([A-Z]+)(\d+)/g, '$$$1$$$2')}</definedName>`
+      : '')
+    .join('');
+  const created = (workbook.created || new Date()).toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        sheets.map((_, i) =>
+          `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        ).join('') +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+        '<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>' +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${NS_REL}/officeDocument" Target="xl/workbook.xml"/>` +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+        `<Relationship Id="rId3" Type="${NS_REL}/extended-properties" Target="docProps/app.xml"/>` +
+        '</Relationships>'
+    },
+    {
+      name: 'docProps/core.xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+        'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+        'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+        `<dc:title>${escapeXml(workbook.title || '')}</dc:title>` +
+        `<dc:creator>${escapeXml(workbook.creator || 'Dashboard')}</dc:creator>` +
+        `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>` +
+        '</cp:coreProperties>'
+    },
+    {
+      name: 'docProps/app.xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>Dashboard</Application></Properties>`
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_REL}"><bookViews><workbookView/></bookViews><sheets>` +
+        sheets.map((sheet, i) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+        `</sheets>${filterNames ? `<definedNames>${filterNames}</definedNames>` : ''}` +
+        '<calcPr calcId="191029" fullCalcOnLoad="1"/></workbook>'
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${NS_REL}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+        `<Relationship Id="rId${sheets.length + 1}" Type="${NS_REL}/styles" Target="styles.xml"/>` +
+        '</Relationships>'
+    },
+    { name: 'xl/styles.xml', data: styles.toXml() },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: sheet.xml }))
+  ], workbook.created);
+};
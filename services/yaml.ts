@@ -0,0 +1,238 @@
+/**
+ * The YAML subset used for rule set files: block mappings and sequences, flow
+ * collections of scalars, quoted and plain scalars, and comments. Anchors, tags,
+ * multi-document streams and block scalars (`|`, `>`) are rejected.
+ */
+
+type YamlValue = null | boolean | number | string | YamlValue[] | { [key: string]: YamlValue };
+
+interface YamlLine {
+  number: number;
+  indent: number;
+  content: string;
+}
+
+const RESERVED_SCALARS = /^(true|false|null|yes|no|on|off|~)$/i;
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const PLAIN_STRING = /^[A-Za-z_/][\w .,/()@+=<>-]*$/;
+
+const formatString = (value: string): string =>
+  PLAIN_STRING.test(value) && value.trim() === value && !RESERVED_SCALARS.test(value) && !value.includes(' #')
+    ? value
+    : JSON.stringify(value);
+
+const formatKey = (key: string): string => (/^[A-Za-z_][\w.-]*$/.test(key) ? key : JSON.stringify(key));
+
+// Inline form of scalars and empty collections; null for collections that need a block
+const formatInline = (value: unknown): string | null => {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'boolean') return String(value);
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'null';
+  if (typeof value === 'string') return formatString(value);
+  if (Array.isArray(value)) return value.length === 0 ? '[]' : null;
+  if (typeof value === 'object') return Object.keys(value).length === 0 ? '{}' : null;
+  return JSON.stringify(String(value));
+};
+
+const emitLines = (value: unknown, indent: number): string[] => {
+  const pad = ' '.repeat(indent);
+
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      const inline = formatInline(item);
+      if (inline !== null) return [`${pad}- ${inline}`];
+      const [first, ...rest] = emitLines(item, indent + 2);
+      return [`${pad}- ${first!.trimStart()}`, ...rest];
+    });
+  }
+
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, child]) => child !== undefined)
+    .flatMap(([key, child]) => {
+      const inline = formatInline(child);
+      return inline !== null
+        ? [`${pad}${formatKey(key)}: ${inline}`]
+        : [`${pad}${formatKey(key)}:`, ...emitLines(child, indent + 2)];
+    });
+};
+
+/**
+ * Serialize plain data (objects, arrays, strings, numbers, booleans, null) as YAML
+ */
+export const stringifyYaml = (value: unknown): string => {
+  const inline = formatInline(value);
+  return `${inline !== null ? inline : emitLines(value, 0).join('\n')}\n`;
+};
+
+// Remove a trailing comment, ignoring `#` inside quotes
+const stripComment = (line: string): string => {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]!))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+};
+
+// Split flow collection items on top-level commas
+const splitFlowItems = (body: string, lineNumber: number): string[] => {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      throw new Error(`Line ${lineNumber}: nested flow collections are not supported`);
+    } else if (char === ',') {
+      items.push(body.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  items.push(body.slice(start).trim());
+  return items.filter((item, index) => item !== '' || index < items.length - 1);
+};
+
+const splitKey = (content: string, lineNumber: number): { key: string; rest: string } | null => {
+  const match = content.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^"'#:][^:]*?)\s*:(?:\s+(.*))?$/);
+  if (!match) return null;
+  const rawKey = match[1]!;
+  const rest = (match[2] || '').trim();
+  return { key: parseScalar(rawKey, lineNumber) as string, rest };
+};
+
+const parseScalar = (text: string, lineNumber: number): YamlValue => {
+  if (text.startsWith('"')) {
+    if (!text.endsWith('"') || text.length < 2) throw new Error(`Line ${lineNumber}: unterminated string`);
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error(`Line ${lineNumber}: invalid double-quoted string`);
+    }
+  }
+  if (text.startsWith('\'')) {
+    if (!text.endsWith('\'') || text.length < 2) throw new Error(`Line ${lineNumber}: unterminated string`);
+    return text.slice(1, -1).replace(/''/g, '\'');
+  }
+  if (/^[&*!|>%@`]/.test(text)) {
+    throw new Error(`Line ${lineNumber}: "${text[0]}" (anchors, aliases, tags and block scalars) is not supported`);
+  }
+  if (text === '' || text === '~' || /^null$/i.test(text)) return null;
+  if (/^true$/i.test(text)) return true;
+  if (/^false$/i.test(text)) return false;
+  if (NUMBER.test(text)) return Number(text);
+  return text;
+};
+
+const parseInline = (text: string, lineNumber: number): YamlValue => {
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) throw new Error(`Line ${lineNumber}: unterminated flow sequence`);
+    const body = text.slice(1, -1).trim();
+    return body === '' ? [] : splitFlowItems(body, lineNumber).map(item => parseScalar(item, lineNumber));
+  }
+  if (text.startsWith('{')) {
+    if (!text.endsWith('}')) throw new Error(`Line ${lineNumber}: unterminated flow mapping`);
+    const body = text.slice(1, -1).trim();
+    if (body === '') return {};
+    return splitFlowItems(body, lineNumber).reduce((acc, item) => {
+      const entry = splitKey(item, lineNumber);
+      if (!entry) throw new Error(`Line ${lineNumber}: expected "key: value" in flow mapping`);
+      acc[entry.key] = parseScalar(entry.rest, lineNumber);
+      return acc;
+    }, {} as Record<string, YamlValue>);
+  }
+  return parseScalar(text, lineNumber);
+};
+
+const isSequenceItem = (content: string): boolean => content === '-' || content.startsWith('- ');
+
+/**
+ * Parse a YAML document in the subset written by `stringifyYaml`. Errors name the line.
+ */
+export const parseYaml = (text: string): unknown => {
+  const lines: YamlLine[] = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const number = index + 1;
+    const indentation = raw.match(/^[ \t]*/)![0];
+    if (indentation.includes('\t') && raw.trim() !== '') {
+      throw new Error(`Line ${number}: tabs are not allowed for indentation`);
+    }
+    const content = stripComment(raw).trim();
+    if (content === '' || (content === '---' && lines.length === 0)) return;
+    if (content === '---' || content === '...') {
+      throw new Error(`Line ${number}: only one document is supported`);
+    }
+    lines.push({ number, indent: indentation.length, content });
+  });
+
+  let position = 0;
+
+  const parseNode = (indent: number): YamlValue => {
+    const line = lines[position]!;
+    if (isSequenceItem(line.content)) return parseSequence(indent);
+    if (splitKey(line.content, line.number)) return parseMapping(indent);
+    position++;
+    return parseInline(line.content, line.number);
+  };
+
+  const parseSequence = (indent: number): YamlValue[] => {
+    const items: YamlValue[] = [];
+    while (position < lines.length && lines[position]!.indent === indent && isSequenceItem(lines[position]!.content)) {
+      const line = lines[position]!;
+      const rest = line.content.slice(1).trimStart();
+      if (rest === '') {
+        position++;
+        const next = lines[position];
+        items.push(next && next.indent > indent ? parseNode(next.indent) : null);
+      } else {
+        // Parse the rest of the line as if it started its own line, so a mapping
+        // begun after "- " continues on the lines indented to match it
+        const column = indent + (line.content.length - rest.length);
+        lines[position] = { number: line.number, indent: column, content: rest };
+        items.push(parseNode(column));
+      }
+    }
+    return items;
+  };
+
+  const parseMapping = (indent: number): Record<string, YamlValue> => {
+    const result: Record<string, YamlValue> = {};
+    while (position < lines.length && lines[position]!.indent === indent && !isSequenceItem(lines[position]!.content)) {
+      const line = lines[position]!;
+      const entry = splitKey(line.content, line.number);
+      if (!entry) throw new Error(`Line ${line.number}: expected "key: value"`);
+      if (Object.prototype.hasOwnProperty.call(result, entry.key)) {
+        throw new Error(`Line ${line.number}: duplicate key "${entry.key}"`);
+      }
+      position++;
+
+      const next = lines[position];
+      if (entry.rest !== '') {
+        result[entry.key] = parseInline(entry.rest, line.number);
+      } else if (next && (next.indent > indent || (next.indent === indent && isSequenceItem(next.content)))) {
+        result[entry.key] = parseNode(next.indent);
+      } else {
+        result[entry.key] = null;
+      }
+    }
+    return result;
+  };
+
+  if (lines.length === 0) return null;
+  const value = parseNode(lines[0]!.indent);
+  if (position < lines.length) {
+    throw new Error(`Line ${lines[position]!.number}: unexpected indentation`);
+  }
+  return value;
+};